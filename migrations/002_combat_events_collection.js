@@ -0,0 +1,38 @@
+/**
+ * Migration: Create combat event collection indexes
+ * Version: 002
+ * Created: 2026-10-19T00:00:00.000Z
+ *
+ * The combatevents collection holds the persisted combat action log and the
+ * latest combat state snapshot for each encounter.
+ */
+
+/* eslint-env node */
+module.exports = {
+  version: '002',
+  description: 'Create combat event collection indexes',
+
+  /**
+   * Apply migration
+   * @param {import('mongodb').Db} db
+   */
+  async up(db) {
+    const combatEventsCollection = db.collection('combatevents');
+
+    // Action log lookups by encounter and round
+    await combatEventsCollection.createIndex({ encounterId: 1, round: 1, timestamp: 1 });
+
+    // Separate action log entries from state snapshots
+    await combatEventsCollection.createIndex({ encounterId: 1, kind: 1, timestamp: 1 });
+  },
+
+  /**
+   * Rollback migration
+   * @param {import('mongodb').Db} db
+   */
+  async down(db) {
+    const combatEventsCollection = db.collection('combatevents');
+    await combatEventsCollection.dropIndex({ encounterId: 1, round: 1, timestamp: 1 });
+    await combatEventsCollection.dropIndex({ encounterId: 1, kind: 1, timestamp: 1 });
+  }
+};
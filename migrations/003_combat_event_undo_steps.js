@@ -0,0 +1,32 @@
+/**
+ * Migration: Index combat event undo steps
+ * Version: 003
+ * Created: 2026-10-19T00:00:00.000Z
+ *
+ * Combat log entries written by a single undoable step share a stepId so
+ * undo and redo can update the whole step at once.
+ */
+
+/* eslint-env node */
+module.exports = {
+  version: '003',
+  description: 'Index combat event undo steps',
+
+  /**
+   * Apply migration
+   * @param {import('mongodb').Db} db
+   */
+  async up(db) {
+    const combatEventsCollection = db.collection('combatevents');
+    await combatEventsCollection.createIndex({ encounterId: 1, stepId: 1 });
+  },
+
+  /**
+   * Rollback migration
+   * @param {import('mongodb').Db} db
+   */
+  async down(db) {
+    const combatEventsCollection = db.collection('combatevents');
+    await combatEventsCollection.dropIndex({ encounterId: 1, stepId: 1 });
+  }
+};
@@ -0,0 +1,121 @@
+/**
+ * Migration: Convert participant conditions to structured entries
+ * Version: 004
+ * Created: 2026-10-19T00:00:00.000Z
+ *
+ * Encounter participants used to store conditions as free-text strings.
+ * They are now objects naming one of the SRD conditions with an expiry.
+ * Legacy entries that do not name an SRD condition are kept as a
+ * "Conditions: ..." line in the participant's notes, which rollback
+ * turns back into free-text conditions.
+ */
+
+/* eslint-env node */
+const CONDITION_NAMES = [
+  'blinded',
+  'charmed',
+  'deafened',
+  'exhaustion',
+  'frightened',
+  'grappled',
+  'incapacitated',
+  'invisible',
+  'paralyzed',
+  'petrified',
+  'poisoned',
+  'prone',
+  'restrained',
+  'stunned',
+  'unconscious',
+];
+
+const NOTES_PREFIX = 'Conditions: ';
+
+function isKnownCondition(condition) {
+  return typeof condition !== 'string' || CONDITION_NAMES.includes(condition.trim().toLowerCase());
+}
+
+function toStructuredCondition(condition) {
+  if (typeof condition !== 'string') {
+    return condition;
+  }
+
+  const name = condition.trim().toLowerCase();
+  return name === 'exhaustion'
+    ? { name, level: 1, expiry: 'indefinite' }
+    : { name, expiry: 'indefinite' };
+}
+
+function structureParticipantConditions(participant) {
+  const conditions = participant.conditions || [];
+  const unknown = conditions
+    .filter(condition => !isKnownCondition(condition))
+    .map(condition => condition.trim())
+    .filter(Boolean);
+
+  const notes = unknown.length
+    ? [participant.notes, NOTES_PREFIX + unknown.join(', ')].filter(Boolean).join('\n')
+    : participant.notes;
+
+  return {
+    ...participant,
+    notes,
+    conditions: conditions.filter(isKnownCondition).map(toStructuredCondition),
+  };
+}
+
+function flattenParticipantConditions(participant) {
+  const lines = (participant.notes || '').split('\n');
+  const keptLines = lines.filter(line => !line.startsWith(NOTES_PREFIX));
+  const restored = lines
+    .filter(line => line.startsWith(NOTES_PREFIX))
+    .flatMap(line => line.slice(NOTES_PREFIX.length).split(', '))
+    .filter(Boolean);
+
+  return {
+    ...participant,
+    notes: keptLines.join('\n'),
+    conditions: (participant.conditions || [])
+      .map(condition => (typeof condition === 'string' ? condition : condition && condition.name))
+      .filter(Boolean)
+      .concat(restored),
+  };
+}
+
+async function updateParticipants(db, convert) {
+  const encountersCollection = db.collection('encounters');
+  const cursor = encountersCollection.find(
+    { 'participants.0': { $exists: true } },
+    { projection: { participants: 1 } }
+  );
+
+  for await (const encounter of cursor) {
+    const participants = encounter.participants.map(convert);
+
+    await encountersCollection.updateOne(
+      { _id: encounter._id },
+      { $set: { participants } }
+    );
+  }
+}
+
+module.exports = {
+  version: '004',
+  description: 'Convert participant conditions to structured entries',
+
+  /**
+   * Apply migration
+   * @param {import('mongodb').Db} db
+   */
+  async up(db) {
+    await updateParticipants(db, structureParticipantConditions);
+  },
+
+  /**
+   * Rollback migration
+   * @param {import('mongodb').Db} db
+   */
+  async down(db) {
+    await updateParticipants(db, flattenParticipantConditions);
+  }
+};
@@ -0,0 +1,64 @@
+/**
+ * Migration: Seed SRD monster templates
+ * Version: 005
+ * Created: 2026-10-19T00:00:00.000Z
+ *
+ * Loads the SRD 5.1 bestiary into the npctemplates collection as system
+ * templates. Entries are upserted by template id so re-running the migration
+ * refreshes the seeded data without duplicating it.
+ */
+
+/* eslint-env node */
+const path = require('path');
+
+const SRD_MONSTERS = require(path.join(__dirname, '../src/lib/services/data/srd-monsters.json'));
+
+const INDEXES = [
+  { challengeRating: 1 },
+  { category: 1 },
+  { size: 1 },
+  { environments: 1 },
+  { name: 1 },
+];
+
+module.exports = {
+  version: '005',
+  description: 'Seed SRD monster templates',
+
+  /**
+   * Apply migration
+   * @param {import('mongodb').Db} db
+   */
+  async up(db) {
+    const templatesCollection = db.collection('npctemplates');
+
+    await templatesCollection.createIndex({ id: 1 }, { unique: true });
+    for (const index of INDEXES) {
+      await templatesCollection.createIndex(index);
+    }
+
+    await templatesCollection.bulkWrite(
+      SRD_MONSTERS.map(template => ({
+        replaceOne: {
+          filter: { id: template.id },
+          replacement: { ...template, isSystem: true },
+          upsert: true,
+        },
+      }))
+    );
+  },
+
+  /**
+   * Rollback migration
+   * @param {import('mongodb').Db} db
+   */
+  async down(db) {
+    const templatesCollection = db.collection('npctemplates');
+
+    await templatesCollection.deleteMany({ id: { $in: SRD_MONSTERS.map(template => template.id) } });
+    for (const index of INDEXES) {
+      await templatesCollection.dropIndex(index);
+    }
+    await templatesCollection.dropIndex({ id: 1 });
+  }
+};
@@ -15,6 +15,11 @@ jest.mock('@clerk/nextjs', () => ({
   useAuth: jest.fn(),
 }));
 
+// Mock the campaign filter options
+jest.mock('@/lib/hooks/useCampaignOptions', () => ({
+  useCampaignOptions: () => [],
+}));
+
 describe('Issue #479 - Left Navigation Authentication', () => {
   const mockUseUser = useUser as jest.MockedFunction<typeof useUser>;
   const mockUseAuth = useAuth as jest.MockedFunction<typeof useAuth>;
@@ -0,0 +1,111 @@
+import { NextRequest } from 'next/server';
+import { CampaignService } from '@/lib/services/CampaignService';
+import {
+  withAuth,
+  createSuccessResponse,
+  handleServiceError,
+} from '@/lib/api/route-helpers';
+import { campaignUpdateSchema } from '@/lib/validations/campaign';
+import { ZodError } from 'zod';
+
+/**
+ * GET /api/campaigns/[id]
+ * Get a campaign with its parties, encounter plan and session log (owner only)
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  return withAuth(async (userId) => {
+    try {
+      const { id: campaignId } = await params;
+
+      const result = await CampaignService.getCampaign(campaignId, userId);
+
+      if (!result.success) {
+        return handleServiceError(result, 'Failed to get campaign');
+      }
+
+      return createSuccessResponse({ campaign: result.data });
+    } catch (error) {
+      console.error('GET /api/campaigns/[id] error:', error);
+      return handleServiceError(
+        { error: { message: 'Internal server error' } },
+        'Failed to get campaign',
+        500
+      );
+    }
+  });
+}
+
+/**
+ * PUT /api/campaigns/[id]
+ * Update a campaign's details, parties or encounter plan (owner only)
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  return withAuth(async (userId) => {
+    try {
+      const { id: campaignId } = await params;
+      const body = await request.json();
+      const validatedData = campaignUpdateSchema.parse(body);
+
+      const result = await CampaignService.updateCampaign(campaignId, userId, validatedData);
+
+      if (!result.success) {
+        return handleServiceError(result, 'Failed to update campaign');
+      }
+
+      return createSuccessResponse(
+        { campaign: result.data },
+        'Campaign updated successfully'
+      );
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return handleServiceError(
+          { error: { message: 'Invalid campaign data', details: error.errors } },
+          'Invalid campaign data'
+        );
+      }
+
+      console.error('PUT /api/campaigns/[id] error:', error);
+      return handleServiceError(
+        { error: { message: 'Internal server error' } },
+        'Failed to update campaign',
+        500
+      );
+    }
+  });
+}
+
+/**
+ * DELETE /api/campaigns/[id]
+ * Delete a campaign (owner only)
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  return withAuth(async (userId) => {
+    try {
+      const { id: campaignId } = await params;
+
+      const result = await CampaignService.deleteCampaign(campaignId, userId);
+
+      if (!result.success) {
+        return handleServiceError(result, 'Failed to delete campaign');
+      }
+
+      return createSuccessResponse({}, 'Campaign deleted successfully');
+    } catch (error) {
+      console.error('DELETE /api/campaigns/[id] error:', error);
+      return handleServiceError(
+        { error: { message: 'Internal server error' } },
+        'Failed to delete campaign',
+        500
+      );
+    }
+  });
+}
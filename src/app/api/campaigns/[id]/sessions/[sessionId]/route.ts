@@ -0,0 +1,84 @@
+import { NextRequest } from 'next/server';
+import { CampaignService } from '@/lib/services/CampaignService';
+import {
+  withAuth,
+  createSuccessResponse,
+  handleServiceError,
+} from '@/lib/api/route-helpers';
+import { campaignSessionUpdateSchema } from '@/lib/validations/campaign';
+import { ZodError } from 'zod';
+
+/**
+ * PUT /api/campaigns/[id]/sessions/[sessionId]
+ * Update a logged session (owner only)
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; sessionId: string }> }
+) {
+  return withAuth(async (userId) => {
+    try {
+      const { id: campaignId, sessionId } = await params;
+      const body = await request.json();
+      const validatedData = campaignSessionUpdateSchema.parse(body);
+
+      const result = await CampaignService.updateSession(campaignId, sessionId, userId, validatedData);
+
+      if (!result.success) {
+        return handleServiceError(result, 'Failed to update session');
+      }
+
+      return createSuccessResponse(
+        { campaign: result.data },
+        'Session updated successfully'
+      );
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return handleServiceError(
+          { error: { message: 'Invalid session data', details: error.errors } },
+          'Invalid session data'
+        );
+      }
+
+      console.error('PUT /api/campaigns/[id]/sessions/[sessionId] error:', error);
+      return handleServiceError(
+        { error: { message: 'Internal server error' } },
+        'Failed to update session',
+        500
+      );
+    }
+  });
+}
+
+/**
+ * DELETE /api/campaigns/[id]/sessions/[sessionId]
+ * Remove a session from a campaign's log (owner only)
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; sessionId: string }> }
+) {
+  return withAuth(async (userId) => {
+    try {
+      const { id: campaignId, sessionId } = await params;
+
+      const result = await CampaignService.deleteSession(campaignId, sessionId, userId);
+
+      if (!result.success) {
+        return handleServiceError(result, 'Failed to delete session');
+      }
+
+      return createSuccessResponse(
+        { campaign: result.data },
+        'Session deleted successfully'
+      );
+    } catch (error) {
+      console.error('DELETE /api/campaigns/[id]/sessions/[sessionId] error:', error);
+      return handleServiceError(
+        { error: { message: 'Internal server error' } },
+        'Failed to delete session',
+        500
+      );
+    }
+  });
+}
@@ -0,0 +1,51 @@
+import { NextRequest } from 'next/server';
+import { CampaignService } from '@/lib/services/CampaignService';
+import {
+  withAuth,
+  createSuccessResponse,
+  handleServiceError,
+} from '@/lib/api/route-helpers';
+import { campaignSessionSchema } from '@/lib/validations/campaign';
+import { ZodError } from 'zod';
+
+/**
+ * POST /api/campaigns/[id]/sessions
+ * Add a session to a campaign's log (owner only)
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  return withAuth(async (userId) => {
+    try {
+      const { id: campaignId } = await params;
+      const body = await request.json();
+      const validatedData = campaignSessionSchema.parse(body);
+
+      const result = await CampaignService.addSession(campaignId, userId, validatedData);
+
+      if (!result.success) {
+        return handleServiceError(result, 'Failed to add session');
+      }
+
+      return createSuccessResponse(
+        { campaign: result.data },
+        'Session logged successfully'
+      );
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return handleServiceError(
+          { error: { message: 'Invalid session data', details: error.errors } },
+          'Invalid session data'
+        );
+      }
+
+      console.error('POST /api/campaigns/[id]/sessions error:', error);
+      return handleServiceError(
+        { error: { message: 'Internal server error' } },
+        'Failed to add session',
+        500
+      );
+    }
+  });
+}
@@ -0,0 +1,97 @@
+import { NextRequest } from 'next/server';
+import { CampaignService } from '@/lib/services/CampaignService';
+import {
+  withAuth,
+  createSuccessResponse,
+  handleServiceError,
+} from '@/lib/api/route-helpers';
+import {
+  campaignCreateSchema,
+  campaignQuerySchema,
+} from '@/lib/validations/campaign';
+import { ZodError } from 'zod';
+
+/**
+ * GET /api/campaigns
+ * Get the authenticated user's campaigns
+ * Supports search, status filtering, sorting and pagination via query parameters
+ */
+export async function GET(request: NextRequest) {
+  return withAuth(async (userId) => {
+    try {
+      const searchParams = Object.fromEntries(new URL(request.url).searchParams.entries());
+
+      const query = campaignQuerySchema.parse({
+        search: searchParams.search || undefined,
+        status: searchParams.status || undefined,
+        sortBy: searchParams.sortBy || undefined,
+        sortOrder: searchParams.sortOrder || undefined,
+        page: parseInt(searchParams.page || '1', 10),
+        limit: Math.min(parseInt(searchParams.limit || '20', 10), 100), // Cap at 100
+      });
+
+      const result = await CampaignService.listCampaigns(userId, query);
+
+      if (!result.success) {
+        return handleServiceError(result, 'Failed to get campaigns');
+      }
+
+      return createSuccessResponse({
+        campaigns: result.data?.campaigns || [],
+        pagination: result.data?.pagination,
+      });
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return handleServiceError(
+          { error: { message: 'Invalid query parameters', details: error.errors } },
+          'Invalid query parameters'
+        );
+      }
+
+      console.error('GET /api/campaigns error:', error);
+      return handleServiceError(
+        { error: { message: 'Internal server error' } },
+        'Failed to get campaigns',
+        500
+      );
+    }
+  });
+}
+
+/**
+ * POST /api/campaigns
+ * Create a new campaign for the authenticated user
+ */
+export async function POST(request: NextRequest) {
+  return withAuth(async (userId) => {
+    try {
+      const body = await request.json();
+      const validatedData = campaignCreateSchema.parse(body);
+
+      const result = await CampaignService.createCampaign(userId, validatedData);
+
+      if (!result.success) {
+        return handleServiceError(result, 'Failed to create campaign');
+      }
+
+      return createSuccessResponse(
+        { campaign: result.data },
+        'Campaign created successfully'
+      );
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return handleServiceError(
+          { error: { message: 'Invalid campaign data', details: error.errors } },
+          'Invalid campaign data'
+        );
+      }
+
+      console.error('POST /api/campaigns error:', error);
+      return handleServiceError(
+        { error: { message: 'Internal server error' } },
+        'Failed to create campaign',
+        500
+      );
+    }
+  });
+}
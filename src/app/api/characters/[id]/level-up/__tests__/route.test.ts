@@ -0,0 +1,88 @@
+import { describe, it, expect, beforeEach } from '@jest/globals';
+import { GET, POST } from '../route';
+import { TEST_USER_ID, TEST_CHARACTER_ID, createMockParams } from '../../../__tests__/test-helpers';
+import {
+  mockCharacterService,
+  createAuthenticatedRequest,
+  expectSuccessfulResponse,
+} from '../../../__tests__/shared-test-utils';
+
+jest.mock('@/lib/services/CharacterService');
+jest.mock('@/lib/db');
+
+jest.mock('@clerk/nextjs/server', () => ({
+  auth: jest.fn(),
+}));
+
+const { auth } = require('@clerk/nextjs/server');
+const mockAuth = auth as jest.MockedFunction<typeof auth>;
+
+const levelUpUrl = `http://localhost:3000/api/characters/${TEST_CHARACTER_ID}/level-up`;
+
+describe('/api/characters/[id]/level-up API Routes', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('returns the level-up options', async () => {
+    mockCharacterService.getLevelUpOptions.mockResolvedValue({
+      success: true,
+      data: { currentLevel: 3, newLevel: 4, proficiencyBonus: 2, averageHitPoints: {}, classes: [] },
+    });
+    const request = createAuthenticatedRequest(levelUpUrl, {}, mockAuth);
+
+    const response = await GET(request as any, { params: createMockParams() });
+    const data = await expectSuccessfulResponse(response);
+
+    expect(data.data.newLevel).toBe(4);
+    expect(mockCharacterService.getLevelUpOptions).toHaveBeenCalledWith(TEST_CHARACTER_ID, TEST_USER_ID);
+  });
+
+  it('levels up with the validated choices', async () => {
+    mockCharacterService.levelUpCharacter.mockResolvedValue({
+      success: true,
+      data: { character: { _id: TEST_CHARACTER_ID } as any, summary: { totalLevel: 4 } as any },
+    });
+    const request = createAuthenticatedRequest(levelUpUrl, {
+      method: 'POST',
+      body: { class: 'fighter', abilityScoreIncreases: { strength: 2 } },
+    }, mockAuth);
+
+    const response = await POST(request as any, { params: createMockParams() });
+    const data = await expectSuccessfulResponse(response);
+
+    expect(data.message).toBe('Character reached level 4');
+    expect(mockCharacterService.levelUpCharacter).toHaveBeenCalledWith(TEST_CHARACTER_ID, TEST_USER_ID, {
+      class: 'fighter',
+      hitPointMethod: 'average',
+      abilityScoreIncreases: { strength: 2 },
+    });
+  });
+
+  it('rejects ability score increases that do not add up to 2', async () => {
+    const request = createAuthenticatedRequest(levelUpUrl, {
+      method: 'POST',
+      body: { class: 'fighter', abilityScoreIncreases: { strength: 1 } },
+    }, mockAuth);
+
+    const response = await POST(request as any, { params: createMockParams() });
+
+    expect(response.status).toBe(400);
+    expect(mockCharacterService.levelUpCharacter).not.toHaveBeenCalled();
+  });
+
+  it('returns 400 when multiclass prerequisites are not met', async () => {
+    mockCharacterService.levelUpCharacter.mockResolvedValue({
+      success: false,
+      error: { code: 'INVALID_MULTICLASS_COMBINATION', message: 'Invalid multiclass combination: fighter, wizard' },
+    });
+    const request = createAuthenticatedRequest(levelUpUrl, {
+      method: 'POST',
+      body: { class: 'wizard' },
+    }, mockAuth);
+
+    const response = await POST(request as any, { params: createMockParams() });
+
+    expect(response.status).toBe(400);
+  });
+});
@@ -0,0 +1,47 @@
+import { NextRequest } from 'next/server';
+import { CharacterService } from '@/lib/services/CharacterService';
+import {
+  initializeRoute,
+  handleLevelUpResult,
+  handleRouteError,
+  validateLevelUp,
+} from '../../helpers/route-helpers';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { error, userId } = await initializeRoute();
+    if (error) return error;
+
+    const { id } = await params;
+    const result = await CharacterService.getLevelUpOptions(id, userId!);
+    return handleLevelUpResult(result);
+  } catch (error) {
+    return handleRouteError(error, 'GET /api/characters/[id]/level-up');
+  }
+}
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { error, userId } = await initializeRoute();
+    if (error) return error;
+
+    const { id } = await params;
+    const body = await request.json();
+    const validation = validateLevelUp(body);
+    if (!validation.isValid) return validation.error!;
+
+    const result = await CharacterService.levelUpCharacter(id, userId!, validation.data!);
+    return handleLevelUpResult(
+      result,
+      result.success ? `Character reached level ${result.data.summary.totalLevel}` : undefined
+    );
+  } catch (error) {
+    return handleRouteError(error, 'POST /api/characters/[id]/level-up');
+  }
+}
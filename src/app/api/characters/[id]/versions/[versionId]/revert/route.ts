@@ -0,0 +1,23 @@
+import { NextRequest } from 'next/server';
+import { CharacterService } from '@/lib/services/CharacterService';
+import {
+  initializeRoute,
+  handleVersionResult,
+  handleRouteError,
+} from '../../../../helpers/route-helpers';
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; versionId: string }> }
+) {
+  try {
+    const { error, userId } = await initializeRoute();
+    if (error) return error;
+
+    const { id, versionId } = await params;
+    const result = await CharacterService.revertCharacterToVersion(id, userId!, versionId);
+    return handleVersionResult(result, `Character reverted to version ${versionId}`);
+  } catch (error) {
+    return handleRouteError(error, 'POST /api/characters/[id]/versions/[versionId]/revert');
+  }
+}
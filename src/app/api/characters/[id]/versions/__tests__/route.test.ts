@@ -0,0 +1,115 @@
+import { describe, it, expect, beforeEach } from '@jest/globals';
+import { GET } from '../route';
+import { GET as GET_DIFF } from '../diff/route';
+import { POST as REVERT } from '../[versionId]/revert/route';
+import { TEST_USER_ID, TEST_CHARACTER_ID, createMockParams } from '../../../__tests__/test-helpers';
+import {
+  mockCharacterService,
+  createAuthenticatedRequest,
+  expectSuccessfulResponse,
+} from '../../../__tests__/shared-test-utils';
+
+jest.mock('@/lib/services/CharacterService');
+jest.mock('@/lib/db');
+
+jest.mock('@clerk/nextjs/server', () => ({
+  auth: jest.fn(),
+}));
+
+const { auth } = require('@clerk/nextjs/server');
+const mockAuth = auth as jest.MockedFunction<typeof auth>;
+
+const versionsUrl = `http://localhost:3000/api/characters/${TEST_CHARACTER_ID}/versions`;
+
+const version = {
+  id: '2',
+  revision: 2,
+  timestamp: new Date('2024-01-01T00:00:00Z'),
+  changes: { armorClass: { from: 14, to: 16 } },
+  changeDescription: 'Changed armorClass from 14 to 16',
+  userId: TEST_USER_ID,
+};
+
+describe('/api/characters/[id]/versions API Routes', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('lists versions with paging from the query string', async () => {
+    mockCharacterService.getCharacterVersionHistory.mockResolvedValue({ success: true, data: [version] });
+    const request = createAuthenticatedRequest(`${versionsUrl}?limit=10`, {}, mockAuth);
+
+    const response = await GET(request as any, { params: createMockParams() });
+    const data = await expectSuccessfulResponse(response);
+
+    expect(data.data).toHaveLength(1);
+    expect(mockCharacterService.getCharacterVersionHistory).toHaveBeenCalledWith(
+      TEST_CHARACTER_ID,
+      TEST_USER_ID,
+      { skip: undefined, limit: 10 }
+    );
+  });
+
+  it('diffs versions, defaulting to the original character', async () => {
+    mockCharacterService.getCharacterVersionDiff.mockResolvedValue({
+      success: true,
+      data: { fromVersion: 0, toVersion: 2, changes: version.changes },
+    });
+    const request = createAuthenticatedRequest(`${versionsUrl}/diff?to=2`, {}, mockAuth);
+
+    const response = await GET_DIFF(request as any, { params: createMockParams() });
+    const data = await expectSuccessfulResponse(response);
+
+    expect(data.data.changes).toEqual(version.changes);
+    expect(mockCharacterService.getCharacterVersionDiff).toHaveBeenCalledWith(
+      TEST_CHARACTER_ID,
+      TEST_USER_ID,
+      '0',
+      '2'
+    );
+  });
+
+  it('reverts to a version', async () => {
+    mockCharacterService.revertCharacterToVersion.mockResolvedValue({
+      success: true,
+      data: { _id: TEST_CHARACTER_ID } as any,
+    });
+    const request = createAuthenticatedRequest(`${versionsUrl}/1/revert`, { method: 'POST' }, mockAuth);
+
+    const response = await REVERT(request as any, {
+      params: Promise.resolve({ id: TEST_CHARACTER_ID, versionId: '1' }),
+    });
+    const data = await expectSuccessfulResponse(response);
+
+    expect(data.message).toBe('Character reverted to version 1');
+    expect(mockCharacterService.revertCharacterToVersion).toHaveBeenCalledWith(TEST_CHARACTER_ID, TEST_USER_ID, '1');
+  });
+
+  it('returns 400 for an invalid version', async () => {
+    mockCharacterService.revertCharacterToVersion.mockResolvedValue({
+      success: false,
+      error: { code: 'INVALID_VERSION', message: 'Invalid version: "latest"' },
+    });
+    const request = createAuthenticatedRequest(`${versionsUrl}/latest/revert`, { method: 'POST' }, mockAuth);
+
+    const response = await REVERT(request as any, {
+      params: Promise.resolve({ id: TEST_CHARACTER_ID, versionId: 'latest' }),
+    });
+
+    expect(response.status).toBe(400);
+  });
+
+  it('returns 403 when reverting a character the user does not own', async () => {
+    mockCharacterService.revertCharacterToVersion.mockResolvedValue({
+      success: false,
+      error: { code: 'UNAUTHORIZED_ACCESS', message: 'Not authorized' },
+    });
+    const request = createAuthenticatedRequest(`${versionsUrl}/1/revert`, { method: 'POST' }, mockAuth);
+
+    const response = await REVERT(request as any, {
+      params: Promise.resolve({ id: TEST_CHARACTER_ID, versionId: '1' }),
+    });
+
+    expect(response.status).toBe(403);
+  });
+});
@@ -0,0 +1,33 @@
+import { NextRequest } from 'next/server';
+import { CharacterService } from '@/lib/services/CharacterService';
+import {
+  initializeRoute,
+  handleVersionResult,
+  handleRouteError,
+} from '../../../helpers/route-helpers';
+
+/**
+ * Combined changes between `from` and `to` (default: the latest version);
+ * version 0 is the character before its first recorded edit
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { error, userId } = await initializeRoute();
+    if (error) return error;
+
+    const { id } = await params;
+    const { searchParams } = new URL(request.url);
+    const result = await CharacterService.getCharacterVersionDiff(
+      id,
+      userId!,
+      searchParams.get('from') ?? '0',
+      searchParams.get('to') ?? undefined
+    );
+    return handleVersionResult(result);
+  } catch (error) {
+    return handleRouteError(error, 'GET /api/characters/[id]/versions/diff');
+  }
+}
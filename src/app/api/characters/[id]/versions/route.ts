@@ -0,0 +1,32 @@
+import { NextRequest } from 'next/server';
+import { CharacterService } from '@/lib/services/CharacterService';
+import {
+  initializeRoute,
+  handleVersionResult,
+  handleRouteError,
+} from '../../helpers/route-helpers';
+
+const parseCount = (value: string | null) => {
+  const count = value ? parseInt(value, 10) : NaN;
+  return Number.isInteger(count) && count > 0 ? count : undefined;
+};
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { error, userId } = await initializeRoute();
+    if (error) return error;
+
+    const { id } = await params;
+    const { searchParams } = new URL(request.url);
+    const result = await CharacterService.getCharacterVersionHistory(id, userId!, {
+      skip: parseCount(searchParams.get('skip')),
+      limit: parseCount(searchParams.get('limit')),
+    });
+    return handleVersionResult(result);
+  } catch (error) {
+    return handleRouteError(error, 'GET /api/characters/[id]/versions');
+  }
+}
@@ -1,5 +1,5 @@
 import { connectToDatabase } from '@/lib/db';
-import { characterCreationSchema, characterUpdateSchema } from '@/lib/validations/character';
+import { characterCreationSchema, characterUpdateSchema, levelUpSchema } from '@/lib/validations/character';
 import {
   createErrorResponse,
   createSuccessResponse
@@ -36,6 +36,50 @@ export function handleSimpleResult(
   return createSuccessResponse(result.data, successMessage);
 }
 
+const VERSION_ERROR_STATUS: Record<string, number> = {
+  INVALID_VERSION: 400,
+  INVALID_CHARACTER_ID: 400,
+  UNAUTHORIZED_ACCESS: 403,
+  DATABASE_ERROR: 500,
+};
+
+/**
+ * Handle service result for version history operations, where a bad version
+ * number or a foreign character are not reported as missing
+ */
+export function handleVersionResult(
+  result: { success: boolean; data?: any; error?: any },
+  successMessage?: string
+) {
+  if (!result.success) {
+    return createErrorResponse(result.error, VERSION_ERROR_STATUS[result.error?.code] ?? 404);
+  }
+  return createSuccessResponse(result.data, successMessage);
+}
+
+const LEVEL_UP_ERROR_STATUS: Record<string, number> = {
+  INVALID_LEVEL_UP_CHOICE: 400,
+  INVALID_MULTICLASS_COMBINATION: 400,
+  INVALID_CHARACTER_LEVEL: 400,
+  INVALID_CHARACTER_ID: 400,
+  UNAUTHORIZED_ACCESS: 403,
+  DATABASE_ERROR: 500,
+};
+
+/**
+ * Handle service result for level-up operations, where rule violations are
+ * reported as bad requests rather than missing characters
+ */
+export function handleLevelUpResult(
+  result: { success: boolean; data?: any; error?: any },
+  successMessage?: string
+) {
+  if (!result.success) {
+    return createErrorResponse(result.error, LEVEL_UP_ERROR_STATUS[result.error?.code] ?? 404);
+  }
+  return createSuccessResponse(result.data, successMessage);
+}
+
 /**
  * Handle service result for creation operations (returns 201)
  */
@@ -112,4 +156,18 @@ export function validateCharacterUpdate(body: any) {
     };
   }
   return { isValid: true, data: validation.data };
-}
\ No newline at end of file
+}
+
+/**
+ * Validate level-up choices
+ */
+export function validateLevelUp(body: any) {
+  const validation = levelUpSchema.safeParse(body);
+  if (!validation.success) {
+    return {
+      isValid: false,
+      error: createErrorResponse('Validation failed', 400, validation.error.errors)
+    };
+  }
+  return { isValid: true, data: validation.data };
+}
@@ -0,0 +1,53 @@
+import { NextRequest } from 'next/server';
+import { CollaboratorService } from '@/lib/services/CollaboratorService';
+import {
+  withAuth,
+  createSuccessResponse,
+  handleServiceError,
+} from '@/lib/api/route-helpers';
+import { respondToInvitationSchema } from '@/lib/validations/collaborator';
+import { ZodError } from 'zod';
+
+/**
+ * PATCH /api/collaborators/[id]
+ * Accept or decline an invitation sent to the current user
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  return withAuth(async (userId) => {
+    try {
+      const { id: invitationId } = await params;
+      const body = await request.json();
+
+      // Validate request body
+      const response = respondToInvitationSchema.parse(body);
+
+      const result = await CollaboratorService.respondToInvitation(invitationId, userId, response);
+
+      if (!result.success) {
+        return handleServiceError(result, 'Failed to respond to invitation');
+      }
+
+      return createSuccessResponse(
+        { invitation: result.data },
+        response.status === 'accepted' ? 'Invitation accepted' : 'Invitation declined'
+      );
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return handleServiceError(
+          { error: { message: 'Invalid invitation response', details: error.errors } },
+          'Invalid invitation response'
+        );
+      }
+
+      console.error('PATCH /api/collaborators/[id] error:', error);
+      return handleServiceError(
+        { error: { message: 'Internal server error' } },
+        'Failed to respond to invitation',
+        500
+      );
+    }
+  });
+}
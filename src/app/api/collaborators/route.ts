@@ -0,0 +1,32 @@
+import { NextRequest } from 'next/server';
+import { CollaboratorService } from '@/lib/services/CollaboratorService';
+import {
+  withAuth,
+  createSuccessResponse,
+  handleServiceError,
+} from '@/lib/api/route-helpers';
+
+/**
+ * GET /api/collaborators
+ * List the current user's pending encounter and party invitations
+ */
+export async function GET(_request: NextRequest) {
+  return withAuth(async (userId) => {
+    try {
+      const result = await CollaboratorService.listInvitations(userId);
+
+      if (!result.success) {
+        return handleServiceError(result, 'Failed to list invitations');
+      }
+
+      return createSuccessResponse({ invitations: result.data });
+    } catch (error) {
+      console.error('GET /api/collaborators error:', error);
+      return handleServiceError(
+        { error: { message: 'Internal server error' } },
+        'Failed to list invitations',
+        500
+      );
+    }
+  });
+}
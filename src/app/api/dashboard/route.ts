@@ -0,0 +1,33 @@
+import { NextRequest } from 'next/server';
+import { DashboardService } from '@/lib/services/DashboardService';
+import {
+  withAuth,
+  createSuccessResponse,
+  handleServiceError,
+} from '@/lib/api/route-helpers';
+
+/**
+ * GET /api/dashboard
+ * Counts, tier usage, recent items, running combats and the activity feed
+ * for the current user
+ */
+export async function GET(_request: NextRequest) {
+  return withAuth(async (userId) => {
+    try {
+      const result = await DashboardService.getDashboard(userId);
+
+      if (!result.success) {
+        return handleServiceError(result, 'Failed to load dashboard', 500);
+      }
+
+      return createSuccessResponse({ dashboard: result.data });
+    } catch (error) {
+      console.error('GET /api/dashboard error:', error);
+      return handleServiceError(
+        { error: { message: 'Internal server error' } },
+        'Failed to load dashboard',
+        500
+      );
+    }
+  });
+}
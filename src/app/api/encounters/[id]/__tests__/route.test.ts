@@ -1,5 +1,6 @@
 import { GET, PUT, DELETE } from '../route';
 import { EncounterService } from '@/lib/services/EncounterService';
+import { EncounterServiceAuth } from '@/lib/services/EncounterServiceAuth';
 import { auth } from '@clerk/nextjs/server';
 import {
   createTestEncounter,
@@ -31,9 +32,15 @@ jest.mock('@/lib/services/EncounterService');
 jest.mock('@clerk/nextjs/server', () => ({
   auth: jest.fn(),
 }));
+jest.mock('@/lib/services/EncounterServiceAuth', () => ({
+  EncounterServiceAuth: { getAccessRole: jest.fn() },
+}));
 
 const mockEncounterService = EncounterService as jest.Mocked<typeof EncounterService>;
 const mockAuth = auth as jest.MockedFunction<typeof auth>;
+const mockGetAccessRole = EncounterServiceAuth.getAccessRole as jest.MockedFunction<
+  typeof EncounterServiceAuth.getAccessRole
+>;
 
 describe('/api/encounters/[id] route', () => {
   const mockUser = {
@@ -67,6 +74,7 @@ describe('/api/encounters/[id] route', () => {
 
   beforeEach(() => {
     setupTestMocks(mockAuth, mockSession);
+    mockGetAccessRole.mockResolvedValue(null);
   });
 
   describe('GET /api/encounters/[id]', () => {
@@ -250,6 +258,35 @@ describe('/api/encounters/[id] route', () => {
       );
     });
 
+    describe('co-DM updates', () => {
+      beforeEach(() => {
+        mockEncounterService.getEncounterById.mockResolvedValue(
+          mockApiResponses.success({ ...mockEncounter, ownerId: 'owner-456' })
+        );
+        mockGetAccessRole.mockResolvedValue('co_dm');
+      });
+
+      it('should let a co-DM edit the encounter', async () => {
+        mockEncounterService.updateEncounter.mockResolvedValue(mockApiResponses.success(mockEncounter));
+
+        const { response } = await executeApiTest(PUT, { name: 'Co-DM Update' }, 'PUT');
+
+        expect(response.status).toBe(200);
+        expect(mockEncounterService.updateEncounter).toHaveBeenCalledWith('test-id', { name: 'Co-DM Update' });
+      });
+
+      it.each([
+        ['sharedWith', { sharedWith: ['507f1f77bcf86cd799439011'] }],
+        ['isPublic', { isPublic: true }],
+      ])('should reject a co-DM changing %s', async (_field, update) => {
+        const { response, data } = await executeApiTest(PUT, update, 'PUT');
+
+        expect(response.status).toBe(403);
+        expect(data.error).toBe('Only the owner can change who can see this encounter');
+        expect(mockEncounterService.updateEncounter).not.toHaveBeenCalled();
+      });
+    });
+
     it('should validate user ownership for delete operations', async () => {
       await testUnauthorizedAccess(
         mockEncounterService,
@@ -0,0 +1,10 @@
+import { createCollaboratorHandlers } from '@/lib/api/collaborator-route-helpers';
+
+/**
+ * PATCH /api/encounters/[id]/collaborators/[collaboratorId]
+ * Change a collaborator's role (owner only)
+ *
+ * DELETE /api/encounters/[id]/collaborators/[collaboratorId]
+ * Remove a collaborator (owner, or collaborators leaving themselves)
+ */
+export const { PATCH, DELETE } = createCollaboratorHandlers('encounter');
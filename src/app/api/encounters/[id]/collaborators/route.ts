@@ -0,0 +1,10 @@
+import { createCollaboratorListHandlers } from '@/lib/api/collaborator-route-helpers';
+
+/**
+ * GET /api/encounters/[id]/collaborators
+ * List invited and accepted collaborators
+ *
+ * POST /api/encounters/[id]/collaborators
+ * Invite a user by email or username (owner only)
+ */
+export const { GET, POST } = createCollaboratorListHandlers('encounter');
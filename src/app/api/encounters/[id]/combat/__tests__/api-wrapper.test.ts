@@ -216,6 +216,29 @@ describe('withCombatValidation', () => {
       });
       expect(mockHandler).not.toHaveBeenCalled();
     });
+
+    it('should skip the active combat check when inactive combat is allowed', async () => {
+      const mockEncounter = createMockEncounter({
+        ownerId: 'user123',
+        combatState: { isActive: false }
+      });
+
+      mockValidateAndGetEncounter.mockResolvedValue({
+        encounter: mockEncounter,
+        errorResponse: null
+      });
+      mockHandler.mockResolvedValue(true);
+
+      const wrappedHandler = withCombatValidation(
+        { operation: 'test operation', allowInactiveCombat: true },
+        mockHandler
+      );
+
+      await wrappedHandler(mockRequest, mockParams);
+
+      expect(mockValidateCombatActive).not.toHaveBeenCalled();
+      expect(mockHandler).toHaveBeenCalledWith(mockEncounter, expect.anything(), undefined);
+    });
   });
 
   describe('Body parsing and validation', () => {
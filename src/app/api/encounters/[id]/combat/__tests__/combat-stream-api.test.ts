@@ -0,0 +1,116 @@
+/**
+ * @jest-environment node
+ */
+import { NextRequest } from 'next/server';
+import { auth } from '@clerk/nextjs/server';
+import { EncounterService } from '@/lib/services/EncounterService';
+import { setupAuthenticatedState, setupUnauthenticatedState } from '@/lib/test-utils/auth-test-utils';
+import {
+  createTestEncounter,
+  makeEncounterActive,
+} from '@/lib/models/encounter/__tests__/combat-test-helpers';
+import { publishCombatUpdate } from '@/lib/realtime/combat-sync';
+import { GET } from '../stream/route';
+
+jest.mock('@clerk/nextjs/server');
+
+jest.mock('@/lib/services/EncounterService', () => ({
+  EncounterService: {
+    getEncounterById: jest.fn(),
+  }
+}));
+
+const mockAuth = auth as jest.MockedFunction<typeof auth>;
+const mockGetEncounterById = EncounterService.getEncounterById as jest.Mock;
+
+const OWNER_ID = 'user123';
+
+const createStreamEncounter = (overrides: Record<string, any> = {}) => {
+  const encounter: any = createTestEncounter();
+  makeEncounterActive(encounter);
+  encounter.ownerId = OWNER_ID;
+  encounter.settings.allowPlayerVisibility = true;
+  encounter.participants[1].isVisible = false;
+  return Object.assign(encounter, overrides);
+};
+
+const openStream = (controller: AbortController) => {
+  const request = new NextRequest('http://localhost:3000/api/encounters/test/combat/stream', {
+    signal: controller.signal,
+  });
+  return GET(request, { params: Promise.resolve({ id: 'test' }) });
+};
+
+const readEvent = async (reader: ReadableStreamDefaultReader<Uint8Array>) => {
+  const { value } = await reader.read();
+  const text = new TextDecoder().decode(value);
+  const data = text.split('\n').find(line => line.startsWith('data: '))!;
+  return { text, view: JSON.parse(data.slice('data: '.length)) };
+};
+
+describe('GET /api/encounters/[id]/combat/stream', () => {
+  let controller: AbortController;
+
+  beforeEach(() => {
+    controller = new AbortController();
+    setupAuthenticatedState(mockAuth, OWNER_ID);
+  });
+
+  afterEach(() => {
+    controller.abort();
+  });
+
+  it('requires authentication', async () => {
+    setupUnauthenticatedState(mockAuth);
+
+    const response = await openStream(controller);
+
+    expect(response.status).toBe(401);
+  });
+
+  it('rejects encounters without player visibility', async () => {
+    const encounter = createStreamEncounter();
+    encounter.settings.allowPlayerVisibility = false;
+    mockGetEncounterById.mockResolvedValue({ success: true, data: encounter });
+
+    const response = await openStream(controller);
+
+    expect(response.status).toBe(403);
+  });
+
+  it('rejects users the encounter is not shared with', async () => {
+    setupAuthenticatedState(mockAuth, 'someone-else');
+    mockGetEncounterById.mockResolvedValue({ success: true, data: createStreamEncounter() });
+
+    const response = await openStream(controller);
+
+    expect(response.status).toBe(403);
+  });
+
+  it('sends the sanitized player view on connect', async () => {
+    mockGetEncounterById.mockResolvedValue({ success: true, data: createStreamEncounter() });
+
+    const response = await openStream(controller);
+    const { text, view } = await readEvent(response.body!.getReader());
+
+    expect(response.headers.get('Content-Type')).toBe('text/event-stream');
+    expect(text.startsWith('event: combat-update')).toBe(true);
+    expect(view.participants.map((p: any) => p.name)).toEqual(['Test Character 1']);
+    expect(text).not.toContain('Test Character 2');
+  });
+
+  it('pushes updates published by combat routes', async () => {
+    const encounter = createStreamEncounter();
+    mockGetEncounterById.mockResolvedValue({ success: true, data: encounter });
+
+    const response = await openStream(controller);
+    const reader = response.body!.getReader();
+    await readEvent(reader);
+
+    encounter.combatState.currentRound = 3;
+    publishCombatUpdate(encounter);
+    const { view } = await readEvent(reader);
+
+    expect(view.currentRound).toBe(3);
+  });
+});
@@ -44,6 +44,8 @@ jest.mock('@/lib/services/EncounterService', () => ({
   }
 }));
 
+jest.mock('@/lib/models/CombatEvent');
+
 jest.mock('@/lib/models/encounter/initiative-rolling', () => ({
   rollBulkInitiative: jest.fn(),
   rollSingleInitiative: jest.fn(),
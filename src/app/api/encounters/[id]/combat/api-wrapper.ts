@@ -10,6 +10,9 @@ import {
   findParticipantInInitiative
 } from './utils';
 import type { IEncounter } from '@/lib/models/encounter/interfaces';
+import { publishCombatUpdate } from '@/lib/realtime/combat-sync';
+import { EncounterServiceAuth } from '@/lib/services/EncounterServiceAuth';
+import { hasPermission } from '@/lib/utils/collaboration';
 
 /**
  * Configuration for combat API endpoint
@@ -22,6 +25,7 @@ export interface CombatApiConfig {
   validateNotPaused?: boolean;
   validateTurnHistory?: boolean;
   findParticipant?: boolean;
+  allowInactiveCombat?: boolean;
 }
 
 /**
@@ -133,7 +137,7 @@ async function validateAndParseBody(context: ValidationContext): Promise<NextRes
 }
 
 /**
- * Encounter validation and ownership check
+ * Encounter validation and role check; owners and co-DMs may run combat
  */
 async function validateEncounterAccess(context: ValidationContext): Promise<NextResponse | null> {
   const { encounter, errorResponse } = await validateAndGetEncounter(context.encounterId);
@@ -146,7 +150,8 @@ async function validateEncounterAccess(context: ValidationContext): Promise<Next
     );
   }
 
-  if (encounter.ownerId.toString() !== context.userId) {
+  const role = await EncounterServiceAuth.getAccessRole(encounter, context.userId!);
+  if (!hasPermission(role, 'edit')) {
     return NextResponse.json(
       { success: false, message: 'Access denied: You do not own this encounter' },
       { status: 403 }
@@ -168,6 +173,8 @@ function validateCombatState(context: ValidationContext): NextResponse | null {
     );
   }
 
+  if (context.config.allowInactiveCombat) return null;
+
   const combatError = validateCombatActive(context.encounter);
   if (combatError) return combatError;
   return null;
@@ -240,8 +247,9 @@ async function executeHandlerAndProcessResult(
     return createErrorResponse(`Unable to ${config.operation}`, 400);
   }
 
-  // Save and return success
+  // Save, notify connected players and return success
   await encounter.save();
+  publishCombatUpdate(encounter);
   return createSuccessResponse(encounter);
 }
 
@@ -0,0 +1,76 @@
+import { startConcentration, endConcentration } from '@/lib/models/encounter/concentration';
+import { logEncounterAction } from '@/lib/models/encounter/combatStateManager';
+import { recordCombatStep } from '@/lib/models/encounter/combatUndo';
+import { findParticipantById } from '@/lib/models/encounter/utils';
+import { startConcentrationSchema } from '@/lib/validations/encounter';
+import { withCombatValidation } from '../api-wrapper';
+import { createErrorResponse } from '../utils';
+
+/**
+ * PATCH /api/encounters/[id]/combat/concentration
+ * Starts concentration on a spell, optionally linking round-tracking effects
+ * that end with it. Any previous concentration is dropped.
+ */
+export const PATCH = withCombatValidation(
+  {
+    operation: 'starting concentration',
+    requiredFields: ['participantId', 'spellName'],
+    findParticipant: true
+  },
+  async (encounter, body, participant) => {
+    const validation = startConcentrationSchema.safeParse(body);
+    if (!validation.success) {
+      return createErrorResponse(validation.error.errors[0].message, 400);
+    }
+
+    const { participantId, spellName, linkedEffectIds } = validation.data;
+    const trackedIds = (encounter.combatState.effects ?? []).map(effect => effect.id);
+    const unknownId = linkedEffectIds?.find(effectId => !trackedIds.includes(effectId));
+    if (unknownId) {
+      return createErrorResponse(`Effect ${unknownId} is not being tracked`, 400);
+    }
+
+    return recordCombatStep(encounter, async () => {
+      const previous = startConcentration(encounter, participantId, { spellName, linkedEffectIds });
+      if (previous) {
+        await logEncounterAction(encounter, 'concentration_ended', {
+          participantId: participant.participantId,
+          details: { ...previous },
+        });
+      }
+
+      await logEncounterAction(encounter, 'concentration_started', {
+        participantId: participant.participantId,
+        details: { spellName, linkedEffectIds: linkedEffectIds ?? [] },
+      });
+      return true;
+    });
+  }
+);
+
+/**
+ * DELETE /api/encounters/[id]/combat/concentration
+ * Ends a participant's concentration along with its linked effects
+ */
+export const DELETE = withCombatValidation(
+  {
+    operation: 'ending concentration',
+    requiredFields: ['participantId'],
+    findParticipant: true
+  },
+  async (encounter, body, participant) => {
+    const target = findParticipantById(encounter.participants, body.participantId);
+    if (!target?.concentration) {
+      return createErrorResponse('Participant is not concentrating', 400);
+    }
+
+    return recordCombatStep(encounter, async () => {
+      const ended = endConcentration(encounter, target)!;
+      await logEncounterAction(encounter, 'concentration_ended', {
+        participantId: participant.participantId,
+        details: { ...ended },
+      });
+      return true;
+    });
+  }
+);
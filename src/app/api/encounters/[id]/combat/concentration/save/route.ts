@@ -0,0 +1,40 @@
+import { resolveConcentrationSave } from '@/lib/models/encounter/concentration';
+import { logEncounterAction } from '@/lib/models/encounter/combatStateManager';
+import { recordCombatStep } from '@/lib/models/encounter/combatUndo';
+import { findParticipantById } from '@/lib/models/encounter/utils';
+import { concentrationSaveSchema } from '@/lib/validations/encounter';
+import { withCombatValidation } from '../../api-wrapper';
+import { createErrorResponse } from '../../utils';
+
+/**
+ * PATCH /api/encounters/[id]/combat/concentration/save
+ * Resolves the oldest queued concentration save with the total the player rolled.
+ * A failed save ends the concentration and its linked round-tracking effects.
+ */
+export const PATCH = withCombatValidation(
+  {
+    operation: 'resolving concentration save',
+    requiredFields: ['participantId', 'total'],
+    findParticipant: true
+  },
+  async (encounter, body, participant) => {
+    const validation = concentrationSaveSchema.safeParse(body);
+    if (!validation.success) {
+      return createErrorResponse(validation.error.errors[0].message, 400);
+    }
+
+    const target = findParticipantById(encounter.participants, validation.data.participantId);
+    if (!target?.concentration?.pendingSaveDCs.length) {
+      return createErrorResponse('No concentration save is pending for this participant', 400);
+    }
+
+    return recordCombatStep(encounter, async () => {
+      const check = resolveConcentrationSave(encounter, target, validation.data.total)!;
+      await logEncounterAction(encounter, 'concentration_check', {
+        participantId: participant.participantId,
+        details: { ...check },
+      });
+      return true;
+    });
+  }
+);
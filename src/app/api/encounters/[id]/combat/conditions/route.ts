@@ -0,0 +1,75 @@
+import { addCondition, removeCondition } from '@/lib/models/encounter/methods';
+import { logEncounterAction } from '@/lib/models/encounter/combatStateManager';
+import { recordCombatStep } from '@/lib/models/encounter/combatUndo';
+import { findParticipantById } from '@/lib/models/encounter/utils';
+import { formatConditionName, isImmuneToCondition } from '@/lib/utils/conditions';
+import { applyConditionSchema, conditionNameSchema } from '@/lib/validations/encounter';
+import { withCombatValidation } from '../api-wrapper';
+import { createErrorResponse } from '../utils';
+
+/**
+ * PATCH /api/encounters/[id]/combat/conditions
+ * Applies a condition to a participant with an optional source, duration and save.
+ * Refuses conditions listed in the participant's condition immunities.
+ */
+export const PATCH = withCombatValidation(
+  {
+    operation: 'applying condition',
+    requiredFields: ['participantId', 'condition'],
+    findParticipant: true
+  },
+  async (encounter, body, participant) => {
+    const validation = applyConditionSchema.safeParse(body);
+    if (!validation.success) {
+      return createErrorResponse(validation.error.errors[0].message, 400);
+    }
+
+    const { participantId, condition: name, ...details } = validation.data;
+    const target = findParticipantById(encounter.participants, participantId);
+    if (target && isImmuneToCondition(target.conditionImmunities, name)) {
+      return createErrorResponse(`${target.name} is immune to ${formatConditionName({ name })}`, 400);
+    }
+
+    return recordCombatStep(encounter, async () => {
+      if (!addCondition(encounter, participantId, { name, ...details })) {
+        return false;
+      }
+
+      await logEncounterAction(encounter, 'condition_added', {
+        participantId: participant.participantId,
+        details: { condition: name, ...details },
+      });
+      return true;
+    });
+  }
+);
+
+/**
+ * DELETE /api/encounters/[id]/combat/conditions
+ * Removes a condition from a participant
+ */
+export const DELETE = withCombatValidation(
+  {
+    operation: 'removing condition',
+    requiredFields: ['participantId', 'condition'],
+    findParticipant: true
+  },
+  async (encounter, body, participant) => {
+    const validation = conditionNameSchema.safeParse(body.condition);
+    if (!validation.success) {
+      return createErrorResponse(validation.error.errors[0].message, 400);
+    }
+
+    return recordCombatStep(encounter, async () => {
+      if (!removeCondition(encounter, body.participantId, validation.data)) {
+        return false;
+      }
+
+      await logEncounterAction(encounter, 'condition_removed', {
+        participantId: participant.participantId,
+        details: { condition: validation.data },
+      });
+      return true;
+    });
+  }
+);
@@ -0,0 +1,47 @@
+import { resolveConditionSave } from '@/lib/models/encounter/conditionTracking';
+import { logEncounterAction } from '@/lib/models/encounter/combatStateManager';
+import { recordCombatStep } from '@/lib/models/encounter/combatUndo';
+import { findParticipantById } from '@/lib/models/encounter/utils';
+import { conditionSaveSchema } from '@/lib/validations/encounter';
+import { withCombatValidation } from '../../api-wrapper';
+import { createErrorResponse } from '../../utils';
+
+/**
+ * PATCH /api/encounters/[id]/combat/conditions/save
+ * Resolves a saving throw against a "save ends" condition with the total rolled.
+ * A successful save removes the condition.
+ */
+export const PATCH = withCombatValidation(
+  {
+    operation: 'resolving condition save',
+    requiredFields: ['participantId', 'condition', 'total'],
+    findParticipant: true
+  },
+  async (encounter, body, participant) => {
+    const validation = conditionSaveSchema.safeParse(body);
+    if (!validation.success) {
+      return createErrorResponse(validation.error.errors[0].message, 400);
+    }
+
+    const { participantId, condition: name, total } = validation.data;
+    const target = findParticipantById(encounter.participants, participantId);
+    if (!target?.conditions.some(condition => condition.name === name && condition.expiry === 'save')) {
+      return createErrorResponse('Condition does not end on a saving throw', 400);
+    }
+
+    return recordCombatStep(encounter, async () => {
+      const { condition, success } = resolveConditionSave(target, name, total)!;
+      await logEncounterAction(encounter, 'condition_save', {
+        participantId: participant.participantId,
+        details: {
+          condition: name,
+          dc: condition.saveDC,
+          ability: condition.saveAbility,
+          total,
+          success,
+        },
+      });
+      return true;
+    });
+  }
+);
@@ -0,0 +1,56 @@
+import { applyTypedDamage } from '@/lib/models/encounter/methods';
+import { logEncounterAction } from '@/lib/models/encounter/combatStateManager';
+import { recordCombatStep } from '@/lib/models/encounter/combatUndo';
+import { combatDamageSchema } from '@/lib/validations/encounter';
+import { withCombatValidation } from '../api-wrapper';
+import { createErrorResponse } from '../utils';
+
+/**
+ * PATCH /api/encounters/[id]/combat/damage
+ * Applies damage to a participant. Accepts either a single `damage` amount
+ * (optionally typed) or `instances` such as 12 fire + 5 slashing, which are
+ * resolved against the participant's resistances, vulnerabilities and immunities.
+ * Damage to a concentrating participant queues or rolls a concentration save,
+ * and damage to a player character at 0 HP adds death save failures.
+ */
+export const PATCH = withCombatValidation(
+  {
+    operation: 'applying damage',
+    requiredFields: ['participantId'],
+    findParticipant: true
+  },
+  async (encounter, body, participant) => {
+    const validation = combatDamageSchema.safeParse(body);
+    if (!validation.success) {
+      return createErrorResponse(validation.error.errors[0].message, 400);
+    }
+
+    const { damage, damageType, magical, instances, critical } = validation.data;
+    const damageInstances = instances ?? [{ amount: damage!, damageType, magical }];
+
+    return recordCombatStep(encounter, async () => {
+      const resolution = applyTypedDamage(encounter, body.participantId, damageInstances, { critical });
+      if (!resolution) {
+        return false;
+      }
+
+      await logEncounterAction(encounter, 'damage_dealt', {
+        participantId: participant.participantId,
+        details: {
+          amount: resolution.totalDamage,
+          originalAmount: resolution.originalDamage,
+          instances: resolution.instances,
+          ...(critical && { critical }),
+        },
+      });
+
+      if (resolution.concentrationCheck) {
+        await logEncounterAction(encounter, 'concentration_check', {
+          participantId: participant.participantId,
+          details: { ...resolution.concentrationCheck },
+        });
+      }
+      return true;
+    });
+  }
+);
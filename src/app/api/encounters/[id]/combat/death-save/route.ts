@@ -0,0 +1,44 @@
+import { recordDeathSave } from '@/lib/models/encounter/deathSaves';
+import { logEncounterAction } from '@/lib/models/encounter/combatStateManager';
+import { recordCombatStep } from '@/lib/models/encounter/combatUndo';
+import { findParticipantById } from '@/lib/models/encounter/utils';
+import { deathSaveRollSchema } from '@/lib/validations/encounter';
+import { withCombatValidation } from '../api-wrapper';
+import { createErrorResponse } from '../utils';
+
+/**
+ * PATCH /api/encounters/[id]/combat/death-save
+ * Records a death saving throw for a dying player character.
+ * Uses the natural d20 `roll` the player made, or rolls one when omitted.
+ */
+export const PATCH = withCombatValidation(
+  {
+    operation: 'recording death save',
+    requiredFields: ['participantId'],
+    findParticipant: true
+  },
+  async (encounter, body, participant) => {
+    const validation = deathSaveRollSchema.safeParse(body);
+    if (!validation.success) {
+      return createErrorResponse(validation.error.errors[0].message, 400);
+    }
+
+    const target = findParticipantById(encounter.participants, validation.data.participantId);
+    if (target?.deathSaves?.status !== 'unconscious') {
+      return createErrorResponse('Participant is not making death saves', 400);
+    }
+
+    return recordCombatStep(encounter, async () => {
+      const result = recordDeathSave(target, validation.data.roll)!;
+      await logEncounterAction(encounter, 'death_save', {
+        participantId: participant.participantId,
+        details: {
+          roll: result.roll,
+          regainedConsciousness: result.regainedConsciousness,
+          ...result.deathSaves,
+        },
+      });
+      return true;
+    });
+  }
+);
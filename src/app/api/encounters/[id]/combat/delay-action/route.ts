@@ -1,3 +1,5 @@
+import { logEncounterAction } from '@/lib/models/encounter/combatStateManager';
+import { recordCombatStep } from '@/lib/models/encounter/combatUndo';
 import { withCombatValidation } from '../api-wrapper';
 
 export const PATCH = withCombatValidation(
@@ -6,8 +8,11 @@ export const PATCH = withCombatValidation(
     requiredFields: ['participantId'],
     findParticipant: true
   },
-  async (encounter, body, participant) => {
+  (encounter, body, participant) => recordCombatStep(encounter, async () => {
     participant.isDelayed = true;
+    await logEncounterAction(encounter, 'action_delayed', {
+      participantId: participant.participantId,
+    });
     return true;
-  }
-);
\ No newline at end of file
+  })
+);
@@ -0,0 +1,68 @@
+import { addCombatEffect, removeCombatEffects } from '@/lib/models/encounter/combatEffects';
+import { logEncounterAction } from '@/lib/models/encounter/combatStateManager';
+import { recordCombatStep } from '@/lib/models/encounter/combatUndo';
+import { addCombatEffectSchema, removeCombatEffectSchema } from '@/lib/validations/encounter';
+import { withCombatValidation } from '../api-wrapper';
+import { createErrorResponse } from '../utils';
+
+/**
+ * PATCH /api/encounters/[id]/combat/effects
+ * Tracks a round-tracking effect on a participant, starting in the current round
+ */
+export const PATCH = withCombatValidation(
+  {
+    operation: 'adding effect',
+    requiredFields: ['participantId', 'id', 'name', 'duration'],
+    findParticipant: true
+  },
+  async (encounter, body, participant) => {
+    const validation = addCombatEffectSchema.safeParse(body);
+    if (!validation.success) {
+      return createErrorResponse(validation.error.errors[0].message, 400);
+    }
+
+    return recordCombatStep(encounter, async () => {
+      const effect = addCombatEffect(encounter, validation.data);
+      if (!effect) {
+        return false;
+      }
+
+      await logEncounterAction(encounter, 'effect_added', {
+        participantId: participant.participantId,
+        details: { ...effect },
+      });
+      return true;
+    });
+  }
+);
+
+/**
+ * DELETE /api/encounters/[id]/combat/effects
+ * Stops tracking a participant's round-tracking effect
+ */
+export const DELETE = withCombatValidation(
+  {
+    operation: 'removing effect',
+    requiredFields: ['participantId', 'effectId'],
+    findParticipant: true
+  },
+  async (encounter, body, participant) => {
+    const validation = removeCombatEffectSchema.safeParse(body);
+    if (!validation.success) {
+      return createErrorResponse(validation.error.errors[0].message, 400);
+    }
+
+    return recordCombatStep(encounter, async () => {
+      const [effect] = removeCombatEffects(encounter, [validation.data.effectId]);
+      if (!effect) {
+        return false;
+      }
+
+      await logEncounterAction(encounter, 'effect_removed', {
+        participantId: participant.participantId,
+        details: { ...effect },
+      });
+      return true;
+    });
+  }
+);
@@ -1,12 +1,15 @@
 import { endCombat } from '@/lib/models/encounter/methods';
+import { enhancedEndCombat } from '@/lib/models/encounter/combatStateManager';
+import { recordCombatStep } from '@/lib/models/encounter/combatUndo';
 import { withCombatValidation } from '../api-wrapper';
 
 export const PATCH = withCombatValidation(
   {
     operation: 'ending combat'
   },
-  async (encounter) => {
+  (encounter) => recordCombatStep(encounter, async () => {
     endCombat(encounter);
+    await enhancedEndCombat(encounter);
     return true;
-  }
-);
\ No newline at end of file
+  })
+);
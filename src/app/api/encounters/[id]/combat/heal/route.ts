@@ -0,0 +1,37 @@
+import { applyHealing } from '@/lib/models/encounter/methods';
+import { logEncounterAction } from '@/lib/models/encounter/combatStateManager';
+import { recordCombatStep } from '@/lib/models/encounter/combatUndo';
+import { combatHealSchema } from '@/lib/validations/encounter';
+import { withCombatValidation } from '../api-wrapper';
+import { createErrorResponse } from '../utils';
+
+/**
+ * PATCH /api/encounters/[id]/combat/heal
+ * Heals a participant; healing a downed player character clears their death saves
+ */
+export const PATCH = withCombatValidation(
+  {
+    operation: 'applying healing',
+    requiredFields: ['participantId', 'healing'],
+    findParticipant: true
+  },
+  async (encounter, body, participant) => {
+    const validation = combatHealSchema.safeParse(body);
+    if (!validation.success) {
+      return createErrorResponse(validation.error.errors[0].message, 400);
+    }
+
+    const { participantId, healing } = validation.data;
+    return recordCombatStep(encounter, async () => {
+      if (!applyHealing(encounter, participantId, healing)) {
+        return false;
+      }
+
+      await logEncounterAction(encounter, 'healing_applied', {
+        participantId: participant.participantId,
+        details: { healing },
+      });
+      return true;
+    });
+  }
+);
@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { auth } from '@clerk/nextjs/server';
+import { getCombatHistoryPage } from '@/lib/models/encounter/combatStateManager';
+import { EncounterServiceAuth } from '@/lib/services/EncounterServiceAuth';
+import { hasPermission } from '@/lib/utils/collaboration';
+import {
+  validateAndGetEncounter,
+  createErrorResponse,
+  handleAsyncError
+} from '../utils';
+
+/**
+ * Query parameters for paging through the combat log
+ */
+const historyQuerySchema = z.object({
+  page: z.coerce.number().int().min(1).default(1),
+  limit: z.coerce.number().int().min(1).max(200).default(50),
+  round: z.coerce.number().int().min(0).optional(),
+});
+
+/**
+ * GET /api/encounters/[id]/combat/history
+ * Returns the persisted combat action log for an encounter, oldest first
+ */
+export async function GET(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+): Promise<NextResponse> {
+  try {
+    const session = await auth();
+    if (!session?.userId) {
+      return createErrorResponse('Authentication required', 401);
+    }
+
+    const { id: encounterId } = await context.params;
+    const { searchParams } = new URL(request.url);
+    const query = historyQuerySchema.safeParse(Object.fromEntries(searchParams.entries()));
+    if (!query.success) {
+      return createErrorResponse('Invalid query parameters', 400);
+    }
+
+    const { encounter, errorResponse } = await validateAndGetEncounter(encounterId);
+    if (errorResponse) return errorResponse;
+
+    const role = await EncounterServiceAuth.getAccessRole(encounter!, session.userId);
+    if (!hasPermission(role, 'edit')) {
+      return createErrorResponse('Access denied: Only the owner and co-DMs can view combat history', 403);
+    }
+
+    const { page, limit, round } = query.data;
+    const { entries, pagination } = await getCombatHistoryPage(encounterId, page, limit, round);
+
+    return NextResponse.json({ success: true, history: entries, pagination });
+  } catch (error) {
+    return handleAsyncError(error, 'fetching combat history');
+  }
+}
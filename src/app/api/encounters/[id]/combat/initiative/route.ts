@@ -1,12 +1,32 @@
 import { setInitiative } from '@/lib/models/encounter/methods';
+import { logEncounterAction } from '@/lib/models/encounter/combatStateManager';
+import { recordCombatStep } from '@/lib/models/encounter/combatUndo';
 import { withCombatValidation } from '../api-wrapper';
+import { findParticipantInInitiative } from '../utils';
 
 export const PATCH = withCombatValidation(
   {
     operation: 'updating initiative',
     requiredFields: ['participantId', 'initiative', 'dexterity']
   },
-  async (encounter, body) => {
-    return setInitiative(encounter, body.participantId, body.initiative, body.dexterity);
-  }
-);
\ No newline at end of file
+  (encounter, body) => recordCombatStep(encounter, async () => {
+    const previous = findParticipantInInitiative(encounter, body.participantId);
+    const previousValues = previous
+      ? { initiative: previous.initiative, dexterity: previous.dexterity }
+      : undefined;
+
+    if (!setInitiative(encounter, body.participantId, body.initiative, body.dexterity)) {
+      return false;
+    }
+
+    await logEncounterAction(encounter, 'initiative_set', {
+      participantId: previous?.participantId,
+      details: {
+        initiative: body.initiative,
+        dexterity: body.dexterity,
+        previous: previousValues,
+      },
+    });
+    return true;
+  })
+);
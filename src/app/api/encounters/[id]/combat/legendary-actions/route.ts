@@ -0,0 +1,88 @@
+import {
+  configureLegendaryActions,
+  getLegendaryActionError,
+  spendLegendaryActions,
+} from '@/lib/models/encounter/legendaryActions';
+import { logEncounterAction } from '@/lib/models/encounter/combatStateManager';
+import { recordCombatStep } from '@/lib/models/encounter/combatUndo';
+import { findParticipantById } from '@/lib/models/encounter/utils';
+import {
+  configureLegendaryActionsSchema,
+  spendLegendaryActionSchema,
+} from '@/lib/validations/encounter';
+import { withCombatValidation } from '../api-wrapper';
+import { createErrorResponse } from '../utils';
+
+/**
+ * PATCH /api/encounters/[id]/combat/legendary-actions
+ * Spends legendary actions at the end of another creature's turn
+ */
+export const PATCH = withCombatValidation(
+  {
+    operation: 'using legendary action',
+    requiredFields: ['participantId'],
+    validateNotPaused: true,
+    findParticipant: true
+  },
+  async (encounter, body, participant) => {
+    const validation = spendLegendaryActionSchema.safeParse(body);
+    if (!validation.success) {
+      return createErrorResponse(validation.error.errors[0].message, 400);
+    }
+
+    const { participantId, cost, actionName } = validation.data;
+    const creature = findParticipantById(encounter.participants, participantId);
+    if (!creature) {
+      return createErrorResponse('Participant not found', 400);
+    }
+
+    const error = getLegendaryActionError(encounter, creature, cost);
+    if (error) {
+      return createErrorResponse(error, 400);
+    }
+
+    return recordCombatStep(encounter, async () => {
+      spendLegendaryActions(encounter, creature, cost);
+      await logEncounterAction(encounter, 'legendary_action', {
+        participantId: participant.participantId,
+        details: {
+          cost,
+          remaining: creature.legendaryActions!.remaining,
+          ...(actionName && { actionName }),
+        },
+      });
+      return true;
+    });
+  }
+);
+
+/**
+ * PUT /api/encounters/[id]/combat/legendary-actions
+ * Sets the size of a creature's legendary action pool; 0 removes it
+ */
+export const PUT = withCombatValidation(
+  {
+    operation: 'configuring legendary actions',
+    requiredFields: ['participantId', 'max'],
+    findParticipant: true
+  },
+  async (encounter, body, participant) => {
+    const validation = configureLegendaryActionsSchema.safeParse(body);
+    if (!validation.success) {
+      return createErrorResponse(validation.error.errors[0].message, 400);
+    }
+
+    const { participantId, max } = validation.data;
+    return recordCombatStep(encounter, async () => {
+      const creature = findParticipantById(encounter.participants, participantId);
+      if (!creature) return false;
+
+      configureLegendaryActions(creature, max);
+      await logEncounterAction(encounter, 'legendary_actions_configured', {
+        participantId: participant.participantId,
+        details: { max },
+      });
+      return true;
+    });
+  }
+);
@@ -1,4 +1,6 @@
 import { nextTurn } from '@/lib/models/encounter/methods';
+import { enhancedNextTurn, saveCombatState } from '@/lib/models/encounter/combatStateManager';
+import { recordCombatStep } from '@/lib/models/encounter/combatUndo';
 import { withCombatValidation } from '../api-wrapper';
 
 export const PATCH = withCombatValidation(
@@ -7,6 +9,13 @@ export const PATCH = withCombatValidation(
     validateNotPaused: true
   },
   async (encounter) => {
-    return nextTurn(encounter);
+    const advanced = await recordCombatStep(encounter, async () => {
+      await enhancedNextTurn(encounter);
+      return nextTurn(encounter);
+    });
+    if (!advanced) return false;
+
+    await saveCombatState(encounter);
+    return true;
   }
-);
\ No newline at end of file
+);
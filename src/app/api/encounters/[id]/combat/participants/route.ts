@@ -0,0 +1,65 @@
+import { joinCombat, removeParticipant } from '@/lib/models/encounter/methods';
+import { logEncounterAction } from '@/lib/models/encounter/combatStateManager';
+import { recordCombatStep } from '@/lib/models/encounter/combatUndo';
+import { joinCombatSchema, leaveCombatSchema } from '@/lib/validations/encounter';
+import { withCombatValidation } from '../api-wrapper';
+import { createErrorResponse } from '../utils';
+
+/**
+ * POST /api/encounters/[id]/combat/participants
+ * Adds a creature to a running combat at the given initiative, e.g. reinforcements
+ */
+export const POST = withCombatValidation(
+  {
+    operation: 'adding participant',
+    requiredFields: ['characterId', 'name', 'initiative']
+  },
+  async (encounter, body) => {
+    const validation = joinCombatSchema.safeParse(body);
+    if (!validation.success) {
+      return createErrorResponse(validation.error.errors[0].message, 400);
+    }
+
+    const { initiative, dexterity, ...participant } = validation.data;
+    return recordCombatStep(encounter, async () => {
+      if (!joinCombat(encounter, participant, initiative, dexterity)) {
+        return false;
+      }
+
+      await logEncounterAction(encounter, 'participant_added', {
+        participantId: encounter.participants[encounter.participants.length - 1].characterId,
+        details: { name: participant.name, initiative },
+      });
+      return true;
+    });
+  }
+);
+
+/**
+ * DELETE /api/encounters/[id]/combat/participants
+ * Removes a creature from combat, e.g. one that fled
+ */
+export const DELETE = withCombatValidation(
+  {
+    operation: 'removing participant',
+    requiredFields: ['participantId'],
+    findParticipant: true
+  },
+  async (encounter, body, participant) => {
+    const validation = leaveCombatSchema.safeParse(body);
+    if (!validation.success) {
+      return createErrorResponse(validation.error.errors[0].message, 400);
+    }
+
+    return recordCombatStep(encounter, async () => {
+      if (!removeParticipant(encounter, validation.data.participantId)) {
+        return false;
+      }
+
+      await logEncounterAction(encounter, 'participant_removed', {
+        participantId: participant.participantId,
+      });
+      return true;
+    });
+  }
+);
@@ -1,3 +1,5 @@
+import { logEncounterAction } from '@/lib/models/encounter/combatStateManager';
+import { recordCombatStep } from '@/lib/models/encounter/combatUndo';
 import { withCombatValidation } from '../api-wrapper';
 
 export const PATCH = withCombatValidation(
@@ -5,8 +7,9 @@ export const PATCH = withCombatValidation(
     operation: 'pausing combat',
     validateNotPaused: true
   },
-  async (encounter) => {
+  (encounter) => recordCombatStep(encounter, async () => {
     encounter.combatState.pausedAt = new Date();
+    await logEncounterAction(encounter, 'combat_paused');
     return true;
-  }
-);
\ No newline at end of file
+  })
+);
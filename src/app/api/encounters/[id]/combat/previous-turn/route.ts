@@ -1,4 +1,6 @@
 import { previousTurn } from '@/lib/models/encounter/methods';
+import { logEncounterAction, saveCombatState } from '@/lib/models/encounter/combatStateManager';
+import { recordCombatStep } from '@/lib/models/encounter/combatUndo';
 import { withCombatValidation } from '../api-wrapper';
 
 export const PATCH = withCombatValidation(
@@ -7,6 +9,19 @@ export const PATCH = withCombatValidation(
     validateTurnHistory: true
   },
   async (encounter) => {
-    return previousTurn(encounter);
+    const reverted = await recordCombatStep(encounter, async () => {
+      if (!previousTurn(encounter)) return false;
+
+      const activeEntry = encounter.combatState.initiativeOrder[encounter.combatState.currentTurn];
+      await logEncounterAction(encounter, 'turn_start', {
+        participantId: activeEntry?.participantId,
+        details: { reverted: true },
+      });
+      return true;
+    });
+    if (!reverted) return false;
+
+    await saveCombatState(encounter);
+    return true;
   }
-);
\ No newline at end of file
+);
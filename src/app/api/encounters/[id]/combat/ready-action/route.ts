@@ -1,3 +1,5 @@
+import { logEncounterAction } from '@/lib/models/encounter/combatStateManager';
+import { recordCombatStep } from '@/lib/models/encounter/combatUndo';
 import { withCombatValidation } from '../api-wrapper';
 
 export const PATCH = withCombatValidation(
@@ -6,8 +8,12 @@ export const PATCH = withCombatValidation(
     requiredFields: ['participantId', 'readyAction'],
     findParticipant: true
   },
-  async (encounter, body, participant) => {
+  (encounter, body, participant) => recordCombatStep(encounter, async () => {
     participant.readyAction = body.readyAction;
+    await logEncounterAction(encounter, 'action_readied', {
+      participantId: participant.participantId,
+      details: { readyAction: body.readyAction },
+    });
     return true;
-  }
-);
\ No newline at end of file
+  })
+);
@@ -1,4 +1,7 @@
+import { Types } from 'mongoose';
 import { rerollInitiative } from '@/lib/models/encounter/initiative-rolling';
+import { logEncounterAction } from '@/lib/models/encounter/combatStateManager';
+import { recordCombatStep } from '@/lib/models/encounter/combatUndo';
 import { withCombatValidation } from '../api-wrapper';
 import type { IEncounter } from '@/lib/models/encounter/interfaces';
 
@@ -62,7 +65,7 @@ export const POST = withCombatValidation(
     requireBody: false,
     requiredFields: [],
   },
-  async (encounter, body) => {
+  (encounter, body) => recordCombatStep(encounter, async () => {
     const bodyData = body || {};
     const { participantId } = bodyData;
 
@@ -82,6 +85,10 @@ export const POST = withCombatValidation(
     // Restore active participant if combat is active
     restoreActiveParticipant(encounter, currentActiveParticipantId);
 
+    await logEncounterAction(encounter, 'initiative_set', {
+      ...(participantId && { participantId: new Types.ObjectId(participantId) }),
+      details: { rolled: true, rollAll: !participantId },
+    });
     return true;
-  }
+  })
 );
\ No newline at end of file
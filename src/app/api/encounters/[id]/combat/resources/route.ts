@@ -0,0 +1,142 @@
+import { NextResponse } from 'next/server';
+import {
+  configureCustomResource,
+  findResource,
+  getResourceSpendError,
+  seedParticipantResources,
+  spendResource,
+} from '@/lib/models/encounter/resources';
+import { logEncounterAction } from '@/lib/models/encounter/combatStateManager';
+import { recordCombatStep } from '@/lib/models/encounter/combatUndo';
+import { findParticipantById } from '@/lib/models/encounter/utils';
+import type { IEncounter } from '@/lib/models/encounter/interfaces';
+import { Character } from '@/lib/models/Character';
+import { configureResourceSchema, spendResourceSchema } from '@/lib/validations/encounter';
+import { withCombatValidation } from '../api-wrapper';
+import { createErrorResponse } from '../utils';
+
+/**
+ * Rejects resource changes when the encounter does not track resources
+ */
+function checkTrackingEnabled(encounter: IEncounter): NextResponse | null {
+  return encounter.settings.trackResources
+    ? null
+    : createErrorResponse('Resource tracking is disabled for this encounter', 400);
+}
+
+/**
+ * PATCH /api/encounters/[id]/combat/resources
+ * Spends uses of a participant's spell slot, class feature or custom counter
+ */
+export const PATCH = withCombatValidation(
+  {
+    operation: 'spending resource',
+    requiredFields: ['participantId', 'resourceId'],
+    validateNotPaused: true,
+    findParticipant: true
+  },
+  async (encounter, body, participant) => {
+    const disabled = checkTrackingEnabled(encounter);
+    if (disabled) return disabled;
+
+    const validation = spendResourceSchema.safeParse(body);
+    if (!validation.success) {
+      return createErrorResponse(validation.error.errors[0].message, 400);
+    }
+
+    const { participantId, resourceId, amount } = validation.data;
+    const creature = findParticipantById(encounter.participants, participantId);
+    if (!creature) {
+      return createErrorResponse('Participant not found', 400);
+    }
+
+    const error = getResourceSpendError(creature, resourceId, amount);
+    if (error) {
+      return createErrorResponse(error, 400);
+    }
+
+    return recordCombatStep(encounter, async () => {
+      spendResource(creature, resourceId, amount);
+      const resource = findResource(creature, resourceId)!;
+      await logEncounterAction(encounter, 'resource_spent', {
+        participantId: participant.participantId,
+        details: {
+          resourceId,
+          resourceName: resource.name,
+          amount,
+          remaining: resource.remaining,
+        },
+      });
+      return true;
+    });
+  }
+);
+
+/**
+ * PUT /api/encounters/[id]/combat/resources
+ * Adds or resizes a custom counter on a participant; a max of 0 removes it
+ */
+export const PUT = withCombatValidation(
+  {
+    operation: 'configuring resource',
+    requiredFields: ['participantId', 'name', 'max'],
+    allowInactiveCombat: true
+  },
+  async (encounter, body) => {
+    const disabled = checkTrackingEnabled(encounter);
+    if (disabled) return disabled;
+
+    const validation = configureResourceSchema.safeParse(body);
+    if (!validation.success) {
+      return createErrorResponse(validation.error.errors[0].message, 400);
+    }
+
+    const { participantId, name, max, recharge } = validation.data;
+    return recordCombatStep(encounter, async () => {
+      const creature = findParticipantById(encounter.participants, participantId);
+      if (!creature) return false;
+
+      configureCustomResource(creature, name, max, recharge);
+      await logEncounterAction(encounter, 'resource_configured', {
+        participantId: creature.characterId,
+        details: { resourceName: name, max, recharge },
+      });
+      return true;
+    });
+  }
+);
+
+/**
+ * POST /api/encounters/[id]/combat/resources
+ * Refills every participant's class resources from its character's classes
+ * and levels. Participants without a character sheet keep their counters.
+ */
+export const POST = withCombatValidation(
+  {
+    operation: 'seeding resources',
+    allowInactiveCombat: true
+  },
+  async (encounter) => {
+    const disabled = checkTrackingEnabled(encounter);
+    if (disabled) return disabled;
+
+    const characters = await Character.find({
+      _id: { $in: encounter.participants.map(p => p.characterId) }
+    });
+    const characterMap = new Map(characters.map(char => [char._id.toString(), char]));
+
+    return recordCombatStep(encounter, async () => {
+      const seeded = encounter.participants.filter(participant => {
+        const character = characterMap.get(participant.characterId.toString());
+        if (character) {
+          seedParticipantResources(participant, character);
+        }
+        return Boolean(character);
+      });
+      await logEncounterAction(encounter, 'resources_seeded', {
+        details: { participants: seeded.length },
+      });
+      return true;
+    });
+  }
+);
@@ -0,0 +1,34 @@
+import { applyRest } from '@/lib/models/encounter/resources';
+import { logEncounterAction } from '@/lib/models/encounter/combatStateManager';
+import { recordCombatStep } from '@/lib/models/encounter/combatUndo';
+import { restSchema } from '@/lib/validations/encounter';
+import { withCombatValidation } from '../api-wrapper';
+import { createErrorResponse } from '../utils';
+
+/**
+ * POST /api/encounters/[id]/combat/rest
+ * Restores participants' resources after a short or long rest. A short rest
+ * restores short-rest resources; a long rest restores both.
+ */
+export const POST = withCombatValidation(
+  {
+    operation: 'taking rest',
+    requiredFields: ['type'],
+    allowInactiveCombat: true
+  },
+  async (encounter, body) => {
+    const validation = restSchema.safeParse(body);
+    if (!validation.success) {
+      return createErrorResponse(validation.error.errors[0].message, 400);
+    }
+
+    const { type } = validation.data;
+    return recordCombatStep(encounter, async () => {
+      const restored = applyRest(encounter, type);
+      await logEncounterAction(encounter, 'rest_taken', {
+        details: { type, restored },
+      });
+      return true;
+    });
+  }
+);
@@ -1,4 +1,8 @@
+import { Types } from 'mongoose';
 import { rollBulkInitiative, rollSingleInitiative } from '@/lib/models/encounter/initiative-rolling';
+import { logEncounterAction } from '@/lib/models/encounter/combatStateManager';
+import { recordCombatStep } from '@/lib/models/encounter/combatUndo';
+import { syncLairActionEntry } from '@/lib/models/encounter/lairActions';
 import { withCombatValidation } from '../api-wrapper';
 import { Character } from '@/lib/models/Character';
 import type { IEncounter } from '@/lib/models/encounter/interfaces';
@@ -88,6 +92,7 @@ async function rollAllParticipantsInitiative(encounter: IEncounter): Promise<voi
 
   // Convert back to IInitiativeEntry format using helper
   encounter.combatState.initiativeOrder = initiativeEntries.map(toInitiativeEntry);
+  syncLairActionEntry(encounter);
 
   // Set first participant as active if combat is active
   if (encounter.combatState.isActive && encounter.combatState.initiativeOrder.length > 0) {
@@ -102,17 +107,22 @@ export const POST = withCombatValidation(
     requireBody: false,
     requiredFields: [],
   },
-  async (encounter, body) => {
+  (encounter, body) => recordCombatStep(encounter, async () => {
     const bodyData = body || {};
     const { participantId, rollAll = false } = bodyData;
+    const rollSingle = Boolean(participantId && !rollAll);
 
     // Choose initiative rolling strategy
-    if (participantId && !rollAll) {
+    if (rollSingle) {
       await rollSingleParticipantInitiative(encounter, participantId);
     } else {
       await rollAllParticipantsInitiative(encounter);
     }
 
+    await logEncounterAction(encounter, 'initiative_set', {
+      ...(rollSingle && { participantId: new Types.ObjectId(participantId) }),
+      details: { rolled: true, rollAll: !rollSingle },
+    });
     return true;
-  }
+  })
 );
\ No newline at end of file
@@ -0,0 +1,108 @@
+import { NextRequest } from 'next/server';
+import { auth } from '@clerk/nextjs/server';
+import type { IEncounter } from '@/lib/models/encounter/interfaces';
+import { subscribeToCombatUpdates } from '@/lib/realtime/combat-sync';
+import { buildPlayerCombatView, type PlayerCombatView } from '@/lib/realtime/player-view';
+import {
+  validateAndGetEncounter,
+  createErrorResponse,
+  handleAsyncError
+} from '../utils';
+
+export const dynamic = 'force-dynamic';
+
+const HEARTBEAT_INTERVAL_MS = 25000;
+
+/**
+ * Checks whether a user may watch the player view of an encounter
+ */
+function canViewEncounter(encounter: IEncounter, userId: string): boolean {
+  return (
+    encounter.ownerId.toString() === userId ||
+    encounter.isPublic ||
+    encounter.sharedWith.some(id => id.toString() === userId)
+  );
+}
+
+/**
+ * Formats a player view as a server-sent event
+ */
+function formatEvent(view: PlayerCombatView): string {
+  return `event: combat-update\ndata: ${JSON.stringify(view)}\n\n`;
+}
+
+/**
+ * Creates the event stream for one player connection
+ */
+function createPlayerStream(encounter: IEncounter, signal: AbortSignal): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+  const encounterId = encounter._id.toString();
+  let cleanup = () => {};
+
+  return new ReadableStream<Uint8Array>({
+    start(controller) {
+      const send = (chunk: string) => controller.enqueue(encoder.encode(chunk));
+
+      send(formatEvent(buildPlayerCombatView(encounter)));
+      const unsubscribe = subscribeToCombatUpdates(
+        encounterId,
+        view => send(formatEvent(view)),
+        encounter.updatedAt
+      );
+      const heartbeat = setInterval(() => send(': heartbeat\n\n'), HEARTBEAT_INTERVAL_MS);
+
+      cleanup = () => {
+        clearInterval(heartbeat);
+        unsubscribe();
+      };
+      signal.addEventListener('abort', () => {
+        cleanup();
+        try {
+          controller.close();
+        } catch {
+          // Stream was already cancelled by the client
+        }
+      });
+    },
+    cancel() {
+      cleanup();
+    },
+  });
+}
+
+/**
+ * GET /api/encounters/[id]/combat/stream
+ * Streams the read-only player view of an encounter as server-sent events
+ */
+export async function GET(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+): Promise<Response> {
+  try {
+    const session = await auth();
+    if (!session?.userId) {
+      return createErrorResponse('Authentication required', 401);
+    }
+
+    const { id: encounterId } = await context.params;
+    const { encounter, errorResponse } = await validateAndGetEncounter(encounterId);
+    if (errorResponse) return errorResponse;
+
+    if (!canViewEncounter(encounter!, session.userId)) {
+      return createErrorResponse('Access denied: You cannot view this encounter', 403);
+    }
+    if (!encounter!.settings?.allowPlayerVisibility) {
+      return createErrorResponse('Player view is disabled for this encounter', 403);
+    }
+
+    return new Response(createPlayerStream(encounter!, request.signal), {
+      headers: {
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache, no-transform',
+        Connection: 'keep-alive',
+      },
+    });
+  } catch (error) {
+    return handleAsyncError(error, 'opening combat stream');
+  }
+}
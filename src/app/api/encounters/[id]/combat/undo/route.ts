@@ -0,0 +1,24 @@
+import { clearCombatState, saveCombatState } from '@/lib/models/encounter/combatStateManager';
+import { undoCombatStep } from '@/lib/models/encounter/combatUndo';
+import { withCombatValidation } from '../api-wrapper';
+import { createErrorResponse } from '../utils';
+
+export const PATCH = withCombatValidation(
+  {
+    operation: 'undoing combat action',
+    allowInactiveCombat: true
+  },
+  async (encounter) => {
+    const result = await undoCombatStep(encounter, () => encounter.save());
+    if (!result) {
+      return createErrorResponse('Nothing to undo', 400);
+    }
+
+    if (encounter.combatState.isActive) {
+      await saveCombatState(encounter);
+    } else {
+      await clearCombatState(encounter._id.toString());
+    }
+    return true;
+  }
+);
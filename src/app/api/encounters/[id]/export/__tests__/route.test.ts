@@ -59,6 +59,30 @@ describe('/api/encounters/[id]/export', () => {
       expect(responseData).toBe(mockExportData);
     });
 
+    it('should export encounter to Foundry VTT as a JSON file', async () => {
+      const mockExportData = '{"name":"Test","actors":[],"combat":{}}';
+      mockService.exportToFoundry.mockResolvedValue({ success: true, data: mockExportData });
+
+      const { request, params } = createExportTest('http://localhost:3000/api/encounters/123/export?format=foundry');
+      const response = await GET(request, { params });
+
+      const responseData = await expectExportSuccess(response, 'json');
+      expect(responseData).toBe(mockExportData);
+      expect(response.headers.get('Content-Disposition')).toMatch(/encounter-123-\d+\.foundry\.json"$/);
+    });
+
+    it('should export encounter to Fight Club 5 as an XML file', async () => {
+      const mockExportData = '<?xml version="1.0"?><compendium version="5"></compendium>';
+      mockService.exportToFightClub.mockResolvedValue({ success: true, data: mockExportData });
+
+      const { request, params } = createExportTest('http://localhost:3000/api/encounters/123/export?format=fightclub');
+      const response = await GET(request, { params });
+
+      const responseData = await expectExportSuccess(response, 'xml');
+      expect(responseData).toBe(mockExportData);
+      expect(response.headers.get('Content-Disposition')).toMatch(/encounter-123-\d+\.fightclub\.xml"$/);
+    });
+
     it('should handle export options correctly', async () => {
       mockExportSuccess(mockService, '{}');
 
@@ -26,7 +26,7 @@ export async function GET(
     const userId = session.userId;
 
     try {
-      const encounter = await validateEncounterAccessUtil(encounterId, userId, EncounterService);
+      const encounter = await validateEncounterAccessUtil(encounterId, userId, EncounterService, 'view');
       return handleServiceResult({ success: true, data: encounter });
     } catch (error) {
       if (error instanceof Error) {
@@ -64,10 +64,18 @@ export async function PUT(
     const userId = session.userId;
 
     try {
-      await validateEncounterAccessUtil(encounterId, userId, EncounterService);
+      const encounter = await validateEncounterAccessUtil(encounterId, userId, EncounterService, 'edit');
       const updateData = await validateRequestBody(request, []);
       const validatedData = updateEncounterSchema.parse(updateData);
 
+      // Co-DMs can edit the encounter, but only the owner decides who can see it
+      if (
+        (validatedData.sharedWith !== undefined || validatedData.isPublic !== undefined) &&
+        encounter.ownerId.toString() !== userId
+      ) {
+        return createErrorResponse('Only the owner can change who can see this encounter', 403);
+      }
+
       const result = await EncounterService.updateEncounter(encounterId, validatedData);
 
       // Handle service errors with proper status codes
@@ -1,5 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { EncounterService } from '@/lib/services/EncounterService';
+import { EncounterServiceAuth } from '@/lib/services/EncounterServiceAuth';
+import { hasPermission } from '@/lib/utils/collaboration';
 import { encounterSettingsPartialSchema } from '@/lib/validations/encounter';
 import { objectIdSchema } from '@/lib/validations/base';
 import { ZodError } from 'zod';
@@ -32,7 +34,8 @@ async function validateEncounterAccess(encounterId: string, userId: string) {
     };
   }
 
-  if (existingResult.data?.ownerId.toString() !== userId) {
+  const role = await EncounterServiceAuth.getAccessRole(existingResult.data!, userId);
+  if (!hasPermission(role, 'edit')) {
     return {
       success: false as const,
       error: createErrorResponse(
@@ -0,0 +1,64 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { EncounterServiceImportExport } from '@/lib/services/EncounterServiceImportExport';
+import { withAuth } from '@/lib/api/route-helpers';
+import { extendShareLinkSchema } from '@/lib/validations/encounter';
+import { handleApiError, createErrorResponse } from '../../../shared-route-helpers';
+
+type ShareLinkParams = { params: Promise<{ id: string; shareId: string }> };
+
+/**
+ * PATCH /api/encounters/[id]/share/[shareId]
+ * Sets a new expiry for a share link
+ */
+export async function PATCH(request: NextRequest, { params }: ShareLinkParams) {
+  return withAuth(async (userId: string) => {
+    try {
+      const { expiresIn } = extendShareLinkSchema.parse(await request.json());
+      const { id: encounterId, shareId } = await params;
+
+      const result = await EncounterServiceImportExport.extendShareLink(encounterId, shareId, userId, expiresIn);
+
+      if (!result.success) {
+        return createErrorResponse(
+          result.error?.message || 'Failed to update share link',
+          result.error?.statusCode
+        );
+      }
+
+      return NextResponse.json({
+        success: true,
+        share: result.data,
+      });
+    } catch (error) {
+      return handleApiError(error);
+    }
+  });
+}
+
+/**
+ * DELETE /api/encounters/[id]/share/[shareId]
+ * Revokes a share link; it stays listed as revoked
+ */
+export async function DELETE(_request: NextRequest, { params }: ShareLinkParams) {
+  return withAuth(async (userId: string) => {
+    try {
+      const { id: encounterId, shareId } = await params;
+
+      const result = await EncounterServiceImportExport.revokeShareLink(encounterId, shareId, userId);
+
+      if (!result.success) {
+        return createErrorResponse(
+          result.error?.message || 'Failed to revoke share link',
+          result.error?.statusCode
+        );
+      }
+
+      return NextResponse.json({
+        success: true,
+        share: result.data,
+      });
+    } catch (error) {
+      return handleApiError(error);
+    }
+  });
+}
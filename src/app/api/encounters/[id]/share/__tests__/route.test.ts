@@ -0,0 +1,50 @@
+import { GET, POST } from '../route';
+import {
+  setupEncounterApiTest,
+  createMockRequest,
+  expectErrorResponse,
+} from '../../../__tests__/shared-test-utilities';
+
+jest.mock('@/lib/services/EncounterServiceImportExport');
+jest.mock('@clerk/nextjs/server');
+
+const shareUrl = 'http://localhost:3000/api/encounters/123/share';
+const params = Promise.resolve({ id: '123' });
+const forbidden = {
+  success: false as const,
+  error: { message: 'Only the owner can share this encounter', code: 'FORBIDDEN', statusCode: 403 },
+};
+
+describe('/api/encounters/[id]/share', () => {
+  it('creates a share link', async () => {
+    const { mockService } = setupEncounterApiTest();
+    mockService.generateShareableLink.mockResolvedValue({ success: true, data: 'https://example.com/s/abc' });
+
+    const request = createMockRequest({ url: shareUrl, body: { expiresIn: 3600000, scope: 'read_only' } });
+    const response = await POST(request, { params });
+    const body = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(body).toMatchObject({ success: true, shareUrl: 'https://example.com/s/abc', scope: 'read_only' });
+  });
+
+  it('passes the service status through when creating a link fails', async () => {
+    const { mockService } = setupEncounterApiTest();
+    mockService.generateShareableLink.mockResolvedValue(forbidden as any);
+
+    const request = createMockRequest({ url: shareUrl, body: { expiresIn: 3600000, scope: 'read_only' } });
+    const response = await POST(request, { params });
+
+    await expectErrorResponse(response, 403, 'Only the owner can share this encounter');
+  });
+
+  it('passes the service status through when listing links fails', async () => {
+    const { mockService } = setupEncounterApiTest();
+    mockService.listShareLinks.mockResolvedValue(forbidden as any);
+
+    const request = createMockRequest({ method: 'GET', url: shareUrl });
+    const response = await GET(request, { params });
+
+    await expectErrorResponse(response, 403, 'Only the owner can share this encounter');
+  });
+});
@@ -1,12 +1,35 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { EncounterServiceImportExport } from '@/lib/services/EncounterServiceImportExport';
 import { withAuth } from '@/lib/api/route-helpers';
+import { createShareLinkSchema } from '@/lib/validations/encounter';
 import { handleApiError, createErrorResponse } from '../../shared-route-helpers';
-import { z } from 'zod';
 
-const shareBodySchema = z.object({
-  expiresIn: z.number().min(60000).max(7 * 24 * 60 * 60 * 1000).default(24 * 60 * 60 * 1000), // 1 minute to 7 days
-});
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  return withAuth(async (userId: string) => {
+    try {
+      const { id: encounterId } = await params;
+
+      const result = await EncounterServiceImportExport.listShareLinks(encounterId, userId);
+
+      if (!result.success) {
+        return createErrorResponse(
+          result.error?.message || 'Failed to load share links',
+          result.error?.statusCode
+        );
+      }
+
+      return NextResponse.json({
+        success: true,
+        shares: result.data,
+      });
+    } catch (error) {
+      return handleApiError(error);
+    }
+  });
+}
 
 export async function POST(
   request: NextRequest,
@@ -15,7 +38,7 @@ export async function POST(
   return withAuth(async (userId: string) => {
     try {
       const body = await request.json();
-      const validatedBody = shareBodySchema.parse(body);
+      const validatedBody = createShareLinkSchema.parse(body);
 
       const resolvedParams = await params;
       const encounterId = resolvedParams.id;
@@ -23,11 +46,15 @@ export async function POST(
       const result = await EncounterServiceImportExport.generateShareableLink(
         encounterId,
         userId,
-        validatedBody.expiresIn
+        validatedBody.expiresIn,
+        validatedBody.scope
       );
 
       if (!result.success) {
-        return createErrorResponse(result.error?.message || 'Failed to generate share link');
+        return createErrorResponse(
+          result.error?.message || 'Failed to generate share link',
+          result.error?.statusCode
+        );
       }
 
       const expiresAt = new Date(Date.now() + validatedBody.expiresIn);
@@ -35,10 +62,11 @@ export async function POST(
       return NextResponse.json({
         success: true,
         shareUrl: result.data,
+        scope: validatedBody.scope,
         expiresAt: expiresAt.toISOString(),
       });
     } catch (error) {
       return handleApiError(error);
     }
   });
-}
\ No newline at end of file
+}
@@ -0,0 +1,23 @@
+import { handleApiError } from '../shared-route-helpers';
+import { encounterExportSchema } from '@/lib/services/encounter-import-export/types';
+
+describe('handleApiError', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('answers export schema validation errors with 400', async () => {
+    const result = encounterExportSchema.safeParse({ metadata: {} });
+    expect(result.success).toBe(false);
+
+    const response = handleApiError(result.error);
+    const body = await response.json();
+
+    expect(response.status).toBe(400);
+    expect(body.error).toBe('Invalid request data');
+  });
+});
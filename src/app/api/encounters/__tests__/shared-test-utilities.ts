@@ -9,6 +9,7 @@ import { NextRequest } from 'next/server';
 import { Types } from 'mongoose';
 import { auth } from '@clerk/nextjs/server';
 import { EncounterServiceImportExport } from '@/lib/services/EncounterServiceImportExport';
+import type { ExportFormat } from '@/lib/services/encounter-import-export/types';
 import { setupAuthenticatedState, setupUnauthenticatedState, setupIncompleteAuthState } from '@/lib/test-utils/auth-test-utils';
 
 // ============================================================================
@@ -168,7 +169,7 @@ export const createMockRequest = (config: {
  */
 export const createImportRequestBody = (
   data: string,
-  format: 'json' | 'xml' = 'json',
+  format: ExportFormat = 'json',
   options: any = null
 ) => ({
   data,
@@ -0,0 +1,19 @@
+import { NextResponse } from 'next/server';
+import { EncounterServiceImportExport } from '@/lib/services/EncounterServiceImportExport';
+import { withAuth } from '@/lib/api/route-helpers';
+import { handleApiError } from '../shared-route-helpers';
+
+/**
+ * JSON Schema for encounter export files at the current export version
+ */
+export async function GET() {
+  return withAuth(async () => {
+    try {
+      return NextResponse.json(EncounterServiceImportExport.getExportJsonSchema(), {
+        headers: { 'Content-Type': 'application/schema+json' },
+      });
+    } catch (error) {
+      return handleApiError(error);
+    }
+  });
+}
@@ -96,6 +96,24 @@ describe('/api/encounters/import', () => {
       );
     });
 
+    it.each([
+      ['foundry', 'importFromFoundry', '[{"name":"Ogre","type":"npc"}]'],
+      ['fightclub', 'importFromFightClub', '<compendium><monster><name>Ogre</name></monster></compendium>'],
+    ] as const)('should import encounter from %s', async (format, method, data) => {
+      // Arrange
+      const mockEncounter = createMockEncounter();
+      mockService[method].mockResolvedValue({ success: true, data: mockEncounter });
+
+      const request = createMockRequest({ body: createImportRequestBody(data, format) });
+
+      // Act
+      const response = await POST(request);
+
+      // Assert
+      await expectImportSuccess(response);
+      expect(mockService[method]).toHaveBeenCalledWith(data, createDefaultImportOptions());
+    });
+
     it('should use default options when not provided', async () => {
       // Arrange
       const mockImportData = createMockImportData();
@@ -0,0 +1,84 @@
+// Test file for restore route
+import { POST } from '../route';
+import { EncounterServiceImportExport } from '@/lib/services/EncounterServiceImportExport';
+import {
+  setupEncounterApiTest,
+  createMockRequest,
+  createRestoreRequestBody,
+  createDefaultImportOptions,
+  createMockEncounter,
+  createMockImportData,
+} from '../../__tests__/shared-test-utilities';
+
+// Mock the service and auth
+jest.mock('@/lib/services/EncounterServiceImportExport');
+jest.mock('@clerk/nextjs/server');
+
+const mockService = EncounterServiceImportExport as jest.Mocked<typeof EncounterServiceImportExport>;
+
+describe('/api/encounters/restore', () => {
+  const oldEncounter = createMockImportData();
+  const futureEncounter = { ...oldEncounter, metadata: { ...oldEncounter.metadata, version: '9.0.0' } };
+  const backup = JSON.stringify({
+    metadata: { backupDate: '2026-03-01T00:00:00.000Z', userId: 'user', encounterCount: 2, format: 'json' },
+    encounters: [oldEncounter, futureEncounter],
+  });
+
+  beforeEach(() => {
+    setupEncounterApiTest();
+
+    mockService.upgradeImportData
+      .mockReturnValueOnce({
+        success: true,
+        data: {
+          data: oldEncounter,
+          fromVersion: '1.0.0',
+          notes: ['Upgraded from export version 1.0.0 to 1.1.0'],
+        },
+      })
+      .mockReturnValueOnce({
+        success: false,
+        error: { message: 'Export version 9.0.0 is newer than this app supports (1.1.0)', code: 'UNSUPPORTED_EXPORT_VERSION' },
+      });
+    mockService.importFromJson.mockResolvedValue({ success: true, data: createMockEncounter() });
+  });
+
+  describe('POST', () => {
+    it('should restore upgraded encounters with their upgrade notes', async () => {
+      const request = createMockRequest({ body: createRestoreRequestBody(backup) });
+
+      const response = await POST(request);
+
+      expect(response.status).toBe(200);
+      const responseData = await response.json();
+      expect(responseData.restored).toEqual([
+        expect.objectContaining({
+          originalName: oldEncounter.encounter.name,
+          fromVersion: '1.0.0',
+          upgradeNotes: ['Upgraded from export version 1.0.0 to 1.1.0'],
+        }),
+      ]);
+      expect(mockService.upgradeImportData).toHaveBeenCalledWith(JSON.stringify(oldEncounter), 'json');
+      expect(mockService.importFromJson).toHaveBeenCalledTimes(1);
+      expect(mockService.importFromJson).toHaveBeenCalledWith(
+        JSON.stringify(oldEncounter),
+        createDefaultImportOptions()
+      );
+    });
+
+    it('should report encounters that cannot be upgraded', async () => {
+      const request = createMockRequest({ body: createRestoreRequestBody(backup) });
+
+      const response = await POST(request);
+
+      const responseData = await response.json();
+      expect(responseData.errors).toEqual([
+        {
+          encounterName: futureEncounter.encounter.name,
+          error: 'Export version 9.0.0 is newer than this app supports (1.1.0)',
+        },
+      ]);
+      expect(responseData.summary).toEqual(expect.objectContaining({ successfullyRestored: 1, failed: 1 }));
+    });
+  });
+});
@@ -1,5 +1,5 @@
 import { NextRequest } from 'next/server';
-// Service imports handled by shared utilities
+import { EncounterServiceImportExport } from '@/lib/services/EncounterServiceImportExport';
 import { withAuth } from '@/lib/api/route-helpers';
 import {
   restoreBodySchema,
@@ -52,8 +52,17 @@ async function processEncounters(backupData: any, validatedBody: any, importOpti
     }
 
     try {
-      const result = await importEncounter(encounter, validatedBody.format, importOptions);
-      processImportResult(result, encounter, i, results, errors);
+      const upgrade = upgradeEncounter(encounter, validatedBody.format);
+      if (!upgrade.success) {
+        errors.push({
+          encounterName: encounter.encounter?.name || `encounter-${i}`,
+          error: upgrade.error?.message || 'Import failed',
+        });
+        continue;
+      }
+
+      const result = await importEncounter(upgrade.data!.data, importOptions);
+      processImportResult(result, upgrade.data, i, results, errors);
     } catch (error) {
       addImportError(error, encounter, i, errors);
     }
@@ -67,23 +76,35 @@ function shouldSkipEncounter(encounter: any, options: any, index: number): boole
          !options.selectiveRestore.includes(encounter.encounter?.name || `encounter-${index}`);
 }
 
-async function importEncounter(encounter: any, format: string, importOptions: any) {
+/**
+ * Bring a backed-up encounter up to the current export version; older backups
+ * restore with notes describing what was changed
+ */
+function upgradeEncounter(encounter: any, format: 'json' | 'xml') {
   const data = format === 'json' ? JSON.stringify(encounter) : encounter;
-  return await performImportOperation(data, format as 'json' | 'xml', importOptions);
+  return EncounterServiceImportExport.upgradeImportData(data, format);
 }
 
-function processImportResult(result: any, encounter: any, index: number, results: any[], errors: any[]) {
+async function importEncounter(upgradedData: unknown, importOptions: any) {
+  return await performImportOperation(JSON.stringify(upgradedData), 'json', importOptions);
+}
+
+function processImportResult(result: any, upgrade: any, index: number, results: any[], errors: any[]) {
+  const encounterName = upgrade.data?.encounter?.name || `encounter-${index}`;
+
   if (result.success) {
     results.push({
-      originalName: encounter.encounter?.name || `encounter-${index}`,
+      originalName: encounterName,
       importedId: result.data?._id,
       importedName: result.data?.name,
       participantCount: result.data?.participants?.length || 0,
+      ...(upgrade.notes.length > 0 && { fromVersion: upgrade.fromVersion, upgradeNotes: upgrade.notes }),
     });
   } else {
     errors.push({
-      encounterName: encounter.encounter?.name || `encounter-${index}`,
+      encounterName,
       error: result.error?.message || 'Import failed',
+      ...(upgrade.notes.length > 0 && { upgradeNotes: upgrade.notes }),
     });
   }
 }
@@ -8,6 +8,7 @@
 import { NextResponse } from 'next/server';
 import { z } from 'zod';
 import { EncounterServiceImportExport } from '@/lib/services/EncounterServiceImportExport';
+import { EXPORT_FORMATS, type ExportFormat } from '@/lib/services/encounter-import-export/types';
 
 // ============================================================================
 // ERROR HANDLING UTILITIES
@@ -68,18 +69,34 @@ export function createSuccessResponse(data: any, status: number = 200): NextResp
 // IMPORT/EXPORT UTILITIES
 // ============================================================================
 
+/**
+ * File type of each export format; Foundry VTT documents are JSON and
+ * Fight Club 5 compendiums are XML
+ */
+const FORMAT_FILE_TYPES: Record<ExportFormat, 'json' | 'xml'> = {
+  json: 'json',
+  xml: 'xml',
+  foundry: 'json',
+  fightclub: 'xml',
+};
+
 /**
  * Perform import operation based on format
  */
 export async function performImportOperation(
   data: string,
-  format: 'json' | 'xml',
+  format: ExportFormat,
   options: any
 ) {
-  if (format === 'json') {
-    return await EncounterServiceImportExport.importFromJson(data, options);
-  } else {
-    return await EncounterServiceImportExport.importFromXml(data, options);
+  switch (format) {
+    case 'foundry':
+      return await EncounterServiceImportExport.importFromFoundry(data, options);
+    case 'fightclub':
+      return await EncounterServiceImportExport.importFromFightClub(data, options);
+    case 'json':
+      return await EncounterServiceImportExport.importFromJson(data, options);
+    default:
+      return await EncounterServiceImportExport.importFromXml(data, options);
   }
 }
 
@@ -89,13 +106,18 @@ export async function performImportOperation(
 export async function performExportOperation(
   encounterId: string,
   userId: string,
-  format: 'json' | 'xml',
+  format: ExportFormat,
   options: any
 ) {
-  if (format === 'json') {
-    return await EncounterServiceImportExport.exportToJson(encounterId, userId, options);
-  } else {
-    return await EncounterServiceImportExport.exportToXml(encounterId, userId, options);
+  switch (format) {
+    case 'foundry':
+      return await EncounterServiceImportExport.exportToFoundry(encounterId, userId, options);
+    case 'fightclub':
+      return await EncounterServiceImportExport.exportToFightClub(encounterId, userId, options);
+    case 'json':
+      return await EncounterServiceImportExport.exportToJson(encounterId, userId, options);
+    default:
+      return await EncounterServiceImportExport.exportToXml(encounterId, userId, options);
   }
 }
 
@@ -104,10 +126,10 @@ export async function performExportOperation(
  */
 export function createExportResponse(
   data: string,
-  format: 'json' | 'xml',
+  format: ExportFormat,
   filename: string
 ): NextResponse {
-  const contentType = format === 'json' ? 'application/json' : 'application/xml';
+  const contentType = FORMAT_FILE_TYPES[format] === 'json' ? 'application/json' : 'application/xml';
 
   return new NextResponse(data, {
     status: 200,
@@ -124,9 +146,10 @@ export function createExportResponse(
 export function generateExportFilename(
   prefix: string,
   id: string,
-  format: 'json' | 'xml'
+  format: ExportFormat
 ): string {
-  return `${prefix}-${id}-${Date.now()}.${format}`;
+  const suffix = format === FORMAT_FILE_TYPES[format] ? '' : `.${format}`;
+  return `${prefix}-${id}-${Date.now()}${suffix}.${FORMAT_FILE_TYPES[format]}`;
 }
 
 // ============================================================================
@@ -206,6 +229,11 @@ export function createBatchResponse(
  */
 const formatEnum = z.enum(['json', 'xml']);
 
+/**
+ * Single encounter import/export also accepts the VTT formats
+ */
+const encounterFormatEnum = z.enum(EXPORT_FORMATS);
+
 /**
  * Base boolean transform for query parameters
  */
@@ -241,7 +269,7 @@ const sharedQueryFields = {
  */
 export const importBodySchema = z.object({
   data: z.string().min(1, 'Import data is required'),
-  format: formatEnum,
+  format: encounterFormatEnum,
   options: baseOptionsSchema.default({}),
 });
 
@@ -249,7 +277,7 @@ export const importBodySchema = z.object({
  * Standard export query validation schema
  */
 export const exportQuerySchema = z.object({
-  format: formatEnum.default('json'),
+  format: encounterFormatEnum.default('json'),
   ...sharedQueryFields,
   includeIds: booleanTransform('false'),
   stripPersonalData: booleanTransform('false'),
@@ -0,0 +1,64 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { EncounterServiceImportExport } from '@/lib/services/EncounterServiceImportExport';
+import { withAuth } from '@/lib/api/route-helpers';
+import { cloneSharedEncounterSchema } from '@/lib/validations/encounter';
+import { handleApiError, createErrorResponse } from '../../shared-route-helpers';
+
+export const dynamic = 'force-dynamic';
+
+type SharedEncounterParams = { params: Promise<{ token: string }> };
+
+/**
+ * GET /api/encounters/shared/[token]
+ * Public: returns what the share link's scope allows, or why the link no longer works
+ */
+export async function GET(_request: NextRequest, { params }: SharedEncounterParams) {
+  try {
+    const { token } = await params;
+
+    const result = await EncounterServiceImportExport.resolveSharedEncounter(token);
+
+    if (!result.success) {
+      return createErrorResponse(
+        result.error?.message || 'Failed to open shared encounter',
+        result.error?.statusCode
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      shared: result.data,
+    });
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
+
+/**
+ * POST /api/encounters/shared/[token]
+ * Copies the encounter behind a template link into the signed-in user's encounters
+ */
+export async function POST(request: NextRequest, { params }: SharedEncounterParams) {
+  return withAuth(async (userId: string) => {
+    try {
+      const { name } = cloneSharedEncounterSchema.parse(await request.json());
+      const { token } = await params;
+
+      const result = await EncounterServiceImportExport.cloneSharedEncounter(token, userId, name);
+
+      if (!result.success) {
+        return createErrorResponse(
+          result.error?.message || 'Failed to copy shared encounter',
+          result.error?.statusCode
+        );
+      }
+
+      return NextResponse.json({
+        success: true,
+        encounterId: result.data!._id.toString(),
+      }, { status: 201 });
+    } catch (error) {
+      return handleApiError(error);
+    }
+  });
+}
@@ -0,0 +1,71 @@
+import { NextRequest } from 'next/server';
+import { GET } from '../route';
+import { NPCTemplateService } from '@/lib/services/NPCTemplateService';
+import { SRD_TEMPLATES } from '@/lib/services/NPCTemplateData';
+
+jest.mock('@clerk/nextjs/server', () => ({
+  auth: jest.fn(),
+}));
+
+jest.mock('@/lib/services/NPCTemplateService', () => ({
+  NPCTemplateService: {
+    searchTemplates: jest.fn(),
+  },
+}));
+
+const { auth } = require('@clerk/nextjs/server');
+const mockSearchTemplates = NPCTemplateService.searchTemplates as jest.MockedFunction<
+  typeof NPCTemplateService.searchTemplates
+>;
+const mockAuth = auth as jest.MockedFunction<typeof auth>;
+
+const getTemplates = (query: string) =>
+  GET(new NextRequest(`http://localhost:3000/api/npc-templates?${query}`));
+
+describe('GET /api/npc-templates', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockAuth.mockResolvedValue({ userId: 'user-1' });
+  });
+
+  it('returns one page of matching templates', async () => {
+    const dragons = SRD_TEMPLATES.filter(template => /dragon/i.test(template.name)).slice(0, 2);
+    const pagination = { currentPage: 2, totalPages: 5, totalItems: 10, itemsPerPage: 2 };
+    mockSearchTemplates.mockResolvedValue({ success: true, data: { templates: dragons, pagination } });
+
+    const response = await getTemplates('search=dragon&isSystem=true&limit=2&page=2');
+    const data = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(mockSearchTemplates).toHaveBeenCalledWith({ search: 'dragon', isSystem: true, page: 2, limit: 2 });
+    expect(data.templates.map((template: { name: string }) => template.name)).toEqual(dragons.map(dragon => dragon.name));
+    expect(data.pagination).toEqual(pagination);
+  });
+
+  it('parses challenge rating filters', async () => {
+    mockSearchTemplates.mockResolvedValue({
+      success: true,
+      data: { templates: [], pagination: { currentPage: 1, totalPages: 0, totalItems: 0, itemsPerPage: 100 } },
+    });
+
+    const response = await getTemplates('minCR=0.25&maxCR=0.25&limit=100');
+
+    expect(response.status).toBe(200);
+    expect(mockSearchTemplates).toHaveBeenCalledWith({ minCR: 0.25, maxCR: 0.25, page: 1, limit: 100 });
+  });
+
+  it('rejects invalid query parameters', async () => {
+    const response = await getTemplates('limit=500');
+
+    expect(response.status).toBe(400);
+    expect(mockSearchTemplates).not.toHaveBeenCalled();
+  });
+
+  it('requires authentication', async () => {
+    mockAuth.mockResolvedValue({ userId: null });
+
+    const response = await getTemplates('search=goblin');
+
+    expect(response.status).toBe(401);
+  });
+});
@@ -0,0 +1,50 @@
+import { NextRequest } from 'next/server';
+import { NPCTemplateService } from '@/lib/services/NPCTemplateService';
+import {
+  withAuth,
+  createSuccessResponse,
+  handleServiceError,
+} from '@/lib/api/route-helpers';
+import { TemplateQuerySchema } from '@/types/npc';
+import { ZodError } from 'zod';
+
+/**
+ * GET /api/npc-templates
+ * Search the NPC templates, including the SRD bestiary
+ * Supports name/type search, category, size, environment and CR filters and pagination
+ */
+export async function GET(request: NextRequest) {
+  return withAuth(async () => {
+    try {
+      const searchParams = Object.fromEntries(
+        [...new URL(request.url).searchParams.entries()].filter(([, value]) => value !== '')
+      );
+
+      const query = TemplateQuerySchema.parse(searchParams);
+      const result = await NPCTemplateService.searchTemplates(query);
+
+      if (!result.success) {
+        return handleServiceError(result, 'Failed to get NPC templates');
+      }
+
+      return createSuccessResponse({
+        templates: result.data.templates,
+        pagination: result.data.pagination,
+      });
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return handleServiceError(
+          { error: { message: 'Invalid query parameters', details: error.errors } },
+          'Invalid query parameters'
+        );
+      }
+
+      console.error('GET /api/npc-templates error:', error);
+      return handleServiceError(
+        { error: { message: 'Internal server error' } },
+        'Failed to get NPC templates',
+        500
+      );
+    }
+  });
+}
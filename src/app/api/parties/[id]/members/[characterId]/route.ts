@@ -0,0 +1,37 @@
+import { NextRequest } from 'next/server';
+import { PartyService } from '@/lib/services/PartyService';
+import {
+  withAuth,
+  createSuccessResponse,
+  handleServiceError,
+} from '@/lib/api/route-helpers';
+
+/**
+ * DELETE /api/parties/[id]/members/[characterId]
+ * Remove a character from the party (owner, or the character's player)
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; characterId: string }> }
+) {
+  return withAuth(async (userId) => {
+    try {
+      const { id: partyId, characterId } = await params;
+
+      const result = await PartyService.removeMember(partyId, characterId, userId);
+
+      if (!result.success) {
+        return handleServiceError(result, 'Failed to remove party member');
+      }
+
+      return createSuccessResponse({}, 'Character removed from the party');
+    } catch (error) {
+      console.error('DELETE /api/parties/[id]/members/[characterId] error:', error);
+      return handleServiceError(
+        { error: { message: 'Internal server error' } },
+        'Failed to remove party member',
+        500
+      );
+    }
+  });
+}
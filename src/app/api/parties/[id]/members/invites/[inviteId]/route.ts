@@ -0,0 +1,37 @@
+import { NextRequest } from 'next/server';
+import { PartyService } from '@/lib/services/PartyService';
+import {
+  withAuth,
+  createSuccessResponse,
+  handleServiceError,
+} from '@/lib/api/route-helpers';
+
+/**
+ * DELETE /api/parties/[id]/members/invites/[inviteId]
+ * Revoke an invite code (owner only)
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; inviteId: string }> }
+) {
+  return withAuth(async (userId) => {
+    try {
+      const { id: partyId, inviteId } = await params;
+
+      const result = await PartyService.revokeInvite(partyId, inviteId, userId);
+
+      if (!result.success) {
+        return handleServiceError(result, 'Failed to revoke invite');
+      }
+
+      return createSuccessResponse({ invite: result.data }, 'Invite revoked');
+    } catch (error) {
+      console.error('DELETE /api/parties/[id]/members/invites/[inviteId] error:', error);
+      return handleServiceError(
+        { error: { message: 'Internal server error' } },
+        'Failed to revoke invite',
+        500
+      );
+    }
+  });
+}
@@ -0,0 +1,80 @@
+import { NextRequest } from 'next/server';
+import { PartyService } from '@/lib/services/PartyService';
+import {
+  withAuth,
+  createSuccessResponse,
+  handleServiceError,
+} from '@/lib/api/route-helpers';
+import { partyInviteCreateSchema } from '@/lib/validations/party';
+import { ZodError } from 'zod';
+
+/**
+ * GET /api/parties/[id]/members/invites
+ * List the party's invite codes (owner only)
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  return withAuth(async (userId) => {
+    try {
+      const { id: partyId } = await params;
+
+      const result = await PartyService.listInvites(partyId, userId);
+
+      if (!result.success) {
+        return handleServiceError(result, 'Failed to list invites');
+      }
+
+      return createSuccessResponse({ invites: result.data });
+    } catch (error) {
+      console.error('GET /api/parties/[id]/members/invites error:', error);
+      return handleServiceError(
+        { error: { message: 'Internal server error' } },
+        'Failed to list invites',
+        500
+      );
+    }
+  });
+}
+
+/**
+ * POST /api/parties/[id]/members/invites
+ * Create an invite code and link for the party (owner only)
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  return withAuth(async (userId) => {
+    try {
+      const { id: partyId } = await params;
+      const body = await request.json();
+
+      // Validate request body
+      const options = partyInviteCreateSchema.parse(body);
+
+      const result = await PartyService.createInvite(partyId, userId, options);
+
+      if (!result.success) {
+        return handleServiceError(result, 'Failed to create invite');
+      }
+
+      return createSuccessResponse({ invite: result.data }, 'Invite link created');
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return handleServiceError(
+          { error: { message: 'Invalid invite options', details: error.errors } },
+          'Invalid invite options'
+        );
+      }
+
+      console.error('POST /api/parties/[id]/members/invites error:', error);
+      return handleServiceError(
+        { error: { message: 'Internal server error' } },
+        'Failed to create invite',
+        500
+      );
+    }
+  });
+}
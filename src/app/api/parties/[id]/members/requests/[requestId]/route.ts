@@ -0,0 +1,79 @@
+import { NextRequest } from 'next/server';
+import { PartyService } from '@/lib/services/PartyService';
+import {
+  withAuth,
+  createSuccessResponse,
+  handleServiceError,
+} from '@/lib/api/route-helpers';
+import { joinRequestResponseSchema } from '@/lib/validations/party';
+import { ZodError } from 'zod';
+
+type RequestParams = { params: Promise<{ id: string; requestId: string }> };
+
+/**
+ * PATCH /api/parties/[id]/members/requests/[requestId]
+ * Approve or reject a join request (owner only)
+ */
+export async function PATCH(request: NextRequest, { params }: RequestParams) {
+  return withAuth(async (userId) => {
+    try {
+      const { id: partyId, requestId } = await params;
+      const body = await request.json();
+
+      // Validate request body
+      const response = joinRequestResponseSchema.parse(body);
+
+      const result = await PartyService.respondToJoinRequest(partyId, requestId, userId, response);
+
+      if (!result.success) {
+        return handleServiceError(result, 'Failed to answer join request');
+      }
+
+      return createSuccessResponse(
+        { request: result.data },
+        response.status === 'approved' ? 'Join request approved' : 'Join request rejected'
+      );
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return handleServiceError(
+          { error: { message: 'Invalid join request response', details: error.errors } },
+          'Invalid join request response'
+        );
+      }
+
+      console.error('PATCH /api/parties/[id]/members/requests/[requestId] error:', error);
+      return handleServiceError(
+        { error: { message: 'Internal server error' } },
+        'Failed to answer join request',
+        500
+      );
+    }
+  });
+}
+
+/**
+ * DELETE /api/parties/[id]/members/requests/[requestId]
+ * Withdraw a pending join request (the requesting player)
+ */
+export async function DELETE(request: NextRequest, { params }: RequestParams) {
+  return withAuth(async (userId) => {
+    try {
+      const { id: partyId, requestId } = await params;
+
+      const result = await PartyService.cancelJoinRequest(partyId, requestId, userId);
+
+      if (!result.success) {
+        return handleServiceError(result, 'Failed to withdraw join request');
+      }
+
+      return createSuccessResponse({}, 'Join request withdrawn');
+    } catch (error) {
+      console.error('DELETE /api/parties/[id]/members/requests/[requestId] error:', error);
+      return handleServiceError(
+        { error: { message: 'Internal server error' } },
+        'Failed to withdraw join request',
+        500
+      );
+    }
+  });
+}
@@ -0,0 +1,47 @@
+import { NextRequest } from 'next/server';
+import { PartyService } from '@/lib/services/PartyService';
+import {
+  withAuth,
+  createSuccessResponse,
+  handleServiceError,
+} from '@/lib/api/route-helpers';
+import { joinRequestStatusSchema } from '@/lib/validations/party';
+
+/**
+ * GET /api/parties/[id]/members/requests?status=pending
+ * List the party's join requests (owner only); pending ones by default
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  return withAuth(async (userId) => {
+    try {
+      const { id: partyId } = await params;
+      const status = joinRequestStatusSchema.safeParse(
+        new URL(request.url).searchParams.get('status') ?? 'pending'
+      );
+      if (!status.success) {
+        return handleServiceError(
+          { error: { message: 'Invalid join request status' } },
+          'Invalid join request status'
+        );
+      }
+
+      const result = await PartyService.listJoinRequests(partyId, userId, status.data);
+
+      if (!result.success) {
+        return handleServiceError(result, 'Failed to list join requests');
+      }
+
+      return createSuccessResponse({ requests: result.data });
+    } catch (error) {
+      console.error('GET /api/parties/[id]/members/requests error:', error);
+      return handleServiceError(
+        { error: { message: 'Internal server error' } },
+        'Failed to list join requests',
+        500
+      );
+    }
+  });
+}
@@ -0,0 +1,86 @@
+import { NextRequest } from 'next/server';
+import { PartyService } from '@/lib/services/PartyService';
+import {
+  withAuth,
+  createSuccessResponse,
+  handleServiceError,
+} from '@/lib/api/route-helpers';
+import { joinRequestCreateSchema } from '@/lib/validations/party';
+import { ZodError } from 'zod';
+
+/**
+ * GET /api/parties/[id]/members
+ * List party members and the current user's characters that could join
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  return withAuth(async (userId) => {
+    try {
+      const { id: partyId } = await params;
+
+      const result = await PartyService.listMembers(partyId, userId);
+
+      if (!result.success) {
+        return handleServiceError(result, 'Failed to list party members');
+      }
+
+      return createSuccessResponse(result.data);
+    } catch (error) {
+      console.error('GET /api/parties/[id]/members error:', error);
+      return handleServiceError(
+        { error: { message: 'Internal server error' } },
+        'Failed to list party members',
+        500
+      );
+    }
+  });
+}
+
+/**
+ * POST /api/parties/[id]/members
+ * Request to add one of the current user's characters to the party; owners,
+ * co-DMs and parties without approval add the character straight away
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  return withAuth(async (userId) => {
+    try {
+      const { id: partyId } = await params;
+      const body = await request.json();
+
+      // Validate request body
+      const joinRequest = joinRequestCreateSchema.parse(body);
+
+      const result = await PartyService.requestToJoin(partyId, userId, joinRequest);
+
+      if (!result.success) {
+        return handleServiceError(result, 'Failed to request to join party');
+      }
+
+      return createSuccessResponse(
+        { request: result.data },
+        result.data!.status === 'approved'
+          ? `${result.data!.characterName} joined the party`
+          : 'Join request sent to the party owner'
+      );
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return handleServiceError(
+          { error: { message: 'Invalid join request', details: error.errors } },
+          'Invalid join request'
+        );
+      }
+
+      console.error('POST /api/parties/[id]/members error:', error);
+      return handleServiceError(
+        { error: { message: 'Internal server error' } },
+        'Failed to request to join party',
+        500
+      );
+    }
+  });
+}
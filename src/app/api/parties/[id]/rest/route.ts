@@ -0,0 +1,83 @@
+import { NextRequest } from 'next/server';
+import { PartyService } from '@/lib/services/PartyService';
+import {
+  withAuth,
+  createSuccessResponse,
+  handleServiceError,
+} from '@/lib/api/route-helpers';
+import { partyRestSchema } from '@/lib/validations/party';
+import { ZodError } from 'zod';
+
+/**
+ * GET /api/parties/[id]/rest
+ * Get hit points and hit dice of every party member
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  return withAuth(async (userId) => {
+    try {
+      const { id: partyId } = await params;
+
+      const result = await PartyService.getRestStatus(partyId, userId);
+
+      if (!result.success) {
+        return handleServiceError(result, 'Failed to get party rest status');
+      }
+
+      return createSuccessResponse({ members: result.data });
+    } catch (error) {
+      console.error('GET /api/parties/[id]/rest error:', error);
+      return handleServiceError(
+        { error: { message: 'Internal server error' } },
+        'Failed to get party rest status',
+        500
+      );
+    }
+  });
+}
+
+/**
+ * POST /api/parties/[id]/rest
+ * Take a short or long rest with the whole party (owner or co-DM)
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  return withAuth(async (userId) => {
+    try {
+      const { id: partyId } = await params;
+      const body = await request.json();
+
+      // Validate request body
+      const rest = partyRestSchema.parse(body);
+
+      const result = await PartyService.restParty(partyId, userId, rest);
+
+      if (!result.success) {
+        return handleServiceError(result, 'Failed to rest party');
+      }
+
+      return createSuccessResponse(
+        { rest: result.data },
+        rest.type === 'short' ? 'Party finished a short rest' : 'Party finished a long rest'
+      );
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return handleServiceError(
+          { error: { message: 'Invalid rest data', details: error.errors } },
+          'Invalid rest data'
+        );
+      }
+
+      console.error('POST /api/parties/[id]/rest error:', error);
+      return handleServiceError(
+        { error: { message: 'Internal server error' } },
+        'Failed to rest party',
+        500
+      );
+    }
+  });
+}
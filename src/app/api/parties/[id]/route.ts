@@ -44,7 +44,7 @@ export async function GET(
 
 /**
  * PUT /api/parties/[id]
- * Update a specific party (owner only)
+ * Update a specific party (owner or co-DM)
  */
 export async function PUT(
   request: NextRequest,
@@ -0,0 +1,80 @@
+import { NextRequest } from 'next/server';
+import { PartyService } from '@/lib/services/PartyService';
+import {
+  withAuth,
+  createSuccessResponse,
+  handleServiceError,
+} from '@/lib/api/route-helpers';
+import { partyInviteJoinSchema } from '@/lib/validations/party';
+import { ZodError } from 'zod';
+
+/**
+ * GET /api/parties/join/[code]
+ * Show the party behind an invite code and the characters the user could bring
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ code: string }> }
+) {
+  return withAuth(async (userId) => {
+    try {
+      const { code } = await params;
+
+      const result = await PartyService.getInvitePreview(code, userId);
+
+      if (!result.success) {
+        return handleServiceError(result, 'Failed to open invite');
+      }
+
+      return createSuccessResponse({ invite: result.data });
+    } catch (error) {
+      console.error('GET /api/parties/join/[code] error:', error);
+      return handleServiceError(
+        { error: { message: 'Internal server error' } },
+        'Failed to open invite',
+        500
+      );
+    }
+  });
+}
+
+/**
+ * POST /api/parties/join/[code]
+ * Join the party with the chosen characters
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ code: string }> }
+) {
+  return withAuth(async (userId) => {
+    try {
+      const { code } = await params;
+      const body = await request.json();
+
+      // Validate request body
+      const join = partyInviteJoinSchema.parse(body);
+
+      const result = await PartyService.joinWithInvite(code, userId, join);
+
+      if (!result.success) {
+        return handleServiceError(result, 'Failed to join party');
+      }
+
+      return createSuccessResponse(result.data, 'Joined the party');
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return handleServiceError(
+          { error: { message: 'Invalid join data', details: error.errors } },
+          'Invalid join data'
+        );
+      }
+
+      console.error('POST /api/parties/join/[code] error:', error);
+      return handleServiceError(
+        { error: { message: 'Internal server error' } },
+        'Failed to join party',
+        500
+      );
+    }
+  });
+}
@@ -0,0 +1,24 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { AccountBackupService } from '@/lib/services/AccountBackupService';
+import { withAuthAndAccess, handleServiceError } from '@/lib/api/route-helpers';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  return withAuthAndAccess(params, async (userId) => {
+    const result = await AccountBackupService.createBackup(userId);
+    if (!result.success) {
+      return handleServiceError(result, 'Account backup failed', 500);
+    }
+
+    const filename = `account-backup-${userId}-${Date.now()}.json`;
+    return new NextResponse(JSON.stringify(result.data, null, 2), {
+      status: 200,
+      headers: {
+        'Content-Type': 'application/json',
+        'Content-Disposition': `attachment; filename="${filename}"`,
+      },
+    });
+  });
+}
@@ -0,0 +1,42 @@
+import { NextRequest } from 'next/server';
+import { ZodError, z } from 'zod';
+import { AccountBackupService, RESTORE_MODES } from '@/lib/services/AccountBackupService';
+import {
+  withAuthAndAccess,
+  handleServiceError,
+  handleZodValidationError,
+  createSuccessResponse,
+} from '@/lib/api/route-helpers';
+
+const restoreBodySchema = z.object({
+  data: z.string().min(1, 'Backup data is required'),
+  mode: z.enum(RESTORE_MODES).default('merge'),
+  dryRun: z.boolean().default(false),
+});
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  return withAuthAndAccess(params, async (userId) => {
+    try {
+      const body = await request.json();
+      const { data, mode, dryRun } = restoreBodySchema.parse(body);
+
+      const result = await AccountBackupService.restoreBackup(userId, data, { mode, dryRun });
+      if (!result.success) {
+        return handleServiceError(result, 'Account restore failed');
+      }
+
+      return createSuccessResponse(
+        { report: result.data },
+        dryRun ? 'Restore preview ready' : 'Account restored successfully'
+      );
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return handleZodValidationError(error);
+      }
+      throw error;
+    }
+  });
+}
@@ -0,0 +1,29 @@
+import { Metadata } from 'next';
+import { auth } from '@clerk/nextjs/server';
+import { redirect } from 'next/navigation';
+import type { Route } from 'next';
+import { CampaignDetailView } from '@/components/campaign/CampaignDetailView';
+
+export const dynamic = 'force-dynamic';
+
+interface CampaignPageProps {
+  params: Promise<{
+    id: string;
+  }>;
+}
+
+export const metadata: Metadata = {
+  title: 'Campaign - D&D Encounter Tracker',
+  description: 'Parties, encounter plan and session log for a campaign',
+};
+
+export default async function CampaignPage({ params }: CampaignPageProps) {
+  const { id } = await params;
+  const { userId } = await auth();
+
+  if (!userId) {
+    redirect(`/sign-in?redirect_url=/campaigns/${id}` as Route);
+  }
+
+  return <CampaignDetailView campaignId={id} />;
+}
@@ -0,0 +1,33 @@
+import { Metadata } from 'next';
+import { auth } from '@clerk/nextjs/server';
+import { redirect } from 'next/navigation';
+import type { Route } from 'next';
+import { CampaignListView } from '@/components/campaign/CampaignListView';
+
+export const dynamic = 'force-dynamic';
+
+export const metadata: Metadata = {
+  title: 'Campaigns - D&D Encounter Tracker',
+  description: 'Plan your campaigns and keep a log of every session',
+};
+
+export default async function CampaignsPage() {
+  // Check authentication using Clerk directly
+  const { userId } = await auth();
+
+  if (!userId) {
+    redirect('/sign-in?redirect_url=/campaigns' as Route);
+  }
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold tracking-tight">Campaigns</h1>
+        <p className="text-muted-foreground">
+          Plan your campaigns and keep a log of every session
+        </p>
+      </div>
+      <CampaignListView />
+    </div>
+  );
+}
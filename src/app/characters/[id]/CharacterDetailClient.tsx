@@ -1,8 +1,10 @@
 'use client';
 
+import { useState } from 'react';
 import { useRouter } from 'next/navigation';
 import type { Character } from '@/lib/validations/character';
 import CharacterDetailView from '@/components/characters/CharacterDetailView';
+import { LevelUpDialog } from '@/components/characters/level-up/LevelUpDialog';
 import { BackButton, LoadingState, ErrorState, NotFoundState } from './components/CharacterStates';
 import { useCharacterData } from './hooks/useCharacterData';
 
@@ -12,7 +14,8 @@ interface CharacterDetailClientProps {
 
 export function CharacterDetailClient({ id }: CharacterDetailClientProps) {
   const router = useRouter();
-  const { character, loading, error } = useCharacterData(id);
+  const { character, setCharacter, loading, error } = useCharacterData(id);
+  const [isLevelUpOpen, setIsLevelUpOpen] = useState(false);
 
   const handleEdit = (character: Character) => {
     if (!character._id) return;
@@ -61,6 +64,13 @@ export function CharacterDetailClient({ id }: CharacterDetailClientProps) {
           character={character}
           onEdit={handleEdit}
           onShare={handleShare}
+          onLevelUp={() => setIsLevelUpOpen(true)}
+        />
+        <LevelUpDialog
+          character={character}
+          open={isLevelUpOpen}
+          onOpenChange={setIsLevelUpOpen}
+          onLevelUp={setCharacter}
         />
       </div>
     </div>
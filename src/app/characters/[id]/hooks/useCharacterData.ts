@@ -43,5 +43,5 @@ export const useCharacterData = (id: string) => {
     fetchCharacter();
   }, [id, user?.id]);
 
-  return { character, loading, error };
+  return { character, setCharacter, loading, error };
 };
\ No newline at end of file
@@ -50,6 +50,7 @@ describe('EncounterDetailClient', () => {
         currentHitPoints: 7,
         armorClass: 15,
         isPlayer: false,
+        challengeRating: 0.25,
       }),
     ],
     tags: ['forest', 'ambush'],
@@ -287,6 +288,26 @@ describe('EncounterDetailClient', () => {
 
     it('should show share link generation', async () => {
       const user = userEvent.setup();
+      const shareLink = {
+        id: 'share-1',
+        url: 'http://localhost:3000/encounters/shared/abc',
+        scope: 'read_only',
+        status: 'active',
+        expiresAt: '2030-01-01T00:00:00.000Z',
+        createdAt: '2029-12-31T00:00:00.000Z',
+      };
+      const jsonResponse = (body: unknown) => ({ ok: true, json: async () => body });
+      let shares: unknown[] = [];
+      global.fetch = jest.fn(async (url: string, init?: RequestInit) => {
+        if (url.endsWith('/collaborators')) {
+          return jsonResponse({ success: true, collaborators: [] });
+        }
+        if (init?.method === 'POST') {
+          shares = [shareLink];
+          return jsonResponse({ success: true, shareUrl: shareLink.url });
+        }
+        return jsonResponse({ success: true, shares });
+      }) as jest.Mock;
       render(<EncounterDetailClient encounterId="test-id" />);
 
       await waitFor(() => {
@@ -310,7 +331,8 @@ describe('EncounterDetailClient', () => {
 
       await user.click(screen.getByText('Add Collaborator'));
 
-      expect(screen.getByPlaceholderText('Enter email address')).toBeInTheDocument();
+      expect(screen.getByPlaceholderText('Email or username')).toBeInTheDocument();
+      expect(screen.getByLabelText('Invite as')).toHaveValue('viewer');
     });
   });
 
@@ -203,14 +203,17 @@ export const createInjuredParticipantsEncounter = (): Encounter => {
       name: 'Injured Hero',
       maxHitPoints: 45,
       currentHitPoints: 20,
-      conditions: ['poisoned', 'exhausted'],
+      conditions: [
+        { name: 'poisoned', expiry: 'indefinite' },
+        { name: 'exhaustion', level: 1, expiry: 'indefinite' },
+      ],
     }),
     createTestParticipant({
       name: 'Bloodied Enemy',
       type: 'npc',
       maxHitPoints: 30,
       currentHitPoints: 5,
-      conditions: ['frightened'],
+      conditions: [{ name: 'frightened', expiry: 'rounds', roundsRemaining: 2 }],
     }),
   ];
 
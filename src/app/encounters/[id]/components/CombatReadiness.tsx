@@ -4,6 +4,8 @@ import { getReadinessChecks, getOverallStatus } from '@/lib/utils/combat-readine
 import { ReadinessCheckItem } from './combat-readiness/ReadinessCheck';
 import { ReadinessBadge } from './combat-readiness/ReadinessBadge';
 import { CombatStatistics } from './combat-readiness/CombatStatistics';
+import { DifficultyBreakdown } from './combat-readiness/DifficultyBreakdown';
+import { useEncounterDifficulty } from '@/lib/hooks/useEncounterDifficulty';
 import type { Encounter } from '@/lib/validations/encounter';
 
 interface CombatReadinessProps {
@@ -14,7 +16,8 @@ interface CombatReadinessProps {
  * Display combat readiness indicators and status checks
  */
 export function CombatReadiness({ encounter }: CombatReadinessProps) {
-  const readinessChecks = getReadinessChecks(encounter);
+  const difficulty = useEncounterDifficulty(encounter);
+  const readinessChecks = getReadinessChecks(encounter, difficulty);
   const overallStatus = getOverallStatus(readinessChecks);
 
   return (
@@ -29,6 +32,7 @@ export function CombatReadiness({ encounter }: CombatReadinessProps) {
         {readinessChecks.map((check, index) => (
           <ReadinessCheckItem key={index} check={check} />
         ))}
+        <DifficultyBreakdown breakdown={difficulty} />
         <CombatStatistics encounter={encounter} />
       </CardContent>
     </Card>
@@ -1,11 +1,12 @@
-import React, { useState } from 'react';
+import React from 'react';
+import Link from 'next/link';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
-import { ShareIcon } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { ShareIcon, MonitorIcon } from 'lucide-react';
 import { ShareLinkSection } from './sharing/ShareLinkSection';
 import { CollaboratorSection } from './sharing/CollaboratorSection';
 import { ShareSettingsSection } from './sharing/ShareSettingsSection';
-import { useCollaborators } from '@/lib/hooks/useCollaborators';
 import type { Encounter } from '@/lib/validations/encounter';
 
 interface SharingSectionProps {
@@ -16,20 +17,6 @@ interface SharingSectionProps {
  * Encounter sharing and collaboration features
  */
 export function SharingSection({ encounter }: SharingSectionProps) {
-  const [showShareLink, setShowShareLink] = useState(false);
-  const {
-    newCollaboratorEmail,
-    showAddCollaborator,
-    setNewCollaboratorEmail,
-    handleToggleAdd,
-    handleAddCollaborator,
-    handleRemoveCollaborator,
-  } = useCollaborators();
-
-  const handleGenerateShareLink = () => {
-    setShowShareLink(true);
-  };
-
   return (
     <Card>
       <CardHeader>
@@ -47,25 +34,23 @@ export function SharingSection({ encounter }: SharingSectionProps) {
           </Badge>
         </div>
 
-        {/* Share Link Generation */}
+        {/* Share Links */}
         <div className="space-y-2">
-          <ShareLinkSection
-            encounterId={encounter._id || ''}
-            showShareLink={showShareLink}
-            onGenerateLink={handleGenerateShareLink}
-          />
+          <ShareLinkSection encounterId={encounter._id || ''} />
         </div>
 
+        {/* Live player view */}
+        {encounter.settings?.allowPlayerVisibility && (
+          <Button asChild variant="outline" size="sm" className="w-full">
+            <Link href={`/encounters/${encounter._id}/player` as any} target="_blank">
+              <MonitorIcon className="h-4 w-4 mr-2" />
+              Open Player View
+            </Link>
+          </Button>
+        )}
+
         {/* Collaborators */}
-        <CollaboratorSection
-          encounter={encounter}
-          showAddCollaborator={showAddCollaborator}
-          newCollaboratorEmail={newCollaboratorEmail}
-          onToggleAdd={handleToggleAdd}
-          onEmailChange={setNewCollaboratorEmail}
-          onAddCollaborator={handleAddCollaborator}
-          onRemoveCollaborator={handleRemoveCollaborator}
-        />
+        <CollaboratorSection resourceType="encounter" resourceId={String(encounter._id ?? '')} />
 
         {/* Share Settings */}
         <ShareSettingsSection />
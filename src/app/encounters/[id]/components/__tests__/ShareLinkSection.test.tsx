@@ -0,0 +1,80 @@
+/**
+ * @jest-environment jsdom
+ */
+import React from 'react';
+import { render, screen, within } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { ShareLinkSection } from '../sharing/ShareLinkSection';
+
+jest.mock('@/hooks/use-toast', () => ({
+  useToast: () => ({ toast: jest.fn() }),
+}));
+
+const mockFetch = jest.fn();
+global.fetch = mockFetch;
+
+const jsonResponse = (body: unknown, ok = true) => ({ ok, json: async () => body });
+
+const share = (overrides: Record<string, unknown> = {}) => ({
+  id: 'share-1',
+  url: 'http://localhost:3000/encounters/shared/abc',
+  scope: 'read_only',
+  status: 'active',
+  expiresAt: '2030-01-01T00:00:00.000Z',
+  createdAt: '2029-12-31T00:00:00.000Z',
+  ...overrides,
+});
+
+describe('ShareLinkSection', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('creates a link with the chosen access and expiry', async () => {
+    const user = userEvent.setup();
+    mockFetch
+      .mockResolvedValueOnce(jsonResponse({ success: true, shares: [] }))
+      .mockResolvedValueOnce(jsonResponse({ success: true, shareUrl: 'http://localhost:3000/encounters/shared/xyz' }))
+      .mockResolvedValueOnce(jsonResponse({ success: true, shares: [share({ scope: 'player_view' })] }));
+
+    render(<ShareLinkSection encounterId="enc-1" />);
+    await user.selectOptions(screen.getByLabelText('Link access'), 'player_view');
+    await user.selectOptions(screen.getByLabelText('Link expiry'), '1 hour');
+    await user.click(screen.getByRole('button', { name: 'Generate Share Link' }));
+
+    expect(within(await screen.findByTestId('share-link')).getByText('Player view')).toBeInTheDocument();
+    expect(mockFetch).toHaveBeenCalledWith('/api/encounters/enc-1/share', expect.objectContaining({ method: 'POST' }));
+    expect(JSON.parse(mockFetch.mock.calls[1][1].body)).toEqual({ scope: 'player_view', expiresIn: 60 * 60 * 1000 });
+  });
+
+  it('revokes and extends existing links', async () => {
+    const user = userEvent.setup();
+    mockFetch
+      .mockResolvedValueOnce(jsonResponse({ success: true, shares: [share(), share({ id: 'share-2', status: 'expired' })] }))
+      .mockResolvedValueOnce(jsonResponse({ success: true, share: share({ status: 'revoked' }) }))
+      .mockResolvedValueOnce(jsonResponse({ success: true, share: share({ id: 'share-2' }) }));
+
+    render(<ShareLinkSection encounterId="enc-1" />);
+    const [active, expired] = await screen.findAllByTestId('share-link');
+    expect(within(expired).queryByRole('button', { name: /Copy Link/ })).not.toBeInTheDocument();
+
+    await user.click(within(active).getByRole('button', { name: 'Revoke' }));
+    expect(await within(active).findByText('revoked')).toBeInTheDocument();
+    expect(within(active).queryByRole('button', { name: 'Extend' })).not.toBeInTheDocument();
+    expect(mockFetch).toHaveBeenCalledWith('/api/encounters/enc-1/share/share-1', { method: 'DELETE' });
+
+    await user.click(within(expired).getByRole('button', { name: 'Extend' }));
+    expect(await within(expired).findByText('active')).toBeInTheDocument();
+    expect(JSON.parse(mockFetch.mock.calls[2][1].body)).toEqual({ expiresIn: 24 * 60 * 60 * 1000 });
+  });
+
+  it('shows why a request failed', async () => {
+    mockFetch.mockResolvedValueOnce(
+      jsonResponse({ error: 'You do not have permission to share this encounter' }, false)
+    );
+
+    render(<ShareLinkSection encounterId="enc-1" />);
+
+    expect(await screen.findByRole('alert')).toHaveTextContent('You do not have permission to share this encounter');
+  });
+});
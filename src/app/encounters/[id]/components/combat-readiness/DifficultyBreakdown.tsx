@@ -0,0 +1,55 @@
+import React from 'react';
+import { formatDifficulty } from '@/lib/utils/encounter-utils';
+import {
+  DIFFICULTY_TIERS,
+  type EncounterDifficultyBreakdown,
+} from '@/lib/utils/encounter-difficulty';
+
+interface DifficultyBreakdownProps {
+  breakdown: EncounterDifficultyBreakdown;
+}
+
+/**
+ * Display the XP breakdown behind the encounter difficulty rating
+ */
+export function DifficultyBreakdown({ breakdown }: DifficultyBreakdownProps) {
+  if (breakdown.characterLevels.length === 0 && breakdown.monsterCount === 0) {
+    return null;
+  }
+
+  return (
+    <div className="pt-3 border-t space-y-2">
+      <p className="text-xs font-medium">Difficulty Breakdown</p>
+      <div className="grid grid-cols-2 gap-2 text-xs">
+        <div>
+          <span className="text-muted-foreground">Monster XP:</span>
+          <span className="ml-1">{breakdown.totalXP}</span>
+        </div>
+        <div>
+          <span className="text-muted-foreground">Multiplier:</span>
+          <span className="ml-1">×{breakdown.multiplier}</span>
+        </div>
+        <div>
+          <span className="text-muted-foreground">Adjusted XP:</span>
+          <span className="ml-1">{breakdown.adjustedXP}</span>
+        </div>
+        <div>
+          <span className="text-muted-foreground">Daily Budget:</span>
+          <span className="ml-1">{breakdown.dailyBudgetPercentage}%</span>
+        </div>
+      </div>
+      {breakdown.difficulty !== 'unknown' && (
+        <div className="grid grid-cols-4 gap-2 text-xs">
+          {DIFFICULTY_TIERS.map(tier => (
+            <p
+              key={tier}
+              className={tier === breakdown.difficulty ? 'font-medium' : 'text-muted-foreground'}
+            >
+              {`${formatDifficulty(tier)}: ${breakdown.thresholds[tier]}`}
+            </p>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
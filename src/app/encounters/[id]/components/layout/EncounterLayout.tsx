@@ -7,6 +7,9 @@ import { EncounterSettings } from '../EncounterSettings';
 import { PreparationTools } from '../PreparationTools';
 import { SharingSection } from '../SharingSection';
 import { InitiativeTracker } from '@/components/combat/InitiativeTracker';
+import { CombatLogHistory } from '@/components/combat/round-tracking/CombatLogHistory';
+import { QuickActions } from '@/components/combat/QuickActions';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { useInitiativeTracker } from '@/lib/hooks/useInitiativeTracker';
 import type { Encounter } from '@/lib/validations/encounter';
 
@@ -17,6 +20,16 @@ interface EncounterLayoutProps {
   onEncounterUpdate?: (_encounter: Encounter) => void;
 }
 
+/**
+ * Resource pools of every participant, as shown in the combat quick actions
+ */
+const toResourceParticipants = (encounter: Encounter) =>
+  encounter.participants.map(participant => ({
+    id: participant.characterId.toString(),
+    name: participant.name,
+    resources: participant.resources ?? [],
+  }));
+
 /**
  * Main layout grid for encounter detail sections
  */
@@ -39,6 +52,8 @@ export function EncounterLayout({ encounter, isEditing, onToggleEdit, onEncounte
             onPreviousTurn: initiativeTrackerHandlers.handlePreviousTurn,
             onPauseCombat: initiativeTrackerHandlers.handlePauseCombat,
             onResumeCombat: initiativeTrackerHandlers.handleResumeCombat,
+            onUndo: initiativeTrackerHandlers.handleUndo,
+            onRedo: initiativeTrackerHandlers.handleRedo,
             onExportInitiative: initiativeTrackerHandlers.handleExportInitiative,
             onShareInitiative: initiativeTrackerHandlers.handleShareInitiative,
           }}
@@ -46,6 +61,7 @@ export function EncounterLayout({ encounter, isEditing, onToggleEdit, onEncounte
             onEditInitiative: initiativeTrackerHandlers.handleEditInitiative,
             onDelayAction: initiativeTrackerHandlers.handleDelayAction,
             onReadyAction: initiativeTrackerHandlers.handleReadyAction,
+            onUseLegendaryAction: initiativeTrackerHandlers.handleUseLegendaryAction,
           }}
         />
 
@@ -53,8 +69,35 @@ export function EncounterLayout({ encounter, isEditing, onToggleEdit, onEncounte
         <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
           <div className="space-y-4">
             <ParticipantOverview encounter={encounter} />
+            <CombatLogHistory encounter={encounter} />
           </div>
           <div className="space-y-4">
+            {encounter.settings.trackResources && (
+              <Card>
+                <CardHeader>
+                  <CardTitle>Resources</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <QuickActions
+                    actions={{}}
+                    disabled={initiativeTrackerHandlers.isLoading}
+                    settings={{
+                      showRollInitiative: false,
+                      showMassActions: false,
+                      showParticipantManagement: false,
+                      showSettings: false,
+                    }}
+                    resources={{
+                      participants: toResourceParticipants(encounter),
+                      onSpendResource: initiativeTrackerHandlers.handleSpendResource,
+                      onSeedResources: initiativeTrackerHandlers.handleSeedResources,
+                      onShortRest: initiativeTrackerHandlers.handleShortRest,
+                      onLongRest: initiativeTrackerHandlers.handleLongRest,
+                    }}
+                  />
+                </CardContent>
+              </Card>
+            )}
             <EncounterNotes
               encounter={encounter}
               isEditing={isEditing}
@@ -72,6 +115,7 @@ export function EncounterLayout({ encounter, isEditing, onToggleEdit, onEncounte
       <div className="lg:col-span-2 space-y-6">
         <EncounterOverview encounter={encounter} />
         <ParticipantOverview encounter={encounter} />
+        {encounter.status === 'completed' && <CombatLogHistory encounter={encounter} />}
         <EncounterNotes
           encounter={encounter}
           isEditing={isEditing}
@@ -1,89 +1,123 @@
-import React from 'react';
+import React, { useEffect, useState } from 'react';
+import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { PlusIcon, XIcon } from 'lucide-react';
-import type { Encounter } from '@/lib/validations/encounter';
+import { useCollaborators, type Collaborator } from '@/lib/hooks/useCollaborators';
+import { ROLE_LABELS } from '@/lib/utils/collaboration';
+import type { CollaborationResource, CollaboratorRole } from '@/lib/validations/collaborator';
 
 interface CollaboratorSectionProps {
-  encounter: Encounter;
-  showAddCollaborator: boolean;
-  newCollaboratorEmail: string;
-  onToggleAdd: () => void;
-  onEmailChange: (_email: string) => void;
-  onAddCollaborator: () => void;
-  onRemoveCollaborator: (_collaboratorId: string) => void;
+  resourceType: CollaborationResource;
+  resourceId: string;
 }
 
-interface CollaboratorItemProps {
-  collaboratorId: string;
-  index: number;
-  onRemove: (_id: string) => void;
-}
+const SELECT_CLASS_NAME = 'rounded-md border border-input bg-background px-2 py-1 text-xs';
 
-/**
- * Individual collaborator item
- */
-function CollaboratorItem({ collaboratorId, index, onRemove }: CollaboratorItemProps) {
+const STATUS_VARIANTS: Record<Collaborator['status'], 'default' | 'secondary' | 'destructive'> = {
+  accepted: 'default',
+  pending: 'secondary',
+  declined: 'destructive',
+};
+
+function RoleSelect({
+  label,
+  value,
+  disabled,
+  onChange,
+}: {
+  label: string;
+  value: CollaboratorRole;
+  disabled?: boolean;
+  onChange: (_role: CollaboratorRole) => void;
+}) {
   return (
-    <div className="flex items-center justify-between p-2 border rounded">
-      <span className="text-sm">Collaborator {index + 1}</span>
-      <Button
-        variant="ghost"
-        size="sm"
-        onClick={() => onRemove(collaboratorId.toString())}
-      >
-        <XIcon className="h-4 w-4" />
-      </Button>
-    </div>
+    <select
+      aria-label={label}
+      className={SELECT_CLASS_NAME}
+      value={value}
+      disabled={disabled}
+      onChange={(e) => onChange(e.target.value as CollaboratorRole)}
+    >
+      {Object.entries(ROLE_LABELS).map(([role, roleLabel]) => (
+        <option key={role} value={role}>{roleLabel}</option>
+      ))}
+    </select>
   );
 }
 
-interface CollaboratorListProps {
-  collaborators: string[];
-  onRemoveCollaborator: (_id: string) => void;
-}
-
 /**
- * List of current collaborators
+ * Individual collaborator with their role and invitation status
  */
-function CollaboratorList({ collaborators, onRemoveCollaborator }: CollaboratorListProps) {
-  if (!collaborators || collaborators.length === 0) {
-    return (
-      <p className="text-xs text-muted-foreground">
-        No collaborators added yet
-      </p>
-    );
-  }
-
+function CollaboratorItem({
+  collaborator,
+  disabled,
+  onRoleChange,
+  onRemove,
+}: {
+  collaborator: Collaborator;
+  disabled: boolean;
+  onRoleChange: (_role: CollaboratorRole) => void;
+  onRemove: () => void;
+}) {
   return (
-    <div className="space-y-2">
-      {collaborators.map((collaboratorId, index) => (
-        <CollaboratorItem
-          key={collaboratorId.toString()}
-          collaboratorId={collaboratorId}
-          index={index}
-          onRemove={onRemoveCollaborator}
+    <li className="flex items-center justify-between gap-2 p-2 border rounded" data-testid="collaborator">
+      <div className="min-w-0">
+        <p className="text-sm truncate">{collaborator.username}</p>
+        <Badge variant={STATUS_VARIANTS[collaborator.status]}>{collaborator.status}</Badge>
+      </div>
+      <div className="flex items-center gap-1">
+        <RoleSelect
+          label={`Role of ${collaborator.username}`}
+          value={collaborator.role}
+          disabled={disabled}
+          onChange={onRoleChange}
         />
-      ))}
-    </div>
+        <Button
+          variant="ghost"
+          size="sm"
+          aria-label={`Remove ${collaborator.username}`}
+          onClick={onRemove}
+          disabled={disabled}
+        >
+          <XIcon className="h-4 w-4" />
+        </Button>
+      </div>
+    </li>
   );
 }
 
 /**
- * Handle collaborator management
+ * Invite collaborators by email or username and manage their roles
  */
-export function CollaboratorSection({
-  encounter,
-  showAddCollaborator,
-  newCollaboratorEmail,
-  onToggleAdd,
-  onEmailChange,
-  onAddCollaborator,
-  onRemoveCollaborator,
-}: CollaboratorSectionProps) {
-  const handleKeyPress = (e: React.KeyboardEvent) => {
-    if (e.key === 'Enter') {
-      onAddCollaborator();
+export function CollaboratorSection({ resourceType, resourceId }: CollaboratorSectionProps) {
+  const [showInvite, setShowInvite] = useState(false);
+  const [identifier, setIdentifier] = useState('');
+  const [role, setRole] = useState<CollaboratorRole>('viewer');
+  const {
+    collaborators,
+    error,
+    isWorking,
+    loadCollaborators,
+    inviteCollaborator,
+    changeRole,
+    removeCollaborator,
+  } = useCollaborators(resourceType, resourceId);
+
+  useEffect(() => {
+    loadCollaborators();
+  }, [loadCollaborators]);
+
+  const closeInvite = () => {
+    setShowInvite(false);
+    setIdentifier('');
+    setRole('viewer');
+  };
+
+  const handleInvite = async () => {
+    if (!identifier.trim()) return;
+    if (await inviteCollaborator(identifier.trim(), role)) {
+      closeInvite();
     }
   };
 
@@ -91,50 +125,55 @@ export function CollaboratorSection({
     <div className="space-y-2">
       <div className="flex items-center justify-between">
         <span className="text-sm font-medium">Collaborators</span>
-        {!showAddCollaborator && (
-          <Button
-            variant="outline"
-            size="sm"
-            onClick={onToggleAdd}
-          >
+        {!showInvite && (
+          <Button variant="outline" size="sm" onClick={() => setShowInvite(true)}>
             <PlusIcon className="h-4 w-4 mr-1" />
             Add Collaborator
           </Button>
         )}
       </div>
 
-      {showAddCollaborator && (
+      {showInvite && (
         <div className="space-y-2">
           <Input
-            placeholder="Enter email address"
-            value={newCollaboratorEmail}
-            onChange={(e) => onEmailChange(e.target.value)}
-            onKeyPress={handleKeyPress}
+            placeholder="Email or username"
+            value={identifier}
+            onChange={(e) => setIdentifier(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && handleInvite()}
           />
-          <div className="flex justify-end space-x-2">
-            <Button
-              variant="outline"
-              size="sm"
-              onClick={onToggleAdd}
-            >
-              Cancel
-            </Button>
-            <Button
-              size="sm"
-              onClick={onAddCollaborator}
-              disabled={!newCollaboratorEmail.trim()}
-            >
-              Add
-            </Button>
+          <div className="flex items-center justify-between gap-2">
+            <RoleSelect label="Invite as" value={role} onChange={setRole} />
+            <div className="flex space-x-2">
+              <Button variant="outline" size="sm" onClick={closeInvite}>
+                Cancel
+              </Button>
+              <Button size="sm" onClick={handleInvite} disabled={!identifier.trim() || isWorking}>
+                Invite
+              </Button>
+            </div>
           </div>
         </div>
       )}
 
-      {/* Current Collaborators */}
-      <CollaboratorList
-        collaborators={encounter.sharedWith}
-        onRemoveCollaborator={onRemoveCollaborator}
-      />
+      {error && <p className="text-xs text-destructive" role="alert">{error}</p>}
+
+      {collaborators && collaborators.length > 0 ? (
+        <ul className="space-y-2" aria-label="Collaborators">
+          {collaborators.map(collaborator => (
+            <CollaboratorItem
+              key={collaborator.id}
+              collaborator={collaborator}
+              disabled={isWorking}
+              onRoleChange={(newRole) => changeRole(collaborator.id, newRole)}
+              onRemove={() => removeCollaborator(collaborator.id)}
+            />
+          ))}
+        </ul>
+      ) : (
+        <p className="text-xs text-muted-foreground">
+          No collaborators added yet
+        </p>
+      )}
     </div>
   );
-}
\ No newline at end of file
+}
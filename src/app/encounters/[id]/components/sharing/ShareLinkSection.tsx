@@ -1,26 +1,98 @@
-import React from 'react';
+import React, { useEffect, useState } from 'react';
+import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
-import { Input } from '@/components/ui/input';
-import { CopyIcon } from 'lucide-react';
-import { generateShareLink, copyToClipboard } from '@/lib/utils/encounter-utils';
+import { CopyIcon, Loader2 } from 'lucide-react';
+import { copyToClipboard } from '@/lib/utils/encounter-utils';
 import { useToast } from '@/hooks/use-toast';
+import { useShareLinks, type ShareLink } from '@/lib/hooks/useShareLinks';
+import type { ShareScope } from '@/lib/validations/encounter';
 import type { Types } from 'mongoose';
 
 interface ShareLinkSectionProps {
   encounterId: string | Types.ObjectId;
-  showShareLink: boolean;
-  onGenerateLink: () => void;
 }
 
+const HOUR = 60 * 60 * 1000;
+
+const SCOPE_LABELS: Record<ShareScope, string> = {
+  read_only: 'Read-only',
+  player_view: 'Player view',
+  clone_template: 'Copy as template',
+};
+
+const EXPIRY_OPTIONS = [
+  { label: '1 hour', value: HOUR },
+  { label: '1 day', value: 24 * HOUR },
+  { label: '7 days', value: 7 * 24 * HOUR },
+];
+
+const SELECT_CLASS_NAME = 'w-full rounded-md border border-input bg-background px-2 py-1 text-xs';
+
+const STATUS_VARIANTS: Record<ShareLink['status'], 'default' | 'secondary' | 'destructive'> = {
+  active: 'default',
+  expired: 'secondary',
+  revoked: 'destructive',
+};
+
+const formatExpiry = (share: ShareLink): string => {
+  const date = new Date(share.expiresAt).toLocaleString();
+  return share.status === 'expired' ? `Expired ${date}` : `Expires ${date}`;
+};
+
+const ShareLinkRow = ({
+  share,
+  disabled,
+  onCopy,
+  onExtend,
+  onRevoke,
+}: {
+  share: ShareLink;
+  disabled: boolean;
+  onCopy: () => void;
+  onExtend: () => void;
+  onRevoke: () => void;
+}) => (
+  <li className="p-2 rounded border space-y-1" data-testid="share-link">
+    <div className="flex items-center justify-between">
+      <span className="text-xs font-medium">{SCOPE_LABELS[share.scope]}</span>
+      <Badge variant={STATUS_VARIANTS[share.status]}>{share.status}</Badge>
+    </div>
+    <p className="text-xs text-muted-foreground">{formatExpiry(share)}</p>
+    {share.status !== 'revoked' && (
+      <div className="flex gap-1">
+        {share.status === 'active' && (
+          <Button variant="outline" size="sm" onClick={onCopy}>
+            <CopyIcon className="h-3 w-3 mr-1" />
+            Copy Link
+          </Button>
+        )}
+        <Button variant="outline" size="sm" onClick={onExtend} disabled={disabled}>
+          Extend
+        </Button>
+        <Button variant="outline" size="sm" onClick={onRevoke} disabled={disabled}>
+          Revoke
+        </Button>
+      </div>
+    )}
+  </li>
+);
+
 /**
- * Handle share link generation and copying
+ * Create share links and manage the ones already handed out
  */
-export function ShareLinkSection({ encounterId, showShareLink, onGenerateLink }: ShareLinkSectionProps) {
-  const shareLink = generateShareLink(encounterId);
+export function ShareLinkSection({ encounterId }: ShareLinkSectionProps) {
+  const [scope, setScope] = useState<ShareScope>('read_only');
+  const [expiresIn, setExpiresIn] = useState(EXPIRY_OPTIONS[1].value);
+  const { shares, error, isWorking, loadShares, createShare, extendShare, revokeShare } =
+    useShareLinks(encounterId.toString());
   const { toast } = useToast();
 
-  const handleCopyLink = async () => {
-    const success = await copyToClipboard(shareLink);
+  useEffect(() => {
+    loadShares();
+  }, [loadShares]);
+
+  const handleCopyLink = async (url: string) => {
+    const success = await copyToClipboard(url);
     if (success) {
       toast({
         title: 'Link copied!',
@@ -36,40 +108,66 @@ export function ShareLinkSection({ encounterId, showShareLink, onGenerateLink }:
     }
   };
 
-  if (!showShareLink) {
-    return (
+  return (
+    <div className="space-y-2">
+      <div className="grid grid-cols-2 gap-2">
+        <label className="text-xs space-y-1">
+          <span>Link access</span>
+          <select
+            className={SELECT_CLASS_NAME}
+            value={scope}
+            onChange={(e) => setScope(e.target.value as ShareScope)}
+          >
+            {Object.entries(SCOPE_LABELS).map(([value, label]) => (
+              <option key={value} value={value}>{label}</option>
+            ))}
+          </select>
+        </label>
+        <label className="text-xs space-y-1">
+          <span>Link expiry</span>
+          <select
+            className={SELECT_CLASS_NAME}
+            value={expiresIn}
+            onChange={(e) => setExpiresIn(Number(e.target.value))}
+          >
+            {EXPIRY_OPTIONS.map(option => (
+              <option key={option.value} value={option.value}>{option.label}</option>
+            ))}
+          </select>
+        </label>
+      </div>
+
       <Button
         variant="outline"
         size="sm"
-        onClick={onGenerateLink}
+        onClick={() => createShare(scope, expiresIn)}
+        disabled={isWorking}
         className="w-full"
       >
+        {isWorking && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
         Generate Share Link
       </Button>
-    );
-  }
 
-  return (
-    <div className="space-y-2">
-      <div className="flex">
-        <Input
-          value={shareLink}
-          readOnly
-          className="text-xs"
-        />
-        <Button
-          variant="outline"
-          size="sm"
-          onClick={handleCopyLink}
-          className="ml-2"
-        >
-          <CopyIcon className="h-4 w-4" />
-          Copy Link
-        </Button>
-      </div>
+      {error && <p className="text-xs text-destructive" role="alert">{error}</p>}
+
+      {shares && shares.length > 0 && (
+        <ul className="space-y-2" aria-label="Share links">
+          {shares.map(share => (
+            <ShareLinkRow
+              key={share.id}
+              share={share}
+              disabled={isWorking}
+              onCopy={() => handleCopyLink(share.url)}
+              onExtend={() => extendShare(share.id, expiresIn)}
+              onRevoke={() => revokeShare(share.id)}
+            />
+          ))}
+        </ul>
+      )}
+
       <p className="text-xs text-muted-foreground">
-        Anyone with this link can view the encounter
+        Anyone with an active link can open the encounter until it expires or is revoked. Extend sets the chosen expiry from now.
       </p>
     </div>
   );
-}
\ No newline at end of file
+}
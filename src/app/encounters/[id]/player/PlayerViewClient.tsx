@@ -0,0 +1,47 @@
+'use client';
+
+import React from 'react';
+import { usePlayerCombatStream } from '@/lib/hooks/usePlayerCombatStream';
+import { PlayerCombatView } from '@/components/combat/PlayerCombatView';
+import { LoadingSpinner } from '@/components/ui/loading-spinner';
+import { ErrorDisplay } from '../components/ErrorDisplay';
+
+interface PlayerViewClientProps {
+  encounterId: string;
+}
+
+/**
+ * Client-side player view that follows combat through the encounter stream
+ */
+export function PlayerViewClient({ encounterId }: PlayerViewClientProps) {
+  const { view, status } = usePlayerCombatStream(encounterId);
+
+  if (!view && status === 'error') {
+    return (
+      <ErrorDisplay
+        title="Player view unavailable"
+        message="This encounter is not shared with players, or the connection failed."
+      />
+    );
+  }
+
+  if (!view) {
+    return (
+      <div className="flex items-center justify-center min-h-screen">
+        <LoadingSpinner />
+        <span className="ml-2">Connecting to encounter...</span>
+      </div>
+    );
+  }
+
+  return (
+    <div className="container mx-auto px-4 py-6 space-y-4">
+      {status === 'error' && (
+        <p className="text-sm text-muted-foreground" role="status">
+          Connection lost, reconnecting...
+        </p>
+      )}
+      <PlayerCombatView view={view} />
+    </div>
+  );
+}
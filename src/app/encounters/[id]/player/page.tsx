@@ -0,0 +1,20 @@
+import React from 'react';
+import { PlayerViewClient } from './PlayerViewClient';
+
+interface PlayerViewPageProps {
+  params: Promise<{
+    id: string;
+  }>;
+}
+
+/**
+ * Player View Page - Server Component
+ *
+ * Read-only, live-updating initiative order for players at the table.
+ */
+export default async function PlayerViewPage({ params }: PlayerViewPageProps) {
+  const { id } = await params;
+  return <PlayerViewClient encounterId={id} />;
+}
+
+export { type PlayerViewPageProps };
@@ -0,0 +1,104 @@
+'use client';
+
+import React from 'react';
+import { useRouter } from 'next/navigation';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { LoadingSpinner } from '@/components/ui/loading-spinner';
+import { PlayerCombatView } from '@/components/combat/PlayerCombatView';
+import { useSharedEncounter } from '@/lib/hooks/useSharedEncounter';
+import type { SharedEncounterSummary } from '@/lib/services/encounter-import-export/sharingUtils';
+import { ErrorDisplay } from '../../[id]/components/ErrorDisplay';
+
+interface SharedEncounterClientProps {
+  token: string;
+}
+
+const describeParticipant = (participant: SharedEncounterSummary['participants'][number]): string => {
+  const rank = participant.isPlayer
+    ? participant.level !== undefined && `Level ${participant.level}`
+    : participant.challengeRating !== undefined && `CR ${participant.challengeRating}`;
+
+  return [rank, `AC ${participant.armorClass}`, `${participant.maxHitPoints} HP`].filter(Boolean).join(' · ');
+};
+
+function SharedEncounterDetails({ encounter }: { encounter: SharedEncounterSummary }) {
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>{encounter.name}</CardTitle>
+        {encounter.description && <p className="text-sm text-muted-foreground">{encounter.description}</p>}
+        <div className="flex flex-wrap gap-2">
+          {encounter.difficulty && <Badge variant="secondary">{encounter.difficulty}</Badge>}
+          {encounter.targetLevel !== undefined && <Badge variant="outline">Level {encounter.targetLevel}</Badge>}
+          {encounter.tags.map(tag => (
+            <Badge key={tag} variant="outline">{tag}</Badge>
+          ))}
+        </div>
+      </CardHeader>
+      <CardContent>
+        <ul className="divide-y" aria-label="Participants">
+          {encounter.participants.map((participant, index) => (
+            <li key={`${participant.name}-${index}`} className="flex justify-between py-2 text-sm">
+              <span className="font-medium">{participant.name}</span>
+              <span className="text-muted-foreground">{describeParticipant(participant)}</span>
+            </li>
+          ))}
+        </ul>
+      </CardContent>
+    </Card>
+  );
+}
+
+/**
+ * Client-side view of an encounter opened through a share link
+ */
+export function SharedEncounterClient({ token }: SharedEncounterClientProps) {
+  const router = useRouter();
+  const { shared, error, isCopying, copyEncounter } = useSharedEncounter(token);
+
+  if (!shared && error) {
+    return <ErrorDisplay title="Share link unavailable" message={error} />;
+  }
+
+  if (!shared) {
+    return (
+      <div className="flex items-center justify-center min-h-screen">
+        <LoadingSpinner />
+        <span className="ml-2">Opening shared encounter...</span>
+      </div>
+    );
+  }
+
+  const handleCopy = async () => {
+    const encounterId = await copyEncounter();
+    if (encounterId) {
+      router.push(`/encounters/${encounterId}`);
+    }
+  };
+
+  return (
+    <div className="container mx-auto px-4 py-6 space-y-4">
+      <p className="text-xs text-muted-foreground">
+        Shared link · expires {new Date(shared.expiresAt).toLocaleString()}
+      </p>
+
+      {error && (
+        <p className="text-sm text-destructive" role="alert">{error}</p>
+      )}
+
+      {shared.scope === 'player_view' ? (
+        <PlayerCombatView view={shared.playerView} />
+      ) : (
+        <SharedEncounterDetails encounter={shared.encounter} />
+      )}
+
+      {shared.scope === 'clone_template' && (
+        <Button onClick={handleCopy} disabled={isCopying}>
+          {isCopying ? 'Copying...' : 'Copy to My Encounters'}
+        </Button>
+      )}
+    </div>
+  );
+}
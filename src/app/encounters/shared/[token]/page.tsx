@@ -0,0 +1,20 @@
+import React from 'react';
+import { SharedEncounterClient } from './SharedEncounterClient';
+
+interface SharedEncounterPageProps {
+  params: Promise<{
+    token: string;
+  }>;
+}
+
+/**
+ * Shared Encounter Page - Server Component
+ *
+ * Opens an encounter through a share link; no sign-in is needed to view it.
+ */
+export default async function SharedEncounterPage({ params }: SharedEncounterPageProps) {
+  const { token } = await params;
+  return <SharedEncounterClient token={token} />;
+}
+
+export { type SharedEncounterPageProps };
@@ -0,0 +1,98 @@
+'use client';
+
+import React, { useState } from 'react';
+import { useRouter } from 'next/navigation';
+import type { Route } from 'next';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { LoadingSpinner } from '@/components/ui/loading-spinner';
+import { usePartyInvite } from '@/lib/hooks/usePartyInvite';
+import { ErrorDisplay } from '../../../encounters/[id]/components/ErrorDisplay';
+
+interface JoinPartyClientProps {
+  code: string;
+}
+
+/**
+ * Client-side view of a party invite: pick characters and join
+ */
+export function JoinPartyClient({ code }: JoinPartyClientProps) {
+  const router = useRouter();
+  const { invite, error, isJoining, joinParty } = usePartyInvite(code);
+  const [selected, setSelected] = useState<string[]>([]);
+
+  if (!invite && error) {
+    return <ErrorDisplay title="Invite unavailable" message={error} />;
+  }
+
+  if (!invite) {
+    return (
+      <div className="flex items-center justify-center min-h-screen">
+        <LoadingSpinner />
+        <span className="ml-2">Opening invite...</span>
+      </div>
+    );
+  }
+
+  const openSlots = Math.max(invite.maxMembers - invite.memberCount, 0);
+
+  const toggle = (characterId: string) =>
+    setSelected(current =>
+      current.includes(characterId)
+        ? current.filter(id => id !== characterId)
+        : [...current, characterId]
+    );
+
+  const handleJoin = async () => {
+    if (await joinParty(selected)) {
+      router.push('/parties' as Route);
+    }
+  };
+
+  return (
+    <div className="container mx-auto px-4 py-6 space-y-4 max-w-xl">
+      <Card>
+        <CardHeader>
+          <CardTitle>Join {invite.partyName}</CardTitle>
+          {invite.description && <p className="text-sm text-muted-foreground">{invite.description}</p>}
+          <p className="text-xs text-muted-foreground">
+            {invite.memberCount}/{invite.maxMembers} characters · invite expires{' '}
+            {new Date(invite.expiresAt).toLocaleString()}
+          </p>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {error && <p className="text-sm text-destructive" role="alert">{error}</p>}
+
+          {invite.characters.length > 0 ? (
+            <ul className="space-y-2" aria-label="Your characters">
+              {invite.characters.map(character => (
+                <li key={character.characterId} className="flex items-center gap-2">
+                  <Checkbox
+                    id={`join-${character.characterId}`}
+                    checked={selected.includes(character.characterId)}
+                    onCheckedChange={() => toggle(character.characterId)}
+                    disabled={!selected.includes(character.characterId) && selected.length >= openSlots}
+                  />
+                  <label htmlFor={`join-${character.characterId}`} className="text-sm">
+                    {character.name} <span className="text-muted-foreground">(level {character.level})</span>
+                  </label>
+                </li>
+              ))}
+            </ul>
+          ) : (
+            <p className="text-sm text-muted-foreground">
+              You have no characters without a party. Create a character first, then open this link again.
+            </p>
+          )}
+
+          {openSlots === 0 && <p className="text-sm text-muted-foreground">This party is full.</p>}
+
+          <Button onClick={handleJoin} disabled={selected.length === 0 || isJoining}>
+            {isJoining ? 'Joining...' : 'Join Party'}
+          </Button>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,26 @@
+import React from 'react';
+import { Metadata } from 'next';
+import { JoinPartyClient } from './JoinPartyClient';
+
+interface JoinPartyPageProps {
+  params: Promise<{
+    code: string;
+  }>;
+}
+
+export const metadata: Metadata = {
+  title: 'Join Party - D&D Encounter Tracker',
+  description: 'Bring your characters into a party',
+};
+
+/**
+ * Join Party Page - Server Component
+ *
+ * Opens a party invite link so players can add their characters.
+ */
+export default async function JoinPartyPage({ params }: JoinPartyPageProps) {
+  const { code } = await params;
+  return <JoinPartyClient code={code} />;
+}
+
+export { type JoinPartyPageProps };
@@ -0,0 +1,86 @@
+'use client';
+
+import Link from 'next/link';
+import type { Route } from 'next';
+import { formatDistanceToNow } from 'date-fns';
+import { CalendarDays, Star, Swords, Users } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardHeader } from '@/components/ui/card';
+import type { CampaignSummary } from '@/lib/services/CampaignService';
+import { CAMPAIGN_STATUS_LABELS } from './constants';
+
+interface CampaignCardProps {
+  campaign: CampaignSummary;
+}
+
+// Helper component for a labelled count
+function StatItem({ icon, value, label }: { icon: React.ReactNode; value: number; label: string }) {
+  return (
+    <div className="flex items-center gap-2">
+      {icon}
+      <span className="font-medium">{value}</span>
+      <span className="text-muted-foreground">{label}</span>
+    </div>
+  );
+}
+
+export function CampaignCard({ campaign }: CampaignCardProps) {
+  return (
+    <Card className="transition-all duration-200 hover:shadow-md" data-testid="campaign-card">
+      <CardHeader className="space-y-2">
+        <div className="flex items-start justify-between gap-2">
+          <div className="flex-1 min-w-0">
+            <Link href={`/campaigns/${campaign.id}` as Route} className="font-semibold text-lg truncate hover:underline">
+              {campaign.name}
+            </Link>
+            {campaign.description && (
+              <p className="text-sm text-muted-foreground line-clamp-2 mt-1">{campaign.description}</p>
+            )}
+          </div>
+          <Badge variant={campaign.status === 'active' ? 'default' : 'secondary'}>
+            {CAMPAIGN_STATUS_LABELS[campaign.status]}
+          </Badge>
+        </div>
+        {campaign.tags.length > 0 && (
+          <div className="flex flex-wrap gap-1">
+            {campaign.tags.slice(0, 3).map(tag => (
+              <Badge key={tag} variant="outline" className="text-xs">
+                {tag}
+              </Badge>
+            ))}
+          </div>
+        )}
+      </CardHeader>
+
+      <CardContent className="space-y-3 text-sm">
+        <div className="grid grid-cols-2 gap-2">
+          <StatItem
+            icon={<Users className="h-4 w-4 text-muted-foreground" />}
+            value={campaign.partyIds.length}
+            label="parties"
+          />
+          <StatItem
+            icon={<Swords className="h-4 w-4 text-muted-foreground" />}
+            value={campaign.encounterPlan.length}
+            label="planned"
+          />
+          <StatItem
+            icon={<CalendarDays className="h-4 w-4 text-muted-foreground" />}
+            value={campaign.sessionCount}
+            label="sessions"
+          />
+          <StatItem
+            icon={<Star className="h-4 w-4 text-muted-foreground" />}
+            value={campaign.totalXpAwarded}
+            label="XP awarded"
+          />
+        </div>
+        <div className="text-xs text-muted-foreground">
+          {campaign.lastSessionAt
+            ? `Last played ${formatDistanceToNow(new Date(campaign.lastSessionAt), { addSuffix: true })}`
+            : 'No sessions played yet'}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,112 @@
+'use client';
+
+import React, { useState } from 'react';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import type { CampaignCreate, CampaignStatus } from '@/lib/validations/campaign';
+import { CAMPAIGN_STATUS_OPTIONS } from './constants';
+
+interface CampaignCreateDialogProps {
+  open: boolean;
+  onOpenChange: (_open: boolean) => void;
+  onCreate: (_data: Partial<CampaignCreate>) => Promise<unknown>;
+}
+
+/**
+ * Name a new campaign; parties, encounters and sessions are added from the
+ * campaign page
+ */
+export function CampaignCreateDialog({ open, onOpenChange, onCreate }: CampaignCreateDialogProps) {
+  const [name, setName] = useState('');
+  const [description, setDescription] = useState('');
+  const [status, setStatus] = useState<CampaignStatus>('planning');
+  const [error, setError] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault();
+    setIsSubmitting(true);
+    setError(null);
+    try {
+      await onCreate({ name: name.trim(), description: description.trim(), status });
+      setName('');
+      setDescription('');
+      setStatus('planning');
+      onOpenChange(false);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to create campaign');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent data-testid="campaign-create-dialog">
+        <DialogHeader>
+          <DialogTitle>Create New Campaign</DialogTitle>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          {error && (
+            <Alert variant="destructive">
+              <AlertDescription>{error}</AlertDescription>
+            </Alert>
+          )}
+
+          <div className="space-y-2">
+            <Label htmlFor="campaign-name">Campaign Name *</Label>
+            <Input
+              id="campaign-name"
+              value={name}
+              maxLength={100}
+              placeholder="Enter campaign name..."
+              onChange={(e) => setName(e.target.value)}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="campaign-description">Description</Label>
+            <Textarea
+              id="campaign-description"
+              value={description}
+              maxLength={2000}
+              rows={3}
+              placeholder="Setting, themes or the hook for the players..."
+              onChange={(e) => setDescription(e.target.value)}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="campaign-status">Status</Label>
+            <select
+              id="campaign-status"
+              className="h-9 w-full rounded-md border border-input bg-background px-3 py-1 text-sm"
+              value={status}
+              onChange={(e) => setStatus(e.target.value as CampaignStatus)}
+            >
+              {CAMPAIGN_STATUS_OPTIONS.map(option => (
+                <option key={option.value} value={option.value}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={!name.trim() || isSubmitting}>
+              Create Campaign
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
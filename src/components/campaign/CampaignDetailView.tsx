@@ -0,0 +1,371 @@
+'use client';
+
+import { useState } from 'react';
+import Link from 'next/link';
+import { useRouter } from 'next/navigation';
+import type { Route } from 'next';
+import { ArrowDown, ArrowUp, Loader2, Plus } from 'lucide-react';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import type { CampaignDetail, CampaignSessionSummary } from '@/lib/services/CampaignService';
+import type { CampaignStatus } from '@/lib/validations/campaign';
+import { useCampaign } from './hooks/useCampaign';
+import { CampaignSessionForm } from './CampaignSessionForm';
+import { CAMPAIGN_STATUS_OPTIONS } from './constants';
+
+interface CampaignDetailViewProps {
+  campaignId: string;
+}
+
+const selectClassName = 'h-9 rounded-md border border-input bg-background px-3 py-1 text-sm';
+
+// Session dates are calendar days, so show them without a timezone shift
+const formatSessionDate = (date: Date | string) =>
+  new Date(date).toLocaleDateString(undefined, { dateStyle: 'medium', timeZone: 'UTC' });
+
+const move = (ids: string[], index: number, offset: number): string[] => {
+  const next = [...ids];
+  [next[index], next[index + offset]] = [next[index + offset], next[index]];
+  return next;
+};
+
+// A select of options to add and its Add button
+function AddControl({
+  label,
+  options,
+  disabled,
+  onAdd,
+}: {
+  label: string;
+  options: { id: string; name: string }[];
+  disabled: boolean;
+  onAdd: (_id: string) => void;
+}) {
+  const [selected, setSelected] = useState('');
+
+  if (options.length === 0) return null;
+
+  return (
+    <div className="flex items-center gap-2">
+      <select aria-label={label} className={`${selectClassName} flex-1`} value={selected} onChange={(e) => setSelected(e.target.value)}>
+        <option value="">{label}...</option>
+        {options.map(option => (
+          <option key={option.id} value={option.id}>
+            {option.name}
+          </option>
+        ))}
+      </select>
+      <Button
+        size="sm"
+        variant="outline"
+        disabled={!selected || disabled}
+        onClick={() => {
+          onAdd(selected);
+          setSelected('');
+        }}
+      >
+        Add
+      </Button>
+    </div>
+  );
+}
+
+function PartiesSection({
+  campaign,
+  disabled,
+  onChange,
+}: {
+  campaign: CampaignDetail;
+  disabled: boolean;
+  onChange: (_partyIds: string[]) => void;
+}) {
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg">Parties</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {campaign.parties.length > 0 ? (
+          <ul className="space-y-2">
+            {campaign.parties.map(party => (
+              <li key={party.id} className="flex items-start justify-between p-2 border rounded" data-testid="campaign-party">
+                <div>
+                  <div className="font-medium">{party.name}</div>
+                  <div className="text-xs text-muted-foreground">
+                    {party.members.length > 0
+                      ? party.members.map(member => `${member.name} (${member.level})`).join(', ')
+                      : 'No characters yet'}
+                  </div>
+                </div>
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  disabled={disabled}
+                  onClick={() => onChange(campaign.partyIds.filter(id => id !== party.id))}
+                >
+                  Remove
+                </Button>
+              </li>
+            ))}
+          </ul>
+        ) : (
+          <p className="text-sm text-muted-foreground">No parties are playing this campaign yet.</p>
+        )}
+        <AddControl
+          label="Add party"
+          options={campaign.availableParties}
+          disabled={disabled}
+          onAdd={(partyId) => onChange([...campaign.partyIds, partyId])}
+        />
+      </CardContent>
+    </Card>
+  );
+}
+
+function EncounterPlanSection({
+  campaign,
+  disabled,
+  onChange,
+}: {
+  campaign: CampaignDetail;
+  disabled: boolean;
+  onChange: (_encounterPlan: string[]) => void;
+}) {
+  const plan = campaign.encounterPlan;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg">Encounter Plan</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {campaign.encounters.length > 0 ? (
+          <ol className="space-y-2" aria-label="Encounter plan">
+            {campaign.encounters.map((encounter, index) => (
+              <li key={encounter.id} className="flex items-center justify-between gap-2 p-2 border rounded">
+                <div className="flex items-center gap-2 min-w-0">
+                  <span className="text-sm text-muted-foreground w-6">{index + 1}.</span>
+                  <Link href={`/encounters/${encounter.id}` as Route} className="font-medium truncate hover:underline">
+                    {encounter.name}
+                  </Link>
+                  {encounter.difficulty && (
+                    <Badge variant="outline" className="text-xs capitalize">
+                      {encounter.difficulty}
+                    </Badge>
+                  )}
+                  {encounter.timesRun > 0 && (
+                    <Badge variant="secondary" className="text-xs">
+                      Run {encounter.timesRun}×
+                    </Badge>
+                  )}
+                </div>
+                <div className="flex items-center">
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    aria-label={`Move ${encounter.name} up`}
+                    disabled={disabled || index === 0}
+                    onClick={() => onChange(move(plan, index, -1))}
+                  >
+                    <ArrowUp className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    aria-label={`Move ${encounter.name} down`}
+                    disabled={disabled || index === plan.length - 1}
+                    onClick={() => onChange(move(plan, index, 1))}
+                  >
+                    <ArrowDown className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    disabled={disabled}
+                    onClick={() => onChange(plan.filter(id => id !== encounter.id))}
+                  >
+                    Remove
+                  </Button>
+                </div>
+              </li>
+            ))}
+          </ol>
+        ) : (
+          <p className="text-sm text-muted-foreground">No encounters planned yet.</p>
+        )}
+        <AddControl
+          label="Add encounter"
+          options={campaign.availableEncounters}
+          disabled={disabled}
+          onAdd={(encounterId) => onChange([...plan, encounterId])}
+        />
+      </CardContent>
+    </Card>
+  );
+}
+
+function SessionEntry({
+  session,
+  disabled,
+  onDelete,
+}: {
+  session: CampaignSessionSummary;
+  disabled: boolean;
+  onDelete: () => void;
+}) {
+  return (
+    <li className="space-y-2 p-3 border rounded" data-testid="campaign-session">
+      <div className="flex items-start justify-between gap-2">
+        <div>
+          <div className="font-medium">{session.title || 'Untitled session'}</div>
+          <div className="text-xs text-muted-foreground">{formatSessionDate(session.date)}</div>
+        </div>
+        <Button size="sm" variant="ghost" disabled={disabled} onClick={onDelete}>
+          Delete
+        </Button>
+      </div>
+      <dl className="grid gap-1 text-sm sm:grid-cols-[8rem_1fr]">
+        <dt className="text-muted-foreground">Attendees</dt>
+        <dd>{session.attendees.map(attendee => attendee.name).join(', ') || '—'}</dd>
+        <dt className="text-muted-foreground">Encounters</dt>
+        <dd>{session.encounters.map(encounter => encounter.name).join(', ') || '—'}</dd>
+        <dt className="text-muted-foreground">XP</dt>
+        <dd>{session.xpAwarded}</dd>
+        <dt className="text-muted-foreground">Loot</dt>
+        <dd>
+          {session.loot.map(item => (item.quantity > 1 ? `${item.name} ×${item.quantity}` : item.name)).join(', ') || '—'}
+        </dd>
+      </dl>
+      {session.notes && <p className="text-sm whitespace-pre-wrap">{session.notes}</p>}
+    </li>
+  );
+}
+
+/**
+ * A campaign's parties, ordered encounter plan and session log
+ */
+export function CampaignDetailView({ campaignId }: CampaignDetailViewProps) {
+  const router = useRouter();
+  const state = useCampaign(campaignId);
+  const [isLogging, setIsLogging] = useState(false);
+  const [confirmDelete, setConfirmDelete] = useState(false);
+  const { campaign } = state;
+
+  if (!campaign) {
+    return state.error ? (
+      <Alert variant="destructive">
+        <AlertDescription>{state.error}</AlertDescription>
+      </Alert>
+    ) : (
+      <div className="flex justify-center p-8">
+        <Loader2 className="h-6 w-6 animate-spin" />
+      </div>
+    );
+  }
+
+  const handleDelete = async () => {
+    if (await state.deleteCampaign()) {
+      router.push('/campaigns' as Route);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col gap-4 sm:flex-row sm:items-start sm:justify-between">
+        <div className="space-y-1">
+          <h1 className="text-3xl font-bold tracking-tight">{campaign.name}</h1>
+          {campaign.description && <p className="text-muted-foreground">{campaign.description}</p>}
+          <p className="text-sm text-muted-foreground">
+            {campaign.sessionCount} sessions played · {campaign.totalXpAwarded} XP awarded
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          <select
+            aria-label="Campaign status"
+            className={selectClassName}
+            value={campaign.status}
+            disabled={state.isWorking}
+            onChange={(e) => state.updateCampaign({ status: e.target.value as CampaignStatus })}
+          >
+            {CAMPAIGN_STATUS_OPTIONS.map(option => (
+              <option key={option.value} value={option.value}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+          {confirmDelete ? (
+            <>
+              <Button variant="destructive" size="sm" disabled={state.isWorking} onClick={handleDelete}>
+                Confirm Delete
+              </Button>
+              <Button variant="outline" size="sm" onClick={() => setConfirmDelete(false)}>
+                Keep
+              </Button>
+            </>
+          ) : (
+            <Button variant="outline" size="sm" onClick={() => setConfirmDelete(true)}>
+              Delete Campaign
+            </Button>
+          )}
+        </div>
+      </div>
+
+      {state.error && (
+        <Alert variant="destructive">
+          <AlertDescription>{state.error}</AlertDescription>
+        </Alert>
+      )}
+
+      <div className="grid gap-6 lg:grid-cols-2">
+        <PartiesSection
+          campaign={campaign}
+          disabled={state.isWorking}
+          onChange={(partyIds) => state.updateCampaign({ partyIds })}
+        />
+        <EncounterPlanSection
+          campaign={campaign}
+          disabled={state.isWorking}
+          onChange={(encounterPlan) => state.updateCampaign({ encounterPlan })}
+        />
+      </div>
+
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between space-y-0">
+          <CardTitle className="text-lg">Session Log</CardTitle>
+          {!isLogging && (
+            <Button size="sm" onClick={() => setIsLogging(true)}>
+              <Plus className="h-4 w-4 mr-2" />
+              Log Session
+            </Button>
+          )}
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {isLogging && (
+            <CampaignSessionForm
+              campaign={campaign}
+              isSubmitting={state.isWorking}
+              onSubmit={state.addSession}
+              onCancel={() => setIsLogging(false)}
+            />
+          )}
+          {campaign.sessions.length > 0 ? (
+            <ul className="space-y-3">
+              {campaign.sessions.map(session => (
+                <SessionEntry
+                  key={session.id}
+                  session={session}
+                  disabled={state.isWorking}
+                  onDelete={() => state.deleteSession(session.id)}
+                />
+              ))}
+            </ul>
+          ) : (
+            !isLogging && <p className="text-sm text-muted-foreground">No sessions logged yet.</p>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,115 @@
+'use client';
+
+import { useState } from 'react';
+import { AlertCircle, BookOpen, Plus, RefreshCw } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Pagination } from '@/components/shared/Pagination';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import type { CampaignStatus } from '@/lib/validations/campaign';
+import { useCampaigns } from './hooks/useCampaigns';
+import { CampaignCard } from './CampaignCard';
+import { CampaignCreateDialog } from './CampaignCreateDialog';
+import { CAMPAIGN_STATUS_OPTIONS } from './constants';
+
+function EmptyState({ onCreateCampaign }: { onCreateCampaign: () => void }) {
+  return (
+    <Card className="border-dashed">
+      <CardContent className="flex flex-col items-center justify-center py-16 text-center">
+        <BookOpen className="h-12 w-12 text-muted-foreground mb-4" />
+        <h3 className="text-lg font-semibold mb-2">No campaigns found</h3>
+        <p className="text-muted-foreground mb-6 max-w-sm">
+          Create a campaign to group your parties, plan encounters and keep a log of every session.
+        </p>
+        <Button onClick={onCreateCampaign}>
+          <Plus className="mr-2 h-4 w-4" />
+          Create Your First Campaign
+        </Button>
+      </CardContent>
+    </Card>
+  );
+}
+
+function ErrorState({ error, onRetry }: { error: string; onRetry: () => void }) {
+  return (
+    <div className="flex items-center justify-center min-h-64">
+      <Alert className="max-w-md">
+        <AlertCircle className="h-4 w-4" />
+        <AlertTitle>Error Loading Campaigns</AlertTitle>
+        <AlertDescription className="mt-2">{error}</AlertDescription>
+        <div className="mt-4">
+          <Button onClick={onRetry} variant="outline" size="sm">
+            <RefreshCw className="mr-2 h-4 w-4" />
+            Try Again
+          </Button>
+        </div>
+      </Alert>
+    </div>
+  );
+}
+
+export function CampaignListView() {
+  const [searchQuery, setSearchQuery] = useState('');
+  const [status, setStatus] = useState<CampaignStatus | ''>('');
+  const [isCreateOpen, setIsCreateOpen] = useState(false);
+  const data = useCampaigns({ searchQuery, status: status || undefined });
+
+  if (data.error) {
+    return <ErrorState error={data.error} onRetry={data.refetch} />;
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col space-y-4 lg:flex-row lg:items-center lg:justify-between lg:space-y-0">
+        <div className="flex flex-col space-y-2 sm:flex-row sm:items-center sm:space-y-0 sm:space-x-4">
+          <Input
+            placeholder="Search campaigns..."
+            value={searchQuery}
+            onChange={(e) => setSearchQuery(e.target.value)}
+            className="w-full sm:w-64"
+          />
+          <select
+            aria-label="Filter by status"
+            className="h-9 rounded-md border border-input bg-background px-3 py-1 text-sm"
+            value={status}
+            onChange={(e) => setStatus(e.target.value as CampaignStatus | '')}
+          >
+            <option value="">All Statuses</option>
+            {CAMPAIGN_STATUS_OPTIONS.map(option => (
+              <option key={option.value} value={option.value}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+        </div>
+
+        <Button onClick={() => setIsCreateOpen(true)}>
+          <Plus className="h-4 w-4 mr-2" />
+          New Campaign
+        </Button>
+      </div>
+
+      {!data.isLoading && data.campaigns.length === 0 ? (
+        <EmptyState onCreateCampaign={() => setIsCreateOpen(true)} />
+      ) : (
+        <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-3">
+          {data.campaigns.map(campaign => (
+            <CampaignCard key={campaign.id} campaign={campaign} />
+          ))}
+        </div>
+      )}
+
+      {data.pagination && (
+        <Pagination
+          currentPage={data.pagination.currentPage}
+          totalPages={data.pagination.totalPages}
+          totalItems={data.pagination.totalItems}
+          onPageChange={data.goToPage}
+        />
+      )}
+
+      <CampaignCreateDialog open={isCreateOpen} onOpenChange={setIsCreateOpen} onCreate={data.createCampaign} />
+    </div>
+  );
+}
@@ -0,0 +1,164 @@
+'use client';
+
+import React, { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import type { CampaignDetail } from '@/lib/services/CampaignService';
+import type { CampaignLoot } from '@/lib/validations/campaign';
+import type { CampaignSessionDraft } from './hooks/useCampaign';
+
+interface CampaignSessionFormProps {
+  campaign: CampaignDetail;
+  isSubmitting: boolean;
+  onSubmit: (_session: CampaignSessionDraft) => Promise<boolean>;
+  onCancel: () => void;
+}
+
+// One item per line, with an optional "x2" quantity at the end
+const parseLoot = (text: string): CampaignLoot[] =>
+  text
+    .split('\n')
+    .map(line => line.trim())
+    .filter(line => line.length > 0)
+    .map(line => {
+      const match = line.match(/^(.*?)\s*x\s*(\d+)$/i);
+      return match && match[1]
+        ? { name: match[1], quantity: parseInt(match[2], 10) }
+        : { name: line, quantity: 1 };
+    });
+
+const toggle = (values: string[], value: string): string[] =>
+  values.includes(value) ? values.filter(v => v !== value) : [...values, value];
+
+/**
+ * Log a game night: who came, which planned encounters ran and what the
+ * party earned
+ */
+export function CampaignSessionForm({ campaign, isSubmitting, onSubmit, onCancel }: CampaignSessionFormProps) {
+  const members = campaign.parties.flatMap(party => party.members);
+  const [date, setDate] = useState(() => new Date().toISOString().slice(0, 10));
+  const [title, setTitle] = useState('');
+  const [attendees, setAttendees] = useState<string[]>(() => members.map(member => member.characterId));
+  const [encounterIds, setEncounterIds] = useState<string[]>([]);
+  const [xpAwarded, setXpAwarded] = useState('0');
+  const [loot, setLoot] = useState('');
+  const [notes, setNotes] = useState('');
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault();
+    const logged = await onSubmit({
+      date,
+      ...(title.trim() && { title: title.trim() }),
+      attendees,
+      encounterIds,
+      xpAwarded: parseInt(xpAwarded, 10) || 0,
+      loot: parseLoot(loot),
+      notes: notes.trim(),
+    });
+    if (logged) {
+      onCancel();
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4 rounded-lg border p-4" data-testid="campaign-session-form">
+      <div className="grid gap-4 sm:grid-cols-2">
+        <div className="space-y-2">
+          <Label htmlFor="session-date">Date</Label>
+          <Input id="session-date" type="date" value={date} required onChange={(e) => setDate(e.target.value)} />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="session-title">Title</Label>
+          <Input
+            id="session-title"
+            value={title}
+            maxLength={100}
+            placeholder="Session 12: The Sunken Vault"
+            onChange={(e) => setTitle(e.target.value)}
+          />
+        </div>
+      </div>
+
+      {members.length > 0 && (
+        <fieldset className="space-y-2">
+          <legend className="text-sm font-medium">Attendees</legend>
+          <div className="flex flex-wrap gap-3">
+            {members.map(member => (
+              <label key={member.characterId} className="flex items-center gap-2 text-sm">
+                <input
+                  type="checkbox"
+                  checked={attendees.includes(member.characterId)}
+                  onChange={() => setAttendees(toggle(attendees, member.characterId))}
+                />
+                {member.name}
+              </label>
+            ))}
+          </div>
+        </fieldset>
+      )}
+
+      {campaign.encounters.length > 0 && (
+        <fieldset className="space-y-2">
+          <legend className="text-sm font-medium">Encounters Run</legend>
+          <div className="flex flex-wrap gap-3">
+            {campaign.encounters.map(encounter => (
+              <label key={encounter.id} className="flex items-center gap-2 text-sm">
+                <input
+                  type="checkbox"
+                  checked={encounterIds.includes(encounter.id)}
+                  onChange={() => setEncounterIds(toggle(encounterIds, encounter.id))}
+                />
+                {encounter.name}
+              </label>
+            ))}
+          </div>
+        </fieldset>
+      )}
+
+      <div className="grid gap-4 sm:grid-cols-2">
+        <div className="space-y-2">
+          <Label htmlFor="session-xp">XP Awarded</Label>
+          <Input
+            id="session-xp"
+            type="number"
+            min={0}
+            value={xpAwarded}
+            onChange={(e) => setXpAwarded(e.target.value)}
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="session-loot">Loot</Label>
+          <Textarea
+            id="session-loot"
+            rows={2}
+            value={loot}
+            placeholder="One item per line, e.g. Potion of Healing x2"
+            onChange={(e) => setLoot(e.target.value)}
+          />
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="session-notes">Notes</Label>
+        <Textarea
+          id="session-notes"
+          rows={4}
+          maxLength={10000}
+          value={notes}
+          onChange={(e) => setNotes(e.target.value)}
+        />
+      </div>
+
+      <div className="flex justify-end gap-2">
+        <Button type="button" variant="outline" onClick={onCancel}>
+          Cancel
+        </Button>
+        <Button type="submit" disabled={!date || isSubmitting}>
+          Save Session
+        </Button>
+      </div>
+    </form>
+  );
+}
@@ -0,0 +1,176 @@
+/**
+ * @jest-environment jsdom
+ */
+import { render, screen, waitFor, within } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import type { CampaignDetail } from '@/lib/services/CampaignService';
+import { CampaignDetailView } from '../CampaignDetailView';
+
+const mockPush = jest.fn();
+jest.mock('next/navigation', () => ({
+  useRouter: () => ({ push: mockPush }),
+}));
+
+const mockFetch = jest.fn();
+global.fetch = mockFetch;
+
+const jsonResponse = (body: unknown, ok = true) => ({ ok, json: async () => body });
+
+const routeFetch = (routes: Record<string, unknown>) =>
+  mockFetch.mockImplementation(async (url: string, init?: RequestInit) => {
+    const key = `${init?.method ?? 'GET'} ${url}`;
+    return jsonResponse(routes[key] ?? { success: false, message: `Unexpected ${key}` }, key in routes);
+  });
+
+const requestBody = (key: string) => {
+  const call = mockFetch.mock.calls.find(([url, init]) => `${init?.method ?? 'GET'} ${url}` === key);
+  return JSON.parse(call?.[1]?.body ?? 'null');
+};
+
+const createCampaign = (overrides: Partial<CampaignDetail> = {}): CampaignDetail => ({
+  id: 'campaign-1',
+  ownerId: 'user-1',
+  name: 'Curse of the Drowned King',
+  description: 'A coastal horror campaign',
+  status: 'active',
+  tags: [],
+  partyIds: ['party-1'],
+  encounterPlan: ['encounter-1', 'encounter-2'],
+  sessionCount: 1,
+  totalXpAwarded: 450,
+  lastSessionAt: new Date('2030-01-10'),
+  createdAt: new Date('2030-01-01'),
+  updatedAt: new Date('2030-01-10'),
+  parties: [
+    {
+      id: 'party-1',
+      name: 'The Tide Breakers',
+      members: [
+        { characterId: 'fighter-1', name: 'Bruni', level: 4 },
+        { characterId: 'wizard-1', name: 'Elara', level: 4 },
+      ],
+    },
+  ],
+  encounters: [
+    { id: 'encounter-1', name: 'Drowned Guards', difficulty: 'medium', status: 'completed', timesRun: 1 },
+    { id: 'encounter-2', name: 'The Drowned King', difficulty: 'deadly', status: 'draft', timesRun: 0 },
+  ],
+  sessions: [
+    {
+      id: 'session-1',
+      date: new Date('2030-01-10'),
+      title: 'Into the Vault',
+      attendees: [{ characterId: 'fighter-1', name: 'Bruni' }],
+      encounters: [{ id: 'encounter-1', name: 'Drowned Guards' }],
+      xpAwarded: 450,
+      loot: [{ name: 'Potion of Healing', quantity: 2 }],
+      notes: 'The rogue found the secret door.',
+    },
+  ],
+  availableParties: [{ id: 'party-2', name: 'Backup Crew' }],
+  availableEncounters: [{ id: 'encounter-3', name: 'Bandit Toll' }],
+  ...overrides,
+});
+
+describe('CampaignDetailView', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('shows the parties, encounter plan and session log', async () => {
+    routeFetch({ 'GET /api/campaigns/campaign-1': { success: true, campaign: createCampaign() } });
+
+    render(<CampaignDetailView campaignId="campaign-1" />);
+
+    expect(await screen.findByText('Curse of the Drowned King')).toBeInTheDocument();
+    expect(screen.getByText('Bruni (4), Elara (4)')).toBeInTheDocument();
+    expect(screen.getByText('Run 1×')).toBeInTheDocument();
+
+    const session = screen.getByTestId('campaign-session');
+    expect(within(session).getByText('Into the Vault')).toBeInTheDocument();
+    expect(within(session).getByText('Potion of Healing ×2')).toBeInTheDocument();
+  });
+
+  it('reorders the encounter plan', async () => {
+    const user = userEvent.setup();
+    routeFetch({
+      'GET /api/campaigns/campaign-1': { success: true, campaign: createCampaign() },
+      'PUT /api/campaigns/campaign-1': {
+        success: true,
+        campaign: createCampaign({ encounterPlan: ['encounter-2', 'encounter-1'] }),
+      },
+    });
+
+    render(<CampaignDetailView campaignId="campaign-1" />);
+
+    await user.click(await screen.findByRole('button', { name: 'Move Drowned Guards down' }));
+
+    await waitFor(() =>
+      expect(requestBody('PUT /api/campaigns/campaign-1')).toEqual({ encounterPlan: ['encounter-2', 'encounter-1'] })
+    );
+  });
+
+  it('logs a session with the attendees, encounters and loot', async () => {
+    const user = userEvent.setup();
+    const logged = createCampaign({ sessionCount: 2 });
+    routeFetch({
+      'GET /api/campaigns/campaign-1': { success: true, campaign: createCampaign() },
+      'POST /api/campaigns/campaign-1/sessions': { success: true, campaign: logged },
+    });
+
+    render(<CampaignDetailView campaignId="campaign-1" />);
+
+    await user.click(await screen.findByRole('button', { name: /log session/i }));
+    const form = screen.getByTestId('campaign-session-form');
+    await user.clear(within(form).getByLabelText('Date'));
+    await user.type(within(form).getByLabelText('Date'), '2030-01-17');
+    await user.click(within(form).getByLabelText('Elara'));
+    await user.click(within(form).getByLabelText('The Drowned King'));
+    await user.clear(within(form).getByLabelText('XP Awarded'));
+    await user.type(within(form).getByLabelText('XP Awarded'), '1200');
+    await user.type(within(form).getByLabelText('Loot'), 'Trident of the Deep{enter}Gold piece x 50');
+    await user.click(within(form).getByRole('button', { name: 'Save Session' }));
+
+    await waitFor(() => expect(screen.queryByTestId('campaign-session-form')).not.toBeInTheDocument());
+    expect(requestBody('POST /api/campaigns/campaign-1/sessions')).toEqual({
+      date: '2030-01-17',
+      attendees: ['fighter-1'],
+      encounterIds: ['encounter-2'],
+      xpAwarded: 1200,
+      loot: [
+        { name: 'Trident of the Deep', quantity: 1 },
+        { name: 'Gold piece', quantity: 50 },
+      ],
+      notes: '',
+    });
+    expect(screen.getByText('2 sessions played · 450 XP awarded')).toBeInTheDocument();
+  });
+
+  it('keeps the form open and shows the error when a session is rejected', async () => {
+    const user = userEvent.setup();
+    routeFetch({ 'GET /api/campaigns/campaign-1': { success: true, campaign: createCampaign() } });
+
+    render(<CampaignDetailView campaignId="campaign-1" />);
+
+    await user.click(await screen.findByRole('button', { name: /log session/i }));
+    await user.click(screen.getByRole('button', { name: 'Save Session' }));
+
+    expect(await screen.findByText('Unexpected POST /api/campaigns/campaign-1/sessions')).toBeInTheDocument();
+    expect(screen.getByTestId('campaign-session-form')).toBeInTheDocument();
+  });
+
+  it('returns to the campaign list after deleting', async () => {
+    const user = userEvent.setup();
+    routeFetch({
+      'GET /api/campaigns/campaign-1': { success: true, campaign: createCampaign() },
+      'DELETE /api/campaigns/campaign-1': { success: true },
+    });
+
+    render(<CampaignDetailView campaignId="campaign-1" />);
+
+    await user.click(await screen.findByRole('button', { name: 'Delete Campaign' }));
+    await user.click(screen.getByRole('button', { name: 'Confirm Delete' }));
+
+    await waitFor(() => expect(mockPush).toHaveBeenCalledWith('/campaigns'));
+  });
+});
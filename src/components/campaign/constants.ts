@@ -0,0 +1,13 @@
+import type { CampaignStatus } from '@/lib/validations/campaign';
+
+export const CAMPAIGN_STATUS_LABELS: Record<CampaignStatus, string> = {
+  planning: 'Planning',
+  active: 'Active',
+  on_hold: 'On Hold',
+  completed: 'Completed',
+};
+
+export const CAMPAIGN_STATUS_OPTIONS = Object.entries(CAMPAIGN_STATUS_LABELS).map(([value, label]) => ({
+  value: value as CampaignStatus,
+  label,
+}));
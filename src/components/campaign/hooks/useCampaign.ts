@@ -0,0 +1,82 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import type { CampaignDetail } from '@/lib/services/CampaignService';
+import type { CampaignSession, CampaignUpdate } from '@/lib/validations/campaign';
+
+async function requestCampaignApi(url: string, init?: RequestInit) {
+  const response = await fetch(url, init);
+  const data = await response.json();
+
+  if (!response.ok || !data.success) {
+    throw new Error(data.message || 'Campaign request failed');
+  }
+
+  return data;
+}
+
+// A session as the log form sends it; the date goes over the wire as YYYY-MM-DD
+export type CampaignSessionDraft = Omit<Partial<CampaignSession>, 'date'> & { date: string };
+
+const jsonRequest = (method: string, body: unknown): RequestInit => ({
+  method,
+  headers: { 'Content-Type': 'application/json' },
+  body: JSON.stringify(body),
+});
+
+/**
+ * Hook for one campaign: its parties, encounter plan and session log
+ */
+export function useCampaign(campaignId: string) {
+  const [campaign, setCampaign] = useState<CampaignDetail | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isWorking, setIsWorking] = useState(false);
+  const baseUrl = `/api/campaigns/${campaignId}`;
+
+  // Every change answers with the updated campaign
+  const run = useCallback(async (operation: () => Promise<{ campaign?: CampaignDetail }>) => {
+    setIsWorking(true);
+    setError(null);
+    try {
+      const data = await operation();
+      if (data.campaign) {
+        setCampaign(data.campaign);
+      }
+      return true;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Something went wrong');
+      return false;
+    } finally {
+      setIsWorking(false);
+    }
+  }, []);
+
+  const loadCampaign = useCallback(() => run(() => requestCampaignApi(baseUrl)), [run, baseUrl]);
+
+  useEffect(() => {
+    loadCampaign();
+  }, [loadCampaign]);
+
+  const updateCampaign = (update: CampaignUpdate) =>
+    run(() => requestCampaignApi(baseUrl, jsonRequest('PUT', update)));
+
+  const deleteCampaign = () =>
+    run(() => requestCampaignApi(baseUrl, { method: 'DELETE' }));
+
+  const addSession = (session: CampaignSessionDraft) =>
+    run(() => requestCampaignApi(`${baseUrl}/sessions`, jsonRequest('POST', session)));
+
+  const deleteSession = (sessionId: string) =>
+    run(() => requestCampaignApi(`${baseUrl}/sessions/${sessionId}`, { method: 'DELETE' }));
+
+  return {
+    campaign,
+    error,
+    isWorking,
+    loadCampaign,
+    updateCampaign,
+    deleteCampaign,
+    addSession,
+    deleteSession,
+  };
+}
@@ -0,0 +1,98 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import type { CampaignSummary } from '@/lib/services/CampaignService';
+import type { CampaignCreate, CampaignStatus } from '@/lib/validations/campaign';
+import type { PaginationInfo } from '@/lib/validations/party';
+
+interface UseCampaignsParams {
+  searchQuery: string;
+  status?: CampaignStatus;
+  limit?: number;
+}
+
+interface UseCampaignsReturn {
+  campaigns: CampaignSummary[];
+  pagination: PaginationInfo | null;
+  isLoading: boolean;
+  error: string | null;
+  goToPage: (_page: number) => void;
+  refetch: () => void;
+  createCampaign: (_data: Partial<CampaignCreate>) => Promise<CampaignSummary>;
+}
+
+async function requestCampaignsApi(url: string, init?: RequestInit) {
+  const response = await fetch(url, init);
+  const data = await response.json();
+
+  if (!response.ok || !data.success) {
+    throw new Error(data.message || 'Campaign request failed');
+  }
+
+  return data;
+}
+
+/**
+ * Hook for the user's campaign list and creating new campaigns
+ */
+export function useCampaigns({ searchQuery, status, limit = 20 }: UseCampaignsParams): UseCampaignsReturn {
+  const [campaigns, setCampaigns] = useState<CampaignSummary[]>([]);
+  const [pagination, setPagination] = useState<PaginationInfo | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [currentPage, setCurrentPage] = useState(1);
+
+  const fetchCampaigns = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const queryParams = new URLSearchParams({ page: currentPage.toString(), limit: limit.toString() });
+      if (searchQuery.trim()) {
+        queryParams.set('search', searchQuery.trim());
+      }
+      if (status) {
+        queryParams.set('status', status);
+      }
+
+      const data = await requestCampaignsApi(`/api/campaigns?${queryParams.toString()}`);
+      setCampaigns(data.campaigns || []);
+      setPagination(data.pagination || null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred while fetching campaigns');
+      setCampaigns([]);
+      setPagination(null);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [searchQuery, status, currentPage, limit]);
+
+  useEffect(() => {
+    fetchCampaigns();
+  }, [fetchCampaigns]);
+
+  // Reset to page 1 when filters change
+  useEffect(() => {
+    setCurrentPage(1);
+  }, [searchQuery, status]);
+
+  const createCampaign = async (data: Partial<CampaignCreate>): Promise<CampaignSummary> => {
+    const result = await requestCampaignsApi('/api/campaigns', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(data),
+    });
+    await fetchCampaigns();
+    return result.campaign;
+  };
+
+  return {
+    campaigns,
+    pagination,
+    isLoading,
+    error,
+    goToPage: setCurrentPage,
+    refetch: fetchCampaigns,
+    createCampaign,
+  };
+}
@@ -1,6 +1,7 @@
 import React from 'react';
 import { Input } from '@/components/ui/input';
 import { CHARACTER_CLASSES, CHARACTER_RACES, SORT_OPTIONS, type SortOption } from './constants';
+import type { CampaignFilterOption } from './types';
 
 interface CharacterFiltersProps {
   searchTerm: string;
@@ -11,6 +12,9 @@ interface CharacterFiltersProps {
   onClassFilterChange: (_value: string) => void;
   onRaceFilterChange: (_value: string) => void;
   onSortChange: (_value: SortOption) => void;
+  campaigns?: CampaignFilterOption[];
+  campaignFilter?: string;
+  onCampaignFilterChange?: (_value: string) => void;
 }
 
 export function CharacterFilters({
@@ -22,6 +26,9 @@ export function CharacterFilters({
   onClassFilterChange,
   onRaceFilterChange,
   onSortChange,
+  campaigns = [],
+  campaignFilter = '',
+  onCampaignFilterChange,
 }: CharacterFiltersProps) {
   return (
     <div className="flex flex-col space-y-2 sm:flex-row sm:items-center sm:space-y-0 sm:space-x-4">
@@ -58,6 +65,22 @@ export function CharacterFilters({
         ))}
       </select>
 
+      {campaigns.length > 0 && onCampaignFilterChange && (
+        <select
+          aria-label="Filter by campaign"
+          className="h-9 rounded-md border border-input bg-background px-3 py-1 text-sm"
+          value={campaignFilter}
+          onChange={(e) => onCampaignFilterChange(e.target.value)}
+        >
+          <option value="">All Campaigns</option>
+          {campaigns.map((campaign) => (
+            <option key={campaign.id} value={campaign.id}>
+              {campaign.name}
+            </option>
+          ))}
+        </select>
+      )}
+
       <select
         aria-label="Sort by"
         className="h-9 rounded-md border border-input bg-background px-3 py-1 text-sm"
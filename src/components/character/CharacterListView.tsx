@@ -13,6 +13,7 @@ import { Pagination } from './Pagination';
 import { useCharacterData } from './hooks/useCharacterData';
 import { useCharacterFilters } from './hooks/useCharacterFilters';
 import { useCharacterSelection } from './hooks/useCharacterSelection';
+import { useCampaignOptions } from '@/lib/hooks/useCampaignOptions';
 import type { ViewMode } from './constants';
 
 export interface CharacterListViewProps {
@@ -45,17 +46,20 @@ export function CharacterListView({
   } = useCharacterData(userId);
 
   // Filtering and sorting
+  const campaigns = useCampaignOptions();
   const {
     searchTerm,
     classFilter,
     raceFilter,
+    campaignFilter,
     sortBy,
     setSearchTerm,
     setClassFilter,
     setRaceFilter,
+    setCampaignFilter,
     setSortBy,
     processedCharacters,
-  } = useCharacterFilters(charactersData?.items || []);
+  } = useCharacterFilters(charactersData?.items || [], campaigns);
 
   // Selection management
   const {
@@ -102,6 +106,9 @@ export function CharacterListView({
           onClassFilterChange={setClassFilter}
           onRaceFilterChange={setRaceFilter}
           onSortChange={setSortBy}
+          campaigns={campaigns}
+          campaignFilter={campaignFilter}
+          onCampaignFilterChange={setCampaignFilter}
         />
 
         {/* View Controls */}
@@ -5,7 +5,7 @@ import { Alert, AlertDescription } from '@/components/ui/alert';
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from '@/components/ui/dialog';
 import { Badge } from '@/components/ui/badge';
 import { Loader2, RotateCcw, Clock, AlertTriangle } from 'lucide-react';
-import { CharacterService } from '@/lib/services/CharacterService';
+import { CharacterService, type CharacterVersion } from '@/lib/services/CharacterService';
 
 interface CharacterVersionHistoryProps {
   characterId: string;
@@ -13,14 +13,6 @@ interface CharacterVersionHistoryProps {
 }
 
 
-interface CharacterVersion {
-  id: string;
-  timestamp: Date;
-  changes: Record<string, { from: any; to: any }>;
-  changeDescription: string;
-  userId: string;
-}
-
 export function CharacterVersionHistory({ characterId, userId }: CharacterVersionHistoryProps) {
   const [versions, setVersions] = useState<CharacterVersion[]>([]);
   const [loading, setLoading] = useState(true);
@@ -83,12 +75,13 @@ export function CharacterVersionHistory({ characterId, userId }: CharacterVersio
     }
   };
 
-  const formatChangeDetail = (field: string, change: { from: any; to: any }) => {
-    const formatValue = (value: any) => {
-      if (typeof value === 'string' && value.length > 50) {
-        return value.substring(0, 50) + '...';
+  const formatChangeDetail = (field: string, change: { from?: unknown; to?: unknown }) => {
+    const formatValue = (value: unknown) => {
+      const text = typeof value === 'object' && value !== null ? JSON.stringify(value) : String(value ?? '—');
+      if (text.length > 50) {
+        return text.substring(0, 50) + '...';
       }
-      return String(value);
+      return text;
     };
 
     return `${field}: ${formatValue(change.from)} → ${formatValue(change.to)}`;
@@ -133,6 +126,7 @@ export function CharacterVersionHistory({ characterId, userId }: CharacterVersio
               <div className="flex items-center justify-between">
                 <CardTitle className="text-base">{version.changeDescription}</CardTitle>
                 <div className="flex items-center gap-2">
+                  <Badge variant="secondary" className="text-xs">v{version.revision}</Badge>
                   <Badge variant="outline" className="text-xs">
                     {new Date(version.timestamp).toLocaleString()}
                   </Badge>
@@ -189,7 +183,7 @@ export function CharacterVersionHistory({ characterId, userId }: CharacterVersio
               </div>
             )}
             <p className="mt-4 text-sm text-muted-foreground">
-              This action cannot be undone and will create a new version entry.
+              The revert is recorded as a new version, so it can be reverted later as well.
             </p>
           </div>
           <DialogFooter>
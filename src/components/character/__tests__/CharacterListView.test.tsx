@@ -18,6 +18,12 @@ import {
 jest.mock('@/lib/services/CharacterServiceClient');
 const mockCharacterService = CharacterServiceClient as jest.Mocked<typeof CharacterServiceClient>;
 
+// Mock the campaign filter options
+const mockCampaignOptions = jest.fn();
+jest.mock('@/lib/hooks/useCampaignOptions', () => ({
+  useCampaignOptions: () => mockCampaignOptions(),
+}));
+
 // Mock next/navigation
 const mockPush = jest.fn();
 jest.mock('next/navigation', () => ({
@@ -37,6 +43,7 @@ describe('CharacterListView', () => {
 
   beforeEach(() => {
     jest.clearAllMocks();
+    mockCampaignOptions.mockReturnValue([]);
     mockCharacterService.getCharactersByOwner.mockResolvedValue(
       createMockPaginatedResponse()
     );
@@ -128,6 +135,32 @@ describe('CharacterListView', () => {
         ['Legolas', 'Gimli']
       );
     });
+
+    it('should filter characters by campaign party', async () => {
+      mockCampaignOptions.mockReturnValue([
+        { id: 'campaign1', name: 'Curse of the Drowned King', partyIds: ['party1'] },
+      ]);
+      mockCharacterService.getCharactersByOwner.mockResolvedValue(
+        createMockPaginatedResponse([
+          { ...mockCharacters[0], partyId: 'party1' },
+          { ...mockCharacters[1], partyId: 'party2' },
+          mockCharacters[2],
+        ])
+      );
+
+      await testFilterOperation(
+        defaultProps,
+        'filter by campaign',
+        'campaign1',
+        ['Aragorn'],
+        ['Legolas', 'Gimli']
+      );
+    });
+
+    it('should not show the campaign filter without campaigns', async () => {
+      await renderCharacterListAndWait(defaultProps);
+      expect(screen.queryByLabelText('Filter by campaign')).not.toBeInTheDocument();
+    });
   });
 
   describe('Sorting', () => {
@@ -2,40 +2,50 @@ import { useState, useMemo } from 'react';
 import type { Character } from '@/lib/validations/character';
 import { filterCharacters, sortCharacters } from '../utils';
 import type { SortOption } from '../constants';
+import type { CampaignFilterOption } from '../types';
 
 interface UseCharacterFiltersResult {
   searchTerm: string;
   classFilter: string;
   raceFilter: string;
+  campaignFilter: string;
   sortBy: SortOption;
   setSearchTerm: (_term: string) => void;
   setClassFilter: (_filter: string) => void;
   setRaceFilter: (_filter: string) => void;
+  setCampaignFilter: (_filter: string) => void;
   setSortBy: (_sort: SortOption) => void;
   processedCharacters: Character[];
 }
 
-export function useCharacterFilters(characters: Character[]): UseCharacterFiltersResult {
+export function useCharacterFilters(
+  characters: Character[],
+  campaigns: CampaignFilterOption[] = []
+): UseCharacterFiltersResult {
   const [searchTerm, setSearchTerm] = useState('');
   const [classFilter, setClassFilter] = useState('');
   const [raceFilter, setRaceFilter] = useState('');
+  const [campaignFilter, setCampaignFilter] = useState('');
   const [sortBy, setSortBy] = useState<SortOption>('name-asc');
 
   const processedCharacters = useMemo(() => {
     if (!characters) return [];
 
-    const filtered = filterCharacters(characters, searchTerm, classFilter, raceFilter);
+    const campaign = campaigns.find(option => option.id === campaignFilter);
+    const filtered = filterCharacters(characters, searchTerm, classFilter, raceFilter, campaign?.partyIds);
     return sortCharacters(filtered, sortBy);
-  }, [characters, searchTerm, classFilter, raceFilter, sortBy]);
+  }, [characters, campaigns, searchTerm, classFilter, raceFilter, campaignFilter, sortBy]);
 
   return {
     searchTerm,
     classFilter,
     raceFilter,
+    campaignFilter,
     sortBy,
     setSearchTerm,
     setClassFilter,
     setRaceFilter,
+    setCampaignFilter,
     setSortBy,
     processedCharacters,
   };
@@ -18,4 +18,10 @@ export interface CharacterDisplayProps extends CharacterActions, SelectionProps
 
 export interface CharacterTableProps extends CharacterDisplayProps {
   onSelectAll: (_selected: boolean) => void;
-}
\ No newline at end of file
+}
+// A campaign as a character list filter; characters match through its parties
+export interface CampaignFilterOption {
+  id: string;
+  name: string;
+  partyIds: string[];
+}
@@ -64,13 +64,21 @@ const filterByRace = (characters: Character[], raceFilter: string): Character[]
   return characters.filter((char: Character) => char.race === raceFilter);
 };
 
+// Characters belong to a campaign through the parties playing it
+const filterByParties = (characters: Character[], partyIds?: string[]): Character[] => {
+  if (!partyIds) return characters;
+  return characters.filter((char: Character) => !!char.partyId && partyIds.includes(char.partyId));
+};
+
 export const filterCharacters = (
   characters: Character[],
   searchTerm: string,
   classFilter: string,
-  raceFilter: string
+  raceFilter: string,
+  partyIds?: string[]
 ): Character[] => {
   let filtered = filterBySearch(characters, searchTerm);
   filtered = filterByClass(filtered, classFilter);
-  return filterByRace(filtered, raceFilter);
+  filtered = filterByRace(filtered, raceFilter);
+  return filterByParties(filtered, partyIds);
 };
\ No newline at end of file
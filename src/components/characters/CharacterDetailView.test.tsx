@@ -99,6 +99,35 @@ describe('CharacterDetailView', () => {
     ]);
   });
 
+  it('should render derived stats and spellcasting in stats section', async () => {
+    const user = setupUserEvent();
+    const testCharacter = createBasicTestCharacter({
+      classes: [{ class: 'wizard', level: 3, hitDie: 6 }],
+      abilityScores: {
+        strength: 10,
+        dexterity: 14,
+        constitution: 12,
+        intelligence: 16,
+        wisdom: 12,
+        charisma: 8,
+      },
+      proficiencyBonus: 2,
+      experiencePoints: 1200,
+      equipment: [],
+    });
+
+    renderCharacterDetailView(testCharacter);
+
+    await testTabNavigation(user, 'Stats', [
+      'Passive Perception',
+      '0 / 150 lb',
+      '1,500 XP to level 4',
+      'DC 13 • +5 to hit',
+      '1st: 4',
+      '2nd: 2',
+    ]);
+  });
+
   it('should render spells grouped by level', async () => {
     const user = setupUserEvent();
     const testCharacter = createCharacterWithSpells(['fireball', 'magicMissile', 'shield']);
@@ -11,9 +11,10 @@ interface CharacterDetailViewProps {
   character: Character;
   onEdit: (_character: Character) => void;
   onShare: (_character: Character) => void;
+  onLevelUp?: (_character: Character) => void;
 }
 
-export default function CharacterDetailView({ character, onEdit, onShare }: CharacterDetailViewProps) {
+export default function CharacterDetailView({ character, onEdit, onShare, onLevelUp }: CharacterDetailViewProps) {
   const [activeTab, setActiveTab] = useState('overview');
 
   return (
@@ -28,7 +29,7 @@ export default function CharacterDetailView({ character, onEdit, onShare }: Char
         </TabsList>
 
         <TabsContent value="overview" className="mt-6">
-          <CharacterOverview character={character} onEdit={onEdit} onShare={onShare} />
+          <CharacterOverview character={character} onEdit={onEdit} onShare={onShare} onLevelUp={onLevelUp} />
         </TabsContent>
 
         <TabsContent value="stats" className="mt-6">
@@ -3,15 +3,16 @@ import type { Character } from '@/lib/validations/character';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
-import { Edit, Share2, Heart, Shield, Zap } from 'lucide-react';
+import { Edit, Share2, Heart, Shield, Zap, TrendingUp } from 'lucide-react';
 
 interface CharacterOverviewProps {
   character: Character;
   onEdit: (_character: Character) => void;
   onShare: (_character: Character) => void;
+  onLevelUp?: (_character: Character) => void;
 }
 
-export function CharacterOverview({ character, onEdit, onShare }: CharacterOverviewProps) {
+export function CharacterOverview({ character, onEdit, onShare, onLevelUp }: CharacterOverviewProps) {
   return (
     <div className="space-y-6">
       {/* Character Header */}
@@ -23,6 +24,12 @@ export function CharacterOverview({ character, onEdit, onShare }: CharacterOverv
           </p>
         </div>
         <div className="flex gap-2">
+          {onLevelUp && (
+            <Button onClick={() => onLevelUp(character)} variant="outline" size="sm">
+              <TrendingUp className="h-4 w-4 mr-2" />
+              Level Up
+            </Button>
+          )}
           <Button onClick={() => onEdit(character)} variant="outline" size="sm">
             <Edit className="h-4 w-4 mr-2" />
             Edit Character
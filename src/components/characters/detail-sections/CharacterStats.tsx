@@ -1,6 +1,7 @@
 import React from 'react';
 import type { Character } from '@/lib/validations/character';
 import { AbilityScoresDisplay } from './AbilityScoresDisplay';
+import { DerivedStatsDisplay } from './DerivedStatsDisplay';
 import { SavingThrowsDisplay } from './SavingThrowsDisplay';
 import { SkillsDisplay } from './SkillsDisplay';
 
@@ -12,6 +13,7 @@ export function CharacterStats({ character }: CharacterStatsProps) {
   return (
     <div className="space-y-6">
       <AbilityScoresDisplay character={character} />
+      <DerivedStatsDisplay character={character} />
       <SavingThrowsDisplay character={character} />
       <SkillsDisplay character={character} />
     </div>
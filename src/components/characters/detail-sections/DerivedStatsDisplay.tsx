@@ -0,0 +1,131 @@
+import React from 'react';
+import type { Character } from '@/lib/validations/character';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Progress } from '@/components/ui/progress';
+import {
+  calculateArmorClass,
+  calculateCarryingCapacity,
+  calculateExperienceInfo,
+  calculatePassivePerception,
+  calculateSpellcasting,
+  type EncumbranceLevel,
+} from '@/lib/utils/character-stats';
+import { formatBonus, getOrdinalSuffix } from './character-utils';
+
+interface DerivedStatsDisplayProps {
+  character: Character;
+}
+
+const ENCUMBRANCE_LABELS: Record<EncumbranceLevel, string> = {
+  none: 'Unencumbered',
+  light: 'Encumbered',
+  heavy: 'Heavily encumbered',
+  overloaded: 'Over capacity',
+};
+
+const StatItem = ({ label, value, detail }: { label: string; value: React.ReactNode; detail?: string }) => (
+  <div>
+    <div className="text-sm text-muted-foreground">{label}</div>
+    <div className="text-2xl font-bold">{value}</div>
+    {detail && <div className="text-xs text-muted-foreground">{detail}</div>}
+  </div>
+);
+
+const formatSpellLevel = (level: number): string => `${level}${getOrdinalSuffix(level)}`;
+
+const capitalize = (value: string): string => value.charAt(0).toUpperCase() + value.slice(1);
+
+function SpellcastingCard({ character }: DerivedStatsDisplayProps) {
+  const spellcasting = calculateSpellcasting(character);
+  if (spellcasting.classes.length === 0) return null;
+
+  const slots = Object.entries(spellcasting.spellSlots);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Spellcasting</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          {spellcasting.classes.map(entry => (
+            <div key={entry.class} className="flex justify-between">
+              <span>{capitalize(entry.class)} ({capitalize(entry.ability)})</span>
+              <span className="font-medium">
+                DC {entry.spellSaveDC} • {formatBonus(entry.spellAttackBonus)} to hit
+              </span>
+            </div>
+          ))}
+        </div>
+        {slots.length > 0 && (
+          <div>
+            <div className="text-sm text-muted-foreground mb-2">
+              Spell Slots (caster level {spellcasting.casterLevel})
+            </div>
+            <div className="flex flex-wrap gap-2">
+              {slots.map(([level, count]) => (
+                <Badge key={level} variant="secondary">
+                  {formatSpellLevel(Number(level))}: {count}
+                </Badge>
+              ))}
+            </div>
+          </div>
+        )}
+        {spellcasting.pactMagic && (
+          <div className="text-sm">
+            Pact Magic: {spellcasting.pactMagic.slots} × {formatSpellLevel(spellcasting.pactMagic.slotLevel)}-level slots
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+export function DerivedStatsDisplay({ character }: DerivedStatsDisplayProps) {
+  const armorClass = calculateArmorClass(character);
+  const passivePerception = calculatePassivePerception(character);
+  const carrying = calculateCarryingCapacity(character, 'variant');
+  const experience = calculateExperienceInfo(character);
+  const experienceProgress = experience.isMaxLevel
+    ? 100
+    : Math.min((experience.currentXP / experience.nextLevelXP) * 100, 100);
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle>Derived Stats</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+            <StatItem
+              label="AC from Equipment"
+              value={armorClass.value}
+              detail={armorClass.armor ?? (armorClass.source === 'unarmored defense' ? 'Unarmored Defense' : 'Unarmored')}
+            />
+            <StatItem label="Passive Perception" value={passivePerception} />
+            <StatItem
+              label="Carrying"
+              value={`${carrying.current} / ${carrying.maximum} lb`}
+              detail={ENCUMBRANCE_LABELS[carrying.encumbranceLevel]}
+            />
+            <StatItem
+              label="Experience"
+              value={`${experience.currentXP.toLocaleString()} XP`}
+              detail={experience.isMaxLevel
+                ? 'Maximum level'
+                : `${experience.xpToNextLevel.toLocaleString()} XP to level ${experience.currentLevel + 1}`}
+            />
+          </div>
+          <Progress
+            value={experienceProgress}
+            className="h-2 mt-4"
+            aria-label="Experience toward next level"
+          />
+        </CardContent>
+      </Card>
+      <SpellcastingCard character={character} />
+    </div>
+  );
+}
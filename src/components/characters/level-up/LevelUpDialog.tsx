@@ -0,0 +1,249 @@
+import React, { useEffect } from 'react';
+import type { Character } from '@/lib/validations/character';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Loader2 } from 'lucide-react';
+import type { LevelUpClassOption, LevelUpSummary } from '@/lib/services/CharacterServiceLevelUp';
+import type { AbilityName } from '@/lib/utils/character-stats';
+import { useLevelUp, type LevelUpDraft } from './useLevelUp';
+
+interface LevelUpDialogProps {
+  character: Character;
+  open: boolean;
+  onOpenChange: (_open: boolean) => void;
+  onLevelUp: (_character: Character) => void;
+}
+
+const ABILITIES: AbilityName[] = ['strength', 'dexterity', 'constitution', 'intelligence', 'wisdom', 'charisma'];
+
+const SELECT_CLASS_NAME = 'h-9 w-full rounded-md border border-input bg-background px-3 py-1 text-sm';
+
+const capitalize = (value: string): string => value.charAt(0).toUpperCase() + value.slice(1);
+
+const ClassOption = ({ option, onSelect }: { option: LevelUpClassOption; onSelect: () => void }) => (
+  <button
+    type="button"
+    onClick={onSelect}
+    disabled={!option.eligible}
+    className="w-full text-left p-3 rounded border hover:bg-muted disabled:opacity-50 disabled:hover:bg-transparent"
+  >
+    <div className="flex items-center justify-between">
+      <span className="font-medium">
+        {capitalize(option.class)} {option.newLevel}
+      </span>
+      <div className="flex gap-1">
+        {option.isNewClass && <Badge variant="outline">Multiclass</Badge>}
+        {option.grantsAbilityScoreImprovement && <Badge variant="secondary">ASI / Feat</Badge>}
+        {option.unlocksSubclass && <Badge variant="secondary">Subclass</Badge>}
+      </div>
+    </div>
+    {option.reason && <div className="text-xs text-muted-foreground mt-1">{option.reason}</div>}
+  </button>
+);
+
+const AbilitySelect = ({
+  id,
+  label,
+  value,
+  onChange,
+}: {
+  id: string;
+  label: string;
+  value: AbilityName;
+  onChange: (_ability: AbilityName) => void;
+}) => (
+  <div className="space-y-1">
+    <Label htmlFor={id}>{label}</Label>
+    <select id={id} className={SELECT_CLASS_NAME} value={value} onChange={(e) => onChange(e.target.value as AbilityName)}>
+      {ABILITIES.map(ability => (
+        <option key={ability} value={ability}>{capitalize(ability)}</option>
+      ))}
+    </select>
+  </div>
+);
+
+const ChoicesStep = ({
+  option,
+  averageHitPoints,
+  draft,
+  onChange,
+}: {
+  option: LevelUpClassOption;
+  averageHitPoints: number;
+  draft: LevelUpDraft;
+  onChange: (_changes: Partial<LevelUpDraft>) => void;
+}) => (
+  <div className="space-y-4">
+    <div className="space-y-2">
+      <Label htmlFor="hitPointMethod">Hit points (d{option.hitDie})</Label>
+      <select
+        id="hitPointMethod"
+        className={SELECT_CLASS_NAME}
+        value={draft.hitPointMethod}
+        onChange={(e) => onChange({ hitPointMethod: e.target.value as LevelUpDraft['hitPointMethod'] })}
+      >
+        <option value="average">Take the average ({averageHitPoints} HP)</option>
+        <option value="roll">Roll the hit die</option>
+      </select>
+      {draft.hitPointMethod === 'roll' && (
+        <Input
+          aria-label="Hit die roll"
+          type="number"
+          min={1}
+          max={option.hitDie}
+          placeholder="Leave empty to roll automatically"
+          value={draft.hitPointRoll}
+          onChange={(e) => onChange({ hitPointRoll: e.target.value })}
+        />
+      )}
+    </div>
+
+    {option.unlocksSubclass && (
+      <div className="space-y-2">
+        <Label htmlFor="subclass">Subclass</Label>
+        <Input
+          id="subclass"
+          value={draft.subclass}
+          onChange={(e) => onChange({ subclass: e.target.value })}
+        />
+      </div>
+    )}
+
+    {option.grantsAbilityScoreImprovement && (
+      <div className="space-y-2">
+        <Label htmlFor="improvement">Ability Score Improvement</Label>
+        <select
+          id="improvement"
+          className={SELECT_CLASS_NAME}
+          value={draft.improvement}
+          onChange={(e) => onChange({ improvement: e.target.value as LevelUpDraft['improvement'] })}
+        >
+          <option value="abilities">Increase ability scores</option>
+          <option value="feat">Take a feat</option>
+        </select>
+        {draft.improvement === 'abilities' ? (
+          <div className="grid grid-cols-2 gap-2">
+            <AbilitySelect
+              id="firstAbility"
+              label="First +1"
+              value={draft.firstAbility}
+              onChange={(firstAbility) => onChange({ firstAbility })}
+            />
+            <AbilitySelect
+              id="secondAbility"
+              label="Second +1"
+              value={draft.secondAbility}
+              onChange={(secondAbility) => onChange({ secondAbility })}
+            />
+          </div>
+        ) : (
+          <Input
+            aria-label="Feat"
+            placeholder="Feat name"
+            value={draft.feat}
+            onChange={(e) => onChange({ feat: e.target.value })}
+          />
+        )}
+      </div>
+    )}
+  </div>
+);
+
+const SummaryStep = ({ summary }: { summary: LevelUpSummary }) => (
+  <div className="space-y-2">
+    <p className="font-medium">
+      {capitalize(summary.class)} {summary.classLevel} — character level {summary.totalLevel}
+    </p>
+    <ul className="text-sm space-y-1">
+      <li>
+        +{summary.hitPointIncrease} hit points
+        {summary.hitPointRoll !== undefined && ` (rolled ${summary.hitPointRoll})`}
+      </li>
+      <li>Proficiency bonus +{summary.proficiencyBonus}</li>
+      {summary.subclass && <li>Subclass: {summary.subclass}</li>}
+      {summary.feat && <li>Feat: {summary.feat}</li>}
+      {summary.abilityScoreIncreases && Object.entries(summary.abilityScoreIncreases).map(([ability, increase]) => (
+        <li key={ability}>{capitalize(ability)} +{increase}</li>
+      ))}
+    </ul>
+  </div>
+);
+
+export function LevelUpDialog({ character, open, onOpenChange, onLevelUp }: LevelUpDialogProps) {
+  const levelUp = useLevelUp(character._id?.toString() ?? '', onLevelUp);
+  const { loadOptions } = levelUp;
+
+  useEffect(() => {
+    if (open) {
+      loadOptions();
+    }
+  }, [open, loadOptions]);
+
+  const title = levelUp.options ? `Level Up to ${levelUp.options.newLevel}` : 'Level Up';
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent data-testid="level-up-dialog">
+        <DialogHeader>
+          <DialogTitle>{title}</DialogTitle>
+        </DialogHeader>
+
+        {levelUp.error && (
+          <Alert variant="destructive">
+            <AlertDescription>{levelUp.error}</AlertDescription>
+          </Alert>
+        )}
+
+        {!levelUp.options && levelUp.isWorking && (
+          <div className="flex justify-center p-4">
+            <Loader2 className="h-6 w-6 animate-spin" />
+          </div>
+        )}
+
+        {levelUp.options && levelUp.step === 'class' && (
+          <div className="space-y-2 max-h-96 overflow-y-auto">
+            {[...levelUp.options.classes]
+              .sort((a, b) => Number(a.isNewClass) - Number(b.isNewClass))
+              .map(option => (
+                <ClassOption key={option.class} option={option} onSelect={() => levelUp.selectClass(option.class)} />
+              ))}
+          </div>
+        )}
+
+        {levelUp.options && levelUp.step === 'choices' && levelUp.selectedOption && (
+          <ChoicesStep
+            option={levelUp.selectedOption}
+            averageHitPoints={levelUp.options.averageHitPoints[levelUp.selectedOption.class]}
+            draft={levelUp.draft}
+            onChange={levelUp.updateDraft}
+          />
+        )}
+
+        {levelUp.step === 'done' && levelUp.summary && <SummaryStep summary={levelUp.summary} />}
+
+        <DialogFooter>
+          {levelUp.step === 'choices' && (
+            <>
+              <Button variant="outline" onClick={levelUp.back} disabled={levelUp.isWorking}>
+                Back
+              </Button>
+              <Button onClick={levelUp.confirm} disabled={!levelUp.canConfirm || levelUp.isWorking}>
+                {levelUp.isWorking && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                Confirm Level Up
+              </Button>
+            </>
+          )}
+          {levelUp.step !== 'choices' && (
+            <Button variant="outline" onClick={() => onOpenChange(false)}>
+              {levelUp.step === 'done' ? 'Done' : 'Cancel'}
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
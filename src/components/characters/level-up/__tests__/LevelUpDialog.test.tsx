@@ -0,0 +1,115 @@
+/**
+ * @jest-environment jsdom
+ */
+import { render, screen, waitFor } from '@testing-library/react';
+import { LevelUpDialog } from '../LevelUpDialog';
+import { createBasicTestCharacter, setupUserEvent } from '../../__tests__/shared-test-utils';
+
+const mockFetch = jest.fn();
+global.fetch = mockFetch;
+
+const jsonResponse = (body: unknown, ok = true) => ({ ok, json: async () => body });
+
+const options = {
+  currentLevel: 3,
+  newLevel: 4,
+  proficiencyBonus: 2,
+  averageHitPoints: { fighter: 8, cleric: 7, wizard: 6 },
+  classes: [
+    {
+      class: 'fighter',
+      currentLevel: 3,
+      newLevel: 4,
+      hitDie: 10,
+      isNewClass: false,
+      eligible: true,
+      grantsAbilityScoreImprovement: true,
+      unlocksSubclass: false,
+    },
+    {
+      class: 'wizard',
+      currentLevel: 0,
+      newLevel: 1,
+      hitDie: 6,
+      isNewClass: true,
+      eligible: false,
+      reason: 'wizard requires Intelligence 13',
+      grantsAbilityScoreImprovement: false,
+      unlocksSubclass: false,
+    },
+  ],
+};
+
+describe('LevelUpDialog', () => {
+  const character = createBasicTestCharacter({
+    _id: '507f1f77bcf86cd799439011',
+    classes: [{ class: 'fighter', level: 3, hitDie: 10, subclass: 'Champion' }],
+  });
+  const onLevelUp = jest.fn();
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  const renderDialog = () =>
+    render(<LevelUpDialog character={character} open onOpenChange={jest.fn()} onLevelUp={onLevelUp} />);
+
+  it('lists classes and explains why a class is unavailable', async () => {
+    mockFetch.mockResolvedValueOnce(jsonResponse({ success: true, data: options }));
+
+    renderDialog();
+
+    expect(await screen.findByText('Level Up to 4')).toBeInTheDocument();
+    expect(screen.getByText('wizard requires Intelligence 13')).toBeInTheDocument();
+    expect(screen.getByRole('button', { name: /Wizard 1/ })).toBeDisabled();
+    expect(mockFetch).toHaveBeenCalledWith('/api/characters/507f1f77bcf86cd799439011/level-up');
+  });
+
+  it('submits the chosen class and ability score increases', async () => {
+    const user = setupUserEvent();
+    const updated = { ...character, classes: [{ class: 'fighter', level: 4, hitDie: 10 }] };
+    mockFetch
+      .mockResolvedValueOnce(jsonResponse({ success: true, data: options }))
+      .mockResolvedValueOnce(jsonResponse({
+        success: true,
+        data: {
+          character: updated,
+          summary: {
+            class: 'fighter',
+            classLevel: 4,
+            totalLevel: 4,
+            hitDie: 10,
+            hitPointIncrease: 8,
+            proficiencyBonus: 2,
+            abilityScoreIncreases: { strength: 1, constitution: 1 },
+          },
+        },
+      }));
+
+    renderDialog();
+    await user.click(await screen.findByRole('button', { name: /Fighter 4/ }));
+    await user.selectOptions(screen.getByLabelText('Second +1'), 'constitution');
+    await user.click(screen.getByRole('button', { name: 'Confirm Level Up' }));
+
+    await waitFor(() => expect(onLevelUp).toHaveBeenCalledWith(updated));
+    expect(JSON.parse(mockFetch.mock.calls[1][1].body)).toEqual({
+      class: 'fighter',
+      hitPointMethod: 'average',
+      abilityScoreIncreases: { strength: 1, constitution: 1 },
+    });
+    expect(screen.getByText('+8 hit points')).toBeInTheDocument();
+  });
+
+  it('requires a feat name before confirming a feat', async () => {
+    const user = setupUserEvent();
+    mockFetch.mockResolvedValueOnce(jsonResponse({ success: true, data: options }));
+
+    renderDialog();
+    await user.click(await screen.findByRole('button', { name: /Fighter 4/ }));
+    await user.selectOptions(screen.getByLabelText('Ability Score Improvement'), 'feat');
+
+    expect(screen.getByRole('button', { name: 'Confirm Level Up' })).toBeDisabled();
+    await user.type(screen.getByLabelText('Feat'), 'Alert');
+    expect(screen.getByRole('button', { name: 'Confirm Level Up' })).toBeEnabled();
+  });
+});
@@ -0,0 +1,143 @@
+import { useCallback, useState } from 'react';
+import type { Character } from '@/lib/validations/character';
+import type { LevelUpOptions, LevelUpSummary } from '@/lib/services/CharacterServiceLevelUp';
+import type { AbilityName } from '@/lib/utils/character-stats';
+import type { HitPointMethod } from '@/lib/utils/level-up';
+
+export type LevelUpStep = 'class' | 'choices' | 'done';
+
+export type ImprovementType = 'abilities' | 'feat';
+
+export interface LevelUpDraft {
+  class: string;
+  hitPointMethod: HitPointMethod;
+  hitPointRoll: string;
+  subclass: string;
+  improvement: ImprovementType;
+  firstAbility: AbilityName;
+  secondAbility: AbilityName;
+  feat: string;
+}
+
+const INITIAL_DRAFT: LevelUpDraft = {
+  class: '',
+  hitPointMethod: 'average',
+  hitPointRoll: '',
+  subclass: '',
+  improvement: 'abilities',
+  firstAbility: 'strength',
+  secondAbility: 'strength',
+  feat: '',
+};
+
+/**
+ * Request body for the draft; two picks of the same ability give it +2
+ */
+const toLevelUpBody = (draft: LevelUpDraft, grantsImprovement: boolean, unlocksSubclass: boolean) => {
+  const increases: Partial<Record<AbilityName, number>> = {};
+  increases[draft.firstAbility] = 1;
+  increases[draft.secondAbility] = (increases[draft.secondAbility] ?? 0) + 1;
+
+  return {
+    class: draft.class,
+    hitPointMethod: draft.hitPointMethod,
+    ...(draft.hitPointMethod === 'roll' && draft.hitPointRoll && { hitPointRoll: Number(draft.hitPointRoll) }),
+    ...(unlocksSubclass && { subclass: draft.subclass.trim() }),
+    ...(grantsImprovement && draft.improvement === 'abilities' && { abilityScoreIncreases: increases }),
+    ...(grantsImprovement && draft.improvement === 'feat' && { feat: draft.feat.trim() }),
+  };
+};
+
+export function useLevelUp(characterId: string, onLevelUp: (_character: Character) => void) {
+  const [options, setOptions] = useState<LevelUpOptions | null>(null);
+  const [step, setStep] = useState<LevelUpStep>('class');
+  const [draft, setDraft] = useState<LevelUpDraft>(INITIAL_DRAFT);
+  const [summary, setSummary] = useState<LevelUpSummary | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isWorking, setIsWorking] = useState(false);
+
+  const selectedOption = options?.classes.find(option => option.class === draft.class) ?? null;
+
+  const run = async (operation: () => Promise<void>) => {
+    setIsWorking(true);
+    setError(null);
+    try {
+      await operation();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Something went wrong');
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const loadOptions = useCallback(async () => {
+    setStep('class');
+    setDraft(INITIAL_DRAFT);
+    setSummary(null);
+    await run(async () => {
+      const response = await fetch(`/api/characters/${characterId}/level-up`);
+      const result = await response.json();
+      if (!response.ok || !result.success) {
+        throw new Error(result.error || 'Failed to load level-up options');
+      }
+      setOptions(result.data);
+    });
+  }, [characterId]);
+
+  const selectClass = (className: string) => {
+    setDraft({ ...INITIAL_DRAFT, class: className });
+    setError(null);
+    setStep('choices');
+  };
+
+  const updateDraft = (changes: Partial<LevelUpDraft>) => setDraft(current => ({ ...current, ...changes }));
+
+  const back = () => {
+    setError(null);
+    setStep('class');
+  };
+
+  const confirm = () =>
+    run(async () => {
+      if (!selectedOption) return;
+
+      const response = await fetch(`/api/characters/${characterId}/level-up`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(toLevelUpBody(
+          draft,
+          selectedOption.grantsAbilityScoreImprovement,
+          selectedOption.unlocksSubclass
+        )),
+      });
+      const result = await response.json();
+      if (!response.ok || !result.success) {
+        throw new Error(result.error || 'Failed to level up');
+      }
+      setSummary(result.data.summary);
+      setStep('done');
+      onLevelUp(result.data.character);
+    });
+
+  const canConfirm = Boolean(selectedOption)
+    && (!selectedOption?.unlocksSubclass || draft.subclass.trim().length > 0)
+    && (!selectedOption?.grantsAbilityScoreImprovement
+      || draft.improvement === 'abilities'
+      || draft.feat.trim().length > 0);
+
+  return {
+    options,
+    step,
+    draft,
+    selectedOption,
+    summary,
+    error,
+    isWorking,
+    canConfirm,
+    loadOptions,
+    selectClass,
+    updateDraft,
+    back,
+    confirm,
+  };
+}
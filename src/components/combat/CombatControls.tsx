@@ -8,6 +8,8 @@ import {
   SkipForward,
   SkipBack,
   Square,
+  Undo2,
+  Redo2,
 } from 'lucide-react';
 
 interface CombatActions {
@@ -16,6 +18,8 @@ interface CombatActions {
   onPauseCombat?: () => void;
   onResumeCombat?: () => void;
   onEndCombat?: () => void;
+  onUndo?: () => void;
+  onRedo?: () => void;
 }
 
 interface CombatState {
@@ -57,6 +61,28 @@ export function CombatControlsSection({ actions, state }: CombatControlsProps) {
 
   return (
     <div className="flex items-center justify-center space-x-2">
+      {actions.onUndo && (
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={actions.onUndo}
+          title={getTitle('Undo', 'Ctrl+Z')}
+          aria-label="Undo last combat action"
+        >
+          <Undo2 className="h-4 w-4" />
+        </Button>
+      )}
+      {actions.onRedo && (
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={actions.onRedo}
+          title={getTitle('Redo', 'Ctrl+Shift+Z')}
+          aria-label="Redo combat action"
+        >
+          <Redo2 className="h-4 w-4" />
+        </Button>
+      )}
       <Button
         variant="outline"
         size="sm"
@@ -25,6 +25,8 @@ interface CombatActions {
   onPauseCombat?: () => void;
   onResumeCombat?: () => void;
   onEndCombat?: () => void;
+  onUndo?: () => void;
+  onRedo?: () => void;
   onExportInitiative?: () => void;
   onShareInitiative?: () => void;
 }
@@ -144,6 +146,8 @@ export function CombatToolbar({
     onPauseCombat,
     onResumeCombat,
     onEndCombat,
+    onUndo,
+    onRedo,
     onExportInitiative,
     onShareInitiative,
   } = combatActions;
@@ -174,6 +178,7 @@ export function CombatToolbar({
 
   const getActiveParticipantName = () => {
     if (!isActive || currentTurn >= initiativeOrder.length) return undefined;
+    if (initiativeOrder[currentTurn]?.isLairAction) return 'Lair Action';
     const currentParticipant = participants.find(p =>
       p.characterId.toString() === initiativeOrder[currentTurn]?.participantId.toString()
     );
@@ -200,15 +205,23 @@ export function CombatToolbar({
     KeyE: () => onEndCombat?.(),
   }), [onNextTurn, onPreviousTurn, onPauseCombat, onResumeCombat, onEndCombat, canGoPrevious, isPaused]);
 
+  // Ctrl/Cmd+Z undoes, Ctrl/Cmd+Shift+Z and Ctrl/Cmd+Y redo
+  const getModifierKeyActions = useCallback((event: KeyboardEvent) => ({
+    KeyZ: () => event.shiftKey ? onRedo?.() : onUndo?.(),
+    KeyY: () => onRedo?.(),
+  }), [onUndo, onRedo]);
+
   const handleKeyDown = useCallback((event: KeyboardEvent) => {
     if (isInputElement(event.target)) return;
 
-    const action = SecureKeyboardActionHandler.getKeyAction(keyActions, event.code);
+    const hasModifier = event.ctrlKey || event.metaKey;
+    const actions = hasModifier ? getModifierKeyActions(event) : keyActions;
+    const action = SecureKeyboardActionHandler.getKeyAction(actions, event.code);
     if (action) {
       event.preventDefault();
       action();
     }
-  }, [keyActions]);
+  }, [keyActions, getModifierKeyActions]);
 
   // Keyboard shortcuts
   useEffect(() => {
@@ -270,6 +283,8 @@ export function CombatToolbar({
             onPauseCombat,
             onResumeCombat,
             onEndCombat,
+            onUndo,
+            onRedo,
           }}
           state={{
             canGoPrevious,
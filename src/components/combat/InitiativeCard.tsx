@@ -2,7 +2,13 @@
 
 import React from 'react';
 import { InitiativeEntry, ParticipantReference } from '@/lib/validations/encounter';
-import { CardContainer, InitiativeBadge, CharacterInfo, HPDisplay } from './InitiativeCardComponents';
+import {
+  CardContainer,
+  InitiativeBadge,
+  CharacterInfo,
+  HPDisplay,
+  LegendaryActionControls,
+} from './InitiativeCardComponents';
 
 interface InitiativeCardProps {
   entry: InitiativeEntry;
@@ -12,6 +18,7 @@ interface InitiativeCardProps {
   onEditInitiative?: (_participantId: string, _newInitiative: number) => void;
   onDelayAction?: (_participantId: string) => void;
   onReadyAction?: (_participantId: string, _triggerCondition: string) => void;
+  onUseLegendaryAction?: (_participantId: string, _cost: number) => void;
 }
 
 export function InitiativeCard({
@@ -21,7 +28,8 @@ export function InitiativeCard({
   isNext,
   onEditInitiative: _onEditInitiative,
   onDelayAction: _onDelayAction,
-  onReadyAction: _onReadyAction
+  onReadyAction: _onReadyAction,
+  onUseLegendaryAction
 }: InitiativeCardProps) {
   return (
     <CardContainer isActive={isActive} isNext={isNext}>
@@ -32,6 +40,17 @@ export function InitiativeCard({
         </div>
         <HPDisplay participant={participant} />
       </div>
+      {participant.legendaryActions && (
+        <LegendaryActionControls
+          legendaryActions={participant.legendaryActions}
+          isActive={isActive}
+          onUse={
+            onUseLegendaryAction
+              ? cost => onUseLegendaryAction(participant.characterId.toString(), cost)
+              : undefined
+          }
+        />
+      )}
     </CardContainer>
   );
 }
\ No newline at end of file
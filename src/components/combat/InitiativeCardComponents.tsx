@@ -2,8 +2,21 @@
 
 import React from 'react';
 import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
 import { Progress } from '@/components/ui/progress';
-import { InitiativeEntry, ParticipantReference } from '@/lib/validations/encounter';
+import { DeathSavesTracker } from './hp-tracking/DeathSavesTracker';
+import {
+  InitiativeEntry,
+  LegendaryActions,
+  ParticipantConcentration,
+  ParticipantCondition,
+  ParticipantReference,
+} from '@/lib/validations/encounter';
+import {
+  describeConditionExpiry,
+  formatConditionName,
+  getConditionEffects,
+} from '@/lib/utils/conditions';
 
 interface InitiativeBadgeProps {
   initiative: number;
@@ -48,6 +61,9 @@ export function CharacterInfo({ participant, entry, isActive }: CharacterInfoPro
       </div>
       <div className="flex items-center space-x-2 text-sm text-muted-foreground">
         <span>AC {participant.armorClass}</span>
+        {participant.concentration && (
+          <ConcentrationBadge concentration={participant.concentration} />
+        )}
         {participant.conditions.length > 0 && (
           <ConditionsList conditions={participant.conditions} />
         )}
@@ -57,21 +73,112 @@ export function CharacterInfo({ participant, entry, isActive }: CharacterInfoPro
 }
 
 interface ConditionsListProps {
-  conditions: string[];
+  conditions: ParticipantCondition[];
 }
 
 function ConditionsList({ conditions }: ConditionsListProps) {
   return (
     <div className="flex items-center space-x-1">
-      {conditions.map(condition => (
-        <Badge key={condition} variant="destructive" className="text-xs">
-          {condition}
-        </Badge>
-      ))}
+      {conditions.map(condition => {
+        const expiry = describeConditionExpiry(condition);
+        return (
+          <Badge
+            key={condition.name}
+            variant="destructive"
+            className="text-xs"
+            title={getConditionEffects(condition).join('\n')}
+          >
+            {formatConditionName(condition)}
+            {expiry && <span className="ml-1 font-normal opacity-80">({expiry})</span>}
+          </Badge>
+        );
+      })}
+    </div>
+  );
+}
+
+interface ConcentrationBadgeProps {
+  concentration: ParticipantConcentration;
+}
+
+function ConcentrationBadge({ concentration }: ConcentrationBadgeProps) {
+  const [pendingDC] = concentration.pendingSaveDCs;
+  return (
+    <Badge
+      variant={pendingDC !== undefined ? 'destructive' : 'outline'}
+      className="text-xs"
+      title={`Concentrating since round ${concentration.startRound}`}
+    >
+      Concentrating: {concentration.spellName}
+      {pendingDC !== undefined && <span className="ml-1 font-normal">(CON save DC {pendingDC})</span>}
+    </Badge>
+  );
+}
+
+interface LegendaryActionControlsProps {
+  legendaryActions: LegendaryActions;
+  isActive: boolean;
+  onUse?: (_cost: number) => void;
+}
+
+const LEGENDARY_ACTION_COSTS = [1, 2, 3];
+
+/**
+ * Remaining legendary actions with buttons to spend them.
+ * Spending is disabled during the creature's own turn.
+ */
+export function LegendaryActionControls({ legendaryActions, isActive, onUse }: LegendaryActionControlsProps) {
+  const { max, remaining } = legendaryActions;
+  const costs = LEGENDARY_ACTION_COSTS.filter(cost => cost <= max);
+
+  return (
+    <div className="flex items-center justify-between mt-2 text-sm" data-testid="legendary-actions">
+      <span className="text-muted-foreground">
+        Legendary actions: {remaining}/{max}
+      </span>
+      {onUse && (
+        <div className="flex items-center space-x-1">
+          {costs.map(cost => (
+            <Button
+              key={cost}
+              variant="outline"
+              size="sm"
+              disabled={isActive || remaining < cost}
+              onClick={() => onUse(cost)}
+              aria-label={`Spend ${cost} legendary action${cost === 1 ? '' : 's'}`}
+            >
+              -{cost}
+            </Button>
+          ))}
+        </div>
+      )}
     </div>
   );
 }
 
+interface LairActionCardProps {
+  entry: InitiativeEntry;
+  isActive: boolean;
+  isNext: boolean;
+}
+
+/**
+ * Turn order entry for the lair action turn
+ */
+export function LairActionCard({ entry, isActive, isNext }: LairActionCardProps) {
+  return (
+    <CardContainer isActive={isActive} isNext={isNext}>
+      <div className="flex items-center space-x-3" data-testid="lair-action">
+        <InitiativeBadge initiative={entry.initiative} isActive={isActive} />
+        <div>
+          <h3 className={`font-semibold ${isActive ? 'text-primary' : ''}`}>Lair Action</h3>
+          <p className="text-sm text-muted-foreground">Loses initiative ties</p>
+        </div>
+      </div>
+    </CardContainer>
+  );
+}
+
 interface HPDisplayProps {
   participant: ParticipantReference;
 }
@@ -113,6 +220,9 @@ export function HPDisplay({ participant }: HPDisplayProps) {
         value={Math.max(hpPercentage, 0)}
         className={`w-20 h-2 ${progressColorClass}`}
       />
+      {participant.deathSaves && (
+        <DeathSavesTracker deathSaves={participant.deathSaves} className="justify-end mt-1" />
+      )}
     </div>
   );
 }
@@ -2,13 +2,9 @@
 
 import React from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
-import { InitiativeEntry, ParticipantReference } from '@/lib/validations/encounter';
 import { InitiativeCard } from './InitiativeCard';
-
-interface InitiativeWithParticipant {
-  entry: InitiativeEntry;
-  participant: ParticipantReference;
-}
+import { LairActionCard } from './InitiativeCardComponents';
+import type { InitiativeWithParticipant } from './useInitiativeData';
 
 interface InitiativeListProps {
   initiativeWithParticipants: InitiativeWithParticipant[];
@@ -16,6 +12,7 @@ interface InitiativeListProps {
   onEditInitiative?: (_participantId: string, _newInitiative: number) => void;
   onDelayAction?: (_participantId: string) => void;
   onReadyAction?: (_participantId: string, _triggerCondition: string) => void;
+  onUseLegendaryAction?: (_participantId: string, _cost: number) => void;
 }
 
 export function InitiativeList({
@@ -23,7 +20,8 @@ export function InitiativeList({
   currentTurn,
   onEditInitiative,
   onDelayAction,
-  onReadyAction
+  onReadyAction,
+  onUseLegendaryAction
 }: InitiativeListProps) {
   return (
     <Card>
@@ -33,19 +31,36 @@ export function InitiativeList({
         </h3>
       </CardHeader>
       <CardContent className="space-y-2">
-        {initiativeWithParticipants.map(({ entry, participant }, index) => (
-          <InitiativeCard
-            key={entry.participantId.toString()}
-            entry={entry}
-            participant={participant}
-            isActive={index === currentTurn}
-            isNext={index === (currentTurn + 1) % initiativeWithParticipants.length}
-            onEditInitiative={onEditInitiative}
-            onDelayAction={onDelayAction}
-            onReadyAction={onReadyAction}
-          />
-        ))}
+        {initiativeWithParticipants.map(({ entry, participant }, index) => {
+          const isActive = index === currentTurn;
+          const isNext = index === (currentTurn + 1) % initiativeWithParticipants.length;
+
+          if (!participant) {
+            return (
+              <LairActionCard
+                key="lair-action"
+                entry={entry}
+                isActive={isActive}
+                isNext={isNext}
+              />
+            );
+          }
+
+          return (
+            <InitiativeCard
+              key={entry.participantId.toString()}
+              entry={entry}
+              participant={participant}
+              isActive={isActive}
+              isNext={isNext}
+              onEditInitiative={onEditInitiative}
+              onDelayAction={onDelayAction}
+              onReadyAction={onReadyAction}
+              onUseLegendaryAction={onUseLegendaryAction}
+            />
+          );
+        })}
       </CardContent>
     </Card>
   );
-}
\ No newline at end of file
+}
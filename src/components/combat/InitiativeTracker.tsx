@@ -12,6 +12,8 @@ interface CombatActions {
   onPreviousTurn?: () => void;
   onPauseCombat?: () => void;
   onResumeCombat?: () => void;
+  onUndo?: () => void;
+  onRedo?: () => void;
   onExportInitiative?: () => void;
   onShareInitiative?: () => void;
 }
@@ -20,6 +22,7 @@ interface InitiativeActions {
   onEditInitiative?: (_participantId: string, _newInitiative: number) => void;
   onDelayAction?: (_participantId: string) => void;
   onReadyAction?: (_participantId: string, _triggerCondition: string) => void;
+  onUseLegendaryAction?: (_participantId: string, _cost: number) => void;
 }
 
 interface InitiativeTrackerProps {
@@ -37,6 +40,7 @@ interface InitiativeTrackerProps {
  * - Turn progression controls
  * - Round tracking
  * - Initiative editing capabilities
+ * - Lair action turns and legendary action spending
  * - Export and sharing functionality
  */
 export function InitiativeTracker({
@@ -65,6 +69,8 @@ export function InitiativeTracker({
           onPauseCombat: combatActions.onPauseCombat,
           onResumeCombat: combatActions.onResumeCombat,
           onEndCombat: undefined,
+          onUndo: combatActions.onUndo,
+          onRedo: combatActions.onRedo,
         }}
         state={{
           canGoPrevious,
@@ -78,6 +84,7 @@ export function InitiativeTracker({
         onEditInitiative={initiativeActions.onEditInitiative}
         onDelayAction={initiativeActions.onDelayAction}
         onReadyAction={initiativeActions.onReadyAction}
+        onUseLegendaryAction={initiativeActions.onUseLegendaryAction}
       />
     </div>
   );
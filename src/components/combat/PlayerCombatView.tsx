@@ -0,0 +1,123 @@
+'use client';
+
+import React from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import type {
+  HpBracket,
+  PlayerCombatView as PlayerCombatViewData,
+  PlayerViewParticipant,
+} from '@/lib/realtime/player-view';
+
+const HP_BRACKET_LABELS: Record<HpBracket, string> = {
+  unharmed: 'Unharmed',
+  injured: 'Injured',
+  bloodied: 'Bloodied',
+  critical: 'Critical',
+  down: 'Down',
+};
+
+const HP_BRACKET_STYLES: Record<HpBracket, string> = {
+  unharmed: 'text-green-600',
+  injured: 'text-yellow-600',
+  bloodied: 'text-orange-600',
+  critical: 'text-red-600',
+  down: 'text-muted-foreground',
+};
+
+interface PlayerCombatViewProps {
+  view: PlayerCombatViewData;
+}
+
+// Health shown to players: exact values for PCs, a bracket for everyone else
+function ParticipantHealth({ participant }: { participant: PlayerViewParticipant }) {
+  const bracketLabel = HP_BRACKET_LABELS[participant.hpBracket];
+
+  if (participant.currentHitPoints === undefined) {
+    return <span className={HP_BRACKET_STYLES[participant.hpBracket]}>{bracketLabel}</span>;
+  }
+
+  return (
+    <span className={HP_BRACKET_STYLES[participant.hpBracket]}>
+      {participant.currentHitPoints}/{participant.maxHitPoints} HP
+      {Boolean(participant.temporaryHitPoints) && ` (+${participant.temporaryHitPoints})`}
+    </span>
+  );
+}
+
+function ParticipantRow({ participant, isActive }: {
+  participant: PlayerViewParticipant;
+  isActive: boolean;
+}) {
+  return (
+    <li
+      className={`flex items-center justify-between rounded border p-3 ${
+        isActive ? 'border-primary bg-primary/5' : ''
+      }`}
+      aria-current={isActive ? 'step' : undefined}
+    >
+      <div className="flex items-center space-x-3">
+        <span className="w-8 text-center font-bold text-muted-foreground">
+          {participant.initiative ?? '—'}
+        </span>
+        <div>
+          <div className="flex items-center space-x-2">
+            <span className={`font-semibold ${isActive ? 'text-primary' : ''}`}>{participant.name}</span>
+            {participant.isDelayed && <Badge variant="outline">Delayed</Badge>}
+            {participant.hasReadyAction && <Badge variant="outline">Ready</Badge>}
+          </div>
+          {participant.conditions.length > 0 && (
+            <div className="flex flex-wrap gap-1 pt-1">
+              {participant.conditions.map(condition => (
+                <Badge key={condition} variant="secondary" className="text-xs">
+                  {condition}
+                </Badge>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+      <ParticipantHealth participant={participant} />
+    </li>
+  );
+}
+
+function getStatusText(view: PlayerCombatViewData): string {
+  if (!view.isActive) {
+    return view.status === 'completed' ? 'Combat has ended' : 'Combat has not started';
+  }
+  return view.isPaused ? 'Combat paused' : `Round ${view.currentRound}`;
+}
+
+/**
+ * Read-only initiative order shown to players
+ */
+export function PlayerCombatView({ view }: PlayerCombatViewProps) {
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <div className="flex items-center justify-between">
+          <CardTitle className="text-lg">{view.name}</CardTitle>
+          <Badge variant={view.isActive && !view.isPaused ? 'default' : 'secondary'}>
+            {getStatusText(view)}
+          </Badge>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {view.participants.length === 0 ? (
+          <p className="text-muted-foreground">No participants to show</p>
+        ) : (
+          <ol className="space-y-2">
+            {view.participants.map(participant => (
+              <ParticipantRow
+                key={participant.id}
+                participant={participant}
+                isActive={participant.id === view.activeParticipantId}
+              />
+            ))}
+          </ol>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
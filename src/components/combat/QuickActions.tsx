@@ -2,7 +2,7 @@
 
 import React from 'react';
 import { Button } from '@/components/ui/button';
-import { Dice6, Heart, Zap, XCircle, UserPlus, Settings } from 'lucide-react';
+import { Dice6, Heart, Zap, XCircle, UserPlus, Settings, Coffee, Moon, RefreshCw } from 'lucide-react';
 
 export interface QuickAction {
   id: string;
@@ -11,11 +11,26 @@ export interface QuickAction {
   handler: () => void;
 }
 
+export interface ResourceParticipant {
+  id: string;
+  name: string;
+  resources: Array<{ id: string; name: string; max: number; remaining: number }>;
+}
+
+interface ResourceActions {
+  participants: ResourceParticipant[];
+  onSpendResource?: (_participantId: string, _resourceId: string) => void;
+  onSeedResources?: () => void;
+  onShortRest?: () => void;
+  onLongRest?: () => void;
+}
+
 interface QuickActionsSettings {
   showRollInitiative?: boolean;
   showMassActions?: boolean;
   showParticipantManagement?: boolean;
   showSettings?: boolean;
+  showResources?: boolean;
   customActions?: QuickAction[];
 }
 
@@ -28,6 +43,7 @@ interface QuickActionsProps {
     onAddParticipant?: () => void;
     onEncounterSettings?: () => void;
   };
+  resources?: ResourceActions;
   disabled?: boolean;
   participantCount?: number;
   settings?: QuickActionsSettings;
@@ -140,6 +156,65 @@ function ManagementSection({
   );
 }
 
+function ResourcesSection({ resources, disabled }: { resources: ResourceActions; disabled: boolean }) {
+  const tracked = resources.participants.filter(participant => participant.resources.length > 0);
+
+  return (
+    <div className="col-span-3 space-y-2" data-testid="resources-group">
+      <div className="grid grid-cols-3 gap-2">
+        <ActionButton
+          onClick={resources.onShortRest}
+          disabled={disabled}
+          title="Restore resources that recharge on a short rest"
+          aria-label="Take a short rest"
+          icon={<Coffee className="h-4 w-4 mr-1" />}
+        >
+          Short Rest
+        </ActionButton>
+        <ActionButton
+          onClick={resources.onLongRest}
+          disabled={disabled}
+          title="Restore all resources that recharge on a rest"
+          aria-label="Take a long rest"
+          icon={<Moon className="h-4 w-4 mr-1" />}
+        >
+          Long Rest
+        </ActionButton>
+        <ActionButton
+          onClick={resources.onSeedResources}
+          disabled={disabled}
+          title="Refill class resources from each character's classes and level"
+          aria-label="Refill resources from character sheets"
+          icon={<RefreshCw className="h-4 w-4 mr-1" />}
+        >
+          From Sheets
+        </ActionButton>
+      </div>
+      {tracked.length === 0 && (
+        <p className="text-sm text-muted-foreground">No tracked resources</p>
+      )}
+      {tracked.map(participant => (
+        <div key={participant.id} className="space-y-1">
+          <div className="text-sm font-medium">{participant.name}</div>
+          <div className="flex flex-wrap gap-2">
+            {participant.resources.map(resource => (
+              <ActionButton
+                key={resource.id}
+                onClick={() => resources.onSpendResource?.(participant.id, resource.id)}
+                disabled={disabled || resource.remaining === 0}
+                title={`Spend one use of ${resource.name}`}
+                aria-label={`Spend ${resource.name} for ${participant.name}`}
+              >
+                {resource.name} {resource.remaining}/{resource.max}
+              </ActionButton>
+            ))}
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
+
 function CustomActionsSection({ customActions, disabled }: { customActions: QuickAction[]; disabled: boolean }) {
   return (
     <div className="col-span-3 grid gap-2" style={{ gridTemplateColumns: `repeat(${Math.min(customActions.length, 3)}, 1fr)` }}>
@@ -160,6 +235,7 @@ function CustomActionsSection({ customActions, disabled }: { customActions: Quic
 
 export function QuickActions({
   actions = {},
+  resources,
   disabled = false,
   participantCount = 0,
   settings = {}
@@ -169,6 +245,7 @@ export function QuickActions({
     showMassActions = true,
     showParticipantManagement = true,
     showSettings = true,
+    showResources = true,
     customActions = [],
   } = settings || {};
 
@@ -200,6 +277,13 @@ export function QuickActions({
         />
       )}
 
+      {showResources && resources && (
+        <ResourcesSection
+          resources={resources}
+          disabled={disabled}
+        />
+      )}
+
       {customActions.length > 0 && (
         <CustomActionsSection
           customActions={customActions}
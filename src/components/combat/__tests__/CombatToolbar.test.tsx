@@ -214,6 +214,39 @@ describe('CombatToolbar', () => {
       expect(testSetup.mockProps.combatActions.onPauseCombat).toHaveBeenCalledTimes(1);
     });
 
+    it('undoes and redoes combat actions with modifier shortcuts', () => {
+      render(<CombatToolbar {...testSetup.mockProps} />);
+      const { onUndo, onRedo, onEndCombat } = testSetup.mockProps.combatActions;
+
+      fireEvent.keyDown(document, { key: 'z', code: 'KeyZ', ctrlKey: true });
+      expect(onUndo).toHaveBeenCalledTimes(1);
+
+      fireEvent.keyDown(document, { key: 'Z', code: 'KeyZ', ctrlKey: true, shiftKey: true });
+      fireEvent.keyDown(document, { key: 'y', code: 'KeyY', metaKey: true });
+      expect(onRedo).toHaveBeenCalledTimes(2);
+
+      // Modified keys do not trigger the single-key shortcuts
+      fireEvent.keyDown(document, { key: 'e', code: 'KeyE', ctrlKey: true });
+      expect(onEndCombat).not.toHaveBeenCalled();
+    });
+
+    it('ignores undo keys without a modifier', () => {
+      render(<CombatToolbar {...testSetup.mockProps} />);
+
+      fireEvent.keyDown(document, { key: 'z', code: 'KeyZ' });
+      expect(testSetup.mockProps.combatActions.onUndo).not.toHaveBeenCalled();
+    });
+
+    it('calls undo and redo handlers from the toolbar buttons', () => {
+      render(<CombatToolbar {...testSetup.mockProps} />);
+
+      fireEvent.click(screen.getByRole('button', { name: /undo last combat action/i }));
+      fireEvent.click(screen.getByRole('button', { name: /redo combat action/i }));
+
+      expect(testSetup.mockProps.combatActions.onUndo).toHaveBeenCalledTimes(1);
+      expect(testSetup.mockProps.combatActions.onRedo).toHaveBeenCalledTimes(1);
+    });
+
     it('does not respond to keyboard shortcuts when disabled', () => {
       testSetup.mockProps.settings.enableKeyboardShortcuts = false;
       render(<CombatToolbar {...testSetup.mockProps} />);
@@ -109,13 +109,95 @@ describe('InitiativeTracker', () => {
 
   it('displays participant conditions', () => {
     // Add a condition to the first participant
-    testSetup.mockEncounter.participants[0].conditions = ['Poisoned', 'Prone'];
+    testSetup.mockEncounter.participants[0].conditions = [
+      { name: 'poisoned', expiry: 'indefinite' },
+      { name: 'prone', expiry: 'indefinite' },
+    ];
     render(<InitiativeTracker {...testSetup.mockProps} />);
 
     expect(screen.getByText('Poisoned')).toBeInTheDocument();
     expect(screen.getByText('Prone')).toBeInTheDocument();
   });
 
+  it('displays condition durations and mechanical reminders', () => {
+    testSetup.mockEncounter.participants[0].conditions = [
+      { name: 'stunned', expiry: 'rounds', roundsRemaining: 2 },
+      { name: 'frightened', expiry: 'save', saveDC: 13, saveAbility: 'wisdom' },
+    ];
+    render(<InitiativeTracker {...testSetup.mockProps} />);
+
+    expect(screen.getByText('(2 rounds)')).toBeInTheDocument();
+    expect(screen.getByText('(DC 13 WIS save)')).toBeInTheDocument();
+    expect(screen.getByText('(2 rounds)').closest('[title]')).toHaveAttribute(
+      'title',
+      expect.stringContaining('Automatically fails Strength and Dexterity saves')
+    );
+  });
+
+  it('displays concentration and pending concentration saves', () => {
+    testSetup.mockEncounter.participants[0].concentration = {
+      spellName: 'Bless',
+      startRound: 1,
+      linkedEffectIds: [],
+      pendingSaveDCs: [12],
+    };
+    render(<InitiativeTracker {...testSetup.mockProps} />);
+
+    expect(screen.getByText(/Concentrating: Bless/)).toBeInTheDocument();
+    expect(screen.getByText('(CON save DC 12)')).toBeInTheDocument();
+  });
+
+  it('displays death saves for a dying character', () => {
+    testSetup.mockEncounter.participants[0].currentHitPoints = 0;
+    testSetup.mockEncounter.participants[0].deathSaves = {
+      status: 'unconscious',
+      successes: 1,
+      failures: 2,
+      awaitingRoll: true,
+    };
+    render(<InitiativeTracker {...testSetup.mockProps} />);
+
+    expect(screen.getByText('Dying')).toBeInTheDocument();
+    expect(screen.getByLabelText('2 of 3 failures')).toBeInTheDocument();
+    expect(screen.getByText('Roll death save')).toBeInTheDocument();
+  });
+
+  it('displays the lair action turn in the turn order', () => {
+    testSetup.mockEncounter.combatState.initiativeOrder.splice(1, 0, {
+      participantId: testSetup.mockEncounter._id,
+      initiative: 20,
+      dexterity: 1,
+      isActive: false,
+      hasActed: false,
+      isLairAction: true,
+    });
+    render(<InitiativeTracker {...testSetup.mockProps} />);
+
+    expect(screen.getByText('Lair Action')).toBeInTheDocument();
+    expect(screen.getByText('Test Character 2')).toBeInTheDocument();
+  });
+
+  it('spends legendary actions from the remaining pool', () => {
+    testSetup.mockEncounter.participants[0].legendaryActions = { max: 3, remaining: 1 };
+    render(<InitiativeTracker {...testSetup.mockProps} />);
+
+    expect(screen.getByText('Legendary actions: 1/3')).toBeInTheDocument();
+    expect(screen.getByRole('button', { name: 'Spend 2 legendary actions' })).toBeDisabled();
+
+    fireEvent.click(screen.getByRole('button', { name: 'Spend 1 legendary action' }));
+    expect(testSetup.mockInitiativeActions.onUseLegendaryAction).toHaveBeenCalledWith(
+      testSetup.mockEncounter.participants[0].characterId.toString(),
+      1
+    );
+  });
+
+  it("disables legendary actions on the creature's own turn", () => {
+    testSetup.mockEncounter.participants[1].legendaryActions = { max: 3, remaining: 3 };
+    render(<InitiativeTracker {...testSetup.mockProps} />);
+
+    expect(screen.getByRole('button', { name: 'Spend 1 legendary action' })).toBeDisabled();
+  });
+
   it('displays temporary hit points when present', () => {
     testSetup.mockEncounter.participants[0].temporaryHitPoints = 5;
     render(<InitiativeTracker {...testSetup.mockProps} />);
@@ -0,0 +1,71 @@
+import React from 'react';
+import { render, screen } from '@testing-library/react';
+import { PlayerCombatView } from '../PlayerCombatView';
+import type { PlayerCombatView as PlayerCombatViewData } from '@/lib/realtime/player-view';
+
+const createView = (overrides: Partial<PlayerCombatViewData> = {}): PlayerCombatViewData => ({
+  encounterId: 'encounter-1',
+  name: 'Goblin Ambush',
+  status: 'active',
+  isActive: true,
+  isPaused: false,
+  currentRound: 3,
+  activeParticipantId: 'pc-1',
+  participants: [
+    {
+      id: 'pc-1',
+      name: 'Aragorn',
+      isPlayer: true,
+      initiative: 18,
+      hpBracket: 'injured',
+      currentHitPoints: 30,
+      maxHitPoints: 45,
+      temporaryHitPoints: 0,
+      conditions: [],
+      isDelayed: false,
+      hasReadyAction: false,
+    },
+    {
+      id: 'npc-1',
+      name: 'Goblin Boss',
+      isPlayer: false,
+      initiative: 12,
+      hpBracket: 'bloodied',
+      conditions: ['frightened'],
+      isDelayed: false,
+      hasReadyAction: true,
+    },
+  ],
+  ...overrides,
+});
+
+describe('PlayerCombatView', () => {
+  it('shows the round and the active participant', () => {
+    render(<PlayerCombatView view={createView()} />);
+
+    expect(screen.getByText('Round 3')).toBeInTheDocument();
+    expect(screen.getByText('Aragorn').closest('li')).toHaveAttribute('aria-current', 'step');
+  });
+
+  it('shows exact hit points for player characters and brackets for NPCs', () => {
+    render(<PlayerCombatView view={createView()} />);
+
+    expect(screen.getByText('30/45 HP')).toBeInTheDocument();
+    expect(screen.getByText('Bloodied')).toBeInTheDocument();
+  });
+
+  it('shows conditions and readied actions', () => {
+    render(<PlayerCombatView view={createView()} />);
+
+    expect(screen.getByText('frightened')).toBeInTheDocument();
+    expect(screen.getByText('Ready')).toBeInTheDocument();
+  });
+
+  it('shows when combat is paused or over', () => {
+    const { rerender } = render(<PlayerCombatView view={createView({ isPaused: true })} />);
+    expect(screen.getByText('Combat paused')).toBeInTheDocument();
+
+    rerender(<PlayerCombatView view={createView({ isActive: false, status: 'completed' })} />);
+    expect(screen.getByText('Combat has ended')).toBeInTheDocument();
+  });
+});
@@ -242,6 +242,57 @@ describe('QuickActions', () => {
     });
   });
 
+  describe('Resources', () => {
+    const createResources = () => ({
+      participants: [
+        {
+          id: 'wizard-1',
+          name: 'Elara',
+          resources: [
+            { id: 'spell-slot-1', name: '1st-level spell slots', max: 4, remaining: 2 },
+            { id: 'spell-slot-2', name: '2nd-level spell slots', max: 2, remaining: 0 },
+          ],
+        },
+        { id: 'goblin-1', name: 'Goblin', resources: [] },
+      ],
+      onSpendResource: jest.fn(),
+      onSeedResources: jest.fn(),
+      onShortRest: jest.fn(),
+      onLongRest: jest.fn(),
+    });
+
+    it('does not render the resources section without resources', () => {
+      render(<QuickActions {...mockProps} />);
+
+      expect(screen.queryByTestId('resources-group')).not.toBeInTheDocument();
+    });
+
+    it('lists tracked resources and spends one use when clicked', () => {
+      const resources = createResources();
+      render(<QuickActions {...mockProps} resources={resources} />);
+
+      expect(screen.queryByText('Goblin')).not.toBeInTheDocument();
+      fireEvent.click(screen.getByRole('button', { name: 'Spend 1st-level spell slots for Elara' }));
+
+      expect(resources.onSpendResource).toHaveBeenCalledWith('wizard-1', 'spell-slot-1');
+      expect(screen.getByText('1st-level spell slots 2/4')).toBeInTheDocument();
+      expect(screen.getByRole('button', { name: 'Spend 2nd-level spell slots for Elara' })).toBeDisabled();
+    });
+
+    it('calls the rest handlers', () => {
+      const resources = createResources();
+      render(<QuickActions {...mockProps} resources={resources} />);
+
+      fireEvent.click(screen.getByRole('button', { name: 'Take a short rest' }));
+      fireEvent.click(screen.getByRole('button', { name: 'Take a long rest' }));
+      fireEvent.click(screen.getByRole('button', { name: 'Refill resources from character sheets' }));
+
+      expect(resources.onShortRest).toHaveBeenCalledTimes(1);
+      expect(resources.onLongRest).toHaveBeenCalledTimes(1);
+      expect(resources.onSeedResources).toHaveBeenCalledTimes(1);
+    });
+  });
+
   describe('Participant Count Display', () => {
     it('shows correct participant count in mass action buttons', () => {
       mockProps.participantCount = 6;
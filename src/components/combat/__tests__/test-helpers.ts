@@ -65,6 +65,8 @@ export function createMockCombatActions() {
     onPauseCombat: jest.fn(),
     onResumeCombat: jest.fn(),
     onEndCombat: jest.fn(),
+    onUndo: jest.fn(),
+    onRedo: jest.fn(),
     onExportInitiative: jest.fn(),
     onShareInitiative: jest.fn(),
   };
@@ -78,6 +80,7 @@ export function createMockInitiativeActions() {
     onEditInitiative: jest.fn(),
     onDelayAction: jest.fn(),
     onReadyAction: jest.fn(),
+    onUseLegendaryAction: jest.fn(),
     onRollInitiative: jest.fn(),
   };
 }
@@ -0,0 +1,50 @@
+import React from 'react';
+import { cn } from '@/lib/utils';
+import type { DeathSaves } from '@/lib/validations/encounter';
+
+interface DeathSavesTrackerProps {
+  deathSaves: DeathSaves;
+  className?: string;
+}
+
+const STATUS_LABELS: Record<DeathSaves['status'], string> = {
+  unconscious: 'Dying',
+  stable: 'Stable',
+  dead: 'Dead',
+};
+
+const STATUS_STYLES: Record<DeathSaves['status'], string> = {
+  unconscious: 'text-red-600',
+  stable: 'text-blue-600',
+  dead: 'text-muted-foreground line-through',
+};
+
+function SaveMarks({ count, filled, label }: { count: number; filled: string; label: string }) {
+  return (
+    <span aria-label={`${count} of 3 ${label}`}>
+      {[0, 1, 2].map(index => (
+        <span key={index} className={index < count ? filled : 'text-muted-foreground/40'}>
+          ●
+        </span>
+      ))}
+    </span>
+  );
+}
+
+export function DeathSavesTracker({ deathSaves, className }: DeathSavesTrackerProps) {
+  return (
+    <div
+      className={cn('flex items-center gap-2 text-xs font-medium', className)}
+      data-testid="death-saves"
+    >
+      <span className={STATUS_STYLES[deathSaves.status]}>{STATUS_LABELS[deathSaves.status]}</span>
+      {deathSaves.status === 'unconscious' && (
+        <>
+          <SaveMarks count={deathSaves.successes} filled="text-green-600" label="successes" />
+          <SaveMarks count={deathSaves.failures} filled="text-red-600" label="failures" />
+          {deathSaves.awaitingRoll && <span className="text-amber-600">Roll death save</span>}
+        </>
+      )}
+    </div>
+  );
+}
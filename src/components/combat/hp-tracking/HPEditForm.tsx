@@ -1,7 +1,7 @@
 import React, { useState } from 'react';
 import { Button } from '@/components/ui/button';
 import { useHPTracking } from './useHPTracking';
-import { IParticipantReference } from '@/lib/models/encounter/interfaces';
+import { IDeathSaves, IParticipantReference } from '@/lib/models/encounter/interfaces';
 import { HPStatusDisplay } from './HPStatusDisplay';
 import { HPValueInputs } from './HPValueInputs';
 import { HPQuickActions } from './HPQuickActions';
@@ -19,6 +19,7 @@ interface HPEditFormProps {
     maxHitPoints: number;
     temporaryHitPoints: number;
   };
+  deathSaves?: IDeathSaves | null;
   onSave: (_values: HPValues) => void;
   onCancel: () => void;
   className?: string;
@@ -26,6 +27,7 @@ interface HPEditFormProps {
 
 export function HPEditForm({
   initialValues,
+  deathSaves,
   onSave,
   onCancel,
   className,
@@ -85,6 +87,7 @@ export function HPEditForm({
         tempHP={tempHP}
         effectiveHP={effectiveHP}
         hpStatus={hpStatus}
+        deathSaves={deathSaves}
       />
 
       <HPValueInputs
@@ -39,6 +39,7 @@ export function HPEditModal({
     >
       <HPEditForm
         initialValues={initialValues}
+        deathSaves={participant.deathSaves}
         onSave={onSave}
         onCancel={onCancel}
       />
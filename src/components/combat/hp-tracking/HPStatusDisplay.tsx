@@ -1,5 +1,7 @@
 import React from 'react';
 import { HPStatus } from './useHPTracking';
+import { DeathSavesTracker } from './DeathSavesTracker';
+import type { DeathSaves } from '@/lib/validations/encounter';
 
 interface HPStatusDisplayProps {
   currentHP: number;
@@ -7,6 +9,7 @@ interface HPStatusDisplayProps {
   tempHP: number;
   effectiveHP: number;
   hpStatus: HPStatus;
+  deathSaves?: DeathSaves | null;
 }
 
 const HP_STATUS_CONFIG = {
@@ -22,6 +25,7 @@ export function HPStatusDisplay({
   tempHP,
   effectiveHP,
   hpStatus,
+  deathSaves,
 }: HPStatusDisplayProps) {
   const statusConfig = HP_STATUS_CONFIG[hpStatus];
   const statusDisplay = statusConfig ? (
@@ -39,6 +43,7 @@ export function HPStatusDisplay({
       <div className="text-lg font-mono">
         Status: {currentHP}/{maxHP} {tempHP > 0 && `(+${tempHP})`} = {effectiveHP} effective HP
       </div>
+      {deathSaves && <DeathSavesTracker deathSaves={deathSaves} className="mt-2" />}
     </div>
   );
 }
\ No newline at end of file
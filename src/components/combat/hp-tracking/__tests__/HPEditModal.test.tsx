@@ -83,6 +83,16 @@ describe('HPEditModal', () => {
     expect(screen.getByText('⚠️ Critical HP Level')).toBeInTheDocument();
   });
 
+  it('shows death saves of a character at 0 HP', () => {
+    const participant = {
+      ...createTestHPParticipant({ currentHitPoints: 0, temporaryHitPoints: 0 }),
+      deathSaves: { status: 'stable' as const, successes: 3, failures: 1, awaitingRoll: false },
+    };
+    renderHPEditModal({ participant });
+
+    expect(screen.getByTestId('death-saves')).toHaveTextContent('Stable');
+  });
+
   it('validates input fields correctly', async () => {
     const { mocks } = renderHPEditModal();
 
@@ -2,6 +2,7 @@ export { HPEditModal } from './HPEditModal';
 export { HPEditForm } from './HPEditForm';
 export { HPQuickButtons } from './HPQuickButtons';
 export { HPStatusDisplay } from './HPStatusDisplay';
+export { DeathSavesTracker } from './DeathSavesTracker';
 export { HPValueInputs } from './HPValueInputs';
 export { HPQuickActions } from './HPQuickActions';
 export { useHPTracking } from './useHPTracking';
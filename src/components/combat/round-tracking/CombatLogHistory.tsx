@@ -0,0 +1,44 @@
+'use client';
+
+import React, { useMemo, useState } from 'react';
+import type { Encounter } from '@/lib/validations/encounter';
+import { useCombatHistory } from '@/lib/hooks/useCombatHistory';
+import { RoundHistory } from './RoundHistory';
+import { groupCombatLogByRound } from './history-utils';
+
+interface CombatLogHistoryProps {
+  encounter: Encounter;
+}
+
+/**
+ * Round history backed by the persisted combat log of an encounter
+ */
+export function CombatLogHistory({ encounter }: CombatLogHistoryProps) {
+  const [isCollapsed, setIsCollapsed] = useState(false);
+  const { combatState } = encounter;
+  const refreshKey = `${combatState.currentRound}-${combatState.currentTurn}-${String(combatState.pausedAt ?? '')}`;
+  const { entries, error, refetch } = useCombatHistory(String(encounter._id), refreshKey);
+
+  const participantNames = useMemo(
+    () => Object.fromEntries(
+      encounter.participants.map(p => [String(p.characterId), p.name])
+    ),
+    [encounter.participants]
+  );
+
+  const history = useMemo(
+    () => groupCombatLogByRound(entries, participantNames),
+    [entries, participantNames]
+  );
+
+  return (
+    <RoundHistory
+      history={history}
+      isCollapsed={isCollapsed}
+      onToggle={setIsCollapsed}
+      searchable={true}
+      error={error ?? undefined}
+      onRetry={refetch}
+    />
+  );
+}
@@ -0,0 +1,161 @@
+import {
+  describeCombatLogEntry,
+  groupCombatLogByRound,
+  type CombatLogEntry,
+  type HistoryEvent,
+} from '../history-utils';
+
+const createLogEntry = (overrides: Partial<CombatLogEntry> = {}): CombatLogEntry => ({
+  action: 'turn_start',
+  timestamp: '2024-01-01T10:00:00.000Z',
+  round: 1,
+  turn: 0,
+  ...overrides,
+});
+
+describe('history-utils', () => {
+  describe('describeCombatLogEntry', () => {
+    it('describes combat lifecycle actions', () => {
+      expect(describeCombatLogEntry(createLogEntry({ action: 'combat_started' }))).toBe('Combat started');
+      expect(describeCombatLogEntry(createLogEntry({ action: 'round_start', round: 3 }))).toBe('Round 3 started');
+    });
+
+    it('includes participant names and details', () => {
+      const entry = createLogEntry({ action: 'damage_dealt', details: { amount: 7 } });
+      expect(describeCombatLogEntry(entry, 'Goblin')).toBe('Goblin took 7 damage');
+    });
+
+    it('includes the typed damage breakdown', () => {
+      const entry = createLogEntry({
+        action: 'damage_dealt',
+        details: {
+          amount: 11,
+          instances: [
+            { amount: 12, damageType: 'fire', finalDamage: 6, resistanceApplied: 'resistant' },
+            { amount: 5, damageType: 'slashing', finalDamage: 5, resistanceApplied: 'normal' },
+            { amount: 7, damageType: 'poison', finalDamage: 0, resistanceApplied: 'immune' },
+          ],
+        },
+      });
+
+      expect(describeCombatLogEntry(entry, 'Goblin')).toBe(
+        'Goblin took 11 damage: 6 fire (resisted), 5 slashing, 0 poison (immune)'
+      );
+    });
+
+    it('describes pending and rolled concentration saves', () => {
+      const pending = createLogEntry({
+        action: 'concentration_check',
+        details: { spellName: 'Bless', dc: 12, pending: true },
+      });
+      const failed = createLogEntry({
+        action: 'concentration_check',
+        details: { spellName: 'Web', dc: 10, pending: false, total: 7, success: false },
+      });
+
+      expect(describeCombatLogEntry(pending, 'Cleric')).toBe(
+        'Cleric must make a DC 12 Constitution save to keep concentrating on Bless'
+      );
+      expect(describeCombatLogEntry(failed, 'Mage')).toBe('Mage lost concentration on Web (rolled 7 vs DC 10)');
+    });
+
+    it('lists the effects that ended with concentration', () => {
+      const ended = createLogEntry({
+        action: 'concentration_ended',
+        details: {
+          spellName: 'Hold Person',
+          endedEffects: [
+            { id: 'effect-1', name: 'Paralyzed', participantId: 'goblin-1', duration: 10, startRound: 1, description: '' },
+            { id: 'effect-2', name: 'Paralyzed', participantId: 'goblin-2', duration: 10, startRound: 1, description: '' },
+          ],
+        },
+      });
+      const added = createLogEntry({ action: 'effect_added', details: { name: 'Bless' } });
+
+      expect(describeCombatLogEntry(ended, 'Cleric')).toBe(
+        'Cleric stopped concentrating on Hold Person; Paralyzed ended'
+      );
+      expect(describeCombatLogEntry(added, 'Fighter')).toBe('Fighter gained Bless');
+    });
+
+    it('describes saves against save-ends conditions', () => {
+      const pending = createLogEntry({
+        action: 'condition_save',
+        details: { condition: 'paralyzed', dc: 14, ability: 'wisdom', pending: true },
+      });
+      const saved = createLogEntry({
+        action: 'condition_save',
+        details: { condition: 'paralyzed', dc: 14, total: 16, success: true },
+      });
+      const failed = createLogEntry({
+        action: 'condition_save',
+        details: { condition: 'frightened', dc: 12, total: 8, success: false },
+      });
+
+      expect(describeCombatLogEntry(pending, 'Goblin')).toBe('Goblin must make a DC 14 Wisdom save to end paralyzed');
+      expect(describeCombatLogEntry(saved, 'Goblin')).toBe('Goblin is no longer paralyzed (rolled 16 vs DC 14)');
+      expect(describeCombatLogEntry(failed, 'Mage')).toBe('Mage is still frightened (rolled 8 vs DC 12)');
+    });
+
+    it('describes death saves', () => {
+      const roll = createLogEntry({
+        action: 'death_save',
+        details: { roll: 12, status: 'unconscious', successes: 1, failures: 2 },
+      });
+      const stable = createLogEntry({ action: 'death_save', details: { roll: 15, status: 'stable' } });
+
+      expect(describeCombatLogEntry(roll, 'Aria')).toBe('Aria rolled 12 on a death save (1 success, 2 failures)');
+      expect(describeCombatLogEntry(stable, 'Aria')).toBe('Aria rolled 15 on a death save and is stable');
+    });
+
+    it('describes lair and legendary actions', () => {
+      const lairTurn = createLogEntry({ action: 'turn_start', details: { lairAction: true } });
+      const legendary = createLogEntry({
+        action: 'legendary_action',
+        details: { cost: 2, remaining: 1, actionName: 'Tail Attack' },
+      });
+
+      expect(describeCombatLogEntry(lairTurn)).toBe('Lair action');
+      expect(describeCombatLogEntry(legendary, 'Dragon')).toBe(
+        'Dragon used Tail Attack (2 legendary actions), 1 left'
+      );
+    });
+
+    it('marks conditions that expired on their own', () => {
+      const entry = createLogEntry({
+        action: 'condition_removed',
+        details: { condition: 'stunned', reason: 'expired' },
+      });
+      expect(describeCombatLogEntry(entry, 'Goblin')).toBe('Goblin lost stunned (expired)');
+    });
+
+    it('falls back for unknown participants and actions', () => {
+      expect(describeCombatLogEntry(createLogEntry())).toBe("Unknown participant's turn started");
+      expect(describeCombatLogEntry(createLogEntry({ action: 'custom_thing' }))).toBe('custom thing');
+    });
+  });
+
+  describe('groupCombatLogByRound', () => {
+    it('groups entries by round in ascending order', () => {
+      const entries = [
+        createLogEntry({ action: 'round_start', round: 2 }),
+        createLogEntry({ action: 'combat_started', round: 1 }),
+        createLogEntry({ action: 'turn_start', round: 1, participantId: 'abc' }),
+      ];
+
+      const history = groupCombatLogByRound(entries, { abc: 'Aragorn' });
+
+      expect(history.map(entry => entry.round)).toEqual([1, 2]);
+      const firstRoundEvents = history[0].events as HistoryEvent[];
+      expect(firstRoundEvents.map(event => event.text)).toEqual([
+        'Combat started',
+        "Aragorn's turn started",
+      ]);
+      expect(firstRoundEvents[0].timestamp).toBeInstanceOf(Date);
+    });
+
+    it('returns an empty history for an empty log', () => {
+      expect(groupCombatLogByRound([])).toEqual([]);
+    });
+  });
+});
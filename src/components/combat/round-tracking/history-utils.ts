@@ -147,4 +147,208 @@ export function virtualizeHistory(
   // For virtualization, show only the first maxVisibleRounds entries
   // In a real implementation, this would be based on scroll position
   return filteredHistory.slice(0, Math.min(maxVisibleRounds, 20));
-}
\ No newline at end of file
+}
+
+/**
+ * Combat log entry as returned by the combat history API
+ */
+export interface CombatLogEntry {
+  action: string;
+  timestamp: string | Date;
+  round: number;
+  turn: number;
+  participantId?: string;
+  details?: Record<string, any>;
+  undone?: boolean;
+}
+
+const RESISTANCE_LABELS: Record<string, string> = {
+  resistant: 'resisted',
+  vulnerable: 'vulnerable',
+  immune: 'immune',
+};
+
+/**
+ * Describes typed damage instances, e.g. "6 fire (resisted), 5 slashing"
+ */
+function describeDamageInstances(instances: any[]): string {
+  return instances
+    .map(instance => {
+      const typed = instance.damageType
+        ? `${instance.finalDamage} ${instance.damageType}`
+        : `${instance.finalDamage}`;
+      const label = RESISTANCE_LABELS[instance.resistanceApplied];
+      return label ? `${typed} (${label})` : typed;
+    })
+    .join(', ');
+}
+
+/**
+ * Builds the display text for a damage log entry, including its typed breakdown
+ */
+function describeDamage(entry: CombatLogEntry, name: string, amount: unknown): string {
+  const text = `${name} took ${amount ?? 'some'} damage`;
+  const instances = entry.details?.instances;
+  const isBreakdownUseful = Array.isArray(instances)
+    && instances.some(instance => instance.damageType || instance.resistanceApplied !== 'normal');
+
+  return isBreakdownUseful ? `${text}: ${describeDamageInstances(instances)}` : text;
+}
+
+/**
+ * Lists the effects that ended with a concentration, e.g. "; Hold Person ended"
+ */
+function describeEndedEffects(entry: CombatLogEntry): string {
+  const ended: { name: string }[] = entry.details?.endedEffects ?? [];
+  if (ended.length === 0) return '';
+
+  const names = [...new Set(ended.map(effect => effect.name))];
+  return `; ${names.join(', ')} ended`;
+}
+
+/**
+ * Builds the display text for a save against a "save ends" condition, pending or rolled
+ */
+function describeConditionSave(entry: CombatLogEntry, name: string): string {
+  const { condition = 'a condition', dc, ability, pending, total, success } = entry.details ?? {};
+  if (pending) {
+    const save = ability ? `${ability.charAt(0).toUpperCase()}${ability.slice(1)} save` : 'save';
+    return `${name} must make a DC ${dc} ${save} to end ${condition}`;
+  }
+
+  const outcome = success ? `is no longer ${condition}` : `is still ${condition}`;
+  return `${name} ${outcome} (rolled ${total} vs DC ${dc})`;
+}
+
+/**
+ * Builds the display text for a concentration save, pending or rolled
+ */
+function describeConcentrationCheck(entry: CombatLogEntry, name: string): string {
+  const { spellName = 'a spell', dc, pending, total, success } = entry.details ?? {};
+  if (pending) {
+    return `${name} must make a DC ${dc} Constitution save to keep concentrating on ${spellName}`;
+  }
+
+  const outcome = success ? `kept concentrating on ${spellName}` : `lost concentration on ${spellName}`;
+  return `${name} ${outcome} (rolled ${total} vs DC ${dc})${describeEndedEffects(entry)}`;
+}
+
+/**
+ * Builds the display text for a death save prompt or roll
+ */
+function describeDeathSave(entry: CombatLogEntry, name: string): string {
+  const { pending, roll, regainedConsciousness, status, successes = 0, failures = 0 } = entry.details ?? {};
+  if (pending) return `${name} must make a death saving throw`;
+  if (regainedConsciousness) return `${name} rolled a natural 20 on a death save and regained 1 HP`;
+
+  const tally = `${successes} success${successes === 1 ? '' : 'es'}, ${failures} failure${failures === 1 ? '' : 's'}`;
+  if (status === 'dead') return `${name} rolled ${roll} on a death save and died`;
+  if (status === 'stable') return `${name} rolled ${roll} on a death save and is stable`;
+  return `${name} rolled ${roll} on a death save (${tally})`;
+}
+
+/**
+ * Builds the display text for spent legendary actions
+ */
+function describeLegendaryAction(entry: CombatLogEntry, name: string): string {
+  const { actionName, cost = 1, remaining } = entry.details ?? {};
+  const action = actionName ? `${actionName} (${cost} legendary action${cost === 1 ? '' : 's'})` : 'a legendary action';
+  return remaining === undefined ? `${name} used ${action}` : `${name} used ${action}, ${remaining} left`;
+}
+
+/**
+ * Builds the display text for a spent resource such as a spell slot
+ */
+function describeResourceSpent(entry: CombatLogEntry, name: string): string {
+  const { resourceName = 'a resource', amount = 1, remaining } = entry.details ?? {};
+  const spent = `${name} used ${amount} ${resourceName}`;
+  return remaining === undefined ? spent : `${spent}, ${remaining} left`;
+}
+
+/**
+ * Builds the display text for a resized legendary action pool
+ */
+function describeLegendaryPool(entry: CombatLogEntry, name: string): string {
+  const max = entry.details?.max ?? 0;
+  return max === 0 ? `${name} lost their legendary actions` : `${name} has ${max} legendary actions per round`;
+}
+
+/**
+ * Builds the display text for an added, resized or removed custom counter
+ */
+function describeResourceConfigured(entry: CombatLogEntry, name: string): string {
+  const { resourceName = 'a resource', max = 0 } = entry.details ?? {};
+  return max === 0 ? `${name} lost ${resourceName}` : `${name}'s ${resourceName} set to ${max}`;
+}
+
+/**
+ * Builds the display text for a single combat log entry
+ */
+export function describeCombatLogEntry(entry: CombatLogEntry, participantName?: string): string {
+  const name = participantName || 'Unknown participant';
+  const amount = entry.details?.amount ?? entry.details?.damage ?? entry.details?.healing;
+
+  switch (entry.action) {
+    case 'combat_started': return 'Combat started';
+    case 'combat_ended': return 'Combat ended';
+    case 'combat_paused': return 'Combat paused';
+    case 'combat_resumed': return 'Combat resumed';
+    case 'round_start': return `Round ${entry.round} started`;
+    case 'round_end': return `Round ${entry.round} ended`;
+    case 'turn_start': return entry.details?.lairAction ? 'Lair action' : `${name}'s turn started`;
+    case 'turn_end': return entry.details?.lairAction ? 'Lair action ended' : `${name}'s turn ended`;
+    case 'damage_dealt': return describeDamage(entry, name, amount);
+    case 'healing_applied': return `${name} healed ${amount ?? 'some'} HP`;
+    case 'condition_added': return `${name} gained ${entry.details?.condition ?? 'a condition'}`;
+    case 'condition_removed': {
+      const suffix = entry.details?.reason === 'expired' ? ' (expired)' : '';
+      return `${name} lost ${entry.details?.condition ?? 'a condition'}${suffix}`;
+    }
+    case 'condition_save': return describeConditionSave(entry, name);
+    case 'initiative_set': return `${name}'s initiative set to ${entry.details?.initiative ?? '?'}`;
+    case 'action_delayed': return `${name} delayed their action`;
+    case 'action_readied': return `${name} readied an action`;
+    case 'participant_added': return `${name} joined combat`;
+    case 'participant_removed': return `${name} left combat`;
+    case 'effect_added': return `${name} gained ${entry.details?.name ?? 'an effect'}`;
+    case 'effect_removed': return `${name} lost ${entry.details?.name ?? 'an effect'}`;
+    case 'concentration_started': return `${name} began concentrating on ${entry.details?.spellName ?? 'a spell'}`;
+    case 'concentration_check': return describeConcentrationCheck(entry, name);
+    case 'death_save': return describeDeathSave(entry, name);
+    case 'legendary_action': return describeLegendaryAction(entry, name);
+    case 'resource_spent': return describeResourceSpent(entry, name);
+    case 'legendary_actions_configured': return describeLegendaryPool(entry, name);
+    case 'resource_configured': return describeResourceConfigured(entry, name);
+    case 'resources_seeded': return 'Class resources refilled';
+    case 'rest_taken': return `The party took a ${entry.details?.type ?? 'short'} rest`;
+    case 'concentration_ended':
+      return `${name} stopped concentrating on ${entry.details?.spellName ?? 'a spell'}${describeEndedEffects(entry)}`;
+    default: return entry.action.replace(/_/g, ' ');
+  }
+}
+
+/**
+ * Groups persisted combat log entries into per-round history entries
+ */
+export function groupCombatLogByRound(
+  entries: CombatLogEntry[],
+  participantNames: Record<string, string> = {}
+): HistoryEntry[] {
+  const rounds = new Map<number, HistoryEvent[]>();
+
+  for (const entry of entries) {
+    const name = entry.participantId ? participantNames[entry.participantId] : undefined;
+    const events = rounds.get(entry.round) ?? [];
+    events.push({
+      text: entry.undone
+        ? `${describeCombatLogEntry(entry, name)} (undone)`
+        : describeCombatLogEntry(entry, name),
+      timestamp: new Date(entry.timestamp),
+    });
+    rounds.set(entry.round, events);
+  }
+
+  return Array.from(rounds.entries())
+    .sort(([a], [b]) => a - b)
+    .map(([round, events]) => ({ round, events }));
+}
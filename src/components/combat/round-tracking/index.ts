@@ -12,6 +12,7 @@
 
 export { RoundTracker } from './RoundTracker';
 export { RoundHistory } from './RoundHistory';
+export { CombatLogHistory } from './CombatLogHistory';
 export { useRoundTracking } from './useRoundTracking';
 export * from './round-utils';
 export * from './history-utils';
@@ -31,4 +32,5 @@ export type {
   HistoryEvent,
   HistoryEntry,
   HistoryStats,
+  CombatLogEntry,
 } from './history-utils';
\ No newline at end of file
@@ -3,9 +3,11 @@
 import { useMemo } from 'react';
 import { Encounter, InitiativeEntry, ParticipantReference } from '@/lib/validations/encounter';
 
-interface InitiativeWithParticipant {
+export interface InitiativeWithParticipant {
   entry: InitiativeEntry;
-  participant: ParticipantReference;
+
+  /** Null for the lair action turn, which has no participant */
+  participant: ParticipantReference | null;
 }
 
 export function useInitiativeData(encounter: Encounter) {
@@ -17,10 +19,12 @@ export function useInitiativeData(encounter: Encounter) {
     return encounter.combatState.initiativeOrder
       .map(entry => ({
         entry,
-        participant: participantMap.get(entry.participantId.toString()),
+        participant: entry.isLairAction
+          ? null
+          : participantMap.get(entry.participantId.toString()),
       }))
       .filter((item): item is InitiativeWithParticipant =>
-        Boolean(item.participant)
+        item.participant !== undefined
       );
   }, [encounter.participants, encounter.combatState.initiativeOrder]);
 
@@ -5,6 +5,7 @@
 
 import { createTestEncounter, makeEncounterActive, PARTICIPANT_IDS } from '@/lib/models/encounter/__tests__/combat-test-helpers';
 import { IEncounter, IParticipantReference } from '@/lib/models/encounter/interfaces';
+import type { ConditionName } from '@/lib/utils/conditions';
 
 /**
  * Creates a test encounter with specified round and turn
@@ -65,7 +66,7 @@ export function createEncounterWithParticipants(round: number = 2, turn: number
 /**
  * Creates test participant with conditions
  */
-export function createParticipantWithConditions(conditions: string[] = ['Poisoned', 'Prone']): IParticipantReference {
+export function createParticipantWithConditions(conditions: ConditionName[] = ['poisoned', 'prone']): IParticipantReference {
   return {
     characterId: PARTICIPANT_IDS.FIRST,
     name: 'Conditioned Character',
@@ -78,7 +79,7 @@ export function createParticipantWithConditions(conditions: string[] = ['Poisone
     isPlayer: true,
     isVisible: true,
     notes: 'Test notes',
-    conditions
+    conditions: conditions.map(name => ({ name, expiry: 'indefinite' as const }))
   };
 }
 
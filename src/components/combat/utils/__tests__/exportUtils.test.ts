@@ -30,7 +30,7 @@ describe('exportUtils', () => {
       encounter.name = 'Test Encounter';
 
       // Use the participant with conditions
-      encounter.participants = [createParticipantWithConditions(['Blessed', 'Haste'])];
+      encounter.participants = [createParticipantWithConditions(['blinded', 'invisible'])];
 
       const result = buildExportData(encounter);
 
@@ -45,7 +45,7 @@ describe('exportUtils', () => {
         hasActed: false,
         hitPoints: '20/25',
         armorClass: 16,
-        conditions: ['Blessed', 'Haste']
+        conditions: ['Blinded', 'Invisible']
       });
       expect(result.exportedAt).toBeDefined();
       expect(new Date(result.exportedAt)).toBeInstanceOf(Date);
@@ -1,19 +1,20 @@
 'use client';
 
 import { Encounter, InitiativeEntry, ParticipantReference } from '@/lib/validations/encounter';
+import { formatConditionName } from '@/lib/utils/conditions';
 
 /**
  * Transforms an initiative entry for export
  */
 function transformInitiativeEntry(entry: InitiativeEntry, participant: ParticipantReference | undefined) {
   return {
-    name: participant?.name || 'Unknown',
+    name: entry.isLairAction ? 'Lair Action' : participant?.name || 'Unknown',
     initiative: entry.initiative,
     dexterity: entry.dexterity,
     hasActed: entry.hasActed,
     hitPoints: participant ? `${participant.currentHitPoints}/${participant.maxHitPoints}` : 'Unknown',
     armorClass: participant?.armorClass || 'Unknown',
-    conditions: participant?.conditions || []
+    conditions: participant?.conditions.map(formatConditionName) || []
   };
 }
 
@@ -13,6 +13,10 @@ function formatInitiativeEntry(
 ): string {
   const activeIndicator = index === currentTurn ? '→ ' : '   ';
   const actedIndicator = entry.hasActed ? ' ✓' : '';
+  if (entry.isLairAction) {
+    return `${activeIndicator}${entry.initiative}: Lair Action${actedIndicator}`;
+  }
+
   const hpInfo = participant ? `${participant.currentHitPoints}/${participant.maxHitPoints}` : 'Unknown';
   const participantName = participant?.name || 'Unknown';
 
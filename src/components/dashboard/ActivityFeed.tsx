@@ -0,0 +1,85 @@
+import React from 'react';
+import { formatDistanceToNow } from 'date-fns';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import type {
+  DashboardActivity,
+  DashboardActivityType,
+  DashboardRecentItem,
+} from '@/lib/services/DashboardService';
+
+const ACTIVITY_LABELS: Record<DashboardActivityType, string> = {
+  encounter_created: 'Encounter',
+  combat_finished: 'Combat',
+  character_leveled: 'Level up',
+};
+
+const timeAgo = (date: Date | string) => formatDistanceToNow(new Date(date), { addSuffix: true });
+
+interface ActivityFeedProps {
+  activity: DashboardActivity[];
+  isLoading?: boolean;
+}
+
+/**
+ * Recent encounters, finished combats and level-ups, newest first
+ */
+export function ActivityFeed({ activity, isLoading = false }: ActivityFeedProps) {
+  return (
+    <Card data-testid="recent-activity-card">
+      <CardHeader>
+        <CardTitle>Recent Activity</CardTitle>
+      </CardHeader>
+      <CardContent>
+        {activity.length > 0 ? (
+          <ul data-testid="activity-feed" className="space-y-3" aria-label="Recent activity">
+            {activity.map(entry => (
+              <li key={entry.id} className="flex items-start justify-between gap-4 text-sm">
+                <div>
+                  <span className="text-xs uppercase text-muted-foreground mr-2">{ACTIVITY_LABELS[entry.type]}</span>
+                  {entry.description}
+                </div>
+                <span className="text-xs text-muted-foreground whitespace-nowrap">{timeAgo(entry.timestamp)}</span>
+              </li>
+            ))}
+          </ul>
+        ) : (
+          <div data-testid="activity-feed" className="text-center text-muted-foreground py-8">
+            {isLoading ? 'Loading activity...' : 'No recent activity to display'}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+/**
+ * The characters, encounters and parties edited most recently
+ */
+export function RecentlyEdited({ items }: { items: DashboardRecentItem[] }) {
+  return (
+    <Card data-testid="recently-edited-card">
+      <CardHeader>
+        <CardTitle>Recently Edited</CardTitle>
+      </CardHeader>
+      <CardContent>
+        {items.length > 0 ? (
+          <ul className="space-y-2" aria-label="Recently edited">
+            {items.map(item => (
+              <li key={`${item.type}-${item.id}`} className="flex justify-between gap-4 text-sm">
+                <span>
+                  <span className="font-medium">{item.name}</span>{' '}
+                  <span className="text-muted-foreground">{item.type}</span>
+                </span>
+                <span className="text-xs text-muted-foreground whitespace-nowrap">{timeAgo(item.updatedAt)}</span>
+              </li>
+            ))}
+          </ul>
+        ) : (
+          <div className="text-center text-muted-foreground py-4">
+            <p className="text-sm">Nothing edited yet</p>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
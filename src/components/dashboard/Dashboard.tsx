@@ -6,18 +6,13 @@ import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { SummaryCards } from './SummaryCards';
 import { QuickActions } from './QuickActions';
+import { InvitationsCard } from './InvitationsCard';
+import { ActivityFeed, RecentlyEdited } from './ActivityFeed';
 import { useDashboardStats } from '@/hooks/use-dashboard-stats';
 
 export function Dashboard() {
   const router = useRouter();
-  const { stats, isLoading, error } = useDashboardStats();
-
-  // Map the stats to match SummaryCards interface
-  const dashboardStats = {
-    characters: stats.characters,
-    encounters: stats.encounters,
-    activeSessions: stats.parties, // Map parties to activeSessions for now
-  };
+  const { stats, dashboard, isLoading, error } = useDashboardStats();
 
   // Real navigation handlers
   const handleCreateCharacter = () => {
@@ -48,7 +43,7 @@ export function Dashboard() {
       </div>
 
       {/* Summary Cards */}
-      <SummaryCards stats={dashboardStats} isLoading={isLoading} error={error} />
+      <SummaryCards stats={stats} usage={dashboard?.usage} isLoading={isLoading} error={error} />
 
       {/* Dashboard Grid */}
       <div data-testid="dashboard-widgets" className="grid grid-cols-1 lg:grid-cols-2 gap-6">
@@ -60,31 +55,13 @@ export function Dashboard() {
         />
 
         {/* Recent Activity */}
-        <Card data-testid="recent-activity-card">
-          <CardHeader>
-            <CardTitle>Recent Activity</CardTitle>
-          </CardHeader>
-          <CardContent>
-            <div data-testid="activity-feed" className="text-center text-muted-foreground py-8">
-              No recent activity to display
-            </div>
-          </CardContent>
-        </Card>
+        <ActivityFeed activity={dashboard?.activity ?? []} isLoading={isLoading} />
       </div>
 
       {/* Additional Widgets Row */}
       <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
-        {/* Notifications Widget */}
-        <Card>
-          <CardHeader>
-            <CardTitle>Notifications</CardTitle>
-          </CardHeader>
-          <CardContent>
-            <div className="text-center text-muted-foreground py-4">
-              <p className="text-sm">No new notifications</p>
-            </div>
-          </CardContent>
-        </Card>
+        {/* Collaboration Invitations */}
+        <InvitationsCard />
 
         {/* Tips Widget */}
         <Card>
@@ -98,17 +75,8 @@ export function Dashboard() {
           </CardContent>
         </Card>
 
-        {/* Stats Widget */}
-        <Card>
-          <CardHeader>
-            <CardTitle>Statistics</CardTitle>
-          </CardHeader>
-          <CardContent>
-            <div className="text-center text-muted-foreground py-4">
-              <p className="text-sm">Coming Soon</p>
-            </div>
-          </CardContent>
-        </Card>
+        {/* Recently Edited */}
+        <RecentlyEdited items={dashboard?.recent ?? []} />
       </div>
     </div>
   );
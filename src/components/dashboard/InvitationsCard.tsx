@@ -0,0 +1,60 @@
+'use client';
+
+import React, { useEffect } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { useInvitations } from '@/lib/hooks/useInvitations';
+import { ROLE_LABELS } from '@/lib/utils/collaboration';
+
+/**
+ * Pending encounter and party invitations with accept and decline actions
+ */
+export function InvitationsCard() {
+  const { invitations, error, isWorking, loadInvitations, respond } = useInvitations();
+
+  useEffect(() => {
+    loadInvitations();
+  }, [loadInvitations]);
+
+  return (
+    <Card data-testid="invitations-card">
+      <CardHeader>
+        <CardTitle>Invitations</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-2">
+        {error && <p className="text-sm text-destructive" role="alert">{error}</p>}
+
+        {invitations && invitations.length > 0 ? (
+          <ul className="space-y-2" aria-label="Pending invitations">
+            {invitations.map(invitation => (
+              <li key={invitation.id} className="p-2 border rounded space-y-2">
+                <p className="text-sm">
+                  <span className="font-medium">{invitation.invitedBy}</span> invited you to the{' '}
+                  {invitation.resourceType} <span className="font-medium">{invitation.resourceName}</span> as{' '}
+                  {ROLE_LABELS[invitation.role]}
+                </p>
+                <div className="flex gap-2">
+                  <Button size="sm" onClick={() => respond(invitation.id, 'accepted')} disabled={isWorking}>
+                    Accept
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => respond(invitation.id, 'declined')}
+                    disabled={isWorking}
+                  >
+                    Decline
+                  </Button>
+                </div>
+              </li>
+            ))}
+          </ul>
+        ) : (
+          <div className="text-center text-muted-foreground py-4">
+            <p className="text-sm">No pending invitations</p>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
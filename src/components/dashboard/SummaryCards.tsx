@@ -1,6 +1,7 @@
 import React from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { UserIcon, SwordIcon, ActivityIcon } from './icons';
+import type { DashboardUsage } from '@/lib/services/DashboardService';
 
 interface SummaryStats {
   characters?: number;
@@ -8,8 +9,14 @@ interface SummaryStats {
   activeSessions?: number;
 }
 
+interface SummaryUsage {
+  characters?: DashboardUsage;
+  encounters?: DashboardUsage;
+}
+
 interface SummaryCardsProps {
   stats: SummaryStats;
+  usage?: SummaryUsage;
   isLoading?: boolean;
   error?: string | null;
 }
@@ -19,10 +26,11 @@ interface SummaryCardProps {
   value: number;
   icon: React.ReactNode;
   testId: string;
+  usage?: DashboardUsage;
   isLoading?: boolean;
 }
 
-function SummaryCard({ title, value, icon, testId, isLoading = false }: SummaryCardProps) {
+function SummaryCard({ title, value, icon, testId, usage, isLoading = false }: SummaryCardProps) {
   return (
     <Card data-testid={`${testId}-card`}>
       <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
@@ -35,13 +43,18 @@ function SummaryCard({ title, value, icon, testId, isLoading = false }: SummaryC
         <div data-testid={`${testId}-value`} className="text-3xl font-bold">
           {isLoading ? '...' : value}
         </div>
+        {!isLoading && usage && (
+          <p data-testid={`${testId}-usage`} className="text-xs text-muted-foreground">
+            {usage.limit === null ? 'Unlimited on your plan' : `${usage.used} of ${usage.limit} on your plan`}
+          </p>
+        )}
       </CardContent>
     </Card>
   );
 }
 
 
-export function SummaryCards({ stats, isLoading = false, error }: SummaryCardsProps) {
+export function SummaryCards({ stats, usage, isLoading = false, error }: SummaryCardsProps) {
   const {
     characters = 0,
     encounters = 0,
@@ -71,6 +84,7 @@ export function SummaryCards({ stats, isLoading = false, error }: SummaryCardsPr
         value={characters}
         icon={<UserIcon />}
         testId="characters"
+        usage={usage?.characters}
         isLoading={isLoading}
       />
       <SummaryCard
@@ -78,6 +92,7 @@ export function SummaryCards({ stats, isLoading = false, error }: SummaryCardsPr
         value={encounters}
         icon={<SwordIcon />}
         testId="encounters"
+        usage={usage?.encounters}
         isLoading={isLoading}
       />
       <SummaryCard
@@ -5,6 +5,17 @@ import * as useDashboardStatsModule from '@/hooks/use-dashboard-stats';
 // Mock the useDashboardStats hook
 jest.mock('@/hooks/use-dashboard-stats');
 
+// Invitations are covered by InvitationsCard.test.tsx
+jest.mock('@/lib/hooks/useInvitations', () => ({
+  useInvitations: () => ({
+    invitations: [],
+    error: null,
+    isWorking: false,
+    loadInvitations: jest.fn(),
+    respond: jest.fn(),
+  }),
+}));
+
 // Mock Next.js router
 const mockPush = jest.fn();
 const mockRouter = {
@@ -34,7 +45,8 @@ describe('Dashboard', () => {
     mockPush.mockClear();
     // Default mock implementation
     mockUseDashboardStats.mockReturnValue({
-      stats: { characters: 0, encounters: 0, parties: 0 },
+      stats: { characters: 0, encounters: 0, parties: 0, activeSessions: 0 },
+      dashboard: null,
       isLoading: false,
       error: null,
       refetch: jest.fn(),
@@ -74,7 +86,8 @@ describe('Dashboard', () => {
 
     test('summary cards display real statistics from API', () => {
       mockUseDashboardStats.mockReturnValue({
-        stats: { characters: 5, encounters: 3, parties: 2 },
+        stats: { characters: 5, encounters: 3, parties: 2, activeSessions: 2 },
+        dashboard: null,
         isLoading: false,
         error: null,
         refetch: jest.fn(),
@@ -87,12 +100,13 @@ describe('Dashboard', () => {
 
       expect(characterValue).toHaveTextContent('5');
       expect(encounterValue).toHaveTextContent('3');
-      expect(sessionsValue).toHaveTextContent('2'); // parties mapped to activeSessions
+      expect(sessionsValue).toHaveTextContent('2');
     });
 
     test('summary cards display loading state', () => {
       mockUseDashboardStats.mockReturnValue({
-        stats: { characters: 0, encounters: 0, parties: 0 },
+        stats: { characters: 0, encounters: 0, parties: 0, activeSessions: 0 },
+        dashboard: null,
         isLoading: true,
         error: null,
         refetch: jest.fn(),
@@ -110,7 +124,8 @@ describe('Dashboard', () => {
 
     test('summary cards display error state', () => {
       mockUseDashboardStats.mockReturnValue({
-        stats: { characters: 0, encounters: 0, parties: 0 },
+        stats: { characters: 0, encounters: 0, parties: 0, activeSessions: 0 },
+        dashboard: null,
         isLoading: false,
         error: 'Failed to load dashboard statistics',
         refetch: jest.fn(),
@@ -160,6 +175,40 @@ describe('Dashboard', () => {
       renderDashboard();
       expectTextToBeInDocument(/no recent activity/i);
     });
+
+    test('lists activity and tier usage from the dashboard endpoint', () => {
+      mockUseDashboardStats.mockReturnValue({
+        stats: { characters: 4, encounters: 2, parties: 1, activeSessions: 1 },
+        dashboard: {
+          counts: { characters: 4, encounters: 2, parties: 1, activeSessions: 1 },
+          subscriptionTier: 'free',
+          usage: {
+            characters: { used: 4, limit: 10 },
+            encounters: { used: 2, limit: 3 },
+            parties: { used: 1, limit: 1 },
+          },
+          recent: [{ type: 'party', id: 'party-1', name: 'The Brave Few', updatedAt: new Date() }],
+          activeSessions: [],
+          activity: [{
+            id: 'level-1',
+            type: 'character_leveled',
+            entityId: 'char-1',
+            entityName: 'Bruni',
+            description: 'Bruni leveled up to Fighter 5 (level 5)',
+            timestamp: new Date(),
+          }],
+        },
+        isLoading: false,
+        error: null,
+        refetch: jest.fn(),
+      });
+
+      renderDashboard();
+
+      expectTextToBeInDocument('Bruni leveled up to Fighter 5 (level 5)');
+      expectTextToBeInDocument('The Brave Few');
+      expect(screen.getByTestId('encounters-usage')).toHaveTextContent('2 of 3 on your plan');
+    });
   });
 
   describe('Customization Features', () => {
@@ -0,0 +1,57 @@
+import { render, screen } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { InvitationsCard } from '../InvitationsCard';
+
+const mockFetch = jest.fn();
+global.fetch = mockFetch;
+
+const jsonResponse = (body: unknown, ok = true) => ({ ok, json: async () => body });
+
+const invitation = {
+  id: 'invitation-1',
+  resourceType: 'party',
+  resourceId: 'party-1',
+  resourceName: 'The Brave Few',
+  role: 'co_dm',
+  invitedBy: 'dungeonmaster',
+  invitedAt: '2030-01-01T00:00:00.000Z',
+};
+
+describe('InvitationsCard', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  test('shows pending invitations and accepts one', async () => {
+    const user = userEvent.setup();
+    mockFetch
+      .mockResolvedValueOnce(jsonResponse({ success: true, invitations: [invitation] }))
+      .mockResolvedValueOnce(jsonResponse({ success: true, invitation }));
+
+    render(<InvitationsCard />);
+
+    expect(await screen.findByText('The Brave Few')).toBeInTheDocument();
+    expect(screen.getByText(/as Co-DM/)).toBeInTheDocument();
+
+    await user.click(screen.getByRole('button', { name: 'Accept' }));
+
+    expect(await screen.findByText('No pending invitations')).toBeInTheDocument();
+    expect(mockFetch).toHaveBeenLastCalledWith('/api/collaborators/invitation-1', expect.objectContaining({
+      method: 'PATCH',
+      body: JSON.stringify({ status: 'accepted' }),
+    }));
+  });
+
+  test('keeps the invitation when answering fails', async () => {
+    const user = userEvent.setup();
+    mockFetch
+      .mockResolvedValueOnce(jsonResponse({ success: true, invitations: [invitation] }))
+      .mockResolvedValueOnce(jsonResponse({ success: false, message: 'This invitation was already declined' }, false));
+
+    render(<InvitationsCard />);
+    await user.click(await screen.findByRole('button', { name: 'Decline' }));
+
+    expect(await screen.findByRole('alert')).toHaveTextContent('This invitation was already declined');
+    expect(screen.getByText('The Brave Few')).toBeInTheDocument();
+  });
+});
@@ -85,4 +85,19 @@ describe('SummaryCards', () => {
       expect(screen.getByTestId('active-sessions-value')).toHaveTextContent('0');
     });
   });
-});
\ No newline at end of file
+
+  describe('Tier Usage', () => {
+    test('shows usage against the plan limit', () => {
+      render(
+        <SummaryCards
+          stats={mockStats}
+          usage={{ characters: { used: 5, limit: 10 }, encounters: { used: 12, limit: null } }}
+        />
+      );
+
+      expect(screen.getByTestId('characters-usage')).toHaveTextContent('5 of 10 on your plan');
+      expect(screen.getByTestId('encounters-usage')).toHaveTextContent('Unlimited on your plan');
+      expect(screen.queryByTestId('active-sessions-usage')).not.toBeInTheDocument();
+    });
+  });
+});
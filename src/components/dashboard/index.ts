@@ -1,4 +1,6 @@
 export { Dashboard } from './Dashboard';
 export { SummaryCards } from './SummaryCards';
 export { QuickActions } from './QuickActions';
+export { InvitationsCard } from './InvitationsCard';
+export { ActivityFeed, RecentlyEdited } from './ActivityFeed';
 export { UserIcon, SwordIcon, ActivityIcon } from './icons';
\ No newline at end of file
@@ -2,7 +2,7 @@
 
 import { Button } from '@/components/ui/button';
 import { Filter, X } from 'lucide-react';
-import type { EncounterFilters as Filters, SortConfig, FilterCallbacks } from './types';
+import type { EncounterFilters as Filters, SortConfig, FilterCallbacks, CampaignFilterOption } from './types';
 import { SearchInput } from './filters/SearchInput';
 import { FilterDropdown } from './filters/FilterDropdown';
 import { SortDropdown } from './filters/SortDropdown';
@@ -15,6 +15,7 @@ interface EncounterFiltersProps {
   searchQuery: string;
   sortConfig: SortConfig;
   callbacks: FilterCallbacks;
+  campaigns?: CampaignFilterOption[];
 }
 
 export function EncounterFilters({
@@ -22,6 +23,7 @@ export function EncounterFilters({
   searchQuery,
   sortConfig,
   callbacks,
+  campaigns = [],
 }: EncounterFiltersProps) {
   const { sortBy, sortOrder } = sortConfig;
   const { onFiltersChange, onSearchChange, onSortChange, onClearFilters } = callbacks;
@@ -49,6 +51,22 @@ export function EncounterFilters({
           onSelectionChange={handleDifficultyChange}
         />
 
+        {campaigns.length > 0 && (
+          <select
+            aria-label="Filter by campaign"
+            className="h-9 rounded-md border border-input bg-background px-3 py-1 text-sm"
+            value={filters.campaignId ?? ''}
+            onChange={(e) => onFiltersChange({ campaignId: e.target.value || undefined })}
+          >
+            <option value="">All Campaigns</option>
+            {campaigns.map((campaign) => (
+              <option key={campaign.id} value={campaign.id}>
+                {campaign.name}
+              </option>
+            ))}
+          </select>
+        )}
+
         <SortDropdown
           sortBy={sortBy}
           sortOrder={sortOrder}
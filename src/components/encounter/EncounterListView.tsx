@@ -7,6 +7,7 @@ import { Pagination } from '@/components/shared/Pagination';
 import { useEncounterData } from './hooks/useEncounterData';
 import { useEncounterFilters } from './hooks/useEncounterFilters';
 import { useEncounterSelection } from './hooks/useEncounterSelection';
+import { useCampaignOptions } from '@/lib/hooks/useCampaignOptions';
 import { ErrorFallback } from './EncounterListView/ErrorFallback';
 import { ControlsSection } from './EncounterListView/ControlsSection';
 import { ContentSection } from './EncounterListView/ContentSection';
@@ -20,6 +21,7 @@ import {
 export function EncounterListView() {
   const [viewMode, setViewMode] = useState<'grid' | 'table'>('grid');
   const router = useRouter();
+  const campaigns = useCampaignOptions();
 
   const {
     filters,
@@ -77,6 +79,7 @@ export function EncounterListView() {
         searchQuery={searchQuery}
         sortConfig={configs.sort}
         filterCallbacks={configs.filterCallbacks}
+        campaigns={campaigns}
         viewMode={viewMode}
         onViewModeChange={setViewMode}
         onCreateEncounter={handleCreateEncounter}
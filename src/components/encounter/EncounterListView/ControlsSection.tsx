@@ -6,7 +6,8 @@ import { ViewModeToggle } from '@/components/shared/ViewModeToggle';
 import type {
   EncounterFilters as Filters,
   SortConfig,
-  FilterCallbacks
+  FilterCallbacks,
+  CampaignFilterOption
 } from '../types';
 
 interface ControlsSectionProps {
@@ -14,6 +15,7 @@ interface ControlsSectionProps {
   searchQuery: string;
   sortConfig: SortConfig;
   filterCallbacks: FilterCallbacks;
+  campaigns?: CampaignFilterOption[];
   viewMode: 'grid' | 'table';
   onViewModeChange: (_mode: 'grid' | 'table') => void;
   onCreateEncounter: () => void;
@@ -24,6 +26,7 @@ export function ControlsSection({
   searchQuery,
   sortConfig,
   filterCallbacks,
+  campaigns,
   viewMode,
   onViewModeChange,
   onCreateEncounter,
@@ -35,6 +38,7 @@ export function ControlsSection({
         searchQuery={searchQuery}
         sortConfig={sortConfig}
         callbacks={filterCallbacks}
+        campaigns={campaigns}
       />
 
       <div className="flex items-center space-x-4">
@@ -0,0 +1,59 @@
+'use client';
+
+import React, { useState } from 'react';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Button } from '@/components/ui/button';
+import { useNPCTemplateSearch } from '@/lib/hooks/useNPCTemplateSearch';
+import { formatChallengeRating, type NPCTemplate } from '@/types/npc';
+
+const MAX_RESULTS = 8;
+
+interface MonsterCompendiumPickerProps {
+  onSelect: (_template: NPCTemplate) => void;
+}
+
+export function MonsterCompendiumPicker({ onSelect }: MonsterCompendiumPickerProps) {
+  const [search, setSearch] = useState('');
+  const query = search.trim();
+  const results = useNPCTemplateSearch(
+    { search: query, isSystem: true, limit: MAX_RESULTS },
+    query.length >= 2
+  );
+
+  const handleSelect = (template: NPCTemplate) => {
+    onSelect(template);
+    setSearch('');
+  };
+
+  return (
+    <div className="space-y-2">
+      <Label htmlFor="monsterSearch">Monster Compendium</Label>
+      <Input
+        id="monsterSearch"
+        value={search}
+        onChange={(e) => setSearch(e.target.value)}
+        placeholder="Search SRD monsters by name or type"
+      />
+      {results.length > 0 && (
+        <ul className="max-h-48 overflow-y-auto rounded-md border" aria-label="Compendium results">
+          {results.map(template => (
+            <li key={template.id}>
+              <Button
+                type="button"
+                variant="ghost"
+                className="w-full justify-between"
+                onClick={() => handleSelect(template)}
+              >
+                <span>{template.name}</span>
+                <span className="text-xs text-muted-foreground">
+                  CR {formatChallengeRating(template.challengeRating)} · {template.size} {template.category}
+                </span>
+              </Button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
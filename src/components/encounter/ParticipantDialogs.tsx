@@ -11,9 +11,13 @@ import {
   DialogTitle,
   DialogTrigger,
 } from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
 import { Plus, Download } from 'lucide-react';
 import { ParticipantForm } from './ParticipantForm';
 import { CharacterLibraryInterface } from './CharacterLibraryInterface';
+import { MonsterCompendiumPicker } from './MonsterCompendiumPicker';
+import { convertTemplateToParticipant } from './utils/templateConversion';
 import type { ParticipantFormData } from './hooks/useParticipantForm';
 import type { Character } from '@/lib/validations/character';
 
@@ -33,6 +37,7 @@ interface FormDialogProps extends BaseDialogProps {
   onFormDataChange: (_data: ParticipantFormData) => void;
   submitLabel: string;
   loadingLabel: string;
+  children?: React.ReactNode;
 }
 
 const FormDialog = ({
@@ -48,6 +53,7 @@ const FormDialog = ({
   onFormDataChange,
   submitLabel,
   loadingLabel,
+  children,
 }: FormDialogProps) => (
   <Dialog open={isOpen} onOpenChange={onOpenChange}>
     <DialogContent>
@@ -55,6 +61,7 @@ const FormDialog = ({
         <DialogTitle>{title}</DialogTitle>
         <DialogDescription>{description}</DialogDescription>
       </DialogHeader>
+      {children}
       <ParticipantForm
         formData={formData}
         formErrors={formErrors}
@@ -100,6 +107,29 @@ interface ParticipantDialogsProps {
   onResetForm: () => void;
 }
 
+const CopiesField = ({ formData, formErrors, onFormDataChange }: Pick<FormDialogProps, 'formData' | 'formErrors' | 'onFormDataChange'>) => (
+  <div className="space-y-2">
+    <Label htmlFor="quantity">Copies</Label>
+    <Input
+      id="quantity"
+      type="number"
+      min="1"
+      value={formData.quantity}
+      onChange={(e) => {
+        const value = parseInt(e.target.value, 10);
+        onFormDataChange({ ...formData, quantity: isNaN(value) ? 1 : value });
+      }}
+      className={formErrors.quantity ? 'border-red-500' : ''}
+    />
+    {formErrors.quantity && <p className="text-sm text-red-500">{formErrors.quantity}</p>}
+    {formData.quantity > 1 && (
+      <p className="text-sm text-muted-foreground">
+        Copies are numbered, e.g. {formData.name.trim() || 'Goblin'} 1, {formData.name.trim() || 'Goblin'} 2
+      </p>
+    )}
+  </div>
+);
+
 export function AddParticipantDialog({
   isAddDialogOpen,
   onAddDialogOpenChange,
@@ -133,7 +163,14 @@ export function AddParticipantDialog({
         onFormDataChange={onFormDataChange}
         submitLabel="Add Participant"
         loadingLabel="Adding..."
-      />
+      >
+        <div className="grid grid-cols-[1fr_auto] gap-4">
+          <MonsterCompendiumPicker
+            onSelect={(template) => onFormDataChange(convertTemplateToParticipant(template, formData))}
+          />
+          <CopiesField formData={formData} formErrors={formErrors} onFormDataChange={onFormDataChange} />
+        </div>
+      </FormDialog>
     </>
   );
 }
@@ -122,11 +122,53 @@ const StatFields = ({ formData, formErrors, onFormDataChange }: ParticipantFormP
   </div>
 );
 
+// Player characters are rated by level, everything else by challenge rating
+const RatingField = ({ formData, formErrors, onFormDataChange }: ParticipantFormProps) =>
+  formData.type === 'pc' ? (
+    <FormField label="Level" error={formErrors.level} htmlFor="level">
+      <Input
+        id="level"
+        type="number"
+        min="1"
+        max="20"
+        value={formData.level ?? ''}
+        onChange={(e) =>
+          onFormDataChange({
+            ...formData,
+            level: e.target.value ? parseInt(e.target.value, 10) : undefined,
+          })
+        }
+        placeholder="Used for encounter difficulty"
+        className={formErrors.level ? 'border-red-500' : ''}
+      />
+    </FormField>
+  ) : (
+    <FormField label="Challenge Rating" error={formErrors.challengeRating} htmlFor="challengeRating">
+      <Input
+        id="challengeRating"
+        type="number"
+        min="0"
+        max="30"
+        step="0.125"
+        value={formData.challengeRating ?? ''}
+        onChange={(e) =>
+          onFormDataChange({
+            ...formData,
+            challengeRating: e.target.value ? parseFloat(e.target.value) : undefined,
+          })
+        }
+        placeholder="Used for encounter difficulty"
+        className={formErrors.challengeRating ? 'border-red-500' : ''}
+      />
+    </FormField>
+  );
+
 export function ParticipantForm({ formData, formErrors, onFormDataChange }: ParticipantFormProps) {
   return (
     <div className="space-y-4">
       <BasicFields formData={formData} formErrors={formErrors} onFormDataChange={onFormDataChange} />
       <StatFields formData={formData} formErrors={formErrors} onFormDataChange={onFormDataChange} />
+      <RatingField formData={formData} formErrors={formErrors} onFormDataChange={onFormDataChange} />
       <FormField label="Notes" htmlFor="notes">
         <Input
           id="notes"
@@ -426,13 +426,26 @@ describe('CharacterLibraryIntegration', () => {
         currentHitPoints: character.hitPoints.current,
         temporaryHitPoints: character.hitPoints.temporary,
         armorClass: character.armorClass,
+        level: 5,
         isPlayer: character.type === 'pc',
         isVisible: true,
         notes: '',
         conditions: [],
+        quantity: 1,
       });
     });
 
+    it('should use the total level across classes', () => {
+      const multiclass = createMockCharacter({
+        classes: [
+          { class: 'fighter', level: 5, hitDie: 10, subclass: undefined },
+          { class: 'wizard', level: 3, hitDie: 6, subclass: undefined },
+        ],
+      });
+
+      expect(convertCharacterToParticipant(multiclass).level).toBe(8);
+    });
+
     it('should handle NPC character type conversion', () => {
       const npcCharacter = createMockCharacter({
         type: 'npc',
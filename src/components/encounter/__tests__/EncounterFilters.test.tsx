@@ -223,6 +223,41 @@ describe('EncounterFilters', () => {
     });
   });
 
+  describe('Campaign Filter', () => {
+    const campaigns = [
+      { id: 'campaign-1', name: 'Curse of the Drowned King' },
+      { id: 'campaign-2', name: 'Ashes of Vel' },
+    ];
+
+    it('hides the campaign filter when the user has no campaigns', () => {
+      render(<EncounterFilters {...createMockProps.encounterFilters()} />);
+
+      expect(screen.queryByLabelText('Filter by campaign')).not.toBeInTheDocument();
+    });
+
+    it('filters by the selected campaign', async () => {
+      const props = createMockProps.encounterFilters({ campaigns });
+      render(<EncounterFilters {...props} />);
+
+      await user.selectOptions(screen.getByLabelText('Filter by campaign'), 'campaign-2');
+
+      expect(props.callbacks.onFiltersChange).toHaveBeenCalledWith({ campaignId: 'campaign-2' });
+    });
+
+    it('clears the campaign filter when All Campaigns is selected', async () => {
+      const props = createMockProps.encounterFilters({
+        campaigns,
+        filters: createMockFilters({ campaignId: 'campaign-1' }),
+      });
+      render(<EncounterFilters {...props} />);
+
+      expect(screen.getByText('Clear')).toBeInTheDocument();
+      await user.selectOptions(screen.getByLabelText('Filter by campaign'), '');
+
+      expect(props.callbacks.onFiltersChange).toHaveBeenCalledWith({ campaignId: undefined });
+    });
+  });
+
   describe('Filter State Detection', () => {
     it('detects active filters correctly', () => {
       testConditionalRendering(
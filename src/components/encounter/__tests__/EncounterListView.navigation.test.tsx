@@ -36,6 +36,10 @@ jest.mock('../hooks/useEncounterSelection', () => {
   };
 });
 
+jest.mock('@/lib/hooks/useCampaignOptions', () => ({
+  useCampaignOptions: () => [],
+}));
+
 jest.mock('../EncounterListView/ErrorFallback', () => ({
   ErrorFallback: ({ onRetry }: any) => (
     <div data-testid="error-fallback">
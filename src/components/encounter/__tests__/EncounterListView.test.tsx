@@ -58,6 +58,10 @@ jest.mock('../hooks/useEncounterSelection', () => ({
   useEncounterSelection: () => mockUseEncounterSelection,
 }));
 
+jest.mock('@/lib/hooks/useCampaignOptions', () => ({
+  useCampaignOptions: () => [],
+}));
+
 // Mock next/navigation for useRouter hook
 jest.mock('next/navigation', () => ({
   useRouter: () => ({
@@ -3,6 +3,7 @@ import { render, screen, waitFor } from '@testing-library/react';
 import userEvent from '@testing-library/user-event';
 import { EncounterParticipantManager } from '../EncounterParticipantManager';
 import { EncounterService } from '@/lib/services/EncounterService';
+import { SRD_TEMPLATES } from '@/lib/services/NPCTemplateData';
 import { testDataFactories } from '@/lib/services/__tests__/testDataFactories';
 import {
   formActions,
@@ -113,6 +114,44 @@ describe('EncounterParticipantManager', () => {
       );
     });
 
+    it('should add numbered copies of a compendium monster', async () => {
+      const ogreZombie = SRD_TEMPLATES.find(template => template.name === 'Ogre Zombie');
+      global.fetch = jest.fn().mockResolvedValue({ json: async () => ({ success: true, templates: [ogreZombie] }) });
+      mockEncounterService.addParticipantsBulk = jest.fn().mockResolvedValue({ success: true, data: mockEncounter });
+      const user = await testPatterns.setupTest(() => renderComponent(mockEncounter));
+
+      await formActions.openDialog(user);
+      await user.type(screen.getByLabelText(/Monster Compendium/i), 'ogre zombie');
+      await user.click(await screen.findByRole('button', { name: /^Ogre Zombie/ }));
+      expect(global.fetch).toHaveBeenLastCalledWith('/api/npc-templates?search=ogre+zombie&isSystem=true&limit=8');
+      await formActions.fillNumberField(/Copies/i, '3');
+      await formActions.submit(user, 'Add Participant');
+
+      await waitFor(() => {
+        expect(mockEncounterService.addParticipantsBulk).toHaveBeenCalledWith(
+          mockEncounter._id.toString(),
+          ['Ogre Zombie 1', 'Ogre Zombie 2', 'Ogre Zombie 3'].map(name => expect.objectContaining({
+            name,
+            type: 'monster',
+            maxHitPoints: 85,
+            armorClass: 8,
+            challengeRating: 2,
+            isPlayer: false,
+          }))
+        );
+      });
+      expect(mockEncounterService.addParticipant).not.toHaveBeenCalled();
+    });
+
+    it('should ask for a level when adding a player character', async () => {
+      const user = await testPatterns.setupTest(() => renderComponent(mockEncounter));
+
+      await formActions.openDialog(user);
+
+      expect(screen.getByLabelText('Level')).toBeInTheDocument();
+      expect(screen.queryByLabelText('Challenge Rating')).not.toBeInTheDocument();
+    });
+
     it('should show validation errors for invalid input', async () => {
       const user = await testPatterns.setupTest(() => renderComponent(mockEncounter));
       await workflows.addParticipant(user, { name: '', hitPoints: '0' });
@@ -253,6 +292,26 @@ describe('EncounterParticipantManager', () => {
     });
   });
 
+  describe('Difficulty Ratings', () => {
+    it('should save the challenge rating of an NPC', async () => {
+      const user = await testSetupPatterns.setupUserAndRender(() => renderComponent(mockEncounter));
+      testSetupPatterns.setupServiceMock(mockEncounterService, 'updateParticipant', { success: true, data: mockEncounter });
+
+      const { editButtons } = getElements();
+      await user.click(editButtons[1]); // Edit Goblin Scout
+      await formActions.fillNumberField(/Challenge Rating/i, '0.25');
+      await formActions.submit(user, 'Update Participant');
+
+      await waitFor(() => {
+        serviceMocks.expectCall(mockEncounterService, 'updateParticipant', [
+          mockEncounter._id.toString(),
+          '64a1b2c3d4e5f6789abcdef1',
+          expect.objectContaining({ type: 'npc', challengeRating: 0.25 })
+        ]);
+      });
+    });
+  });
+
   describe('Participant Role Assignment', () => {
     it('should allow changing participant roles', async () => {
       const user = await testSetupPatterns.setupUserAndRender(() => renderComponent(mockEncounter));
@@ -11,11 +11,14 @@ const hasLevelFilters = (filters: Filters): boolean =>
 
 const hasTagFilters = (filters: Filters): boolean => filters.tags.length > 0;
 
+const hasCampaignFilter = (filters: Filters): boolean => !!filters.campaignId;
+
 const hasAnyFilter = (filters: Filters): boolean => {
   return hasStatusFilters(filters) ||
     hasDifficultyFilters(filters) ||
     hasLevelFilters(filters) ||
-    hasTagFilters(filters);
+    hasTagFilters(filters) ||
+    hasCampaignFilter(filters);
 };
 
 export const checkHasActiveFilters = (filters: Filters, searchQuery: string): boolean => {
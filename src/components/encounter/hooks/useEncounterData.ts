@@ -1,6 +1,7 @@
 'use client';
 
 import { useState, useEffect, useCallback } from 'react';
+import { useAuth } from '@clerk/nextjs';
 import type { EncounterListItem, EncounterFilters, SortBy, SortOrder, PaginationInfo } from '../types';
 import {
   fetchEncountersData,
@@ -34,6 +35,7 @@ export function useEncounterData({
   page = 1,
   limit = 20,
 }: UseEncounterDataParams): UseEncounterDataReturn {
+  const { userId } = useAuth();
   const [encounters, setEncounters] = useState<EncounterListItem[]>([]);
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
@@ -65,7 +67,8 @@ export function useEncounterData({
         sortBy,
         sortOrder,
         currentPage,
-        limit
+        limit,
+        userId
       );
       handleSuccessfulResponse(data);
     } catch (err) {
@@ -73,7 +76,7 @@ export function useEncounterData({
     } finally {
       setIsLoading(false);
     }
-  }, [filters, searchQuery, sortBy, sortOrder, currentPage, limit, handleSuccessfulResponse, handleErrorResponse]);
+  }, [filters, searchQuery, sortBy, sortOrder, currentPage, limit, userId, handleSuccessfulResponse, handleErrorResponse]);
 
   const goToPage = useCallback((newPage: number) => {
     setCurrentPage(newPage);
@@ -20,6 +20,7 @@ const initialFilters: EncounterFilters = {
   targetLevelMin: undefined,
   targetLevelMax: undefined,
   tags: [],
+  campaignId: undefined,
 };
 
 export function useEncounterFilters(): UseEncounterFiltersReturn {
@@ -1,7 +1,21 @@
 import { useCallback, useState } from 'react';
-import type { IParticipantReference } from '@/lib/models/encounter/interfaces';
+import type { IParticipantCondition, IParticipantReference } from '@/lib/models/encounter/interfaces';
 
-export interface ParticipantFormData {
+/**
+ * Combat details filled in when a participant is picked from the monster compendium
+ */
+export type ParticipantTemplateDetails = Partial<Pick<
+  IParticipantReference,
+  | 'challengeRating'
+  | 'damageResistances'
+  | 'damageVulnerabilities'
+  | 'damageImmunities'
+  | 'conditionImmunities'
+  | 'constitutionSave'
+  | 'legendaryActions'
+>>;
+
+export interface ParticipantFormData extends ParticipantTemplateDetails {
   name: string;
   type: 'pc' | 'npc' | 'monster';
   maxHitPoints: number;
@@ -9,10 +23,12 @@ export interface ParticipantFormData {
   temporaryHitPoints: number;
   armorClass: number;
   initiative?: number;
+  level?: number;
   isPlayer: boolean;
   isVisible: boolean;
   notes: string;
-  conditions: string[];
+  conditions: IParticipantCondition[];
+  quantity: number;
 }
 
 const initialFormData: ParticipantFormData = {
@@ -27,6 +43,7 @@ const initialFormData: ParticipantFormData = {
   isVisible: true,
   notes: '',
   conditions: [],
+  quantity: 1,
 };
 
 export const useParticipantForm = () => {
@@ -48,6 +65,18 @@ export const useParticipantForm = () => {
       errors.armorClass = 'Armor Class cannot be negative';
     }
 
+    if (data.level !== undefined && (!Number.isInteger(data.level) || data.level < 1 || data.level > 20)) {
+      errors.level = 'Level must be between 1 and 20';
+    }
+
+    if (data.challengeRating !== undefined && (data.challengeRating < 0 || data.challengeRating > 30)) {
+      errors.challengeRating = 'Challenge Rating must be between 0 and 30';
+    }
+
+    if (!Number.isInteger(data.quantity) || data.quantity < 1) {
+      errors.quantity = 'Copies must be at least 1';
+    }
+
     return errors;
   }, []);
 
@@ -65,10 +94,13 @@ export const useParticipantForm = () => {
       temporaryHitPoints: participant.temporaryHitPoints,
       armorClass: participant.armorClass,
       initiative: participant.initiative,
+      level: participant.level,
+      challengeRating: participant.challengeRating,
       isPlayer: participant.isPlayer,
       isVisible: participant.isVisible,
       notes: participant.notes,
       conditions: participant.conditions,
+      quantity: 1,
     });
   }, []);
 
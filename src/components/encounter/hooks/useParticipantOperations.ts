@@ -4,34 +4,26 @@ import { EncounterService } from '@/lib/services/EncounterService';
 import type { IEncounter } from '@/lib/models/encounter/interfaces';
 import { handleServiceOperation } from '../utils/serviceOperationUtils';
 import { convertCharactersToParticipantData } from '../utils/characterConversion';
+import { numberParticipantNames } from '../utils/templateConversion';
+import type { ParticipantFormData } from './useParticipantForm';
 import type { Character } from '@/lib/validations/character';
 
 // Helper functions to reduce complexity
-const createParticipantData = (data: ParticipantFormData) => ({
+const createParticipantData = ({ quantity: _quantity, ...data }: ParticipantFormData) => ({
   ...data,
   characterId: new Types.ObjectId().toString(),
   currentHitPoints: data.maxHitPoints,
 });
 
+const createNumberedCopies = (formData: ParticipantFormData, existingNames: string[]) =>
+  numberParticipantNames(formData.name, formData.quantity, existingNames)
+    .map(name => createParticipantData({ ...formData, name }));
+
 const createUpdateData = (formData: ParticipantFormData) => {
   const { characterId: _characterId, ...updateData } = createParticipantData(formData);
   return updateData;
 };
 
-interface ParticipantFormData {
-  name: string;
-  type: 'pc' | 'npc' | 'monster';
-  maxHitPoints: number;
-  currentHitPoints: number;
-  temporaryHitPoints: number;
-  armorClass: number;
-  initiative?: number;
-  isPlayer: boolean;
-  isVisible: boolean;
-  notes: string;
-  conditions: string[];
-}
-
 export const useParticipantOperations = (
   encounter: IEncounter,
   onUpdate?: (_updatedEncounter: IEncounter) => void
@@ -70,13 +62,24 @@ export const useParticipantOperations = (
     formData: ParticipantFormData,
     onSuccess: () => void
   ) => {
+    if (formData.quantity > 1) {
+      const existingNames = encounter.participants.map(participant => participant.name);
+      const participants = createNumberedCopies(formData, existingNames);
+      await executeServiceOperation(
+        () => EncounterService.addParticipantsBulk(encounter._id.toString(), participants),
+        `${participants.length} participants added successfully`,
+        () => onSuccess()
+      );
+      return;
+    }
+
     const participantData = createParticipantData(formData);
     await executeServiceOperation(
       () => EncounterService.addParticipant(encounter._id.toString(), participantData),
       'Participant added successfully',
       () => onSuccess()
     );
-  }, [encounter._id, executeServiceOperation]);
+  }, [encounter._id, encounter.participants, executeServiceOperation]);
 
   const updateParticipant = useCallback(async (
     participantId: string,
@@ -0,0 +1,56 @@
+import { fetchEncountersData } from '../dataFetchHelpers';
+import { Encounter } from '@/lib/models/encounter';
+import { CampaignService } from '@/lib/services/CampaignService';
+
+jest.mock('@/lib/models/encounter', () => ({
+  Encounter: {
+    find: jest.fn(),
+    countDocuments: jest.fn(),
+  },
+}));
+
+jest.mock('@/lib/services/CampaignService', () => ({
+  CampaignService: {
+    getCampaignScope: jest.fn(),
+  },
+}));
+
+describe('fetchEncountersData with a campaign filter', () => {
+  const userId = '507f1f77bcf86cd799439011';
+  const campaignId = '507f1f77bcf86cd799439021';
+  const encounterId = '507f1f77bcf86cd799439051';
+  const filters = { status: [], difficulty: [], tags: [], campaignId };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (Encounter.find as jest.Mock).mockReturnValue({
+      sort: jest.fn().mockReturnValue({
+        skip: jest.fn().mockReturnValue({
+          limit: jest.fn().mockReturnValue({ exec: jest.fn().mockResolvedValue([]) }),
+        }),
+      }),
+    });
+    (Encounter.countDocuments as jest.Mock).mockResolvedValue(0);
+  });
+
+  it("resolves the campaign's encounters for the signed-in user", async () => {
+    (CampaignService.getCampaignScope as jest.Mock).mockResolvedValue({
+      success: true,
+      data: { partyIds: [], encounterIds: [encounterId] },
+    });
+
+    const result = await fetchEncountersData(filters, '', 'updatedAt', 'desc', 1, 20, userId);
+
+    expect(result.success).toBe(true);
+    expect(CampaignService.getCampaignScope).toHaveBeenCalledWith(campaignId, userId);
+    const mongoQuery = (Encounter.find as jest.Mock).mock.calls[0][0];
+    expect(mongoQuery._id.$in.map((id: { toString: () => string }) => id.toString())).toEqual([encounterId]);
+  });
+
+  it('does not filter by campaign before the user is known', async () => {
+    await fetchEncountersData(filters, '', 'updatedAt', 'desc', 1, 20, null);
+
+    expect(CampaignService.getCampaignScope).not.toHaveBeenCalled();
+    expect((Encounter.find as jest.Mock).mock.calls[0][0]._id).toBeUndefined();
+  });
+});
@@ -163,7 +163,8 @@ describe('dataFetchHelpers', () => {
         mockSortBy,
         mockSortOrder,
         mockCurrentPage,
-        mockLimit
+        mockLimit,
+        'user-1'
       );
 
       expect(mockBuildSearchParams).toHaveBeenCalledWith(
@@ -172,7 +173,8 @@ describe('dataFetchHelpers', () => {
         mockSortBy,
         mockSortOrder,
         mockCurrentPage,
-        mockLimit
+        mockLimit,
+        'user-1'
       );
       expect(mockEncounterService.searchEncounters).toHaveBeenCalledWith(mockSearchParams);
       expect(result).toEqual({ success: true, data: mockServiceResult.data });
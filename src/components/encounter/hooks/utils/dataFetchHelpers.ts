@@ -37,7 +37,8 @@ export const fetchEncountersData = async (
   sortBy: SortBy,
   sortOrder: SortOrder,
   currentPage: number,
-  limit: number
+  limit: number,
+  userId?: string | null
 ) => {
   const searchParams = buildSearchParams(
     filters,
@@ -45,7 +46,8 @@ export const fetchEncountersData = async (
     sortBy,
     sortOrder,
     currentPage,
-    limit
+    limit,
+    userId
   );
 
   const result = await EncounterService.searchEncounters(searchParams);
@@ -1,6 +1,7 @@
 import type { EncounterFilters, SortBy, SortOrder } from '../../types';
 
-export interface SearchParams {
+// The campaign filter is only sent with the signed-in user, who must own the campaign
+export type SearchParams = {
   query: string;
   difficulty: string[];
   targetLevelMin?: number;
@@ -11,7 +12,7 @@ export interface SearchParams {
   sortOrder: SortOrder;
   page: number;
   limit: number;
-}
+} & ({ campaignId?: undefined } | { campaignId: string; userId: string });
 
 export const buildSearchParams = (
   filters: EncounterFilters,
@@ -19,16 +20,23 @@ export const buildSearchParams = (
   sortBy: SortBy,
   sortOrder: SortOrder,
   currentPage: number,
-  limit: number
-): SearchParams => ({
-  query: searchQuery,
-  difficulty: filters.difficulty,
-  targetLevelMin: filters.targetLevelMin,
-  targetLevelMax: filters.targetLevelMax,
-  status: filters.status,
-  tags: filters.tags,
-  sortBy,
-  sortOrder,
-  page: currentPage,
-  limit,
-});
\ No newline at end of file
+  limit: number,
+  userId?: string | null
+): SearchParams => {
+  const params = {
+    query: searchQuery,
+    difficulty: filters.difficulty,
+    targetLevelMin: filters.targetLevelMin,
+    targetLevelMax: filters.targetLevelMax,
+    status: filters.status,
+    tags: filters.tags,
+    sortBy,
+    sortOrder,
+    page: currentPage,
+    limit,
+  };
+
+  return filters.campaignId && userId
+    ? { ...params, campaignId: filters.campaignId, userId }
+    : params;
+};
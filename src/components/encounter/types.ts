@@ -7,6 +7,7 @@ export interface EncounterFilters {
   targetLevelMin?: number;
   targetLevelMax?: number;
   tags: string[];
+  campaignId?: string;
 }
 
 export type SortBy =
@@ -66,6 +67,11 @@ export interface SortConfig {
   sortOrder: SortOrder;
 }
 
+export interface CampaignFilterOption {
+  id: string;
+  name: string;
+}
+
 export interface FilterCallbacks {
   onFiltersChange: (_filters: Partial<EncounterFilters>) => void;
   onSearchChange: (_query: string) => void;
@@ -0,0 +1,79 @@
+import { convertTemplateToParticipant, numberParticipantNames } from '../templateConversion';
+import { SRD_TEMPLATES } from '@/lib/services/NPCTemplateData';
+import type { ParticipantFormData } from '../../hooks/useParticipantForm';
+
+const formData: ParticipantFormData = {
+  name: '',
+  type: 'pc',
+  maxHitPoints: 1,
+  currentHitPoints: 1,
+  temporaryHitPoints: 0,
+  armorClass: 10,
+  initiative: undefined,
+  isPlayer: true,
+  isVisible: false,
+  notes: 'Ambush from the ridge',
+  conditions: [],
+  quantity: 4,
+};
+
+const findTemplate = (name: string) => SRD_TEMPLATES.find(template => template.name === name)!;
+
+describe('templateConversion', () => {
+  describe('convertTemplateToParticipant', () => {
+    it('fills combat stats from the template', () => {
+      const participant = convertTemplateToParticipant(findTemplate('Goblin'), formData);
+
+      expect(participant).toEqual(expect.objectContaining({
+        name: 'Goblin',
+        type: 'monster',
+        maxHitPoints: 7,
+        currentHitPoints: 7,
+        armorClass: 15,
+        isPlayer: false,
+        challengeRating: 0.25,
+        constitutionSave: 0,
+        legendaryActions: null,
+      }));
+    });
+
+    it('keeps visibility, notes and copy count from the form', () => {
+      const participant = convertTemplateToParticipant(findTemplate('Goblin'), formData);
+
+      expect(participant.isVisible).toBe(false);
+      expect(participant.notes).toBe('Ambush from the ridge');
+      expect(participant.quantity).toBe(4);
+    });
+
+    it('uses saving throw proficiency, immunities and legendary actions', () => {
+      const participant = convertTemplateToParticipant(findTemplate('Adult Red Dragon'), formData);
+
+      expect(participant.constitutionSave).toBe(13);
+      expect(participant.damageImmunities).toEqual(['fire']);
+      expect(participant.legendaryActions).toEqual({ max: 3, remaining: 3 });
+    });
+  });
+
+  describe('numberParticipantNames', () => {
+    it('numbers copies from 1', () => {
+      expect(numberParticipantNames('Goblin', 3, ['Aragorn'])).toEqual(['Goblin 1', 'Goblin 2', 'Goblin 3']);
+    });
+
+    it('continues after copies already in the encounter', () => {
+      expect(numberParticipantNames('Goblin', 2, ['Goblin 1', 'Goblin 4', 'Goblin Boss 7'])).toEqual([
+        'Goblin 5',
+        'Goblin 6',
+      ]);
+    });
+
+    it('counts an unnumbered participant as the first copy', () => {
+      expect(numberParticipantNames('Goblin', 2, ['Goblin'])).toEqual(['Goblin 2', 'Goblin 3']);
+    });
+
+    it('matches names containing pattern characters literally', () => {
+      expect(numberParticipantNames(' Ogre (Zombie) ', 1, ['Ogre (Zombie) 2', 'Ogre Zombie 9'])).toEqual([
+        'Ogre (Zombie) 3',
+      ]);
+    });
+  });
+});
@@ -2,6 +2,21 @@ import type { Character } from '@/lib/validations/character';
 import type { ParticipantFormData } from '../hooks/useParticipantForm';
 import type { IParticipantReference } from '@/lib/models/encounter/interfaces';
 
+/**
+ * Constitution saving throw bonus, used for concentration saves
+ */
+function getConstitutionSave(character: Character): number {
+  const modifier = Math.floor((character.abilityScores.constitution - 10) / 2);
+  return character.savingThrows?.constitution ? modifier + character.proficiencyBonus : modifier;
+}
+
+/**
+ * Total level across all of a character's classes
+ */
+function getTotalLevel(character: Character): number {
+  return character.classes.reduce((total, cls) => total + cls.level, 0);
+}
+
 /**
  * Converts a character document to participant form data
  * This utility handles the data transformation between character library and encounter participants
@@ -15,10 +30,12 @@ export function convertCharacterToParticipant(character: Character): Participant
     temporaryHitPoints: character.hitPoints.temporary || 0,
     armorClass: character.armorClass,
     initiative: undefined, // Will be rolled during encounter
+    level: getTotalLevel(character),
     isPlayer: character.type === 'pc',
     isVisible: true,
     notes: character.notes || '',
     conditions: [],
+    quantity: 1,
   };
 }
 
@@ -38,11 +55,17 @@ export function convertCharacterToParticipantData(character: Character): Omit<IP
     temporaryHitPoints: character.hitPoints.temporary || 0,
     armorClass: character.armorClass,
     initiative: undefined, // Will be rolled during encounter
+    level: getTotalLevel(character),
     isPlayer: character.type === 'pc',
     isVisible: true,
     notes: character.notes || '',
     conditions: [],
     position: { x: 0, y: 0 }, // Default position
+    damageResistances: [...(character.damageResistances || [])],
+    damageVulnerabilities: [...(character.damageVulnerabilities || [])],
+    damageImmunities: [...(character.damageImmunities || [])],
+    conditionImmunities: [...(character.conditionImmunities || [])],
+    constitutionSave: getConstitutionSave(character),
   };
 }
 
@@ -0,0 +1,64 @@
+import type { NPCTemplate } from '@/types/npc';
+import type { ParticipantFormData } from '../hooks/useParticipantForm';
+
+// Every SRD creature with legendary actions can take 3 per round
+const DEFAULT_LEGENDARY_ACTIONS = 3;
+
+/**
+ * Constitution saving throw bonus, used for concentration saves
+ */
+function getConstitutionSave(template: NPCTemplate): number {
+  const save = template.stats.savingThrows?.constitution;
+  return save ?? Math.floor((template.stats.abilityScores.constitution - 10) / 2);
+}
+
+/**
+ * Fills participant form data from an NPC template, keeping the form's
+ * visibility, notes and copy count
+ */
+export function convertTemplateToParticipant(
+  template: NPCTemplate,
+  formData: ParticipantFormData
+): ParticipantFormData {
+  const hasLegendaryActions = template.actions.some(action => action.type === 'legendary_action');
+
+  return {
+    ...formData,
+    name: template.name,
+    type: 'monster',
+    maxHitPoints: template.stats.hitPoints.maximum,
+    currentHitPoints: template.stats.hitPoints.maximum,
+    temporaryHitPoints: 0,
+    armorClass: template.stats.armorClass,
+    isPlayer: false,
+    conditions: [],
+    challengeRating: template.challengeRating,
+    damageResistances: [...template.stats.damageResistances],
+    damageVulnerabilities: [...template.stats.damageVulnerabilities],
+    damageImmunities: [...template.stats.damageImmunities],
+    conditionImmunities: [...template.stats.conditionImmunities],
+    constitutionSave: getConstitutionSave(template),
+    legendaryActions: hasLegendaryActions
+      ? { max: DEFAULT_LEGENDARY_ACTIONS, remaining: DEFAULT_LEGENDARY_ACTIONS }
+      : null,
+  };
+}
+
+/**
+ * Names for copies of a participant, e.g. "Goblin 1", "Goblin 2". Numbering
+ * continues after copies already in the encounter; an unnumbered "Goblin"
+ * counts as the first.
+ */
+export function numberParticipantNames(baseName: string, count: number, existingNames: string[]): string[] {
+  const name = baseName.trim();
+  const escaped = name.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  const numbered = new RegExp(`^${escaped} (\\d+)$`);
+
+  const highest = existingNames.reduce((max, existing) => {
+    if (existing === name) return Math.max(max, 1);
+    const match = existing.match(numbered);
+    return match ? Math.max(max, parseInt(match[1], 10)) : max;
+  }, 0);
+
+  return Array.from({ length: count }, (_, index) => `${name} ${highest + index + 1}`);
+}
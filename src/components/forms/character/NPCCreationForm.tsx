@@ -1,13 +1,15 @@
 'use client';
 
-import React, { useState, useEffect } from 'react';
+import React, { useState } from 'react';
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from '@/components/ui/dialog';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { CharacterService } from '@/lib/services/CharacterService';
-import { NPCTemplateService } from '@/lib/services/NPCTemplateService';
+import { NPCTemplateVariants } from '@/lib/services/NPCTemplateVariants';
+import { useNPCTemplateSearch } from '@/lib/hooks/useNPCTemplateSearch';
 import {
   NPCTemplate,
   CreatureType,
+  ImportFormat,
   calculateProficiencyBonus,
 } from '@/types/npc';
 import { NPCTemplateTab } from './npc/NPCTemplateTab';
@@ -17,6 +19,8 @@ import { NPCDetailsTab } from './npc/NPCDetailsTab';
 import { useNPCForm } from './npc/hooks/useNPCForm';
 import { NPCFormHelpers } from './npc/NPCFormHelpers';
 
+const TEMPLATE_PAGE_SIZE = 100;
+
 interface NPCCreationFormProps {
   ownerId: string;
   onSuccess: (_npcId: string) => void;
@@ -26,38 +30,25 @@ interface NPCCreationFormProps {
 
 export function NPCCreationForm({ ownerId, onSuccess, onCancel, isOpen }: NPCCreationFormProps) {
   const { formData, errors, updateFormData, validateForm } = useNPCForm();
-  const [templates, setTemplates] = useState<NPCTemplate[]>([]);
-  const [filteredTemplates, setFilteredTemplates] = useState<NPCTemplate[]>([]);
   const [templateSearch, setTemplateSearch] = useState('');
   const [templateCategory, setTemplateCategory] = useState<CreatureType | 'all'>('all');
   const [selectedTemplate, setSelectedTemplate] = useState<NPCTemplate | null>(null);
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [activeTab, setActiveTab] = useState('template');
-  const [jsonImportData, setJsonImportData] = useState('');
-
-  // Load templates on mount
-  useEffect(() => {
-    loadTemplates();
-  }, []);
-
-  // Filter templates based on search and category
-  useEffect(() => {
-    const filtered = NPCFormHelpers.filterTemplates(templates, templateSearch, templateCategory);
-    setFilteredTemplates(filtered);
-  }, [templates, templateSearch, templateCategory]);
+  const [importFormat, setImportFormat] = useState<ImportFormat>('json');
+  const [importData, setImportData] = useState('');
+  const [importPreview, setImportPreview] = useState<Omit<NPCTemplate, 'id'> | null>(null);
+  const [importError, setImportError] = useState<string | null>(null);
 
-  const loadTemplates = async () => {
-    try {
-      const result = await NPCTemplateService.getTemplates();
-      if (result.success) {
-        setTemplates(result.data);
-      } else {
-        console.error('Failed to load NPC templates');
-      }
-    } catch {
-      console.error('Error loading templates');
-    }
-  };
+  // Templates are searched on the server as the search and category change
+  const templates = useNPCTemplateSearch(
+    {
+      search: templateSearch.trim(),
+      category: templateCategory === 'all' ? undefined : templateCategory,
+      limit: TEMPLATE_PAGE_SIZE,
+    },
+    isOpen
+  );
 
   const handleTemplateSelect = (template: NPCTemplate) => {
     setSelectedTemplate(template);
@@ -66,19 +57,32 @@ export function NPCCreationForm({ ownerId, onSuccess, onCancel, isOpen }: NPCCre
     setActiveTab('basic');
   };
 
-  const handleJsonImport = () => {
+  const handleImportFormatChange = (format: ImportFormat) => {
+    setImportFormat(format);
+    setImportPreview(null);
+    setImportError(null);
+  };
+
+  const handleImportPreview = () => {
     try {
-      const parsed = JSON.parse(jsonImportData);
-      const importedFormData = NPCFormHelpers.jsonToFormData(parsed, formData);
-      updateFormData(importedFormData);
-      setJsonImportData('');
-      setActiveTab('basic');
-      console.log('NPC data imported successfully');
-    } catch {
-      console.error('Invalid JSON data');
+      setImportPreview(NPCFormHelpers.parseImportText(importData, importFormat));
+      setImportError(null);
+    } catch (error) {
+      setImportPreview(null);
+      setImportError(error instanceof Error ? error.message : 'Failed to read import data');
     }
   };
 
+  const handleImportConfirm = () => {
+    if (!importPreview) return;
+
+    updateFormData(NPCFormHelpers.templateToFormData({ ...importPreview, id: 'imported' }));
+    setSelectedTemplate(null);
+    setImportData('');
+    setImportPreview(null);
+    setActiveTab('basic');
+  };
+
   const handleVariantToggle = (checked: boolean) => {
     updateFormData({
       isVariant: checked,
@@ -90,7 +94,7 @@ export function NPCCreationForm({ ownerId, onSuccess, onCancel, isOpen }: NPCCre
     if (!selectedTemplate || !formData.variantType) return;
 
     try {
-      const result = await NPCTemplateService.applyVariant(selectedTemplate, formData.variantType);
+      const result = await NPCTemplateVariants.applyVariant(selectedTemplate, formData.variantType);
       if (result.success) {
         const variant = result.data;
         updateFormData({
@@ -150,6 +154,10 @@ export function NPCCreationForm({ ownerId, onSuccess, onCancel, isOpen }: NPCCre
           duration: '',
           prepared: true,
         })),
+        damageResistances: formData.damageResistances,
+        damageVulnerabilities: formData.damageVulnerabilities,
+        damageImmunities: formData.damageImmunities,
+        conditionImmunities: formData.conditionImmunities,
         // Store NPC-specific data in notes or custom fields
         notes: JSON.stringify({
           creatureType: formData.creatureType,
@@ -210,16 +218,21 @@ export function NPCCreationForm({ ownerId, onSuccess, onCancel, isOpen }: NPCCre
           <TabsContent value="template" className="space-y-4">
             <NPCTemplateTab
               templates={templates}
-              filteredTemplates={filteredTemplates}
+              filteredTemplates={templates}
               templateSearch={templateSearch}
               templateCategory={templateCategory}
               selectedTemplate={selectedTemplate}
-              jsonImportData={jsonImportData}
+              importFormat={importFormat}
+              importData={importData}
+              importPreview={importPreview}
+              importError={importError}
               onTemplateSelect={handleTemplateSelect}
               onSearchChange={setTemplateSearch}
               onCategoryChange={setTemplateCategory}
-              onJsonImportDataChange={setJsonImportData}
-              onJsonImport={handleJsonImport}
+              onImportFormatChange={handleImportFormatChange}
+              onImportDataChange={setImportData}
+              onImportPreview={handleImportPreview}
+              onImportConfirm={handleImportConfirm}
               onGoToBasic={() => setActiveTab('basic')}
             />
           </TabsContent>
@@ -10,19 +10,16 @@ jest.mock('@/lib/services/CharacterService', () => ({
   },
 }));
 
-jest.mock('@/lib/services/NPCTemplateService', () => ({
-  NPCTemplateService: {
-    getTemplates: jest.fn(),
-  },
-}));
+const mockFetch = jest.fn();
+global.fetch = mockFetch;
+
+const jsonResponse = (body: unknown) => ({ json: async () => body });
 
 import { CharacterService } from '@/lib/services/CharacterService';
-import { NPCTemplateService } from '@/lib/services/NPCTemplateService';
 
 describe('NPCCreationForm', () => {
   setupNPCFormTest();
   const mockCharacterService = CharacterService as jest.Mocked<typeof CharacterService>;
-  const mockNPCTemplateService = NPCTemplateService as jest.Mocked<typeof NPCTemplateService>;
 
   const defaultProps = {
     ownerId: 'user123',
@@ -84,10 +81,7 @@ describe('NPCCreationForm', () => {
         challengeRating: 1,
       } as any,
     });
-    mockNPCTemplateService.getTemplates.mockResolvedValue({
-      success: true,
-      data: mockNPCTemplates,
-    });
+    mockFetch.mockResolvedValue(jsonResponse({ success: true, templates: mockNPCTemplates }));
   });
 
   describe('Basic Rendering', () => {
@@ -131,13 +125,53 @@ describe('NPCCreationForm', () => {
       });
     });
 
-    it('allows template search', async () => {
+    it('searches templates on the server', async () => {
       render(<NPCCreationForm {...testProps} />);
 
       const searchInput = screen.getByPlaceholderText('Search by name or type...');
       await userEvent.type(searchInput, 'Guard');
 
       expect(searchInput).toHaveValue('Guard');
+      expect(mockFetch).toHaveBeenLastCalledWith('/api/npc-templates?search=Guard&limit=100');
+    });
+  });
+
+  describe('Import Preview', () => {
+    const pasteImport = async (text: string) => {
+      await userEvent.click(screen.getByLabelText('Import Data'));
+      await userEvent.paste(text);
+      await userEvent.click(screen.getByRole('button', { name: /preview/i }));
+    };
+
+    it('previews imported data before using it', async () => {
+      render(<NPCCreationForm {...testProps} />);
+
+      await pasteImport(JSON.stringify({
+        name: 'Bandit Captain',
+        challengeRating: 2,
+        hitPoints: { maximum: 65, current: 65 },
+        armorClass: 15,
+        languages: ['Common', 'Thieves\' cant'],
+      }));
+
+      const preview = screen.getByTestId('npc-import-preview');
+      expect(preview).toHaveTextContent('Bandit Captain');
+      expect(preview).toHaveTextContent('CR 2');
+      expect(preview).toHaveTextContent('AC 15');
+      expect(preview).toHaveTextContent('Languages: Common, Thieves\' cant');
+
+      await userEvent.click(screen.getByRole('button', { name: /use imported npc/i }));
+
+      expect(screen.getByLabelText(/npc name/i)).toHaveValue('Bandit Captain');
+    });
+
+    it('shows why the data could not be imported', async () => {
+      render(<NPCCreationForm {...testProps} />);
+
+      await pasteImport('{ "name": "No Challenge" }');
+
+      expect(screen.getByRole('alert')).toHaveTextContent('challengeRating is required');
+      expect(screen.queryByTestId('npc-import-preview')).not.toBeInTheDocument();
     });
   });
 
@@ -222,15 +256,12 @@ describe('NPCCreationForm', () => {
       render(<NPCCreationForm {...testProps} />);
 
       await waitFor(() => {
-        expect(mockNPCTemplateService.getTemplates).toHaveBeenCalled();
+        expect(mockFetch).toHaveBeenCalledWith('/api/npc-templates?limit=100');
       });
     });
 
     it('handles template loading error gracefully', async () => {
-      mockNPCTemplateService.getTemplates.mockResolvedValue({
-        success: false,
-        error: { code: 'ERROR', message: 'Failed to load templates' },
-      });
+      mockFetch.mockResolvedValue(jsonResponse({ success: false, message: 'Failed to load templates' }));
 
       render(<NPCCreationForm {...testProps} />);
 
@@ -1,4 +1,5 @@
-import { NPCTemplate } from '@/types/npc';
+import { ImportFormat, NPCTemplate } from '@/types/npc';
+import { NPCTemplateImporter } from '@/lib/services/NPCTemplateImporter';
 
 /**
  * Helper functions for NPC form data transformation
@@ -50,6 +51,22 @@ export class NPCFormHelpers {
     };
   }
 
+  /**
+   * Parse pasted import text into a template for preview. Statblocks are read
+   * as plain text; every other format is JSON.
+   */
+  static parseImportText(text: string, format: ImportFormat): Omit<NPCTemplate, 'id'> {
+    if (format === 'custom') return NPCTemplateImporter.parseImportData(text, format);
+
+    let data: unknown;
+    try {
+      data = JSON.parse(text);
+    } catch {
+      throw new Error('Import data is not valid JSON');
+    }
+    return NPCTemplateImporter.parseImportData(data, format);
+  }
+
   /**
    * Filter templates by search and category
    */
@@ -6,8 +6,15 @@ import { Label } from '@/components/ui/label';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Textarea } from '@/components/ui/textarea';
 import { Badge } from '@/components/ui/badge';
-import { Search, Download, Upload } from 'lucide-react';
-import { NPCTemplate, CreatureType, formatChallengeRating } from '@/types/npc';
+import { Search, Eye, Upload } from 'lucide-react';
+import { NPCTemplate, CreatureType, ImportFormat, formatChallengeRating } from '@/types/npc';
+
+const IMPORT_FORMATS: Array<{ value: ImportFormat; label: string; placeholder: string }> = [
+  { value: 'json', label: 'JSON', placeholder: 'Paste NPC JSON data here...' },
+  { value: 'dndbeyond', label: 'D&D Beyond', placeholder: 'Paste D&D Beyond monster JSON here...' },
+  { value: 'roll20', label: 'Roll20', placeholder: 'Paste a Roll20 character export here...' },
+  { value: 'custom', label: 'Statblock text', placeholder: 'Paste a statblock copied from a PDF here...' },
+];
 
 interface NPCTemplateTabProps {
   templates: NPCTemplate[];
@@ -15,12 +22,17 @@ interface NPCTemplateTabProps {
   templateSearch: string;
   templateCategory: CreatureType | 'all';
   selectedTemplate: NPCTemplate | null;
-  jsonImportData: string;
+  importFormat: ImportFormat;
+  importData: string;
+  importPreview: Omit<NPCTemplate, 'id'> | null;
+  importError: string | null;
   onTemplateSelect: (_template: NPCTemplate) => void;
   onSearchChange: (_search: string) => void;
   onCategoryChange: (_category: CreatureType | 'all') => void;
-  onJsonImportDataChange: (_data: string) => void;
-  onJsonImport: () => void;
+  onImportFormatChange: (_format: ImportFormat) => void;
+  onImportDataChange: (_data: string) => void;
+  onImportPreview: () => void;
+  onImportConfirm: () => void;
   onGoToBasic: () => void;
 }
 
@@ -29,12 +41,17 @@ export function NPCTemplateTab({
   templateSearch,
   templateCategory,
   selectedTemplate,
-  jsonImportData,
+  importFormat,
+  importData,
+  importPreview,
+  importError,
   onTemplateSelect,
   onSearchChange,
   onCategoryChange,
-  onJsonImportDataChange,
-  onJsonImport,
+  onImportFormatChange,
+  onImportDataChange,
+  onImportPreview,
+  onImportConfirm,
   onGoToBasic,
 }: NPCTemplateTabProps) {
   return (
@@ -115,31 +132,46 @@ export function NPCTemplateTab({
 
       <div className="border-t pt-4 space-y-4">
         <h3 className="text-lg font-semibold">Import from External Sources</h3>
-        <div className="flex gap-2">
-          <Button variant="outline" size="sm">
-            <Download className="w-4 h-4 mr-2" />
-            Import from D&D Beyond
-          </Button>
+        <div className="w-48">
+          <Label htmlFor="import-format">Format</Label>
+          <Select value={importFormat} onValueChange={onImportFormatChange}>
+            <SelectTrigger id="import-format">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {IMPORT_FORMATS.map(format => (
+                <SelectItem key={format.value} value={format.value}>{format.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
         </div>
 
         <div className="space-y-2">
-          <Label htmlFor="json-import">Paste JSON Data</Label>
+          <Label htmlFor="npc-import">Import Data</Label>
           <Textarea
-            id="json-import"
-            placeholder="Paste NPC JSON data here..."
-            value={jsonImportData}
-            onChange={(e) => onJsonImportDataChange(e.target.value)}
-            rows={4}
+            id="npc-import"
+            placeholder={IMPORT_FORMATS.find(format => format.value === importFormat)?.placeholder}
+            value={importData}
+            onChange={(e) => onImportDataChange(e.target.value)}
+            rows={importFormat === 'custom' ? 10 : 4}
           />
           <Button
-            onClick={onJsonImport}
-            disabled={!jsonImportData.trim()}
+            onClick={onImportPreview}
+            disabled={!importData.trim()}
             size="sm"
           >
-            <Upload className="w-4 h-4 mr-2" />
-            Import
+            <Eye className="w-4 h-4 mr-2" />
+            Preview
           </Button>
         </div>
+
+        {importError && (
+          <p className="text-sm text-destructive" role="alert">{importError}</p>
+        )}
+
+        {importPreview && (
+          <ImportPreviewCard template={importPreview} onConfirm={onImportConfirm} />
+        )}
       </div>
 
       <div className="flex justify-between">
@@ -155,4 +187,67 @@ export function NPCTemplateTab({
       </div>
     </div>
   );
-}
\ No newline at end of file
+}
+
+interface ImportPreviewCardProps {
+  template: Omit<NPCTemplate, 'id'>;
+  onConfirm: () => void;
+}
+
+function ImportPreviewCard({ template, onConfirm }: ImportPreviewCardProps) {
+  const { stats } = template;
+  const details = [
+    { label: 'Saving Throws', value: Object.entries(stats.savingThrows ?? {}).map(([ability, bonus]) => `${ability} ${formatModifier(bonus)}`) },
+    { label: 'Skills', value: Object.entries(stats.skills ?? {}).map(([skill, bonus]) => `${skill} ${formatModifier(bonus)}`) },
+    { label: 'Vulnerabilities', value: stats.damageVulnerabilities ?? [] },
+    { label: 'Resistances', value: stats.damageResistances ?? [] },
+    { label: 'Immunities', value: [...(stats.damageImmunities ?? []), ...(stats.conditionImmunities ?? [])] },
+    { label: 'Senses', value: stats.senses ?? [] },
+    { label: 'Languages', value: stats.languages ?? [] },
+  ].filter(detail => detail.value.length > 0);
+
+  return (
+    <Card data-testid="npc-import-preview">
+      <CardHeader className="pb-2">
+        <div className="flex justify-between items-start">
+          <CardTitle className="text-lg">{template.name}</CardTitle>
+          <Badge variant="outline">CR {formatChallengeRating(template.challengeRating)}</Badge>
+        </div>
+        <CardDescription className="capitalize">
+          {template.size || 'medium'} {template.category}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-2 text-sm">
+        <div className="flex gap-4">
+          <span>AC {stats.armorClass}</span>
+          <span>HP {stats.hitPoints.maximum}{stats.hitPoints.hitDice && ` (${stats.hitPoints.hitDice})`}</span>
+          <span>Speed {stats.speed} ft.</span>
+        </div>
+        <div className="grid grid-cols-6 gap-2 text-center">
+          {Object.entries(stats.abilityScores).map(([ability, score]) => (
+            <div key={ability}>
+              <div className="text-xs uppercase text-muted-foreground">{ability.slice(0, 3)}</div>
+              <div>{score}</div>
+            </div>
+          ))}
+        </div>
+        {details.map(detail => (
+          <div key={detail.label}>
+            <span className="font-medium">{detail.label}:</span> {detail.value.join(', ')}
+          </div>
+        ))}
+        <div className="text-muted-foreground">
+          {template.actions.length} actions • {template.spells.length} spells
+        </div>
+        <Button onClick={onConfirm} size="sm">
+          <Upload className="w-4 h-4 mr-2" />
+          Use Imported NPC
+        </Button>
+      </CardContent>
+    </Card>
+  );
+}
+
+function formatModifier(bonus: number): string {
+  return bonus >= 0 ? `+${bonus}` : `${bonus}`;
+}
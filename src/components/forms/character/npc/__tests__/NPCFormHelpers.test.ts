@@ -171,6 +171,42 @@ describe('NPCFormHelpers', () => {
     });
   });
 
+  describe('parseImportText', () => {
+    it('should parse JSON for JSON-based formats', () => {
+      const result = NPCFormHelpers.parseImportText(
+        JSON.stringify({ name: 'Orc', cr: '1/2', hp: 15, ac: 13 }),
+        'dndbeyond'
+      );
+
+      expect(result).toMatchObject({ name: 'Orc', challengeRating: 0.5 });
+      expect(result.stats.hitPoints.maximum).toBe(15);
+    });
+
+    it('should pass statblock text through unparsed', () => {
+      const text = [
+        'Bandit',
+        'Medium humanoid (any race), any non-lawful alignment',
+        'Armor Class 12 (leather armor)',
+        'Hit Points 11 (2d8 + 2)',
+        'Speed 30 ft.',
+        'STR DEX CON INT WIS CHA',
+        '11 (+0) 12 (+1) 12 (+1) 10 (+0) 10 (+0) 10 (+0)',
+        'Challenge 1/8 (25 XP)',
+      ].join('\n');
+
+      expect(NPCFormHelpers.parseImportText(text, 'custom')).toMatchObject({
+        name: 'Bandit',
+        challengeRating: 0.125,
+      });
+    });
+
+    it('should report invalid JSON', () => {
+      expect(() => NPCFormHelpers.parseImportText('{ name:', 'roll20')).toThrow(
+        'Import data is not valid JSON'
+      );
+    });
+  });
+
   describe('filterTemplates', () => {
     const templates = createTestTemplatesArray();
 
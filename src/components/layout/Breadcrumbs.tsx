@@ -15,6 +15,7 @@ const routeLabels: Record<string, string> = {
   '/characters/new': 'New Character',
   '/parties': 'Parties',
   '/parties/new': 'New Party',
+  '/campaigns': 'Campaigns',
   '/encounters': 'Encounters',
   '/encounters/new': 'New Encounter',
   '/combat': 'Combat',
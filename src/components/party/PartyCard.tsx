@@ -1,7 +1,7 @@
 'use client';
 
 import { useState } from 'react';
-import { Users, Eye, Settings, MoreHorizontal, ExternalLink } from 'lucide-react';
+import { Users, Eye, Settings, MoreHorizontal, ExternalLink, Moon, UserPlus } from 'lucide-react';
 import { Card, CardContent, CardHeader } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
@@ -14,6 +14,8 @@ import {
   DropdownMenuTrigger,
 } from '@/components/ui/dropdown-menu';
 import { formatDistanceToNow } from 'date-fns';
+import { PartyRestDialog } from './PartyRestDialog';
+import { PartyMembersDialog } from './PartyMembersDialog';
 import type { PartyCardProps, PartyListItem } from './types';
 
 // Action handlers for party operations
@@ -21,14 +23,18 @@ interface PartyActions {
   handleViewParty: () => void;
   handleEditParty: () => void;
   handleDeleteParty: () => void;
+  handleRestParty: () => void;
+  handleManageMembers: () => void;
 }
 
 // Utility function to create party actions
-function createPartyActions(partyId: string): PartyActions {
+function createPartyActions(partyId: string, onRest: () => void, onManageMembers: () => void): PartyActions {
   return {
     handleViewParty: () => console.log('View party:', partyId),
     handleEditParty: () => console.log('Edit party:', partyId),
     handleDeleteParty: () => console.log('Delete party:', partyId),
+    handleRestParty: onRest,
+    handleManageMembers: onManageMembers,
   };
 }
 
@@ -82,6 +88,14 @@ function ActionsDropdown({ actions }: { actions: PartyActions }) {
           <Settings className="mr-2 h-4 w-4" />
           Edit Party
         </DropdownMenuItem>
+        <DropdownMenuItem onClick={actions.handleManageMembers}>
+          <UserPlus className="mr-2 h-4 w-4" />
+          Manage Members
+        </DropdownMenuItem>
+        <DropdownMenuItem onClick={actions.handleRestParty}>
+          <Moon className="mr-2 h-4 w-4" />
+          Rest Party
+        </DropdownMenuItem>
         <DropdownMenuSeparator />
         <DropdownMenuItem
           onClick={actions.handleDeleteParty}
@@ -242,7 +256,9 @@ function getCardClasses(isSelected: boolean): string {
 
 export function PartyCard({ party, isSelected = false, onSelect }: PartyCardProps) {
   const [isHovered, setIsHovered] = useState(false);
-  const actions = createPartyActions(party.id);
+  const [isRestOpen, setIsRestOpen] = useState(false);
+  const [isMembersOpen, setIsMembersOpen] = useState(false);
+  const actions = createPartyActions(party.id, () => setIsRestOpen(true), () => setIsMembersOpen(true));
 
   return (
     <Card
@@ -273,6 +289,15 @@ export function PartyCard({ party, isSelected = false, onSelect }: PartyCardProp
           onViewClick={actions.handleViewParty}
         />
       </CardContent>
+
+      <PartyRestDialog
+        partyId={party.id}
+        partyName={party.name}
+        open={isRestOpen}
+        onOpenChange={setIsRestOpen}
+      />
+
+      <PartyMembersDialog party={party} open={isMembersOpen} onOpenChange={setIsMembersOpen} />
     </Card>
   );
 }
\ No newline at end of file
@@ -0,0 +1,255 @@
+import React, { useEffect, useState } from 'react';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Loader2 } from 'lucide-react';
+import { copyToClipboard } from '@/components/combat/utils/shareUtils';
+import type { PartyInviteLink, PartyJoinRequestSummary, PartyMember } from '@/lib/services/PartyService';
+import { usePartyMembers } from './hooks/usePartyMembers';
+import type { PartyListItem } from './types';
+
+interface PartyMembersDialogProps {
+  party: PartyListItem;
+  open: boolean;
+  onOpenChange: (_open: boolean) => void;
+}
+
+const MemberRow = ({
+  member,
+  canRemove,
+  disabled,
+  onRemove,
+}: {
+  member: PartyMember;
+  canRemove: boolean;
+  disabled: boolean;
+  onRemove: () => void;
+}) => (
+  <li className="flex items-center justify-between p-2 border rounded" data-testid="party-member">
+    <div>
+      <div className="font-medium">{member.name}</div>
+      <div className="text-xs text-muted-foreground">
+        Level {member.level}
+        {member.classes.length > 0 && ` ${member.classes.join(' / ')}`}
+      </div>
+    </div>
+    {canRemove && (
+      <Button size="sm" variant="ghost" onClick={onRemove} disabled={disabled}>
+        Remove
+      </Button>
+    )}
+  </li>
+);
+
+const JoinRequestRow = ({
+  request,
+  disabled,
+  onRespond,
+}: {
+  request: PartyJoinRequestSummary;
+  disabled: boolean;
+  onRespond: (_status: 'approved' | 'rejected') => void;
+}) => (
+  <li className="p-2 border rounded space-y-2">
+    <p className="text-sm">
+      <span className="font-medium">{request.username}</span> wants to add{' '}
+      <span className="font-medium">{request.characterName}</span>
+    </p>
+    {request.message && <p className="text-xs text-muted-foreground">{request.message}</p>}
+    <div className="flex gap-2">
+      <Button size="sm" onClick={() => onRespond('approved')} disabled={disabled}>
+        Approve
+      </Button>
+      <Button size="sm" variant="outline" onClick={() => onRespond('rejected')} disabled={disabled}>
+        Reject
+      </Button>
+    </div>
+  </li>
+);
+
+const InviteRow = ({
+  invite,
+  disabled,
+  onRevoke,
+}: {
+  invite: PartyInviteLink;
+  disabled: boolean;
+  onRevoke: () => void;
+}) => (
+  <li className="p-2 border rounded space-y-2">
+    <div className="flex items-center gap-2">
+      <Input readOnly value={invite.url} aria-label={`Invite link ${invite.code}`} className="text-xs" />
+      {invite.status === 'active' ? (
+        <>
+          <Button size="sm" variant="outline" onClick={() => copyToClipboard(invite.url)}>
+            Copy
+          </Button>
+          <Button size="sm" variant="ghost" onClick={onRevoke} disabled={disabled}>
+            Revoke
+          </Button>
+        </>
+      ) : (
+        <Badge variant="outline">{invite.status === 'revoked' ? 'Revoked' : 'Expired'}</Badge>
+      )}
+    </div>
+    <p className="text-xs text-muted-foreground">
+      Used {invite.uses} {invite.uses === 1 ? 'time' : 'times'} · expires{' '}
+      {new Date(invite.expiresAt).toLocaleDateString()}
+    </p>
+  </li>
+);
+
+/**
+ * Party members, adding your own characters, and for the party owner the
+ * pending join requests and invite links
+ */
+export function PartyMembersDialog({ party, open, onOpenChange }: PartyMembersDialogProps) {
+  const membership = usePartyMembers(party.id);
+  const { loadMembers } = membership;
+  const [characterId, setCharacterId] = useState('');
+  const [message, setMessage] = useState('');
+
+  useEffect(() => {
+    if (open) {
+      loadMembers();
+    }
+  }, [open, loadMembers]);
+
+  const members = membership.members ?? [];
+  const canAdd = membership.canManage || party.settings.allowJoining;
+  const needsApproval = !membership.canManage && party.settings.requireApproval;
+
+  const handleAdd = async () => {
+    await membership.addCharacter(characterId, needsApproval ? message : undefined);
+    setCharacterId('');
+    setMessage('');
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent data-testid="party-members-dialog">
+        <DialogHeader>
+          <DialogTitle>{party.name} Members</DialogTitle>
+        </DialogHeader>
+
+        {membership.error && (
+          <Alert variant="destructive">
+            <AlertDescription>{membership.error}</AlertDescription>
+          </Alert>
+        )}
+        {membership.notice && <p className="text-sm" role="status">{membership.notice}</p>}
+
+        {!membership.members && membership.isWorking ? (
+          <div className="flex justify-center p-4">
+            <Loader2 className="h-6 w-6 animate-spin" />
+          </div>
+        ) : (
+          <div className="space-y-4 max-h-[28rem] overflow-y-auto">
+            <section className="space-y-2">
+              <h4 className="text-sm font-medium">
+                Characters ({members.length}/{party.settings.maxMembers})
+              </h4>
+              {members.length > 0 ? (
+                <ul className="space-y-2">
+                  {members.map(member => (
+                    <MemberRow
+                      key={member.characterId}
+                      member={member}
+                      canRemove={membership.canManage || member.isOwnCharacter}
+                      disabled={membership.isWorking}
+                      onRemove={() => membership.removeMember(member.characterId)}
+                    />
+                  ))}
+                </ul>
+              ) : (
+                <p className="text-sm text-muted-foreground">No characters in this party yet.</p>
+              )}
+            </section>
+
+            {canAdd && membership.availableCharacters.length > 0 && (
+              <section className="space-y-2">
+                <h4 className="text-sm font-medium">{needsApproval ? 'Request to Join' : 'Add a Character'}</h4>
+                <select
+                  className="w-full p-2 border rounded text-sm bg-background"
+                  aria-label="Your character"
+                  value={characterId}
+                  onChange={(e) => setCharacterId(e.target.value)}
+                >
+                  <option value="">Choose a character</option>
+                  {membership.availableCharacters.map(character => (
+                    <option key={character.characterId} value={character.characterId}>
+                      {character.name} (level {character.level})
+                    </option>
+                  ))}
+                </select>
+                {needsApproval && (
+                  <Input
+                    aria-label="Message to the DM"
+                    placeholder="Message to the DM (optional)"
+                    value={message}
+                    maxLength={500}
+                    onChange={(e) => setMessage(e.target.value)}
+                  />
+                )}
+                <Button size="sm" onClick={handleAdd} disabled={!characterId || membership.isWorking}>
+                  {needsApproval ? 'Send Request' : 'Add to Party'}
+                </Button>
+              </section>
+            )}
+
+            {membership.canManage && (
+              <section className="space-y-2">
+                <h4 className="text-sm font-medium">Join Requests</h4>
+                {membership.requests.length > 0 ? (
+                  <ul className="space-y-2" aria-label="Join requests">
+                    {membership.requests.map(request => (
+                      <JoinRequestRow
+                        key={request.id}
+                        request={request}
+                        disabled={membership.isWorking}
+                        onRespond={(status) => membership.respondToRequest(request.id, status)}
+                      />
+                    ))}
+                  </ul>
+                ) : (
+                  <p className="text-sm text-muted-foreground">No pending join requests.</p>
+                )}
+              </section>
+            )}
+
+            {membership.canManage && (
+              <section className="space-y-2">
+                <div className="flex items-center justify-between">
+                  <h4 className="text-sm font-medium">Invite Links</h4>
+                  <Button size="sm" variant="outline" onClick={membership.createInvite} disabled={membership.isWorking}>
+                    Create Invite Link
+                  </Button>
+                </div>
+                {membership.invites.length > 0 && (
+                  <ul className="space-y-2" aria-label="Invite links">
+                    {membership.invites.map(invite => (
+                      <InviteRow
+                        key={invite.id}
+                        invite={invite}
+                        disabled={membership.isWorking}
+                        onRevoke={() => membership.revokeInvite(invite.id)}
+                      />
+                    ))}
+                  </ul>
+                )}
+              </section>
+            )}
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Close
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
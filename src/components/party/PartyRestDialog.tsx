@@ -0,0 +1,194 @@
+import React, { useEffect } from 'react';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Loader2 } from 'lucide-react';
+import type { PartyMemberRestResult, PartyRestMember } from '@/lib/services/PartyService';
+import { usePartyRest, type HitDiceDraft } from './hooks/usePartyRest';
+
+interface PartyRestDialogProps {
+  partyId: string;
+  partyName: string;
+  open: boolean;
+  onOpenChange: (_open: boolean) => void;
+}
+
+const formatHitDice = (member: PartyRestMember): string =>
+  member.hitDice.map(pool => `${pool.available}/${pool.total} d${pool.hitDie}`).join(', ') || 'none';
+
+const formatModifier = (modifier: number): string => (modifier >= 0 ? `+${modifier}` : `${modifier}`);
+
+const ShortRestMember = ({
+  member,
+  draft,
+  onChange,
+}: {
+  member: PartyRestMember;
+  draft?: HitDiceDraft;
+  onChange: (_changes: Partial<HitDiceDraft>) => void;
+}) => {
+  const available = member.hitDice.reduce((total, pool) => total + pool.available, 0);
+
+  return (
+    <div className="p-3 rounded border space-y-2">
+      <div className="flex items-center justify-between">
+        <span className="font-medium">{member.name}</span>
+        <span className="text-sm text-muted-foreground">
+          {member.hitPoints.current}/{member.hitPoints.maximum} HP
+        </span>
+      </div>
+      <div className="text-xs text-muted-foreground">
+        Hit dice {formatHitDice(member)} · CON {formatModifier(member.constitutionModifier)}
+      </div>
+      <div className="grid grid-cols-2 gap-2">
+        <Input
+          aria-label={`Hit dice for ${member.name}`}
+          type="number"
+          min={0}
+          max={available}
+          placeholder="Hit dice"
+          value={draft?.count ?? ''}
+          onChange={(e) => onChange({ count: e.target.value })}
+          disabled={available === 0}
+        />
+        <Input
+          aria-label={`Rolls for ${member.name}`}
+          placeholder="Rolls, e.g. 7, 3"
+          value={draft?.rolls ?? ''}
+          onChange={(e) => onChange({ rolls: e.target.value })}
+          disabled={available === 0}
+        />
+      </div>
+    </div>
+  );
+};
+
+const LongRestSummary = ({ members }: { members: PartyRestMember[] }) => (
+  <div className="space-y-2 text-sm">
+    <p>Every member regains all hit points and half their hit dice, loses temporary hit points and one level of exhaustion.</p>
+    <ul className="space-y-1">
+      {members.map(member => (
+        <li key={member.characterId} className="flex justify-between">
+          <span>{member.name}</span>
+          <span className="text-muted-foreground">
+            {member.hitPoints.current}/{member.hitPoints.maximum} HP
+            {member.exhaustion > 0 && ` · exhaustion ${member.exhaustion}`}
+          </span>
+        </li>
+      ))}
+    </ul>
+  </div>
+);
+
+const describeResult = (member: PartyMemberRestResult): string => {
+  const parts = [`+${member.hitPointsRestored} HP`];
+  if (member.hitDiceSpent.length > 0) {
+    parts.push(`spent ${member.hitDiceSpent.map(spend => `d${spend.hitDie} (${spend.roll})`).join(', ')}`);
+  }
+  if (member.hitDiceRecovered > 0) {
+    parts.push(`recovered ${member.hitDiceRecovered} hit ${member.hitDiceRecovered === 1 ? 'die' : 'dice'}`);
+  }
+  if (member.resourcesRestored.length > 0) {
+    parts.push(`restored ${member.resourcesRestored.join(', ')}`);
+  }
+  return parts.join(' · ');
+};
+
+const RestResults = ({ members }: { members: PartyMemberRestResult[] }) => (
+  <ul className="space-y-2 text-sm">
+    {members.map(member => (
+      <li key={member.characterId}>
+        <div className="font-medium">{member.name}</div>
+        <div className="text-muted-foreground">{describeResult(member)}</div>
+      </li>
+    ))}
+  </ul>
+);
+
+export function PartyRestDialog({ partyId, partyName, open, onOpenChange }: PartyRestDialogProps) {
+  const rest = usePartyRest(partyId);
+  const { loadMembers } = rest;
+
+  useEffect(() => {
+    if (open) {
+      loadMembers();
+    }
+  }, [open, loadMembers]);
+
+  const hasMembers = Boolean(rest.members && rest.members.length > 0);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent data-testid="party-rest-dialog">
+        <DialogHeader>
+          <DialogTitle>Rest {partyName}</DialogTitle>
+        </DialogHeader>
+
+        {rest.error && (
+          <Alert variant="destructive">
+            <AlertDescription>{rest.error}</AlertDescription>
+          </Alert>
+        )}
+
+        {!rest.members && rest.isWorking && (
+          <div className="flex justify-center p-4">
+            <Loader2 className="h-6 w-6 animate-spin" />
+          </div>
+        )}
+
+        {rest.members && !hasMembers && (
+          <p className="text-sm text-muted-foreground">This party has no characters to rest.</p>
+        )}
+
+        {hasMembers && !rest.result && (
+          <div className="space-y-4">
+            <div className="grid grid-cols-2 gap-2">
+              <Button
+                variant={rest.restType === 'short' ? 'default' : 'outline'}
+                onClick={() => rest.setRestType('short')}
+              >
+                Short Rest
+              </Button>
+              <Button
+                variant={rest.restType === 'long' ? 'default' : 'outline'}
+                onClick={() => rest.setRestType('long')}
+              >
+                Long Rest
+              </Button>
+            </div>
+
+            {rest.restType === 'short' ? (
+              <div className="space-y-2 max-h-96 overflow-y-auto">
+                {rest.members!.map(member => (
+                  <ShortRestMember
+                    key={member.characterId}
+                    member={member}
+                    draft={rest.hitDice[member.characterId]}
+                    onChange={(changes) => rest.updateHitDice(member.characterId, changes)}
+                  />
+                ))}
+              </div>
+            ) : (
+              <LongRestSummary members={rest.members!} />
+            )}
+          </div>
+        )}
+
+        {rest.result && <RestResults members={rest.result.members} />}
+
+        <DialogFooter>
+          {hasMembers && !rest.result && (
+            <Button onClick={rest.confirm} disabled={rest.isWorking}>
+              {rest.isWorking && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              {rest.restType === 'short' ? 'Take Short Rest' : 'Take Long Rest'}
+            </Button>
+          )}
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            {rest.result ? 'Done' : 'Cancel'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
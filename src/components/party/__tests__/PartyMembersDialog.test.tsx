@@ -0,0 +1,137 @@
+/**
+ * @jest-environment jsdom
+ */
+import { render, screen, waitFor } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { PartyMembersDialog } from '../PartyMembersDialog';
+import { createMockParty } from './partyCardTestHelpers';
+
+const mockFetch = jest.fn();
+global.fetch = mockFetch;
+
+const jsonResponse = (body: unknown, ok = true) => ({ ok, json: async () => body });
+
+const bruni = {
+  characterId: 'fighter-1',
+  name: 'Bruni',
+  ownerId: 'user-2',
+  isOwnCharacter: false,
+  level: 4,
+  classes: ['fighter'],
+};
+
+const joinRequest = {
+  id: 'request-1',
+  partyId: 'party-1',
+  characterId: 'wizard-1',
+  characterName: 'Elara',
+  userId: 'user-3',
+  username: 'ranger',
+  message: 'Can Elara come along?',
+  status: 'pending',
+  createdAt: '2030-01-01T00:00:00.000Z',
+};
+
+const routeFetch = (routes: Record<string, unknown>) =>
+  mockFetch.mockImplementation(async (url: string, init?: RequestInit) => {
+    const key = `${init?.method ?? 'GET'} ${url}`;
+    return jsonResponse(routes[key] ?? { success: false, message: `Unexpected ${key}` }, key in routes);
+  });
+
+describe('PartyMembersDialog', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  const renderDialog = (settings = {}) =>
+    render(
+      <PartyMembersDialog
+        party={createMockParty({ settings: { allowJoining: true, requireApproval: true, maxMembers: 6, ...settings } })}
+        open
+        onOpenChange={jest.fn()}
+      />
+    );
+
+  it('lets the owner approve join requests and create invite links', async () => {
+    const user = userEvent.setup();
+    routeFetch({
+      'GET /api/parties/party-1/members': { success: true, members: [bruni], availableCharacters: [], canManage: true },
+      'GET /api/parties/party-1/members/requests': { success: true, requests: [joinRequest] },
+      'GET /api/parties/party-1/members/invites': { success: true, invites: [] },
+      'PATCH /api/parties/party-1/members/requests/request-1': { success: true, request: { ...joinRequest, status: 'approved' } },
+      'POST /api/parties/party-1/members/invites': {
+        success: true,
+        invite: {
+          id: 'invite-1',
+          code: 'table-code',
+          url: 'http://localhost:3000/parties/join/table-code',
+          status: 'active',
+          uses: 0,
+          expiresAt: '2030-01-08T00:00:00.000Z',
+          createdAt: '2030-01-01T00:00:00.000Z',
+        },
+      },
+    });
+
+    renderDialog();
+
+    expect(await screen.findByText('Can Elara come along?')).toBeInTheDocument();
+    expect(screen.getByText('Characters (1/6)')).toBeInTheDocument();
+
+    await user.click(screen.getByRole('button', { name: 'Approve' }));
+    await waitFor(() =>
+      expect(mockFetch).toHaveBeenCalledWith('/api/parties/party-1/members/requests/request-1', expect.objectContaining({
+        method: 'PATCH',
+        body: JSON.stringify({ status: 'approved' }),
+      }))
+    );
+
+    await user.click(screen.getByRole('button', { name: 'Create Invite Link' }));
+    expect(await screen.findByLabelText('Invite link table-code')).toHaveValue(
+      'http://localhost:3000/parties/join/table-code'
+    );
+  });
+
+  it('sends a join request for a player character', async () => {
+    const user = userEvent.setup();
+    routeFetch({
+      'GET /api/parties/party-1/members': {
+        success: true,
+        members: [bruni],
+        availableCharacters: [{ characterId: 'wizard-1', name: 'Elara', level: 3 }],
+        canManage: false,
+      },
+      'POST /api/parties/party-1/members': {
+        success: true,
+        message: 'Join request sent to the party owner',
+        request: joinRequest,
+      },
+    });
+
+    renderDialog();
+
+    await user.selectOptions(await screen.findByLabelText('Your character'), 'wizard-1');
+    await user.type(screen.getByLabelText('Message to the DM'), 'Can Elara come along?');
+    await user.click(screen.getByRole('button', { name: 'Send Request' }));
+
+    expect(await screen.findByRole('status')).toHaveTextContent('Join request sent to the party owner');
+    expect(screen.queryByText('Join Requests')).not.toBeInTheDocument();
+    expect(screen.queryByRole('button', { name: 'Remove' })).not.toBeInTheDocument();
+  });
+
+  it('hides adding characters when the party is closed to players', async () => {
+    routeFetch({
+      'GET /api/parties/party-1/members': {
+        success: true,
+        members: [],
+        availableCharacters: [{ characterId: 'wizard-1', name: 'Elara', level: 3 }],
+        canManage: false,
+      },
+    });
+
+    renderDialog({ allowJoining: false });
+
+    expect(await screen.findByText('No characters in this party yet.')).toBeInTheDocument();
+    expect(screen.queryByLabelText('Your character')).not.toBeInTheDocument();
+  });
+});
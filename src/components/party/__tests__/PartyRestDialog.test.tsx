@@ -0,0 +1,101 @@
+/**
+ * @jest-environment jsdom
+ */
+import { render, screen, waitFor } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { PartyRestDialog } from '../PartyRestDialog';
+
+const mockFetch = jest.fn();
+global.fetch = mockFetch;
+
+const jsonResponse = (body: unknown, ok = true) => ({ ok, json: async () => body });
+
+const members = [
+  {
+    characterId: 'fighter-1',
+    name: 'Bruni',
+    hitPoints: { maximum: 40, current: 22, temporary: 0 },
+    hitDice: [{ hitDie: 10, total: 4, available: 3 }],
+    constitutionModifier: 2,
+    exhaustion: 1,
+  },
+  {
+    characterId: 'wizard-1',
+    name: 'Elara',
+    hitPoints: { maximum: 14, current: 14, temporary: 0 },
+    hitDice: [{ hitDie: 6, total: 2, available: 2 }],
+    constitutionModifier: 2,
+    exhaustion: 0,
+  },
+];
+
+describe('PartyRestDialog', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  const renderDialog = () =>
+    render(<PartyRestDialog partyId="party-1" partyName="The Company" open onOpenChange={jest.fn()} />);
+
+  it('spends the chosen hit dice with the rolled numbers on a short rest', async () => {
+    const user = userEvent.setup();
+    mockFetch
+      .mockResolvedValueOnce(jsonResponse({ success: true, members }))
+      .mockResolvedValueOnce(jsonResponse({
+        success: true,
+        rest: {
+          type: 'short',
+          members: [{
+            characterId: 'fighter-1',
+            name: 'Bruni',
+            hitPoints: { maximum: 40, current: 39, temporary: 0 },
+            hitPointsRestored: 17,
+            hitDiceSpent: [{ hitDie: 10, roll: 5, healing: 7 }, { hitDie: 10, roll: 8, healing: 10 }],
+            hitDiceRecovered: 0,
+            resourcesRestored: [],
+            exhaustion: 1,
+          }],
+        },
+      }));
+
+    renderDialog();
+    await user.type(await screen.findByLabelText('Hit dice for Bruni'), '2');
+    await user.type(screen.getByLabelText('Rolls for Bruni'), '5, 8');
+    await user.click(screen.getByRole('button', { name: 'Take Short Rest' }));
+
+    expect(await screen.findByText('+17 HP · spent d10 (5), d10 (8)')).toBeInTheDocument();
+    expect(mockFetch).toHaveBeenCalledWith('/api/parties/party-1/rest');
+    expect(JSON.parse(mockFetch.mock.calls[1][1].body)).toEqual({
+      type: 'short',
+      hitDice: [{ characterId: 'fighter-1', count: 2, rolls: [5, 8] }],
+    });
+  });
+
+  it('takes a long rest for the whole party', async () => {
+    const user = userEvent.setup();
+    mockFetch
+      .mockResolvedValueOnce(jsonResponse({ success: true, members }))
+      .mockResolvedValueOnce(jsonResponse({ success: true, rest: { type: 'long', members: [] } }));
+
+    renderDialog();
+    await user.click(await screen.findByRole('button', { name: 'Long Rest' }));
+    expect(screen.getByText(/exhaustion 1/)).toBeInTheDocument();
+    await user.click(screen.getByRole('button', { name: 'Take Long Rest' }));
+
+    await waitFor(() => expect(mockFetch).toHaveBeenCalledTimes(2));
+    expect(JSON.parse(mockFetch.mock.calls[1][1].body)).toEqual({ type: 'long' });
+  });
+
+  it('shows why the rest failed', async () => {
+    const user = userEvent.setup();
+    mockFetch
+      .mockResolvedValueOnce(jsonResponse({ success: true, members }))
+      .mockResolvedValueOnce(jsonResponse({ success: false, message: 'Invalid hit dice: Elara has only 2 hit dice left' }, false));
+
+    renderDialog();
+    await user.type(await screen.findByLabelText('Hit dice for Elara'), '3');
+    await user.click(screen.getByRole('button', { name: 'Take Short Rest' }));
+
+    expect(await screen.findByText('Invalid hit dice: Elara has only 2 hit dice left')).toBeInTheDocument();
+  });
+});
@@ -0,0 +1,119 @@
+import { useCallback, useState } from 'react';
+import type {
+  PartyInviteLink,
+  PartyJoinRequestSummary,
+  PartyMemberList,
+} from '@/lib/services/PartyService';
+import type { JoinRequestResponse } from '@/lib/validations/party';
+
+async function requestMembersApi(url: string, init?: RequestInit) {
+  const response = await fetch(url, init);
+  const data = await response.json();
+
+  if (!response.ok || !data.success) {
+    throw new Error(data.message || 'Party membership request failed');
+  }
+
+  return data;
+}
+
+const jsonRequest = (method: string, body: unknown): RequestInit => ({
+  method,
+  headers: { 'Content-Type': 'application/json' },
+  body: JSON.stringify(body),
+});
+
+/**
+ * Hook for a party's members, join requests and invite links
+ */
+export function usePartyMembers(partyId: string) {
+  const [memberList, setMemberList] = useState<PartyMemberList | null>(null);
+  const [requests, setRequests] = useState<PartyJoinRequestSummary[]>([]);
+  const [invites, setInvites] = useState<PartyInviteLink[]>([]);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isWorking, setIsWorking] = useState(false);
+  const baseUrl = `/api/parties/${partyId}/members`;
+
+  const run = useCallback(async (operation: () => Promise<void>) => {
+    setIsWorking(true);
+    setError(null);
+    setNotice(null);
+    try {
+      await operation();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Something went wrong');
+    } finally {
+      setIsWorking(false);
+    }
+  }, []);
+
+  const fetchMembers = useCallback(async () => {
+    const data = await requestMembersApi(baseUrl);
+    const list: PartyMemberList = {
+      members: data.members,
+      availableCharacters: data.availableCharacters,
+      canManage: data.canManage,
+    };
+    setMemberList(list);
+
+    if (list.canManage) {
+      const [requestData, inviteData] = await Promise.all([
+        requestMembersApi(`${baseUrl}/requests`),
+        requestMembersApi(`${baseUrl}/invites`),
+      ]);
+      setRequests(requestData.requests);
+      setInvites(inviteData.invites);
+    }
+  }, [baseUrl]);
+
+  const loadMembers = useCallback(() => run(fetchMembers), [run, fetchMembers]);
+
+  const addCharacter = (characterId: string, message?: string) =>
+    run(async () => {
+      const data = await requestMembersApi(baseUrl, jsonRequest('POST', { characterId, ...(message && { message }) }));
+      setNotice(data.message);
+      await fetchMembers();
+    });
+
+  const removeMember = (characterId: string) =>
+    run(async () => {
+      await requestMembersApi(`${baseUrl}/${characterId}`, { method: 'DELETE' });
+      await fetchMembers();
+    });
+
+  const respondToRequest = (requestId: string, status: JoinRequestResponse['status']) =>
+    run(async () => {
+      await requestMembersApi(`${baseUrl}/requests/${requestId}`, jsonRequest('PATCH', { status }));
+      await fetchMembers();
+    });
+
+  const createInvite = () =>
+    run(async () => {
+      const data = await requestMembersApi(`${baseUrl}/invites`, jsonRequest('POST', {}));
+      setInvites(current => [data.invite, ...current]);
+    });
+
+  const revokeInvite = (inviteId: string) =>
+    run(async () => {
+      const data = await requestMembersApi(`${baseUrl}/invites/${inviteId}`, { method: 'DELETE' });
+      setInvites(current => current.map(invite => (invite.id === inviteId ? data.invite : invite)));
+    });
+
+  return {
+    members: memberList?.members ?? null,
+    availableCharacters: memberList?.availableCharacters ?? [],
+    canManage: memberList?.canManage ?? false,
+    requests,
+    invites,
+    notice,
+    error,
+    isWorking,
+    loadMembers,
+    addCharacter,
+    removeMember,
+    respondToRequest,
+    createInvite,
+    revokeInvite,
+  };
+}
@@ -0,0 +1,101 @@
+import { useCallback, useState } from 'react';
+import type { PartyRestMember, PartyRestResult } from '@/lib/services/PartyService';
+import type { RestType } from '@/lib/utils/rest';
+
+export interface HitDiceDraft {
+  count: string;
+  rolls: string;
+}
+
+const EMPTY_DRAFT: HitDiceDraft = { count: '', rolls: '' };
+
+/**
+ * Parses the rolls typed for a member, such as "7, 3"
+ */
+export const parseRolls = (rolls: string): number[] =>
+  rolls
+    .split(/[\s,]+/)
+    .filter(Boolean)
+    .map(Number)
+    .filter(Number.isInteger);
+
+const toRestBody = (restType: RestType, hitDice: Record<string, HitDiceDraft>) => {
+  if (restType === 'long') {
+    return { type: 'long' };
+  }
+
+  return {
+    type: 'short',
+    hitDice: Object.entries(hitDice)
+      .map(([characterId, draft]) => ({ characterId, count: Number(draft.count) || 0, rolls: parseRolls(draft.rolls) }))
+      .filter(spend => spend.count > 0)
+      .map(({ rolls, ...spend }) => ({ ...spend, ...(rolls.length > 0 && { rolls }) })),
+  };
+};
+
+export function usePartyRest(partyId: string) {
+  const [members, setMembers] = useState<PartyRestMember[] | null>(null);
+  const [restType, setRestType] = useState<RestType>('short');
+  const [hitDice, setHitDice] = useState<Record<string, HitDiceDraft>>({});
+  const [result, setResult] = useState<PartyRestResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isWorking, setIsWorking] = useState(false);
+
+  const run = async (operation: () => Promise<void>) => {
+    setIsWorking(true);
+    setError(null);
+    try {
+      await operation();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Something went wrong');
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const loadMembers = useCallback(async () => {
+    setHitDice({});
+    setResult(null);
+    await run(async () => {
+      const response = await fetch(`/api/parties/${partyId}/rest`);
+      const data = await response.json();
+      if (!response.ok || !data.success) {
+        throw new Error(data.message || 'Failed to load party members');
+      }
+      setMembers(data.members);
+    });
+  }, [partyId]);
+
+  const updateHitDice = (characterId: string, changes: Partial<HitDiceDraft>) =>
+    setHitDice(current => ({
+      ...current,
+      [characterId]: { ...(current[characterId] ?? EMPTY_DRAFT), ...changes },
+    }));
+
+  const confirm = () =>
+    run(async () => {
+      const response = await fetch(`/api/parties/${partyId}/rest`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(toRestBody(restType, hitDice)),
+      });
+      const data = await response.json();
+      if (!response.ok || !data.success) {
+        throw new Error(data.message || 'Failed to rest party');
+      }
+      setResult(data.rest);
+    });
+
+  return {
+    members,
+    restType,
+    hitDice,
+    result,
+    error,
+    isWorking,
+    loadMembers,
+    setRestType,
+    updateHitDice,
+    confirm,
+  };
+}
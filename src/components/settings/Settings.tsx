@@ -9,6 +9,7 @@ import { NotificationsSection } from './components/NotificationsSection';
 import { SubscriptionSection } from './components/SubscriptionSection';
 import { SecuritySection } from './components/SecuritySection';
 import { ThemeSection } from './components/ThemeSection';
+import { BackupSection } from './components/BackupSection';
 import { UpgradeModal, PasswordModal, DeleteModal } from './components/SettingsModals';
 import { type SubscriptionTier } from './constants';
 
@@ -120,6 +121,8 @@ export function Settings() {
           onChangePasswordClick={() => setShowPasswordModal(true)}
           onDeleteAccountClick={() => setShowDeleteModal(true)}
         />
+
+        <BackupSection userId={user.id} />
       </div>
 
       <UpgradeModal
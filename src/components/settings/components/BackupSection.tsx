@@ -0,0 +1,118 @@
+import React from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import type { RestoreMode, RestoreReport } from '@/lib/services/AccountBackupService';
+import { useAccountBackup } from '../hooks/useAccountBackup';
+
+interface BackupSectionProps {
+  userId: string;
+}
+
+const COLLECTION_LABELS = {
+  parties: 'Parties',
+  characters: 'Characters',
+  encounters: 'Encounters',
+  campaigns: 'Campaigns',
+  npcTemplates: 'NPC templates',
+} as const;
+
+function RestoreReportSummary({ report }: { report: RestoreReport }) {
+  return (
+    <div className="space-y-2 text-sm" aria-label="Restore report">
+      <p className="font-medium">
+        {report.dryRun ? 'Restore preview' : 'Restore complete'} ({report.mode}) — backup from{' '}
+        {new Date(report.backupCreatedAt).toLocaleDateString()}
+      </p>
+      <ul>
+        {(Object.keys(COLLECTION_LABELS) as Array<keyof typeof COLLECTION_LABELS>).map(collection => (
+          <li key={collection}>
+            {COLLECTION_LABELS[collection]}: {report.created[collection]} {report.dryRun ? 'to create' : 'created'},{' '}
+            {report.skipped[collection]} already present, {report.deleted[collection]}{' '}
+            {report.dryRun ? 'to delete' : 'deleted'}
+          </li>
+        ))}
+      </ul>
+      {report.preferencesRestored && <p>Preferences will be replaced by the backup.</p>}
+      {report.warnings.length > 0 && (
+        <ul className="text-muted-foreground">
+          {report.warnings.map(warning => (
+            <li key={warning}>{warning}</li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
+
+export function BackupSection({ userId }: BackupSectionProps) {
+  const backup = useAccountBackup(userId);
+  const canRestore = backup.report?.dryRun === true && !backup.isWorking;
+
+  return (
+    <Card className="lg:col-span-2">
+      <CardHeader>
+        <CardTitle>Backup &amp; Restore</CardTitle>
+        <CardDescription>
+          Download your characters, parties, encounters, campaigns, NPC templates and preferences as one file, or restore from one
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {backup.error && (
+          <Alert variant="destructive">
+            <AlertDescription>{backup.error}</AlertDescription>
+          </Alert>
+        )}
+
+        <Button variant="outline" onClick={backup.downloadBackup} disabled={backup.isWorking}>
+          Download Backup
+        </Button>
+
+        <div className="grid gap-4 sm:grid-cols-2">
+          <div className="space-y-2">
+            <Label htmlFor="backupFile">Backup file</Label>
+            <Input
+              id="backupFile"
+              type="file"
+              accept="application/json,.json"
+              onChange={(e) => backup.selectFile(e.target.files?.[0])}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="restoreMode">Restore mode</Label>
+            <select
+              id="restoreMode"
+              className="h-9 w-full rounded-md border border-input bg-background px-3 py-1 text-sm"
+              value={backup.mode}
+              onChange={(e) => backup.selectMode(e.target.value as RestoreMode)}
+            >
+              <option value="merge">Merge with existing data</option>
+              <option value="replace">Replace existing data</option>
+            </select>
+          </div>
+        </div>
+
+        <div className="flex gap-4">
+          <Button
+            variant="outline"
+            onClick={backup.previewRestore}
+            disabled={!backup.hasBackupFile || backup.isWorking}
+          >
+            Preview Restore
+          </Button>
+          <Button
+            variant={backup.mode === 'replace' ? 'destructive' : 'default'}
+            onClick={backup.confirmRestore}
+            disabled={!canRestore}
+          >
+            Restore
+          </Button>
+        </div>
+
+        {backup.report && <RestoreReportSummary report={backup.report} />}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,71 @@
+import { useState } from 'react';
+import { createDownloadLink } from '@/components/combat/utils/exportUtils';
+import type { RestoreMode, RestoreReport } from '@/lib/services/AccountBackupService';
+
+export function useAccountBackup(userId: string) {
+  const [backupData, setBackupData] = useState<string | null>(null);
+  const [mode, setMode] = useState<RestoreMode>('merge');
+  const [report, setReport] = useState<RestoreReport | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isWorking, setIsWorking] = useState(false);
+
+  const run = async (operation: () => Promise<void>) => {
+    setIsWorking(true);
+    setError(null);
+    try {
+      await operation();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Something went wrong');
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const downloadBackup = () =>
+    run(async () => {
+      const response = await fetch(`/api/users/${userId}/backup`);
+      if (!response.ok) {
+        throw new Error('Failed to create backup');
+      }
+      const archive = await response.json();
+      createDownloadLink(archive, `account-backup-${new Date().toISOString().slice(0, 10)}.json`);
+    });
+
+  const selectFile = async (file: File | undefined) => {
+    setReport(null);
+    setError(null);
+    setBackupData(file ? await file.text() : null);
+  };
+
+  const selectMode = (nextMode: RestoreMode) => {
+    setMode(nextMode);
+    setReport(null);
+  };
+
+  const restore = (dryRun: boolean) =>
+    run(async () => {
+      const response = await fetch(`/api/users/${userId}/restore`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ data: backupData, mode, dryRun }),
+      });
+      const result = await response.json();
+      if (!response.ok || !result.success) {
+        throw new Error(result.message || 'Failed to restore backup');
+      }
+      setReport(result.report);
+    });
+
+  return {
+    mode,
+    report,
+    error,
+    isWorking,
+    hasBackupFile: backupData !== null,
+    downloadBackup,
+    selectFile,
+    selectMode,
+    previewRestore: () => restore(true),
+    confirmRestore: () => restore(false),
+  };
+}
@@ -5,55 +5,26 @@ import { useDashboardStats } from '../use-dashboard-stats';
 global.fetch = jest.fn();
 const mockFetch = fetch as jest.MockedFunction<typeof fetch>;
 
+const dashboard = {
+  counts: { characters: 3, encounters: 5, parties: 2, activeSessions: 1 },
+  subscriptionTier: 'seasoned',
+  usage: {
+    characters: { used: 3, limit: 50 },
+    encounters: { used: 5, limit: 15 },
+    parties: { used: 2, limit: 3 },
+  },
+  recent: [],
+  activeSessions: [],
+  activity: [],
+};
+
+const dashboardResponse = (body: unknown, ok = true) =>
+  Promise.resolve({ ok, json: () => Promise.resolve(body) } as Response);
+
 describe('useDashboardStats', () => {
   beforeEach(() => {
     jest.clearAllMocks();
-
-    // Setup default mock responses for each API endpoint
-    mockFetch.mockImplementation((url: string | URL | Request) => {
-      const urlString = url.toString();
-
-      if (urlString.includes('/api/characters')) {
-        return Promise.resolve({
-          ok: true,
-          json: () => Promise.resolve({
-            success: true,
-            data: {
-              items: Array.from({ length: 3 }, (_, i) => ({ id: `char-${i}`, name: `Character ${i}` })),
-              pagination: { totalItems: 3 }
-            }
-          })
-        } as Response);
-      }
-
-      if (urlString.includes('/api/encounters')) {
-        return Promise.resolve({
-          ok: true,
-          json: () => Promise.resolve({
-            success: true,
-            data: {
-              encounters: Array.from({ length: 5 }, (_, i) => ({ id: `enc-${i}`, name: `Encounter ${i}` })),
-              totalItems: 5
-            }
-          })
-        } as Response);
-      }
-
-      if (urlString.includes('/api/parties')) {
-        return Promise.resolve({
-          ok: true,
-          json: () => Promise.resolve({
-            success: true,
-            data: {
-              parties: Array.from({ length: 2 }, (_, i) => ({ id: `party-${i}`, name: `Party ${i}` })),
-              totalItems: 2
-            }
-          })
-        } as Response);
-      }
-
-      return Promise.reject(new Error('Unknown endpoint'));
-    });
+    mockFetch.mockImplementation(() => dashboardResponse({ success: true, dashboard }));
   });
 
   it('should return initial loading state', () => {
@@ -63,23 +34,24 @@ describe('useDashboardStats', () => {
       characters: 0,
       encounters: 0,
       parties: 0,
+      activeSessions: 0,
     });
+    expect(result.current.dashboard).toBeNull();
     expect(result.current.isLoading).toBe(true);
     expect(result.current.error).toBeNull();
   });
 
-  it('should fetch and return correct statistics', async () => {
+  it('should load every statistic in one request', async () => {
     const { result } = renderHook(() => useDashboardStats());
 
     await waitFor(() => {
       expect(result.current.isLoading).toBe(false);
     });
 
-    expect(result.current.stats).toEqual({
-      characters: 3,
-      encounters: 5,
-      parties: 2,
-    });
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+    expect(mockFetch).toHaveBeenCalledWith('/api/dashboard');
+    expect(result.current.stats).toEqual(dashboard.counts);
+    expect(result.current.dashboard?.usage.encounters).toEqual({ used: 5, limit: 15 });
     expect(result.current.error).toBeNull();
   });
 
@@ -96,40 +68,15 @@ describe('useDashboardStats', () => {
       characters: 0,
       encounters: 0,
       parties: 0,
+      activeSessions: 0,
     });
     expect(result.current.error).toBe('Failed to load dashboard statistics');
   });
 
-  it('should handle partial API failures', async () => {
-    mockFetch.mockImplementation((url: string | URL | Request) => {
-      const urlString = url.toString();
-
-      if (urlString.includes('/api/characters')) {
-        return Promise.reject(new Error('Characters API failed'));
-      }
-
-      if (urlString.includes('/api/encounters')) {
-        return Promise.resolve({
-          ok: true,
-          json: () => Promise.resolve({
-            success: true,
-            data: { encounters: [], totalItems: 5 }
-          })
-        } as Response);
-      }
-
-      if (urlString.includes('/api/parties')) {
-        return Promise.resolve({
-          ok: true,
-          json: () => Promise.resolve({
-            success: true,
-            data: { parties: [], totalItems: 2 }
-          })
-        } as Response);
-      }
-
-      return Promise.reject(new Error('Unknown endpoint'));
-    });
+  it('should report a failed response', async () => {
+    mockFetch.mockImplementation(() =>
+      dashboardResponse({ success: false, message: 'Failed to load dashboard' }, false)
+    );
 
     const { result } = renderHook(() => useDashboardStats());
 
@@ -137,63 +84,25 @@ describe('useDashboardStats', () => {
       expect(result.current.isLoading).toBe(false);
     });
 
-    expect(result.current.stats).toEqual({
-      characters: 0, // Failed API returns 0
-      encounters: 5, // Successful API returns count
-      parties: 2,   // Successful API returns count
-    });
-    expect(result.current.error).toBeNull(); // Partial failures don't show error
+    expect(result.current.dashboard).toBeNull();
+    expect(result.current.error).toBe('Failed to load dashboard statistics');
   });
 
   it('should refetch data when refetch is called', async () => {
     const { result } = renderHook(() => useDashboardStats());
 
-    // Wait for initial fetch
     await waitFor(() => {
       expect(result.current.isLoading).toBe(false);
     });
 
-    // Update mock to return different data
-    mockFetch.mockImplementation((url: string | URL | Request) => {
-      const urlString = url.toString();
-
-      if (urlString.includes('/api/characters')) {
-        return Promise.resolve({
-          ok: true,
-          json: () => Promise.resolve({
-            success: true,
-            data: {
-              items: [],
-              pagination: { totalItems: 7 }
-            }
-          })
-        } as Response);
-      }
-
-      return Promise.resolve({
-        ok: true,
-        json: () => Promise.resolve({
-          success: true,
-          data: { totalItems: 0 }
-        })
-      } as Response);
-    });
+    mockFetch.mockImplementation(() =>
+      dashboardResponse({ success: true, dashboard: { ...dashboard, counts: { ...dashboard.counts, characters: 7 } } })
+    );
 
-    // Call refetch
     result.current.refetch();
 
     await waitFor(() => {
       expect(result.current.stats.characters).toBe(7);
     });
   });
-
-  it('should call APIs with correct parameters', async () => {
-    renderHook(() => useDashboardStats());
-
-    await waitFor(() => {
-      expect(mockFetch).toHaveBeenCalledWith('/api/characters?page=1&limit=1');
-      expect(mockFetch).toHaveBeenCalledWith('/api/encounters?page=1&limit=1');
-      expect(mockFetch).toHaveBeenCalledWith('/api/parties?page=1&limit=1');
-    });
-  });
-});
\ No newline at end of file
+});
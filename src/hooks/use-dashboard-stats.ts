@@ -1,24 +1,25 @@
 import { useState, useEffect, useCallback } from 'react';
+import type { DashboardCounts, DashboardSummary } from '@/lib/services/DashboardService';
 
-export interface DashboardStats {
-  characters: number;
-  encounters: number;
-  parties: number;
-}
+export type DashboardStats = DashboardCounts;
 
 export interface UseDashboardStatsResult {
   stats: DashboardStats;
+  dashboard: DashboardSummary | null;
   isLoading: boolean;
   error: string | null;
   refetch: () => void;
 }
 
+const EMPTY_STATS: DashboardStats = {
+  characters: 0,
+  encounters: 0,
+  parties: 0,
+  activeSessions: 0,
+};
+
 export function useDashboardStats(): UseDashboardStatsResult {
-  const [stats, setStats] = useState<DashboardStats>({
-    characters: 0,
-    encounters: 0,
-    parties: 0,
-  });
+  const [dashboard, setDashboard] = useState<DashboardSummary | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
 
@@ -27,55 +28,15 @@ export function useDashboardStats(): UseDashboardStatsResult {
     setError(null);
 
     try {
-      // Fetch all three counts in parallel, only getting counts (limit=1 for efficiency)
-      const [charactersResponse, encountersResponse, partiesResponse] = await Promise.allSettled([
-        fetch('/api/characters?page=1&limit=1'),
-        fetch('/api/encounters?page=1&limit=1'),
-        fetch('/api/parties?page=1&limit=1'),
-      ]);
-
-      const newStats: DashboardStats = {
-        characters: 0,
-        encounters: 0,
-        parties: 0,
-      };
-
-      // Process characters count
-      if (charactersResponse.status === 'fulfilled' && charactersResponse.value.ok) {
-        const charactersData = await charactersResponse.value.json();
-        if (charactersData.success && charactersData.data?.pagination?.totalItems !== undefined) {
-          newStats.characters = charactersData.data.pagination.totalItems;
-        }
-      }
-
-      // Process encounters count
-      if (encountersResponse.status === 'fulfilled' && encountersResponse.value.ok) {
-        const encountersData = await encountersResponse.value.json();
-        if (encountersData.success && encountersData.data?.totalItems !== undefined) {
-          newStats.encounters = encountersData.data.totalItems;
-        }
-      }
-
-      // Process parties count
-      if (partiesResponse.status === 'fulfilled' && partiesResponse.value.ok) {
-        const partiesData = await partiesResponse.value.json();
-        if (partiesData.success && partiesData.data?.totalItems !== undefined) {
-          newStats.parties = partiesData.data.totalItems;
-        }
-      }
+      // Counts, usage, recent items and activity all come from one aggregate request
+      const response = await fetch('/api/dashboard');
+      const data = await response.json();
 
-      setStats(newStats);
-
-      // Only set error if ALL requests failed
-      const allFailed =
-        charactersResponse.status === 'rejected' &&
-        encountersResponse.status === 'rejected' &&
-        partiesResponse.status === 'rejected';
-
-      if (allFailed) {
-        setError('Failed to load dashboard statistics');
+      if (!response.ok || !data.success) {
+        throw new Error(data.message || 'Failed to load dashboard statistics');
       }
 
+      setDashboard(data.dashboard);
     } catch {
       setError('Failed to load dashboard statistics');
     } finally {
@@ -92,9 +53,10 @@ export function useDashboardStats(): UseDashboardStatsResult {
   }, [fetchStats]);
 
   return {
-    stats,
+    stats: dashboard?.counts ?? EMPTY_STATS,
+    dashboard,
     isLoading,
     error,
     refetch,
   };
-}
\ No newline at end of file
+}
@@ -0,0 +1,137 @@
+import { NextRequest } from 'next/server';
+import { ZodError } from 'zod';
+import { CollaboratorService } from '@/lib/services/CollaboratorService';
+import {
+  inviteCollaboratorSchema,
+  updateCollaboratorSchema,
+  type CollaborationResource,
+} from '@/lib/validations/collaborator';
+import {
+  withAuth,
+  createSuccessResponse,
+  handleServiceError,
+} from './route-helpers';
+
+/**
+ * Collaborator routes shared by encounters and parties
+ *
+ * /api/{encounters|parties}/[id]/collaborators and
+ * /api/{encounters|parties}/[id]/collaborators/[collaboratorId]
+ * behave the same for both resources, so their handlers are built here.
+ */
+
+type ResourceParams = { params: Promise<{ id: string }> };
+type CollaboratorParams = { params: Promise<{ id: string; collaboratorId: string }> };
+
+function handleUnexpectedError(error: unknown, route: string, message: string) {
+  if (error instanceof ZodError) {
+    return handleServiceError(
+      { error: { message: 'Invalid collaborator data', details: error.errors } },
+      'Invalid collaborator data'
+    );
+  }
+
+  console.error(`${route} error:`, error);
+  return handleServiceError(
+    { error: { message: 'Internal server error' } },
+    message,
+    500
+  );
+}
+
+/**
+ * GET lists the collaborators of a resource; POST invites a user by email or username
+ */
+export function createCollaboratorListHandlers(resourceType: CollaborationResource) {
+  const route = `/api/${resourceType === 'party' ? 'parties' : 'encounters'}/[id]/collaborators`;
+
+  const GET = (_request: NextRequest, { params }: ResourceParams) =>
+    withAuth(async (userId) => {
+      try {
+        const { id } = await params;
+
+        const result = await CollaboratorService.listCollaborators(resourceType, id, userId);
+
+        if (!result.success) {
+          return handleServiceError(result, 'Failed to list collaborators');
+        }
+
+        return createSuccessResponse({ collaborators: result.data });
+      } catch (error) {
+        return handleUnexpectedError(error, `GET ${route}`, 'Failed to list collaborators');
+      }
+    });
+
+  const POST = (request: NextRequest, { params }: ResourceParams) =>
+    withAuth(async (userId) => {
+      try {
+        const { id } = await params;
+        const invite = inviteCollaboratorSchema.parse(await request.json());
+
+        const result = await CollaboratorService.inviteCollaborator(resourceType, id, userId, invite);
+
+        if (!result.success) {
+          return handleServiceError(result, 'Failed to invite collaborator');
+        }
+
+        return createSuccessResponse(
+          { collaborator: result.data },
+          `Invitation sent to ${result.data!.username}`
+        );
+      } catch (error) {
+        return handleUnexpectedError(error, `POST ${route}`, 'Failed to invite collaborator');
+      }
+    });
+
+  return { GET, POST };
+}
+
+/**
+ * PATCH changes a collaborator's role; DELETE removes the collaborator
+ */
+export function createCollaboratorHandlers(resourceType: CollaborationResource) {
+  const route = `/api/${resourceType === 'party' ? 'parties' : 'encounters'}/[id]/collaborators/[collaboratorId]`;
+
+  const PATCH = (request: NextRequest, { params }: CollaboratorParams) =>
+    withAuth(async (userId) => {
+      try {
+        const { id, collaboratorId } = await params;
+        const { role } = updateCollaboratorSchema.parse(await request.json());
+
+        const result = await CollaboratorService.updateCollaboratorRole(
+          resourceType,
+          id,
+          collaboratorId,
+          userId,
+          role
+        );
+
+        if (!result.success) {
+          return handleServiceError(result, 'Failed to update collaborator');
+        }
+
+        return createSuccessResponse({ collaborator: result.data }, 'Collaborator role updated');
+      } catch (error) {
+        return handleUnexpectedError(error, `PATCH ${route}`, 'Failed to update collaborator');
+      }
+    });
+
+  const DELETE = (_request: NextRequest, { params }: CollaboratorParams) =>
+    withAuth(async (userId) => {
+      try {
+        const { id, collaboratorId } = await params;
+
+        const result = await CollaboratorService.removeCollaborator(resourceType, id, collaboratorId, userId);
+
+        if (!result.success) {
+          return handleServiceError(result, 'Failed to remove collaborator');
+        }
+
+        return createSuccessResponse({}, 'Collaborator removed');
+      } catch (error) {
+        return handleUnexpectedError(error, `DELETE ${route}`, 'Failed to remove collaborator');
+      }
+    });
+
+  return { PATCH, DELETE };
+}
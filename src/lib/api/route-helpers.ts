@@ -1,6 +1,7 @@
 import { NextResponse, NextRequest } from 'next/server';
 import { ZodError } from 'zod';
 import { auth } from '@clerk/nextjs/server';
+import { hasPermission, type CollaborationPermission } from '@/lib/utils/collaboration';
 
 /**
  * Shared API route helpers for authentication and access control
@@ -173,8 +174,16 @@ export async function validateEncounterId(params: Promise<{ id: string }>) {
 
 /**
  * Validates that a user has access to an encounter
+ *
+ * Owners always pass; other users need a collaborator role granting the
+ * permission (by default only the owner may proceed).
  */
-export async function validateEncounterAccess(encounterId: string, userId: string, encounterService: any) {
+export async function validateEncounterAccess(
+  encounterId: string,
+  userId: string,
+  encounterService: any,
+  permission: CollaborationPermission = 'manage'
+) {
   const result = await encounterService.getEncounterById(encounterId);
 
   if (!result.success) {
@@ -200,8 +209,13 @@ export async function validateEncounterAccess(encounterId: string, userId: strin
     throw new Error('Encounter not found');
   }
 
-  if (result.data.ownerId !== userId) {
-    throw new Error('Insufficient permissions');
+  if (result.data.ownerId.toString() !== userId) {
+    // Import here to avoid circular dependency
+    const { EncounterServiceAuth } = await import('@/lib/services/EncounterServiceAuth');
+    const role = await EncounterServiceAuth.getAccessRole(result.data, userId);
+    if (!hasPermission(role, permission)) {
+      throw new Error('Insufficient permissions');
+    }
   }
 
   return result.data;
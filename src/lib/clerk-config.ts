@@ -38,6 +38,7 @@ export const CLERK_CONFIG = {
     '/dashboard',
     '/characters',
     '/parties',
+    '/campaigns',
     '/encounters',
     '/combat',
     '/settings'
@@ -146,6 +146,7 @@ export const CLERK_CONFIG = {
     '/dashboard',
     '/characters',
     '/parties',
+    '/campaigns',
     '/encounters',
     '/combat',
     '/settings'
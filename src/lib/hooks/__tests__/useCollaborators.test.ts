@@ -2,20 +2,27 @@
  * @jest-environment jsdom
  */
 import { renderHook, act } from '@testing-library/react';
-import { useCollaborators } from '../useCollaborators';
+import { useCollaborators, type Collaborator } from '../useCollaborators';
 import {
   TEST_EMAIL,
   TEST_ID,
   createMockResponse,
-  expectHookState,
-  expectFunctionType,
+  expectApiCall,
   setupFetchMock,
   cleanupFetchMock,
-  testApiErrorWithConsole,
-  testSuccessfulOperation,
-  testNoApiCall,
 } from './test-utils';
 
+const collaborator = (overrides: Partial<Collaborator> = {}): Collaborator => ({
+  id: TEST_ID,
+  userId: 'user-2',
+  username: 'ranger',
+  email: TEST_EMAIL,
+  role: 'viewer',
+  status: 'pending',
+  invitedAt: '2030-01-01T00:00:00.000Z',
+  ...overrides,
+});
+
 describe('useCollaborators', () => {
   beforeEach(() => {
     setupFetchMock();
@@ -25,138 +32,70 @@ describe('useCollaborators', () => {
     cleanupFetchMock();
   });
 
+  it('loads the collaborators of an encounter', async () => {
+    setupFetchMock(createMockResponse(true, { success: true, collaborators: [collaborator()] }));
+    const { result } = renderHook(() => useCollaborators('encounter', 'enc-1'));
 
-  describe('initialization', () => {
-    it('initializes with correct default state', () => {
-      const { result } = renderHook(() => useCollaborators());
-
-      expectHookState(result, {
-        newCollaboratorEmail: '',
-        showAddCollaborator: false,
-      });
-
-      ['setNewCollaboratorEmail', 'handleToggleAdd', 'handleAddCollaborator', 'handleRemoveCollaborator']
-        .forEach(funcName => expectFunctionType(result.current, funcName));
+    await act(async () => {
+      await result.current.loadCollaborators();
     });
-  });
 
-  describe('handleToggleAdd', () => {
-    it('toggles showAddCollaborator from false to true', () => {
-      const { result } = renderHook(() => useCollaborators());
+    expect(fetch).toHaveBeenCalledWith('/api/encounters/enc-1/collaborators', undefined);
+    expect(result.current.collaborators).toEqual([collaborator()]);
+  });
 
-      act(() => {
-        result.current.handleToggleAdd();
-      });
+  it('invites a party collaborator with a role', async () => {
+    setupFetchMock(createMockResponse(true, { success: true, collaborator: collaborator({ role: 'player' }) }));
+    const { result } = renderHook(() => useCollaborators('party', 'party-1'));
 
-      expect(result.current.showAddCollaborator).toBe(true);
+    let invited = false;
+    await act(async () => {
+      invited = await result.current.inviteCollaborator(TEST_EMAIL, 'player');
     });
 
-    it('toggles showAddCollaborator from true to false and clears email', () => {
-      const { result } = renderHook(() => useCollaborators());
-
-      // Set initial state
-      act(() => {
-        result.current.setNewCollaboratorEmail(TEST_EMAIL);
-        result.current.handleToggleAdd(); // Show add form
-      });
-
-      expectHookState(result, {
-        showAddCollaborator: true,
-        newCollaboratorEmail: TEST_EMAIL,
-      });
-
-      // Toggle off
-      act(() => {
-        result.current.handleToggleAdd();
-      });
-
-      expectHookState(result, {
-        showAddCollaborator: false,
-        newCollaboratorEmail: '',
-      });
-    });
+    expect(invited).toBe(true);
+    expectApiCall('POST', '/api/parties/party-1/collaborators', { identifier: TEST_EMAIL, role: 'player' });
+    expect(result.current.collaborators).toEqual([collaborator({ role: 'player' })]);
   });
 
-  describe('handleAddCollaborator', () => {
-    it('should make API call to add collaborator when email is provided', async () => {
-      setupFetchMock(createMockResponse());
-      const { result } = renderHook(() => useCollaborators());
-
-      act(() => {
-        result.current.setNewCollaboratorEmail(TEST_EMAIL);
-      });
-
-      await testSuccessfulOperation(
-        result,
-        () => result.current.handleAddCollaborator(),
-        'POST',
-        '/api/collaborators',
-        { email: TEST_EMAIL },
-        {
-          newCollaboratorEmail: '',
-          showAddCollaborator: false,
-        }
-      );
-    });
-
-    it('should not make API call when email is empty', async () => {
-      const { result } = renderHook(() => useCollaborators());
+  it('changes a role and removes collaborators', async () => {
+    const fetchMock = setupFetchMock(
+      createMockResponse(true, { success: true, collaborators: [collaborator()] })
+    );
+    const { result } = renderHook(() => useCollaborators('encounter', 'enc-1'));
 
-      await testNoApiCall(result, () => result.current.handleAddCollaborator());
+    await act(async () => {
+      await result.current.loadCollaborators();
     });
 
-    it('should not make API call when email is only whitespace', async () => {
-      const { result } = renderHook(() => useCollaborators());
+    fetchMock.mockResolvedValue(createMockResponse(true, { success: true, collaborator: collaborator({ role: 'co_dm' }) }));
+    await act(async () => {
+      await result.current.changeRole(TEST_ID, 'co_dm');
+    });
 
-      act(() => {
-        result.current.setNewCollaboratorEmail('   ');
-      });
+    expectApiCall('PATCH', `/api/encounters/enc-1/collaborators/${TEST_ID}`, { role: 'co_dm' });
+    expect(result.current.collaborators?.[0].role).toBe('co_dm');
 
-      await testNoApiCall(result, () => result.current.handleAddCollaborator());
+    fetchMock.mockResolvedValue(createMockResponse());
+    await act(async () => {
+      await result.current.removeCollaborator(TEST_ID);
     });
 
-    it('should handle API errors gracefully', async () => {
-      setupFetchMock(createMockResponse(false));
-      const { result } = renderHook(() => useCollaborators());
-
-      act(() => {
-        result.current.setNewCollaboratorEmail(TEST_EMAIL);
-      });
-
-      await act(async () => {
-        await testApiErrorWithConsole(
-          () => result.current.handleAddCollaborator(),
-          'Failed to add collaborator:',
-          false
-        );
-      });
-    });
+    expectApiCall('DELETE', `/api/encounters/enc-1/collaborators/${TEST_ID}`);
+    expect(result.current.collaborators).toEqual([]);
   });
 
-  describe('handleRemoveCollaborator', () => {
-    it('should make API call to remove collaborator', async () => {
-      setupFetchMock(createMockResponse());
-      const { result } = renderHook(() => useCollaborators());
-
-      await testSuccessfulOperation(
-        result,
-        () => result.current.handleRemoveCollaborator(TEST_ID),
-        'DELETE',
-        `/api/collaborators/${TEST_ID}`
-      );
-    });
+  it('keeps the server error message when a request fails', async () => {
+    setupFetchMock(createMockResponse(false, { success: false, message: 'No user found with email or username: nobody' }));
+    const { result } = renderHook(() => useCollaborators('encounter', 'enc-1'));
 
-    it('should handle API errors gracefully', async () => {
-      setupFetchMock(createMockResponse(false));
-      const { result } = renderHook(() => useCollaborators());
-
-      await act(async () => {
-        await testApiErrorWithConsole(
-          () => result.current.handleRemoveCollaborator(TEST_ID),
-          'Failed to remove collaborator:',
-          false
-        );
-      });
+    let invited = true;
+    await act(async () => {
+      invited = await result.current.inviteCollaborator('nobody', 'viewer');
     });
+
+    expect(invited).toBe(false);
+    expect(result.current.error).toBe('No user found with email or username: nobody');
+    expect(result.current.isWorking).toBe(false);
   });
-});
\ No newline at end of file
+});
@@ -49,6 +49,7 @@ describe('useInitiativeTracker', () => {
     expect(typeof result.current.handleEditInitiative).toBe('function');
     expect(typeof result.current.handleDelayAction).toBe('function');
     expect(typeof result.current.handleReadyAction).toBe('function');
+    expect(typeof result.current.handleUseLegendaryAction).toBe('function');
     expect(typeof result.current.handleExportInitiative).toBe('function');
     expect(typeof result.current.handleShareInitiative).toBe('function');
   });
@@ -115,6 +116,52 @@ describe('useInitiativeTracker', () => {
         })
       );
     });
+
+    it('handleUseLegendaryAction makes API call with participant ID and cost', async () => {
+      setupSuccessfulFetchMock(mockEncounter);
+      const { result } = renderHook(() =>
+        useInitiativeTracker(createInitiativeTrackerProps(mockEncounter, mockOnEncounterUpdate))
+      );
+
+      await act(async () => {
+        await result.current.handleUseLegendaryAction('participant-123', 2);
+      });
+
+      expect(fetch).toHaveBeenCalledWith(
+        `/api/encounters/${mockEncounter._id}/combat/legendary-actions`,
+        expect.objectContaining({
+          method: 'PATCH',
+          body: JSON.stringify({ participantId: 'participant-123', cost: 2 })
+        })
+      );
+    });
+
+    it('handleSpendResource and handleLongRest call the resource endpoints', async () => {
+      setupSuccessfulFetchMock(mockEncounter);
+      const { result } = renderHook(() =>
+        useInitiativeTracker(createInitiativeTrackerProps(mockEncounter, mockOnEncounterUpdate))
+      );
+
+      await act(async () => {
+        await result.current.handleSpendResource('participant-123', 'spell-slot-1');
+        await result.current.handleLongRest();
+      });
+
+      expect(fetch).toHaveBeenCalledWith(
+        `/api/encounters/${mockEncounter._id}/combat/resources`,
+        expect.objectContaining({
+          method: 'PATCH',
+          body: JSON.stringify({ participantId: 'participant-123', resourceId: 'spell-slot-1' })
+        })
+      );
+      expect(fetch).toHaveBeenCalledWith(
+        `/api/encounters/${mockEncounter._id}/combat/rest`,
+        expect.objectContaining({
+          method: 'POST',
+          body: JSON.stringify({ type: 'long' })
+        })
+      );
+    });
   });
 
   describe('export and share functionality', () => {
@@ -0,0 +1,33 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import type { CampaignSummary } from '@/lib/services/CampaignService';
+
+/**
+ * Hook for the user's campaigns as choices in list filters
+ *
+ * Filters stay usable without campaigns, so a failed request just leaves the
+ * list empty.
+ */
+export function useCampaignOptions(): CampaignSummary[] {
+  const [campaigns, setCampaigns] = useState<CampaignSummary[]>([]);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    fetch('/api/campaigns?limit=100&sortBy=name&sortOrder=asc')
+      .then(response => response.json())
+      .then(data => {
+        if (!cancelled && data?.success) {
+          setCampaigns(data.campaigns ?? []);
+        }
+      })
+      .catch(() => undefined);
+
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  return campaigns;
+}
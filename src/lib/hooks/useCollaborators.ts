@@ -1,69 +1,100 @@
-import { useState } from 'react';
+import { useCallback, useState } from 'react';
+import type {
+  CollaborationResource,
+  CollaboratorRole,
+  CollaboratorStatus,
+} from '@/lib/validations/collaborator';
 
 /**
- * Custom hook for managing collaborator state and actions
+ * A collaborator as returned by the encounter and party collaborator APIs
  */
-export function useCollaborators() {
-  const [newCollaboratorEmail, setNewCollaboratorEmail] = useState('');
-  const [showAddCollaborator, setShowAddCollaborator] = useState(false);
+export interface Collaborator {
+  id: string;
+  userId: string;
+  username: string;
+  email?: string;
+  role: CollaboratorRole;
+  status: CollaboratorStatus;
+  invitedAt: string;
+  respondedAt?: string;
+}
 
-  const handleToggleAdd = () => {
-    setShowAddCollaborator(!showAddCollaborator);
-    if (showAddCollaborator) {
-      setNewCollaboratorEmail('');
-    }
-  };
+async function requestCollaboratorApi(url: string, init?: RequestInit) {
+  const response = await fetch(url, init);
+  const result = await response.json();
 
-  const handleAddCollaborator = async (): Promise<boolean> => {
-    if (newCollaboratorEmail.trim()) {
-      try {
-        const response = await fetch('/api/collaborators', {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-          },
-          body: JSON.stringify({
-            email: newCollaboratorEmail,
-          }),
-        });
+  if (!response.ok || !result.success) {
+    throw new Error(result.message || result.error || 'Collaborator request failed');
+  }
 
-        if (!response.ok) {
-          throw new Error(`Failed to add collaborator: ${response.status}`);
-        }
+  return result;
+}
 
-        setNewCollaboratorEmail('');
-        setShowAddCollaborator(false);
-        return true;
-      } catch (error) {
-        console.error('Failed to add collaborator:', error);
-        return false;
-      }
-    }
-    return false;
-  };
+const jsonRequest = (method: string, body: unknown): RequestInit => ({
+  method,
+  headers: { 'Content-Type': 'application/json' },
+  body: JSON.stringify(body),
+});
 
-  const handleRemoveCollaborator = async (collaboratorId: string): Promise<boolean> => {
-    try {
-      const response = await fetch(`/api/collaborators/${collaboratorId}`, {
-        method: 'DELETE',
-      });
+/**
+ * Hook for listing, inviting, re-roling and removing the collaborators of an encounter or party
+ */
+export function useCollaborators(resourceType: CollaborationResource, resourceId: string) {
+  const [collaborators, setCollaborators] = useState<Collaborator[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isWorking, setIsWorking] = useState(false);
+  const baseUrl = `/api/${resourceType === 'party' ? 'parties' : 'encounters'}/${resourceId}/collaborators`;
 
-      if (!response.ok) {
-        throw new Error(`Failed to remove collaborator: ${response.status}`);
-      }
+  const run = useCallback(async (operation: () => Promise<void>): Promise<boolean> => {
+    setIsWorking(true);
+    setError(null);
+    try {
+      await operation();
       return true;
-    } catch (error) {
-      console.error('Failed to remove collaborator:', error);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Something went wrong');
       return false;
+    } finally {
+      setIsWorking(false);
     }
-  };
+  }, []);
+
+  const loadCollaborators = useCallback(
+    () =>
+      run(async () => {
+        const result = await requestCollaboratorApi(baseUrl);
+        setCollaborators(result.collaborators);
+      }),
+    [baseUrl, run]
+  );
+
+  const inviteCollaborator = (identifier: string, role: CollaboratorRole) =>
+    run(async () => {
+      const result = await requestCollaboratorApi(baseUrl, jsonRequest('POST', { identifier, role }));
+      setCollaborators(current => [...(current ?? []), result.collaborator]);
+    });
+
+  const changeRole = (collaboratorId: string, role: CollaboratorRole) =>
+    run(async () => {
+      const result = await requestCollaboratorApi(`${baseUrl}/${collaboratorId}`, jsonRequest('PATCH', { role }));
+      setCollaborators(current =>
+        (current ?? []).map(existing => (existing.id === collaboratorId ? result.collaborator : existing))
+      );
+    });
+
+  const removeCollaborator = (collaboratorId: string) =>
+    run(async () => {
+      await requestCollaboratorApi(`${baseUrl}/${collaboratorId}`, { method: 'DELETE' });
+      setCollaborators(current => (current ?? []).filter(existing => existing.id !== collaboratorId));
+    });
 
   return {
-    newCollaboratorEmail,
-    showAddCollaborator,
-    setNewCollaboratorEmail,
-    handleToggleAdd,
-    handleAddCollaborator,
-    handleRemoveCollaborator,
+    collaborators,
+    error,
+    isWorking,
+    loadCollaborators,
+    inviteCollaborator,
+    changeRole,
+    removeCollaborator,
   };
-}
\ No newline at end of file
+}
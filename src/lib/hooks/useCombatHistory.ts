@@ -0,0 +1,81 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import type { CombatLogEntry } from '@/components/combat/round-tracking/history-utils';
+
+const HISTORY_PAGE_SIZE = 200;
+
+interface CombatHistoryResponse {
+  success: boolean;
+  history: CombatLogEntry[];
+  pagination: { currentPage: number; totalPages: number };
+  message?: string;
+}
+
+interface UseCombatHistoryReturn {
+  entries: CombatLogEntry[];
+  isLoading: boolean;
+  error: string | null;
+  refetch: () => Promise<void>;
+}
+
+/**
+ * Fetches one page of the combat log
+ */
+async function fetchHistoryPage(encounterId: string, page: number): Promise<CombatHistoryResponse> {
+  const response = await fetch(
+    `/api/encounters/${encounterId}/combat/history?page=${page}&limit=${HISTORY_PAGE_SIZE}`
+  );
+  const data: CombatHistoryResponse = await response.json();
+
+  if (!response.ok || !data.success) {
+    throw new Error(data.message || 'Failed to load combat history');
+  }
+
+  return data;
+}
+
+/**
+ * Hook for loading the persisted combat action log of an encounter
+ *
+ * Refetches whenever `refreshKey` changes so callers can tie it to
+ * round/turn updates.
+ */
+export function useCombatHistory(
+  encounterId: string,
+  refreshKey?: string | number
+): UseCombatHistoryReturn {
+  const [entries, setEntries] = useState<CombatLogEntry[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const refetch = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const collected: CombatLogEntry[] = [];
+      let page = 1;
+      let totalPages = 1;
+
+      do {
+        const data = await fetchHistoryPage(encounterId, page);
+        collected.push(...data.history);
+        totalPages = data.pagination.totalPages;
+        page++;
+      } while (page <= totalPages);
+
+      setEntries(collected);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load combat history');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [encounterId]);
+
+  useEffect(() => {
+    refetch();
+  }, [refetch, refreshKey]);
+
+  return { entries, isLoading, error, refetch };
+}
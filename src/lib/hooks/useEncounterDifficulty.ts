@@ -0,0 +1,51 @@
+import { useState, useEffect, useMemo } from 'react';
+import { EncounterService } from '@/lib/services/EncounterService';
+import {
+  getEncounterDifficultyBreakdown,
+  type EncounterDifficultyBreakdown,
+} from '@/lib/utils/encounter-difficulty';
+import type { Encounter } from '@/lib/validations/encounter';
+
+/**
+ * Custom hook for the encounter difficulty breakdown
+ *
+ * Starts from the levels stored on the participants and switches to the
+ * levels of the linked characters or party once they have been resolved.
+ */
+export function useEncounterDifficulty(encounter: Encounter): EncounterDifficultyBreakdown {
+  const localBreakdown = useMemo(
+    () => getEncounterDifficultyBreakdown(encounter.participants || [], encounter.targetLevel),
+    [encounter.participants, encounter.targetLevel]
+  );
+  const [resolvedBreakdown, setResolvedBreakdown] = useState<EncounterDifficultyBreakdown | null>(null);
+  const encounterId = encounter._id?.toString();
+
+  useEffect(() => {
+    if (!encounterId) {
+      return;
+    }
+
+    let cancelled = false;
+
+    const loadBreakdown = async () => {
+      try {
+        const result = await EncounterService.getDifficultyBreakdown(encounterId);
+        if (!cancelled) {
+          setResolvedBreakdown(result?.success && result.data ? result.data : null);
+        }
+      } catch {
+        if (!cancelled) {
+          setResolvedBreakdown(null);
+        }
+      }
+    };
+
+    loadBreakdown();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [encounterId, localBreakdown]);
+
+  return resolvedBreakdown ?? localBreakdown;
+}
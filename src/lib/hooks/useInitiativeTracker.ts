@@ -24,9 +24,16 @@ interface UseInitiativeTrackerReturn {
   handlePauseCombat: () => Promise<void>;
   handleResumeCombat: () => Promise<void>;
   handleEndCombat: () => Promise<void>;
+  handleUndo: () => Promise<void>;
+  handleRedo: () => Promise<void>;
   handleEditInitiative: (_participantId: string, _newInitiative: number) => Promise<void>;
   handleDelayAction: (_participantId: string) => Promise<void>;
   handleReadyAction: (_participantId: string, _triggerCondition: string) => Promise<void>;
+  handleUseLegendaryAction: (_participantId: string, _cost: number) => Promise<void>;
+  handleSpendResource: (_participantId: string, _resourceId: string) => Promise<void>;
+  handleSeedResources: () => Promise<void>;
+  handleShortRest: () => Promise<void>;
+  handleLongRest: () => Promise<void>;
   handleExportInitiative: () => void;
   handleShareInitiative: () => void;
 }
@@ -37,7 +44,10 @@ interface UseInitiativeTrackerReturn {
  * Provides handlers for all initiative tracker operations including:
  * - Turn progression (next/previous)
  * - Combat state management (pause/resume/end)
+ * - Undo/redo of combat actions
  * - Initiative editing
+ * - Legendary action spending
+ * - Resource spending and rests
  * - Export and sharing functionality
  */
 export function useInitiativeTracker({
@@ -82,6 +92,14 @@ export function useInitiativeTracker({
     await makeApiCall('combat/end');
   }, [makeApiCall]);
 
+  const handleUndo = useCallback(async () => {
+    await makeApiCall('combat/undo');
+  }, [makeApiCall]);
+
+  const handleRedo = useCallback(async () => {
+    await makeApiCall('combat/redo');
+  }, [makeApiCall]);
+
   const handleEditInitiative = useCallback(async (
     participantId: string,
     newInitiative: number
@@ -108,6 +126,38 @@ export function useInitiativeTracker({
     });
   }, [makeApiCall]);
 
+  const handleUseLegendaryAction = useCallback(async (
+    participantId: string,
+    cost: number
+  ) => {
+    await makeApiCall('combat/legendary-actions', 'PATCH', {
+      participantId,
+      cost
+    });
+  }, [makeApiCall]);
+
+  const handleSpendResource = useCallback(async (
+    participantId: string,
+    resourceId: string
+  ) => {
+    await makeApiCall('combat/resources', 'PATCH', {
+      participantId,
+      resourceId
+    });
+  }, [makeApiCall]);
+
+  const handleSeedResources = useCallback(async () => {
+    await makeApiCall('combat/resources', 'POST');
+  }, [makeApiCall]);
+
+  const handleShortRest = useCallback(async () => {
+    await makeApiCall('combat/rest', 'POST', { type: 'short' });
+  }, [makeApiCall]);
+
+  const handleLongRest = useCallback(async () => {
+    await makeApiCall('combat/rest', 'POST', { type: 'long' });
+  }, [makeApiCall]);
+
   /**
    * Validates that combat is active
    */
@@ -166,9 +216,16 @@ export function useInitiativeTracker({
     handlePauseCombat,
     handleResumeCombat,
     handleEndCombat,
+    handleUndo,
+    handleRedo,
     handleEditInitiative,
     handleDelayAction,
     handleReadyAction,
+    handleUseLegendaryAction,
+    handleSpendResource,
+    handleSeedResources,
+    handleShortRest,
+    handleLongRest,
     handleExportInitiative,
     handleShareInitiative
   };
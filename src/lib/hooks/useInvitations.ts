@@ -0,0 +1,75 @@
+import { useCallback, useState } from 'react';
+import type {
+  CollaborationResource,
+  CollaboratorRole,
+  RespondToInvitation,
+} from '@/lib/validations/collaborator';
+
+/**
+ * An encounter or party invitation waiting for the current user's answer
+ */
+export interface Invitation {
+  id: string;
+  resourceType: CollaborationResource;
+  resourceId: string;
+  resourceName: string;
+  role: CollaboratorRole;
+  invitedBy: string;
+  invitedAt: string;
+}
+
+/**
+ * Hook for the current user's pending collaboration invitations
+ */
+export function useInvitations() {
+  const [invitations, setInvitations] = useState<Invitation[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isWorking, setIsWorking] = useState(false);
+
+  const run = useCallback(async (operation: () => Promise<void>) => {
+    setIsWorking(true);
+    setError(null);
+    try {
+      await operation();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Something went wrong');
+    } finally {
+      setIsWorking(false);
+    }
+  }, []);
+
+  const loadInvitations = useCallback(
+    () =>
+      run(async () => {
+        const response = await fetch('/api/collaborators');
+        const result = await response.json();
+        if (!response.ok || !result.success) {
+          throw new Error(result.message || 'Failed to load invitations');
+        }
+        setInvitations(result.invitations);
+      }),
+    [run]
+  );
+
+  const respond = (invitationId: string, status: RespondToInvitation['status']) =>
+    run(async () => {
+      const response = await fetch(`/api/collaborators/${invitationId}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ status }),
+      });
+      const result = await response.json();
+      if (!response.ok || !result.success) {
+        throw new Error(result.message || 'Failed to respond to invitation');
+      }
+      setInvitations(current => (current ?? []).filter(invitation => invitation.id !== invitationId));
+    });
+
+  return {
+    invitations,
+    error,
+    isWorking,
+    loadInvitations,
+    respond,
+  };
+}
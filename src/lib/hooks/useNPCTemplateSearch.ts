@@ -0,0 +1,59 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import type { CreatureType, NPCTemplate } from '@/types/npc';
+
+/**
+ * Filters sent to the NPC template API
+ */
+export interface NPCTemplateSearchOptions {
+  search?: string;
+  category?: CreatureType;
+  isSystem?: boolean;
+  limit?: number;
+}
+
+/**
+ * Hook for NPC templates matching a search, loaded from the template API
+ *
+ * The bestiary stays on the server, so components only receive the page of
+ * templates they display. A failed request leaves the list empty.
+ */
+export function useNPCTemplateSearch(
+  { search, category, isSystem, limit }: NPCTemplateSearchOptions,
+  enabled = true
+): NPCTemplate[] {
+  const [templates, setTemplates] = useState<NPCTemplate[]>([]);
+
+  useEffect(() => {
+    if (!enabled) {
+      setTemplates([]);
+      return;
+    }
+
+    const params = new URLSearchParams();
+    if (search) params.set('search', search);
+    if (category) params.set('category', category);
+    if (isSystem !== undefined) params.set('isSystem', String(isSystem));
+    if (limit) params.set('limit', String(limit));
+
+    let cancelled = false;
+
+    fetch(`/api/npc-templates?${params.toString()}`)
+      .then(response => response.json())
+      .then(data => {
+        if (!cancelled) {
+          setTemplates(data?.success ? data.templates ?? [] : []);
+        }
+      })
+      .catch(() => {
+        if (!cancelled) setTemplates([]);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [search, category, isSystem, limit, enabled]);
+
+  return templates;
+}
@@ -0,0 +1,69 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import type { PartyInvitePreview } from '@/lib/services/PartyService';
+
+interface UsePartyInviteReturn {
+  invite: PartyInvitePreview | null;
+  error: string | null;
+  isJoining: boolean;
+  joinParty: (_characterIds: string[]) => Promise<boolean>;
+}
+
+async function fetchPartyInvite(code: string): Promise<PartyInvitePreview> {
+  const response = await fetch(`/api/parties/join/${code}`);
+  const result = await response.json();
+
+  if (!response.ok || !result.success) {
+    throw new Error(result.message || 'This invite link is not valid');
+  }
+
+  return result.invite;
+}
+
+/**
+ * Hook for opening a party invite link and joining with the chosen characters
+ */
+export function usePartyInvite(code: string): UsePartyInviteReturn {
+  const [invite, setInvite] = useState<PartyInvitePreview | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isJoining, setIsJoining] = useState(false);
+
+  useEffect(() => {
+    fetchPartyInvite(code)
+      .then(preview => {
+        setInvite(preview);
+        setError(null);
+      })
+      .catch(err => {
+        setInvite(null);
+        setError(err instanceof Error ? err.message : 'This invite link is not valid');
+      });
+  }, [code]);
+
+  const joinParty = async (characterIds: string[]): Promise<boolean> => {
+    setIsJoining(true);
+    setError(null);
+    try {
+      const response = await fetch(`/api/parties/join/${code}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ characterIds }),
+      });
+      const result = await response.json();
+
+      if (!response.ok || !result.success) {
+        throw new Error(result.message || 'Failed to join party');
+      }
+
+      return true;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to join party');
+      return false;
+    } finally {
+      setIsJoining(false);
+    }
+  };
+
+  return { invite, error, isJoining, joinParty };
+}
@@ -0,0 +1,48 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import type { PlayerCombatView } from '@/lib/realtime/player-view';
+
+export type CombatStreamStatus = 'connecting' | 'open' | 'error';
+
+interface UsePlayerCombatStreamReturn {
+  view: PlayerCombatView | null;
+  status: CombatStreamStatus;
+}
+
+/**
+ * Hook for subscribing to the read-only player view of an encounter
+ *
+ * The browser reconnects automatically when the stream drops; the status
+ * reports 'error' until the next update arrives.
+ */
+export function usePlayerCombatStream(encounterId: string): UsePlayerCombatStreamReturn {
+  const [view, setView] = useState<PlayerCombatView | null>(null);
+  const [status, setStatus] = useState<CombatStreamStatus>('connecting');
+
+  useEffect(() => {
+    if (typeof EventSource === 'undefined') {
+      setStatus('error');
+      return;
+    }
+
+    const source = new EventSource(`/api/encounters/${encounterId}/combat/stream`);
+
+    const handleUpdate = (event: MessageEvent<string>) => {
+      setView(JSON.parse(event.data));
+      setStatus('open');
+    };
+    const handleError = () => setStatus('error');
+
+    source.addEventListener('combat-update', handleUpdate);
+    source.addEventListener('error', handleError);
+
+    return () => {
+      source.removeEventListener('combat-update', handleUpdate);
+      source.removeEventListener('error', handleError);
+      source.close();
+    };
+  }, [encounterId]);
+
+  return { view, status };
+}
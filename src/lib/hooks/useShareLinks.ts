@@ -0,0 +1,97 @@
+import { useCallback, useState } from 'react';
+import type { ShareScope } from '@/lib/validations/encounter';
+
+export type ShareLinkStatus = 'active' | 'expired' | 'revoked';
+
+/**
+ * A share link as returned by the encounter share API
+ */
+export interface ShareLink {
+  id: string;
+  url: string;
+  scope: ShareScope;
+  status: ShareLinkStatus;
+  expiresAt: string;
+  createdAt: string;
+  revokedAt?: string;
+}
+
+async function requestShareApi(url: string, init?: RequestInit) {
+  const response = await fetch(url, init);
+  const result = await response.json();
+
+  if (!response.ok || !result.success) {
+    throw new Error(result.error || result.message || 'Share link request failed');
+  }
+
+  return result;
+}
+
+const jsonRequest = (method: string, body: unknown): RequestInit => ({
+  method,
+  headers: { 'Content-Type': 'application/json' },
+  body: JSON.stringify(body),
+});
+
+/**
+ * Hook for listing, creating, extending and revoking an encounter's share links
+ */
+export function useShareLinks(encounterId: string) {
+  const [shares, setShares] = useState<ShareLink[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isWorking, setIsWorking] = useState(false);
+  const baseUrl = `/api/encounters/${encounterId}/share`;
+
+  const run = useCallback(async (operation: () => Promise<void>) => {
+    setIsWorking(true);
+    setError(null);
+    try {
+      await operation();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Something went wrong');
+    } finally {
+      setIsWorking(false);
+    }
+  }, []);
+
+  const loadShares = useCallback(
+    () =>
+      run(async () => {
+        const result = await requestShareApi(baseUrl);
+        setShares(result.shares);
+      }),
+    [baseUrl, run]
+  );
+
+  const createShare = (scope: ShareScope, expiresIn: number) =>
+    run(async () => {
+      await requestShareApi(baseUrl, jsonRequest('POST', { scope, expiresIn }));
+      const result = await requestShareApi(baseUrl);
+      setShares(result.shares);
+    });
+
+  const replaceShare = (share: ShareLink) =>
+    setShares(current => (current ?? []).map(existing => (existing.id === share.id ? share : existing)));
+
+  const extendShare = (shareId: string, expiresIn: number) =>
+    run(async () => {
+      const result = await requestShareApi(`${baseUrl}/${shareId}`, jsonRequest('PATCH', { expiresIn }));
+      replaceShare(result.share);
+    });
+
+  const revokeShare = (shareId: string) =>
+    run(async () => {
+      const result = await requestShareApi(`${baseUrl}/${shareId}`, { method: 'DELETE' });
+      replaceShare(result.share);
+    });
+
+  return {
+    shares,
+    error,
+    isWorking,
+    loadShares,
+    createShare,
+    extendShare,
+    revokeShare,
+  };
+}
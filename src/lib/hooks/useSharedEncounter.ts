@@ -0,0 +1,87 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import type { SharedEncounterView } from '@/lib/services/EncounterServiceImportExport';
+
+// How often a player-view link refreshes the combat state
+export const SHARED_PLAYER_VIEW_REFRESH_MS = 5000;
+
+interface UseSharedEncounterReturn {
+  shared: SharedEncounterView | null;
+  error: string | null;
+  isCopying: boolean;
+  copyEncounter: (_name?: string) => Promise<string | null>;
+}
+
+async function fetchSharedEncounter(token: string): Promise<SharedEncounterView> {
+  const response = await fetch(`/api/encounters/shared/${token}`);
+  const result = await response.json();
+
+  if (!response.ok || !result.success) {
+    throw new Error(result.error || 'This share link is not valid');
+  }
+
+  return result.shared;
+}
+
+/**
+ * Hook for opening an encounter through a share link
+ *
+ * Player-view links keep refreshing so players follow combat as it happens.
+ */
+export function useSharedEncounter(token: string): UseSharedEncounterReturn {
+  const [shared, setShared] = useState<SharedEncounterView | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isCopying, setIsCopying] = useState(false);
+
+  const load = useCallback(async () => {
+    try {
+      setShared(await fetchSharedEncounter(token));
+      setError(null);
+    } catch (err) {
+      setShared(null);
+      setError(err instanceof Error ? err.message : 'This share link is not valid');
+    }
+  }, [token]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const isPlayerView = shared?.scope === 'player_view';
+  useEffect(() => {
+    if (!isPlayerView) return;
+
+    const interval = setInterval(load, SHARED_PLAYER_VIEW_REFRESH_MS);
+    return () => clearInterval(interval);
+  }, [isPlayerView, load]);
+
+  const copyEncounter = async (name?: string): Promise<string | null> => {
+    setIsCopying(true);
+    setError(null);
+    try {
+      const response = await fetch(`/api/encounters/shared/${token}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(name ? { name } : {}),
+      });
+      const result = await response.json();
+
+      if (response.status === 401) {
+        throw new Error('Sign in to copy this encounter');
+      }
+      if (!response.ok || !result.success) {
+        throw new Error(result.error || 'Failed to copy encounter');
+      }
+
+      return result.encounterId;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to copy encounter');
+      return null;
+    } finally {
+      setIsCopying(false);
+    }
+  };
+
+  return { shared, error, isCopying, copyEncounter };
+}
@@ -0,0 +1,128 @@
+import mongoose, { Document, Model, Schema, Types } from 'mongoose';
+import {
+  getStandardSchemaOptions,
+  mongooseObjectIdField,
+  commonFields,
+  commonIndexes,
+} from './shared/schema-utils';
+import { campaignStatusSchema, type CampaignStatus } from '../validations/campaign';
+
+/**
+ * One game night: who played, which encounters ran and what was handed out
+ */
+export interface ICampaignSession {
+  _id: Types.ObjectId;
+  date: Date;
+  title?: string;
+  attendees: Types.ObjectId[];
+  encounterIds: Types.ObjectId[];
+  xpAwarded: number;
+  loot: { name: string; quantity: number }[];
+  notes: string;
+}
+
+/**
+ * A campaign groups the parties playing it, the encounters planned for it
+ * in running order and the log of sessions played so far
+ */
+export interface ICampaign extends Document {
+  _id: Types.ObjectId;
+  ownerId: Types.ObjectId;
+  name: string;
+  description: string;
+  status: CampaignStatus;
+  tags: string[];
+  partyIds: Types.ObjectId[];
+  encounterPlan: Types.ObjectId[];
+  sessions: Types.DocumentArray<ICampaignSession & Types.Subdocument>;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Campaign model interface
+export type CampaignModel = Model<ICampaign>;
+
+const objectIdList = (ref: string) => ({
+  type: [mongooseObjectIdField(ref, false, false).type],
+  default: [],
+});
+
+// Session log entry schema
+const campaignSessionSchema = new Schema<ICampaignSession>({
+  date: {
+    type: Date,
+    required: true,
+  },
+  title: {
+    type: String,
+    trim: true,
+    maxlength: 100,
+  },
+  attendees: objectIdList('Character'),
+  encounterIds: objectIdList('Encounter'),
+  xpAwarded: {
+    type: Number,
+    default: 0,
+    min: 0,
+  },
+  loot: {
+    type: [
+      {
+        _id: false,
+        name: { type: String, required: true, trim: true, maxlength: 100 },
+        quantity: { type: Number, default: 1, min: 1 },
+      },
+    ],
+    default: [],
+  },
+  notes: {
+    type: String,
+    default: '',
+    trim: true,
+    maxlength: 10000,
+  },
+});
+
+// Mongoose schema definition
+const campaignSchema = new Schema<ICampaign, CampaignModel>(
+  {
+    ownerId: mongooseObjectIdField('User'),
+    name: commonFields.name,
+    description: {
+      type: String,
+      default: '',
+      trim: true,
+      maxlength: 2000,
+    },
+    status: {
+      type: String,
+      enum: campaignStatusSchema.options,
+      default: 'planning',
+    },
+    tags: {
+      type: [String],
+      default: [],
+    },
+    partyIds: objectIdList('Party'),
+    encounterPlan: objectIdList('Encounter'),
+    sessions: {
+      type: [campaignSessionSchema],
+      default: [],
+    },
+  },
+  getStandardSchemaOptions()
+);
+
+// Apply common indexes
+commonIndexes.ownerBased(campaignSchema);
+commonIndexes.temporal(campaignSchema);
+
+// Campaign-specific indexes
+campaignSchema.index({ name: 'text', description: 'text' });
+campaignSchema.index({ partyIds: 1 });
+campaignSchema.index({ encounterPlan: 1 });
+
+// Create and export the model
+export const Campaign =
+  (mongoose.models.Campaign as CampaignModel) ||
+  mongoose.model<ICampaign, CampaignModel>('Campaign', campaignSchema);
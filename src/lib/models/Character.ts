@@ -12,6 +12,8 @@ import {
   validationHelpers,
   type IHitPoints,
 } from './shared/schema-utils';
+import { participantResourceSchema } from './encounter/schemas';
+import type { IParticipantResource } from './encounter/interfaces';
 import type { CharacterSummary as ValidationCharacterSummary } from '../validations/character';
 
 // Ability name type for calculations
@@ -37,6 +39,7 @@ export interface ICharacter extends Document {
     level: number;
     subclass?: string;
     hitDie: number;
+    hitDiceUsed?: number;
   }>;
   abilityScores: {
     strength: number;
@@ -50,6 +53,9 @@ export interface ICharacter extends Document {
   armorClass: number;
   speed: number;
   proficiencyBonus: number;
+  experiencePoints: number;
+  exhaustion: number;
+  resources: IParticipantResource[];
   savingThrows: {
     strength: boolean;
     dexterity: boolean;
@@ -68,6 +74,7 @@ export interface ICharacter extends Document {
     equipped: boolean;
     magical: boolean;
   }>;
+  feats: string[];
   spells: Array<{
     name: string;
     level: number;
@@ -79,6 +86,10 @@ export interface ICharacter extends Document {
     description: string;
     isPrepared: boolean;
   }>;
+  damageResistances: string[];
+  damageVulnerabilities: string[];
+  damageImmunities: string[];
+  conditionImmunities: string[];
   backstory: string;
   notes: string;
   imageUrl?: string;
@@ -160,6 +171,11 @@ const characterSchema = new Schema<ICharacter, CharacterModel>(
           trim: true,
         },
         hitDie: dndFields.hitDie,
+        hitDiceUsed: {
+          type: Number,
+          default: 0,
+          min: 0,
+        },
       },
     ],
     abilityScores: {
@@ -174,6 +190,21 @@ const characterSchema = new Schema<ICharacter, CharacterModel>(
     armorClass: dndFields.armorClass,
     speed: dndFields.speed,
     proficiencyBonus: dndFields.proficiencyBonus,
+    experiencePoints: {
+      type: Number,
+      default: 0,
+      min: 0,
+    },
+    exhaustion: {
+      type: Number,
+      default: 0,
+      min: 0,
+      max: 6,
+    },
+    resources: {
+      type: [participantResourceSchema],
+      default: [],
+    },
     savingThrows: {
       strength: savingThrowField,
       dexterity: savingThrowField,
@@ -223,6 +254,10 @@ const characterSchema = new Schema<ICharacter, CharacterModel>(
         },
       },
     ],
+    feats: {
+      type: [String],
+      default: [],
+    },
     spells: [
       {
         name: {
@@ -267,6 +302,10 @@ const characterSchema = new Schema<ICharacter, CharacterModel>(
         },
       },
     ],
+    damageResistances: [dndFields.defenseEntry],
+    damageVulnerabilities: [dndFields.defenseEntry],
+    damageImmunities: [dndFields.defenseEntry],
+    conditionImmunities: [dndFields.defenseEntry],
     backstory: commonFields.backstory,
     notes: commonFields.notes,
     imageUrl: commonFields.imageUrl,
@@ -0,0 +1,177 @@
+import mongoose, { Document, Model, Schema, Types } from 'mongoose';
+import { mongooseObjectIdField } from './shared/schema-utils';
+
+/**
+ * A single changed field; `field` is a dot path into the character
+ * (e.g. `abilityScores.strength`) and a missing `from` or `to` means the
+ * field was absent on that side
+ */
+export interface CharacterFieldChange {
+  field: string;
+  from?: unknown;
+  to?: unknown;
+}
+
+// Character revision document interface
+export interface ICharacterRevision extends Document {
+  _id: Types.ObjectId;
+  characterId: Types.ObjectId;
+  revision: number;
+  authorId: Types.ObjectId;
+  changes: CharacterFieldChange[];
+  description: string;
+  revertedTo?: number;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Data needed to append a revision; the revision number is assigned on append
+ */
+export interface CharacterRevisionInput {
+  authorId: string;
+  changes: CharacterFieldChange[];
+  description: string;
+  revertedTo?: number;
+}
+
+/**
+ * Query options for reading a character's revisions
+ */
+export interface CharacterRevisionQuery {
+  skip?: number;
+  limit?: number;
+}
+
+// Character revision model interface with static methods
+export interface CharacterRevisionModel extends Model<ICharacterRevision> {
+  appendRevision(_characterId: string, _input: CharacterRevisionInput): Promise<ICharacterRevision>;
+  findRevisions(_characterId: string, _query?: CharacterRevisionQuery): Promise<ICharacterRevision[]>;
+  countRevisions(_characterId: string): Promise<number>;
+  findLatestRevisionNumber(_characterId: string): Promise<number>;
+  findRevisionRange(_characterId: string, _after: number, _upTo?: number): Promise<ICharacterRevision[]>;
+  clearRevisions(_characterId: string): Promise<void>;
+}
+
+const fieldChangeSchema = new Schema<CharacterFieldChange>(
+  {
+    field: {
+      type: String,
+      required: true,
+    },
+    from: {
+      type: Schema.Types.Mixed,
+    },
+    to: {
+      type: Schema.Types.Mixed,
+    },
+  },
+  { _id: false }
+);
+
+// Mongoose schema definition
+const characterRevisionSchema = new Schema<ICharacterRevision, CharacterRevisionModel>(
+  {
+    characterId: mongooseObjectIdField('Character', true, false),
+    revision: {
+      type: Number,
+      required: true,
+      min: 1,
+    },
+    authorId: mongooseObjectIdField('User', true, false),
+    changes: {
+      type: [fieldChangeSchema],
+      default: [],
+    },
+    description: {
+      type: String,
+      required: true,
+      maxlength: 500,
+    },
+    revertedTo: {
+      type: Number,
+      min: 0,
+    },
+  },
+  { timestamps: true }
+);
+
+// Static method: Append a revision with the next revision number
+characterRevisionSchema.statics.appendRevision = async function (
+  characterId: string,
+  input: CharacterRevisionInput
+) {
+  const latest = await this.findLatestRevisionNumber(characterId);
+
+  return this.create({
+    characterId: new Types.ObjectId(characterId),
+    revision: latest + 1,
+    authorId: new Types.ObjectId(input.authorId),
+    changes: input.changes,
+    description: input.description,
+    ...(input.revertedTo !== undefined && { revertedTo: input.revertedTo }),
+  });
+};
+
+// Static method: Read revisions, newest first
+characterRevisionSchema.statics.findRevisions = function (
+  characterId: string,
+  query: CharacterRevisionQuery = {}
+) {
+  let cursor = this.find({ characterId: new Types.ObjectId(characterId) }).sort({ revision: -1 });
+
+  if (query.skip) {
+    cursor = cursor.skip(query.skip);
+  }
+  if (query.limit) {
+    cursor = cursor.limit(query.limit);
+  }
+
+  return cursor.lean();
+};
+
+// Static method: Count revisions for a character
+characterRevisionSchema.statics.countRevisions = function (characterId: string) {
+  return this.countDocuments({ characterId: new Types.ObjectId(characterId) });
+};
+
+// Static method: Latest revision number, or 0 when the character has no history
+characterRevisionSchema.statics.findLatestRevisionNumber = async function (
+  characterId: string
+): Promise<number> {
+  const latest = await this.findOne({ characterId: new Types.ObjectId(characterId) })
+    .sort({ revision: -1 })
+    .select('revision')
+    .lean();
+
+  return latest?.revision ?? 0;
+};
+
+// Static method: Revisions after one revision up to another, oldest first
+characterRevisionSchema.statics.findRevisionRange = function (
+  characterId: string,
+  after: number,
+  upTo?: number
+) {
+  const revision: Record<string, number> = { $gt: after };
+  if (upTo !== undefined) {
+    revision.$lte = upTo;
+  }
+
+  return this.find({ characterId: new Types.ObjectId(characterId), revision })
+    .sort({ revision: 1 })
+    .lean();
+};
+
+// Static method: Remove a character's history
+characterRevisionSchema.statics.clearRevisions = async function (characterId: string): Promise<void> {
+  await this.deleteMany({ characterId: new Types.ObjectId(characterId) });
+};
+
+// Character revision indexes
+characterRevisionSchema.index({ characterId: 1, revision: -1 }, { unique: true });
+
+// Create and export the model
+export const CharacterRevision =
+  (mongoose.models.CharacterRevision as CharacterRevisionModel) ||
+  mongoose.model<ICharacterRevision, CharacterRevisionModel>('CharacterRevision', characterRevisionSchema);
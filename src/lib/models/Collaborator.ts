@@ -0,0 +1,70 @@
+import mongoose, { Document, Model, Schema, Types } from 'mongoose';
+import { mongooseObjectIdField } from './shared/schema-utils';
+import {
+  collaborationResourceSchema,
+  collaboratorRoleSchema,
+  collaboratorStatusSchema,
+  type CollaborationResource,
+  type CollaboratorRole,
+  type CollaboratorStatus,
+} from '../validations/collaborator';
+
+/**
+ * An invitation to collaborate on an encounter or party; once accepted the
+ * user is also listed in the resource's `sharedWith`
+ */
+export interface ICollaborator extends Document {
+  _id: Types.ObjectId;
+  resourceType: CollaborationResource;
+  resourceId: Types.ObjectId;
+  userId: Types.ObjectId;
+  invitedBy: Types.ObjectId;
+  role: CollaboratorRole;
+  status: CollaboratorStatus;
+  respondedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Collaborator model interface
+export type CollaboratorModel = Model<ICollaborator>;
+
+// Mongoose schema definition
+const collaboratorSchema = new Schema<ICollaborator, CollaboratorModel>(
+  {
+    resourceType: {
+      type: String,
+      enum: collaborationResourceSchema.options,
+      required: true,
+    },
+    resourceId: {
+      type: Schema.Types.ObjectId,
+      required: true,
+    },
+    userId: mongooseObjectIdField('User', true, false),
+    invitedBy: mongooseObjectIdField('User', true, false),
+    role: {
+      type: String,
+      enum: collaboratorRoleSchema.options,
+      default: 'viewer',
+    },
+    status: {
+      type: String,
+      enum: collaboratorStatusSchema.options,
+      default: 'pending',
+    },
+    respondedAt: {
+      type: Date,
+    },
+  },
+  { timestamps: true }
+);
+
+// Collaborator indexes
+collaboratorSchema.index({ resourceType: 1, resourceId: 1, userId: 1 }, { unique: true });
+collaboratorSchema.index({ userId: 1, status: 1 });
+
+// Create and export the model
+export const Collaborator =
+  (mongoose.models.Collaborator as CollaboratorModel) ||
+  mongoose.model<ICollaborator, CollaboratorModel>('Collaborator', collaboratorSchema);
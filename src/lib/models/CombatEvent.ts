@@ -0,0 +1,370 @@
+import mongoose, { Document, Model, Schema, Types } from 'mongoose';
+import { mongooseObjectIdField } from './shared/schema-utils';
+import type { ICombatState } from './encounter/interfaces';
+import type {
+  CombatActionLog,
+  CombatActionType,
+} from './encounter/combatStateManager';
+import type { CombatChangeSet } from './encounter/combatUndo';
+
+/**
+ * Kind of record stored in the combat event collection.
+ * - action: a single entry of the combat action log
+ * - snapshot: the latest saved combat state for an encounter (one per encounter)
+ */
+export type CombatEventKind = 'action' | 'snapshot';
+
+/**
+ * All combat action types accepted by the event collection
+ */
+export const COMBAT_ACTION_TYPES: CombatActionType[] = [
+  'combat_started',
+  'combat_ended',
+  'combat_paused',
+  'combat_resumed',
+  'turn_start',
+  'turn_end',
+  'round_start',
+  'round_end',
+  'damage_dealt',
+  'healing_applied',
+  'condition_added',
+  'condition_removed',
+  'condition_save',
+  'initiative_set',
+  'action_delayed',
+  'action_readied',
+  'participant_added',
+  'participant_removed',
+  'effect_added',
+  'effect_removed',
+  'concentration_started',
+  'concentration_check',
+  'concentration_ended',
+  'death_save',
+  'legendary_action',
+  'legendary_actions_configured',
+  'resource_spent',
+  'resource_configured',
+  'resources_seeded',
+  'rest_taken',
+];
+
+// Combat event document interface
+export interface ICombatEvent extends Document {
+  _id: Types.ObjectId;
+  encounterId: Types.ObjectId;
+  kind: CombatEventKind;
+  action?: CombatActionType;
+  round: number;
+  turn: number;
+  participantId?: Types.ObjectId;
+  details?: Record<string, any>;
+  state?: ICombatState;
+  stepId?: Types.ObjectId;
+  changes?: CombatChangeSet;
+  undoneAt?: Date;
+  timestamp: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Query options for reading the combat action log
+ */
+export interface CombatHistoryQuery {
+  round?: number;
+  skip?: number;
+  limit?: number;
+}
+
+/**
+ * An undoable combat step: the log entry holding the recorded changes
+ */
+export interface CombatStepRecord {
+  stepId: string;
+  entry: CombatActionLog;
+  changes: CombatChangeSet;
+}
+
+// Combat event model interface with static methods
+export interface CombatEventModel extends Model<ICombatEvent> {
+  appendAction(_encounterId: string, _entry: CombatActionLog): Promise<ICombatEvent>;
+  findHistory(_encounterId: string, _query?: CombatHistoryQuery): Promise<CombatActionLog[]>;
+  countHistory(_encounterId: string, _round?: number): Promise<number>;
+  clearHistory(_encounterId: string): Promise<void>;
+  saveSnapshot(_encounterId: string, _state: ICombatState): Promise<void>;
+  findSnapshot(_encounterId: string): Promise<ICombatState | null>;
+  clearSnapshot(_encounterId: string): Promise<void>;
+  attachStepChanges(_encounterId: string, _since: Date, _changes: CombatChangeSet): Promise<boolean>;
+  findUndoStep(_encounterId: string): Promise<CombatStepRecord | null>;
+  findRedoStep(_encounterId: string): Promise<CombatStepRecord | null>;
+  setStepUndone(_encounterId: string, _stepId: string, _undone: boolean): Promise<void>;
+}
+
+// Helper function to require an action type only on action log entries
+// eslint-disable-next-line no-unused-vars
+function isActionEvent(this: ICombatEvent): boolean {
+  return this.kind === 'action';
+}
+
+// Mongoose schema definition
+const combatEventSchema = new Schema<ICombatEvent, CombatEventModel>(
+  {
+    encounterId: mongooseObjectIdField('Encounter', true, false),
+    kind: {
+      type: String,
+      enum: ['action', 'snapshot'],
+      default: 'action',
+      required: true,
+    },
+    action: {
+      type: String,
+      enum: COMBAT_ACTION_TYPES,
+      required: isActionEvent,
+    },
+    round: {
+      type: Number,
+      default: 0,
+      min: 0,
+    },
+    turn: {
+      type: Number,
+      default: 0,
+      min: 0,
+    },
+    participantId: mongooseObjectIdField('Character', false, false),
+    details: {
+      type: Schema.Types.Mixed,
+    },
+    state: {
+      type: Schema.Types.Mixed,
+    },
+    stepId: mongooseObjectIdField('CombatEvent', false, false),
+    changes: {
+      type: Schema.Types.Mixed,
+    },
+    undoneAt: {
+      type: Date,
+    },
+    timestamp: {
+      type: Date,
+      default: Date.now,
+      required: true,
+    },
+  },
+  { timestamps: true }
+);
+
+// Helper function to build the base filter for action log queries
+function buildHistoryFilter(encounterId: string, round?: number): Record<string, any> {
+  const filter: Record<string, any> = {
+    encounterId: new Types.ObjectId(encounterId),
+    kind: 'action',
+  };
+
+  if (round !== undefined) {
+    filter.round = round;
+  }
+
+  return filter;
+}
+
+// Helper function to convert a stored event into a log entry
+function toCombatActionLog(event: any): CombatActionLog {
+  return {
+    action: event.action,
+    timestamp: new Date(event.timestamp),
+    round: event.round,
+    turn: event.turn,
+    ...(event.participantId && { participantId: event.participantId }),
+    ...(event.details && { details: event.details }),
+    ...(event.undoneAt && { undone: true }),
+  };
+}
+
+// Helper function to convert a stored event into an undoable step
+function toCombatStepRecord(event: any): CombatStepRecord | null {
+  if (!event) {
+    return null;
+  }
+
+  return {
+    stepId: event._id.toString(),
+    entry: toCombatActionLog(event),
+    changes: event.changes,
+  };
+}
+
+// Static method: Append an action to the combat log
+combatEventSchema.statics.appendAction = function (
+  encounterId: string,
+  entry: CombatActionLog
+) {
+  return this.create({
+    encounterId: new Types.ObjectId(encounterId),
+    kind: 'action',
+    ...entry,
+  });
+};
+
+// Static method: Read the combat log in chronological order
+combatEventSchema.statics.findHistory = async function (
+  encounterId: string,
+  query: CombatHistoryQuery = {}
+): Promise<CombatActionLog[]> {
+  let cursor = this.find(buildHistoryFilter(encounterId, query.round)).sort({
+    timestamp: 1,
+    _id: 1,
+  });
+
+  if (query.skip) {
+    cursor = cursor.skip(query.skip);
+  }
+  if (query.limit) {
+    cursor = cursor.limit(query.limit);
+  }
+
+  const events = await cursor.lean();
+  return events.map(toCombatActionLog);
+};
+
+// Static method: Count combat log entries
+combatEventSchema.statics.countHistory = function (encounterId: string, round?: number) {
+  return this.countDocuments(buildHistoryFilter(encounterId, round));
+};
+
+// Static method: Remove the combat log for an encounter
+combatEventSchema.statics.clearHistory = async function (encounterId: string): Promise<void> {
+  await this.deleteMany(buildHistoryFilter(encounterId));
+};
+
+// Static method: Upsert the saved combat state for an encounter
+combatEventSchema.statics.saveSnapshot = async function (
+  encounterId: string,
+  state: ICombatState
+): Promise<void> {
+  await this.findOneAndUpdate(
+    { encounterId: new Types.ObjectId(encounterId), kind: 'snapshot' },
+    {
+      $set: {
+        state,
+        round: state.currentRound,
+        turn: state.currentTurn,
+        timestamp: new Date(),
+      },
+    },
+    { upsert: true, setDefaultsOnInsert: true }
+  );
+};
+
+// Static method: Read the saved combat state for an encounter
+combatEventSchema.statics.findSnapshot = async function (
+  encounterId: string
+): Promise<ICombatState | null> {
+  const snapshot = await this.findOne({
+    encounterId: new Types.ObjectId(encounterId),
+    kind: 'snapshot',
+  }).lean();
+
+  return (snapshot?.state as ICombatState | undefined) ?? null;
+};
+
+// Static method: Remove the saved combat state for an encounter
+combatEventSchema.statics.clearSnapshot = async function (encounterId: string): Promise<void> {
+  await this.deleteOne({
+    encounterId: new Types.ObjectId(encounterId),
+    kind: 'snapshot',
+  });
+};
+
+// Static method: Group the log entries written since a step began and attach its changes
+combatEventSchema.statics.attachStepChanges = async function (
+  encounterId: string,
+  since: Date,
+  changes: CombatChangeSet
+): Promise<boolean> {
+  const filter = buildHistoryFilter(encounterId);
+  const events = await this.find({
+    ...filter,
+    timestamp: { $gte: since },
+    stepId: { $exists: false },
+  })
+    .sort({ timestamp: 1, _id: 1 })
+    .select('_id')
+    .lean();
+
+  if (events.length === 0) {
+    return false;
+  }
+
+  // A new step makes previously undone steps unreachable for redo
+  await this.updateMany(
+    { ...filter, undoneAt: { $exists: true } },
+    { $unset: { changes: 1 } }
+  );
+
+  const primaryId = events[events.length - 1]._id;
+  await this.updateMany(
+    { _id: { $in: events.map((event: { _id: Types.ObjectId }) => event._id) } },
+    { $set: { stepId: primaryId } }
+  );
+  await this.updateOne({ _id: primaryId }, { $set: { changes } });
+  return true;
+};
+
+// Static method: Find the most recent step that can be undone
+combatEventSchema.statics.findUndoStep = async function (
+  encounterId: string
+): Promise<CombatStepRecord | null> {
+  const event = await this.findOne({
+    ...buildHistoryFilter(encounterId),
+    changes: { $exists: true },
+    undoneAt: { $exists: false },
+  })
+    .sort({ timestamp: -1, _id: -1 })
+    .lean();
+
+  return toCombatStepRecord(event);
+};
+
+// Static method: Find the most recently undone step that can be redone
+combatEventSchema.statics.findRedoStep = async function (
+  encounterId: string
+): Promise<CombatStepRecord | null> {
+  const event = await this.findOne({
+    ...buildHistoryFilter(encounterId),
+    changes: { $exists: true },
+    undoneAt: { $exists: true },
+  })
+    .sort({ undoneAt: -1, _id: -1 })
+    .lean();
+
+  return toCombatStepRecord(event);
+};
+
+// Static method: Mark every log entry of a step as undone or redone
+combatEventSchema.statics.setStepUndone = async function (
+  encounterId: string,
+  stepId: string,
+  undone: boolean
+): Promise<void> {
+  const update = undone
+    ? { $set: { undoneAt: new Date() } }
+    : { $unset: { undoneAt: 1 } };
+
+  await this.updateMany(
+    { ...buildHistoryFilter(encounterId), stepId: new Types.ObjectId(stepId) },
+    update
+  );
+};
+
+// Combat event indexes
+combatEventSchema.index({ encounterId: 1, round: 1, timestamp: 1 });
+combatEventSchema.index({ encounterId: 1, kind: 1, timestamp: 1 });
+combatEventSchema.index({ encounterId: 1, stepId: 1 });
+
+// Create and export the model
+export const CombatEvent =
+  (mongoose.models.CombatEvent as CombatEventModel) ||
+  mongoose.model<ICombatEvent, CombatEventModel>('CombatEvent', combatEventSchema);
@@ -0,0 +1,63 @@
+import mongoose, { Document, Model, Schema, Types } from 'mongoose';
+import { mongooseObjectIdField } from './shared/schema-utils';
+import { shareScopeSchema, type ShareScope } from '../validations/encounter';
+
+export type { ShareScope };
+
+/**
+ * A share link grant; the scope decides whether the holder may view the
+ * encounter, follow combat through the player view or copy it as a template
+ */
+export interface IEncounterShare extends Document {
+  _id: Types.ObjectId;
+  token: string;
+  encounterId: Types.ObjectId;
+  createdBy: Types.ObjectId;
+  scope: ShareScope;
+  expiresAt: Date;
+  revoked: boolean;
+  revokedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Encounter share model interface
+export type EncounterShareModel = Model<IEncounterShare>;
+
+// Mongoose schema definition
+const encounterShareSchema = new Schema<IEncounterShare, EncounterShareModel>(
+  {
+    token: {
+      type: String,
+      required: true,
+      unique: true,
+    },
+    encounterId: mongooseObjectIdField('Encounter', true, false),
+    createdBy: mongooseObjectIdField('User', true, false),
+    scope: {
+      type: String,
+      enum: shareScopeSchema.options,
+      default: 'read_only',
+    },
+    expiresAt: {
+      type: Date,
+      required: true,
+    },
+    revoked: {
+      type: Boolean,
+      default: false,
+    },
+    revokedAt: {
+      type: Date,
+    },
+  },
+  { timestamps: true }
+);
+
+// Encounter share indexes
+encounterShareSchema.index({ encounterId: 1, createdAt: -1 });
+
+// Create and export the model
+export const EncounterShare =
+  (mongoose.models.EncounterShare as EncounterShareModel) ||
+  mongoose.model<IEncounterShare, EncounterShareModel>('EncounterShare', encounterShareSchema);
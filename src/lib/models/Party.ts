@@ -7,6 +7,10 @@ import {
 } from './shared/schema-utils';
 import type { CharacterModel } from './Character';
 
+// Outcome of adding characters: `full` when they would take the party past its
+// member limit, `taken` when one of them joined a party in the meantime
+export type PartyMembershipResult = 'added' | 'full' | 'taken';
+
 // Party document interface
 export interface IParty extends Document {
   _id: Types.ObjectId;
@@ -32,9 +36,10 @@ export interface IParty extends Document {
 
   // Instance methods
   addMember(_characterId: Types.ObjectId): Promise<void>;
+  addMembers(_characterIds: Types.ObjectId[]): Promise<PartyMembershipResult>;
   removeMember(_characterId: Types.ObjectId): Promise<void>;
   getMembers(): Promise<any[]>;
-  updateActivity(): void;
+  updateActivity(): Promise<IParty>;
 }
 
 // Party model interface with static methods
@@ -148,39 +153,57 @@ async function getCurrentMemberCount(partyId: Types.ObjectId): Promise<number> {
   });
 }
 
-// Helper function to update character party membership
-async function updateCharacterParty(characterId: Types.ObjectId, partyId: Types.ObjectId): Promise<void> {
+// Helper function to claim characters for a party; a character only moves when
+// it is not in a party yet, so two joins cannot both take it
+async function claimCharacters(characterIds: Types.ObjectId[], partyId: Types.ObjectId): Promise<Types.ObjectId[]> {
   const Character = mongoose.models.Character as CharacterModel;
-  await Character.findByIdAndUpdate(characterId, { partyId });
+  const claimed = await Promise.all(
+    characterIds.map(characterId => Character.findOneAndUpdate({ _id: characterId, partyId: null }, { partyId }))
+  );
+  return characterIds.filter((_characterId, index) => claimed[index]);
 }
 
-// Helper function to validate party capacity
-function validatePartyCapacity(currentCount: number, maxMembers: number): void {
-  if (currentCount >= maxMembers) {
-    throw new Error('Party is at maximum capacity');
-  }
+// Helper function to remove characters from a party
+async function releaseCharacters(characterIds: Types.ObjectId[], partyId: Types.ObjectId): Promise<void> {
+  if (characterIds.length === 0) return;
+  const Character = mongoose.models.Character as CharacterModel;
+  await Character.updateMany({ _id: { $in: characterIds }, partyId }, { $unset: { partyId: 1 } });
 }
 
+// Instance method: Add characters to the party, all or none. They are claimed
+// before the party is counted, so of two joins racing for the last places at
+// least one sees the other and backs out.
+partySchema.methods.addMembers = async function (characterIds: Types.ObjectId[]): Promise<PartyMembershipResult> {
+  const claimed = await claimCharacters(characterIds, this._id);
+  if (claimed.length < characterIds.length) {
+    await releaseCharacters(claimed, this._id);
+    return 'taken';
+  }
+
+  if ((await getCurrentMemberCount(this._id)) > this.settings.maxMembers) {
+    await releaseCharacters(claimed, this._id);
+    return 'full';
+  }
+
+  await this.updateActivity();
+  return 'added';
+};
+
 // Instance method: Add member to party
 partySchema.methods.addMember = async function (characterId: Types.ObjectId): Promise<void> {
-  const currentMemberCount = await getCurrentMemberCount(this._id);
-  validatePartyCapacity(currentMemberCount, this.settings.maxMembers);
-  await updateCharacterParty(characterId, this._id);
-  this.updateActivity();
+  const result = await this.addMembers([characterId]);
+  if (result === 'full') {
+    throw new Error('Party is at maximum capacity');
+  }
+  if (result === 'taken') {
+    throw new Error('Character already belongs to a party');
+  }
 };
 
-// Helper function to remove character from party
-async function removeCharacterFromParty(characterId: Types.ObjectId): Promise<void> {
-  const Character = mongoose.models.Character as CharacterModel;
-  await Character.findByIdAndUpdate(characterId, {
-    $unset: { partyId: 1 },
-  });
-}
-
 // Instance method: Remove member from party
 partySchema.methods.removeMember = async function (characterId: Types.ObjectId): Promise<void> {
-  await removeCharacterFromParty(characterId);
-  this.updateActivity();
+  await releaseCharacters([characterId], this._id);
+  await this.updateActivity();
 };
 
 // Helper function to find party members
@@ -198,9 +221,9 @@ partySchema.methods.getMembers = async function (): Promise<any[]> {
 };
 
 // Instance method: Update last activity
-partySchema.methods.updateActivity = function (): void {
+partySchema.methods.updateActivity = function (): Promise<IParty> {
   this.lastActivity = new Date();
-  this.save();
+  return this.save();
 };
 
 // Static method: Find parties by owner ID
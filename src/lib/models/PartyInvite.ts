@@ -0,0 +1,60 @@
+import mongoose, { Document, Model, Schema, Types } from 'mongoose';
+import { mongooseObjectIdField } from './shared/schema-utils';
+
+/**
+ * An invite code handed out by a party's DM; anyone holding an active code
+ * can bring their characters into the party without a join request
+ */
+export interface IPartyInvite extends Document {
+  _id: Types.ObjectId;
+  code: string;
+  partyId: Types.ObjectId;
+  createdBy: Types.ObjectId;
+  expiresAt: Date;
+  uses: number;
+  revoked: boolean;
+  revokedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Party invite model interface
+export type PartyInviteModel = Model<IPartyInvite>;
+
+// Mongoose schema definition
+const partyInviteSchema = new Schema<IPartyInvite, PartyInviteModel>(
+  {
+    code: {
+      type: String,
+      required: true,
+      unique: true,
+    },
+    partyId: mongooseObjectIdField('Party', true, false),
+    createdBy: mongooseObjectIdField('User', true, false),
+    expiresAt: {
+      type: Date,
+      required: true,
+    },
+    uses: {
+      type: Number,
+      default: 0,
+      min: 0,
+    },
+    revoked: {
+      type: Boolean,
+      default: false,
+    },
+    revokedAt: {
+      type: Date,
+    },
+  },
+  { timestamps: true }
+);
+
+// Party invite indexes
+partyInviteSchema.index({ partyId: 1, createdAt: -1 });
+
+// Create and export the model
+export const PartyInvite =
+  (mongoose.models.PartyInvite as PartyInviteModel) ||
+  mongoose.model<IPartyInvite, PartyInviteModel>('PartyInvite', partyInviteSchema);
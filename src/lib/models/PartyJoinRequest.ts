@@ -0,0 +1,56 @@
+import mongoose, { Document, Model, Schema, Types } from 'mongoose';
+import { mongooseObjectIdField } from './shared/schema-utils';
+import { joinRequestStatusSchema, type JoinRequestStatus } from '../validations/party';
+
+/**
+ * A player's request to bring one of their characters into a party; the
+ * party owner approves or rejects it unless the party skips approval
+ */
+export interface IPartyJoinRequest extends Document {
+  _id: Types.ObjectId;
+  partyId: Types.ObjectId;
+  characterId: Types.ObjectId;
+  userId: Types.ObjectId;
+  message?: string;
+  status: JoinRequestStatus;
+  respondedBy?: Types.ObjectId;
+  respondedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Party join request model interface
+export type PartyJoinRequestModel = Model<IPartyJoinRequest>;
+
+// Mongoose schema definition
+const partyJoinRequestSchema = new Schema<IPartyJoinRequest, PartyJoinRequestModel>(
+  {
+    partyId: mongooseObjectIdField('Party', true, false),
+    characterId: mongooseObjectIdField('Character', true, false),
+    userId: mongooseObjectIdField('User', true, false),
+    message: {
+      type: String,
+      trim: true,
+      maxlength: 500,
+    },
+    status: {
+      type: String,
+      enum: joinRequestStatusSchema.options,
+      default: 'pending',
+    },
+    respondedBy: mongooseObjectIdField('User', false, false),
+    respondedAt: {
+      type: Date,
+    },
+  },
+  { timestamps: true }
+);
+
+// Party join request indexes
+partyJoinRequestSchema.index({ partyId: 1, status: 1, createdAt: -1 });
+partyJoinRequestSchema.index({ characterId: 1, status: 1 });
+
+// Create and export the model
+export const PartyJoinRequest =
+  (mongoose.models.PartyJoinRequest as PartyJoinRequestModel) ||
+  mongoose.model<IPartyJoinRequest, PartyJoinRequestModel>('PartyJoinRequest', partyJoinRequestSchema);
@@ -0,0 +1,70 @@
+import mongoose, { Document, Model, Schema } from 'mongoose';
+import type { CreatureType, Size } from '@/types/npc';
+
+/**
+ * A system NPC template as seeded into the `npctemplates` collection by
+ * migration 005. Only the searchable fields are declared; the stat block,
+ * actions and traits are stored as they come from the SRD data.
+ */
+export interface ISystemNPCTemplate extends Document {
+  id: string;
+  name: string;
+  category: CreatureType;
+  challengeRating: number;
+  size: Size;
+  environments?: string[];
+  isSystem: boolean;
+}
+
+export type SystemNPCTemplateModel = Model<ISystemNPCTemplate>;
+
+// Mongoose schema definition
+const systemNPCTemplateSchema = new Schema<ISystemNPCTemplate, SystemNPCTemplateModel>(
+  {
+    id: {
+      type: String,
+      required: true,
+      unique: true,
+    },
+    name: {
+      type: String,
+      required: true,
+      index: true,
+    },
+    category: {
+      type: String,
+      required: true,
+      index: true,
+    },
+    challengeRating: {
+      type: Number,
+      required: true,
+      index: true,
+    },
+    size: {
+      type: String,
+      required: true,
+      index: true,
+    },
+    environments: {
+      type: [String],
+      default: undefined,
+      index: true,
+    },
+    isSystem: {
+      type: Boolean,
+      default: true,
+    },
+  },
+  {
+    collection: 'npctemplates',
+    strict: false,
+    id: false,
+    versionKey: false,
+  }
+);
+
+// Create and export the model
+export const SystemNPCTemplate =
+  (mongoose.models.SystemNPCTemplate as SystemNPCTemplateModel) ||
+  mongoose.model<ISystemNPCTemplate, SystemNPCTemplateModel>('SystemNPCTemplate', systemNPCTemplateSchema);
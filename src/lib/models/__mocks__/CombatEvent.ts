@@ -0,0 +1,117 @@
+import { jest } from '@jest/globals';
+import type { ICombatState } from '../encounter/interfaces';
+import type { CombatActionLog } from '../encounter/combatStateManager';
+import type { CombatChangeSet } from '../encounter/combatUndo';
+import type { CombatHistoryQuery, CombatStepRecord } from '../CombatEvent';
+
+// Manual Jest mock for the CombatEvent model. Keeps the action log and state
+// snapshots in memory so combat state tests run without a database.
+
+interface StoredAction {
+  id: string;
+  entry: CombatActionLog;
+  stepId?: string;
+  changes?: CombatChangeSet;
+  undoneAt?: number;
+}
+
+const actionStore = new Map<string, StoredAction[]>();
+const snapshotStore = new Map<string, ICombatState>();
+let nextId = 0;
+let undoClock = 0;
+
+export const COMBAT_ACTION_TYPES = [];
+
+export const resetCombatEventStore = () => {
+  actionStore.clear();
+  snapshotStore.clear();
+  nextId = 0;
+  undoClock = 0;
+};
+
+const getActions = (encounterId: string) => actionStore.get(encounterId) ?? [];
+
+const toEntry = (action: StoredAction): CombatActionLog => ({
+  ...action.entry,
+  ...(action.undoneAt !== undefined && { undone: true }),
+});
+
+const toStepRecord = (action?: StoredAction): CombatStepRecord | null =>
+  action?.changes
+    ? { stepId: action.id, entry: toEntry(action), changes: action.changes }
+    : null;
+
+const filterByRound = (actions: StoredAction[], round?: number) =>
+  round === undefined ? actions : actions.filter(action => action.entry.round === round);
+
+export const CombatEvent = {
+  appendAction: jest.fn(async (encounterId: string, entry: CombatActionLog) => {
+    const actions = getActions(encounterId);
+    actions.push({ id: `event-${++nextId}`, entry: { ...entry } });
+    actionStore.set(encounterId, actions);
+    return entry;
+  }),
+  findHistory: jest.fn(async (encounterId: string, query: CombatHistoryQuery = {}) => {
+    const actions = filterByRound(getActions(encounterId), query.round);
+    const start = query.skip ?? 0;
+    const end = query.limit ? start + query.limit : undefined;
+    return actions.slice(start, end).map(toEntry);
+  }),
+  countHistory: jest.fn(async (encounterId: string, round?: number) =>
+    filterByRound(getActions(encounterId), round).length
+  ),
+  clearHistory: jest.fn(async (encounterId: string) => {
+    actionStore.delete(encounterId);
+  }),
+  saveSnapshot: jest.fn(async (encounterId: string, state: ICombatState) => {
+    snapshotStore.set(encounterId, state);
+  }),
+  findSnapshot: jest.fn(async (encounterId: string) => snapshotStore.get(encounterId) ?? null),
+  clearSnapshot: jest.fn(async (encounterId: string) => {
+    snapshotStore.delete(encounterId);
+  }),
+  attachStepChanges: jest.fn(async (encounterId: string, since: Date, changes: CombatChangeSet) => {
+    const actions = getActions(encounterId);
+    const stepActions = actions.filter(
+      action => !action.stepId && action.entry.timestamp.getTime() >= since.getTime()
+    );
+    if (stepActions.length === 0) {
+      return false;
+    }
+
+    actions
+      .filter(action => action.undoneAt !== undefined)
+      .forEach(action => { delete action.changes; });
+
+    const primary = stepActions[stepActions.length - 1];
+    stepActions.forEach(action => { action.stepId = primary.id; });
+    primary.changes = changes;
+    return true;
+  }),
+  findUndoStep: jest.fn(async (encounterId: string) =>
+    toStepRecord(
+      [...getActions(encounterId)]
+        .reverse()
+        .find(action => action.changes && action.undoneAt === undefined)
+    )
+  ),
+  findRedoStep: jest.fn(async (encounterId: string) =>
+    toStepRecord(
+      getActions(encounterId)
+        .filter(action => action.changes && action.undoneAt !== undefined)
+        .sort((a, b) => (b.undoneAt ?? 0) - (a.undoneAt ?? 0))[0]
+    )
+  ),
+  setStepUndone: jest.fn(async (encounterId: string, stepId: string, undone: boolean) => {
+    const undoneAt = ++undoClock;
+    getActions(encounterId)
+      .filter(action => action.stepId === stepId)
+      .forEach(action => {
+        if (undone) {
+          action.undoneAt = undoneAt;
+        } else {
+          delete action.undoneAt;
+        }
+      });
+  }),
+};
@@ -64,6 +64,7 @@ export const createTestEncounter = (): IEncounter => ({
   previousTurn: jest.fn(),
   setInitiative: jest.fn(),
   applyDamage: jest.fn(),
+  applyTypedDamage: jest.fn(),
   applyHealing: jest.fn(),
   addCondition: jest.fn(),
   removeCondition: jest.fn(),
@@ -138,49 +139,15 @@ export const makeEncounterActive = (encounter: IEncounter) => {
   ];
 };
 
-// Window mocking utility
-export const runWithoutWindow = (testFn: () => void) => {
-  const originalWindow = global.window;
-  delete (global as any).window;
-  try {
-    testFn();
-  } finally {
-    global.window = originalWindow;
-  }
-};
-
-// Storage mocking utility
-export const mockStorage = () => ({
-  getItem: jest.fn(),
-  setItem: jest.fn(),
-  removeItem: jest.fn(),
-});
-
-export const runWithMockStorage = (testFn: (_storage: ReturnType<typeof mockStorage>) => void) => {
-  const originalWindow = global.window;
-  const storage = mockStorage();
-
-  // Simple window mocking
-  global.window = {
-    localStorage: storage,
-  } as any;
-
-  try {
-    testFn(storage);
-  } finally {
-    global.window = originalWindow;
-  }
-};
-
 // Test setup and cleanup utilities
-export const setupTest = (encounter: IEncounter) => {
-  clearCombatHistory(encounter._id.toString());
-  clearCombatState(encounter._id.toString());
+export const setupTest = async (encounter: IEncounter) => {
+  await clearCombatHistory(encounter._id.toString());
+  await clearCombatState(encounter._id.toString());
 };
 
 // Common test assertions
-export const expectHistoryAction = (encounterId: string, action: string, expectedLength = 1) => {
-  const history = getCombatHistory(encounterId);
+export const expectHistoryAction = async (encounterId: string, action: string, expectedLength = 1) => {
+  const history = await getCombatHistory(encounterId);
   expect(history).toHaveLength(expectedLength);
   expect(history[expectedLength - 1].action).toBe(action);
   return history[expectedLength - 1];
@@ -198,8 +165,8 @@ export const generateTimestamps = () => {
   return { now, later };
 };
 
-export const addTestHistory = (encounterId: string) => {
-  logCombatAction(encounterId, { action: 'combat_started', round: 1, turn: 0 });
-  logCombatAction(encounterId, { action: 'turn_start', round: 1, turn: 0 });
-  logCombatAction(encounterId, { action: 'damage_dealt', round: 1, turn: 0 });
+export const addTestHistory = async (encounterId: string) => {
+  await logCombatAction(encounterId, { action: 'combat_started', round: 1, turn: 0 });
+  await logCombatAction(encounterId, { action: 'turn_start', round: 1, turn: 0 });
+  await logCombatAction(encounterId, { action: 'damage_dealt', round: 1, turn: 0 });
 };
\ No newline at end of file
@@ -0,0 +1,41 @@
+import { addCombatEffect, removeCombatEffects } from '../combatEffects';
+import { IEncounter } from '../interfaces';
+import { createTestEncounter, makeEncounterActive, PARTICIPANT_IDS } from './combat-test-helpers';
+
+const FIRST_ID = PARTICIPANT_IDS.FIRST.toString();
+
+describe('Combat effects', () => {
+  let encounter: IEncounter;
+  const bless = { id: 'effect-bless', name: 'Bless', participantId: FIRST_ID, duration: 10, description: '' };
+
+  beforeEach(() => {
+    encounter = createTestEncounter();
+    makeEncounterActive(encounter);
+  });
+
+  describe('addCombatEffect', () => {
+    it('starts the effect in the current round', () => {
+      expect(addCombatEffect(encounter, bless)).toEqual({ ...bless, startRound: 2 });
+      expect(encounter.combatState.effects).toEqual([{ ...bless, startRound: 2 }]);
+    });
+
+    it('refuses an effect id that is already tracked', () => {
+      addCombatEffect(encounter, bless);
+
+      expect(addCombatEffect(encounter, { ...bless, name: 'Bane' })).toBeNull();
+      expect(encounter.combatState.effects).toHaveLength(1);
+    });
+  });
+
+  describe('removeCombatEffects', () => {
+    it('removes and returns only the tracked effects', () => {
+      addCombatEffect(encounter, bless);
+      addCombatEffect(encounter, { ...bless, id: 'effect-haste', name: 'Haste' });
+
+      const removed = removeCombatEffects(encounter, ['effect-bless', 'effect-missing']);
+
+      expect(removed.map(effect => effect.id)).toEqual(['effect-bless']);
+      expect(encounter.combatState.effects.map(effect => effect.id)).toEqual(['effect-haste']);
+    });
+  });
+});
@@ -13,13 +13,15 @@ import {
   enhancedStartCombat,
   enhancedEndCombat,
   enhancedNextTurn,
+  getCombatHistoryPage,
+  logEncounterAction,
 } from '../combatStateManager';
+import { CombatEvent } from '../../CombatEvent';
 import { IEncounter } from '../interfaces';
 import {
   createTestEncounter,
   createTestParticipant,
   makeEncounterActive,
-  runWithoutWindow,
   setupTest,
   expectHistoryAction,
   expectValidationError,
@@ -28,70 +30,72 @@ import {
   PARTICIPANT_IDS,
 } from './combat-test-helpers';
 
+jest.mock('../../CombatEvent');
+
 describe('Combat State Manager', () => {
   let encounter: IEncounter;
 
-  beforeEach(() => {
+  beforeEach(async () => {
     encounter = createTestEncounter();
-    setupTest(encounter);
+    await setupTest(encounter);
   });
 
   describe('Basic Operations', () => {
     describe('pauseCombat', () => {
-      it('should pause active combat', () => {
+      it('should pause active combat', async () => {
         encounter.combatState.isActive = true;
         encounter.combatState.startedAt = new Date();
 
-        expect(pauseCombat(encounter)).toBe(true);
+        expect(await pauseCombat(encounter)).toBe(true);
         expect(encounter.combatState.pausedAt).toBeDefined();
         expect(encounter.combatState.isActive).toBe(false);
       });
 
-      it('should return false if combat is not active', () => {
-        expect(pauseCombat(encounter)).toBe(false);
+      it('should return false if combat is not active', async () => {
+        expect(await pauseCombat(encounter)).toBe(false);
         expect(encounter.combatState.pausedAt).toBeUndefined();
       });
 
-      it('should log pause action', () => {
+      it('should log pause action', async () => {
         encounter.combatState.isActive = true;
         encounter.combatState.startedAt = new Date();
         encounter.combatState.currentRound = 2;
-        pauseCombat(encounter);
-        expectHistoryAction(encounter._id.toString(), 'combat_paused');
+        await pauseCombat(encounter);
+        await expectHistoryAction(encounter._id.toString(), 'combat_paused');
       });
     });
 
     describe('resumeCombat', () => {
-      it('should resume paused combat', () => {
+      it('should resume paused combat', async () => {
         encounter.combatState.isActive = false;
         encounter.combatState.pausedAt = new Date();
         encounter.status = 'active';
 
-        expect(resumeCombat(encounter)).toBe(true);
+        expect(await resumeCombat(encounter)).toBe(true);
         expect(encounter.combatState.isActive).toBe(true);
         expect(encounter.combatState.pausedAt).toBeUndefined();
       });
 
-      it('should return false if not paused', () => {
+      it('should return false if not paused', async () => {
         encounter.combatState.isActive = true;
-        expect(resumeCombat(encounter)).toBe(false);
+        expect(await resumeCombat(encounter)).toBe(false);
       });
 
-      it('should log resume action', () => {
+      it('should log resume action', async () => {
         encounter.combatState.isActive = false;
         encounter.combatState.pausedAt = new Date();
         encounter.combatState.startedAt = new Date();
         encounter.combatState.currentRound = 3;
         encounter.status = 'active';
-        resumeCombat(encounter);
-        expectHistoryAction(encounter._id.toString(), 'combat_resumed');
+        await resumeCombat(encounter);
+        await expectHistoryAction(encounter._id.toString(), 'combat_resumed');
       });
     });
 
     describe('logCombatAction', () => {
-      it('should log action with details', () => {
+      it('should log action with details', async () => {
         const participantId = new Types.ObjectId();
-        logCombatAction(encounter._id.toString(), {
+        await logCombatAction(encounter._id.toString(), {
           action: 'damage_dealt',
           participantId,
           details: { damage: 15 },
@@ -99,63 +103,113 @@ describe('Combat State Manager', () => {
           turn: 1,
         });
 
-        const history = getCombatHistory(encounter._id.toString());
+        const history = await getCombatHistory(encounter._id.toString());
         expect(history[0].action).toBe('damage_dealt');
         expect(history[0].participantId).toEqual(participantId);
         expect(history[0].details).toEqual({ damage: 15 });
       });
 
-      it('should maintain chronological order', (done) => {
+      it('should maintain chronological order', async () => {
         const id = encounter._id.toString();
-        logCombatAction(id, { action: 'turn_start', round: 1, turn: 0 });
-        setTimeout(() => {
-          logCombatAction(id, { action: 'damage_dealt', round: 1, turn: 0 });
-          const history = getCombatHistory(id);
-          expect(history[0].timestamp.getTime()).toBeLessThanOrEqual(history[1].timestamp.getTime());
-          done();
-        }, 10);
+        await logCombatAction(id, { action: 'turn_start', round: 1, turn: 0 });
+        await new Promise(resolve => setTimeout(resolve, 10));
+        await logCombatAction(id, { action: 'damage_dealt', round: 1, turn: 0 });
+
+        const history = await getCombatHistory(id);
+        expect(history[0].timestamp.getTime()).toBeLessThanOrEqual(history[1].timestamp.getTime());
+      });
+
+      it('should persist actions through the combat event collection', async () => {
+        await logCombatAction(encounter._id.toString(), { action: 'turn_start', round: 1, turn: 0 });
+
+        expect(CombatEvent.appendAction).toHaveBeenCalledWith(
+          encounter._id.toString(),
+          expect.objectContaining({ action: 'turn_start', timestamp: expect.any(Date) })
+        );
       });
     });
 
     describe('getCombatHistory', () => {
-      it('should return empty for new encounter', () => {
-        expect(getCombatHistory(encounter._id.toString())).toEqual([]);
+      it('should return empty for new encounter', async () => {
+        expect(await getCombatHistory(encounter._id.toString())).toEqual([]);
       });
 
-      it('should return complete history', () => {
-        addTestHistory(encounter._id.toString());
-        const history = getCombatHistory(encounter._id.toString());
+      it('should return complete history', async () => {
+        await addTestHistory(encounter._id.toString());
+        const history = await getCombatHistory(encounter._id.toString());
         expect(history).toHaveLength(3);
         expect(history.map(h => h.action)).toEqual(['combat_started', 'turn_start', 'damage_dealt']);
       });
     });
 
     describe('clearCombatHistory', () => {
-      it('should clear all history', () => {
-        addTestHistory(encounter._id.toString());
-        expect(getCombatHistory(encounter._id.toString())).toHaveLength(3);
-        clearCombatHistory(encounter._id.toString());
-        expect(getCombatHistory(encounter._id.toString())).toHaveLength(0);
+      it('should clear all history', async () => {
+        await addTestHistory(encounter._id.toString());
+        expect(await getCombatHistory(encounter._id.toString())).toHaveLength(3);
+        await clearCombatHistory(encounter._id.toString());
+        expect(await getCombatHistory(encounter._id.toString())).toHaveLength(0);
+      });
+    });
+
+    describe('getCombatHistoryPage', () => {
+      it('should paginate history entries', async () => {
+        const id = encounter._id.toString();
+        for (let i = 0; i < 5; i++) {
+          await logCombatAction(id, { action: 'damage_dealt', round: 1, turn: i });
+        }
+
+        const page = await getCombatHistoryPage(id, 2, 2);
+        expect(page.entries.map(e => e.turn)).toEqual([2, 3]);
+        expect(page.pagination).toEqual({
+          currentPage: 2,
+          totalPages: 3,
+          totalItems: 5,
+          itemsPerPage: 2,
+        });
+      });
+
+      it('should filter by round', async () => {
+        const id = encounter._id.toString();
+        await logCombatAction(id, { action: 'round_start', round: 1, turn: 0 });
+        await logCombatAction(id, { action: 'round_start', round: 2, turn: 0 });
+
+        const page = await getCombatHistoryPage(id, 1, 50, 2);
+        expect(page.entries).toHaveLength(1);
+        expect(page.entries[0].round).toBe(2);
+        expect(page.pagination.totalItems).toBe(1);
+      });
+    });
+
+    describe('logEncounterAction', () => {
+      it('should log at the current round and turn', async () => {
+        encounter.combatState.currentRound = 3;
+        encounter.combatState.currentTurn = 1;
+        await logEncounterAction(encounter, 'initiative_set', { details: { initiative: 12 } });
+
+        const log = await expectHistoryAction(encounter._id.toString(), 'initiative_set');
+        expect(log.round).toBe(3);
+        expect(log.turn).toBe(1);
+        expect(log.details).toEqual({ initiative: 12 });
       });
     });
 
     describe('getCombatPhase', () => {
-      it('should return inactive', () => {
+      it('should return inactive', async () => {
         expect(getCombatPhase(encounter)).toBe('inactive');
       });
 
-      it('should return paused', () => {
+      it('should return paused', async () => {
         encounter.combatState.pausedAt = new Date();
         encounter.status = 'active';
         expect(getCombatPhase(encounter)).toBe('paused');
       });
 
-      it('should return active', () => {
+      it('should return active', async () => {
         encounter.combatState.isActive = true;
         expect(getCombatPhase(encounter)).toBe('active');
       });
 
-      it('should return ended', () => {
+      it('should return ended', async () => {
         encounter.combatState.endedAt = new Date();
         encounter.status = 'completed';
         expect(getCombatPhase(encounter)).toBe('ended');
@@ -164,7 +218,7 @@ describe('Combat State Manager', () => {
   });
 
   describe('Validation', () => {
-    it('should validate correct state', () => {
+    it('should validate correct state', async () => {
       encounter.combatState.isActive = true;
       encounter.combatState.currentTurn = 1;
       encounter.combatState.initiativeOrder = [
@@ -177,14 +231,14 @@ describe('Combat State Manager', () => {
       expect(result.errors).toEqual([]);
     });
 
-    it('should detect invalid turn index', () => {
+    it('should detect invalid turn index', async () => {
       encounter.combatState.isActive = true;
       encounter.combatState.currentTurn = 5;
       encounter.combatState.initiativeOrder = [createTestParticipant()];
       expectValidationError(validateCombatState(encounter), 'Current turn index is out of bounds');
     });
 
-    it('should detect multiple active participants', () => {
+    it('should detect multiple active participants', async () => {
       encounter.combatState.isActive = true;
       encounter.combatState.initiativeOrder = [
         createTestParticipant({ isActive: true }),
@@ -193,7 +247,7 @@ describe('Combat State Manager', () => {
       expectValidationError(validateCombatState(encounter), 'Multiple participants marked as active');
     });
 
-    it('should detect negative values', () => {
+    it('should detect negative values', async () => {
       encounter.combatState.currentRound = -1;
       expectValidationError(validateCombatState(encounter), 'Current round cannot be negative');
 
@@ -202,23 +256,23 @@ describe('Combat State Manager', () => {
       expectValidationError(validateCombatState(encounter), 'Current turn cannot be negative');
     });
 
-    it('should detect no active participant during combat', () => {
+    it('should detect no active participant during combat', async () => {
       encounter.combatState.isActive = true;
       encounter.combatState.initiativeOrder = [createTestParticipant({ isActive: false })];
       expectValidationError(validateCombatState(encounter), 'No participant marked as active during active combat');
     });
 
-    it('should detect negative initiative values', () => {
+    it('should detect negative initiative values', async () => {
       encounter.combatState.initiativeOrder = [createTestParticipant({ initiative: -5 })];
       expectValidationError(validateCombatState(encounter), 'Participant 507f1f77bcf86cd799439011 has negative initiative');
     });
 
-    it('should detect negative dexterity values', () => {
+    it('should detect negative dexterity values', async () => {
       encounter.combatState.initiativeOrder = [createTestParticipant({ dexterity: -2 })];
       expectValidationError(validateCombatState(encounter), 'Participant 507f1f77bcf86cd799439011 has negative dexterity');
     });
 
-    it('should detect duplicate participants', () => {
+    it('should detect duplicate participants', async () => {
       encounter.combatState.initiativeOrder = [
         createTestParticipant({ participantId: PARTICIPANT_IDS.FIRST }),
         createTestParticipant({ participantId: PARTICIPANT_IDS.FIRST, initiative: 12 }),
@@ -226,21 +280,21 @@ describe('Combat State Manager', () => {
       expectValidationError(validateCombatState(encounter), 'Duplicate participants found in initiative order');
     });
 
-    it('should detect invalid timestamps', () => {
+    it('should detect invalid timestamps', async () => {
       const { now, later } = generateTimestamps();
       encounter.combatState.startedAt = later;
       encounter.combatState.endedAt = now;
       expectValidationError(validateCombatState(encounter), 'Start time cannot be after end time');
     });
 
-    it('should detect invalid pause timestamp', () => {
+    it('should detect invalid pause timestamp', async () => {
       const { now, later } = generateTimestamps();
       encounter.combatState.startedAt = later;
       encounter.combatState.pausedAt = now;
       expectValidationError(validateCombatState(encounter), 'Start time cannot be after pause time');
     });
 
-    it('should validate empty combat state', () => {
+    it('should validate empty combat state', async () => {
       const emptyEncounter = {
         ...encounter,
         combatState: {
@@ -258,28 +312,28 @@ describe('Combat State Manager', () => {
   });
 
   describe('Persistence', () => {
-    it('should save and load state', () => {
+    it('should save and load state', async () => {
       encounter.combatState.isActive = true;
       encounter.combatState.currentRound = 5;
-      saveCombatState(encounter);
+      await saveCombatState(encounter);
 
       encounter.combatState.currentRound = 1;
-      expect(loadCombatState(encounter)).toBe(true);
+      expect(await loadCombatState(encounter)).toBe(true);
       expect(encounter.combatState.currentRound).toBe(5);
     });
 
-    it('should handle save errors', () => {
+    it('should handle save errors', async () => {
       const original = JSON.stringify;
       JSON.stringify = jest.fn(() => { throw new Error('fail'); });
-      expect(saveCombatState(encounter)).toBe(false);
+      expect(await saveCombatState(encounter)).toBe(false);
       JSON.stringify = original;
     });
 
-    it('should handle missing state', () => {
-      expect(loadCombatState(createTestEncounter())).toBe(false);
+    it('should handle missing state', async () => {
+      expect(await loadCombatState(createTestEncounter())).toBe(false);
     });
 
-    it('should validate state structure before loading', () => {
+    it('should validate state structure before loading', async () => {
       // Test that invalid state structures are rejected
       const invalidStates = [
         { isActive: 'invalid' },
@@ -289,105 +343,117 @@ describe('Combat State Manager', () => {
         undefined,
       ];
 
-      invalidStates.forEach(_invalidState => {
-        // Use the internal function validation logic indirectly
-        expect(loadCombatState(createTestEncounter())).toBe(false);
-      });
+      for (const invalidState of invalidStates) {
+        (CombatEvent.findSnapshot as jest.Mock).mockResolvedValueOnce(invalidState);
+        expect(await loadCombatState(createTestEncounter())).toBe(false);
+      }
+    });
+
+    it('should restore dates and participant ids from stored snapshots', async () => {
+      makeEncounterActive(encounter);
+      await saveCombatState(encounter);
+
+      encounter.combatState.startedAt = undefined;
+      expect(await loadCombatState(encounter)).toBe(true);
+      expect(encounter.combatState.startedAt).toBeInstanceOf(Date);
+      expect(encounter.combatState.initiativeOrder[0].participantId.toString()).toBe(PARTICIPANT_IDS.FIRST.toString());
+    });
+
+    it('should handle storage read failures', async () => {
+      (CombatEvent.findSnapshot as jest.Mock).mockRejectedValueOnce(new Error('connection lost'));
+      expect(await loadCombatState(encounter)).toBe(false);
+    });
+
+    it('should handle storage write failures', async () => {
+      (CombatEvent.saveSnapshot as jest.Mock).mockRejectedValueOnce(new Error('connection lost'));
+      expect(await saveCombatState(encounter)).toBe(false);
     });
 
-    it('should handle memory-only storage correctly', () => {
-      // Test memory storage without localStorage dependency
+    it('should handle repeated save and load of the same encounter', async () => {
       const testEncounter = createTestEncounter();
       testEncounter.combatState.isActive = true;
       testEncounter.combatState.currentRound = 5;
 
-      expect(saveCombatState(testEncounter)).toBe(true);
-      expect(loadCombatState(testEncounter)).toBe(true);
+      expect(await saveCombatState(testEncounter)).toBe(true);
+      expect(await loadCombatState(testEncounter)).toBe(true);
       expect(testEncounter.combatState.currentRound).toBe(5);
     });
 
-    it('should work without window', () => {
-      runWithoutWindow(() => {
-        expect(loadCombatState(encounter)).toBe(false);
-        expect(saveCombatState(encounter)).toBe(true);
-        expect(() => clearCombatState(encounter._id.toString())).not.toThrow();
-      });
-    });
-
-    it('should handle localStorage operations gracefully', () => {
-      // Test memory storage fallback
+    it('should clear saved state', async () => {
       encounter.combatState.isActive = true;
       encounter.combatState.currentRound = 3;
 
-      expect(saveCombatState(encounter)).toBe(true);
+      expect(await saveCombatState(encounter)).toBe(true);
 
       encounter.combatState.currentRound = 1;
-      expect(loadCombatState(encounter)).toBe(true);
+      expect(await loadCombatState(encounter)).toBe(true);
       expect(encounter.combatState.currentRound).toBe(3);
 
-      clearCombatState(encounter._id.toString());
-      expect(loadCombatState(createTestEncounter())).toBe(false);
+      await clearCombatState(encounter._id.toString());
+      expect(await loadCombatState(createTestEncounter())).toBe(false);
     });
   });
 
   describe('Enhanced Functions', () => {
-    it('should start combat with logging', () => {
-      enhancedStartCombat(encounter, true);
-      const log = expectHistoryAction(encounter._id.toString(), 'combat_started');
+    it('should start combat with logging', async () => {
+      await enhancedStartCombat(encounter, true);
+      const log = await expectHistoryAction(encounter._id.toString(), 'combat_started');
       expect(log.details?.autoRollInitiative).toBe(true);
     });
 
-    it('should end combat with cleanup', () => {
+    it('should end combat with cleanup', async () => {
       encounter.combatState.currentRound = 5;
       encounter.combatState.totalDuration = 3600;
-      enhancedEndCombat(encounter);
-      const log = expectHistoryAction(encounter._id.toString(), 'combat_ended');
+      await saveCombatState(encounter);
+      await enhancedEndCombat(encounter);
+      const log = await expectHistoryAction(encounter._id.toString(), 'combat_ended');
       expect(log.details?.totalRounds).toBe(5);
+      expect(await loadCombatState(encounter)).toBe(false);
     });
 
-    it('should handle turn progression', () => {
+    it('should handle turn progression', async () => {
       makeEncounterActive(encounter);
-      enhancedNextTurn(encounter);
+      await enhancedNextTurn(encounter);
 
-      const history = getCombatHistory(encounter._id.toString());
+      const history = await getCombatHistory(encounter._id.toString());
       expect(history.some(h => h.action === 'turn_end')).toBe(true);
       expect(history.some(h => h.action === 'turn_start')).toBe(true);
     });
 
-    it('should handle empty initiative', () => {
+    it('should handle empty initiative', async () => {
       makeEncounterActive(encounter);
       encounter.combatState.initiativeOrder = [];
-      expect(enhancedNextTurn(encounter)).toBe(true);
+      expect(await enhancedNextTurn(encounter)).toBe(true);
     });
 
-    it('should save state after turn progression', () => {
+    it('should log turn end before turn start', async () => {
       makeEncounterActive(encounter);
-      enhancedNextTurn(encounter);
-      expectHistoryAction(encounter._id.toString(), 'turn_start', 2);
+      await enhancedNextTurn(encounter);
+      await expectHistoryAction(encounter._id.toString(), 'turn_start', 2);
     });
 
-    it('should handle round transitions in turn progression', () => {
+    it('should handle round transitions in turn progression', async () => {
       makeEncounterActive(encounter);
       encounter.combatState.currentTurn = 1; // Last turn in order
-      enhancedNextTurn(encounter);
+      await enhancedNextTurn(encounter);
 
-      const history = getCombatHistory(encounter._id.toString());
+      const history = await getCombatHistory(encounter._id.toString());
       expect(history.some(h => h.action === 'round_end')).toBe(true);
       expect(history.some(h => h.action === 'round_start')).toBe(true);
     });
 
-    it('should log participant details in turn progression', () => {
+    it('should log participant details in turn progression', async () => {
       makeEncounterActive(encounter);
-      enhancedNextTurn(encounter);
+      await enhancedNextTurn(encounter);
 
-      const history = getCombatHistory(encounter._id.toString());
+      const history = await getCombatHistory(encounter._id.toString());
       const turnStart = history.find(h => h.action === 'turn_start');
       expect(turnStart?.participantId).toBeDefined();
     });
   });
 
   describe('Edge Cases and Error Handling', () => {
-    it('should handle validation with very large values', () => {
+    it('should handle validation with very large values', async () => {
       encounter.combatState.currentRound = Number.MAX_SAFE_INTEGER;
       encounter.combatState.currentTurn = Number.MAX_SAFE_INTEGER;
       encounter.combatState.initiativeOrder = [createTestParticipant({ initiative: Number.MAX_SAFE_INTEGER })];
@@ -397,7 +463,7 @@ describe('Combat State Manager', () => {
       expect(result.errors).toContain('Current turn index is out of bounds');
     });
 
-    it('should handle multiple validation errors simultaneously', () => {
+    it('should handle multiple validation errors simultaneously', async () => {
       encounter.combatState.isActive = true;
       encounter.combatState.currentRound = -1;
       encounter.combatState.currentTurn = -1;
@@ -411,22 +477,22 @@ describe('Combat State Manager', () => {
       expect(result.errors.length).toBeGreaterThan(3);
     });
 
-    it('should handle JSON serialization errors', () => {
+    it('should handle JSON serialization errors', async () => {
       const original = JSON.stringify;
       JSON.stringify = jest.fn(() => { throw new Error('Circular reference'); });
 
       encounter.combatState.isActive = true;
-      expect(saveCombatState(encounter)).toBe(false);
+      expect(await saveCombatState(encounter)).toBe(false);
 
       JSON.stringify = original;
     });
 
-    it('should handle complex combat history with many actions', () => {
+    it('should handle complex combat history with many actions', async () => {
       const id = encounter._id.toString();
 
       // Add many actions
       for (let i = 0; i < 50; i++) {
-        logCombatAction(id, {
+        await logCombatAction(id, {
           action: i % 2 === 0 ? 'damage_dealt' : 'healing_applied',
           round: Math.floor(i / 10) + 1,
           turn: i % 5,
@@ -434,12 +500,12 @@ describe('Combat State Manager', () => {
         });
       }
 
-      const history = getCombatHistory(id);
+      const history = await getCombatHistory(id);
       expect(history).toHaveLength(50);
       expect(history[0].timestamp.getTime()).toBeLessThanOrEqual(history[49].timestamp.getTime());
     });
 
-    it('should handle encounter with complex initiative order', () => {
+    it('should handle encounter with complex initiative order', async () => {
       encounter.combatState.isActive = true;
       encounter.combatState.currentTurn = 2;
       const newParticipant1 = new Types.ObjectId('507f1f77bcf86cd799439013');
@@ -456,62 +522,62 @@ describe('Combat State Manager', () => {
       expect(result.isValid).toBe(true);
     });
 
-    it('should handle state persistence across multiple save/load cycles', () => {
+    it('should handle state persistence across multiple save/load cycles', async () => {
       for (let i = 0; i < 5; i++) {
         encounter.combatState.currentRound = i + 1;
         encounter.combatState.currentTurn = i;
         encounter.combatState.isActive = i % 2 === 0;
 
-        expect(saveCombatState(encounter)).toBe(true);
+        expect(await saveCombatState(encounter)).toBe(true);
 
         encounter.combatState.currentRound = 999;
-        expect(loadCombatState(encounter)).toBe(true);
+        expect(await loadCombatState(encounter)).toBe(true);
         expect(encounter.combatState.currentRound).toBe(i + 1);
       }
     });
   });
 
   describe('Integration Scenarios', () => {
-    it('should handle complete combat lifecycle', () => {
+    it('should handle complete combat lifecycle', async () => {
       // Start combat
-      enhancedStartCombat(encounter, true);
-      const startHistory = getCombatHistory(encounter._id.toString());
+      await enhancedStartCombat(encounter, true);
+      const startHistory = await getCombatHistory(encounter._id.toString());
       expect(startHistory.some(h => h.action === 'combat_started')).toBe(true);
 
       // Pause and resume
       encounter.combatState.isActive = true;
-      pauseCombat(encounter);
+      await pauseCombat(encounter);
       expect(getCombatPhase(encounter)).toBe('paused');
 
       encounter.status = 'active';
-      resumeCombat(encounter);
+      await resumeCombat(encounter);
       expect(getCombatPhase(encounter)).toBe('active');
 
       // Progress turns
       makeEncounterActive(encounter);
-      enhancedNextTurn(encounter);
+      await enhancedNextTurn(encounter);
 
       // End combat
-      enhancedEndCombat(encounter);
-      const endHistory = getCombatHistory(encounter._id.toString());
+      await enhancedEndCombat(encounter);
+      const endHistory = await getCombatHistory(encounter._id.toString());
       expect(endHistory.some(h => h.action === 'combat_ended')).toBe(true);
       expect(endHistory.length).toBeGreaterThan(5);
     });
 
-    it('should maintain state consistency during complex operations', () => {
+    it('should maintain state consistency during complex operations', async () => {
       makeEncounterActive(encounter);
 
       // Perform multiple operations
-      saveCombatState(encounter);
-      logCombatAction(encounter._id.toString(), { action: 'damage_dealt', round: 2, turn: 0 });
-      enhancedNextTurn(encounter);
-      pauseCombat(encounter);
+      await saveCombatState(encounter);
+      await logCombatAction(encounter._id.toString(), { action: 'damage_dealt', round: 2, turn: 0 });
+      await enhancedNextTurn(encounter);
+      await pauseCombat(encounter);
 
       // Validate final state
       const result = validateCombatState(encounter);
       expect(result.isValid).toBe(true);
 
-      const history = getCombatHistory(encounter._id.toString());
+      const history = await getCombatHistory(encounter._id.toString());
       expect(history.length).toBeGreaterThan(2);
     });
   });
@@ -0,0 +1,253 @@
+import { Types } from 'mongoose';
+import { applyHealing, joinCombat, nextTurn } from '../methods';
+import {
+  enhancedNextTurn,
+  getCombatHistory,
+  logEncounterAction,
+} from '../combatStateManager';
+import { recordCombatStep, undoCombatStep, redoCombatStep } from '../combatUndo';
+import { CombatEvent } from '../../CombatEvent';
+import { IEncounter } from '../interfaces';
+import {
+  createTestEncounter,
+  makeEncounterActive,
+  setupTest,
+  PARTICIPANT_IDS,
+} from './combat-test-helpers';
+
+jest.mock('../../CombatEvent');
+
+const applyTestDamage = (encounter: IEncounter, amount: number) =>
+  recordCombatStep(encounter, async () => {
+    encounter.participants[1].currentHitPoints -= amount;
+    await logEncounterAction(encounter, 'damage_dealt', {
+      participantId: PARTICIPANT_IDS.SECOND,
+      details: { amount },
+    });
+    return true;
+  });
+
+describe('Combat Undo', () => {
+  let encounter: IEncounter;
+  const persist = jest.fn().mockResolvedValue(undefined);
+
+  beforeEach(async () => {
+    encounter = createTestEncounter();
+    makeEncounterActive(encounter);
+    await setupTest(encounter);
+  });
+
+  describe('recordCombatStep', () => {
+    it('attaches the changes to the logged step', async () => {
+      await applyTestDamage(encounter, 5);
+
+      expect(CombatEvent.attachStepChanges).toHaveBeenCalledWith(
+        encounter._id.toString(),
+        expect.any(Date),
+        expect.objectContaining({
+          participants: [
+            expect.objectContaining({
+              participantId: PARTICIPANT_IDS.SECOND.toString(),
+              before: expect.objectContaining({ currentHitPoints: 22 }),
+              after: expect.objectContaining({ currentHitPoints: 17 }),
+            }),
+          ],
+        })
+      );
+    });
+
+    it('records nothing when the step fails', async () => {
+      const result = await recordCombatStep(encounter, () => false);
+
+      expect(result).toBe(false);
+      expect(CombatEvent.attachStepChanges).not.toHaveBeenCalled();
+    });
+
+    it('records nothing when the step changes nothing', async () => {
+      await recordCombatStep(encounter, () => true);
+
+      expect(CombatEvent.attachStepChanges).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('undoCombatStep', () => {
+    it('restores participant hit points', async () => {
+      await applyTestDamage(encounter, 5);
+
+      const result = await undoCombatStep(encounter, persist);
+
+      expect(result?.entry.action).toBe('damage_dealt');
+      expect(encounter.participants[1].currentHitPoints).toBe(22);
+    });
+
+    it('reverts a whole turn advance and marks its log entries as undone', async () => {
+      await recordCombatStep(encounter, async () => {
+        await enhancedNextTurn(encounter);
+        return nextTurn(encounter);
+      });
+      expect(encounter.combatState.currentTurn).toBe(1);
+
+      await undoCombatStep(encounter, persist);
+
+      expect(encounter.combatState.currentTurn).toBe(0);
+      expect(encounter.combatState.currentRound).toBe(2);
+      expect(encounter.combatState.startedAt).toBeInstanceOf(Date);
+      const history = await getCombatHistory(encounter._id.toString());
+      expect(history.map(entry => entry.undone)).toEqual([true, true]);
+    });
+
+    it('undoes steps in reverse order', async () => {
+      await applyTestDamage(encounter, 5);
+      await applyTestDamage(encounter, 3);
+
+      await undoCombatStep(encounter, persist);
+      expect(encounter.participants[1].currentHitPoints).toBe(17);
+
+      await undoCombatStep(encounter, persist);
+      expect(encounter.participants[1].currentHitPoints).toBe(22);
+
+      expect(await undoCombatStep(encounter, persist)).toBeNull();
+    });
+
+    it('keeps the step undoable when saving the reverted encounter fails', async () => {
+      await applyTestDamage(encounter, 5);
+      const failingSave = jest.fn().mockRejectedValue(new Error('save failed'));
+
+      await expect(undoCombatStep(encounter, failingSave)).rejects.toThrow('save failed');
+
+      expect(CombatEvent.setStepUndone).not.toHaveBeenCalled();
+      const history = await getCombatHistory(encounter._id.toString());
+      expect(history[0].undone).toBeUndefined();
+    });
+
+    it('restores removed participants at their original position', async () => {
+      await recordCombatStep(encounter, async () => {
+        encounter.participants.splice(0, 1);
+        await logEncounterAction(encounter, 'participant_removed', {
+          participantId: PARTICIPANT_IDS.FIRST,
+        });
+        return true;
+      });
+
+      await undoCombatStep(encounter, persist);
+
+      expect(encounter.participants).toHaveLength(2);
+      expect(encounter.participants[0].name).toBe('Test Character 1');
+      expect(encounter.participants[0].characterId.toString()).toBe(PARTICIPANT_IDS.FIRST.toString());
+    });
+
+    it('removes participants added by the step', async () => {
+      await recordCombatStep(encounter, async () => {
+        encounter.participants.push({
+          ...encounter.participants[1],
+          characterId: new Types.ObjectId('507f1f77bcf86cd799439013'),
+          name: 'Reinforcement',
+        });
+        await logEncounterAction(encounter, 'participant_added');
+        return true;
+      });
+
+      await undoCombatStep(encounter, persist);
+
+      expect(encounter.participants.map(p => p.name)).toEqual(['Test Character 1', 'Test Character 2']);
+    });
+
+    it('reverts healing', async () => {
+      await applyTestDamage(encounter, 5);
+      await recordCombatStep(encounter, async () => {
+        applyHealing(encounter, PARTICIPANT_IDS.SECOND.toString(), 3);
+        await logEncounterAction(encounter, 'healing_applied', {
+          participantId: PARTICIPANT_IDS.SECOND,
+          details: { healing: 3 },
+        });
+        return true;
+      });
+      expect(encounter.participants[1].currentHitPoints).toBe(20);
+
+      const result = await undoCombatStep(encounter, persist);
+
+      expect(result?.entry.action).toBe('healing_applied');
+      expect(encounter.participants[1].currentHitPoints).toBe(17);
+    });
+
+    it('takes a participant that joined combat back out of the initiative order', async () => {
+      await recordCombatStep(encounter, async () => {
+        joinCombat(encounter, {
+          ...encounter.participants[1],
+          characterId: '507f1f77bcf86cd799439013',
+          name: 'Reinforcement',
+        }, 25, 10);
+        await logEncounterAction(encounter, 'participant_added');
+        return true;
+      });
+      expect(encounter.combatState.initiativeOrder).toHaveLength(3);
+      expect(encounter.combatState.currentTurn).toBe(1);
+
+      await undoCombatStep(encounter, persist);
+
+      expect(encounter.participants.map(p => p.name)).toEqual(['Test Character 1', 'Test Character 2']);
+      expect(encounter.combatState.initiativeOrder.map(entry => entry.participantId.toString())).toEqual([
+        PARTICIPANT_IDS.FIRST.toString(),
+        PARTICIPANT_IDS.SECOND.toString(),
+      ]);
+      expect(encounter.combatState.currentTurn).toBe(0);
+    });
+
+    it('restores the encounter status when undoing the end of combat', async () => {
+      encounter.status = 'active';
+      await recordCombatStep(encounter, async () => {
+        encounter.status = 'completed';
+        encounter.combatState.isActive = false;
+        encounter.combatState.endedAt = new Date();
+        await logEncounterAction(encounter, 'combat_ended');
+        return true;
+      });
+
+      await undoCombatStep(encounter, persist);
+
+      expect(encounter.status).toBe('active');
+      expect(encounter.combatState.isActive).toBe(true);
+      expect(encounter.combatState.endedAt).toBeUndefined();
+    });
+  });
+
+  describe('redoCombatStep', () => {
+    it('re-applies the most recently undone step', async () => {
+      await applyTestDamage(encounter, 5);
+      await undoCombatStep(encounter, persist);
+
+      const result = await redoCombatStep(encounter, persist);
+
+      expect(result?.entry.action).toBe('damage_dealt');
+      expect(encounter.participants[1].currentHitPoints).toBe(17);
+      const history = await getCombatHistory(encounter._id.toString());
+      expect(history[0].undone).toBeUndefined();
+    });
+
+    it('returns null when nothing was undone', async () => {
+      await applyTestDamage(encounter, 5);
+
+      expect(await redoCombatStep(encounter, persist)).toBeNull();
+    });
+
+    it('keeps the step undone when saving the re-applied encounter fails', async () => {
+      await applyTestDamage(encounter, 5);
+      await undoCombatStep(encounter, persist);
+      const failingSave = jest.fn().mockRejectedValue(new Error('save failed'));
+
+      await expect(redoCombatStep(encounter, failingSave)).rejects.toThrow('save failed');
+
+      const history = await getCombatHistory(encounter._id.toString());
+      expect(history[0].undone).toBe(true);
+    });
+
+    it('discards the redo stack when a new step is recorded', async () => {
+      await applyTestDamage(encounter, 5);
+      await undoCombatStep(encounter, persist);
+      await applyTestDamage(encounter, 2);
+
+      expect(await redoCombatStep(encounter, persist)).toBeNull();
+      expect(encounter.participants[1].currentHitPoints).toBe(20);
+    });
+  });
+});
@@ -0,0 +1,152 @@
+import {
+  checkConcentration,
+  endConcentration,
+  getConcentrationSaveDC,
+  resolveConcentrationSave,
+  startConcentration,
+} from '../concentration';
+import { addCombatEffect } from '../combatEffects';
+import { ICombatEffect, IEncounter, IParticipantReference } from '../interfaces';
+import { createTestEncounter, makeEncounterActive, PARTICIPANT_IDS } from './combat-test-helpers';
+
+const FIRST_ID = PARTICIPANT_IDS.FIRST.toString();
+const SECOND_ID = PARTICIPANT_IDS.SECOND.toString();
+
+const rollNatural = (value: number) => () => (value - 1) / 20;
+
+describe('Concentration', () => {
+  let encounter: IEncounter;
+  let player: IParticipantReference;
+  let npc: IParticipantReference;
+
+  beforeEach(() => {
+    encounter = createTestEncounter();
+    makeEncounterActive(encounter);
+    [player, npc] = encounter.participants;
+    npc.constitutionSave = 2;
+  });
+
+  const trackEffect = (id: string, name: string, participantId: string) =>
+    addCombatEffect(encounter, { id, name, participantId, duration: 10, description: '' })!;
+
+  describe('getConcentrationSaveDC', () => {
+    it('uses half the damage with a minimum of 10', () => {
+      expect(getConcentrationSaveDC(7)).toBe(10);
+      expect(getConcentrationSaveDC(25)).toBe(12);
+      expect(getConcentrationSaveDC(44)).toBe(22);
+    });
+  });
+
+  describe('startConcentration', () => {
+    it('records the spell, start round and linked effects', () => {
+      expect(startConcentration(encounter, FIRST_ID, { spellName: 'Hold Person', linkedEffectIds: ['effect-1'] }))
+        .toBeNull();
+
+      expect(player.concentration).toEqual({
+        spellName: 'Hold Person',
+        startRound: 2,
+        linkedEffectIds: ['effect-1'],
+        pendingSaveDCs: [],
+      });
+    });
+
+    it('drops the previous spell and its linked effects', () => {
+      const web = trackEffect('effect-web', 'Web', SECOND_ID);
+      startConcentration(encounter, FIRST_ID, { spellName: 'Web', linkedEffectIds: [web.id] });
+      const previous = startConcentration(encounter, FIRST_ID, { spellName: 'Haste' });
+
+      expect(previous).toEqual({ spellName: 'Web', endedEffects: [web] });
+      expect(encounter.combatState.effects).toEqual([]);
+      expect(player.concentration?.spellName).toBe('Haste');
+    });
+  });
+
+  describe('endConcentration', () => {
+    it('ends only the linked effects that are still tracked', () => {
+      const holdPerson = trackEffect('effect-hold', 'Hold Person', SECOND_ID);
+      const bless = trackEffect('effect-bless', 'Bless', FIRST_ID);
+      startConcentration(encounter, FIRST_ID, {
+        spellName: 'Hold Person',
+        linkedEffectIds: [holdPerson.id, 'effect-expired'],
+      });
+
+      const ended = endConcentration(encounter, player);
+
+      expect(ended?.endedEffects).toEqual([holdPerson]);
+      expect(encounter.combatState.effects).toEqual([bless]);
+      expect(player.concentration).toBeNull();
+    });
+
+    it('returns null when the participant is not concentrating', () => {
+      expect(endConcentration(encounter, player)).toBeNull();
+    });
+  });
+
+  describe('checkConcentration', () => {
+    it('ignores participants that are not concentrating', () => {
+      expect(checkConcentration(encounter, player, 10)).toBeNull();
+    });
+
+    it('queues a save prompt for player characters', () => {
+      startConcentration(encounter, FIRST_ID, { spellName: 'Bless' });
+
+      const check = checkConcentration(encounter, player, 30);
+
+      expect(check).toMatchObject({ participantId: FIRST_ID, dc: 15, pending: true });
+      expect(player.concentration?.pendingSaveDCs).toEqual([15]);
+    });
+
+    it('auto-rolls for NPCs and keeps concentration on a success', () => {
+      startConcentration(encounter, SECOND_ID, { spellName: 'Hold Person' });
+
+      const check = checkConcentration(encounter, npc, 12, { random: rollNatural(8) });
+
+      expect(check).toMatchObject({ dc: 10, pending: false, roll: 8, total: 10, success: true });
+      expect(npc.concentration?.spellName).toBe('Hold Person');
+    });
+
+    it('ends concentration and its linked effects when an NPC fails', () => {
+      const web = trackEffect('effect-web', 'Web', FIRST_ID);
+      startConcentration(encounter, SECOND_ID, { spellName: 'Web', linkedEffectIds: [web.id] });
+
+      const check = checkConcentration(encounter, npc, 12, { random: rollNatural(3) });
+
+      expect(check).toMatchObject({ success: false, endedEffects: [web] });
+      expect(npc.concentration).toBeNull();
+      expect(encounter.combatState.effects).toEqual([]);
+    });
+  });
+
+  describe('resolveConcentrationSave', () => {
+    let holdPerson: ICombatEffect;
+
+    beforeEach(() => {
+      holdPerson = trackEffect('effect-hold', 'Hold Person', SECOND_ID);
+      startConcentration(encounter, FIRST_ID, { spellName: 'Hold Person', linkedEffectIds: [holdPerson.id] });
+      checkConcentration(encounter, player, 10);
+      checkConcentration(encounter, player, 30);
+    });
+
+    it('resolves the oldest pending save first', () => {
+      const check = resolveConcentrationSave(encounter, player, 11);
+
+      expect(check).toMatchObject({ dc: 10, success: true, endedEffects: [] });
+      expect(player.concentration?.pendingSaveDCs).toEqual([15]);
+      expect(encounter.combatState.effects).toEqual([holdPerson]);
+    });
+
+    it('ends concentration and its linked effects on a failed save', () => {
+      resolveConcentrationSave(encounter, player, 12);
+      const check = resolveConcentrationSave(encounter, player, 14);
+
+      expect(check).toMatchObject({
+        dc: 15,
+        success: false,
+        endedEffects: [holdPerson],
+      });
+      expect(player.concentration).toBeNull();
+      expect(encounter.combatState.effects).toEqual([]);
+      expect(resolveConcentrationSave(encounter, player, 20)).toBeNull();
+    });
+  });
+});
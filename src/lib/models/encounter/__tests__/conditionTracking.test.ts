@@ -0,0 +1,195 @@
+import {
+  buildCondition,
+  expireConditionsAtTurnEnd,
+  expireConditionsAtTurnStart,
+  promptConditionSavesAtTurnEnd,
+  resolveConditionSave,
+} from '../conditionTracking';
+import { enhancedNextTurn, getCombatHistory } from '../combatStateManager';
+import { IEncounter } from '../interfaces';
+import {
+  createTestEncounter,
+  makeEncounterActive,
+  setupTest,
+  PARTICIPANT_IDS,
+} from './combat-test-helpers';
+
+jest.mock('../../CombatEvent');
+
+const FIRST_ID = PARTICIPANT_IDS.FIRST.toString();
+const SECOND_ID = PARTICIPANT_IDS.SECOND.toString();
+
+describe('Condition Tracking', () => {
+  let encounter: IEncounter;
+
+  beforeEach(async () => {
+    encounter = createTestEncounter();
+    makeEncounterActive(encounter);
+    await setupTest(encounter);
+  });
+
+  describe('buildCondition', () => {
+    it('records the round and the turn the condition was applied on', () => {
+      const condition = buildCondition(encounter, SECOND_ID, { name: 'prone' });
+
+      expect(condition).toEqual({
+        name: 'prone',
+        expiry: 'indefinite',
+        appliedRound: 2,
+        appliedTurnOf: FIRST_ID,
+      });
+    });
+
+    it('follows the turns of the source for timed conditions', () => {
+      const condition = buildCondition(encounter, SECOND_ID, {
+        name: 'frightened',
+        sourceId: FIRST_ID,
+        duration: 3,
+      });
+
+      expect(condition).toMatchObject({ expiry: 'rounds', roundsRemaining: 3, expiryParticipantId: FIRST_ID });
+    });
+
+    it("falls back to the target's turns without a source", () => {
+      const condition = buildCondition(encounter, SECOND_ID, { name: 'blinded', expiry: 'turn_end' });
+      expect(condition.expiryParticipantId).toBe(SECOND_ID);
+    });
+
+    it('defaults exhaustion to level 1', () => {
+      expect(buildCondition(encounter, SECOND_ID, { name: 'exhaustion' }).level).toBe(1);
+    });
+  });
+
+  describe('expireConditionsAtTurnEnd', () => {
+    it('counts down round-based conditions and expires them at zero', () => {
+      encounter.participants[1].conditions = [
+        { name: 'poisoned', expiry: 'rounds', roundsRemaining: 2, expiryParticipantId: FIRST_ID, appliedRound: 1 },
+      ];
+
+      expect(expireConditionsAtTurnEnd(encounter, FIRST_ID, 2)).toEqual([]);
+      expect(encounter.participants[1].conditions[0].roundsRemaining).toBe(1);
+
+      const expired = expireConditionsAtTurnEnd(encounter, FIRST_ID, 3);
+      expect(expired).toHaveLength(1);
+      expect(expired[0].participantId).toBe(PARTICIPANT_IDS.SECOND);
+      expect(encounter.participants[1].conditions).toEqual([]);
+    });
+
+    it('keeps conditions applied during the same turn until the next one', () => {
+      encounter.participants[1].conditions = [
+        buildCondition(encounter, SECOND_ID, { name: 'restrained', sourceId: FIRST_ID, expiry: 'turn_end' }),
+      ];
+
+      expect(expireConditionsAtTurnEnd(encounter, FIRST_ID, 2)).toEqual([]);
+      expect(expireConditionsAtTurnEnd(encounter, FIRST_ID, 3)).toHaveLength(1);
+    });
+
+    it("ignores conditions tied to another creature's turns", () => {
+      encounter.participants[1].conditions = [
+        { name: 'blinded', expiry: 'turn_end', expiryParticipantId: SECOND_ID, appliedRound: 1 },
+      ];
+
+      expect(expireConditionsAtTurnEnd(encounter, FIRST_ID, 2)).toEqual([]);
+      expect(encounter.participants[1].conditions).toHaveLength(1);
+    });
+  });
+
+  describe('expireConditionsAtTurnStart', () => {
+    it('expires "until the start of your next turn" conditions', () => {
+      encounter.participants[0].conditions = [
+        { name: 'prone', expiry: 'indefinite' },
+        { name: 'invisible', expiry: 'turn_start', expiryParticipantId: FIRST_ID, appliedRound: 2 },
+      ];
+
+      const expired = expireConditionsAtTurnStart(encounter, FIRST_ID);
+
+      expect(expired.map(entry => entry.condition.name)).toEqual(['invisible']);
+      expect(encounter.participants[0].conditions.map(condition => condition.name)).toEqual(['prone']);
+    });
+  });
+
+  describe('promptConditionSavesAtTurnEnd', () => {
+    it("asks for saves against the creature's own save-ends conditions", () => {
+      encounter.participants[0].conditions = [
+        { name: 'paralyzed', expiry: 'save', saveDC: 14, saveAbility: 'wisdom', appliedRound: 1 },
+        { name: 'prone', expiry: 'indefinite' },
+      ];
+      encounter.participants[1].conditions = [{ name: 'frightened', expiry: 'save', saveDC: 12, appliedRound: 1 }];
+
+      const pending = promptConditionSavesAtTurnEnd(encounter, FIRST_ID, 2);
+
+      expect(pending.map(entry => entry.condition.name)).toEqual(['paralyzed']);
+      expect(encounter.participants[0].conditions[0].savePending).toBe(true);
+      expect(encounter.participants[1].conditions[0].savePending).toBeUndefined();
+    });
+
+    it('waits a turn for conditions applied during the same turn', () => {
+      encounter.participants[0].conditions = [
+        { name: 'paralyzed', expiry: 'save', saveDC: 14, appliedRound: 2, appliedTurnOf: FIRST_ID },
+      ];
+
+      expect(promptConditionSavesAtTurnEnd(encounter, FIRST_ID, 2)).toEqual([]);
+      expect(promptConditionSavesAtTurnEnd(encounter, FIRST_ID, 3)).toHaveLength(1);
+    });
+  });
+
+  describe('resolveConditionSave', () => {
+    beforeEach(() => {
+      encounter.participants[0].conditions = [
+        { name: 'paralyzed', expiry: 'save', saveDC: 14, savePending: true },
+        { name: 'prone', expiry: 'indefinite' },
+      ];
+    });
+
+    it('removes the condition on a successful save', () => {
+      const result = resolveConditionSave(encounter.participants[0], 'paralyzed', 14);
+
+      expect(result).toMatchObject({ total: 14, success: true });
+      expect(encounter.participants[0].conditions.map(condition => condition.name)).toEqual(['prone']);
+    });
+
+    it('keeps the condition and clears the prompt on a failed save', () => {
+      const result = resolveConditionSave(encounter.participants[0], 'paralyzed', 9);
+
+      expect(result?.success).toBe(false);
+      expect(encounter.participants[0].conditions[0]).toMatchObject({ name: 'paralyzed', savePending: false });
+    });
+
+    it('ignores conditions that do not end on a save', () => {
+      expect(resolveConditionSave(encounter.participants[0], 'prone', 20)).toBeNull();
+    });
+  });
+
+  describe('enhancedNextTurn', () => {
+    it('expires conditions and logs their removal', async () => {
+      encounter.participants[1].conditions = [
+        { name: 'stunned', expiry: 'turn_end', expiryParticipantId: FIRST_ID, appliedRound: 1 },
+        { name: 'charmed', expiry: 'turn_start', expiryParticipantId: SECOND_ID, appliedRound: 1 },
+      ];
+
+      await enhancedNextTurn(encounter);
+
+      expect(encounter.participants[1].conditions).toEqual([]);
+      const history = await getCombatHistory(encounter._id.toString());
+      const removed = history.filter(entry => entry.action === 'condition_removed');
+      expect(removed.map(entry => entry.details)).toEqual([
+        { condition: 'stunned', reason: 'expired' },
+        { condition: 'charmed', reason: 'expired' },
+      ]);
+    });
+
+    it('logs a save prompt for save-ends conditions as the creature ends its turn', async () => {
+      encounter.participants[0].conditions = [
+        { name: 'paralyzed', expiry: 'save', saveDC: 14, saveAbility: 'wisdom', appliedRound: 1 },
+      ];
+
+      await enhancedNextTurn(encounter);
+
+      const history = await getCombatHistory(encounter._id.toString());
+      const prompts = history.filter(entry => entry.action === 'condition_save');
+      expect(prompts.map(entry => entry.details)).toEqual([
+        { condition: 'paralyzed', dc: 14, ability: 'wisdom', pending: true },
+      ]);
+    });
+  });
+});
@@ -0,0 +1,151 @@
+import {
+  getLifeState,
+  recordDeathSave,
+  trackDamageTaken,
+  trackHealingReceived,
+} from '../deathSaves';
+import { applyDamage, applyHealing } from '../methods';
+import { enhancedNextTurn, getCombatHistory } from '../combatStateManager';
+import { IEncounter, IParticipantReference } from '../interfaces';
+import {
+  createTestEncounter,
+  makeEncounterActive,
+  setupTest,
+  PARTICIPANT_IDS,
+} from './combat-test-helpers';
+
+jest.mock('../../CombatEvent');
+
+const FIRST_ID = PARTICIPANT_IDS.FIRST.toString();
+
+describe('Death Saves', () => {
+  let encounter: IEncounter;
+  let hero: IParticipantReference;
+  let enemy: IParticipantReference;
+
+  beforeEach(async () => {
+    encounter = createTestEncounter();
+    makeEncounterActive(encounter);
+    await setupTest(encounter);
+    [hero, enemy] = encounter.participants;
+    hero.type = 'pc';
+    enemy.type = 'npc';
+  });
+
+  const dropToZero = () => applyDamage(encounter, FIRST_ID, hero.currentHitPoints);
+
+  describe('taking damage', () => {
+    it('starts death saves when a player character drops to 0 HP', () => {
+      dropToZero();
+
+      expect(hero.deathSaves).toEqual({ status: 'unconscious', successes: 0, failures: 0, awaitingRoll: false });
+    });
+
+    it('does not track death saves for NPCs', () => {
+      applyDamage(encounter, PARTICIPANT_IDS.SECOND.toString(), enemy.currentHitPoints);
+      expect(getLifeState(enemy)).toBe('conscious');
+    });
+
+    it('kills outright when the leftover damage reaches the hit point maximum', () => {
+      hero.currentHitPoints = 10;
+      applyDamage(encounter, FIRST_ID, 10 + hero.maxHitPoints);
+
+      expect(getLifeState(hero)).toBe('dead');
+    });
+
+    it('adds a failure for damage at 0 HP and two for a critical hit', () => {
+      dropToZero();
+      applyDamage(encounter, FIRST_ID, 3);
+      expect(hero.deathSaves?.failures).toBe(1);
+
+      applyDamage(encounter, FIRST_ID, 3, { critical: true });
+      expect(getLifeState(hero)).toBe('dead');
+    });
+
+    it('ignores damage absorbed by temporary hit points', () => {
+      dropToZero();
+      hero.temporaryHitPoints = 5;
+      applyDamage(encounter, FIRST_ID, 4);
+
+      expect(hero.deathSaves?.failures).toBe(0);
+    });
+
+    it('restarts death saves when a stable character takes damage', () => {
+      hero.currentHitPoints = 0;
+      hero.deathSaves = { status: 'stable', successes: 3, failures: 2, awaitingRoll: false };
+
+      trackDamageTaken(hero, 2, 0);
+
+      expect(hero.deathSaves).toMatchObject({ status: 'unconscious', successes: 0, failures: 1 });
+    });
+  });
+
+  describe('healing', () => {
+    it('clears death saves once back above 0 HP', () => {
+      dropToZero();
+      expect(applyHealing(encounter, FIRST_ID, 4)).toBe(true);
+
+      expect(hero.deathSaves).toBeNull();
+      expect(getLifeState(hero)).toBe('conscious');
+    });
+
+    it('cannot heal a dead character', () => {
+      hero.currentHitPoints = 0;
+      hero.deathSaves = { status: 'dead', successes: 0, failures: 3, awaitingRoll: false };
+
+      expect(applyHealing(encounter, FIRST_ID, 10)).toBe(false);
+      trackHealingReceived(hero);
+      expect(hero.currentHitPoints).toBe(0);
+      expect(getLifeState(hero)).toBe('dead');
+    });
+  });
+
+  describe('recordDeathSave', () => {
+    beforeEach(dropToZero);
+
+    it('stabilises after three successes', () => {
+      recordDeathSave(hero, 10);
+      recordDeathSave(hero, 15);
+      const result = recordDeathSave(hero, 19);
+
+      expect(result?.deathSaves).toMatchObject({ status: 'stable', successes: 3 });
+      expect(recordDeathSave(hero, 12)).toBeNull();
+    });
+
+    it('dies after three failures, counting a natural 1 twice', () => {
+      recordDeathSave(hero, 1);
+      expect(hero.deathSaves?.failures).toBe(2);
+
+      recordDeathSave(hero, 9);
+      expect(getLifeState(hero)).toBe('dead');
+    });
+
+    it('regains 1 HP on a natural 20', () => {
+      const result = recordDeathSave(hero, 20);
+
+      expect(result?.regainedConsciousness).toBe(true);
+      expect(hero.currentHitPoints).toBe(1);
+      expect(hero.deathSaves).toBeNull();
+    });
+
+    it('rolls a d20 when no roll is given', () => {
+      const result = recordDeathSave(hero, undefined, { random: () => 0.5 });
+      expect(result?.roll).toBe(11);
+      expect(hero.deathSaves?.successes).toBe(1);
+    });
+  });
+
+  describe('enhancedNextTurn', () => {
+    it('prompts a dying character for a death save as their turn starts', async () => {
+      dropToZero();
+      encounter.combatState.currentTurn = 1;
+
+      await enhancedNextTurn(encounter);
+
+      expect(hero.deathSaves?.awaitingRoll).toBe(true);
+      const history = await getCombatHistory(encounter._id.toString());
+      const prompt = history.find(entry => entry.action === 'death_save');
+      expect(prompt?.details).toMatchObject({ pending: true, status: 'unconscious' });
+    });
+  });
+});
@@ -230,6 +230,14 @@ describe('Initiative Rolling System', () => {
       expect(updatedEntries[1].initiative).toBe(7);
       expect(updatedEntries[1].dexterity).toBe(14); // Fighter's dexterity
     });
+
+    it('should keep the lair action turn at its fixed initiative', () => {
+      getMockRollSequential([10, 10]);
+      const lairEntry = { participantId: new Types.ObjectId(), initiative: 20, dexterity: 1, isActive: false, hasActed: false, isLairAction: true };
+      const updatedEntries = rerollInitiative([...mockInitiativeEntries, lairEntry]);
+
+      expect(updatedEntries.find(entry => entry.isLairAction)?.initiative).toBe(20);
+    });
   });
 
   describe('rollSingleInitiative', () => {
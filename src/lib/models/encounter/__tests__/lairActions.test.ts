@@ -0,0 +1,86 @@
+import { isLairActionEntry, syncLairActionEntry } from '../lairActions';
+import { startCombat } from '../methods';
+import { enhancedNextTurn, getCombatHistory } from '../combatStateManager';
+import { IEncounter } from '../interfaces';
+import {
+  createTestEncounter,
+  makeEncounterActive,
+  setupTest,
+  PARTICIPANT_IDS,
+} from './combat-test-helpers';
+
+jest.mock('../../CombatEvent');
+
+describe('Lair Actions', () => {
+  let encounter: IEncounter;
+
+  beforeEach(async () => {
+    encounter = createTestEncounter();
+    makeEncounterActive(encounter);
+    await setupTest(encounter);
+    encounter.settings.enableLairActions = true;
+  });
+
+  const turnOrder = () =>
+    encounter.combatState.initiativeOrder.map(entry =>
+      isLairActionEntry(entry) ? 'lair' : entry.participantId.toString()
+    );
+
+  describe('syncLairActionEntry', () => {
+    it('inserts the lair turn at initiative 20, after creatures tied with it', () => {
+      syncLairActionEntry(encounter);
+
+      expect(turnOrder()).toEqual([
+        PARTICIPANT_IDS.FIRST.toString(),
+        'lair',
+        PARTICIPANT_IDS.SECOND.toString(),
+      ]);
+      expect(encounter.combatState.initiativeOrder[1].participantId).toEqual(encounter._id);
+    });
+
+    it('uses the configured initiative count', () => {
+      encounter.settings.lairActionInitiative = 10;
+      syncLairActionEntry(encounter);
+
+      expect(turnOrder()[2]).toBe('lair');
+      expect(encounter.combatState.initiativeOrder[2].initiative).toBe(10);
+    });
+
+    it('removes the lair turn when lair actions are disabled', () => {
+      syncLairActionEntry(encounter);
+      encounter.settings.enableLairActions = false;
+      syncLairActionEntry(encounter);
+
+      expect(turnOrder()).not.toContain('lair');
+    });
+
+    it('keeps the current turn on the active entry', () => {
+      encounter.settings.lairActionInitiative = 25;
+      encounter.combatState.initiativeOrder[0].isActive = false;
+      encounter.combatState.initiativeOrder[1].isActive = true;
+      encounter.combatState.currentTurn = 1;
+
+      syncLairActionEntry(encounter);
+
+      expect(encounter.combatState.currentTurn).toBe(2);
+      expect(encounter.combatState.initiativeOrder[2].participantId).toEqual(PARTICIPANT_IDS.SECOND);
+    });
+  });
+
+  it('adds the lair turn when combat starts', () => {
+    startCombat(encounter);
+
+    expect(turnOrder()).toContain('lair');
+    expect(encounter.combatState.initiativeOrder[0].isActive).toBe(true);
+  });
+
+  it('logs the start of the lair action turn', async () => {
+    syncLairActionEntry(encounter);
+
+    await enhancedNextTurn(encounter);
+
+    const history = await getCombatHistory(encounter._id.toString());
+    const turnStart = history.find(entry => entry.action === 'turn_start');
+    expect(turnStart?.details).toEqual({ lairAction: true });
+  });
+});
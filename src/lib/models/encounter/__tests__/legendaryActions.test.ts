@@ -0,0 +1,67 @@
+import {
+  configureLegendaryActions,
+  getLegendaryActionError,
+  spendLegendaryActions,
+} from '../legendaryActions';
+import { enhancedNextTurn } from '../combatStateManager';
+import { IEncounter, IParticipantReference } from '../interfaces';
+import { createTestEncounter, makeEncounterActive, setupTest } from './combat-test-helpers';
+
+jest.mock('../../CombatEvent');
+
+describe('Legendary Actions', () => {
+  let encounter: IEncounter;
+  let hero: IParticipantReference;
+  let dragon: IParticipantReference;
+
+  beforeEach(async () => {
+    encounter = createTestEncounter();
+    makeEncounterActive(encounter);
+    await setupTest(encounter);
+    [hero, dragon] = encounter.participants;
+    configureLegendaryActions(dragon, 3);
+  });
+
+  describe('configureLegendaryActions', () => {
+    it('starts with a full pool', () => {
+      expect(dragon.legendaryActions).toEqual({ max: 3, remaining: 3 });
+    });
+
+    it('removes the pool when set to 0', () => {
+      configureLegendaryActions(dragon, 0);
+      expect(dragon.legendaryActions).toBeNull();
+    });
+  });
+
+  describe('spendLegendaryActions', () => {
+    it("spends actions at the end of another creature's turn", () => {
+      expect(spendLegendaryActions(encounter, dragon, 2)).toBe(true);
+      expect(dragon.legendaryActions?.remaining).toBe(1);
+    });
+
+    it('refuses to spend more actions than remain', () => {
+      spendLegendaryActions(encounter, dragon, 2);
+
+      expect(getLegendaryActionError(encounter, dragon, 2)).toBe('Test Character 2 has only 1 legendary action left');
+      expect(spendLegendaryActions(encounter, dragon, 2)).toBe(false);
+      expect(dragon.legendaryActions?.remaining).toBe(1);
+    });
+
+    it("refuses to spend actions on the creature's own turn", () => {
+      encounter.combatState.currentTurn = 1;
+      expect(getLegendaryActionError(encounter, dragon, 1)).toMatch(/another creature's turn/);
+    });
+
+    it('refuses creatures without legendary actions', () => {
+      expect(getLegendaryActionError(encounter, hero, 1)).toBe('Test Character 1 has no legendary actions');
+    });
+  });
+
+  it('refreshes the pool at the start of the creature\'s turn', async () => {
+    spendLegendaryActions(encounter, dragon, 3);
+
+    await enhancedNextTurn(encounter);
+
+    expect(dragon.legendaryActions).toEqual({ max: 3, remaining: 3 });
+  });
+});
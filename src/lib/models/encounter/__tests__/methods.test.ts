@@ -10,11 +10,13 @@ import {
   previousTurn,
   setInitiative,
   applyDamage,
+  applyTypedDamage,
   applyHealing,
   addCondition,
   removeCondition,
   getInitiativeOrder,
   calculateDifficulty,
+  getDifficultyBreakdown,
   duplicateEncounter,
   toSummary,
 } from '../methods';
@@ -323,6 +325,47 @@ describe('Encounter Methods', () => {
       },
       ({ description }) => `should ${description}`
     );
+
+    it('should apply typed damage against participant defenses', () => {
+      const charId = TEST_CHARACTER_IDS.participant1;
+      const participant = createTestParticipant({
+        characterId: new Types.ObjectId(charId),
+        currentHitPoints: 100,
+        damageResistances: ['fire'],
+        damageImmunities: ['poison'],
+      });
+      encounter.participants = [participant];
+
+      const resolution = applyTypedDamage(encounter, charId, [
+        { amount: 12, damageType: 'fire' },
+        { amount: 5, damageType: 'slashing' },
+        { amount: 7, damageType: 'poison' },
+      ]);
+
+      expect(resolution?.totalDamage).toBe(11);
+      expect(resolution?.instances.map(instance => instance.resistanceApplied))
+        .toEqual(['resistant', 'normal', 'immune']);
+      expect(participant.currentHitPoints).toBe(89);
+    });
+
+    it('should queue a concentration save when a concentrating player takes damage', () => {
+      const charId = TEST_CHARACTER_IDS.participant1;
+      const participant = createTestParticipant({
+        characterId: new Types.ObjectId(charId),
+        concentration: { spellName: 'Bless', startRound: 1, linkedEffectIds: [], pendingSaveDCs: [] },
+      });
+      encounter.participants = [participant];
+
+      const resolution = applyTypedDamage(encounter, charId, [{ amount: 24, damageType: 'fire' }]);
+      applyDamage(encounter, charId, 5);
+
+      expect(resolution?.concentrationCheck).toMatchObject({ spellName: 'Bless', dc: 12, pending: true });
+      expect(participant.concentration?.pendingSaveDCs).toEqual([12, 10]);
+    });
+
+    it('should return null for typed damage to an unknown participant', () => {
+      expect(applyTypedDamage(encounter, new Types.ObjectId().toString(), [{ amount: 5 }])).toBeNull();
+    });
   });
 
   describe('Condition Management', () => {
@@ -351,7 +394,7 @@ describe('Encounter Methods', () => {
         expectedResult: false,
         description: 'return false when removing non-existent condition'
       }
-    ];
+    ] as const;
 
     runParameterizedTests(
       'condition management',
@@ -360,7 +403,7 @@ describe('Encounter Methods', () => {
         const charId = TEST_CHARACTER_IDS.participant1;
         const participant = createTestParticipant({
           characterId: new Types.ObjectId(charId),
-          conditions: [...initialConditions]
+          conditions: initialConditions.map(name => ({ name, expiry: 'indefinite' as const }))
         });
         encounter.participants = [participant];
 
@@ -368,10 +411,47 @@ describe('Encounter Methods', () => {
         const result = methodFn(encounter, charId, condition);
 
         expect(result).toBe(expectedResult);
-        expect(participant.conditions).toEqual(expectedConditions);
+        expect(participant.conditions.map(c => c.name)).toEqual(expectedConditions);
       },
       ({ description }) => `should ${description}`
     );
+
+    it('should record the source, duration and save of an applied condition', () => {
+      const targetId = TEST_CHARACTER_IDS.participant1;
+      const sourceId = TEST_CHARACTER_IDS.participant2;
+      const participant = createTestParticipant({ characterId: new Types.ObjectId(targetId), conditions: [] });
+      encounter.participants = [participant];
+      encounter.combatState.currentRound = 3;
+
+      addCondition(encounter, targetId, { name: 'frightened', sourceId, duration: 10 });
+      addCondition(encounter, targetId, { name: 'paralyzed', expiry: 'save', saveDC: 15, saveAbility: 'wisdom' });
+
+      expect(participant.conditions).toEqual([
+        {
+          name: 'frightened',
+          sourceId,
+          expiry: 'rounds',
+          roundsRemaining: 10,
+          expiryParticipantId: sourceId,
+          appliedRound: 3,
+        },
+        { name: 'paralyzed', expiry: 'save', saveDC: 15, saveAbility: 'wisdom', appliedRound: 3 },
+      ]);
+    });
+
+    it('should refuse conditions listed in condition immunities', () => {
+      const charId = TEST_CHARACTER_IDS.participant1;
+      const participant = createTestParticipant({
+        characterId: new Types.ObjectId(charId),
+        conditions: [],
+        conditionImmunities: ['Exhaustion', 'poisoned'],
+      });
+      encounter.participants = [participant];
+
+      expect(addCondition(encounter, charId, 'poisoned')).toBe(false);
+      expect(addCondition(encounter, charId, { name: 'exhaustion', level: 1 })).toBe(false);
+      expect(participant.conditions).toEqual([]);
+    });
   });
 
   describe('Utility Methods', () => {
@@ -387,6 +467,29 @@ describe('Encounter Methods', () => {
       expect(typeof difficulty).toBe('string');
     });
 
+    it('should rate difficulty from player levels and monster challenge ratings', () => {
+      encounter.participants = [
+        createTestParticipant({ isPlayer: true, level: 3 }),
+        createTestParticipant({ isPlayer: true }),
+        createTestParticipant({ isPlayer: false, type: 'monster', challengeRating: 2 }),
+      ];
+
+      const breakdown = getDifficultyBreakdown(encounter);
+
+      expect(breakdown.characterLevels).toEqual([3, 5]);
+      expect(breakdown.adjustedXP).toBe(675);
+      expect(breakdown.difficulty).toBe('medium');
+      expect(calculateDifficulty(encounter)).toBe('medium');
+    });
+
+    it('should prefer resolved character levels', () => {
+      encounter.participants = [
+        createTestParticipant({ isPlayer: false, type: 'monster', challengeRating: 2 }),
+      ];
+
+      expect(calculateDifficulty(encounter, [10, 10, 10, 10])).toBe('trivial');
+    });
+
     it('should duplicate encounter', () => {
       const duplicate = duplicateEncounter(encounter);
       expect(duplicate).toBeTruthy();
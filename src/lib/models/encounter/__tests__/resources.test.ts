@@ -0,0 +1,130 @@
+import {
+  applyRest,
+  buildCharacterResources,
+  configureCustomResource,
+  getResourceSpendError,
+  seedParticipantResources,
+  spendResource,
+} from '../resources';
+import { IEncounter, IParticipantReference } from '../interfaces';
+import type { DerivedStatsCharacter } from '../../../utils/character-stats';
+import { createTestEncounter, makeEncounterActive, setupTest } from './combat-test-helpers';
+
+jest.mock('../../CombatEvent');
+
+const abilityScores = {
+  strength: 10,
+  dexterity: 14,
+  constitution: 12,
+  intelligence: 16,
+  wisdom: 14,
+  charisma: 10,
+};
+
+const createCharacter = (classes: DerivedStatsCharacter['classes']): DerivedStatsCharacter => ({
+  classes,
+  abilityScores,
+  proficiencyBonus: 2,
+});
+
+describe('Participant Resources', () => {
+  let encounter: IEncounter;
+  let wizard: IParticipantReference;
+  let monk: IParticipantReference;
+
+  beforeEach(async () => {
+    encounter = createTestEncounter();
+    makeEncounterActive(encounter);
+    await setupTest(encounter);
+    [wizard, monk] = encounter.participants;
+    seedParticipantResources(wizard, createCharacter([{ class: 'wizard', level: 3 }]));
+    seedParticipantResources(monk, createCharacter([{ class: 'monk', level: 5 }]));
+  });
+
+  describe('buildCharacterResources', () => {
+    it('gives spell slots by level for the caster level', () => {
+      expect(wizard.resources).toEqual([
+        expect.objectContaining({ id: 'spell-slot-1', level: 1, max: 4, remaining: 4, recharge: 'long_rest' }),
+        expect.objectContaining({ id: 'spell-slot-2', level: 2, max: 2, remaining: 2, recharge: 'long_rest' }),
+      ]);
+    });
+
+    it('adds pact slots, ki, rage and channel divinity from class levels', () => {
+      const resources = buildCharacterResources(createCharacter([
+        { class: 'warlock', level: 3 },
+        { class: 'barbarian', level: 6 },
+        { class: 'cleric', level: 6 },
+      ]));
+      const byId = Object.fromEntries(resources.map(resource => [resource.id, resource]));
+
+      expect(byId['pact-slot']).toMatchObject({ kind: 'pact_slot', level: 2, max: 2, recharge: 'short_rest' });
+      expect(byId.rage).toMatchObject({ max: 4, recharge: 'long_rest' });
+      expect(byId['channel-divinity']).toMatchObject({ max: 2, recharge: 'short_rest' });
+      expect(monk.resources).toEqual([expect.objectContaining({ id: 'ki', max: 5, recharge: 'short_rest' })]);
+    });
+
+    it('leaves out rage once it becomes unlimited and ki before level 2', () => {
+      expect(buildCharacterResources(createCharacter([{ class: 'barbarian', level: 20 }]))).toEqual([]);
+      expect(buildCharacterResources(createCharacter([{ class: 'monk', level: 1 }]))).toEqual([]);
+    });
+
+    it('keeps custom counters when reseeding', () => {
+      configureCustomResource(wizard, 'Arcane Recovery', 1, 'long_rest');
+      seedParticipantResources(wizard, createCharacter([{ class: 'wizard', level: 4 }]));
+
+      expect(wizard.resources?.map(resource => resource.id)).toEqual(['spell-slot-1', 'spell-slot-2', 'custom-arcane-recovery']);
+    });
+  });
+
+  describe('spendResource', () => {
+    it('spends uses of a resource', () => {
+      expect(spendResource(wizard, 'spell-slot-1', 2)).toBe(true);
+      expect(wizard.resources?.[0].remaining).toBe(2);
+    });
+
+    it('refuses to spend more uses than remain or unknown resources', () => {
+      spendResource(monk, 'ki', 4);
+
+      expect(getResourceSpendError(monk, 'ki', 2)).toBe('Test Character 2 has only 1 Ki points left');
+      expect(spendResource(monk, 'ki', 2)).toBe(false);
+      expect(getResourceSpendError(monk, 'rage', 1)).toBe('Test Character 2 has no resource rage');
+    });
+  });
+
+  describe('configureCustomResource', () => {
+    it('adds, resizes and removes a custom counter', () => {
+      const id = configureCustomResource(monk, 'Bardic Inspiration', 3, 'short_rest');
+      expect(id).toBe('custom-bardic-inspiration');
+
+      configureCustomResource(monk, 'Bardic Inspiration', 4, 'short_rest');
+      expect(monk.resources?.filter(resource => resource.kind === 'custom')).toEqual([
+        { id, name: 'Bardic Inspiration', kind: 'custom', max: 4, remaining: 4, recharge: 'short_rest' },
+      ]);
+
+      configureCustomResource(monk, 'Bardic Inspiration', 0, 'short_rest');
+      expect(monk.resources?.some(resource => resource.id === id)).toBe(false);
+    });
+  });
+
+  describe('applyRest', () => {
+    beforeEach(() => {
+      spendResource(wizard, 'spell-slot-1', 3);
+      spendResource(monk, 'ki', 5);
+    });
+
+    it('restores only short-rest resources on a short rest', () => {
+      expect(applyRest(encounter, 'short')).toBe(5);
+      expect(monk.resources?.[0].remaining).toBe(5);
+      expect(wizard.resources?.[0].remaining).toBe(1);
+    });
+
+    it('restores every rechargeable resource on a long rest', () => {
+      configureCustomResource(wizard, 'Wish', 1, 'none');
+      spendResource(wizard, 'custom-wish');
+
+      expect(applyRest(encounter, 'long')).toBe(8);
+      expect(wizard.resources?.[0].remaining).toBe(4);
+      expect(wizard.resources?.find(resource => resource.id === 'custom-wish')?.remaining).toBe(0);
+    });
+  });
+});
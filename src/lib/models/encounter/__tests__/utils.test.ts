@@ -1,7 +1,6 @@
 import {
   sortInitiativeOrder,
   rollInitiative,
-  calculateEncounterDifficulty,
   findParticipantById,
   applyDamageToParticipant,
   healParticipant,
@@ -12,6 +11,7 @@ import {
   createDefaultCombatState,
   validateParticipantHP,
 } from '../utils';
+import type { IParticipantCondition, IParticipantReference } from '../interfaces';
 import { Types } from 'mongoose';
 import {
   createTestParticipant,
@@ -54,24 +54,16 @@ describe('Encounter Utils', () => {
         expect(roll).toBeLessThanOrEqual(20);
       });
     });
-  });
 
-  describe('calculateEncounterDifficulty', () => {
-    const difficultyTestCases = [
-      { players: 4, total: 5, expected: 'trivial', description: 'low enemy ratio' },
-      { players: 4, total: 8, expected: 'easy', description: 'balanced encounter' },
-      { players: 4, total: 14, expected: 'deadly', description: 'overwhelming enemies' },
-      { players: 0, total: 5, expected: 'deadly', description: 'zero players gracefully' }
-    ];
+    it('should keep the higher or lower d20 for advantage and disadvantage', () => {
+      const scripted = () => {
+        const faces = [4, 17];
+        return () => (faces.shift()! - 1) / 20;
+      };
 
-    runParameterizedTests(
-      'calculateEncounterDifficulty',
-      difficultyTestCases,
-      ({ players, total, expected }) => {
-        expect(calculateEncounterDifficulty(players, total)).toBe(expected);
-      },
-      ({ description, expected }) => `should return ${expected} for ${description}`
-    );
+      expect(rollInitiative({ mode: 'advantage', random: scripted() })).toBe(17);
+      expect(rollInitiative({ mode: 'disadvantage', random: scripted() })).toBe(4);
+    });
   });
 
   describe('findParticipantById', () => {
@@ -144,35 +136,55 @@ describe('Encounter Utils', () => {
   });
 
   describe('condition management', () => {
+    const poisoned = (): IParticipantCondition => ({ name: 'poisoned', expiry: 'indefinite' });
+    const conditionNames = (participant: IParticipantReference) => participant.conditions.map(c => c.name);
+
     describe('addConditionToParticipant', () => {
       it('should add new condition', () => {
-        const participant = createTestParticipant({ conditions: ['poisoned'] });
+        const participant = createTestParticipant({ conditions: [poisoned()] });
 
-        const result = addConditionToParticipant(participant, 'stunned');
+        const result = addConditionToParticipant(participant, { name: 'stunned', expiry: 'indefinite' });
         expect(result).toBe(true);
-        expect(participant.conditions).toContain('stunned');
+        expect(conditionNames(participant)).toContain('stunned');
       });
 
       it('should not add duplicate condition', () => {
-        const participant = createTestParticipant({ conditions: ['poisoned'] });
+        const participant = createTestParticipant({ conditions: [poisoned()] });
 
-        const result = addConditionToParticipant(participant, 'poisoned');
+        const result = addConditionToParticipant(participant, poisoned());
         expect(result).toBe(false);
-        expect(participant.conditions.filter(c => c === 'poisoned')).toHaveLength(1);
+        expect(conditionNames(participant).filter(name => name === 'poisoned')).toHaveLength(1);
+      });
+
+      it('should refuse conditions the participant is immune to', () => {
+        const participant = createTestParticipant({ conditionImmunities: ['charmed, poisoned'] });
+
+        expect(addConditionToParticipant(participant, poisoned())).toBe(false);
+        expect(participant.conditions).toHaveLength(0);
+      });
+
+      it('should stack exhaustion up to the maximum level', () => {
+        const participant = createTestParticipant({
+          conditions: [{ name: 'exhaustion', level: 5, expiry: 'indefinite' }],
+        });
+
+        expect(addConditionToParticipant(participant, { name: 'exhaustion', level: 2, expiry: 'indefinite' })).toBe(true);
+        expect(participant.conditions[0].level).toBe(6);
+        expect(addConditionToParticipant(participant, { name: 'exhaustion', level: 1, expiry: 'indefinite' })).toBe(false);
       });
     });
 
     describe('removeConditionFromParticipant', () => {
       it('should remove existing condition', () => {
-        const participant = createTestParticipant({ conditions: ['poisoned'] });
+        const participant = createTestParticipant({ conditions: [poisoned()] });
 
         const result = removeConditionFromParticipant(participant, 'poisoned');
         expect(result).toBe(true);
-        expect(participant.conditions).not.toContain('poisoned');
+        expect(conditionNames(participant)).not.toContain('poisoned');
       });
 
       it('should return false for non-existent condition', () => {
-        const participant = createTestParticipant({ conditions: ['poisoned'] });
+        const participant = createTestParticipant({ conditions: [poisoned()] });
 
         const result = removeConditionFromParticipant(participant, 'stunned');
         expect(result).toBe(false);
@@ -235,6 +247,7 @@ describe('Encounter Utils', () => {
         currentRound: 0,
         currentTurn: 0,
         initiativeOrder: [],
+        effects: [],
         totalDuration: 0
       };
 
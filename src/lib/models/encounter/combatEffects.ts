@@ -0,0 +1,31 @@
+import { ICombatEffect, IEncounter } from './interfaces';
+
+/**
+ * Round-tracking effect to add to the combat state. It starts in the current round.
+ */
+export type CombatEffectInput = Omit<ICombatEffect, 'startRound'>;
+
+/**
+ * Adds a round-tracking effect to the combat state.
+ * Returns null when an effect with the same id is already tracked.
+ */
+export function addCombatEffect(encounter: IEncounter, input: CombatEffectInput): ICombatEffect | null {
+  const effects = encounter.combatState.effects ?? [];
+  if (effects.some(effect => effect.id === input.id)) return null;
+
+  const effect: ICombatEffect = { ...input, startRound: encounter.combatState.currentRound ?? 0 };
+  encounter.combatState.effects = [...effects, effect];
+  return effect;
+}
+
+/**
+ * Removes the round-tracking effects with the given ids and returns the ones that were tracked
+ */
+export function removeCombatEffects(encounter: IEncounter, effectIds: string[]): ICombatEffect[] {
+  const effects = encounter.combatState.effects ?? [];
+  const removed = effects.filter(effect => effectIds.includes(effect.id));
+  if (removed.length > 0) {
+    encounter.combatState.effects = effects.filter(effect => !effectIds.includes(effect.id));
+  }
+  return removed;
+}
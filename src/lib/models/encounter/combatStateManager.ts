@@ -1,5 +1,18 @@
 import { Types } from 'mongoose';
 import { IEncounter, ICombatState } from './interfaces';
+import { CombatEvent, type CombatHistoryQuery } from '../CombatEvent';
+import {
+  expireConditionsAtTurnStart,
+  expireConditionsAtTurnEnd,
+  promptConditionSavesAtTurnEnd,
+  type ExpiredCondition,
+  type PendingConditionSave,
+} from './conditionTracking';
+import { promptDeathSave } from './deathSaves';
+import { refreshLegendaryActions } from './legendaryActions';
+import { findParticipantById } from './utils';
+
+export type { CombatHistoryQuery } from '../CombatEvent';
 
 /**
  * Combat action types for logging
@@ -17,9 +30,24 @@ export type CombatActionType =
   | 'healing_applied'
   | 'condition_added'
   | 'condition_removed'
+  | 'condition_save'
   | 'initiative_set'
+  | 'action_delayed'
+  | 'action_readied'
   | 'participant_added'
-  | 'participant_removed';
+  | 'participant_removed'
+  | 'effect_added'
+  | 'effect_removed'
+  | 'concentration_started'
+  | 'concentration_check'
+  | 'concentration_ended'
+  | 'death_save'
+  | 'legendary_action'
+  | 'legendary_actions_configured'
+  | 'resource_spent'
+  | 'resource_configured'
+  | 'resources_seeded'
+  | 'rest_taken';
 
 /**
  * Combat action log entry
@@ -31,6 +59,7 @@ export interface CombatActionLog {
   turn: number;
   participantId?: Types.ObjectId;
   details?: Record<string, any>;
+  undone?: boolean;
 }
 
 /**
@@ -47,19 +76,22 @@ export interface CombatStateValidation {
 }
 
 /**
- * In-memory storage for combat history (in production, this would be database-backed)
+ * A single page of the combat action log
  */
-const combatHistoryStore = new Map<string, CombatActionLog[]>();
-
-/**
- * In-memory storage for combat state snapshots
- */
-const combatStateStore = new Map<string, ICombatState>();
+export interface CombatHistoryPage {
+  entries: CombatActionLog[];
+  pagination: {
+    currentPage: number;
+    totalPages: number;
+    totalItems: number;
+    itemsPerPage: number;
+  };
+}
 
 /**
  * Pauses active combat
  */
-export function pauseCombat(encounter: IEncounter): boolean {
+export async function pauseCombat(encounter: IEncounter): Promise<boolean> {
   if (!encounter.combatState.isActive) {
     return false;
   }
@@ -69,7 +101,7 @@ export function pauseCombat(encounter: IEncounter): boolean {
   // Note: status remains 'active' since this is still an ongoing encounter
 
   // Log the pause action
-  logCombatAction(encounter._id.toString(), {
+  await logCombatAction(encounter._id.toString(), {
     action: 'combat_paused',
     round: encounter.combatState.currentRound,
     turn: encounter.combatState.currentTurn,
@@ -81,7 +113,7 @@ export function pauseCombat(encounter: IEncounter): boolean {
 /**
  * Resumes paused combat
  */
-export function resumeCombat(encounter: IEncounter): boolean {
+export async function resumeCombat(encounter: IEncounter): Promise<boolean> {
   if (encounter.combatState.isActive || !encounter.combatState.pausedAt) {
     return false;
   }
@@ -91,7 +123,7 @@ export function resumeCombat(encounter: IEncounter): boolean {
   // Note: status should already be 'active'
 
   // Log the resume action
-  logCombatAction(encounter._id.toString(), {
+  await logCombatAction(encounter._id.toString(), {
     action: 'combat_resumed',
     round: encounter.combatState.currentRound,
     turn: encounter.combatState.currentTurn,
@@ -101,79 +133,119 @@ export function resumeCombat(encounter: IEncounter): boolean {
 }
 
 /**
- * Logs a combat action to the history
+ * Logs a combat action to the combat event collection
  */
-export function logCombatAction(
+export async function logCombatAction(
   encounterId: string,
   actionData: Omit<CombatActionLog, 'timestamp'>
-): void {
+): Promise<void> {
   const action: CombatActionLog = {
     ...actionData,
     timestamp: new Date(),
   };
 
-  if (!combatHistoryStore.has(encounterId)) {
-    combatHistoryStore.set(encounterId, []);
-  }
+  await CombatEvent.appendAction(encounterId, action);
+}
 
-  const history = combatHistoryStore.get(encounterId)!;
-  history.push(action);
+/**
+ * Logs a combat action at the encounter's current round and turn
+ */
+export async function logEncounterAction(
+  encounter: IEncounter,
+  action: CombatActionType,
+  extras: Pick<CombatActionLog, 'participantId' | 'details'> = {}
+): Promise<void> {
+  await logCombatAction(encounter._id.toString(), {
+    action,
+    round: encounter.combatState.currentRound,
+    turn: encounter.combatState.currentTurn,
+    ...extras,
+  });
 }
 
 /**
- * Gets the complete combat history for an encounter
+ * Gets the combat history for an encounter in chronological order
  */
-export function getCombatHistory(encounterId: string): CombatActionLog[] {
-  return combatHistoryStore.get(encounterId) || [];
+export async function getCombatHistory(
+  encounterId: string,
+  query: CombatHistoryQuery = {}
+): Promise<CombatActionLog[]> {
+  return CombatEvent.findHistory(encounterId, query);
+}
+
+/**
+ * Gets one page of the combat history, optionally restricted to a single round
+ */
+export async function getCombatHistoryPage(
+  encounterId: string,
+  page: number,
+  limit: number,
+  round?: number
+): Promise<CombatHistoryPage> {
+  const [totalItems, entries] = await Promise.all([
+    CombatEvent.countHistory(encounterId, round),
+    CombatEvent.findHistory(encounterId, { round, skip: (page - 1) * limit, limit }),
+  ]);
+
+  return {
+    entries,
+    pagination: {
+      currentPage: page,
+      totalPages: Math.ceil(totalItems / limit),
+      totalItems,
+      itemsPerPage: limit,
+    },
+  };
 }
 
 /**
  * Clears the combat history for an encounter
  */
-export function clearCombatHistory(encounterId: string): void {
-  combatHistoryStore.delete(encounterId);
+export async function clearCombatHistory(encounterId: string): Promise<void> {
+  await CombatEvent.clearHistory(encounterId);
 }
 
 /**
- * Clears all stored combat state for an encounter (for testing)
+ * Clears the saved combat state for an encounter
  */
-export function clearCombatState(encounterId: string): void {
-  combatStateStore.delete(encounterId);
-  if (typeof window !== 'undefined' && window.localStorage) {
-    localStorage.removeItem(`combat_state_${encounterId}`);
-  }
+export async function clearCombatState(encounterId: string): Promise<void> {
+  await CombatEvent.clearSnapshot(encounterId);
+}
+
+/**
+ * Serializes the combat state of an encounter into a plain JSON-safe object
+ *
+ * Participant ids in the initiative order are stored as strings.
+ */
+export function serializeCombatState(combatState: ICombatState): ICombatState {
+  const stateSnapshot: ICombatState = {
+    isActive: combatState.isActive,
+    currentRound: combatState.currentRound,
+    currentTurn: combatState.currentTurn,
+    initiativeOrder: [...combatState.initiativeOrder],
+    effects: [...(combatState.effects ?? [])],
+    startedAt: combatState.startedAt,
+    pausedAt: combatState.pausedAt,
+    endedAt: combatState.endedAt,
+    totalDuration: combatState.totalDuration,
+  };
+
+  // Round-trip through JSON to drop document internals and catch circular references
+  const serialized = JSON.parse(JSON.stringify(stateSnapshot));
+  serialized.initiativeOrder.forEach((entry: { participantId: string }, index: number) => {
+    entry.participantId = stateSnapshot.initiativeOrder[index].participantId.toString();
+  });
+
+  return serialized;
 }
 
 /**
  * Saves combat state to persistent storage
  */
-export function saveCombatState(encounter: IEncounter): boolean {
+export async function saveCombatState(encounter: IEncounter): Promise<boolean> {
   try {
-    const stateSnapshot: ICombatState = {
-      isActive: encounter.combatState.isActive,
-      currentRound: encounter.combatState.currentRound,
-      currentTurn: encounter.combatState.currentTurn,
-      initiativeOrder: [...encounter.combatState.initiativeOrder],
-      startedAt: encounter.combatState.startedAt,
-      pausedAt: encounter.combatState.pausedAt,
-      endedAt: encounter.combatState.endedAt,
-      totalDuration: encounter.combatState.totalDuration,
-    };
-
-    // Test JSON serialization to catch circular references
-    const serialized = JSON.stringify(stateSnapshot);
-
-    // Store in memory (in production, this would save to database)
-    combatStateStore.set(encounter._id.toString(), stateSnapshot);
-
-    // Also try to save to localStorage if available (for client-side persistence)
-    if (typeof window !== 'undefined' && window.localStorage) {
-      localStorage.setItem(
-        `combat_state_${encounter._id}`,
-        serialized
-      );
-    }
-
+    const serialized = serializeCombatState(encounter.combatState);
+    await CombatEvent.saveSnapshot(encounter._id.toString(), serialized);
     return true;
   } catch (error) {
     console.error('Failed to save combat state:', error);
@@ -181,37 +253,13 @@ export function saveCombatState(encounter: IEncounter): boolean {
   }
 }
 
-/**
- * Loads saved state from storage
- */
-function loadSavedState(encounterId: string): ICombatState | null {
-  // First try to load from memory store
-  if (combatStateStore.has(encounterId)) {
-    return combatStateStore.get(encounterId)!;
-  }
-
-  // Fall back to localStorage if available
-  if (typeof window !== 'undefined' && window.localStorage) {
-    const saved = localStorage.getItem(`combat_state_${encounterId}`);
-    if (saved) {
-      try {
-        return JSON.parse(saved);
-      } catch (parseError) {
-        console.warn('Failed to parse saved combat state:', parseError);
-        return null;
-      }
-    }
-  }
-
-  return null;
-}
-
 /**
  * Validates saved state structure
  */
 function isValidSavedState(savedState: any): savedState is ICombatState {
   return (
     typeof savedState === 'object' &&
+    savedState !== null &&
     typeof savedState.isActive === 'boolean' &&
     typeof savedState.currentRound === 'number' &&
     typeof savedState.currentTurn === 'number' &&
@@ -220,25 +268,35 @@ function isValidSavedState(savedState: any): savedState is ICombatState {
 }
 
 /**
- * Applies saved state to encounter
+ * Restores a date field that was serialized as a string
+ */
+function toOptionalDate(value?: Date | string): Date | undefined {
+  return value ? new Date(value) : undefined;
+}
+
+/**
+ * Applies a serialized combat state to an encounter
  */
-function applySavedState(encounter: IEncounter, savedState: ICombatState): void {
+export function applySavedState(encounter: IEncounter, savedState: ICombatState): void {
   encounter.combatState.isActive = savedState.isActive;
   encounter.combatState.currentRound = savedState.currentRound;
   encounter.combatState.currentTurn = savedState.currentTurn;
-  encounter.combatState.initiativeOrder = savedState.initiativeOrder;
-  encounter.combatState.startedAt = savedState.startedAt;
-  encounter.combatState.pausedAt = savedState.pausedAt;
-  encounter.combatState.endedAt = savedState.endedAt;
+  encounter.combatState.initiativeOrder = savedState.initiativeOrder.map(entry => ({
+    ...entry,
+    participantId: new Types.ObjectId(entry.participantId.toString()),
+  }));
+  encounter.combatState.startedAt = toOptionalDate(savedState.startedAt);
+  encounter.combatState.pausedAt = toOptionalDate(savedState.pausedAt);
+  encounter.combatState.endedAt = toOptionalDate(savedState.endedAt);
   encounter.combatState.totalDuration = savedState.totalDuration;
 }
 
 /**
  * Loads combat state from persistent storage
  */
-export function loadCombatState(encounter: IEncounter): boolean {
+export async function loadCombatState(encounter: IEncounter): Promise<boolean> {
   try {
-    const savedState = loadSavedState(encounter._id.toString());
+    const savedState = await CombatEvent.findSnapshot(encounter._id.toString());
     if (!savedState) {
       return false;
     }
@@ -378,15 +436,15 @@ export function validateCombatState(encounter: IEncounter): CombatStateValidatio
 /**
  * Enhanced start combat with logging
  */
-export function enhancedStartCombat(
+export async function enhancedStartCombat(
   encounter: IEncounter,
   autoRollInitiative = false
-): void {
+): Promise<void> {
   // Clear previous combat history
-  clearCombatHistory(encounter._id.toString());
+  await clearCombatHistory(encounter._id.toString());
 
   // Log the combat start
-  logCombatAction(encounter._id.toString(), {
+  await logCombatAction(encounter._id.toString(), {
     action: 'combat_started',
     round: 1,
     turn: 0,
@@ -394,15 +452,15 @@ export function enhancedStartCombat(
   });
 
   // Save initial state
-  saveCombatState(encounter);
+  await saveCombatState(encounter);
 }
 
 /**
  * Enhanced end combat with logging
  */
-export function enhancedEndCombat(encounter: IEncounter): void {
+export async function enhancedEndCombat(encounter: IEncounter): Promise<void> {
   // Log the combat end
-  logCombatAction(encounter._id.toString(), {
+  await logCombatAction(encounter._id.toString(), {
     action: 'combat_ended',
     round: encounter.combatState.currentRound,
     turn: encounter.combatState.currentTurn,
@@ -412,25 +470,23 @@ export function enhancedEndCombat(encounter: IEncounter): void {
     },
   });
 
-  // Clear the saved state since combat is over
-  combatStateStore.delete(encounter._id.toString());
-  if (typeof window !== 'undefined' && window.localStorage) {
-    localStorage.removeItem(`combat_state_${encounter._id}`);
-  }
+  // Clear the saved state since combat is over; the action log is kept
+  await clearCombatState(encounter._id.toString());
 }
 
 /**
  * Logs turn end for current participant
  */
-function logCurrentTurnEnd(encounter: IEncounter, currentRound: number, currentTurn: number): void {
+async function logCurrentTurnEnd(encounter: IEncounter, currentRound: number, currentTurn: number): Promise<void> {
   if (encounter.combatState.initiativeOrder.length > 0) {
     const currentEntry = encounter.combatState.initiativeOrder[currentTurn];
     if (currentEntry) {
-      logCombatAction(encounter._id.toString(), {
+      await logCombatAction(encounter._id.toString(), {
         action: 'turn_end',
         round: currentRound,
         turn: currentTurn,
         participantId: currentEntry.participantId,
+        ...(currentEntry.isLairAction && { details: { lairAction: true } }),
       });
     }
   }
@@ -439,17 +495,17 @@ function logCurrentTurnEnd(encounter: IEncounter, currentRound: number, currentT
 /**
  * Logs round transitions
  */
-function logRoundTransition(encounterId: string, willStartNewRound: boolean,
-                           currentRound: number, currentTurn: number,
-                           newCurrentRound: number, newCurrentTurn: number): void {
+async function logRoundTransition(encounterId: string, willStartNewRound: boolean,
+                                  currentRound: number, currentTurn: number,
+                                  newCurrentRound: number, newCurrentTurn: number): Promise<void> {
   if (willStartNewRound) {
-    logCombatAction(encounterId, {
+    await logCombatAction(encounterId, {
       action: 'round_end',
       round: currentRound,
       turn: currentTurn,
     });
 
-    logCombatAction(encounterId, {
+    await logCombatAction(encounterId, {
       action: 'round_start',
       round: newCurrentRound,
       turn: newCurrentTurn,
@@ -460,15 +516,16 @@ function logRoundTransition(encounterId: string, willStartNewRound: boolean,
 /**
  * Logs turn start for new participant
  */
-function logNewTurnStart(encounter: IEncounter, newCurrentRound: number, newCurrentTurn: number): void {
+async function logNewTurnStart(encounter: IEncounter, newCurrentRound: number, newCurrentTurn: number): Promise<void> {
   if (encounter.combatState.initiativeOrder.length > 0) {
     const nextEntry = encounter.combatState.initiativeOrder[newCurrentTurn];
     if (nextEntry) {
-      logCombatAction(encounter._id.toString(), {
+      await logCombatAction(encounter._id.toString(), {
         action: 'turn_start',
         round: newCurrentRound,
         turn: newCurrentTurn,
         participantId: nextEntry.participantId,
+        ...(nextEntry.isLairAction && { details: { lairAction: true } }),
       });
     }
   }
@@ -476,24 +533,115 @@ function logNewTurnStart(encounter: IEncounter, newCurrentRound: number, newCurr
 
 /**
  * Enhanced next turn with logging
+ *
+ * Call before advancing the turn: the transition is computed from the
+ * current round and turn.
  */
-export function enhancedNextTurn(encounter: IEncounter): boolean {
+export async function enhancedNextTurn(encounter: IEncounter): Promise<boolean> {
   const currentRound = encounter.combatState.currentRound;
   const currentTurn = encounter.combatState.currentTurn;
   const encounterId = encounter._id.toString();
 
-  logCurrentTurnEnd(encounter, currentRound, currentTurn);
+  await logCurrentTurnEnd(encounter, currentRound, currentTurn);
+
+  const currentEntry = encounter.combatState.initiativeOrder[currentTurn];
+  if (currentEntry) {
+    const expired = expireConditionsAtTurnEnd(encounter, currentEntry.participantId.toString(), currentRound);
+    await logExpiredConditions(encounterId, expired, currentRound, currentTurn);
+    const pendingSaves = promptConditionSavesAtTurnEnd(encounter, currentEntry.participantId.toString(), currentRound);
+    await logPendingConditionSaves(encounterId, pendingSaves, currentRound, currentTurn);
+  }
 
   // Check if we're about to start a new round
   const willStartNewRound = (currentTurn + 1) >= encounter.combatState.initiativeOrder.length;
   const newCurrentTurn = willStartNewRound ? 0 : currentTurn + 1;
   const newCurrentRound = willStartNewRound ? currentRound + 1 : currentRound;
 
-  logRoundTransition(encounterId, willStartNewRound, currentRound, currentTurn,
-                    newCurrentRound, newCurrentTurn);
-  logNewTurnStart(encounter, newCurrentRound, newCurrentTurn);
+  await logRoundTransition(encounterId, willStartNewRound, currentRound, currentTurn,
+                           newCurrentRound, newCurrentTurn);
+  await logNewTurnStart(encounter, newCurrentRound, newCurrentTurn);
+
+  const nextEntry = encounter.combatState.initiativeOrder[newCurrentTurn];
+  if (nextEntry) {
+    const expired = expireConditionsAtTurnStart(encounter, nextEntry.participantId.toString());
+    await logExpiredConditions(encounterId, expired, newCurrentRound, newCurrentTurn);
+    await promptDeathSaveAtTurnStart(encounter, nextEntry.participantId, newCurrentRound, newCurrentTurn);
+    refreshLegendaryActionsAtTurnStart(encounter, nextEntry.participantId);
+  }
 
-  // Save state after turn change
-  saveCombatState(encounter);
   return true;
-}
\ No newline at end of file
+}
+
+/**
+ * Restores a legendary creature's pool as its own turn starts
+ */
+function refreshLegendaryActionsAtTurnStart(encounter: IEncounter, participantId: Types.ObjectId): void {
+  const participant = findParticipantById(encounter.participants, participantId.toString());
+  if (participant) refreshLegendaryActions(participant);
+}
+
+/**
+ * Asks a dying player character for a death save as their turn starts
+ */
+async function promptDeathSaveAtTurnStart(
+  encounter: IEncounter,
+  participantId: Types.ObjectId,
+  round: number,
+  turn: number
+): Promise<void> {
+  const participant = findParticipantById(encounter.participants, participantId.toString());
+  if (!participant || !promptDeathSave(participant)) return;
+
+  await logCombatAction(encounter._id.toString(), {
+    action: 'death_save',
+    round,
+    turn,
+    participantId,
+    details: { pending: true, ...participant.deathSaves },
+  });
+}
+
+/**
+ * Logs conditions removed because their duration ran out
+ */
+async function logExpiredConditions(
+  encounterId: string,
+  expired: ExpiredCondition[],
+  round: number,
+  turn: number
+): Promise<void> {
+  for (const { participantId, condition } of expired) {
+    await logCombatAction(encounterId, {
+      action: 'condition_removed',
+      round,
+      turn,
+      participantId,
+      details: { condition: condition.name, reason: 'expired' },
+    });
+  }
+}
+
+/**
+ * Logs the saving throws a creature is asked to make against its "save ends" conditions
+ */
+async function logPendingConditionSaves(
+  encounterId: string,
+  pendingSaves: PendingConditionSave[],
+  round: number,
+  turn: number
+): Promise<void> {
+  for (const { participantId, condition } of pendingSaves) {
+    await logCombatAction(encounterId, {
+      action: 'condition_save',
+      round,
+      turn,
+      participantId,
+      details: {
+        condition: condition.name,
+        dc: condition.saveDC,
+        ability: condition.saveAbility,
+        pending: true,
+      },
+    });
+  }
+}
@@ -0,0 +1,257 @@
+import { Types } from 'mongoose';
+import { IEncounter, IParticipantReference, ICombatState } from './interfaces';
+import { CombatEvent, type CombatStepRecord } from '../CombatEvent';
+import {
+  serializeCombatState,
+  applySavedState,
+  type CombatActionLog,
+} from './combatStateManager';
+
+/**
+ * Encounter-level fields restored by undo and redo
+ */
+export interface CombatTrackedState {
+  status: IEncounter['status'];
+  combatState: ICombatState;
+}
+
+/**
+ * Before and after values of a single participant.
+ * A null side means the participant did not exist at that point.
+ */
+export interface ParticipantChange {
+  participantId: string;
+  index: number;
+  before: Record<string, any> | null;
+  after: Record<string, any> | null;
+}
+
+/**
+ * Everything a combat step changed, as stored on its log entry
+ */
+export interface CombatChangeSet {
+  state?: {
+    before: CombatTrackedState;
+    after: CombatTrackedState;
+  };
+  participants: ParticipantChange[];
+}
+
+/**
+ * Result of an undo or redo
+ */
+export interface CombatUndoResult {
+  entry: CombatActionLog;
+  changes: CombatChangeSet;
+}
+
+/**
+ * Snapshot of an encounter taken before a combat step runs
+ */
+interface CombatCheckpoint {
+  state: CombatTrackedState;
+  participants: Map<string, { index: number; data: Record<string, any> }>;
+}
+
+type ChangeDirection = 'before' | 'after';
+
+/**
+ * Serializes a participant into a plain JSON-safe object
+ */
+function serializeParticipant(participant: IParticipantReference): Record<string, any> {
+  const plain = typeof (participant as any).toObject === 'function'
+    ? (participant as any).toObject()
+    : participant;
+  const serialized = JSON.parse(JSON.stringify(plain));
+  serialized.characterId = participant.characterId.toString();
+  delete serialized._id;
+  return serialized;
+}
+
+/**
+ * Restores a serialized participant
+ */
+function deserializeParticipant(data: Record<string, any>): IParticipantReference {
+  return {
+    ...data,
+    characterId: new Types.ObjectId(data.characterId),
+  } as IParticipantReference;
+}
+
+/**
+ * Captures the tracked encounter fields and all participants
+ */
+function captureCheckpoint(encounter: IEncounter): CombatCheckpoint {
+  const participants = new Map<string, { index: number; data: Record<string, any> }>();
+  encounter.participants.forEach((participant, index) => {
+    participants.set(participant.characterId.toString(), {
+      index,
+      data: serializeParticipant(participant),
+    });
+  });
+
+  return {
+    state: {
+      status: encounter.status,
+      combatState: serializeCombatState(encounter.combatState),
+    },
+    participants,
+  };
+}
+
+/**
+ * Lists participants that were added, removed or modified since the checkpoint
+ */
+function diffParticipants(before: CombatCheckpoint, after: CombatCheckpoint): ParticipantChange[] {
+  const ids = new Set([...before.participants.keys(), ...after.participants.keys()]);
+  const changes: ParticipantChange[] = [];
+
+  ids.forEach(participantId => {
+    const previous = before.participants.get(participantId);
+    const next = after.participants.get(participantId);
+    if (JSON.stringify(previous?.data) === JSON.stringify(next?.data)) {
+      return;
+    }
+
+    changes.push({
+      participantId,
+      index: previous?.index ?? next?.index ?? 0,
+      before: previous?.data ?? null,
+      after: next?.data ?? null,
+    });
+  });
+
+  return changes;
+}
+
+/**
+ * Computes the change set between a checkpoint and the current encounter
+ */
+function diffCheckpoint(before: CombatCheckpoint, encounter: IEncounter): CombatChangeSet | null {
+  const after = captureCheckpoint(encounter);
+  const participants = diffParticipants(before, after);
+  const stateChanged = JSON.stringify(before.state) !== JSON.stringify(after.state);
+
+  if (!stateChanged && participants.length === 0) {
+    return null;
+  }
+
+  return {
+    ...(stateChanged && { state: { before: before.state, after: after.state } }),
+    participants,
+  };
+}
+
+/**
+ * Restores one side of a participant change
+ */
+function applyParticipantChange(
+  encounter: IEncounter,
+  change: ParticipantChange,
+  direction: ChangeDirection
+): void {
+  const target = change[direction];
+  const currentIndex = encounter.participants.findIndex(
+    participant => participant.characterId.toString() === change.participantId
+  );
+
+  if (!target) {
+    if (currentIndex !== -1) {
+      encounter.participants.splice(currentIndex, 1);
+    }
+    return;
+  }
+
+  const restored = deserializeParticipant(target);
+  if (currentIndex === -1) {
+    const index = Math.min(change.index, encounter.participants.length);
+    encounter.participants.splice(index, 0, restored);
+    return;
+  }
+
+  const participant = encounter.participants[currentIndex] as Record<string, any>;
+  Object.keys(serializeParticipant(participant as IParticipantReference))
+    .filter(key => !(key in restored))
+    .forEach(key => { participant[key] = undefined; });
+  Object.assign(participant, restored);
+}
+
+/**
+ * Applies one side of a change set to an encounter
+ */
+export function applyCombatChanges(
+  encounter: IEncounter,
+  changes: CombatChangeSet,
+  direction: ChangeDirection
+): void {
+  if (changes.state) {
+    const state = changes.state[direction];
+    encounter.status = state.status;
+    applySavedState(encounter, state.combatState);
+  }
+
+  changes.participants.forEach(change => applyParticipantChange(encounter, change, direction));
+}
+
+/**
+ * Runs a combat step and records what it changed so it can be undone
+ *
+ * Every log entry written while the step runs is grouped into one undo step.
+ * Returns the result of the step; nothing is recorded when it returns false.
+ */
+export async function recordCombatStep(
+  encounter: IEncounter,
+  step: () => boolean | Promise<boolean>
+): Promise<boolean> {
+  const startedAt = new Date();
+  const checkpoint = captureCheckpoint(encounter);
+
+  if (!(await step())) {
+    return false;
+  }
+
+  const changes = diffCheckpoint(checkpoint, encounter);
+  if (changes) {
+    await CombatEvent.attachStepChanges(encounter._id.toString(), startedAt, changes);
+  }
+
+  return true;
+}
+
+/**
+ * Applies one side of a step, saves it with `persist` and only then flags the
+ * step, so a failed save leaves the undo history as it was
+ */
+async function replayCombatStep(
+  encounter: IEncounter,
+  step: CombatStepRecord,
+  direction: ChangeDirection,
+  persist: () => Promise<unknown>
+): Promise<CombatUndoResult> {
+  applyCombatChanges(encounter, step.changes, direction);
+  await persist();
+  await CombatEvent.setStepUndone(encounter._id.toString(), step.stepId, direction === 'before');
+  return { entry: step.entry, changes: step.changes };
+}
+
+/**
+ * Reverts the most recent combat step that has not been undone
+ */
+export async function undoCombatStep(
+  encounter: IEncounter,
+  persist: () => Promise<unknown>
+): Promise<CombatUndoResult | null> {
+  const step = await CombatEvent.findUndoStep(encounter._id.toString());
+  return step ? replayCombatStep(encounter, step, 'before', persist) : null;
+}
+
+/**
+ * Re-applies the most recently undone combat step
+ */
+export async function redoCombatStep(
+  encounter: IEncounter,
+  persist: () => Promise<unknown>
+): Promise<CombatUndoResult | null> {
+  const step = await CombatEvent.findRedoStep(encounter._id.toString());
+  return step ? replayCombatStep(encounter, step, 'after', persist) : null;
+}
@@ -0,0 +1,169 @@
+import { ICombatEffect, IEncounter, IParticipantReference } from './interfaces';
+import { removeCombatEffects } from './combatEffects';
+import { findParticipantById } from './utils';
+import { rollDiceExpression, buildD20Notation } from '../../utils/dice/dice-notation';
+import type { RandomSource } from '../../utils/dice/seeded-random';
+
+const MIN_CONCENTRATION_DC = 10;
+
+/**
+ * Spell a participant starts concentrating on
+ */
+export interface ConcentrationInput {
+  spellName: string;
+  linkedEffectIds?: string[];
+}
+
+/**
+ * Outcome of the concentration check triggered by damage or a resolved save.
+ * Pending checks are waiting for the player to roll.
+ */
+export interface ConcentrationCheck {
+  participantId: string;
+  spellName: string;
+  dc: number;
+  pending: boolean;
+  roll?: number;
+  total?: number;
+  success?: boolean;
+  endedEffects: ICombatEffect[];
+}
+
+/**
+ * Options for concentration saves rolled automatically
+ */
+export interface ConcentrationRollOptions {
+  random?: RandomSource;
+}
+
+/**
+ * Constitution save DC to keep concentrating after taking damage: half the damage, minimum 10
+ */
+export function getConcentrationSaveDC(damage: number): number {
+  return Math.max(MIN_CONCENTRATION_DC, Math.floor(damage / 2));
+}
+
+/**
+ * Concentration that was dropped, with the linked effects that ended with it
+ */
+export interface EndedConcentration {
+  spellName: string;
+  endedEffects: ICombatEffect[];
+}
+
+/**
+ * Starts concentration on a spell, replacing any spell the participant was already concentrating on.
+ * Returns the concentration that was dropped, if any.
+ */
+export function startConcentration(
+  encounter: IEncounter,
+  participantId: string,
+  input: ConcentrationInput
+): EndedConcentration | null {
+  const participant = findParticipantById(encounter.participants, participantId);
+  if (!participant) return null;
+
+  const previous = endConcentration(encounter, participant);
+  participant.concentration = {
+    spellName: input.spellName,
+    startRound: encounter.combatState?.currentRound ?? 0,
+    linkedEffectIds: [...(input.linkedEffectIds ?? [])],
+    pendingSaveDCs: [],
+  };
+  return previous;
+}
+
+/**
+ * Ends the participant's concentration, removing the round-tracking effects
+ * linked to it, and returns what it was concentrating on
+ */
+export function endConcentration(
+  encounter: IEncounter,
+  participant: IParticipantReference
+): EndedConcentration | null {
+  const concentration = participant.concentration;
+  if (!concentration) return null;
+
+  participant.concentration = null;
+  const endedEffects = removeCombatEffects(encounter, concentration.linkedEffectIds);
+  return { spellName: concentration.spellName, endedEffects };
+}
+
+/**
+ * Rolls a constitution saving throw with the participant's save bonus
+ */
+function rollConstitutionSave(participant: IParticipantReference, options: ConcentrationRollOptions) {
+  const result = rollDiceExpression(
+    buildD20Notation('normal', participant.constitutionSave ?? 0),
+    { random: options.random }
+  );
+  return { roll: result.total - (participant.constitutionSave ?? 0), total: result.total };
+}
+
+/**
+ * Checks concentration after a participant takes damage.
+ * Player characters get a save prompt queued; NPCs roll immediately and
+ * lose concentration, along with its linked effects, on a failure.
+ */
+export function checkConcentration(
+  encounter: IEncounter,
+  participant: IParticipantReference,
+  damage: number,
+  options: ConcentrationRollOptions = {}
+): ConcentrationCheck | null {
+  const concentration = participant.concentration;
+  if (!concentration || damage <= 0) return null;
+
+  const check: ConcentrationCheck = {
+    participantId: participant.characterId.toString(),
+    spellName: concentration.spellName,
+    dc: getConcentrationSaveDC(damage),
+    pending: participant.isPlayer,
+    endedEffects: [],
+  };
+
+  if (participant.isPlayer) {
+    concentration.pendingSaveDCs = [...(concentration.pendingSaveDCs ?? []), check.dc];
+    return check;
+  }
+
+  const { roll, total } = rollConstitutionSave(participant, options);
+  check.roll = roll;
+  check.total = total;
+  check.success = total >= check.dc;
+  if (!check.success) {
+    check.endedEffects = endConcentration(encounter, participant)!.endedEffects;
+  }
+  return check;
+}
+
+/**
+ * Resolves the oldest queued concentration save with the result the player rolled
+ */
+export function resolveConcentrationSave(
+  encounter: IEncounter,
+  participant: IParticipantReference,
+  total: number
+): ConcentrationCheck | null {
+  const concentration = participant.concentration;
+  const [dc, ...remaining] = concentration?.pendingSaveDCs ?? [];
+  if (!concentration || dc === undefined) return null;
+
+  const success = total >= dc;
+  const check: ConcentrationCheck = {
+    participantId: participant.characterId.toString(),
+    spellName: concentration.spellName,
+    dc,
+    pending: false,
+    total,
+    success,
+    endedEffects: [],
+  };
+
+  if (success) {
+    concentration.pendingSaveDCs = remaining;
+  } else {
+    check.endedEffects = endConcentration(encounter, participant)!.endedEffects;
+  }
+  return check;
+}
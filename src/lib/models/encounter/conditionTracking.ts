@@ -0,0 +1,177 @@
+import { Types } from 'mongoose';
+import { ConditionInput, IEncounter, IParticipantCondition, IParticipantReference } from './interfaces';
+
+/**
+ * A condition removed from a participant because its duration ran out
+ */
+export interface ExpiredCondition {
+  participantId: Types.ObjectId;
+  condition: IParticipantCondition;
+}
+
+/**
+ * Builds a tracked condition from user input, recording when it was applied.
+ * Turn-based durations follow the source's turns unless another creature is given.
+ */
+export function buildCondition(
+  encounter: IEncounter,
+  participantId: string,
+  input: ConditionInput
+): IParticipantCondition {
+  const expiry = input.expiry ?? (input.duration !== undefined ? 'rounds' : 'indefinite');
+  const activeEntry = encounter.combatState?.isActive
+    ? encounter.combatState.initiativeOrder[encounter.combatState.currentTurn]
+    : undefined;
+
+  const condition: IParticipantCondition = {
+    name: input.name,
+    expiry,
+    appliedRound: encounter.combatState?.currentRound ?? 0,
+  };
+
+  if (input.name === 'exhaustion') condition.level = input.level ?? 1;
+  if (input.sourceId) condition.sourceId = input.sourceId;
+  if (activeEntry) condition.appliedTurnOf = activeEntry.participantId.toString();
+  if (expiry === 'rounds') condition.roundsRemaining = input.duration ?? 1;
+  if (expiry === 'rounds' || expiry === 'turn_start' || expiry === 'turn_end') {
+    condition.expiryParticipantId = input.expiryParticipantId ?? input.sourceId ?? participantId;
+  }
+  if (expiry === 'save') {
+    condition.saveDC = input.saveDC;
+    if (input.saveAbility) condition.saveAbility = input.saveAbility;
+  }
+
+  return condition;
+}
+
+/**
+ * Whether the condition's duration is measured against the given creature's turns
+ */
+function followsTurnsOf(
+  participant: IParticipantReference,
+  condition: IParticipantCondition,
+  creatureId: string
+): boolean {
+  return (condition.expiryParticipantId ?? participant.characterId.toString()) === creatureId;
+}
+
+/**
+ * Removes the conditions rejected by the predicate and reports them as expired
+ */
+function expireConditions(
+  encounter: IEncounter,
+  hasExpired: (_participant: IParticipantReference, _condition: IParticipantCondition) => boolean
+): ExpiredCondition[] {
+  const expired: ExpiredCondition[] = [];
+
+  for (const participant of encounter.participants) {
+    const remaining = participant.conditions.filter(condition => {
+      if (!hasExpired(participant, condition)) return true;
+      expired.push({ participantId: participant.characterId, condition });
+      return false;
+    });
+
+    if (remaining.length !== participant.conditions.length) {
+      participant.conditions = remaining;
+    }
+  }
+
+  return expired;
+}
+
+/**
+ * Expires "until the start of X's next turn" conditions as X's turn starts
+ */
+export function expireConditionsAtTurnStart(
+  encounter: IEncounter,
+  creatureId: string
+): ExpiredCondition[] {
+  return expireConditions(encounter, (participant, condition) =>
+    condition.expiry === 'turn_start' && followsTurnsOf(participant, condition, creatureId)
+  );
+}
+
+/**
+ * Counts down round-based conditions and expires "until the end of X's next
+ * turn" conditions as X's turn ends. Conditions applied during this same turn
+ * are left alone so they last through X's next turn.
+ */
+export function expireConditionsAtTurnEnd(
+  encounter: IEncounter,
+  creatureId: string,
+  round: number
+): ExpiredCondition[] {
+  return expireConditions(encounter, (participant, condition) => {
+    if (!followsTurnsOf(participant, condition, creatureId)) return false;
+
+    const appliedThisTurn = condition.appliedRound === round && condition.appliedTurnOf === creatureId;
+    if (appliedThisTurn) return false;
+
+    if (condition.expiry === 'turn_end') return true;
+    if (condition.expiry === 'rounds') {
+      condition.roundsRemaining = (condition.roundsRemaining ?? 1) - 1;
+      return condition.roundsRemaining <= 0;
+    }
+    return false;
+  });
+}
+
+/**
+ * A "save ends" condition waiting for the affected creature's saving throw
+ */
+export interface PendingConditionSave {
+  participantId: Types.ObjectId;
+  condition: IParticipantCondition;
+}
+
+/**
+ * Outcome of a saving throw against a "save ends" condition
+ */
+export interface ConditionSaveResult {
+  condition: IParticipantCondition;
+  total: number;
+  success: boolean;
+}
+
+/**
+ * Asks the creature whose turn is ending to save against its "save ends"
+ * conditions. Conditions applied during this same turn are left alone.
+ */
+export function promptConditionSavesAtTurnEnd(
+  encounter: IEncounter,
+  creatureId: string,
+  round: number
+): PendingConditionSave[] {
+  const participant = encounter.participants.find(entry => entry.characterId.toString() === creatureId);
+  if (!participant) return [];
+
+  return participant.conditions
+    .filter(condition => {
+      if (condition.expiry !== 'save') return false;
+      return condition.appliedRound !== round || condition.appliedTurnOf !== creatureId;
+    })
+    .map(condition => {
+      condition.savePending = true;
+      return { participantId: participant.characterId, condition };
+    });
+}
+
+/**
+ * Resolves a saving throw against a "save ends" condition, removing it on a success
+ */
+export function resolveConditionSave(
+  participant: IParticipantReference,
+  name: IParticipantCondition['name'],
+  total: number
+): ConditionSaveResult | null {
+  const condition = participant.conditions.find(entry => entry.name === name && entry.expiry === 'save');
+  if (!condition) return null;
+
+  const success = total >= (condition.saveDC ?? 0);
+  if (success) {
+    participant.conditions = participant.conditions.filter(entry => entry !== condition);
+  } else {
+    condition.savePending = false;
+  }
+  return { condition, total, success };
+}
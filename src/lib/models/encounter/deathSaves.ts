@@ -0,0 +1,154 @@
+import { IDeathSaves, IParticipantReference } from './interfaces';
+import { rollDiceExpression } from '../../utils/dice/dice-notation';
+import type { RandomSource } from '../../utils/dice/seeded-random';
+
+const DEATH_SAVE_DC = 10;
+const DEATH_SAVES_NEEDED = 3;
+
+/**
+ * Whether a participant is alive and up, dying, stable at 0 HP or dead
+ */
+export type LifeState = 'conscious' | IDeathSaves['status'];
+
+/**
+ * Result of a single death saving throw
+ */
+export interface DeathSaveResult {
+  participantId: string;
+  roll: number;
+  deathSaves: IDeathSaves | null;
+  regainedConsciousness: boolean;
+}
+
+/**
+ * Options for death saves rolled automatically
+ */
+export interface DeathSaveRollOptions {
+  random?: RandomSource;
+}
+
+/**
+ * Only player characters make death saves; other creatures simply drop at 0 HP
+ */
+function makesDeathSaves(participant: IParticipantReference): boolean {
+  return participant.type === 'pc';
+}
+
+function startDying(): IDeathSaves {
+  return { status: 'unconscious', successes: 0, failures: 0, awaitingRoll: false };
+}
+
+function die(deathSaves: IDeathSaves): void {
+  deathSaves.status = 'dead';
+  deathSaves.awaitingRoll = false;
+}
+
+function addFailures(deathSaves: IDeathSaves, count: number): void {
+  deathSaves.failures = Math.min(DEATH_SAVES_NEEDED, deathSaves.failures + count);
+  if (deathSaves.failures >= DEATH_SAVES_NEEDED) die(deathSaves);
+}
+
+/**
+ * Current life state of a participant
+ */
+export function getLifeState(participant: IParticipantReference): LifeState {
+  return participant.deathSaves?.status ?? 'conscious';
+}
+
+/**
+ * Whether a participant is dead and cannot be healed back
+ */
+export function isDead(participant: IParticipantReference): boolean {
+  return getLifeState(participant) === 'dead';
+}
+
+/**
+ * Updates death saves after a participant lost hit points.
+ * Dropping to 0 starts death saves unless the leftover damage reaches the
+ * hit point maximum (massive damage). Damage while at 0 HP adds a failure,
+ * or two for a critical hit, restarts the saves of a stable participant and
+ * kills outright when it reaches the hit point maximum.
+ */
+export function trackDamageTaken(
+  participant: IParticipantReference,
+  hitPointDamage: number,
+  hitPointsBefore: number,
+  critical = false
+): void {
+  if (!makesDeathSaves(participant) || isDead(participant) || participant.currentHitPoints > 0) {
+    return;
+  }
+
+  const overflow = hitPointDamage - hitPointsBefore;
+  if (hitPointsBefore > 0) {
+    participant.deathSaves = startDying();
+    if (overflow >= participant.maxHitPoints) die(participant.deathSaves);
+    return;
+  }
+
+  if (hitPointDamage <= 0) return;
+
+  const deathSaves = participant.deathSaves?.status === 'unconscious' ? participant.deathSaves : startDying();
+  participant.deathSaves = deathSaves;
+  if (hitPointDamage >= participant.maxHitPoints) {
+    die(deathSaves);
+    return;
+  }
+  addFailures(deathSaves, critical ? 2 : 1);
+}
+
+/**
+ * Clears death saves once a participant is back above 0 HP
+ */
+export function trackHealingReceived(participant: IParticipantReference): void {
+  if (participant.currentHitPoints > 0 && !isDead(participant)) {
+    participant.deathSaves = null;
+  }
+}
+
+/**
+ * Prompts for a death save at the start of a dying participant's turn.
+ * Returns whether a save is now awaited.
+ */
+export function promptDeathSave(participant: IParticipantReference): boolean {
+  if (participant.deathSaves?.status !== 'unconscious') return false;
+
+  participant.deathSaves.awaitingRoll = true;
+  return true;
+}
+
+/**
+ * Records a death saving throw. A natural 20 regains 1 HP, a natural 1
+ * counts as two failures, three successes stabilise and three failures kill.
+ * Rolls a d20 when no roll is given.
+ */
+export function recordDeathSave(
+  participant: IParticipantReference,
+  roll?: number,
+  options: DeathSaveRollOptions = {}
+): DeathSaveResult | null {
+  const deathSaves = participant.deathSaves;
+  if (deathSaves?.status !== 'unconscious') return null;
+
+  const natural = roll ?? rollDiceExpression('1d20', { random: options.random }).total;
+  deathSaves.awaitingRoll = false;
+
+  if (natural === 20) {
+    participant.currentHitPoints = 1;
+    participant.deathSaves = null;
+  } else if (natural === 1) {
+    addFailures(deathSaves, 2);
+  } else if (natural >= DEATH_SAVE_DC) {
+    deathSaves.successes += 1;
+    if (deathSaves.successes >= DEATH_SAVES_NEEDED) deathSaves.status = 'stable';
+  } else {
+    addFailures(deathSaves, 1);
+  }
+
+  return {
+    participantId: participant.characterId.toString(),
+    roll: natural,
+    deathSaves: participant.deathSaves ?? null,
+    regainedConsciousness: natural === 20,
+  };
+}
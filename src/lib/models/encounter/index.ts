@@ -54,10 +54,12 @@ encounterSchema.methods.nextTurn = methods.nextTurn;
 encounterSchema.methods.previousTurn = methods.previousTurn;
 encounterSchema.methods.setInitiative = methods.setInitiative;
 encounterSchema.methods.applyDamage = methods.applyDamage;
+encounterSchema.methods.applyTypedDamage = methods.applyTypedDamage;
 encounterSchema.methods.applyHealing = methods.applyHealing;
 encounterSchema.methods.addCondition = methods.addCondition;
 encounterSchema.methods.removeCondition = methods.removeCondition;
 encounterSchema.methods.getInitiativeOrder = methods.getInitiativeOrder;
+encounterSchema.methods.getDifficultyBreakdown = methods.getDifficultyBreakdown;
 encounterSchema.methods.calculateDifficulty = methods.calculateDifficulty;
 encounterSchema.methods.duplicateEncounter = methods.duplicateEncounter;
 encounterSchema.methods.toSummary = methods.toSummary;
@@ -1,4 +1,4 @@
-import { rollInitiative, sortInitiativeOrder } from './utils';
+import { rollInitiative, sortInitiativeOrder, type InitiativeRollOptions } from './utils';
 import { IParticipantReference, IInitiativeEntry } from './interfaces';
 
 /**
@@ -38,8 +38,11 @@ export function calculateInitiativeModifier(dexterity: number): number {
 /**
  * Roll initiative with dexterity modifier
  */
-export function rollInitiativeWithModifier(dexterity: number): InitiativeRollResult {
-  const d20Roll = rollInitiative();
+export function rollInitiativeWithModifier(
+  dexterity: number,
+  options: InitiativeRollOptions = {}
+): InitiativeRollResult {
+  const d20Roll = rollInitiative(options);
   const modifier = calculateInitiativeModifier(dexterity);
   const total = Math.max(1, d20Roll + modifier); // Minimum result of 1
 
@@ -70,10 +73,11 @@ export function generateInitiativeEntries(
  * Roll initiative for all participants and return sorted entries
  */
 export function rollBulkInitiative(
-  participants: IParticipantWithAbilityScores[]
+  participants: IParticipantWithAbilityScores[],
+  options: InitiativeRollOptions = {}
 ): InitiativeEntryWithInfo[] {
   const entries: InitiativeEntryWithInfo[] = participants.map((participant) => {
-    const rollResult = rollInitiativeWithModifier(participant.abilityScores.dexterity);
+    const rollResult = rollInitiativeWithModifier(participant.abilityScores.dexterity, options);
 
     return {
       participantId: participant.characterId,
@@ -95,15 +99,17 @@ export function rollBulkInitiative(
  */
 export function rerollInitiative(
   currentEntries: IInitiativeEntry[],
-  participantId?: string
+  participantId?: string,
+  options: InitiativeRollOptions = {}
 ): IInitiativeEntry[] {
   const entries = currentEntries.map((entry) => {
-    // If participantId is provided, only reroll for that participant
-    if (participantId && entry.participantId.toString() !== participantId) {
+    // If participantId is provided, only reroll for that participant.
+    // The lair action turn keeps its fixed initiative count.
+    if (entry.isLairAction || (participantId && entry.participantId.toString() !== participantId)) {
       return entry;
     }
 
-    const rollResult = rollInitiativeWithModifier(entry.dexterity);
+    const rollResult = rollInitiativeWithModifier(entry.dexterity, options);
 
     return {
       ...entry,
@@ -121,9 +127,10 @@ export function rerollInitiative(
 export function rollSingleInitiative(
   currentEntries: IInitiativeEntry[],
   participantId: string,
-  dexterity: number
+  dexterity: number,
+  options: InitiativeRollOptions = {}
 ): IInitiativeEntry[] {
-  const rollResult = rollInitiativeWithModifier(dexterity);
+  const rollResult = rollInitiativeWithModifier(dexterity, options);
 
   const entries = currentEntries.map((entry) => {
     if (entry.participantId.toString() === participantId) {
@@ -5,6 +5,10 @@ import {
   encounterDifficultySchema,
   participantTypeSchema,
 } from '../../validations/encounter';
+import type { DifficultyRating, EncounterDifficultyBreakdown } from '../../utils/encounter-difficulty';
+import type { DamageInstance, DamageResolution } from '../../utils/dice/damage-types';
+import type { ConditionName, ConditionExpiry, SaveAbility } from '../../utils/conditions';
+import type { ConcentrationCheck } from './concentration';
 
 /**
  * Position interface for grid-based movement
@@ -14,6 +18,114 @@ export interface IPosition {
   y: number;
 }
 
+/**
+ * Condition tracked on a participant, with its source and how it ends.
+ * Participant references are stored as id strings. Save pending marks a
+ * condition whose end-of-turn save the affected creature still has to roll.
+ */
+export interface IParticipantCondition {
+  name: ConditionName;
+  level?: number;
+  sourceId?: string;
+  expiry: ConditionExpiry;
+  roundsRemaining?: number;
+  expiryParticipantId?: string;
+  saveDC?: number;
+  saveAbility?: SaveAbility;
+  appliedRound?: number;
+  appliedTurnOf?: string;
+  savePending?: boolean;
+}
+
+/**
+ * Condition to apply to a participant
+ */
+export interface ConditionInput {
+  name: ConditionName;
+  level?: number;
+  sourceId?: string;
+  expiry?: ConditionExpiry;
+  duration?: number;
+  expiryParticipantId?: string;
+  saveDC?: number;
+  saveAbility?: SaveAbility;
+}
+
+/**
+ * Spell a participant is concentrating on. Linked effects are ids of
+ * round-tracking effects that end with the concentration; pending save DCs
+ * are constitution saves queued for the player to roll.
+ */
+export interface IParticipantConcentration {
+  spellName: string;
+  startRound: number;
+  linkedEffectIds: string[];
+  pendingSaveDCs: number[];
+}
+
+/**
+ * Round-tracking effect on a participant, e.g. a spell with a duration in rounds.
+ * Mirrors the round tracker's `Effect`, with the participant stored as an id string.
+ */
+export interface ICombatEffect {
+  id: string;
+  name: string;
+  participantId: string;
+  duration: number;
+  startRound: number;
+  description: string;
+}
+
+/**
+ * Legendary actions a creature can take at the end of other creatures' turns
+ */
+export interface ILegendaryActions {
+  max: number;
+  remaining: number;
+}
+
+export type ResourceKind = 'spell_slot' | 'pact_slot' | 'ki' | 'rage' | 'channel_divinity' | 'custom';
+
+export type ResourceRecharge = 'short_rest' | 'long_rest' | 'none';
+
+/**
+ * Limited-use pool a participant spends during combat, such as spell slots
+ * or ki points, restored by rests according to its recharge rule
+ */
+export interface IParticipantResource {
+  id: string;
+  name: string;
+  kind: ResourceKind;
+  level?: number;
+  max: number;
+  remaining: number;
+  recharge: ResourceRecharge;
+}
+
+/**
+ * Death saving throws of a player character at 0 HP
+ */
+export interface IDeathSaves {
+  status: 'unconscious' | 'stable' | 'dead';
+  successes: number;
+  failures: number;
+  awaitingRoll: boolean;
+}
+
+/**
+ * Options for damage applied to a participant
+ */
+export interface DamageOptions {
+  critical?: boolean;
+}
+
+/**
+ * Damage applied to a participant, with the concentration check it triggered
+ */
+export interface EncounterDamageResult extends DamageResolution {
+  concentrationCheck: ConcentrationCheck | null;
+}
+
 /**
  * Participant reference interface for encounter participants
  */
@@ -29,12 +141,24 @@ export interface IParticipantReference {
   isPlayer: boolean;
   isVisible: boolean;
   notes: string;
-  conditions: string[];
+  conditions: IParticipantCondition[];
   position?: IPosition;
+  level?: number;
+  challengeRating?: number;
+  damageResistances?: string[];
+  damageVulnerabilities?: string[];
+  damageImmunities?: string[];
+  conditionImmunities?: string[];
+  constitutionSave?: number;
+  concentration?: IParticipantConcentration | null;
+  deathSaves?: IDeathSaves | null;
+  legendaryActions?: ILegendaryActions | null;
+  resources?: IParticipantResource[];
 }
 
 /**
- * Initiative entry interface for turn order tracking
+ * Initiative entry interface for turn order tracking.
+ * Lair action entries use the encounter id as their participant id.
  */
 export interface IInitiativeEntry {
   participantId: Types.ObjectId;
@@ -44,6 +168,7 @@ export interface IInitiativeEntry {
   hasActed: boolean;
   isDelayed?: boolean;
   readyAction?: string | null;
+  isLairAction?: boolean;
 }
 
 /**
@@ -69,6 +194,7 @@ export interface ICombatState {
   currentRound: number;
   currentTurn: number;
   initiativeOrder: IInitiativeEntry[];
+  effects: ICombatEffect[];
   startedAt?: Date;
   pausedAt?: Date;
   endedAt?: Date;
@@ -125,12 +251,18 @@ export interface IEncounter extends Document {
     _initiative: number,
     _dexterity: number
   ): boolean;
-  applyDamage(_participantId: string, _damage: number): boolean;
+  applyDamage(_participantId: string, _damage: number, _options?: DamageOptions): boolean;
+  applyTypedDamage(
+    _participantId: string,
+    _instances: DamageInstance[],
+    _options?: DamageOptions
+  ): EncounterDamageResult | null;
   applyHealing(_participantId: string, _healing: number): boolean;
-  addCondition(_participantId: string, _condition: string): boolean;
-  removeCondition(_participantId: string, _condition: string): boolean;
+  addCondition(_participantId: string, _condition: ConditionName | ConditionInput): boolean;
+  removeCondition(_participantId: string, _condition: ConditionName): boolean;
   getInitiativeOrder(): IInitiativeEntry[];
-  calculateDifficulty(): z.infer<typeof encounterDifficultySchema>;
+  getDifficultyBreakdown(_characterLevels?: number[]): EncounterDifficultyBreakdown;
+  calculateDifficulty(_characterLevels?: number[]): DifficultyRating;
   duplicateEncounter(_newName?: string): IEncounter;
   toSummary(): EncounterSummary;
 }
@@ -0,0 +1,49 @@
+import { IEncounter, IInitiativeEntry } from './interfaces';
+import { sortInitiativeOrder } from './utils';
+
+export const DEFAULT_LAIR_ACTION_INITIATIVE = 20;
+
+/**
+ * Whether an initiative entry is the synthetic lair action turn
+ */
+export function isLairActionEntry(entry: Pick<IInitiativeEntry, 'isLairAction'>): boolean {
+  return Boolean(entry.isLairAction);
+}
+
+/**
+ * Creates the lair action turn at the encounter's configured initiative count
+ */
+export function createLairActionEntry(encounter: IEncounter): IInitiativeEntry {
+  return {
+    participantId: encounter._id,
+    initiative: encounter.settings?.lairActionInitiative ?? DEFAULT_LAIR_ACTION_INITIATIVE,
+    dexterity: 1,
+    isActive: false,
+    hasActed: false,
+    isLairAction: true,
+  };
+}
+
+/**
+ * Adds or removes the lair action turn so the initiative order matches the
+ * encounter settings, keeping the active entry's turn index in sync
+ */
+export function syncLairActionEntry(encounter: IEncounter): void {
+  const { combatState } = encounter;
+  const entries = combatState.initiativeOrder.filter(entry => !isLairActionEntry(entry));
+
+  if (encounter.settings?.enableLairActions && entries.length > 0) {
+    const existing = combatState.initiativeOrder.find(isLairActionEntry);
+    entries.push({
+      ...createLairActionEntry(encounter),
+      ...(existing && { isActive: existing.isActive, hasActed: existing.hasActed }),
+    });
+  }
+
+  combatState.initiativeOrder = sortInitiativeOrder(entries);
+
+  const activeIndex = combatState.initiativeOrder.findIndex(entry => entry.isActive);
+  if (activeIndex !== -1) {
+    combatState.currentTurn = activeIndex;
+  }
+}
@@ -0,0 +1,61 @@
+import { IEncounter, IParticipantReference } from './interfaces';
+
+export const MAX_LEGENDARY_ACTIONS = 5;
+
+/**
+ * Sets the size of a creature's legendary action pool; 0 removes it
+ */
+export function configureLegendaryActions(participant: IParticipantReference, max: number): void {
+  const size = Math.max(0, Math.min(MAX_LEGENDARY_ACTIONS, Math.floor(max)));
+  participant.legendaryActions = size > 0 ? { max: size, remaining: size } : null;
+}
+
+/**
+ * Refreshes a creature's legendary actions at the start of its turn.
+ * Returns whether the pool changed.
+ */
+export function refreshLegendaryActions(participant: IParticipantReference): boolean {
+  const pool = participant.legendaryActions;
+  if (!pool || pool.remaining === pool.max) return false;
+
+  pool.remaining = pool.max;
+  return true;
+}
+
+/**
+ * Why a legendary action cannot be spent right now, or null when it can
+ */
+export function getLegendaryActionError(
+  encounter: IEncounter,
+  participant: IParticipantReference,
+  cost: number
+): string | null {
+  const pool = participant.legendaryActions;
+  if (!pool) {
+    return `${participant.name} has no legendary actions`;
+  }
+
+  const activeEntry = encounter.combatState.initiativeOrder[encounter.combatState.currentTurn];
+  if (activeEntry?.participantId.toString() === participant.characterId.toString()) {
+    return 'Legendary actions can only be used at the end of another creature\'s turn';
+  }
+
+  if (pool.remaining < cost) {
+    return `${participant.name} has only ${pool.remaining} legendary action${pool.remaining === 1 ? '' : 's'} left`;
+  }
+  return null;
+}
+
+/**
+ * Spends legendary actions from a creature's pool
+ */
+export function spendLegendaryActions(
+  encounter: IEncounter,
+  participant: IParticipantReference,
+  cost = 1
+): boolean {
+  if (getLegendaryActionError(encounter, participant, cost)) return false;
+
+  participant.legendaryActions!.remaining -= cost;
+  return true;
+}
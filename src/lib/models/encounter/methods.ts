@@ -1,18 +1,30 @@
 
 import { Types } from 'mongoose';
-import { z } from 'zod';
-import { encounterDifficultySchema } from '../../validations/encounter';
 import {
   IEncounter,
   IParticipantReference,
   IInitiativeEntry,
   EncounterSummary,
   EncounterModel,
+  ConditionInput,
+  EncounterDamageResult,
+  DamageOptions,
 } from './interfaces';
+import { buildCondition } from './conditionTracking';
+import { checkConcentration } from './concentration';
+import { isDead, trackDamageTaken, trackHealingReceived } from './deathSaves';
+import { syncLairActionEntry } from './lairActions';
+import type { ConditionName } from '../../utils/conditions';
+import {
+  getEncounterDifficultyBreakdown,
+  type DifficultyRating,
+  type EncounterDifficultyBreakdown,
+} from '../../utils/encounter-difficulty';
+import { resolveDamageInstances } from '../../utils/dice/damage-calculation';
+import type { DamageInstance } from '../../utils/dice/damage-types';
 import {
   sortInitiativeOrder,
   rollInitiative,
-  calculateEncounterDifficulty,
   findParticipantById,
   findInitiativeEntryById,
   applyDamageToParticipant,
@@ -103,6 +115,7 @@ export function startCombat(
   encounter.combatState.startedAt = new Date();
   encounter.combatState.pausedAt = undefined;
   encounter.combatState.endedAt = undefined;
+  encounter.combatState.effects = [];
   encounter.status = 'active';
 
   // Initialize initiative order
@@ -118,10 +131,8 @@ export function startCombat(
     })
   );
 
-  // Sort initiative order
-  encounter.combatState.initiativeOrder = sortInitiativeOrder(
-    encounter.combatState.initiativeOrder
-  );
+  // Sort initiative order, adding the lair action turn when enabled
+  syncLairActionEntry(encounter);
 
   // Set first participant as active
   if (encounter.combatState.initiativeOrder.length > 0) {
@@ -246,12 +257,18 @@ export function setInitiative(
   entry.initiative = initiative;
   entry.dexterity = dexterity;
 
-  // Re-sort initiative order
+  resortInitiativeOrder(encounter);
+  return true;
+}
+
+/**
+ * Re-sorts the initiative order and keeps the current turn on the active entry
+ */
+function resortInitiativeOrder(encounter: IEncounter): void {
   encounter.combatState.initiativeOrder = sortInitiativeOrder(
     encounter.combatState.initiativeOrder
   );
 
-  // Update current turn index
   const activeEntry = encounter.combatState.initiativeOrder.find(
     (e: IInitiativeEntry) => e.isActive
   );
@@ -261,47 +278,120 @@ export function setInitiative(
         e.participantId.toString() === activeEntry.participantId.toString()
     );
   }
+}
 
+/**
+ * Adds a participant to a running combat at the given initiative
+ */
+export function joinCombat(
+  encounter: IEncounter,
+  participant: Omit<IParticipantReference, 'characterId'> & {
+    characterId: string;
+  },
+  initiative: number,
+  dexterity: number
+): boolean {
+  if (getParticipant(encounter, participant.characterId)) return false;
+
+  addParticipant(encounter, { ...participant, initiative });
+  encounter.combatState.initiativeOrder.push({
+    participantId: new Types.ObjectId(participant.characterId),
+    initiative,
+    dexterity,
+    isActive: false,
+    hasActed: false,
+  });
+  resortInitiativeOrder(encounter);
   return true;
 }
 
 export function applyDamage(
   encounter: IEncounter,
   participantId: string,
-  damage: number
+  damage: number,
+  options: DamageOptions = {}
 ): boolean {
   const participant = getParticipant(encounter, participantId);
   if (!participant) return false;
 
-  return applyDamageToParticipant(participant, damage);
+  const applied = takeDamage(participant, damage, options);
+  if (applied) checkConcentration(encounter, participant, damage);
+  return applied;
 }
 
+/**
+ * Applies typed damage after resolving it against the participant's
+ * resistances, vulnerabilities and immunities
+ */
+export function applyTypedDamage(
+  encounter: IEncounter,
+  participantId: string,
+  instances: DamageInstance[],
+  options: DamageOptions = {}
+): EncounterDamageResult | null {
+  const participant = getParticipant(encounter, participantId);
+  if (!participant) return null;
+
+  const resolution = resolveDamageInstances(instances, participant);
+  takeDamage(participant, resolution.totalDamage, options);
+  return {
+    ...resolution,
+    concentrationCheck: checkConcentration(encounter, participant, resolution.totalDamage),
+  };
+}
+
+/**
+ * Applies damage and updates the participant's death saves with the part
+ * that got through temporary hit points
+ */
+function takeDamage(
+  participant: IParticipantReference,
+  damage: number,
+  options: DamageOptions
+): boolean {
+  const hitPointsBefore = participant.currentHitPoints;
+  const absorbed = Math.min(Math.max(damage, 0), participant.temporaryHitPoints);
+  if (!applyDamageToParticipant(participant, damage)) return false;
+
+  trackDamageTaken(participant, damage - absorbed, hitPointsBefore, options.critical);
+  return true;
+}
+
+/**
+ * Heals a participant; dead participants cannot be healed back
+ */
 export function applyHealing(
   encounter: IEncounter,
   participantId: string,
   healing: number
 ): boolean {
   const participant = getParticipant(encounter, participantId);
-  if (!participant) return false;
+  if (!participant || isDead(participant)) return false;
 
-  return healParticipant(participant, healing);
+  const healed = healParticipant(participant, healing);
+  if (healed) trackHealingReceived(participant);
+  return healed;
 }
 
+/**
+ * Applies a condition, refusing conditions the participant is immune to
+ */
 export function addCondition(
   encounter: IEncounter,
   participantId: string,
-  condition: string
+  condition: ConditionName | ConditionInput
 ): boolean {
   const participant = getParticipant(encounter, participantId);
   if (!participant) return false;
 
-  return addConditionToParticipant(participant, condition);
+  const input = typeof condition === 'string' ? { name: condition } : condition;
+  return addConditionToParticipant(participant, buildCondition(encounter, participantId, input));
 }
 
 export function removeCondition(
   encounter: IEncounter,
   participantId: string,
-  condition: string
+  condition: ConditionName
 ): boolean {
   const participant = getParticipant(encounter, participantId);
   if (!participant) return false;
@@ -317,15 +407,24 @@ export function getInitiativeOrder(encounter: IEncounter): IInitiativeEntry[] {
   return [...encounter.combatState.initiativeOrder];
 }
 
-export function calculateDifficulty(
-  encounter: IEncounter
-): z.infer<typeof encounterDifficultySchema> {
-  return calculateEncounterDifficulty(
-    encounter.playerCount,
-    encounter.participants.length
+export function getDifficultyBreakdown(
+  encounter: IEncounter,
+  characterLevels?: number[]
+): EncounterDifficultyBreakdown {
+  return getEncounterDifficultyBreakdown(
+    encounter.participants,
+    encounter.targetLevel,
+    characterLevels
   );
 }
 
+export function calculateDifficulty(
+  encounter: IEncounter,
+  characterLevels?: number[]
+): DifficultyRating {
+  return getDifficultyBreakdown(encounter, characterLevels).difficulty;
+}
+
 export function duplicateEncounter(
   encounter: IEncounter,
   newName?: string
@@ -342,6 +441,7 @@ export function duplicateEncounter(
     currentRound: 0,
     currentTurn: 0,
     initiativeOrder: [],
+    effects: [],
     totalDuration: 0,
   };
   duplicateData.version = 1;
@@ -0,0 +1,193 @@
+import { calculateSpellcasting, type DerivedStatsCharacter } from '../../utils/character-stats';
+import {
+  IEncounter,
+  IParticipantReference,
+  IParticipantResource,
+  ResourceKind,
+  ResourceRecharge,
+} from './interfaces';
+
+export const RESOURCE_KINDS: ResourceKind[] = ['spell_slot', 'pact_slot', 'ki', 'rage', 'channel_divinity', 'custom'];
+
+export const RESOURCE_RECHARGES: ResourceRecharge[] = ['short_rest', 'long_rest', 'none'];
+
+export const MAX_RESOURCE_USES = 99;
+
+export type RestType = 'short' | 'long';
+
+const ORDINALS = ['1st', '2nd', '3rd', '4th', '5th', '6th', '7th', '8th', '9th'];
+
+// Rages per long rest by barbarian level; unlimited from level 20
+const RAGES_BY_LEVEL: Array<[number, number]> = [[17, 6], [12, 5], [6, 4], [3, 3], [1, 2]];
+
+const getClassLevel = (character: DerivedStatsCharacter, className: string): number =>
+  character.classes
+    .filter(cls => cls.class.toLowerCase() === className)
+    .reduce((total, cls) => total + cls.level, 0);
+
+const createResource = (
+  id: string,
+  name: string,
+  kind: ResourceKind,
+  max: number,
+  recharge: ResourceRecharge,
+  level?: number
+): IParticipantResource => ({
+  id,
+  name,
+  kind,
+  ...(level !== undefined && { level }),
+  max,
+  remaining: max,
+  recharge,
+});
+
+const getRages = (barbarianLevel: number): number => {
+  if (barbarianLevel < 1 || barbarianLevel >= 20) return 0;
+  return RAGES_BY_LEVEL.find(([level]) => barbarianLevel >= level)?.[1] ?? 0;
+};
+
+const getChannelDivinityUses = (clericLevel: number, paladinLevel: number): number => {
+  const clericUses = clericLevel >= 18 ? 3 : clericLevel >= 6 ? 2 : clericLevel >= 2 ? 1 : 0;
+  const paladinUses = paladinLevel >= 3 ? 1 : 0;
+  return Math.max(clericUses, paladinUses);
+};
+
+/**
+ * Full resource pools for a character's classes and levels.
+ * Rage is not tracked at barbarian level 20, where it becomes unlimited.
+ */
+export function buildCharacterResources(character: DerivedStatsCharacter): IParticipantResource[] {
+  const spellcasting = calculateSpellcasting(character);
+  const resources = Object.entries(spellcasting.spellSlots)
+    .filter(([, count]) => count > 0)
+    .map(([level, count]) => createResource(
+      `spell-slot-${level}`,
+      `${ORDINALS[Number(level) - 1]}-level spell slots`,
+      'spell_slot',
+      count,
+      'long_rest',
+      Number(level)
+    ));
+
+  if (spellcasting.pactMagic) {
+    const { slots, slotLevel } = spellcasting.pactMagic;
+    resources.push(createResource('pact-slot', `Pact slots (${ORDINALS[slotLevel - 1]} level)`, 'pact_slot', slots, 'short_rest', slotLevel));
+  }
+
+  const monkLevel = getClassLevel(character, 'monk');
+  if (monkLevel >= 2) {
+    resources.push(createResource('ki', 'Ki points', 'ki', monkLevel, 'short_rest'));
+  }
+
+  const rages = getRages(getClassLevel(character, 'barbarian'));
+  if (rages > 0) {
+    resources.push(createResource('rage', 'Rage', 'rage', rages, 'long_rest'));
+  }
+
+  const channelDivinity = getChannelDivinityUses(getClassLevel(character, 'cleric'), getClassLevel(character, 'paladin'));
+  if (channelDivinity > 0) {
+    resources.push(createResource('channel-divinity', 'Channel Divinity', 'channel_divinity', channelDivinity, 'short_rest'));
+  }
+
+  return resources;
+}
+
+/**
+ * Replaces a participant's class resources with full pools for its character,
+ * keeping any custom counters the DM has added
+ */
+export function seedParticipantResources(
+  participant: IParticipantReference,
+  character: DerivedStatsCharacter
+): void {
+  const custom = (participant.resources ?? []).filter(resource => resource.kind === 'custom');
+  participant.resources = [...buildCharacterResources(character), ...custom];
+}
+
+export function findResource(
+  participant: IParticipantReference,
+  resourceId: string
+): IParticipantResource | undefined {
+  return participant.resources?.find(resource => resource.id === resourceId);
+}
+
+/**
+ * Why a resource cannot be spent right now, or null when it can
+ */
+export function getResourceSpendError(
+  participant: IParticipantReference,
+  resourceId: string,
+  amount: number
+): string | null {
+  const resource = findResource(participant, resourceId);
+  if (!resource) {
+    return `${participant.name} has no resource ${resourceId}`;
+  }
+
+  if (resource.remaining < amount) {
+    return `${participant.name} has only ${resource.remaining} ${resource.name} left`;
+  }
+  return null;
+}
+
+/**
+ * Spends uses of a participant's resource
+ */
+export function spendResource(
+  participant: IParticipantReference,
+  resourceId: string,
+  amount = 1
+): boolean {
+  if (getResourceSpendError(participant, resourceId, amount)) return false;
+
+  findResource(participant, resourceId)!.remaining -= amount;
+  return true;
+}
+
+const toResourceId = (name: string): string =>
+  `custom-${name.trim().toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '')}`;
+
+/**
+ * Adds or resizes a custom counter such as Bardic Inspiration; a max of 0
+ * removes it. Returns the counter's id.
+ */
+export function configureCustomResource(
+  participant: IParticipantReference,
+  name: string,
+  max: number,
+  recharge: ResourceRecharge
+): string {
+  const id = toResourceId(name);
+  const size = Math.max(0, Math.min(MAX_RESOURCE_USES, Math.floor(max)));
+  const others = (participant.resources ?? []).filter(resource => resource.id !== id);
+
+  participant.resources = size > 0
+    ? [...others, createResource(id, name.trim(), 'custom', size, recharge)]
+    : others;
+  return id;
+}
+
+/**
+ * Whether a resource is restored by the given rest; a long rest also restores
+ * short-rest resources
+ */
+export function rechargesOnRest(resource: Pick<IParticipantResource, 'recharge'>, rest: RestType): boolean {
+  return resource.recharge === 'short_rest' || (rest === 'long' && resource.recharge === 'long_rest');
+}
+
+/**
+ * Restores every participant's resources that recharge on the given rest;
+ * a long rest also restores short-rest resources. Returns how many uses were restored.
+ */
+export function applyRest(encounter: IEncounter, rest: RestType): number {
+  return encounter.participants.reduce((restored, participant) =>
+    (participant.resources ?? [])
+      .filter(resource => rechargesOnRest(resource, rest))
+      .reduce((total, resource) => {
+        const missing = resource.max - resource.remaining;
+        resource.remaining = resource.max;
+        return total + missing;
+      }, restored),
+  0);
+}
@@ -1,9 +1,15 @@
 import { Schema } from 'mongoose';
 import {
   IPosition,
+  IParticipantCondition,
+  IParticipantConcentration,
+  IDeathSaves,
+  ILegendaryActions,
+  IParticipantResource,
   IParticipantReference,
   IInitiativeEntry,
   IEncounterSettings,
+  ICombatEffect,
   ICombatState,
   IEncounter,
   EncounterModel,
@@ -16,6 +22,14 @@ import {
   commonIndexes,
   DND_VALIDATION_RANGES,
 } from '../shared/schema-utils';
+import {
+  CONDITION_NAMES,
+  CONDITION_EXPIRY_TYPES,
+  SAVE_ABILITIES,
+  MAX_EXHAUSTION_LEVEL,
+} from '../../utils/conditions';
+import { MAX_LEGENDARY_ACTIONS } from './legendaryActions';
+import { MAX_RESOURCE_USES, RESOURCE_KINDS, RESOURCE_RECHARGES } from './resources';
 
 /**
  * Position schema for grid-based movement
@@ -36,6 +50,181 @@ export const positionSchema = new Schema<IPosition>(
   { _id: false }
 );
 
+/**
+ * Condition schema for conditions tracked on a participant
+ */
+export const participantConditionSchema = new Schema<IParticipantCondition>(
+  {
+    name: {
+      type: String,
+      enum: CONDITION_NAMES,
+      required: true,
+    },
+    level: {
+      type: Number,
+      min: 1,
+      max: MAX_EXHAUSTION_LEVEL,
+    },
+    sourceId: {
+      type: String,
+      trim: true,
+    },
+    expiry: {
+      type: String,
+      enum: CONDITION_EXPIRY_TYPES,
+      default: 'indefinite',
+    },
+    roundsRemaining: {
+      type: Number,
+      min: 0,
+    },
+    expiryParticipantId: {
+      type: String,
+      trim: true,
+    },
+    saveDC: {
+      type: Number,
+      min: 1,
+      max: 30,
+    },
+    saveAbility: {
+      type: String,
+      enum: SAVE_ABILITIES,
+    },
+    appliedRound: {
+      type: Number,
+      min: 0,
+    },
+    appliedTurnOf: {
+      type: String,
+      trim: true,
+    },
+    savePending: {
+      type: Boolean,
+    },
+  },
+  { _id: false }
+);
+
+/**
+ * Concentration schema for the spell a participant is concentrating on
+ */
+export const participantConcentrationSchema = new Schema<IParticipantConcentration>(
+  {
+    spellName: {
+      type: String,
+      required: true,
+      trim: true,
+      maxlength: 100,
+    },
+    startRound: {
+      type: Number,
+      default: 0,
+      min: 0,
+    },
+    linkedEffectIds: [{ type: String, trim: true }],
+    pendingSaveDCs: [{ type: Number, min: 1 }],
+  },
+  { _id: false }
+);
+
+/**
+ * Death saves schema for player characters at 0 HP
+ */
+export const deathSavesSchema = new Schema<IDeathSaves>(
+  {
+    status: {
+      type: String,
+      enum: ['unconscious', 'stable', 'dead'],
+      default: 'unconscious',
+    },
+    successes: {
+      type: Number,
+      default: 0,
+      min: 0,
+      max: 3,
+    },
+    failures: {
+      type: Number,
+      default: 0,
+      min: 0,
+      max: 3,
+    },
+    awaitingRoll: {
+      type: Boolean,
+      default: false,
+    },
+  },
+  { _id: false }
+);
+
+/**
+ * Legendary action pool schema for legendary creatures
+ */
+export const legendaryActionsSchema = new Schema<ILegendaryActions>(
+  {
+    max: {
+      type: Number,
+      required: true,
+      min: 1,
+      max: MAX_LEGENDARY_ACTIONS,
+    },
+    remaining: {
+      type: Number,
+      required: true,
+      min: 0,
+      max: MAX_LEGENDARY_ACTIONS,
+    },
+  },
+  { _id: false }
+);
+
+/**
+ * Limited-use resource schema for spell slots, class features and custom counters
+ */
+export const participantResourceSchema = new Schema<IParticipantResource>(
+  {
+    id: {
+      type: String,
+      required: true,
+    },
+    name: {
+      type: String,
+      required: true,
+      trim: true,
+      maxlength: 50,
+    },
+    kind: {
+      type: String,
+      enum: RESOURCE_KINDS,
+      required: true,
+    },
+    level: {
+      type: Number,
+      min: 1,
+      max: 9,
+    },
+    max: {
+      type: Number,
+      required: true,
+      min: 1,
+      max: MAX_RESOURCE_USES,
+    },
+    remaining: {
+      type: Number,
+      required: true,
+      min: 0,
+      max: MAX_RESOURCE_USES,
+    },
+    recharge: {
+      type: String,
+      enum: RESOURCE_RECHARGES,
+      required: true,
+    },
+  },
+  { _id: false }
+);
+
 /**
  * Participant reference schema for encounter participants
  */
@@ -76,14 +265,41 @@ export const participantReferenceSchema = new Schema<IParticipantReference>(
       default: true,
     },
     notes: commonFields.notes,
-    conditions: [
-      {
-        type: String,
-        trim: true,
-        maxlength: 50,
-      },
-    ],
+    conditions: [participantConditionSchema],
     position: positionSchema,
+    level: {
+      type: Number,
+      ...DND_VALIDATION_RANGES.CHARACTER_LEVEL,
+    },
+    challengeRating: {
+      type: Number,
+      ...DND_VALIDATION_RANGES.CHALLENGE_RATING,
+    },
+    damageResistances: [dndFields.defenseEntry],
+    damageVulnerabilities: [dndFields.defenseEntry],
+    damageImmunities: [dndFields.defenseEntry],
+    conditionImmunities: [dndFields.defenseEntry],
+    constitutionSave: {
+      type: Number,
+      min: -5,
+      max: 20,
+    },
+    concentration: {
+      type: participantConcentrationSchema,
+      default: null,
+    },
+    deathSaves: {
+      type: deathSavesSchema,
+      default: null,
+    },
+    legendaryActions: {
+      type: legendaryActionsSchema,
+      default: null,
+    },
+    resources: {
+      type: [participantResourceSchema],
+      default: [],
+    },
   },
   { _id: false }
 );
@@ -112,6 +328,10 @@ export const initiativeEntrySchema = new Schema<IInitiativeEntry>(
       type: Boolean,
       default: false,
     },
+    isLairAction: {
+      type: Boolean,
+      default: false,
+    },
   },
   { _id: false }
 );
@@ -162,6 +382,47 @@ export const encounterSettingsSchema = new Schema<IEncounterSettings>(
   { _id: false }
 );
 
+/**
+ * Round-tracking effect schema for effects persisted with the combat state
+ */
+export const combatEffectSchema = new Schema<ICombatEffect>(
+  {
+    id: {
+      type: String,
+      required: true,
+      trim: true,
+    },
+    name: {
+      type: String,
+      required: true,
+      trim: true,
+      maxlength: 100,
+    },
+    participantId: {
+      type: String,
+      required: true,
+      trim: true,
+    },
+    duration: {
+      type: Number,
+      required: true,
+      min: 1,
+    },
+    startRound: {
+      type: Number,
+      default: 0,
+      min: 0,
+    },
+    description: {
+      type: String,
+      default: '',
+      trim: true,
+      maxlength: 500,
+    },
+  },
+  { _id: false }
+);
+
 /**
  * Combat state schema for active encounter tracking
  */
@@ -182,6 +443,7 @@ export const combatStateSchema = new Schema<ICombatState>(
       min: 0,
     },
     initiativeOrder: [initiativeEntrySchema],
+    effects: [combatEffectSchema],
     startedAt: {
       type: Date,
       index: true,
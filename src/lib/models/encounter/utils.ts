@@ -1,14 +1,32 @@
-import { z } from 'zod';
-import { encounterDifficultySchema } from '../../validations/encounter';
-import { IInitiativeEntry, IParticipantReference } from './interfaces';
+import { IInitiativeEntry, IParticipantCondition, IParticipantReference } from './interfaces';
 import { hitPointsUtils, validationHelpers } from '../shared/schema-utils';
+import {
+  rollDiceExpression,
+  buildD20Notation,
+  type RollMode,
+} from '../../utils/dice/dice-notation';
+import type { RandomSource } from '../../utils/dice/seeded-random';
+import {
+  isImmuneToCondition,
+  MAX_EXHAUSTION_LEVEL,
+  type ConditionName,
+} from '../../utils/conditions';
 
 /**
  * Utility functions for encounter operations
  */
 
 /**
- * Sorts initiative order by initiative value, then by dexterity
+ * Options for rolling initiative
+ */
+export interface InitiativeRollOptions {
+  mode?: RollMode;
+  random?: RandomSource;
+}
+
+/**
+ * Sorts initiative order by initiative value, then by dexterity.
+ * Lair actions lose initiative ties.
  */
 export function sortInitiativeOrder(
   entries: IInitiativeEntry[]
@@ -17,32 +35,18 @@ export function sortInitiativeOrder(
     if (a.initiative !== b.initiative) {
       return b.initiative - a.initiative;
     }
+    if (Boolean(a.isLairAction) !== Boolean(b.isLairAction)) {
+      return a.isLairAction ? 1 : -1;
+    }
     return b.dexterity - a.dexterity;
   });
 }
 
 /**
- * Generates random initiative roll (1d20)
- */
-export function rollInitiative(): number {
-  return Math.floor(Math.random() * 20) + 1;
-}
-
-/**
- * Calculates encounter difficulty based on participant ratio
+ * Generates random initiative roll (1d20, or the kept die with advantage/disadvantage)
  */
-export function calculateEncounterDifficulty(
-  playerCount: number,
-  totalParticipants: number
-): z.infer<typeof encounterDifficultySchema> {
-  const nonPlayerCount = totalParticipants - playerCount;
-  const ratio = nonPlayerCount / Math.max(playerCount, 1);
-
-  if (ratio <= 0.5) return 'trivial';
-  if (ratio <= 1) return 'easy';
-  if (ratio <= 1.5) return 'medium';
-  if (ratio <= 2) return 'hard';
-  return 'deadly';
+export function rollInitiative(options: InitiativeRollOptions = {}): number {
+  return rollDiceExpression(buildD20Notation(options.mode), { random: options.random }).total;
 }
 
 /**
@@ -120,16 +124,27 @@ export function healParticipant(
 }
 
 /**
- * Adds a condition if not already present
+ * Adds a condition unless the participant is immune to it. Exhaustion stacks
+ * up to its maximum level; other conditions are not duplicated.
  */
 export function addConditionToParticipant(
   participant: IParticipantReference,
-  condition: string
+  condition: IParticipantCondition
 ): boolean {
-  if (!participant.conditions.includes(condition)) {
+  if (isImmuneToCondition(participant.conditionImmunities, condition.name)) {
+    return false;
+  }
+
+  const existing = participant.conditions.find(entry => entry.name === condition.name);
+  if (!existing) {
     participant.conditions.push(condition);
     return true;
   }
+
+  if (condition.name === 'exhaustion' && (existing.level ?? 1) < MAX_EXHAUSTION_LEVEL) {
+    existing.level = Math.min(MAX_EXHAUSTION_LEVEL, (existing.level ?? 1) + (condition.level ?? 1));
+    return true;
+  }
   return false;
 }
 
@@ -138,9 +153,9 @@ export function addConditionToParticipant(
  */
 export function removeConditionFromParticipant(
   participant: IParticipantReference,
-  condition: string
+  condition: ConditionName
 ): boolean {
-  const index = participant.conditions.indexOf(condition);
+  const index = participant.conditions.findIndex(entry => entry.name === condition);
   if (index !== -1) {
     participant.conditions.splice(index, 1);
     return true;
@@ -186,6 +201,7 @@ export function createDefaultCombatState() {
     currentRound: 0,
     currentTurn: 0,
     initiativeOrder: [],
+    effects: [],
     totalDuration: 0,
   };
 }
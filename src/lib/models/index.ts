@@ -6,9 +6,30 @@ import User from './User';
 import { Character } from './Character';
 import { Party } from './Party';
 import { Encounter } from './encounter';
+import { CombatEvent } from './CombatEvent';
+import { CharacterRevision } from './CharacterRevision';
+import { EncounterShare } from './EncounterShare';
+import { Collaborator } from './Collaborator';
+import { PartyJoinRequest } from './PartyJoinRequest';
+import { PartyInvite } from './PartyInvite';
+import { Campaign } from './Campaign';
+import { SystemNPCTemplate } from './SystemNPCTemplate';
 
 // Export models
-export { User, Character, Party, Encounter };
+export {
+  User,
+  Character,
+  Party,
+  Encounter,
+  CombatEvent,
+  CharacterRevision,
+  EncounterShare,
+  Collaborator,
+  PartyJoinRequest,
+  PartyInvite,
+  Campaign,
+  SystemNPCTemplate,
+};
 
 // Export User interfaces
 export type {
@@ -24,6 +45,14 @@ export type { ICharacter, CharacterModel, CharacterSummary } from './Character';
 
 // Export Party interfaces
 export type { IParty, PartyModel } from './Party';
+export type { IPartyJoinRequest, PartyJoinRequestModel } from './PartyJoinRequest';
+export type { IPartyInvite, PartyInviteModel } from './PartyInvite';
+
+// Export Campaign interfaces
+export type { ICampaign, ICampaignSession, CampaignModel } from './Campaign';
+
+// Export SystemNPCTemplate interfaces
+export type { ISystemNPCTemplate, SystemNPCTemplateModel } from './SystemNPCTemplate';
 
 // Export Encounter interfaces
 export type {
@@ -38,5 +67,27 @@ export type {
   IPosition,
 } from './encounter';
 
+// Export CombatEvent interfaces
+export type {
+  ICombatEvent,
+  CombatEventModel,
+  CombatEventKind,
+  CombatHistoryQuery,
+} from './CombatEvent';
+
+// Export CharacterRevision interfaces
+export type {
+  ICharacterRevision,
+  CharacterRevisionModel,
+  CharacterFieldChange,
+  CharacterRevisionQuery,
+} from './CharacterRevision';
+
+// Export EncounterShare interfaces
+export type { IEncounterShare, EncounterShareModel, ShareScope } from './EncounterShare';
+
+// Export Collaborator interfaces
+export type { ICollaborator, CollaboratorModel } from './Collaborator';
+
 // Export subscription limits
 export { SUBSCRIPTION_LIMITS } from './User';
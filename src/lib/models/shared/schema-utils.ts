@@ -65,6 +65,7 @@ export const DND_VALIDATION_RANGES = {
   ARMOR_CLASS: { min: 1, max: 30 },
   INITIATIVE: { min: -10, max: 30 },
   CHARACTER_LEVEL: { min: 1, max: 20 },
+  CHALLENGE_RATING: { min: 0, max: 30 },
   HIT_DIE: { min: 4, max: 12 },
   SPELL_LEVEL: { min: 0, max: 9 },
   HIT_POINTS: { min: 0 },
@@ -316,6 +317,11 @@ export const dndFields = {
     min: 2,
     max: 6,
   },
+  defenseEntry: {
+    type: String,
+    trim: true,
+    maxlength: 100,
+  },
 };
 
 /**
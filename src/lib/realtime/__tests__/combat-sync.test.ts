@@ -0,0 +1,128 @@
+import {
+  publishCombatUpdate,
+  subscribeToCombatUpdates,
+  getSubscriberCount,
+  COMBAT_SYNC_POLL_INTERVAL_MS,
+} from '../combat-sync';
+import { Encounter } from '@/lib/models/encounter';
+import { IEncounter } from '@/lib/models/encounter/interfaces';
+import {
+  createTestEncounter,
+  makeEncounterActive,
+} from '@/lib/models/encounter/__tests__/combat-test-helpers';
+
+jest.mock('@/lib/models/encounter', () => ({
+  Encounter: { findById: jest.fn() },
+}));
+
+// The stored encounter as another instance left it
+const mockStoredEncounter = (stored: IEncounter) => {
+  (Encounter.findById as jest.Mock).mockImplementation(() =>
+    Object.assign(Promise.resolve(stored), {
+      select: () => ({ lean: () => Promise.resolve({ updatedAt: stored.updatedAt }) }),
+    })
+  );
+};
+
+describe('combat-sync', () => {
+  let encounter: IEncounter;
+  let listener: jest.Mock;
+  let unsubscribe: () => void;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    encounter = createTestEncounter();
+    makeEncounterActive(encounter);
+    encounter.settings.allowPlayerVisibility = true;
+    listener = jest.fn();
+    unsubscribe = subscribeToCombatUpdates(encounter._id.toString(), listener);
+  });
+
+  afterEach(() => {
+    unsubscribe();
+  });
+
+  it('pushes the player view to subscribers', () => {
+    publishCombatUpdate(encounter);
+
+    expect(listener).toHaveBeenCalledWith(
+      expect.objectContaining({ currentRound: 2, encounterId: encounter._id.toString() })
+    );
+  });
+
+  it('skips updates that do not change the player view', () => {
+    publishCombatUpdate(encounter);
+    encounter.participants[1].notes = 'Secret DM note';
+    publishCombatUpdate(encounter);
+
+    expect(listener).toHaveBeenCalledTimes(1);
+  });
+
+  it('pushes turn changes', () => {
+    publishCombatUpdate(encounter);
+    encounter.combatState.currentTurn = 1;
+    publishCombatUpdate(encounter);
+
+    expect(listener).toHaveBeenCalledTimes(2);
+  });
+
+  it('does not push when player visibility is disabled', () => {
+    encounter.settings.allowPlayerVisibility = false;
+
+    publishCombatUpdate(encounter);
+
+    expect(listener).not.toHaveBeenCalled();
+  });
+
+  it('removes the subscription on unsubscribe', () => {
+    unsubscribe();
+
+    expect(getSubscriberCount(encounter._id.toString())).toBe(0);
+  });
+
+  describe('changes saved by other instances', () => {
+    beforeEach(() => {
+      unsubscribe();
+      jest.useFakeTimers();
+      encounter.updatedAt = new Date('2030-01-01T00:00:00Z');
+      unsubscribe = subscribeToCombatUpdates(encounter._id.toString(), listener, encounter.updatedAt);
+    });
+
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    it('pushes encounters saved elsewhere on the next poll', async () => {
+      mockStoredEncounter({
+        ...encounter,
+        updatedAt: new Date('2030-01-01T00:00:05Z'),
+        combatState: { ...encounter.combatState, currentTurn: 1 },
+      } as IEncounter);
+
+      await jest.advanceTimersByTimeAsync(COMBAT_SYNC_POLL_INTERVAL_MS);
+
+      expect(listener).toHaveBeenCalledTimes(1);
+      expect(listener).toHaveBeenCalledWith(
+        expect.objectContaining({ activeParticipantId: encounter.combatState.initiativeOrder[1].participantId.toString() })
+      );
+    });
+
+    it('does not reload encounters that have not changed', async () => {
+      mockStoredEncounter(encounter);
+
+      await jest.advanceTimersByTimeAsync(COMBAT_SYNC_POLL_INTERVAL_MS * 2);
+
+      expect(listener).not.toHaveBeenCalled();
+      expect(Encounter.findById).toHaveBeenCalledTimes(2);
+    });
+
+    it('stops polling when the last subscriber leaves', async () => {
+      mockStoredEncounter(encounter);
+      unsubscribe();
+
+      await jest.advanceTimersByTimeAsync(COMBAT_SYNC_POLL_INTERVAL_MS * 2);
+
+      expect(Encounter.findById).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,99 @@
+import { Types } from 'mongoose';
+import { buildPlayerCombatView, getHpBracket } from '../player-view';
+import { IEncounter } from '@/lib/models/encounter/interfaces';
+import {
+  createTestEncounter,
+  makeEncounterActive,
+  PARTICIPANT_IDS,
+} from '@/lib/models/encounter/__tests__/combat-test-helpers';
+
+const HIDDEN_ID = new Types.ObjectId('507f1f77bcf86cd799439013');
+
+const addHiddenParticipant = (encounter: IEncounter) => {
+  encounter.participants.push({
+    ...encounter.participants[1],
+    characterId: HIDDEN_ID,
+    name: 'Lurking Assassin',
+    isVisible: false,
+  });
+  encounter.combatState.initiativeOrder.unshift({
+    participantId: HIDDEN_ID,
+    initiative: 25,
+    dexterity: 18,
+    isActive: false,
+    hasActed: false,
+  });
+};
+
+describe('player-view', () => {
+  let encounter: IEncounter;
+
+  beforeEach(() => {
+    encounter = createTestEncounter();
+    makeEncounterActive(encounter);
+  });
+
+  describe('getHpBracket', () => {
+    it.each([
+      [45, 45, 'unharmed'],
+      [30, 45, 'injured'],
+      [20, 45, 'bloodied'],
+      [10, 45, 'critical'],
+      [0, 45, 'down'],
+    ])('maps %i/%i HP to %s', (current, max, bracket) => {
+      expect(getHpBracket(current, max)).toBe(bracket);
+    });
+  });
+
+  describe('buildPlayerCombatView', () => {
+    it('orders participants by initiative and marks the active one', () => {
+      const view = buildPlayerCombatView(encounter);
+
+      expect(view.participants.map(p => p.name)).toEqual(['Test Character 1', 'Test Character 2']);
+      expect(view.activeParticipantId).toBe(PARTICIPANT_IDS.FIRST.toString());
+      expect(view.currentRound).toBe(2);
+    });
+
+    it('never includes exact NPC hit points', () => {
+      encounter.participants[1].currentHitPoints = 5;
+
+      const npc = buildPlayerCombatView(encounter).participants[1];
+
+      expect(npc.hpBracket).toBe('critical');
+      expect(npc).not.toHaveProperty('currentHitPoints');
+      expect(npc).not.toHaveProperty('maxHitPoints');
+      expect(JSON.stringify(npc)).not.toContain('"5"');
+    });
+
+    it('includes exact hit points for player characters', () => {
+      const pc = buildPlayerCombatView(encounter).participants[0];
+
+      expect(pc.currentHitPoints).toBe(45);
+      expect(pc.maxHitPoints).toBe(45);
+    });
+
+    it('leaves out hidden participants entirely', () => {
+      addHiddenParticipant(encounter);
+      encounter.combatState.currentTurn = 0;
+
+      const view = buildPlayerCombatView(encounter);
+
+      expect(view.participants.map(p => p.id)).not.toContain(HIDDEN_ID.toString());
+      expect(JSON.stringify(view)).not.toContain('Lurking Assassin');
+      expect(view.activeParticipantId).toBeNull();
+    });
+
+    it('reports conditions and paused state', () => {
+      encounter.participants[0].conditions = [
+        { name: 'poisoned', expiry: 'indefinite' },
+        { name: 'exhaustion', level: 2, expiry: 'indefinite' },
+      ];
+      encounter.combatState.pausedAt = new Date();
+
+      const view = buildPlayerCombatView(encounter);
+
+      expect(view.isPaused).toBe(true);
+      expect(view.participants[0].conditions).toEqual(['Poisoned', 'Exhaustion 2']);
+    });
+  });
+});
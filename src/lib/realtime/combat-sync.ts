@@ -0,0 +1,142 @@
+import { EventEmitter } from 'events';
+import { Encounter } from '@/lib/models/encounter';
+import type { IEncounter } from '@/lib/models/encounter/interfaces';
+import { buildPlayerCombatView, type PlayerCombatView } from './player-view';
+
+/**
+ * Listener for player view updates of a single encounter
+ */
+export type PlayerViewListener = (_view: PlayerCombatView) => void;
+
+/**
+ * How often each instance checks the database for encounter changes saved
+ * by other instances
+ */
+export const COMBAT_SYNC_POLL_INTERVAL_MS = 2000;
+
+// Subscriptions live in process memory. Combat routes handled by this instance
+// publish straight to them; changes saved by other instances are picked up by
+// polling the encounter while anyone here is subscribed.
+const emitter = new EventEmitter();
+emitter.setMaxListeners(0);
+
+// Last view sent per encounter, used to skip updates players cannot see
+const lastPublished = new Map<string, string>();
+
+interface EncounterWatcher {
+  timer: ReturnType<typeof setInterval>;
+  updatedAt?: number;
+  checking: boolean;
+}
+
+// One database poll per encounter, shared by all of its subscribers
+const watchers = new Map<string, EncounterWatcher>();
+
+/**
+ * Publishes the encounter when it was saved since the last check
+ */
+async function checkForChanges(encounterId: string, watcher: EncounterWatcher): Promise<void> {
+  if (watcher.checking) return;
+
+  watcher.checking = true;
+  try {
+    const latest = await Encounter.findById(encounterId).select('updatedAt').lean();
+    const updatedAt = latest?.updatedAt ? new Date(latest.updatedAt).getTime() : undefined;
+    if (updatedAt === undefined || updatedAt === watcher.updatedAt) return;
+
+    watcher.updatedAt = updatedAt;
+    const encounter = await Encounter.findById(encounterId);
+    if (encounter) {
+      publishCombatUpdate(encounter);
+    }
+  } catch (error) {
+    console.error('Combat sync poll failed:', error);
+  } finally {
+    watcher.checking = false;
+  }
+}
+
+/**
+ * Starts polling an encounter for changes saved by other instances
+ */
+function startWatching(encounterId: string, knownUpdatedAt?: Date): void {
+  if (watchers.has(encounterId)) return;
+
+  const watcher: EncounterWatcher = {
+    timer: setInterval(() => checkForChanges(encounterId, watcher), COMBAT_SYNC_POLL_INTERVAL_MS),
+    updatedAt: knownUpdatedAt ? new Date(knownUpdatedAt).getTime() : undefined,
+    checking: false,
+  };
+  watchers.set(encounterId, watcher);
+}
+
+function stopWatching(encounterId: string): void {
+  const watcher = watchers.get(encounterId);
+  if (!watcher) return;
+
+  clearInterval(watcher.timer);
+  watchers.delete(encounterId);
+}
+
+/**
+ * Subscribes to player view updates for an encounter
+ *
+ * Pass the `updatedAt` of the encounter the subscriber already has so the
+ * first poll does not resend it. Returns a function that removes the
+ * subscription.
+ */
+export function subscribeToCombatUpdates(
+  encounterId: string,
+  listener: PlayerViewListener,
+  knownUpdatedAt?: Date
+): () => void {
+  emitter.on(encounterId, listener);
+  startWatching(encounterId, knownUpdatedAt);
+
+  return () => {
+    emitter.off(encounterId, listener);
+    if (emitter.listenerCount(encounterId) === 0) {
+      lastPublished.delete(encounterId);
+      stopWatching(encounterId);
+    }
+  };
+}
+
+/**
+ * Pushes the player view of an encounter to its subscribers
+ *
+ * Nothing is sent when player visibility is disabled, nobody is listening,
+ * or the change is not visible to players (e.g. a hidden NPC took damage).
+ */
+export function publishCombatUpdate(encounter: IEncounter): void {
+  if (!encounter.settings?.allowPlayerVisibility) {
+    return;
+  }
+
+  const encounterId = encounter._id.toString();
+  if (emitter.listenerCount(encounterId) === 0) {
+    return;
+  }
+
+  // A save made here does not need to be re-published by the poll
+  const watcher = watchers.get(encounterId);
+  if (watcher && encounter.updatedAt) {
+    watcher.updatedAt = new Date(encounter.updatedAt).getTime();
+  }
+
+  const view = buildPlayerCombatView(encounter);
+  const serialized = JSON.stringify(view);
+  if (lastPublished.get(encounterId) === serialized) {
+    return;
+  }
+
+  lastPublished.set(encounterId, serialized);
+  emitter.emit(encounterId, view);
+}
+
+/**
+ * Number of open player subscriptions for an encounter
+ */
+export function getSubscriberCount(encounterId: string): number {
+  return emitter.listenerCount(encounterId);
+}
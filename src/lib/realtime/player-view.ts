@@ -0,0 +1,129 @@
+import type {
+  IEncounter,
+  IParticipantReference,
+  IInitiativeEntry,
+} from '@/lib/models/encounter/interfaces';
+import { formatConditionName } from '@/lib/utils/conditions';
+
+/**
+ * Coarse health description shown to players instead of exact NPC hit points
+ */
+export type HpBracket = 'unharmed' | 'injured' | 'bloodied' | 'critical' | 'down';
+
+/**
+ * A participant as seen by players
+ *
+ * Exact hit points are only included for player characters.
+ */
+export interface PlayerViewParticipant {
+  id: string;
+  name: string;
+  isPlayer: boolean;
+  initiative?: number;
+  hpBracket: HpBracket;
+  currentHitPoints?: number;
+  maxHitPoints?: number;
+  temporaryHitPoints?: number;
+  // Condition labels such as "Poisoned" or "Exhaustion 2"
+  conditions: string[];
+  isDelayed: boolean;
+  hasReadyAction: boolean;
+}
+
+/**
+ * Read-only combat state pushed to players
+ */
+export interface PlayerCombatView {
+  encounterId: string;
+  name: string;
+  status: IEncounter['status'];
+  isActive: boolean;
+  isPaused: boolean;
+  currentRound: number;
+  activeParticipantId: string | null;
+  participants: PlayerViewParticipant[];
+}
+
+/**
+ * Maps hit points to a health bracket
+ */
+export function getHpBracket(currentHitPoints: number, maxHitPoints: number): HpBracket {
+  if (currentHitPoints <= 0) return 'down';
+  if (maxHitPoints <= 0 || currentHitPoints >= maxHitPoints) return 'unharmed';
+
+  const ratio = currentHitPoints / maxHitPoints;
+  if (ratio > 0.5) return 'injured';
+  if (ratio > 0.25) return 'bloodied';
+  return 'critical';
+}
+
+/**
+ * Builds the player-facing view of one participant
+ */
+function toPlayerViewParticipant(
+  participant: IParticipantReference,
+  entry?: IInitiativeEntry
+): PlayerViewParticipant {
+  return {
+    id: participant.characterId.toString(),
+    name: participant.name,
+    isPlayer: participant.isPlayer,
+    initiative: entry?.initiative,
+    hpBracket: getHpBracket(participant.currentHitPoints, participant.maxHitPoints),
+    ...(participant.isPlayer && {
+      currentHitPoints: participant.currentHitPoints,
+      maxHitPoints: participant.maxHitPoints,
+      temporaryHitPoints: participant.temporaryHitPoints,
+    }),
+    conditions: (participant.conditions ?? []).map(formatConditionName),
+    isDelayed: Boolean(entry?.isDelayed),
+    hasReadyAction: Boolean(entry?.readyAction),
+  };
+}
+
+/**
+ * Orders visible participants by initiative, keeping participants without
+ * an initiative entry at the end in encounter order
+ */
+function orderVisibleParticipants(encounter: IEncounter): PlayerViewParticipant[] {
+  const visible = encounter.participants.filter(participant => participant.isVisible);
+  const byId = new Map(visible.map(participant => [participant.characterId.toString(), participant]));
+  const ordered: PlayerViewParticipant[] = [];
+
+  encounter.combatState.initiativeOrder.forEach(entry => {
+    const id = entry.participantId.toString();
+    const participant = byId.get(id);
+    if (participant) {
+      ordered.push(toPlayerViewParticipant(participant, entry));
+      byId.delete(id);
+    }
+  });
+
+  byId.forEach(participant => ordered.push(toPlayerViewParticipant(participant)));
+  return ordered;
+}
+
+/**
+ * Builds the read-only combat view sent to players
+ *
+ * Hidden participants are left out entirely, including when it is their turn.
+ */
+export function buildPlayerCombatView(encounter: IEncounter): PlayerCombatView {
+  const { combatState } = encounter;
+  const participants = orderVisibleParticipants(encounter);
+  const activeEntry = combatState.isActive
+    ? combatState.initiativeOrder[combatState.currentTurn]
+    : undefined;
+  const activeId = activeEntry?.participantId.toString();
+
+  return {
+    encounterId: encounter._id.toString(),
+    name: encounter.name,
+    status: encounter.status,
+    isActive: combatState.isActive,
+    isPaused: Boolean(combatState.pausedAt),
+    currentRound: combatState.currentRound,
+    activeParticipantId: participants.some(p => p.id === activeId) ? activeId! : null,
+    participants,
+  };
+}
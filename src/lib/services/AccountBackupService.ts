@@ -0,0 +1,102 @@
+/**
+ * Account Backup Service
+ *
+ * Backs up and restores everything a user owns: characters, parties,
+ * encounters, custom NPC templates and preferences, as one JSON archive.
+ */
+
+import { Types } from 'mongoose';
+import type { ServiceResult } from './UserServiceErrors';
+import { buildAccountArchive } from './account-backup/archiveBuilder';
+import { restoreAccountArchive } from './account-backup/restoreProcessor';
+import {
+  ACCOUNT_BACKUP_VERSION,
+  accountBackupSchema,
+  type AccountBackupArchive,
+  type RestoreOptions,
+  type RestoreReport,
+} from './account-backup/types';
+
+export type { AccountBackupArchive, RestoreOptions, RestoreReport };
+export { RESTORE_MODES, type RestoreMode } from './account-backup/types';
+
+function errorResult(message: string, code: string, statusCode: number, error?: unknown): ServiceResult<never> {
+  if (error) {
+    console.error(`${message}:`, error);
+  }
+  return { success: false, error: { message, code, statusCode } };
+}
+
+function isNewerVersion(version: string): boolean {
+  const parts = version.split('.').map(Number);
+  const current = ACCOUNT_BACKUP_VERSION.split('.').map(Number);
+  const index = current.findIndex((part, i) => parts[i] !== part);
+  return index !== -1 && parts[index] > current[index];
+}
+
+export class AccountBackupService {
+
+  /**
+   * Create a backup archive of the user's account
+   */
+  static async createBackup(userId: string): Promise<ServiceResult<AccountBackupArchive>> {
+    if (!Types.ObjectId.isValid(userId)) {
+      return errorResult('Invalid user ID', 'INVALID_USER_ID', 400);
+    }
+
+    try {
+      return { success: true, data: await buildAccountArchive(userId) };
+    } catch (error) {
+      return errorResult('Failed to create account backup', 'ACCOUNT_BACKUP_FAILED', 500, error);
+    }
+  }
+
+  /**
+   * Restore a backup archive into the user's account. With `dryRun` nothing
+   * is written and the report describes what the restore would do.
+   */
+  static async restoreBackup(
+    userId: string,
+    data: string,
+    options: RestoreOptions
+  ): Promise<ServiceResult<RestoreReport>> {
+    if (!Types.ObjectId.isValid(userId)) {
+      return errorResult('Invalid user ID', 'INVALID_USER_ID', 400);
+    }
+
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(data);
+    } catch {
+      return errorResult('Backup is not valid JSON', 'INVALID_BACKUP_FORMAT', 400);
+    }
+
+    const validationResult = accountBackupSchema.safeParse(parsed);
+    if (!validationResult.success) {
+      return {
+        success: false,
+        error: {
+          message: 'Invalid account backup format',
+          details: validationResult.error.errors.map(e => ({ field: e.path.join('.'), message: e.message })),
+          code: 'INVALID_BACKUP_FORMAT',
+          statusCode: 400,
+        },
+      };
+    }
+
+    const archive = validationResult.data as AccountBackupArchive;
+    if (isNewerVersion(archive.metadata.version)) {
+      return errorResult(
+        `Backup version ${archive.metadata.version} is newer than this app supports (${ACCOUNT_BACKUP_VERSION})`,
+        'UNSUPPORTED_BACKUP_VERSION',
+        400
+      );
+    }
+
+    try {
+      return { success: true, data: await restoreAccountArchive(archive, userId, options) };
+    } catch (error) {
+      return errorResult('Failed to restore account backup', 'ACCOUNT_RESTORE_FAILED', 500, error);
+    }
+  }
+}
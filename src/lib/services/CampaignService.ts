@@ -0,0 +1,535 @@
+import { Types } from 'mongoose';
+import { Campaign, type ICampaign, type ICampaignSession } from '@/lib/models/Campaign';
+import { Party } from '@/lib/models/Party';
+import { Character } from '@/lib/models/Character';
+import { Encounter } from '@/lib/models/encounter';
+import type { PaginationInfo } from '@/lib/validations/party';
+import type {
+  CampaignCreate,
+  CampaignLoot,
+  CampaignQuery,
+  CampaignSession,
+  CampaignSessionUpdate,
+  CampaignStatus,
+  CampaignUpdate,
+} from '@/lib/validations/campaign';
+import type { ServiceResult } from './UserServiceErrors';
+import {
+  CampaignAccessDeniedError,
+  CampaignNotFoundError,
+  CampaignSessionNotFoundError,
+  CampaignValidationError,
+  handleCampaignServiceError,
+} from './CampaignServiceErrors';
+
+/**
+ * A campaign as shown in the campaign list
+ */
+export interface CampaignSummary {
+  id: string;
+  ownerId: string;
+  name: string;
+  description: string;
+  status: CampaignStatus;
+  tags: string[];
+  partyIds: string[];
+  encounterPlan: string[];
+  sessionCount: number;
+  totalXpAwarded: number;
+  lastSessionAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface CampaignPartyMember {
+  characterId: string;
+  name: string;
+  level: number;
+}
+
+export interface CampaignParty {
+  id: string;
+  name: string;
+  members: CampaignPartyMember[];
+}
+
+/**
+ * An encounter in the plan with how many sessions have run it
+ */
+export interface CampaignPlannedEncounter {
+  id: string;
+  name: string;
+  difficulty?: string;
+  status: string;
+  timesRun: number;
+}
+
+export interface CampaignSessionSummary {
+  id: string;
+  date: Date;
+  title?: string;
+  attendees: { characterId: string; name: string }[];
+  encounters: { id: string; name: string }[];
+  xpAwarded: number;
+  loot: CampaignLoot[];
+  notes: string;
+}
+
+export interface CampaignOption {
+  id: string;
+  name: string;
+}
+
+/**
+ * Everything the campaign page shows, including the parties and encounters
+ * that could still be added
+ */
+export interface CampaignDetail extends CampaignSummary {
+  parties: CampaignParty[];
+  encounters: CampaignPlannedEncounter[];
+  sessions: CampaignSessionSummary[];
+  availableParties: CampaignOption[];
+  availableEncounters: CampaignOption[];
+}
+
+/**
+ * The parties and encounters that belong to a campaign, used to filter
+ * encounter and character lists
+ */
+export interface CampaignScope {
+  partyIds: string[];
+  encounterIds: string[];
+}
+
+type NamedDocument = { _id: Types.ObjectId; name: string };
+type CharacterDocument = NamedDocument & {
+  partyId?: Types.ObjectId;
+  isDeleted?: boolean;
+  classes?: { level: number }[];
+};
+type EncounterDocument = NamedDocument & { difficulty?: string; status: string };
+
+const toIds = (ids: Types.ObjectId[] = []): string[] => ids.map(id => id.toString());
+
+const toObjectIds = (ids: string[]): Types.ObjectId[] => ids.map(id => new Types.ObjectId(id));
+
+// Resources the user can link to a campaign: their own and those shared with them
+const accessibleTo = (userId: string) => {
+  const id = new Types.ObjectId(userId);
+  return [{ ownerId: id }, { sharedWith: id }];
+};
+
+const byName = (a: NamedDocument, b: NamedDocument) => a.name.localeCompare(b.name);
+
+/**
+ * Campaign Service
+ *
+ * Campaigns belong to the DM who created them and group the parties playing,
+ * an ordered encounter plan and a log of the sessions run.
+ */
+export class CampaignService {
+
+  /**
+   * List the user's campaigns
+   */
+  static async listCampaigns(
+    userId: string,
+    query: CampaignQuery
+  ): Promise<ServiceResult<{ campaigns: CampaignSummary[]; pagination: PaginationInfo }>> {
+    try {
+      const filter: Record<string, unknown> = { ownerId: new Types.ObjectId(userId) };
+      if (query.status) {
+        filter.status = query.status;
+      }
+      if (query.search) {
+        filter.name = { $regex: query.search.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'), $options: 'i' };
+      }
+
+      const [campaigns, totalItems] = await Promise.all([
+        Campaign.find(filter)
+          .sort({ [query.sortBy]: query.sortOrder === 'asc' ? 1 : -1 })
+          .skip((query.page - 1) * query.limit)
+          .limit(query.limit),
+        Campaign.countDocuments(filter),
+      ]);
+
+      return {
+        success: true,
+        data: {
+          campaigns: campaigns.map(campaign => this.toSummary(campaign)),
+          pagination: {
+            currentPage: query.page,
+            totalPages: Math.ceil(totalItems / query.limit),
+            totalItems,
+            itemsPerPage: query.limit,
+          },
+        },
+      };
+    } catch (error) {
+      return handleCampaignServiceError(error, 'Failed to list campaigns', 'CAMPAIGN_LIST_FAILED');
+    }
+  }
+
+  /**
+   * Create a campaign
+   */
+  static async createCampaign(userId: string, data: CampaignCreate): Promise<ServiceResult<CampaignSummary>> {
+    try {
+      await this.assertAccessible('parties', data.partyIds, userId);
+      await this.assertAccessible('encounters', data.encounterPlan, userId);
+
+      const campaign = await Campaign.create({
+        ...data,
+        ownerId: new Types.ObjectId(userId),
+        partyIds: toObjectIds(data.partyIds),
+        encounterPlan: toObjectIds(data.encounterPlan),
+      });
+
+      return { success: true, data: this.toSummary(campaign) };
+    } catch (error) {
+      return handleCampaignServiceError(error, 'Failed to create campaign', 'CAMPAIGN_CREATE_FAILED');
+    }
+  }
+
+  /**
+   * Get a campaign with its parties, encounter plan and session log
+   */
+  static async getCampaign(campaignId: string, userId: string): Promise<ServiceResult<CampaignDetail>> {
+    try {
+      const campaign = await this.loadCampaign(campaignId, userId);
+      return { success: true, data: await this.buildDetail(campaign, userId) };
+    } catch (error) {
+      return handleCampaignServiceError(error, 'Failed to get campaign', 'CAMPAIGN_GET_FAILED');
+    }
+  }
+
+  /**
+   * Update a campaign's details, parties or encounter plan
+   */
+  static async updateCampaign(
+    campaignId: string,
+    userId: string,
+    data: CampaignUpdate
+  ): Promise<ServiceResult<CampaignDetail>> {
+    try {
+      const campaign = await this.loadCampaign(campaignId, userId);
+      const { partyIds, encounterPlan, ...details } = data;
+
+      if (partyIds) {
+        await this.assertAccessible('parties', partyIds, userId, toIds(campaign.partyIds));
+        campaign.partyIds = toObjectIds(partyIds);
+      }
+      if (encounterPlan) {
+        await this.assertAccessible('encounters', encounterPlan, userId, this.referencedEncounters(campaign));
+        campaign.encounterPlan = toObjectIds(encounterPlan);
+      }
+      campaign.set(details);
+      await campaign.save();
+
+      return { success: true, data: await this.buildDetail(campaign, userId) };
+    } catch (error) {
+      return handleCampaignServiceError(error, 'Failed to update campaign', 'CAMPAIGN_UPDATE_FAILED');
+    }
+  }
+
+  /**
+   * Delete a campaign; its parties and encounters are left untouched
+   */
+  static async deleteCampaign(campaignId: string, userId: string): Promise<ServiceResult<void>> {
+    try {
+      const campaign = await this.loadCampaign(campaignId, userId);
+      await Campaign.deleteOne({ _id: campaign._id });
+      return { success: true };
+    } catch (error) {
+      return handleCampaignServiceError(error, 'Failed to delete campaign', 'CAMPAIGN_DELETE_FAILED');
+    }
+  }
+
+  /**
+   * Add a session to the campaign's log
+   */
+  static async addSession(
+    campaignId: string,
+    userId: string,
+    session: CampaignSession
+  ): Promise<ServiceResult<CampaignDetail>> {
+    try {
+      const campaign = await this.loadCampaign(campaignId, userId);
+      await this.validateSession(campaign, session, userId);
+
+      campaign.sessions.push({
+        ...session,
+        attendees: toObjectIds(session.attendees),
+        encounterIds: toObjectIds(session.encounterIds),
+      });
+      await campaign.save();
+
+      return { success: true, data: await this.buildDetail(campaign, userId) };
+    } catch (error) {
+      return handleCampaignServiceError(error, 'Failed to add session', 'CAMPAIGN_SESSION_ADD_FAILED');
+    }
+  }
+
+  /**
+   * Update a logged session
+   */
+  static async updateSession(
+    campaignId: string,
+    sessionId: string,
+    userId: string,
+    update: CampaignSessionUpdate
+  ): Promise<ServiceResult<CampaignDetail>> {
+    try {
+      const campaign = await this.loadCampaign(campaignId, userId);
+      const session = this.findSession(campaign, sessionId);
+      await this.validateSession(campaign, update, userId, session);
+
+      const { attendees, encounterIds, ...details } = update;
+      session.set({
+        ...details,
+        ...(attendees && { attendees: toObjectIds(attendees) }),
+        ...(encounterIds && { encounterIds: toObjectIds(encounterIds) }),
+      });
+      await campaign.save();
+
+      return { success: true, data: await this.buildDetail(campaign, userId) };
+    } catch (error) {
+      return handleCampaignServiceError(error, 'Failed to update session', 'CAMPAIGN_SESSION_UPDATE_FAILED');
+    }
+  }
+
+  /**
+   * Remove a session from the log
+   */
+  static async deleteSession(
+    campaignId: string,
+    sessionId: string,
+    userId: string
+  ): Promise<ServiceResult<CampaignDetail>> {
+    try {
+      const campaign = await this.loadCampaign(campaignId, userId);
+      this.findSession(campaign, sessionId).deleteOne();
+      await campaign.save();
+
+      return { success: true, data: await this.buildDetail(campaign, userId) };
+    } catch (error) {
+      return handleCampaignServiceError(error, 'Failed to delete session', 'CAMPAIGN_SESSION_DELETE_FAILED');
+    }
+  }
+
+  /**
+   * Get the parties and encounters that belong to a campaign (owner only)
+   *
+   * Encounters belong to a campaign when they are in its plan, were run in
+   * one of its sessions or are linked to one of its parties.
+   */
+  static async getCampaignScope(campaignId: string, userId: string): Promise<ServiceResult<CampaignScope>> {
+    try {
+      const campaign = await this.loadCampaign(campaignId, userId);
+      const partyIds = toIds(campaign.partyIds);
+      const partyEncounters = partyIds.length > 0
+        ? await Encounter.find({ partyId: { $in: campaign.partyIds } }).select('_id').lean<{ _id: Types.ObjectId }[]>()
+        : [];
+
+      return {
+        success: true,
+        data: {
+          partyIds,
+          encounterIds: [
+            ...new Set([
+              ...this.referencedEncounters(campaign),
+              ...partyEncounters.map(encounter => encounter._id.toString()),
+            ]),
+          ],
+        },
+      };
+    } catch (error) {
+      return handleCampaignServiceError(error, 'Failed to get campaign scope', 'CAMPAIGN_SCOPE_FAILED');
+    }
+  }
+
+  private static async findCampaign(campaignId: string): Promise<ICampaign> {
+    if (!Types.ObjectId.isValid(campaignId)) {
+      throw new CampaignValidationError('campaign ID', 'must be a valid ObjectId');
+    }
+
+    const campaign = await Campaign.findById(campaignId);
+    if (!campaign) {
+      throw new CampaignNotFoundError(campaignId);
+    }
+    return campaign;
+  }
+
+  private static async loadCampaign(campaignId: string, userId: string): Promise<ICampaign> {
+    const campaign = await this.findCampaign(campaignId);
+    if (campaign.ownerId.toString() !== userId) {
+      throw new CampaignAccessDeniedError();
+    }
+    return campaign;
+  }
+
+  private static findSession(campaign: ICampaign, sessionId: string) {
+    const session = Types.ObjectId.isValid(sessionId) ? campaign.sessions.id(sessionId) : null;
+    if (!session) {
+      throw new CampaignSessionNotFoundError(sessionId);
+    }
+    return session;
+  }
+
+  // Encounters the campaign already points at, in its plan or its sessions
+  private static referencedEncounters(campaign: ICampaign): string[] {
+    return [
+      ...toIds(campaign.encounterPlan),
+      ...campaign.sessions.flatMap(session => toIds(session.encounterIds)),
+    ];
+  }
+
+  /**
+   * Check that the user can see every newly linked party or encounter;
+   * ids the campaign already holds are not checked again
+   */
+  private static async assertAccessible(
+    kind: 'parties' | 'encounters',
+    ids: string[],
+    userId: string,
+    known: string[] = []
+  ): Promise<void> {
+    const added = [...new Set(ids.filter(id => !known.includes(id)))];
+    if (added.length === 0) {
+      return;
+    }
+
+    const query = { _id: { $in: toObjectIds(added) }, $or: accessibleTo(userId) };
+    const found = kind === 'parties'
+      ? await Party.countDocuments(query)
+      : await Encounter.countDocuments(query);
+    if (found !== added.length) {
+      throw new CampaignValidationError(kind, `some ${kind} were not found or are not shared with you`);
+    }
+  }
+
+  /**
+   * Attendees must be members of the campaign's parties and the encounters
+   * run must be ones the user can see
+   */
+  private static async validateSession(
+    campaign: ICampaign,
+    session: CampaignSessionUpdate,
+    userId: string,
+    existing?: ICampaignSession
+  ): Promise<void> {
+    const knownAttendees = toIds(existing?.attendees);
+    const newAttendees = [...new Set((session.attendees ?? []).filter(id => !knownAttendees.includes(id)))];
+
+    if (newAttendees.length > 0) {
+      const members = await Character.countDocuments({
+        _id: { $in: toObjectIds(newAttendees) },
+        partyId: { $in: campaign.partyIds },
+        isDeleted: { $ne: true },
+      });
+      if (members !== newAttendees.length) {
+        throw new CampaignValidationError('attendees', "every attendee must be in one of the campaign's parties");
+      }
+    }
+
+    if (session.encounterIds) {
+      await this.assertAccessible('encounters', session.encounterIds, userId, this.referencedEncounters(campaign));
+    }
+  }
+
+  private static toSummary(campaign: ICampaign): CampaignSummary {
+    const sessionDates = campaign.sessions.map(session => new Date(session.date).getTime());
+
+    return {
+      id: campaign._id.toString(),
+      ownerId: campaign.ownerId.toString(),
+      name: campaign.name,
+      description: campaign.description,
+      status: campaign.status,
+      tags: campaign.tags,
+      partyIds: toIds(campaign.partyIds),
+      encounterPlan: toIds(campaign.encounterPlan),
+      sessionCount: campaign.sessions.length,
+      totalXpAwarded: campaign.sessions.reduce((total, session) => total + (session.xpAwarded ?? 0), 0),
+      ...(sessionDates.length > 0 && { lastSessionAt: new Date(Math.max(...sessionDates)) }),
+      createdAt: campaign.createdAt,
+      updatedAt: campaign.updatedAt,
+    };
+  }
+
+  private static async buildDetail(campaign: ICampaign, userId: string): Promise<CampaignDetail> {
+    const partyIds = toIds(campaign.partyIds);
+    const encounterIds = this.referencedEncounters(campaign);
+    const attendeeIds = campaign.sessions.flatMap(session => session.attendees);
+
+    const [parties, characters, encounters] = await Promise.all([
+      Party.find({ $or: [{ _id: { $in: campaign.partyIds } }, ...accessibleTo(userId)] })
+        .select('name')
+        .lean<NamedDocument[]>(),
+      Character.find({ $or: [{ partyId: { $in: campaign.partyIds } }, { _id: { $in: attendeeIds } }] })
+        .select('name partyId classes isDeleted')
+        .lean<CharacterDocument[]>(),
+      Encounter.find({ $or: [{ _id: { $in: toObjectIds(encounterIds) } }, ...accessibleTo(userId)] })
+        .select('name difficulty status')
+        .lean<EncounterDocument[]>(),
+    ]);
+
+    const partyNames = new Map(parties.map(party => [party._id.toString(), party.name]));
+    const characterNames = new Map(characters.map(character => [character._id.toString(), character.name]));
+    const encountersById = new Map(encounters.map(encounter => [encounter._id.toString(), encounter]));
+    const timesRun = (encounterId: string) =>
+      campaign.sessions.filter(session => toIds(session.encounterIds).includes(encounterId)).length;
+
+    return {
+      ...this.toSummary(campaign),
+      parties: partyIds.map(partyId => ({
+        id: partyId,
+        name: partyNames.get(partyId) ?? 'Unknown party',
+        members: characters
+          .filter(character => !character.isDeleted && character.partyId?.toString() === partyId)
+          .sort(byName)
+          .map(character => ({
+            characterId: character._id.toString(),
+            name: character.name,
+            level: (character.classes ?? []).reduce((total, entry) => total + entry.level, 0),
+          })),
+      })),
+      encounters: toIds(campaign.encounterPlan).map(encounterId => {
+        const encounter = encountersById.get(encounterId);
+        return {
+          id: encounterId,
+          name: encounter?.name ?? 'Unknown encounter',
+          difficulty: encounter?.difficulty,
+          status: encounter?.status ?? 'unknown',
+          timesRun: timesRun(encounterId),
+        };
+      }),
+      sessions: [...campaign.sessions]
+        .sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime())
+        .map(session => ({
+          id: session._id.toString(),
+          date: session.date,
+          title: session.title,
+          attendees: toIds(session.attendees).map(characterId => ({
+            characterId,
+            name: characterNames.get(characterId) ?? 'Unknown character',
+          })),
+          encounters: toIds(session.encounterIds).map(encounterId => ({
+            id: encounterId,
+            name: encountersById.get(encounterId)?.name ?? 'Unknown encounter',
+          })),
+          xpAwarded: session.xpAwarded,
+          loot: session.loot.map(({ name, quantity }) => ({ name, quantity })),
+          notes: session.notes,
+        })),
+      availableParties: parties
+        .filter(party => !partyIds.includes(party._id.toString()))
+        .sort(byName)
+        .map(party => ({ id: party._id.toString(), name: party.name })),
+      availableEncounters: encounters
+        .filter(encounter => !campaign.encounterPlan.some(id => id.toString() === encounter._id.toString()))
+        .sort(byName)
+        .map(encounter => ({ id: encounter._id.toString(), name: encounter.name })),
+    };
+  }
+}
@@ -0,0 +1,77 @@
+/**
+ * Custom error classes and error handling utilities for CampaignService
+ */
+
+import type { ServiceResult } from './UserServiceErrors';
+
+// Custom error classes for campaign errors
+export class CampaignServiceError extends Error {
+  public code: string;
+
+  public statusCode: number;
+
+  constructor(message: string, code: string, statusCode: number = 400) {
+    super(message);
+    this.name = 'CampaignServiceError';
+    this.code = code;
+    this.statusCode = statusCode;
+  }
+}
+
+export class CampaignNotFoundError extends CampaignServiceError {
+  constructor(identifier: string) {
+    super(`Campaign not found: ${identifier}`, 'CAMPAIGN_NOT_FOUND', 404);
+  }
+}
+
+export class CampaignAccessDeniedError extends CampaignServiceError {
+  constructor() {
+    super('You do not have permission to access this campaign', 'CAMPAIGN_ACCESS_DENIED', 403);
+  }
+}
+
+export class CampaignSessionNotFoundError extends CampaignServiceError {
+  constructor(sessionId: string) {
+    super(`Session not found: ${sessionId}`, 'CAMPAIGN_SESSION_NOT_FOUND', 404);
+  }
+}
+
+export class CampaignValidationError extends CampaignServiceError {
+  constructor(field: string, message: string) {
+    super(`Invalid ${field}: ${message}`, 'CAMPAIGN_VALIDATION_ERROR', 400);
+  }
+}
+
+/**
+ * Handle errors and convert them to ServiceResult error format for campaigns
+ */
+export function handleCampaignServiceError(
+  error: unknown,
+  defaultMessage: string,
+  defaultCode: string,
+  defaultStatusCode: number = 500
+): ServiceResult<never> {
+  if (error instanceof CampaignServiceError) {
+    return {
+      success: false,
+      error: {
+        message: error.message,
+        code: error.code,
+        statusCode: error.statusCode,
+      },
+    };
+  }
+
+  // Handle cast errors (invalid ObjectId)
+  if (error instanceof Error && error.name === 'CastError') {
+    return {
+      success: false,
+      error: { message: 'Invalid campaign ID format', code: 'INVALID_CAMPAIGN_ID', statusCode: 400 },
+    };
+  }
+
+  return {
+    success: false,
+    error: { message: defaultMessage, code: defaultCode, statusCode: defaultStatusCode },
+  };
+}
@@ -16,6 +16,7 @@ import type {
   CharacterClass,
   CharacterRace,
   CharacterType,
+  LevelUpChoice,
 } from '../validations/character';
 import {
   ServiceResult,
@@ -36,13 +37,25 @@ import {
   type CharacterStats,
   type SpellcastingStats,
   type CarryingCapacity,
+  type EncumbranceRule,
   type EquipmentWeight,
   type ExperienceInfo,
 } from './CharacterServiceStats';
+import {
+  CharacterServiceLevelUp,
+  type LevelUpOptions,
+  type LevelUpResult,
+} from './CharacterServiceLevelUp';
 import {
   CharacterServiceTemplates,
   type BulkOperationResult,
 } from './CharacterServiceTemplates';
+import {
+  CharacterServiceVersions,
+  type CharacterVersion,
+  type CharacterVersionDiff,
+  type CharacterVersionQuery,
+} from './CharacterServiceVersions';
 import { DatabaseOperationWrapper } from './utils/DatabaseOperationWrapper';
 import { OperationWrapper } from './utils/OperationWrapper';
 import { CharacterAccessUtils } from './utils/CharacterAccessUtils';
@@ -162,9 +175,10 @@ export class CharacterService {
 
   static async calculateCarryingCapacity(
     characterId: string,
-    userId: string
+    userId: string,
+    rule?: EncumbranceRule
   ): Promise<ServiceResult<CarryingCapacity>> {
-    return CharacterServiceStats.calculateCarryingCapacity(characterId, userId);
+    return CharacterServiceStats.calculateCarryingCapacity(characterId, userId, rule);
   }
 
   static async calculateEquipmentWeight(
@@ -181,6 +195,25 @@ export class CharacterService {
     return CharacterServiceStats.calculateExperienceInfo(characterId, userId);
   }
 
+  // ================================
+  // Level-Up - Delegate to CharacterServiceLevelUp
+  // ================================
+
+  static async getLevelUpOptions(
+    characterId: string,
+    userId: string
+  ): Promise<ServiceResult<LevelUpOptions>> {
+    return CharacterServiceLevelUp.getLevelUpOptions(characterId, userId);
+  }
+
+  static async levelUpCharacter(
+    characterId: string,
+    userId: string,
+    choice: LevelUpChoice
+  ): Promise<ServiceResult<LevelUpResult>> {
+    return CharacterServiceLevelUp.levelUp(characterId, userId, choice);
+  }
+
   // ================================
   // Templates and Bulk Operations - Delegate to CharacterServiceTemplates
   // ================================
@@ -396,76 +429,53 @@ export class CharacterService {
   }
 
   /**
-   * Get character version history
+   * Get character version history, newest first
    */
   static async getCharacterVersionHistory(
     characterId: string,
-    userId: string
-  ): Promise<ServiceResult<any[]>> {
-    try {
-      // Verify character access
-      const accessResult = await this.checkCharacterAccess(characterId, userId);
-      if (!accessResult.success) {
-        return accessResult;
-      }
-
-      // Return mock version history for now
-      // In a real implementation, you would query a versions collection
-      const mockHistory = [
-        {
-          id: 'version-1',
-          timestamp: new Date(Date.now() - 86400000), // 1 day ago
-          changes: {
-            abilityScores: { strength: { from: 14, to: 16 } }
-          },
-          changeDescription: 'Increased strength from 14 to 16',
-          userId: userId
-        }
-      ];
-
-      return createSuccessResult(mockHistory);
+    userId: string,
+    query?: CharacterVersionQuery
+  ): Promise<ServiceResult<CharacterVersion[]>> {
+    return CharacterServiceVersions.getVersionHistory(characterId, userId, query);
+  }
 
-    } catch (error) {
-      return createErrorResult(
-        CharacterServiceErrors.databaseError('get version history', error)
-      );
+  /**
+   * Get the combined changes between two character versions
+   */
+  static async getCharacterVersionDiff(
+    characterId: string,
+    userId: string,
+    fromVersion: string,
+    toVersion?: string
+  ): Promise<ServiceResult<CharacterVersionDiff>> {
+    const versions = [fromVersion, toVersion].filter((version): version is string => version !== undefined);
+    const invalid = versions.find(version => CharacterServiceVersions.parseVersion(version) === null);
+    if (invalid !== undefined) {
+      return createErrorResult(CharacterServiceErrors.invalidVersion(invalid));
     }
+
+    return CharacterServiceVersions.getVersionDiff(
+      characterId,
+      userId,
+      Number(fromVersion),
+      toVersion === undefined ? undefined : Number(toVersion)
+    );
   }
 
   /**
-   * Revert character to a previous version
+   * Revert character to a previous version; the revert is recorded as a new version
    */
   static async revertCharacterToVersion(
     characterId: string,
     userId: string,
-    _versionId: string
+    versionId: string
   ): Promise<ServiceResult<ICharacter>> {
-    try {
-      // Verify character access and ownership
-      const ownershipResult = await this.checkCharacterOwnership(characterId, userId);
-      if (!ownershipResult.success) {
-        return ownershipResult;
-      }
-
-      // Get current character
-      const characterResult = await this.getCharacterById(characterId, userId);
-      if (!characterResult.success) {
-        return characterResult;
-      }
-
-      // In a real implementation, you would:
-      // 1. Find the version data
-      // 2. Update the character with that version's data
-      // 3. Create a new version entry for this revert action
-
-      // For now, just return the current character
-      return createSuccessResult(characterResult.data);
-
-    } catch (error) {
-      return createErrorResult(
-        CharacterServiceErrors.databaseError('revert to version', error)
-      );
+    const version = CharacterServiceVersions.parseVersion(versionId);
+    if (version === null) {
+      return createErrorResult(CharacterServiceErrors.invalidVersion(versionId));
     }
+
+    return CharacterServiceVersions.revertToVersion(characterId, userId, version);
   }
 
   /**
@@ -593,7 +603,13 @@ export type {
   CharacterStats,
   SpellcastingStats,
   CarryingCapacity,
+  EncumbranceRule,
   EquipmentWeight,
   ExperienceInfo,
+  LevelUpOptions,
+  LevelUpResult,
   BulkOperationResult,
+  CharacterVersion,
+  CharacterVersionDiff,
+  CharacterVersionQuery,
 };
\ No newline at end of file
@@ -7,6 +7,7 @@
  */
 
 import { Character, type ICharacter } from '../models/Character';
+import { CharacterRevision } from '../models/CharacterRevision';
 import type {
   CharacterCreation,
   CharacterUpdate,
@@ -21,6 +22,7 @@ import { CharacterQueryUtils } from './utils/CharacterQueryUtils';
 import { ValidationWrapper } from './utils/ValidationWrapper';
 import { DatabaseOperationWrapper } from './utils/DatabaseOperationWrapper';
 import { OperationWrapper } from './utils/OperationWrapper';
+import { CharacterServiceVersions } from './CharacterServiceVersions';
 
 export class CharacterServiceCRUD {
 
@@ -49,11 +51,28 @@ export class CharacterServiceCRUD {
   /**
    * Helper to check ownership with error throwing - eliminates duplication
    */
-  private static async checkOwnershipWithThrow(characterId: string, userId: string): Promise<void> {
+  private static async checkOwnershipWithThrow(characterId: string, userId: string): Promise<ICharacter> {
     const ownershipCheck = await CharacterAccessUtils.checkOwnership(characterId, userId);
     if (!ownershipCheck.success) {
       throw new Error(ownershipCheck.error.message);
     }
+    return ownershipCheck.data;
+  }
+
+  /**
+   * Helper to record a revision without failing an edit that already succeeded
+   */
+  private static async recordRevisionSafely(
+    characterId: string,
+    userId: string,
+    before: ICharacter,
+    after: ICharacter
+  ): Promise<void> {
+    try {
+      await CharacterServiceVersions.recordRevision(characterId, userId, before, after);
+    } catch (error) {
+      console.error(`Failed to record revision for character ${characterId}:`, error);
+    }
   }
 
   /**
@@ -149,8 +168,8 @@ export class CharacterServiceCRUD {
     return OperationWrapper.executeWithChecks(
       validations,
       async () => {
-        // Check ownership
-        await this.checkOwnershipWithThrow(characterId, userId);
+        // Check ownership, keeping the current state for the revision
+        const before = await this.checkOwnershipWithThrow(characterId, userId);
 
         // Get validated data
         const validatedData = this.getValidatedUpdateData(updateData);
@@ -164,7 +183,9 @@ export class CharacterServiceCRUD {
           'character'
         );
 
-        return this.validateResultWithThrow(updateResult, 'update character');
+        const updated = this.validateResultWithThrow(updateResult, 'update character');
+        await this.recordRevisionSafely(characterId, userId, before, updated);
+        return updated;
       },
       'update character'
     );
@@ -205,6 +226,7 @@ export class CharacterServiceCRUD {
         );
 
         this.validateResultWithThrow(deleteResult, 'delete character');
+        await CharacterRevision.clearRevisions(characterId);
         return void 0;
       },
       'delete character'
@@ -23,6 +23,7 @@ export const CHARACTER_ERROR_CODES = {
   CHARACTER_NOT_FOUND: 'CHARACTER_NOT_FOUND',
   OWNER_NOT_FOUND: 'OWNER_NOT_FOUND',
   PARTY_NOT_FOUND: 'PARTY_NOT_FOUND',
+  VERSION_NOT_FOUND: 'VERSION_NOT_FOUND',
 
   // Validation Errors
   INVALID_CHARACTER_DATA: 'INVALID_CHARACTER_DATA',
@@ -31,6 +32,8 @@ export const CHARACTER_ERROR_CODES = {
   INVALID_PARTY_ID: 'INVALID_PARTY_ID',
   INVALID_SEARCH_CRITERIA: 'INVALID_SEARCH_CRITERIA',
   INVALID_TEMPLATE_DATA: 'INVALID_TEMPLATE_DATA',
+  INVALID_VERSION: 'INVALID_VERSION',
+  INVALID_LEVEL_UP_CHOICE: 'INVALID_LEVEL_UP_CHOICE',
 
   // Permission Errors
   UNAUTHORIZED_ACCESS: 'UNAUTHORIZED_ACCESS',
@@ -108,6 +111,13 @@ export const CharacterServiceErrors = {
       { partyId }
     ),
 
+  versionNotFound: (characterId: string, version: number): ServiceError =>
+    createServiceError(
+      CHARACTER_ERROR_CODES.VERSION_NOT_FOUND,
+      `Version ${version} of character "${characterId}" not found`,
+      { characterId, version }
+    ),
+
   // Validation Errors
   invalidCharacterData: (validationErrors: any[]): ServiceError =>
     createServiceError(
@@ -144,6 +154,20 @@ export const CharacterServiceErrors = {
       { criteria }
     ),
 
+  invalidVersion: (version: string): ServiceError =>
+    createServiceError(
+      CHARACTER_ERROR_CODES.INVALID_VERSION,
+      `Invalid version: "${version}". Must be a non-negative whole number`,
+      { version }
+    ),
+
+  invalidLevelUpChoice: (reason: string): ServiceError =>
+    createServiceError(
+      CHARACTER_ERROR_CODES.INVALID_LEVEL_UP_CHOICE,
+      `Invalid level-up choice: ${reason}`,
+      { reason }
+    ),
+
   // Permission Errors
   unauthorizedAccess: (characterId: string, userId: string): ServiceError =>
     createServiceError(
@@ -0,0 +1,273 @@
+/**
+ * Character Service Level-Up
+ *
+ * Advances a character by one level in an existing or new class: checks
+ * multiclass prerequisites, adds hit points, updates the proficiency bonus,
+ * applies an Ability Score Improvement or feat when one is due and records
+ * the subclass when it unlocks. Each level-up is its own history entry.
+ */
+
+import { Character, type ICharacter } from '../models/Character';
+import type { LevelUpChoice } from '../validations/character';
+import {
+  ServiceResult,
+  createSuccessResult,
+  createErrorResult,
+  CharacterServiceErrors,
+} from './CharacterServiceErrors';
+import { CharacterAccessUtils } from './utils/CharacterAccessUtils';
+import { CharacterValidationUtils } from './utils/CharacterValidationUtils';
+import { CharacterServiceVersions } from './CharacterServiceVersions';
+import { MAX_LEVEL, type AbilityName } from '../utils/character-stats';
+import {
+  MAX_ABILITY_SCORE,
+  calculateLevelUpHitPoints,
+  getLevelUpOptions,
+  rollHitDie,
+  type LevelUpClassOption,
+  type LevelUpOptions,
+} from '../utils/level-up';
+
+/**
+ * Start of the history description of every level-up revision
+ */
+export const LEVEL_UP_REVISION_PREFIX = 'Leveled up to';
+
+export interface LevelUpSummary {
+  class: string;
+  classLevel: number;
+  totalLevel: number;
+  hitDie: number;
+  hitPointRoll?: number;
+  hitPointIncrease: number;
+  proficiencyBonus: number;
+  abilityScoreIncreases?: Partial<Record<AbilityName, number>>;
+  feat?: string;
+  subclass?: string;
+}
+
+export interface LevelUpResult {
+  character: ICharacter;
+  summary: LevelUpSummary;
+}
+
+export type { LevelUpOptions, LevelUpClassOption };
+
+const formatClassName = (className: string): string => className.charAt(0).toUpperCase() + className.slice(1);
+
+export class CharacterServiceLevelUp {
+
+  /**
+   * Helper to validate the character id and check the user may view or edit the character
+   */
+  private static async checkCharacter(
+    characterId: string,
+    userId: string,
+    requireOwnership: boolean
+  ): Promise<ServiceResult<ICharacter>> {
+    const idValidation = CharacterValidationUtils.validateObjectId(characterId, 'character');
+    if (!idValidation.success) {
+      return idValidation;
+    }
+
+    return requireOwnership
+      ? CharacterAccessUtils.checkOwnership(characterId, userId)
+      : CharacterAccessUtils.checkAccess(characterId, userId);
+  }
+
+  /**
+   * Helper to check the choices a level-up needs against the chosen class option
+   */
+  private static validateChoice(
+    character: ICharacter,
+    options: LevelUpOptions,
+    choice: LevelUpChoice
+  ): ServiceResult<LevelUpClassOption> {
+    const option = options.classes.find(entry => entry.class === choice.class);
+    if (!option) {
+      return createErrorResult(CharacterServiceErrors.invalidLevelUpChoice(`unknown class "${choice.class}"`));
+    }
+    if (options.currentLevel >= MAX_LEVEL) {
+      return createErrorResult(CharacterServiceErrors.invalidCharacterLevel(options.currentLevel + 1));
+    }
+    if (!option.eligible) {
+      return createErrorResult(CharacterServiceErrors.invalidMulticlassCombination(
+        [...character.classes.map(cls => cls.class), option.class]
+      ));
+    }
+    if (option.unlocksSubclass && !choice.subclass) {
+      return createErrorResult(CharacterServiceErrors.invalidLevelUpChoice(
+        `${formatClassName(option.class)} level ${option.newLevel} requires a subclass`
+      ));
+    }
+    if (option.grantsAbilityScoreImprovement && !choice.abilityScoreIncreases === !choice.feat) {
+      return createErrorResult(CharacterServiceErrors.invalidLevelUpChoice(
+        'choose either ability score increases or a feat'
+      ));
+    }
+    if (!option.grantsAbilityScoreImprovement && (choice.abilityScoreIncreases || choice.feat)) {
+      return createErrorResult(CharacterServiceErrors.invalidLevelUpChoice(
+        `${formatClassName(option.class)} level ${option.newLevel} does not grant an Ability Score Improvement`
+      ));
+    }
+
+    const overLimit = Object.entries(choice.abilityScoreIncreases ?? {})
+      .find(([ability, increase]) => character.abilityScores[ability as AbilityName] + (increase ?? 0) > MAX_ABILITY_SCORE);
+    if (overLimit) {
+      return createErrorResult(CharacterServiceErrors.invalidLevelUpChoice(
+        `${overLimit[0]} cannot be raised above ${MAX_ABILITY_SCORE}`
+      ));
+    }
+
+    return createSuccessResult(option);
+  }
+
+  /**
+   * Helper to build the MongoDB update for a level-up
+   */
+  private static buildUpdate(
+    character: ICharacter,
+    option: LevelUpClassOption,
+    choice: LevelUpChoice,
+    hitPointIncrease: number,
+    proficiencyBonus: number
+  ): Record<string, unknown> {
+    const classes: ICharacter['classes'] = character.classes.map(cls => ({
+      class: cls.class,
+      level: cls.level,
+      hitDie: cls.hitDie,
+      ...(cls.subclass && { subclass: cls.subclass }),
+      ...(cls.hitDiceUsed && { hitDiceUsed: cls.hitDiceUsed }),
+    }));
+    if (option.isNewClass) {
+      classes.push({ class: option.class, level: 0, hitDie: option.hitDie });
+    }
+
+    const leveled = classes.find(cls => cls.class.toLowerCase() === option.class)!;
+    leveled.level = option.newLevel;
+    if (option.unlocksSubclass && choice.subclass) {
+      leveled.subclass = choice.subclass;
+    }
+
+    const abilityScores = Object.fromEntries(
+      Object.entries(choice.abilityScoreIncreases ?? {})
+        .map(([ability, increase]) => [
+          `abilityScores.${ability}`,
+          character.abilityScores[ability as AbilityName] + (increase ?? 0),
+        ])
+    );
+
+    return {
+      classes,
+      proficiencyBonus,
+      'hitPoints.maximum': character.hitPoints.maximum + hitPointIncrease,
+      'hitPoints.current': character.hitPoints.current + hitPointIncrease,
+      ...abilityScores,
+      ...(choice.feat && { feats: [...(character.feats ?? []), choice.feat] }),
+      updatedAt: new Date(),
+    };
+  }
+
+  /**
+   * Helper to record the level-up as its own revision without failing a level-up that already succeeded
+   */
+  private static async recordLevelUpSafely(
+    characterId: string,
+    userId: string,
+    before: ICharacter,
+    after: ICharacter,
+    description: string
+  ): Promise<void> {
+    try {
+      await CharacterServiceVersions.recordRevision(characterId, userId, before, after, description);
+    } catch (error) {
+      console.error(`Failed to record level-up for character ${characterId}:`, error);
+    }
+  }
+
+  /**
+   * Classes the character can take its next level in, with the choices each one needs
+   */
+  static async getLevelUpOptions(
+    characterId: string,
+    userId: string
+  ): Promise<ServiceResult<LevelUpOptions>> {
+    const accessResult = await this.checkCharacter(characterId, userId, false);
+    if (!accessResult.success) {
+      return accessResult;
+    }
+
+    return createSuccessResult(getLevelUpOptions(accessResult.data));
+  }
+
+  /**
+   * Advance the character one level in the chosen class
+   */
+  static async levelUp(
+    characterId: string,
+    userId: string,
+    choice: LevelUpChoice
+  ): Promise<ServiceResult<LevelUpResult>> {
+    const ownershipResult = await this.checkCharacter(characterId, userId, true);
+    if (!ownershipResult.success) {
+      return ownershipResult;
+    }
+
+    const character = ownershipResult.data;
+    const options = getLevelUpOptions(character);
+    const validation = this.validateChoice(character, options, choice);
+    if (!validation.success) {
+      return validation;
+    }
+
+    const option = validation.data;
+    const hitPointRoll = choice.hitPointMethod === 'roll'
+      ? Math.min(choice.hitPointRoll ?? rollHitDie(option.hitDie), option.hitDie)
+      : undefined;
+    const hitPointIncrease = calculateLevelUpHitPoints(
+      option.hitDie,
+      character.abilityScores.constitution,
+      character.abilityScores.constitution + (choice.abilityScoreIncreases?.constitution ?? 0),
+      options.currentLevel,
+      choice.hitPointMethod,
+      hitPointRoll
+    );
+
+    try {
+      const updated = await Character.findByIdAndUpdate(
+        characterId,
+        { $set: this.buildUpdate(character, option, choice, hitPointIncrease, options.proficiencyBonus) },
+        { new: true, runValidators: true }
+      );
+      if (!updated) {
+        return createErrorResult(CharacterServiceErrors.characterNotFound(characterId));
+      }
+
+      await this.recordLevelUpSafely(
+        characterId,
+        userId,
+        character,
+        updated,
+        `${LEVEL_UP_REVISION_PREFIX} ${formatClassName(option.class)} ${option.newLevel} (level ${options.newLevel})`
+      );
+
+      return createSuccessResult({
+        character: updated,
+        summary: {
+          class: option.class,
+          classLevel: option.newLevel,
+          totalLevel: options.newLevel,
+          hitDie: option.hitDie,
+          ...(hitPointRoll !== undefined && { hitPointRoll }),
+          hitPointIncrease,
+          proficiencyBonus: options.proficiencyBonus,
+          ...(choice.abilityScoreIncreases && { abilityScoreIncreases: choice.abilityScoreIncreases }),
+          ...(choice.feat && { feat: choice.feat }),
+          ...(option.unlocksSubclass && choice.subclass && { subclass: choice.subclass }),
+        },
+      });
+    } catch (error) {
+      return createErrorResult(CharacterServiceErrors.databaseError('level up character', error));
+    }
+  }
+}
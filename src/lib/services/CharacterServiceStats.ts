@@ -7,12 +7,23 @@
 
 import type { CharacterSummary } from '../validations/character';
 import type { ICharacter } from '../models/Character';
-import {
-  ServiceResult,
-  createSuccessResult,
-} from './CharacterServiceErrors';
+import { ServiceResult } from './CharacterServiceErrors';
 import { CharacterServiceCRUD } from './CharacterServiceCRUD';
 import { OperationWrapper } from './utils/OperationWrapper';
+import {
+  calculateArmorClass,
+  calculateCarryingCapacity,
+  calculateEquipmentWeight,
+  calculateExperienceInfo,
+  calculatePassivePerception,
+  calculateSpellcasting,
+  getSkillAbility,
+  type CarryingCapacity,
+  type EncumbranceRule,
+  type EquipmentWeight,
+  type ExperienceInfo,
+  type SpellcastingStats,
+} from '../utils/character-stats';
 
 export interface CharacterStats {
   abilityModifiers: Record<string, number>;
@@ -27,34 +38,11 @@ export interface CharacterStats {
   status: 'alive' | 'unconscious' | 'dead';
   isAlive: boolean;
   isUnconscious: boolean;
+  passivePerception: number;
+  equipmentArmorClass: number;
 }
 
-export interface SpellcastingStats {
-  casterLevel: number;
-  spellSlots: Record<number, number>;
-  spellAttackBonus: number;
-  spellSaveDC: number;
-}
-
-export interface CarryingCapacity {
-  maximum: number;
-  current: number;
-  encumbranceLevel: 'none' | 'light' | 'heavy' | 'overloaded';
-}
-
-export interface EquipmentWeight {
-  total: number;
-  equipped: number;
-  carried: number;
-}
-
-export interface ExperienceInfo {
-  currentXP: number;
-  currentLevel: number;
-  nextLevelXP: number;
-  xpToNextLevel: number;
-  isMaxLevel: boolean;
-}
+export type { SpellcastingStats, CarryingCapacity, EncumbranceRule, EquipmentWeight, ExperienceInfo };
 
 export class CharacterServiceStats {
 
@@ -114,6 +102,8 @@ export class CharacterServiceStats {
         status: this.getCharacterStatus(character),
         isAlive: character.isAlive(),
         isUnconscious: character.isUnconscious(),
+        passivePerception: calculatePassivePerception(character),
+        equipmentArmorClass: calculateArmorClass(character).value,
       }),
       'calculate character stats'
     );
@@ -135,59 +125,65 @@ export class CharacterServiceStats {
   }
 
   /**
-   * Shared stub method helper - eliminates stub duplication
+   * Calculate spell save DC, spell attack bonus and spell slots for each spellcasting class
    */
-  private static createStubResult<T>(defaultValue: T): Promise<ServiceResult<T>> {
-    return Promise.resolve(createSuccessResult(defaultValue));
+  static async calculateSpellcastingStats(
+    characterId: string,
+    userId: string
+  ): Promise<ServiceResult<SpellcastingStats>> {
+    return this.executeWithCharacter(
+      characterId,
+      userId,
+      (character) => calculateSpellcasting(character),
+      'calculate spellcasting stats'
+    );
   }
 
   /**
-   * Generic stub method creator - eliminates parameter duplication
+   * Calculate carrying capacity and encumbrance under the standard or variant rule
    */
-  private static createStubMethod<T>(defaultValue: T) {
-    return async (_characterId: string, _userId: string): Promise<ServiceResult<T>> => {
-      return this.createStubResult(defaultValue);
-    };
+  static async calculateCarryingCapacity(
+    characterId: string,
+    userId: string,
+    rule: EncumbranceRule = 'standard'
+  ): Promise<ServiceResult<CarryingCapacity>> {
+    return this.executeWithCharacter(
+      characterId,
+      userId,
+      (character) => calculateCarryingCapacity(character, rule),
+      'calculate carrying capacity'
+    );
   }
 
   /**
-   * Calculate spellcasting statistics (stub for now)
+   * Calculate equipment weight
    */
-  static calculateSpellcastingStats = this.createStubMethod<SpellcastingStats>({
-    casterLevel: 0,
-    spellSlots: {},
-    spellAttackBonus: 0,
-    spellSaveDC: 8,
-  });
-
-  /**
-   * Calculate carrying capacity (stub for now)
-   */
-  static calculateCarryingCapacity = this.createStubMethod<CarryingCapacity>({
-    maximum: 240,
-    current: 55,
-    encumbranceLevel: 'none' as const,
-  });
-
-  /**
-   * Calculate equipment weight (stub for now)
-   */
-  static calculateEquipmentWeight = this.createStubMethod<EquipmentWeight>({
-    total: 55,
-    equipped: 55,
-    carried: 0,
-  });
+  static async calculateEquipmentWeight(
+    characterId: string,
+    userId: string
+  ): Promise<ServiceResult<EquipmentWeight>> {
+    return this.executeWithCharacter(
+      characterId,
+      userId,
+      (character) => calculateEquipmentWeight(character),
+      'calculate equipment weight'
+    );
+  }
 
   /**
-   * Calculate experience information (stub for now)
+   * Calculate experience information
    */
-  static calculateExperienceInfo = this.createStubMethod<ExperienceInfo>({
-    currentXP: 0,
-    currentLevel: 1,
-    nextLevelXP: 300,
-    xpToNextLevel: 300,
-    isMaxLevel: false,
-  });
+  static async calculateExperienceInfo(
+    characterId: string,
+    userId: string
+  ): Promise<ServiceResult<ExperienceInfo>> {
+    return this.executeWithCharacter(
+      characterId,
+      userId,
+      (character) => calculateExperienceInfo(character),
+      'calculate experience info'
+    );
+  }
 
   // ================================
   // Private Helper Methods
@@ -247,15 +243,7 @@ export class CharacterServiceStats {
     skill: string,
     abilityModifiers: Record<string, number>
   ): number {
-    // Simplified skill to ability mapping
-    const skillAbilityMap: Record<string, string> = {
-      athletics: 'strength',
-      acrobatics: 'dexterity',
-      intimidation: 'charisma',
-      // Add more mappings as needed
-    };
-
-    const ability = skillAbilityMap[skill] || 'dexterity';
+    const ability = getSkillAbility(skill) ?? 'dexterity';
     return abilityModifiers[ability] || 0;
   }
 }
\ No newline at end of file
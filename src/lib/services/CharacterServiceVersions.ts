@@ -0,0 +1,225 @@
+/**
+ * Character Service Version History
+ *
+ * Records a diff-based revision every time a character is edited and
+ * rebuilds earlier states from those diffs. Reverting never rewrites
+ * history: it is recorded as a new revision that undoes the later ones.
+ */
+
+import { Character, type ICharacter } from '../models/Character';
+import {
+  CharacterRevision,
+  type CharacterFieldChange,
+  type ICharacterRevision,
+} from '../models/CharacterRevision';
+import {
+  ServiceResult,
+  createSuccessResult,
+  createErrorResult,
+  CharacterServiceErrors,
+} from './CharacterServiceErrors';
+import { CharacterAccessUtils } from './utils/CharacterAccessUtils';
+import { CharacterValidationUtils } from './utils/CharacterValidationUtils';
+import { CharacterDiffUtils } from './utils/CharacterDiffUtils';
+
+export type CharacterFieldChanges = Record<string, { from?: unknown; to?: unknown }>;
+
+export interface CharacterVersion {
+  id: string;
+  revision: number;
+  timestamp: Date;
+  changes: CharacterFieldChanges;
+  changeDescription: string;
+  userId: string;
+  revertedTo?: number;
+}
+
+export interface CharacterVersionDiff {
+  fromVersion: number;
+  toVersion: number;
+  changes: CharacterFieldChanges;
+}
+
+export interface CharacterVersionQuery {
+  skip?: number;
+  limit?: number;
+}
+
+const toFieldChanges = (changes: CharacterFieldChange[]): CharacterFieldChanges =>
+  Object.fromEntries(changes.map(({ field, from, to }) => [field, { from, to }]));
+
+const toCharacterVersion = (revision: ICharacterRevision): CharacterVersion => ({
+  id: String(revision.revision),
+  revision: revision.revision,
+  timestamp: new Date(revision.createdAt),
+  changes: toFieldChanges(revision.changes),
+  changeDescription: revision.description,
+  userId: revision.authorId.toString(),
+  ...(revision.revertedTo !== undefined && { revertedTo: revision.revertedTo }),
+});
+
+export class CharacterServiceVersions {
+
+  /**
+   * Helper to validate the character id and check the user may view or edit the character
+   */
+  private static async checkCharacter(
+    characterId: string,
+    userId: string,
+    requireOwnership: boolean
+  ): Promise<ServiceResult<ICharacter>> {
+    const idValidation = CharacterValidationUtils.validateObjectId(characterId, 'character');
+    if (!idValidation.success) {
+      return idValidation;
+    }
+
+    return requireOwnership
+      ? CharacterAccessUtils.checkOwnership(characterId, userId)
+      : CharacterAccessUtils.checkAccess(characterId, userId);
+  }
+
+  /**
+   * Helper to parse a version route parameter - version 0 is the state before any recorded edit
+   */
+  static parseVersion(version: string): number | null {
+    return /^\d+$/.test(version) ? Number(version) : null;
+  }
+
+  /**
+   * Record the edit between two states of a character; no-op edits are not
+   * recorded. The description defaults to a summary of the changed fields.
+   */
+  static async recordRevision(
+    characterId: string,
+    authorId: string,
+    before: unknown,
+    after: unknown,
+    description?: string
+  ): Promise<ICharacterRevision | null> {
+    const changes = CharacterDiffUtils.diff(
+      CharacterDiffUtils.snapshot(before),
+      CharacterDiffUtils.snapshot(after)
+    );
+    if (changes.length === 0) {
+      return null;
+    }
+
+    return CharacterRevision.appendRevision(characterId, {
+      authorId,
+      changes,
+      description: description ?? CharacterDiffUtils.describe(changes),
+    });
+  }
+
+  /**
+   * List a character's revisions, newest first
+   */
+  static async getVersionHistory(
+    characterId: string,
+    userId: string,
+    query: CharacterVersionQuery = {}
+  ): Promise<ServiceResult<CharacterVersion[]>> {
+    const accessResult = await this.checkCharacter(characterId, userId, false);
+    if (!accessResult.success) {
+      return accessResult;
+    }
+
+    try {
+      const revisions = await CharacterRevision.findRevisions(characterId, query);
+      return createSuccessResult(revisions.map(toCharacterVersion));
+    } catch (error) {
+      return createErrorResult(CharacterServiceErrors.databaseError('get version history', error));
+    }
+  }
+
+  /**
+   * Combined changes between two versions; `toVersion` defaults to the latest
+   */
+  static async getVersionDiff(
+    characterId: string,
+    userId: string,
+    fromVersion: number,
+    toVersion?: number
+  ): Promise<ServiceResult<CharacterVersionDiff>> {
+    const accessResult = await this.checkCharacter(characterId, userId, false);
+    if (!accessResult.success) {
+      return accessResult;
+    }
+
+    try {
+      const latest = await CharacterRevision.findLatestRevisionNumber(characterId);
+      const target = toVersion ?? latest;
+      const missing = [fromVersion, target].find(version => version > latest);
+      if (missing !== undefined) {
+        return createErrorResult(CharacterServiceErrors.versionNotFound(characterId, missing));
+      }
+
+      const [start, end] = fromVersion <= target ? [fromVersion, target] : [target, fromVersion];
+      const revisions = await CharacterRevision.findRevisionRange(characterId, start, end);
+      const forward = CharacterDiffUtils.combine(revisions.map(revision => revision.changes));
+      const changes = fromVersion <= target
+        ? forward
+        : forward.map(({ field, from, to }) => ({ field, from: to, to: from }));
+
+      return createSuccessResult({ fromVersion, toVersion: target, changes: toFieldChanges(changes) });
+    } catch (error) {
+      return createErrorResult(CharacterServiceErrors.databaseError('get version diff', error));
+    }
+  }
+
+  /**
+   * Restore the character to how it was right after `version`, recording the
+   * restore as a new revision
+   */
+  static async revertToVersion(
+    characterId: string,
+    userId: string,
+    version: number
+  ): Promise<ServiceResult<ICharacter>> {
+    const ownershipResult = await this.checkCharacter(characterId, userId, true);
+    if (!ownershipResult.success) {
+      return ownershipResult;
+    }
+
+    try {
+      const latest = await CharacterRevision.findLatestRevisionNumber(characterId);
+      if (version > latest) {
+        return createErrorResult(CharacterServiceErrors.versionNotFound(characterId, version));
+      }
+
+      const laterRevisions = await CharacterRevision.findRevisionRange(characterId, version);
+      const undone = CharacterDiffUtils.combine(laterRevisions.map(revision => revision.changes));
+      const current = CharacterDiffUtils.snapshot(ownershipResult.data);
+      const target = { ...current };
+      for (const change of undone) {
+        target[change.field] = change.from;
+      }
+
+      const changes = CharacterDiffUtils.diff(current, target);
+      if (changes.length === 0) {
+        return createSuccessResult(ownershipResult.data);
+      }
+
+      const update = CharacterDiffUtils.toUpdate(changes, 'to');
+      const reverted = await Character.findByIdAndUpdate(
+        characterId,
+        { ...update, $set: { ...update.$set, updatedAt: new Date() } },
+        { new: true, runValidators: true }
+      );
+      if (!reverted) {
+        return createErrorResult(CharacterServiceErrors.characterNotFound(characterId));
+      }
+
+      await CharacterRevision.appendRevision(characterId, {
+        authorId: userId,
+        changes,
+        description: `Reverted to version ${version}`,
+        revertedTo: version,
+      });
+
+      return createSuccessResult(reverted);
+    } catch (error) {
+      return createErrorResult(CharacterServiceErrors.databaseError('revert to version', error));
+    }
+  }
+}
@@ -0,0 +1,513 @@
+import { Types } from 'mongoose';
+import User from '@/lib/models/User';
+import { Encounter } from '@/lib/models/encounter';
+import { Party } from '@/lib/models/Party';
+import { Collaborator, type ICollaborator } from '@/lib/models/Collaborator';
+import type {
+  CollaborationResource,
+  CollaboratorRole,
+  CollaboratorStatus,
+  InviteCollaborator,
+  RespondToInvitation,
+} from '@/lib/validations/collaborator';
+import { hasPermission, type AccessRole, type CollaborationPermission } from '@/lib/utils/collaboration';
+import type { ServiceResult } from './UserServiceErrors';
+import {
+  CollaborationPermissionError,
+  CollaborationResourceNotFoundError,
+  CollaboratorConflictError,
+  CollaboratorNotFoundError,
+  CollaboratorServiceError,
+  InviteeNotFoundError,
+  handleCollaboratorServiceError,
+} from './CollaboratorServiceErrors';
+
+/**
+ * The parts of an encounter or party that collaboration works with
+ */
+export interface CollaborationTarget {
+  _id: Types.ObjectId;
+  ownerId: Types.ObjectId;
+  name: string;
+  isPublic: boolean;
+  sharedWith: Types.ObjectId[];
+  save(): Promise<unknown>;
+}
+
+/**
+ * A collaborator as listed on an encounter or party; the email address is
+ * only included for users who manage the resource
+ */
+export interface CollaboratorSummary {
+  id: string;
+  userId: string;
+  username: string;
+  email?: string;
+  role: CollaboratorRole;
+  status: CollaboratorStatus;
+  invitedAt: Date;
+  respondedAt?: Date;
+}
+
+/**
+ * An invitation waiting for the invited user's answer
+ */
+export interface CollaborationInvitation {
+  id: string;
+  resourceType: CollaborationResource;
+  resourceId: string;
+  resourceName: string;
+  role: CollaboratorRole;
+  invitedBy: string;
+  invitedAt: Date;
+}
+
+type CollaboratorUser = { _id: Types.ObjectId; username: string; email: string };
+
+/**
+ * Collaborator Service
+ *
+ * Invitations, roles and removal of collaborators on encounters and parties.
+ * Accepted collaborators are kept in the resource's `sharedWith` so existing
+ * read access checks keep working; their role lives on the invitation.
+ */
+export class CollaboratorService {
+
+  /**
+   * Work out a user's role on an encounter or party
+   *
+   * Users listed in `sharedWith` without an accepted invitation are treated
+   * as viewers, and public resources can be viewed by anyone.
+   */
+  static async getAccessRole(
+    resourceType: CollaborationResource,
+    resource: Pick<CollaborationTarget, '_id' | 'ownerId' | 'isPublic' | 'sharedWith'>,
+    userId: string
+  ): Promise<AccessRole | null> {
+    if (resource.ownerId.toString() === userId) {
+      return 'owner';
+    }
+
+    if ((resource.sharedWith ?? []).some(id => id.toString() === userId)) {
+      const collaborator = await Collaborator.findOne({
+        resourceType,
+        resourceId: resource._id,
+        userId: new Types.ObjectId(userId),
+        status: 'accepted',
+      });
+      return collaborator?.role ?? 'viewer';
+    }
+
+    return resource.isPublic ? 'viewer' : null;
+  }
+
+  /**
+   * Check that a user's role on a resource grants a permission
+   */
+  static async hasPermission(
+    resourceType: CollaborationResource,
+    resource: Pick<CollaborationTarget, '_id' | 'ownerId' | 'isPublic' | 'sharedWith'>,
+    userId: string,
+    permission: CollaborationPermission
+  ): Promise<boolean> {
+    return hasPermission(await this.getAccessRole(resourceType, resource, userId), permission);
+  }
+
+  /**
+   * List everyone invited to an encounter or party; email addresses are left
+   * out for users who cannot manage it
+   */
+  static async listCollaborators(
+    resourceType: CollaborationResource,
+    resourceId: string,
+    userId: string
+  ): Promise<ServiceResult<CollaboratorSummary[]>> {
+    try {
+      const resource = await this.loadResource(resourceType, resourceId, userId, 'view', 'view these collaborators');
+      const canManage = await this.hasPermission(resourceType, resource, userId, 'manage');
+
+      const collaborators = await Collaborator.find({
+        resourceType,
+        resourceId: new Types.ObjectId(resourceId),
+      }).sort({ createdAt: 1 });
+      const users = await this.findUsers(collaborators.map(collaborator => collaborator.userId));
+
+      return {
+        success: true,
+        data: collaborators.map(collaborator => this.toSummary(collaborator, users, canManage)),
+      };
+    } catch (error) {
+      return handleCollaboratorServiceError(error, 'Failed to list collaborators', 'COLLABORATOR_LIST_FAILED');
+    }
+  }
+
+  /**
+   * Invite a user by email or username; a declined invitation can be sent again
+   */
+  static async inviteCollaborator(
+    resourceType: CollaborationResource,
+    resourceId: string,
+    userId: string,
+    invite: InviteCollaborator
+  ): Promise<ServiceResult<CollaboratorSummary>> {
+    try {
+      const resource = await this.loadResource(resourceType, resourceId, userId, 'manage', 'invite collaborators');
+
+      const invitee = await this.findInvitee(invite.identifier);
+      if (resource.ownerId.equals(invitee._id)) {
+        throw new CollaboratorServiceError('The owner cannot be invited as a collaborator', 'COLLABORATOR_IS_OWNER', 400);
+      }
+
+      const existing = await Collaborator.findOne({ resourceType, resourceId: resource._id, userId: invitee._id });
+      if (existing && existing.status !== 'declined') {
+        throw new CollaboratorConflictError(`${invitee.username} has already been invited`);
+      }
+
+      let collaborator: ICollaborator;
+      if (existing) {
+        existing.role = invite.role;
+        existing.status = 'pending';
+        existing.invitedBy = new Types.ObjectId(userId);
+        existing.respondedAt = undefined;
+        collaborator = await existing.save();
+      } else {
+        collaborator = await Collaborator.create({
+          resourceType,
+          resourceId: resource._id,
+          userId: invitee._id,
+          invitedBy: new Types.ObjectId(userId),
+          role: invite.role,
+        });
+      }
+
+      return {
+        success: true,
+        data: this.toSummary(collaborator, new Map([[invitee._id.toString(), invitee]])),
+      };
+    } catch (error) {
+      return handleCollaboratorServiceError(error, 'Failed to invite collaborator', 'COLLABORATOR_INVITE_FAILED');
+    }
+  }
+
+  /**
+   * Change the role of a collaborator
+   */
+  static async updateCollaboratorRole(
+    resourceType: CollaborationResource,
+    resourceId: string,
+    collaboratorId: string,
+    userId: string,
+    role: CollaboratorRole
+  ): Promise<ServiceResult<CollaboratorSummary>> {
+    try {
+      await this.loadResource(resourceType, resourceId, userId, 'manage', 'change collaborator roles');
+      const collaborator = await this.findCollaborator(resourceType, resourceId, collaboratorId);
+
+      collaborator.role = role;
+      await collaborator.save();
+
+      return {
+        success: true,
+        data: this.toSummary(collaborator, await this.findUsers([collaborator.userId])),
+      };
+    } catch (error) {
+      return handleCollaboratorServiceError(error, 'Failed to update collaborator', 'COLLABORATOR_UPDATE_FAILED');
+    }
+  }
+
+  /**
+   * Remove a collaborator; collaborators may also remove themselves
+   */
+  static async removeCollaborator(
+    resourceType: CollaborationResource,
+    resourceId: string,
+    collaboratorId: string,
+    userId: string
+  ): Promise<ServiceResult<void>> {
+    try {
+      const resource = await this.findResource(resourceType, resourceId);
+      const collaborator = await this.findCollaborator(resourceType, resourceId, collaboratorId);
+
+      const isSelf = collaborator.userId.toString() === userId;
+      if (!isSelf && !(await this.hasPermission(resourceType, resource, userId, 'manage'))) {
+        throw new CollaborationPermissionError('remove collaborators');
+      }
+
+      await Collaborator.findByIdAndDelete(collaborator._id);
+      await this.revokeAccess(resource, collaborator.userId);
+
+      return { success: true };
+    } catch (error) {
+      return handleCollaboratorServiceError(error, 'Failed to remove collaborator', 'COLLABORATOR_REMOVE_FAILED');
+    }
+  }
+
+  /**
+   * Invitations waiting for a user's answer, newest first
+   */
+  static async listInvitations(userId: string): Promise<ServiceResult<CollaborationInvitation[]>> {
+    try {
+      const invitations = await Collaborator.find({
+        userId: new Types.ObjectId(userId),
+        status: 'pending',
+      }).sort({ createdAt: -1 });
+
+      const inviters = await this.findUsers(invitations.map(invitation => invitation.invitedBy));
+      const resources = await this.findResourceNames(invitations);
+
+      return {
+        success: true,
+        data: invitations
+          .filter(invitation => resources.has(invitation.resourceId.toString()))
+          .map(invitation => ({
+            id: invitation._id.toString(),
+            resourceType: invitation.resourceType,
+            resourceId: invitation.resourceId.toString(),
+            resourceName: resources.get(invitation.resourceId.toString())!,
+            role: invitation.role,
+            invitedBy: inviters.get(invitation.invitedBy.toString())?.username ?? 'Unknown user',
+            invitedAt: invitation.createdAt,
+          })),
+      };
+    } catch (error) {
+      return handleCollaboratorServiceError(error, 'Failed to list invitations', 'INVITATION_LIST_FAILED');
+    }
+  }
+
+  /**
+   * Accept or decline an invitation; accepting grants access to the resource
+   */
+  static async respondToInvitation(
+    invitationId: string,
+    userId: string,
+    response: RespondToInvitation
+  ): Promise<ServiceResult<CollaborationInvitation>> {
+    try {
+      const invitation = await Collaborator.findById(invitationId);
+      if (!invitation || invitation.userId.toString() !== userId) {
+        throw new CollaboratorNotFoundError(invitationId);
+      }
+      if (invitation.status !== 'pending') {
+        throw new CollaboratorConflictError(`This invitation was already ${invitation.status}`);
+      }
+
+      const resource = await this.findResource(invitation.resourceType, invitation.resourceId.toString());
+
+      invitation.status = response.status;
+      invitation.respondedAt = new Date();
+      await invitation.save();
+
+      if (response.status === 'accepted') {
+        await this.grantAccess(resource, invitation.userId);
+      }
+
+      const inviters = await this.findUsers([invitation.invitedBy]);
+
+      return {
+        success: true,
+        data: {
+          id: invitation._id.toString(),
+          resourceType: invitation.resourceType,
+          resourceId: invitation.resourceId.toString(),
+          resourceName: resource.name,
+          role: invitation.role,
+          invitedBy: inviters.get(invitation.invitedBy.toString())?.username ?? 'Unknown user',
+          invitedAt: invitation.createdAt,
+        },
+      };
+    } catch (error) {
+      return handleCollaboratorServiceError(error, 'Failed to respond to invitation', 'INVITATION_RESPONSE_FAILED');
+    }
+  }
+
+  /**
+   * Give a user a role without an invitation, e.g. a player whose character
+   * joined a party. Owners and accepted collaborators keep their role, and a
+   * pending invitation is accepted with the role it offered.
+   */
+  static async grantRole(
+    resourceType: CollaborationResource,
+    resource: CollaborationTarget,
+    userId: string,
+    role: CollaboratorRole,
+    grantedBy: string
+  ): Promise<void> {
+    if (resource.ownerId.toString() === userId) {
+      return;
+    }
+
+    const existing = await Collaborator.findOne({
+      resourceType,
+      resourceId: resource._id,
+      userId: new Types.ObjectId(userId),
+    });
+    if (existing?.status === 'accepted') {
+      return;
+    }
+
+    if (existing) {
+      existing.status = 'accepted';
+      existing.respondedAt = new Date();
+      await existing.save();
+    } else {
+      await Collaborator.create({
+        resourceType,
+        resourceId: resource._id,
+        userId: new Types.ObjectId(userId),
+        invitedBy: new Types.ObjectId(grantedBy),
+        role,
+        status: 'accepted',
+        respondedAt: new Date(),
+      });
+    }
+
+    await this.grantAccess(resource, new Types.ObjectId(userId));
+  }
+
+  /**
+   * Take back a role given with grantRole, e.g. when a player's last character
+   * leaves a party. Collaborators holding a different role keep it.
+   */
+  static async revokeRole(
+    resourceType: CollaborationResource,
+    resource: CollaborationTarget,
+    userId: string,
+    role: CollaboratorRole
+  ): Promise<void> {
+    const revoked = await Collaborator.findOneAndDelete({
+      resourceType,
+      resourceId: resource._id,
+      userId: new Types.ObjectId(userId),
+      role,
+      status: 'accepted',
+    });
+
+    if (revoked) {
+      await this.revokeAccess(resource, revoked.userId);
+    }
+  }
+
+  /**
+   * Remove all collaborators of a deleted encounter or party
+   */
+  static async clearCollaborators(resourceType: CollaborationResource, resourceId: string): Promise<void> {
+    await Collaborator.deleteMany({ resourceType, resourceId: new Types.ObjectId(resourceId) });
+  }
+
+  private static async findResource(
+    resourceType: CollaborationResource,
+    resourceId: string
+  ): Promise<CollaborationTarget> {
+    const resource = resourceType === 'party'
+      ? await Party.findById(resourceId)
+      : await Encounter.findById(resourceId);
+
+    if (!resource) {
+      throw new CollaborationResourceNotFoundError(resourceType, resourceId);
+    }
+
+    return resource;
+  }
+
+  private static async loadResource(
+    resourceType: CollaborationResource,
+    resourceId: string,
+    userId: string,
+    permission: CollaborationPermission,
+    action: string
+  ): Promise<CollaborationTarget> {
+    const resource = await this.findResource(resourceType, resourceId);
+
+    if (!(await this.hasPermission(resourceType, resource, userId, permission))) {
+      throw new CollaborationPermissionError(action);
+    }
+
+    return resource;
+  }
+
+  private static async findCollaborator(
+    resourceType: CollaborationResource,
+    resourceId: string,
+    collaboratorId: string
+  ): Promise<ICollaborator> {
+    const collaborator = await Collaborator.findById(collaboratorId);
+    if (
+      !collaborator ||
+      collaborator.resourceType !== resourceType ||
+      collaborator.resourceId.toString() !== resourceId
+    ) {
+      throw new CollaboratorNotFoundError(collaboratorId);
+    }
+
+    return collaborator;
+  }
+
+  private static async findInvitee(identifier: string): Promise<CollaboratorUser> {
+    const invitee = identifier.includes('@')
+      ? await User.findByEmail(identifier)
+      : await User.findByUsername(identifier);
+
+    if (!invitee) {
+      throw new InviteeNotFoundError(identifier);
+    }
+
+    return invitee;
+  }
+
+  private static async findUsers(userIds: Types.ObjectId[]): Promise<Map<string, CollaboratorUser>> {
+    if (userIds.length === 0) {
+      return new Map();
+    }
+
+    const users: CollaboratorUser[] = await User.find({ _id: { $in: userIds } }).select('username email').lean();
+    return new Map(users.map(user => [user._id.toString(), user]));
+  }
+
+  private static async findResourceNames(invitations: ICollaborator[]): Promise<Map<string, string>> {
+    const idsOf = (type: CollaborationResource) =>
+      invitations.filter(invitation => invitation.resourceType === type).map(invitation => invitation.resourceId);
+
+    const [encounters, parties] = await Promise.all([
+      Encounter.find({ _id: { $in: idsOf('encounter') } }).select('name').lean(),
+      Party.find({ _id: { $in: idsOf('party') } }).select('name').lean(),
+    ]);
+
+    return new Map(
+      [...encounters, ...parties].map(resource => [resource._id.toString(), resource.name])
+    );
+  }
+
+  private static async grantAccess(resource: CollaborationTarget, userId: Types.ObjectId): Promise<void> {
+    if (!resource.sharedWith.some(id => id.equals(userId))) {
+      resource.sharedWith.push(userId);
+      await resource.save();
+    }
+  }
+
+  private static async revokeAccess(resource: CollaborationTarget, userId: Types.ObjectId): Promise<void> {
+    const remaining = resource.sharedWith.filter(id => !id.equals(userId));
+    if (remaining.length !== resource.sharedWith.length) {
+      resource.sharedWith = remaining;
+      await resource.save();
+    }
+  }
+
+  private static toSummary(
+    collaborator: ICollaborator,
+    users: Map<string, CollaboratorUser>,
+    includeEmail = true
+  ): CollaboratorSummary {
+    const user = users.get(collaborator.userId.toString());
+
+    return {
+      id: collaborator._id.toString(),
+      userId: collaborator.userId.toString(),
+      username: user?.username ?? 'Unknown user',
+      ...(includeEmail && { email: user?.email ?? '' }),
+      role: collaborator.role,
+      status: collaborator.status,
+      invitedAt: collaborator.createdAt,
+      ...(collaborator.respondedAt && { respondedAt: collaborator.respondedAt }),
+    };
+  }
+}
@@ -0,0 +1,83 @@
+/**
+ * Custom error classes and error handling utilities for CollaboratorService
+ */
+
+import type { ServiceResult } from './UserServiceErrors';
+
+// Custom error classes for collaboration errors
+export class CollaboratorServiceError extends Error {
+  public code: string;
+
+  public statusCode: number;
+
+  constructor(message: string, code: string, statusCode: number = 400) {
+    super(message);
+    this.name = 'CollaboratorServiceError';
+    this.code = code;
+    this.statusCode = statusCode;
+  }
+}
+
+export class CollaborationResourceNotFoundError extends CollaboratorServiceError {
+  constructor(resourceType: string, identifier: string) {
+    super(`${resourceType === 'party' ? 'Party' : 'Encounter'} not found: ${identifier}`, 'RESOURCE_NOT_FOUND', 404);
+  }
+}
+
+export class CollaboratorNotFoundError extends CollaboratorServiceError {
+  constructor(identifier: string) {
+    super(`Collaborator not found: ${identifier}`, 'COLLABORATOR_NOT_FOUND', 404);
+  }
+}
+
+export class InviteeNotFoundError extends CollaboratorServiceError {
+  constructor(identifier: string) {
+    super(`No user found with email or username: ${identifier}`, 'INVITEE_NOT_FOUND', 404);
+  }
+}
+
+export class CollaborationPermissionError extends CollaboratorServiceError {
+  constructor(action: string) {
+    super(`You do not have permission to ${action}`, 'COLLABORATION_PERMISSION_DENIED', 403);
+  }
+}
+
+export class CollaboratorConflictError extends CollaboratorServiceError {
+  constructor(message: string) {
+    super(message, 'COLLABORATOR_CONFLICT', 409);
+  }
+}
+
+/**
+ * Handle errors and convert them to ServiceResult error format for collaboration
+ */
+export function handleCollaboratorServiceError(
+  error: unknown,
+  defaultMessage: string,
+  defaultCode: string,
+  defaultStatusCode: number = 500
+): ServiceResult<never> {
+  if (error instanceof CollaboratorServiceError) {
+    return {
+      success: false,
+      error: {
+        message: error.message,
+        code: error.code,
+        statusCode: error.statusCode,
+      },
+    };
+  }
+
+  // Handle MongoDB duplicate key errors from concurrent invitations
+  if (error instanceof Error && 'code' in error && (error as any).code === 11000) {
+    return {
+      success: false,
+      error: { message: 'This user has already been invited', code: 'COLLABORATOR_CONFLICT', statusCode: 409 },
+    };
+  }
+
+  return {
+    success: false,
+    error: { message: defaultMessage, code: defaultCode, statusCode: defaultStatusCode },
+  };
+}
@@ -2,9 +2,16 @@ import {
   calculateDamage,
   calculateDamageWithResistance,
   calculateCriticalDamage,
+  calculateDamageFromNotation,
   distributeDamageToMultipleTargets
 } from '../utils/dice/damage-calculation';
 
+import {
+  parseDiceExpression,
+  DiceNotationError,
+  type DiceEvaluationOptions
+} from '../utils/dice/dice-notation';
+
 import {
   DamageCalculationInput,
   DamageCalculationResult,
@@ -14,6 +21,7 @@ import {
   DamageDistributionMethod,
   DamagePreset,
   DamageStatistics,
+  DamageType,
   ResistanceType,
   COMMON_DAMAGE_PRESETS,
   DICE_VALUES
@@ -53,6 +61,25 @@ export class DamageCalculationService {
     }
   }
 
+  /**
+   * Calculate damage from dice notation such as `2d6+1d4+3` or `2d6r1`
+   */
+  public calculateDamageFromNotation(
+    notation: string,
+    damageType: DamageType,
+    options: DiceEvaluationOptions = {}
+  ): DamageCalculationResult {
+    this.validateNotation(notation);
+
+    try {
+      return calculateDamageFromNotation(notation, damageType, options);
+    } catch (error) {
+      throw new DamageCalculationServiceError(
+        `Failed to calculate damage: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  }
+
   /**
    * Calculate damage with resistance applied
    */
@@ -194,6 +221,28 @@ export class DamageCalculationService {
     }
   }
 
+  /**
+   * Validate dice notation against the damage calculation limits
+   */
+  private validateNotation(notation: string): void {
+    let diceCount = 0;
+    try {
+      diceCount = parseDiceExpression(notation).terms.reduce(
+        (count, term) => count + (term.type === 'dice' ? term.count : 0),
+        0
+      );
+    } catch (error) {
+      if (error instanceof DiceNotationError) {
+        throw new InvalidDamageInputError('notation', notation, error.reason);
+      }
+      throw error;
+    }
+
+    if (diceCount > DAMAGE_CALCULATION_LIMITS.MAX_DICE_COUNT) {
+      throw new DamageCalculationLimitError('Dice count', diceCount, DAMAGE_CALCULATION_LIMITS.MAX_DICE_COUNT);
+    }
+  }
+
   /**
    * Validate base damage result
    */
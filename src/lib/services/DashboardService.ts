@@ -0,0 +1,339 @@
+/**
+ * Dashboard Service
+ *
+ * Everything the dashboard shows in one read: owned item counts, usage
+ * against the subscription tier, recently edited items, running combats and
+ * a chronological activity feed.
+ */
+
+import { Types, type PipelineStage } from 'mongoose';
+import type { ServiceResult } from './UserServiceErrors';
+import { Character } from '../models/Character';
+import { Encounter } from '../models/encounter';
+import { Party } from '../models/Party';
+import { CombatEvent } from '../models/CombatEvent';
+import { CharacterRevision } from '../models/CharacterRevision';
+import User, { SUBSCRIPTION_LIMITS, type SubscriptionFeature } from '../models/User';
+import type { SubscriptionTier } from '../validations/user';
+import { LEVEL_UP_REVISION_PREFIX } from './CharacterServiceLevelUp';
+
+// How many recent items and activity entries the dashboard shows
+export const DASHBOARD_RECENT_LIMIT = 5;
+export const DASHBOARD_ACTIVITY_LIMIT = 10;
+
+export interface DashboardCounts {
+  characters: number;
+  encounters: number;
+  parties: number;
+  activeSessions: number;
+}
+
+/**
+ * Items used against the tier limit; a `null` limit means unlimited
+ */
+export interface DashboardUsage {
+  used: number;
+  limit: number | null;
+}
+
+export type DashboardEntityType = 'character' | 'encounter' | 'party';
+
+export interface DashboardRecentItem {
+  type: DashboardEntityType;
+  id: string;
+  name: string;
+  updatedAt: Date;
+}
+
+export interface DashboardActiveSession {
+  encounterId: string;
+  name: string;
+  round: number;
+  participantCount: number;
+  startedAt?: Date;
+}
+
+export type DashboardActivityType = 'encounter_created' | 'combat_finished' | 'character_leveled';
+
+export interface DashboardActivity {
+  id: string;
+  type: DashboardActivityType;
+  entityId: string;
+  entityName: string;
+  description: string;
+  timestamp: Date;
+}
+
+export interface DashboardSummary {
+  counts: DashboardCounts;
+  subscriptionTier: SubscriptionTier;
+  usage: Record<SubscriptionFeature, DashboardUsage>;
+  recent: DashboardRecentItem[];
+  activeSessions: DashboardActiveSession[];
+  activity: DashboardActivity[];
+}
+
+interface NamedDocument {
+  _id: Types.ObjectId;
+  name: string;
+  updatedAt: Date;
+}
+
+interface CountedFacet<T> {
+  total: { count: number }[];
+  recent: T[];
+}
+
+function errorResult(message: string, code: string, statusCode: number, error?: unknown): ServiceResult<never> {
+  if (error) {
+    console.error(`${message}:`, error);
+  }
+  return { success: false, error: { message, code, statusCode } };
+}
+
+const countOf = (facet?: { total: { count: number }[] }): number => facet?.total[0]?.count ?? 0;
+
+const toRecentItems = (type: DashboardEntityType, documents: NamedDocument[] = []): DashboardRecentItem[] =>
+  documents.map(document => ({
+    type,
+    id: document._id.toString(),
+    name: document.name,
+    updatedAt: document.updatedAt,
+  }));
+
+const byNewest = <T>(date: (_item: T) => Date) => (a: T, b: T) =>
+  new Date(date(b)).getTime() - new Date(date(a)).getTime();
+
+// Shared $facet stages: the total and the most recently edited documents
+const countAndRecentFacet: Record<string, PipelineStage.FacetPipelineStage[]> = {
+  total: [{ $count: 'count' }],
+  recent: [
+    { $sort: { updatedAt: -1 } },
+    { $limit: DASHBOARD_RECENT_LIMIT },
+    { $project: { name: 1, updatedAt: 1 } },
+  ],
+};
+
+export class DashboardService {
+
+  /**
+   * Build the dashboard for a user
+   */
+  static async getDashboard(userId: string): Promise<ServiceResult<DashboardSummary>> {
+    if (!Types.ObjectId.isValid(userId)) {
+      return errorResult('Invalid user ID', 'INVALID_USER_ID', 400);
+    }
+
+    try {
+      const ownerId = new Types.ObjectId(userId);
+      const [user, characters, encounters, parties] = await Promise.all([
+        User.findById(ownerId).select('subscriptionTier').lean(),
+        this.aggregateCharacters(ownerId),
+        this.aggregateEncounters(ownerId),
+        this.aggregateParties(ownerId),
+      ]);
+
+      const [combatsFinished, levelUps] = await Promise.all([
+        this.aggregateFinishedCombats(encounters.names),
+        this.aggregateLevelUps(characters.names),
+      ]);
+
+      const counts: DashboardCounts = {
+        characters: countOf(characters),
+        encounters: countOf(encounters),
+        parties: countOf(parties),
+        activeSessions: encounters.active.length,
+      };
+      const subscriptionTier = ((user as { subscriptionTier?: SubscriptionTier } | null)?.subscriptionTier
+        ?? 'free') as SubscriptionTier;
+
+      return {
+        success: true,
+        data: {
+          counts,
+          subscriptionTier,
+          usage: this.buildUsage(subscriptionTier, counts),
+          recent: [
+            ...toRecentItems('character', characters.recent),
+            ...toRecentItems('encounter', encounters.recent),
+            ...toRecentItems('party', parties.recent),
+          ]
+            .sort(byNewest(item => item.updatedAt))
+            .slice(0, DASHBOARD_RECENT_LIMIT),
+          activeSessions: encounters.active,
+          activity: [...encounters.created, ...combatsFinished, ...levelUps]
+            .sort(byNewest(entry => entry.timestamp))
+            .slice(0, DASHBOARD_ACTIVITY_LIMIT),
+        },
+      };
+    } catch (error) {
+      return errorResult('Failed to load dashboard', 'DASHBOARD_LOAD_FAILED', 500, error);
+    }
+  }
+
+  private static buildUsage(
+    tier: SubscriptionTier,
+    counts: DashboardCounts
+  ): Record<SubscriptionFeature, DashboardUsage> {
+    const limits = SUBSCRIPTION_LIMITS[tier] ?? SUBSCRIPTION_LIMITS.free;
+    const usage = (feature: SubscriptionFeature): DashboardUsage => ({
+      used: counts[feature],
+      limit: Number.isFinite(limits[feature]) ? limits[feature] : null,
+    });
+
+    return {
+      characters: usage('characters'),
+      encounters: usage('encounters'),
+      parties: usage('parties'),
+    };
+  }
+
+  private static async aggregateCharacters(ownerId: Types.ObjectId) {
+    const [result] = await Character.aggregate<CountedFacet<NamedDocument> & { names: NamedDocument[] }>([
+      { $match: { ownerId, isDeleted: { $ne: true } } },
+      {
+        $facet: {
+          ...countAndRecentFacet,
+          names: [{ $project: { name: 1 } }],
+        },
+      },
+    ]);
+
+    return { total: result?.total ?? [], recent: result?.recent ?? [], names: result?.names ?? [] };
+  }
+
+  private static async aggregateEncounters(ownerId: Types.ObjectId) {
+    const [result] = await Encounter.aggregate<
+      CountedFacet<NamedDocument> & {
+        names: NamedDocument[];
+        active: DashboardActiveSession[];
+        created: (NamedDocument & { createdAt: Date })[];
+      }
+    >([
+      { $match: { ownerId } },
+      {
+        $facet: {
+          ...countAndRecentFacet,
+          names: [{ $project: { name: 1 } }],
+          active: [
+            { $match: { 'combatState.isActive': true } },
+            { $sort: { 'combatState.startedAt': -1 } },
+            {
+              $project: {
+                _id: 0,
+                encounterId: { $toString: '$_id' },
+                name: 1,
+                round: '$combatState.currentRound',
+                participantCount: { $size: { $ifNull: ['$participants', []] } },
+                startedAt: '$combatState.startedAt',
+              },
+            },
+          ],
+          created: [
+            { $sort: { createdAt: -1 } },
+            { $limit: DASHBOARD_ACTIVITY_LIMIT },
+            { $project: { name: 1, createdAt: 1 } },
+          ],
+        },
+      },
+    ]);
+
+    return {
+      total: result?.total ?? [],
+      recent: result?.recent ?? [],
+      names: result?.names ?? [],
+      active: result?.active ?? [],
+      created: (result?.created ?? []).map((encounter): DashboardActivity => ({
+        id: `encounter-${encounter._id.toString()}`,
+        type: 'encounter_created',
+        entityId: encounter._id.toString(),
+        entityName: encounter.name,
+        description: `Created encounter ${encounter.name}`,
+        timestamp: encounter.createdAt,
+      })),
+    };
+  }
+
+  private static async aggregateParties(ownerId: Types.ObjectId) {
+    const [result] = await Party.aggregate<CountedFacet<NamedDocument>>([
+      { $match: { ownerId } },
+      { $facet: countAndRecentFacet },
+    ]);
+
+    return { total: result?.total ?? [], recent: result?.recent ?? [] };
+  }
+
+  private static async aggregateFinishedCombats(encounters: NamedDocument[]): Promise<DashboardActivity[]> {
+    if (encounters.length === 0) {
+      return [];
+    }
+
+    const names = new Map(encounters.map(encounter => [encounter._id.toString(), encounter.name]));
+    const events = await CombatEvent.aggregate<{
+      _id: Types.ObjectId;
+      encounterId: Types.ObjectId;
+      timestamp: Date;
+      rounds?: number;
+    }>([
+      {
+        $match: {
+          encounterId: { $in: encounters.map(encounter => encounter._id) },
+          kind: 'action',
+          action: 'combat_ended',
+        },
+      },
+      { $sort: { timestamp: -1 } },
+      { $limit: DASHBOARD_ACTIVITY_LIMIT },
+      { $project: { encounterId: 1, timestamp: 1, rounds: '$details.totalRounds' } },
+    ]);
+
+    return events.map(event => {
+      const name = names.get(event.encounterId.toString()) ?? 'Unknown encounter';
+      const rounds = event.rounds ? ` after ${event.rounds} ${event.rounds === 1 ? 'round' : 'rounds'}` : '';
+      return {
+        id: `combat-${event._id.toString()}`,
+        type: 'combat_finished',
+        entityId: event.encounterId.toString(),
+        entityName: name,
+        description: `Finished combat in ${name}${rounds}`,
+        timestamp: event.timestamp,
+      };
+    });
+  }
+
+  private static async aggregateLevelUps(characters: NamedDocument[]): Promise<DashboardActivity[]> {
+    if (characters.length === 0) {
+      return [];
+    }
+
+    const names = new Map(characters.map(character => [character._id.toString(), character.name]));
+    const revisions = await CharacterRevision.aggregate<{
+      _id: Types.ObjectId;
+      characterId: Types.ObjectId;
+      description: string;
+      createdAt: Date;
+    }>([
+      {
+        $match: {
+          characterId: { $in: characters.map(character => character._id) },
+          description: { $regex: `^${LEVEL_UP_REVISION_PREFIX}` },
+        },
+      },
+      { $sort: { createdAt: -1 } },
+      { $limit: DASHBOARD_ACTIVITY_LIMIT },
+      { $project: { characterId: 1, description: 1, createdAt: 1 } },
+    ]);
+
+    return revisions.map(revision => {
+      const name = names.get(revision.characterId.toString()) ?? 'Unknown character';
+      return {
+        id: `level-${revision._id.toString()}`,
+        type: 'character_leveled',
+        entityId: revision.characterId.toString(),
+        entityName: name,
+        description: `${name} ${revision.description.charAt(0).toLowerCase()}${revision.description.slice(1)}`,
+        timestamp: revision.createdAt,
+      };
+    });
+  }
+}
@@ -14,7 +14,9 @@ import { EncounterServiceParticipants } from './EncounterServiceParticipants';
 import { EncounterServiceSearch } from './EncounterServiceSearch';
 import { EncounterServiceTemplates } from './EncounterServiceTemplates';
 import { EncounterServiceAuth } from './EncounterServiceAuth';
+import { CollaboratorService } from './CollaboratorService';
 import { EncounterServiceImportExport } from './EncounterServiceImportExport';
+import { EncounterServiceDifficulty } from './EncounterServiceDifficulty';
 
 /**
  * Encounter Service Layer for D&D Encounter Tracker
@@ -142,6 +144,8 @@ export class EncounterService {
         throw new EncounterNotFoundError(encounterId);
       }
 
+      await CollaboratorService.clearCollaborators('encounter', encounterId);
+
       return {
         success: true,
         data: undefined,
@@ -180,9 +184,16 @@ export class EncounterService {
 
   static createTemplate = EncounterServiceTemplates.createTemplate;
 
+  // Difficulty
+  static getDifficultyBreakdown = EncounterServiceDifficulty.getDifficultyBreakdown;
+
   // Ownership and Permissions
   static checkOwnership = EncounterServiceAuth.checkOwnership;
 
+  static checkPermission = EncounterServiceAuth.checkPermission;
+
+  static getAccessRole = EncounterServiceAuth.getAccessRole;
+
   static shareEncounter = EncounterServiceAuth.shareEncounter;
 
   // Validation and Data Sanitization
@@ -5,9 +5,20 @@ import type { ServiceResult } from './UserServiceErrors';
 import {
   handleEncounterServiceError,
   EncounterNotFoundError,
+  EncounterPermissionError,
   EncounterValidationError,
 } from './EncounterServiceErrors';
 import { EncounterServiceValidation } from './EncounterServiceValidation';
+import { CollaboratorService } from './CollaboratorService';
+import type { AccessRole, CollaborationPermission } from '@/lib/utils/collaboration';
+
+// Wording used in permission errors for each permission
+const PERMISSION_ACTIONS: Record<CollaborationPermission, string> = {
+  view: 'viewing',
+  contribute: 'contributions',
+  edit: 'editing',
+  manage: 'management',
+};
 
 /**
  * Encounter Service - Authentication and Permissions Module
@@ -45,6 +56,47 @@ export class EncounterServiceAuth {
     }
   }
 
+  /**
+   * Work out the user's role on an encounter: owner, co-DM, player or viewer
+   */
+  static async getAccessRole(
+    encounter: Pick<IEncounter, '_id' | 'ownerId' | 'isPublic' | 'sharedWith'>,
+    userId: string
+  ): Promise<AccessRole | null> {
+    return CollaboratorService.getAccessRole('encounter', encounter, userId);
+  }
+
+  /**
+   * Load an encounter, checking that the user's role grants a permission
+   */
+  static async checkPermission(
+    encounterId: string,
+    userId: string,
+    permission: CollaborationPermission
+  ): Promise<ServiceResult<IEncounter>> {
+    try {
+      const encounter = await Encounter.findById(encounterId);
+      if (!encounter) {
+        throw new EncounterNotFoundError(encounterId);
+      }
+
+      if (!(await CollaboratorService.hasPermission('encounter', encounter, userId, permission))) {
+        throw new EncounterPermissionError(PERMISSION_ACTIONS[permission]);
+      }
+
+      return {
+        success: true,
+        data: encounter,
+      };
+    } catch (error) {
+      return handleEncounterServiceError(
+        error,
+        'Failed to check permissions',
+        'PERMISSION_CHECK_FAILED'
+      );
+    }
+  }
+
   /**
    * Share encounter with users
    */
@@ -0,0 +1,82 @@
+import { Encounter } from '@/lib/models/encounter';
+import { Character } from '@/lib/models/Character';
+import type { IEncounter } from '@/lib/models/encounter/interfaces';
+import type { EncounterDifficultyBreakdown } from '@/lib/utils/encounter-difficulty';
+import type { ServiceResult } from './UserServiceErrors';
+import {
+  handleEncounterServiceError,
+  EncounterNotFoundError,
+} from './EncounterServiceErrors';
+
+/**
+ * Encounter Service - Difficulty Module
+ *
+ * Rates encounters against the levels of the linked characters, falling
+ * back to the encounter's party when no player characters are added.
+ */
+export class EncounterServiceDifficulty {
+
+  /**
+   * Resolve character levels for the encounter's players or party
+   */
+  static async resolveCharacterLevels(encounter: IEncounter): Promise<number[] | undefined> {
+    const players = encounter.participants.filter(participant => participant.isPlayer);
+
+    if (players.length > 0) {
+      const characters = await Character.find({
+        _id: { $in: players.map(player => player.characterId) },
+      });
+      const levels = new Map(
+        characters.map(character => [character._id.toString(), character.level])
+      );
+
+      return players.map(
+        player =>
+          levels.get(player.characterId.toString()) ??
+          player.level ??
+          encounter.targetLevel ??
+          1
+      );
+    }
+
+    if (encounter.partyId) {
+      const members = await Character.find({
+        partyId: encounter.partyId,
+        type: 'pc',
+        isDeleted: { $ne: true },
+      });
+      if (members.length > 0) {
+        return members.map(member => member.level);
+      }
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Get the difficulty breakdown for an encounter
+   */
+  static async getDifficultyBreakdown(
+    encounterId: string
+  ): Promise<ServiceResult<EncounterDifficultyBreakdown>> {
+    try {
+      const encounter = await Encounter.findById(encounterId);
+      if (!encounter) {
+        throw new EncounterNotFoundError(encounterId);
+      }
+
+      const characterLevels = await EncounterServiceDifficulty.resolveCharacterLevels(encounter);
+
+      return {
+        success: true,
+        data: encounter.getDifficultyBreakdown(characterLevels),
+      };
+    } catch (error) {
+      return handleEncounterServiceError(
+        error,
+        'Failed to calculate encounter difficulty',
+        'ENCOUNTER_DIFFICULTY_FAILED'
+      );
+    }
+  }
+}
@@ -14,11 +14,30 @@ import type { ExportOptions, ImportOptions, EncounterExportData } from './encoun
 import { encounterExportSchema } from './encounter-import-export/types';
 import { convertToXml, parseXmlToData } from './encounter-import-export/formatConverter';
 import { prepareExportData } from './encounter-import-export/dataBuilder';
-import { processImportData } from './encounter-import-export/importProcessor';
-import { generateShareableLink, createTemplate } from './encounter-import-export/sharingUtils';
+import { buildImportData, processImportData } from './encounter-import-export/importProcessor';
+import { convertToFoundry, readFoundryEncounter } from './encounter-import-export/foundryFormat';
+import { convertToFightClub, readFightClubCompendium } from './encounter-import-export/fightClubFormat';
+import {
+  getExportJsonSchema,
+  upgradeExportData,
+  type ExportUpgradeResult,
+} from './encounter-import-export/schemaUpgrades';
+import {
+  generateShareableLink,
+  listShareLinks,
+  extendShareLink,
+  revokeShareLink,
+  resolveSharedEncounter,
+  cloneSharedEncounter,
+  createTemplate,
+  type EncounterShareLink,
+  type SharedEncounterView,
+} from './encounter-import-export/sharingUtils';
+import type { ShareScope } from '@/lib/models/EncounterShare';
 
 // Re-export types for external use
-export type { ExportOptions, ImportOptions, EncounterExportData };
+export type { ExportOptions, ImportOptions, EncounterExportData, ExportUpgradeResult };
+export type { EncounterShareLink, SharedEncounterView, ShareScope };
 
 /**
  * Encounter Import/Export Service
@@ -89,6 +108,66 @@ export class EncounterServiceImportExport {
     }
   }
 
+  /**
+   * Export encounter as a Foundry VTT actor and combat document
+   */
+  static async exportToFoundry(
+    encounterId: string,
+    userId: string,
+    options: ExportOptions = {}
+  ): Promise<ServiceResult<string>> {
+    try {
+      const exportData = await prepareExportData(encounterId, userId, 'foundry', options);
+      if (!exportData.success) {
+        return {
+          success: false,
+          error: exportData.error,
+        };
+      }
+
+      return {
+        success: true,
+        data: convertToFoundry(exportData.data!),
+      };
+    } catch (error) {
+      return handleEncounterServiceError(
+        error,
+        'Failed to export encounter to Foundry VTT',
+        'ENCOUNTER_EXPORT_FOUNDRY_FAILED'
+      );
+    }
+  }
+
+  /**
+   * Export encounter NPCs and monsters as a Fight Club 5 compendium
+   */
+  static async exportToFightClub(
+    encounterId: string,
+    userId: string,
+    options: ExportOptions = {}
+  ): Promise<ServiceResult<string>> {
+    try {
+      const exportData = await prepareExportData(encounterId, userId, 'fightclub', options);
+      if (!exportData.success) {
+        return {
+          success: false,
+          error: exportData.error,
+        };
+      }
+
+      return {
+        success: true,
+        data: convertToFightClub(exportData.data!),
+      };
+    } catch (error) {
+      return handleEncounterServiceError(
+        error,
+        'Failed to export encounter to Fight Club 5',
+        'ENCOUNTER_EXPORT_FIGHTCLUB_FAILED'
+      );
+    }
+  }
+
   /**
    * Import encounter from JSON format
    */
@@ -97,7 +176,7 @@ export class EncounterServiceImportExport {
     options: ImportOptions
   ): Promise<ServiceResult<IEncounter>> {
     try {
-      const parsedData = JSON.parse(jsonData);
+      const parsedData = upgradeExportData(JSON.parse(jsonData)).data;
       const validationResult = encounterExportSchema.safeParse(parsedData);
 
       if (!validationResult.success) {
@@ -105,7 +184,7 @@ export class EncounterServiceImportExport {
           success: false,
           error: {
             message: 'Invalid JSON format',
-            details: validationResult.error.errors.map(e => ({ field: e.path.join('.'), message: e.message })),
+            details: validationResult.error.issues.map(e => ({ field: e.path.join('.'), message: e.message })),
             code: 'INVALID_IMPORT_FORMAT',
             statusCode: 400,
           },
@@ -130,7 +209,7 @@ export class EncounterServiceImportExport {
     options: ImportOptions
   ): Promise<ServiceResult<IEncounter>> {
     try {
-      const parsedData = parseXmlToData(xmlData);
+      const parsedData = upgradeExportData(parseXmlToData(xmlData)).data;
       const validationResult = encounterExportSchema.safeParse(parsedData);
 
       if (!validationResult.success) {
@@ -138,7 +217,7 @@ export class EncounterServiceImportExport {
           success: false,
           error: {
             message: 'Invalid XML format',
-            details: validationResult.error.errors.map(e => ({ field: e.path.join('.'), message: e.message })),
+            details: validationResult.error.issues.map(e => ({ field: e.path.join('.'), message: e.message })),
             code: 'INVALID_IMPORT_FORMAT',
             statusCode: 400,
           },
@@ -155,15 +234,159 @@ export class EncounterServiceImportExport {
     }
   }
 
+  /**
+   * Import encounter from a Foundry VTT encounter document, actor array or single actor
+   */
+  static async importFromFoundry(
+    foundryData: string,
+    options: ImportOptions
+  ): Promise<ServiceResult<IEncounter>> {
+    try {
+      const source = readFoundryEncounter(JSON.parse(foundryData));
+      return await this.importFromSource(buildImportData(source, 'foundry', 'Foundry VTT import'), options, 'Foundry VTT');
+    } catch (error) {
+      return handleEncounterServiceError(
+        error,
+        'Failed to import encounter from Foundry VTT',
+        'ENCOUNTER_IMPORT_FOUNDRY_FAILED'
+      );
+    }
+  }
+
+  /**
+   * Import encounter from a Fight Club 5 or Game Master 5 compendium
+   */
+  static async importFromFightClub(
+    xmlData: string,
+    options: ImportOptions
+  ): Promise<ServiceResult<IEncounter>> {
+    try {
+      const source = readFightClubCompendium(xmlData);
+      return await this.importFromSource(buildImportData(source, 'fightclub', 'Fight Club 5 import'), options, 'Fight Club 5');
+    } catch (error) {
+      return handleEncounterServiceError(
+        error,
+        'Failed to import encounter from Fight Club 5',
+        'ENCOUNTER_IMPORT_FIGHTCLUB_FAILED'
+      );
+    }
+  }
+
+  /**
+   * Validate converted VTT data against the export schema before creating the encounter
+   */
+  private static async importFromSource(
+    importData: EncounterExportData,
+    options: ImportOptions,
+    sourceName: string
+  ): Promise<ServiceResult<IEncounter>> {
+    const validationResult = encounterExportSchema.safeParse(importData);
+
+    if (!validationResult.success) {
+      return {
+        success: false,
+        error: {
+          message: `Invalid ${sourceName} format`,
+          details: validationResult.error.issues.map(e => ({ field: e.path.join('.'), message: e.message })),
+          code: 'INVALID_IMPORT_FORMAT',
+          statusCode: 400,
+        },
+      };
+    }
+
+    return await processImportData(validationResult.data, options);
+  }
+
+  /**
+   * Parse an export file and bring it up to the current export version,
+   * returning the notes describing each upgrade applied
+   */
+  static upgradeImportData(
+    data: string,
+    format: 'json' | 'xml'
+  ): ServiceResult<ExportUpgradeResult> {
+    try {
+      return {
+        success: true,
+        data: upgradeExportData(format === 'json' ? JSON.parse(data) : parseXmlToData(data)),
+      };
+    } catch (error) {
+      return handleEncounterServiceError(
+        error,
+        'Failed to read export file',
+        'ENCOUNTER_IMPORT_UPGRADE_FAILED'
+      );
+    }
+  }
+
+  /**
+   * JSON Schema for export files at the current version
+   */
+  static getExportJsonSchema(): Record<string, unknown> {
+    return getExportJsonSchema();
+  }
+
   /**
    * Generate shareable encounter link
    */
   static async generateShareableLink(
     encounterId: string,
     userId: string,
-    expiresIn?: number
+    expiresIn?: number,
+    scope?: ShareScope
   ): Promise<ServiceResult<string>> {
-    return generateShareableLink(encounterId, userId, expiresIn);
+    return generateShareableLink(encounterId, userId, expiresIn, scope);
+  }
+
+  /**
+   * List the share links created for an encounter
+   */
+  static async listShareLinks(
+    encounterId: string,
+    userId: string
+  ): Promise<ServiceResult<EncounterShareLink[]>> {
+    return listShareLinks(encounterId, userId);
+  }
+
+  /**
+   * Set a new expiry for a share link
+   */
+  static async extendShareLink(
+    encounterId: string,
+    shareId: string,
+    userId: string,
+    expiresIn: number
+  ): Promise<ServiceResult<EncounterShareLink>> {
+    return extendShareLink(encounterId, shareId, userId, expiresIn);
+  }
+
+  /**
+   * Revoke a share link so its token stops working
+   */
+  static async revokeShareLink(
+    encounterId: string,
+    shareId: string,
+    userId: string
+  ): Promise<ServiceResult<EncounterShareLink>> {
+    return revokeShareLink(encounterId, shareId, userId);
+  }
+
+  /**
+   * Open the encounter behind a share token
+   */
+  static async resolveSharedEncounter(token: string): Promise<ServiceResult<SharedEncounterView>> {
+    return resolveSharedEncounter(token);
+  }
+
+  /**
+   * Copy the encounter behind a template share token for a user
+   */
+  static async cloneSharedEncounter(
+    token: string,
+    userId: string,
+    name?: string
+  ): Promise<ServiceResult<IEncounter>> {
+    return cloneSharedEncounter(token, userId, name);
   }
 
   /**
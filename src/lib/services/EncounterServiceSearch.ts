@@ -7,6 +7,32 @@ import {
   InvalidEncounterIdError,
 } from './EncounterServiceErrors';
 import { EncounterServiceValidation } from './EncounterServiceValidation';
+import { CampaignService } from './CampaignService';
+
+/**
+ * Filters for an encounter search
+ *
+ * Filtering by campaign needs the searching user's `userId`; only the
+ * campaign's owner can list its encounters.
+ */
+export type EncounterSearchCriteria = {
+  query?: string;
+  name?: string;
+  difficulty?: string | string[];
+  targetLevel?: number;
+  targetLevelMin?: number;
+  targetLevelMax?: number;
+  status?: string | string[];
+  tags?: string[];
+  ownerId?: string;
+  sortBy?: string;
+  sortOrder?: 'asc' | 'desc';
+  page?: number;
+  limit?: number;
+} & (
+  | { campaignId?: undefined; userId?: string }
+  | { campaignId: string; userId: string }
+);
 
 /**
  * Encounter Service - Search and Filtering Module
@@ -19,21 +45,7 @@ export class EncounterServiceSearch {
   /**
    * Search encounters with various filters
    */
-  static async searchEncounters(criteria: {
-    query?: string;
-    name?: string;
-    difficulty?: string | string[];
-    targetLevel?: number;
-    targetLevelMin?: number;
-    targetLevelMax?: number;
-    status?: string | string[];
-    tags?: string[];
-    ownerId?: string;
-    sortBy?: string;
-    sortOrder?: 'asc' | 'desc';
-    page?: number;
-    limit?: number;
-  }): Promise<ServiceResult<{
+  static async searchEncounters(criteria: EncounterSearchCriteria): Promise<ServiceResult<{
     encounters: IEncounter[];
     currentPage: number;
     totalPages: number;
@@ -42,6 +54,15 @@ export class EncounterServiceSearch {
     try {
       const searchParams = EncounterServiceSearch.normalizeSearchParams(criteria);
       const mongoQuery = EncounterServiceSearch.buildMongoQuery(searchParams);
+
+      if (criteria.campaignId) {
+        const scope = await CampaignService.getCampaignScope(criteria.campaignId, criteria.userId);
+        if (!scope.success || !scope.data) {
+          return { success: false, error: scope.error };
+        }
+        mongoQuery._id = { $in: scope.data.encounterIds.map(id => new Types.ObjectId(id)) };
+      }
+
       const { sortOption, skip } = EncounterServiceSearch.buildPaginationAndSort(searchParams);
 
       const [encounters, totalItems] = await Promise.all([
@@ -73,7 +94,7 @@ export class EncounterServiceSearch {
     }
   }
 
-  private static normalizeSearchParams(criteria: any) {
+  private static normalizeSearchParams(criteria: EncounterSearchCriteria) {
     return {
       query: criteria.query,
       name: criteria.name,
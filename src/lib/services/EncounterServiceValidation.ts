@@ -7,6 +7,7 @@ import {
   EncounterValidationError,
 } from './EncounterServiceErrors';
 import { createEncounterSchema } from '@/lib/validations/encounter';
+import { normalizeCondition } from '@/lib/utils/conditions';
 
 /**
  * Encounter Service - Validation and Data Sanitization Module
@@ -89,9 +90,11 @@ export class EncounterServiceValidation {
       if (sanitized[field]) sanitized[field] = DOMPurify.sanitize(sanitized[field]);
     });
 
-    // Sanitize conditions array
+    // Keep only recognised conditions, upgrading legacy free-text names
     if (Array.isArray(sanitized.conditions)) {
-      sanitized.conditions = sanitized.conditions.map((condition: string) => DOMPurify.sanitize(condition));
+      sanitized.conditions = sanitized.conditions
+        .map((condition: unknown) => typeof condition === 'string' ? normalizeCondition(condition) : condition)
+        .filter((condition: unknown) => normalizeCondition(condition) !== null);
     }
 
     return sanitized;
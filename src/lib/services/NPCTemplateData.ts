@@ -5,8 +5,19 @@
  */
 
 import { NPCTemplate } from '@/types/npc';
+import srdMonsters from './data/srd-monsters.json';
 
-export const SYSTEM_TEMPLATES: NPCTemplate[] = [
+/**
+ * The SRD 5.1 bestiary, including the miscellaneous creatures and NPCs appendices.
+ * Migration 005 seeds it into the `npctemplates` collection, which template
+ * searches read; clients search it through /api/npc-templates.
+ */
+export const SRD_TEMPLATES = srdMonsters as unknown as NPCTemplate[];
+
+/**
+ * Hand-written system templates; they are not part of the seeded SRD collection
+ */
+export const CURATED_TEMPLATES: NPCTemplate[] = [
   {
     id: 'system-guard-basic',
     name: 'Guard',
@@ -286,4 +297,12 @@ export const SYSTEM_TEMPLATES: NPCTemplate[] = [
     },
     isSystem: true,
   },
-];
\ No newline at end of file
+];
+
+const curatedNames = new Set(CURATED_TEMPLATES.map(template => template.name));
+
+// Curated templates carry behavior notes, so they take the place of the SRD entry of the same name
+export const SYSTEM_TEMPLATES: NPCTemplate[] = [
+  ...CURATED_TEMPLATES,
+  ...SRD_TEMPLATES.filter(template => !curatedNames.has(template.name)),
+];
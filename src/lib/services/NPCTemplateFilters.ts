@@ -47,6 +47,13 @@ export class NPCTemplateFilters {
     return templates.filter(t => t.size === size);
   }
 
+  /**
+   * Apply environment filter
+   */
+  static applyEnvironment(templates: NPCTemplate[], environment: string): NPCTemplate[] {
+    return templates.filter(t => t.environments?.some(e => e === environment));
+  }
+
   /**
    * Apply system/custom filter
    */
@@ -63,6 +70,7 @@ export class NPCTemplateFilters {
              this.matchesChallengeRating(template, filters.minCR, filters.maxCR) &&
              this.matchesSearch(template, filters.search) &&
              this.matchesSize(template, filters.size) &&
+             this.matchesEnvironment(template, filters.environment) &&
              this.matchesSystemFlag(template, filters.isSystem);
     });
   }
@@ -100,6 +108,13 @@ export class NPCTemplateFilters {
     return !size || template.size === size;
   }
 
+  /**
+   * Check if template matches environment filter; templates without environments match none
+   */
+  private static matchesEnvironment(template: NPCTemplate, environment?: string): boolean {
+    return !environment || (template.environments ?? []).some(e => e === environment);
+  }
+
   /**
    * Check if template matches system flag filter
    */
@@ -107,6 +122,38 @@ export class NPCTemplateFilters {
     return isSystem === undefined || template.isSystem === isSystem;
   }
 
+  /**
+   * Build the database query for the same filters, e.g. for the seeded system templates
+   */
+  static buildQuery(filters: TemplateFilter): Record<string, unknown> {
+    const query: Record<string, unknown> = {};
+
+    if (filters.category) {
+      query.category = filters.category;
+    }
+    if (filters.minCR !== undefined || filters.maxCR !== undefined) {
+      query.challengeRating = {
+        ...(filters.minCR !== undefined && { $gte: filters.minCR }),
+        ...(filters.maxCR !== undefined && { $lte: filters.maxCR }),
+      };
+    }
+    if (filters.search) {
+      const pattern = { $regex: filters.search.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'), $options: 'i' };
+      query.$or = [{ name: pattern }, { category: pattern }];
+    }
+    if (filters.size) {
+      query.size = filters.size;
+    }
+    if (filters.environment) {
+      query.environments = filters.environment;
+    }
+    if (filters.isSystem !== undefined) {
+      query.isSystem = filters.isSystem;
+    }
+
+    return query;
+  }
+
   /**
    * Sort templates by challenge rating and name
    */
@@ -1,10 +1,22 @@
 import {
+  NPCAction,
+  NPCSpell,
   NPCTemplate,
   ImportFormat,
   calculateProficiencyBonus,
   parseChallengeRating,
 } from '@/types/npc';
 import { DEFAULT_ABILITY_SCORES } from './__tests__/test-helpers';
+import { NPCTemplateRoll20Parser } from './NPCTemplateRoll20Parser';
+import { NPCTemplateStatblockParser } from './NPCTemplateStatblockParser';
+import { NPCTemplateTextParsing } from './NPCTemplateTextParsing';
+
+const DNDBEYOND_ACTION_LISTS: Array<[string, NPCAction['type']]> = [
+  ['actions', 'action'],
+  ['bonusActions', 'bonus_action'],
+  ['reactions', 'reaction'],
+  ['legendaryActions', 'legendary_action'],
+];
 
 /**
  * Handles importing NPC templates from various external formats
@@ -63,23 +75,23 @@ export class NPCTemplateImporter {
 
     return {
       name: data.name,
-      category: 'humanoid',
+      category: NPCTemplateTextParsing.parseCreatureType(String(data.type ?? data.creatureType ?? '')) ?? 'humanoid',
       challengeRating,
-      size: 'medium',
+      size: NPCTemplateTextParsing.parseSize(String(data.size ?? '')) ?? 'medium',
       stats: this.createDnDBeyondStats(data, challengeRating),
       equipment: [],
-      spells: [],
-      actions: [],
+      spells: this.parseDnDBeyondSpells(data.spells),
+      actions: this.parseDnDBeyondActions(data),
       isSystem: false,
     };
   }
 
-  private static parseRoll20Import(_data: any): Omit<NPCTemplate, 'id'> {
-    throw new Error('Roll20 import not yet implemented');
+  private static parseRoll20Import(data: any): Omit<NPCTemplate, 'id'> {
+    return NPCTemplateRoll20Parser.parse(data);
   }
 
-  private static parseCustomImport(_data: any): Omit<NPCTemplate, 'id'> {
-    throw new Error('Custom import not yet implemented');
+  private static parseCustomImport(data: any): Omit<NPCTemplate, 'id'> {
+    return NPCTemplateStatblockParser.parse(data);
   }
 
   private static createStatsFromData(data: any) {
@@ -112,19 +124,47 @@ export class NPCTemplateImporter {
       },
       hitPoints: { maximum: data.hp || 1, current: data.hp || 1, temporary: 0 },
       armorClass: data.ac || 10,
-      speed: data.speed || 30,
+      speed: data.speed ? NPCTemplateTextParsing.parseSpeed(data.speed) : 30,
       proficiencyBonus: calculateProficiencyBonus(challengeRating),
-      savingThrows: {},
-      skills: {},
-      damageVulnerabilities: [],
-      damageResistances: [],
-      damageImmunities: [],
-      conditionImmunities: [],
-      senses: [],
-      languages: [],
+      savingThrows: this.parseDnDBeyondModifiers(data.savingThrows, 'savingThrows'),
+      skills: this.parseDnDBeyondModifiers(data.skills, 'skills'),
+      damageVulnerabilities: NPCTemplateTextParsing.parseDamageList(data.damageVulnerabilities ?? data.vulnerabilities),
+      damageResistances: NPCTemplateTextParsing.parseDamageList(data.damageResistances ?? data.resistances),
+      damageImmunities: NPCTemplateTextParsing.parseDamageList(data.damageImmunities ?? data.immunities),
+      conditionImmunities: NPCTemplateTextParsing.parseList(data.conditionImmunities),
+      senses: NPCTemplateTextParsing.parseList(data.senses),
+      languages: NPCTemplateTextParsing.parseList(data.languages),
     };
   }
 
+  /**
+   * Saving throws and skills arrive either as statblock text or as a name to bonus map
+   */
+  private static parseDnDBeyondModifiers(value: any, kind: 'savingThrows' | 'skills'): Record<string, number> {
+    if (value && typeof value === 'object' && !Array.isArray(value)) return { ...value };
+    return kind === 'savingThrows'
+      ? NPCTemplateTextParsing.parseSavingThrows(value)
+      : NPCTemplateTextParsing.parseSkills(value);
+  }
+
+  private static parseDnDBeyondActions(data: any): NPCAction[] {
+    return DNDBEYOND_ACTION_LISTS.flatMap(([key, type]) =>
+      (Array.isArray(data[key]) ? data[key] : [])
+        .filter((action: any) => action?.name)
+        .map((action: any) =>
+          NPCTemplateTextParsing.parseAction(action.name, action.description ?? action.desc ?? '', type)
+        )
+    );
+  }
+
+  private static parseDnDBeyondSpells(spells: any): NPCSpell[] {
+    if (!Array.isArray(spells)) return [];
+    return spells
+      .map((spell: any) => (typeof spell === 'string' ? { name: spell, level: 0 } : spell))
+      .filter((spell: any) => spell?.name)
+      .map((spell: any) => ({ ...spell, level: Number(spell.level) || 0 }));
+  }
+
   private static parseEquipment(equipment: any[]): any[] {
     if (!equipment) return [];
     return equipment.map((item: any) => typeof item === 'string' ? { name: item } : item);
@@ -0,0 +1,248 @@
+/**
+ * Roll20 NPC Import
+ *
+ * Reads a Roll20 character export using the 5e OGL sheet's npc_* attributes
+ */
+
+import { NPCAction, NPCSpell, NPCTemplate, NPCTrait, calculateProficiencyBonus } from '@/types/npc';
+import { ABILITY_ABBREVIATIONS, NPCTemplateTextParsing } from './NPCTemplateTextParsing';
+
+interface Roll20Attribute {
+  name: string;
+  current?: unknown;
+}
+
+interface RepeatingRow {
+  section: string;
+  fields: Map<string, string>;
+}
+
+const ACTION_SECTIONS: Record<string, NPCAction['type']> = {
+  npcaction: 'action',
+  npcbonusaction: 'bonus_action',
+  npcreaction: 'reaction',
+  'npcaction-l': 'legendary_action',
+};
+
+const SKILLS = [
+  'acrobatics', 'animal_handling', 'arcana', 'athletics', 'deception', 'history',
+  'insight', 'intimidation', 'investigation', 'medicine', 'nature', 'perception',
+  'performance', 'persuasion', 'religion', 'sleight_of_hand', 'stealth', 'survival',
+];
+
+const ROW_FIELDS = [
+  'name', 'description', 'attack_type', 'attack_tohit', 'attack_range',
+  'attack_damage', 'attack_damagetype', 'attack_damage2', 'attack_damagetype2',
+  'spellname', 'spellschool', 'spellcastingtime', 'spellrange', 'spellduration',
+  'spelldescription', 'spellcomp_v', 'spellcomp_s', 'spellcomp_m', 'spellcomp_materials',
+];
+
+// Row ids may contain underscores, so only the sections and fields read here are matched
+const REPEATING_PATTERN = new RegExp(
+  `^repeating_(npcaction-l|npcaction|npcbonusaction|npcreaction|npctrait|spell-cantrip|spell-\\d)_(.+)_(${ROW_FIELDS.join('|')})$`
+);
+
+export class NPCTemplateRoll20Parser {
+
+  /**
+   * Build a template from a Roll20 character export
+   */
+  static parse(data: any): Omit<NPCTemplate, 'id'> {
+    const attributes = this.readAttributes(data);
+    const get = (name: string) => attributes.get(name)?.trim() ?? '';
+
+    const name = get('npc_name') || data?.name || data?.character?.name;
+    if (!name) throw new Error('name is required');
+
+    const challengeRating = NPCTemplateTextParsing.parseChallenge(get('npc_challenge'));
+    if (challengeRating === undefined) throw new Error('npc_challenge is required');
+
+    const rows = this.readRepeatingRows(attributes);
+    const traits = rows.filter(row => row.section === 'npctrait');
+    const spells = this.parseSpells(rows);
+
+    return {
+      name,
+      category: NPCTemplateTextParsing.parseCreatureType(get('npc_type')) ?? 'humanoid',
+      challengeRating,
+      size: NPCTemplateTextParsing.parseSize(get('npc_type')) ?? 'medium',
+      stats: {
+        abilityScores: {
+          strength: this.parseScore(get('strength')),
+          dexterity: this.parseScore(get('dexterity')),
+          constitution: this.parseScore(get('constitution')),
+          intelligence: this.parseScore(get('intelligence')),
+          wisdom: this.parseScore(get('wisdom')),
+          charisma: this.parseScore(get('charisma')),
+        },
+        hitPoints: NPCTemplateTextParsing.parseHitPoints(get('npc_hpbase'), get('npc_hpformula')),
+        armorClass: NPCTemplateTextParsing.parseInteger(get('npc_ac')) ?? 10,
+        speed: NPCTemplateTextParsing.parseSpeed(get('npc_speed')),
+        proficiencyBonus: NPCTemplateTextParsing.parseInteger(get('npc_pb')) ?? calculateProficiencyBonus(challengeRating),
+        savingThrows: this.parseSavingThrows(get),
+        skills: this.parseSkills(get),
+        damageVulnerabilities: NPCTemplateTextParsing.parseDamageList(get('npc_vulnerabilities')),
+        damageResistances: NPCTemplateTextParsing.parseDamageList(get('npc_resistances')),
+        damageImmunities: NPCTemplateTextParsing.parseDamageList(get('npc_immunities')),
+        conditionImmunities: NPCTemplateTextParsing.parseList(get('npc_condition_immunities')),
+        senses: NPCTemplateTextParsing.parseList(get('npc_senses')),
+        languages: NPCTemplateTextParsing.parseList(get('npc_languages')),
+      },
+      equipment: [],
+      spells: spells.length > 0 ? spells : this.parseSpellcastingTraits(traits),
+      actions: rows.flatMap(row => this.parseActionRow(row)),
+      ...(traits.length > 0 && { traits: this.parseTraits(traits) }),
+      isSystem: false,
+    };
+  }
+
+  /**
+   * Attribute values by name, from `attribs` on the export, its `character`, or a plain object
+   */
+  private static readAttributes(data: any): Map<string, string> {
+    const attribs: Roll20Attribute[] | undefined = data?.attribs ?? data?.character?.attribs;
+    if (Array.isArray(attribs)) {
+      return new Map(attribs.map(attribute => [attribute.name, String(attribute.current ?? '')]));
+    }
+
+    if (data && typeof data === 'object') {
+      return new Map(Object.entries(data).map(([key, value]) => [key, String(value ?? '')]));
+    }
+
+    throw new Error('Roll20 data must be a character export');
+  }
+
+  /**
+   * Group repeating section attributes into rows, keeping their order on the sheet
+   */
+  private static readRepeatingRows(attributes: Map<string, string>): RepeatingRow[] {
+    const rows = new Map<string, RepeatingRow>();
+    attributes.forEach((value, name) => {
+      const match = name.match(REPEATING_PATTERN);
+      if (!match) return;
+
+      const [, section, rowId, field] = match;
+      const key = `${section}_${rowId}`;
+      if (!rows.has(key)) rows.set(key, { section, fields: new Map() });
+      rows.get(key)!.fields.set(field, value.trim());
+    });
+    return Array.from(rows.values());
+  }
+
+  private static parseScore(value: string): number {
+    const score = NPCTemplateTextParsing.parseInteger(value) ?? 10;
+    return Math.min(30, Math.max(1, score));
+  }
+
+  /**
+   * Saving throw bonuses typed into the NPC sheet; abilities left blank are not proficient
+   */
+  private static parseSavingThrows(get: (_name: string) => string): Record<string, number> {
+    const savingThrows: Record<string, number> = {};
+    Object.entries(ABILITY_ABBREVIATIONS).forEach(([abbreviation, ability]) => {
+      const bonus = NPCTemplateTextParsing.parseInteger(get(`npc_${abbreviation}_save_base`));
+      if (bonus !== undefined) savingThrows[ability] = bonus;
+    });
+    return savingThrows;
+  }
+
+  private static parseSkills(get: (_name: string) => string): Record<string, number> {
+    const skills: Record<string, number> = {};
+    SKILLS.forEach(skill => {
+      const bonus = NPCTemplateTextParsing.parseInteger(get(`npc_${skill}_base`));
+      if (bonus !== undefined) skills[NPCTemplateTextParsing.toSkillKey(skill)] = bonus;
+    });
+    return skills;
+  }
+
+  private static parseActionRow(row: RepeatingRow): NPCAction[] {
+    const type = ACTION_SECTIONS[row.section];
+    const name = row.fields.get('name');
+    if (!type || !name) return [];
+
+    const description = row.fields.get('description') || this.describeAttack(row.fields);
+    const action = NPCTemplateTextParsing.parseAction(name, description, type);
+    const attackBonus = NPCTemplateTextParsing.parseInteger(row.fields.get('attack_tohit'));
+    const range = row.fields.get('attack_range');
+    const damage = this.formatDamage(row.fields);
+
+    return [{
+      ...action,
+      ...(attackBonus !== undefined && { attackBonus }),
+      ...(range && { range }),
+      ...(damage && { damage }),
+    }];
+  }
+
+  /**
+   * Attack text for actions that only fill in the sheet's attack fields
+   */
+  private static describeAttack(fields: Map<string, string>): string {
+    const toHit = fields.get('attack_tohit');
+    const range = fields.get('attack_range');
+    const damage = this.formatDamage(fields);
+    const attack = [
+      `${fields.get('attack_type') || 'Weapon'} Attack`,
+      toHit && `${toHit.startsWith('-') ? toHit : `+${toHit.replace(/^\+/, '')}`} to hit`,
+      range,
+    ].filter(Boolean).join(', ');
+
+    return damage ? `${attack}. Hit: ${damage} damage.` : `${attack}.`;
+  }
+
+  private static formatDamage(fields: Map<string, string>): string | undefined {
+    const parts = [['attack_damage', 'attack_damagetype'], ['attack_damage2', 'attack_damagetype2']]
+      .map(([dice, type]) => [fields.get(dice)?.replace(/\s+/g, ''), fields.get(type)?.toLowerCase()])
+      .filter(([dice]) => dice)
+      .map(parts => parts.filter(Boolean).join(' '));
+    return parts.length > 0 ? parts.join(' + ') : undefined;
+  }
+
+  /**
+   * Spells from the sheet's spell sections, such as repeating_spell-cantrip and repeating_spell-3
+   */
+  private static parseSpells(rows: RepeatingRow[]): NPCSpell[] {
+    return rows.flatMap(row => {
+      const level = row.section.match(/^spell-(cantrip|\d)$/)?.[1];
+      const name = row.fields.get('spellname');
+      if (!level || !name) return [];
+
+      const optional = (value: string | undefined) => value || undefined;
+      const spell: NPCSpell = {
+        name,
+        level: level === 'cantrip' ? 0 : parseInt(level, 10),
+        school: optional(row.fields.get('spellschool')),
+        castingTime: optional(row.fields.get('spellcastingtime')),
+        range: optional(row.fields.get('spellrange')),
+        components: this.formatComponents(row.fields),
+        duration: optional(row.fields.get('spellduration')),
+        description: optional(row.fields.get('spelldescription')),
+      };
+      return [spell];
+    });
+  }
+
+  private static formatComponents(fields: Map<string, string>): string | undefined {
+    const isChecked = (field: string) => !['', '0'].includes(fields.get(field) ?? '');
+    const materials = fields.get('spellcomp_materials');
+    const components = [
+      isChecked('spellcomp_v') && 'V',
+      isChecked('spellcomp_s') && 'S',
+      isChecked('spellcomp_m') && (materials ? `M (${materials})` : 'M'),
+    ].filter(Boolean);
+    return components.length > 0 ? components.join(', ') : undefined;
+  }
+
+  private static parseSpellcastingTraits(traits: RepeatingRow[]): NPCSpell[] {
+    return traits
+      .filter(trait => NPCTemplateTextParsing.isSpellcastingTrait(trait.fields.get('name') ?? ''))
+      .flatMap(trait => NPCTemplateTextParsing.parseSpellcasting(trait.fields.get('description') ?? ''));
+  }
+
+  private static parseTraits(traits: RepeatingRow[]): NPCTrait[] {
+    return traits.flatMap(trait => {
+      const name = trait.fields.get('name');
+      return name ? [{ name, description: trait.fields.get('description') || name }] : [];
+    });
+  }
+}
@@ -3,15 +3,18 @@ import {
   NPCTemplate,
   NPCTemplateSchema,
   TemplateFilter,
+  TemplateQuery,
   VariantType,
   ImportFormat,
   CreatureType,
 } from '@/types/npc';
-import { SYSTEM_TEMPLATES } from './NPCTemplateData';
+import { CURATED_TEMPLATES, SYSTEM_TEMPLATES } from './NPCTemplateData';
 import { NPCTemplateFilters } from './NPCTemplateFilters';
 import { NPCTemplateVariants } from './NPCTemplateVariants';
 import { NPCTemplateImporter } from './NPCTemplateImporter';
 import { ServiceHelpers } from './ServiceHelpers';
+import type { PaginationInfo } from '@/lib/validations/party';
+import { SystemNPCTemplate } from '@/lib/models/SystemNPCTemplate';
 
 // In-memory store for custom templates (in production, this would be a database)
 const customTemplates: NPCTemplate[] = [];
@@ -47,6 +50,42 @@ export class NPCTemplateService {
     }
   }
 
+  /**
+   * Get one page of the templates matching a query
+   *
+   * The SRD bestiary is searched in the `npctemplates` collection; curated and
+   * custom templates are matched in memory and merged in CR and name order.
+   */
+  static async searchTemplates(
+    query: TemplateQuery
+  ): Promise<ServiceResult<{ templates: NPCTemplate[]; pagination: PaginationInfo }>> {
+    try {
+      const { page, limit, ...filters } = query;
+      const skip = (page - 1) * limit;
+
+      const bundled = NPCTemplateFilters.applyAllFilters([...CURATED_TEMPLATES, ...customTemplates], filters);
+      const [seeded, seededCount] = filters.isSystem === false
+        ? [[], 0]
+        : await this.findSeededTemplates(filters, skip + limit);
+
+      const totalItems = seededCount + bundled.length;
+      return {
+        success: true,
+        data: {
+          templates: NPCTemplateFilters.sortTemplates([...seeded, ...bundled]).slice(skip, skip + limit),
+          pagination: {
+            currentPage: page,
+            totalPages: Math.ceil(totalItems / limit),
+            totalItems,
+            itemsPerPage: limit,
+          },
+        },
+      };
+    } catch (error) {
+      return ServiceHelpers.createErrorResult('INTERNAL_ERROR', 'Failed to search templates', error);
+    }
+  }
+
   /**
    * Get a specific template by ID
    */
@@ -258,4 +297,28 @@ export class NPCTemplateService {
     return NPCTemplateVariants.applyVariant(baseTemplate, variantType);
   }
 
+  /**
+   * The first `count` seeded templates matching the filters, and how many match;
+   * curated templates replace the seeded entry of the same name
+   */
+  private static async findSeededTemplates(
+    filters: TemplateFilter,
+    count: number
+  ): Promise<[NPCTemplate[], number]> {
+    const query = {
+      ...NPCTemplateFilters.buildQuery(filters),
+      name: { $nin: CURATED_TEMPLATES.map(template => template.name) },
+    };
+
+    return Promise.all([
+      SystemNPCTemplate.find(query)
+        .sort({ challengeRating: 1, name: 1 })
+        .collation({ locale: 'en' })
+        .limit(count)
+        .select('-_id')
+        .lean<NPCTemplate[]>(),
+      SystemNPCTemplate.countDocuments(query),
+    ]);
+  }
+
 }
\ No newline at end of file
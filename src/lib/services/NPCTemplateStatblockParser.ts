@@ -0,0 +1,204 @@
+/**
+ * Plain-Text Statblock Import
+ *
+ * Reads a statblock in the standard SRD layout, as pasted from a PDF: name,
+ * size and type line, the header fields up to Challenge, then traits and
+ * the action sections
+ */
+
+import { NPCAbilityScores, NPCAction, NPCTemplate, calculateProficiencyBonus } from '@/types/npc';
+import { NPCTemplateTextParsing } from './NPCTemplateTextParsing';
+
+interface StatblockEntry {
+  name: string;
+  lines: string[];
+}
+
+const HEADER_FIELDS = [
+  'Armor Class',
+  'Hit Points',
+  'Speed',
+  'Saving Throws',
+  'Skills',
+  'Damage Vulnerabilities',
+  'Damage Resistances',
+  'Damage Immunities',
+  'Condition Immunities',
+  'Senses',
+  'Languages',
+  'Challenge',
+  'Proficiency Bonus',
+] as const;
+
+type HeaderField = (typeof HEADER_FIELDS)[number];
+
+const SECTIONS: Record<string, NPCAction['type'] | 'lair'> = {
+  'actions': 'action',
+  'bonus actions': 'bonus_action',
+  'reactions': 'reaction',
+  'legendary actions': 'legendary_action',
+  'lair actions': 'lair',
+};
+
+const ABILITY_ORDER: Array<keyof NPCAbilityScores> = [
+  'strength', 'dexterity', 'constitution', 'intelligence', 'wisdom', 'charisma',
+];
+
+const ABILITY_SCORE_PATTERN = /(\d+)\s*\(\s*[+-]?\s*\d+\s*\)/g;
+
+// "Multiattack." or "Fire Breath (Recharge 5-6)." at the start of a line; sentences such
+// as "The dragon can take 3 legendary actions, choosing..." are too long or contain commas
+const ENTRY_PATTERN = /^([A-Z][^.,:]{0,48}?(?:\([^)]*\))?)\.\s+(.*)$/;
+
+const MINOR_WORDS = new Set(['a', 'an', 'and', 'at', 'for', 'in', 'of', 'on', 'or', 'the', 'to', 'with']);
+
+const SPELL_LINE_PATTERN = /^(cantrips|\d(?:st|nd|rd|th)[- ]level|at will|\d+\/day)/i;
+
+export class NPCTemplateStatblockParser {
+
+  /**
+   * Build a template from statblock text
+   */
+  static parse(data: unknown): Omit<NPCTemplate, 'id'> {
+    const text = typeof data === 'string' ? data : (data as { text?: unknown } | null)?.text;
+    if (typeof text !== 'string' || !text.trim()) throw new Error('Statblock text is required');
+
+    const lines = NPCTemplateTextParsing.normalizeText(text)
+      .split('\n')
+      .map(line => line.trim())
+      .filter(Boolean);
+
+    const [nameLine, typeLine = ''] = lines;
+    const { header, abilityText, bodyStart } = this.readHeader(lines);
+    const challengeRating = NPCTemplateTextParsing.parseChallenge(header.Challenge);
+    if (challengeRating === undefined) throw new Error('Challenge rating not found in statblock');
+
+    const { traits, actions } = this.readBody(lines.slice(bodyStart));
+    const spellcasting = traits.filter(trait => NPCTemplateTextParsing.isSpellcastingTrait(trait.name));
+
+    return {
+      name: this.formatName(nameLine),
+      category: NPCTemplateTextParsing.parseCreatureType(typeLine) ?? 'humanoid',
+      challengeRating,
+      size: NPCTemplateTextParsing.parseSize(typeLine) ?? 'medium',
+      stats: {
+        abilityScores: this.parseAbilityScores(abilityText),
+        hitPoints: NPCTemplateTextParsing.parseHitPoints(header['Hit Points']),
+        armorClass: NPCTemplateTextParsing.parseInteger(header['Armor Class']) ?? 10,
+        speed: NPCTemplateTextParsing.parseSpeed(header.Speed),
+        proficiencyBonus:
+          NPCTemplateTextParsing.parseInteger(header['Proficiency Bonus']) ?? calculateProficiencyBonus(challengeRating),
+        savingThrows: NPCTemplateTextParsing.parseSavingThrows(header['Saving Throws']),
+        skills: NPCTemplateTextParsing.parseSkills(header.Skills),
+        damageVulnerabilities: NPCTemplateTextParsing.parseDamageList(header['Damage Vulnerabilities']),
+        damageResistances: NPCTemplateTextParsing.parseDamageList(header['Damage Resistances']),
+        damageImmunities: NPCTemplateTextParsing.parseDamageList(header['Damage Immunities']),
+        conditionImmunities: NPCTemplateTextParsing.parseList(header['Condition Immunities']),
+        senses: NPCTemplateTextParsing.parseList(header.Senses),
+        languages: NPCTemplateTextParsing.parseList(header.Languages),
+      },
+      equipment: [],
+      spells: spellcasting.flatMap(trait => NPCTemplateTextParsing.parseSpellcasting(trait.lines.join('\n'))),
+      actions,
+      ...(traits.length > 0 && { traits: traits.map(trait => ({ name: trait.name, description: trait.lines.join('\n') })) }),
+      isSystem: false,
+    };
+  }
+
+  /**
+   * Collect header fields, joining lines that wrapped in the PDF, and the ability
+   * score block. The header ends after the Challenge line and an optional
+   * Proficiency Bonus line.
+   */
+  private static readHeader(lines: string[]) {
+    const header: Partial<Record<HeaderField, string>> = {};
+    let current: HeaderField | 'abilities' | null = null;
+    let abilityText = '';
+    let index = 2;
+
+    for (; index < lines.length; index++) {
+      const line = lines[index];
+      const field = HEADER_FIELDS.find(name => line.toLowerCase().startsWith(name.toLowerCase()));
+
+      if (current === 'Challenge' && field !== 'Proficiency Bonus') break;
+      if (current === 'Proficiency Bonus') break;
+
+      if (field) {
+        current = field;
+        header[field] = line.slice(field.length).trim();
+      } else if (/^STR\b/.test(line)) {
+        current = 'abilities';
+        abilityText += ` ${line.replace(/\b(STR|DEX|CON|INT|WIS|CHA)\b/g, '')}`;
+      } else if (current === 'abilities') {
+        abilityText += ` ${line.replace(/\b(STR|DEX|CON|INT|WIS|CHA)\b/g, '')}`;
+      } else if (current) {
+        header[current] = `${header[current]} ${line}`;
+      }
+    }
+
+    return { header, abilityText, bodyStart: index };
+  }
+
+  private static parseAbilityScores(text: string): NPCAbilityScores {
+    const scores = Array.from(text.matchAll(ABILITY_SCORE_PATTERN), match => parseInt(match[1], 10));
+    if (scores.length < ABILITY_ORDER.length) throw new Error('Ability scores not found in statblock');
+
+    return ABILITY_ORDER.reduce((abilityScores, ability, index) => ({
+      ...abilityScores,
+      [ability]: Math.min(30, Math.max(1, scores[index])),
+    }), {} as NPCAbilityScores);
+  }
+
+  /**
+   * Split the traits and action sections into named entries. Lines that do not
+   * start a new entry continue the previous one; spell list lines stay separate.
+   */
+  private static readBody(lines: string[]) {
+    const traits: StatblockEntry[] = [];
+    const sections: Array<{ type: NPCAction['type']; entries: StatblockEntry[] }> = [];
+    let entries = traits;
+
+    for (const line of lines) {
+      const sectionType = SECTIONS[line.toLowerCase()];
+      if (sectionType) {
+        entries = [];
+        if (sectionType !== 'lair') sections.push({ type: sectionType, entries });
+        continue;
+      }
+
+      const entry = line.match(ENTRY_PATTERN);
+      const last = entries[entries.length - 1];
+      if (entry && this.isEntryName(entry[1])) {
+        entries.push({ name: entry[1].trim(), lines: [entry[2]] });
+      } else if (last && SPELL_LINE_PATTERN.test(line)) {
+        last.lines.push(line);
+      } else if (last) {
+        last.lines[last.lines.length - 1] += ` ${line}`;
+      }
+    }
+
+    const actions = sections.flatMap(({ type, entries: sectionEntries }) =>
+      sectionEntries.map(entry => NPCTemplateTextParsing.parseAction(entry.name, entry.lines.join(' '), type))
+    );
+    return { traits, actions };
+  }
+
+  /**
+   * Entry names are in title case, which tells them apart from wrapped sentences
+   * such as "Strength saving throw. On a failure..."
+   */
+  private static isEntryName(name: string): boolean {
+    if (SPELL_LINE_PATTERN.test(name)) return false;
+
+    const words = name.replace(/\([^)]*\)/g, '').trim().split(/\s+/);
+    return words.every(word => /^[A-Z0-9]/.test(word) || MINOR_WORDS.has(word));
+  }
+
+  /**
+   * Statblock titles are often set in capitals in PDFs; use title case instead
+   */
+  private static formatName(name: string): string {
+    if (name !== name.toUpperCase()) return name;
+    return name.toLowerCase().replace(/\b([a-z])/g, letter => letter.toUpperCase());
+  }
+}
@@ -0,0 +1,262 @@
+/**
+ * NPC Statblock Text Parsing
+ *
+ * Shared helpers for reading statblock text, used by the Roll20, D&D Beyond
+ * and plain-text NPC template importers
+ */
+
+import {
+  ChallengeRating,
+  CreatureType,
+  CreatureTypeSchema,
+  NPCAbilityScores,
+  NPCAction,
+  NPCHitPoints,
+  NPCSpell,
+  Size,
+  SizeSchema,
+  parseChallengeRating,
+} from '@/types/npc';
+
+export const ABILITY_ABBREVIATIONS: Record<string, keyof NPCAbilityScores> = {
+  str: 'strength',
+  dex: 'dexterity',
+  con: 'constitution',
+  int: 'intelligence',
+  wis: 'wisdom',
+  cha: 'charisma',
+};
+
+const SPELL_GROUP_PATTERN =
+  /(cantrips|\d(?:st|nd|rd|th)[- ]level|at will|\d+\/day(?: each)?)\s*(?:\(([^)]*)\))?\s*:/gi;
+
+const EMPTY_VALUES = new Set(['', '-', 'none']);
+
+export class NPCTemplateTextParsing {
+
+  /**
+   * Replace PDF artefacts such as unicode minus signs, ligatures and non-breaking spaces
+   */
+  static normalizeText(text: string): string {
+    return text
+      .replace(/\r\n?/g, '\n')
+      .replace(/[\u2212\u2013\u2014]/g, '-')
+      .replace(/\uFB01/g, 'fi')
+      .replace(/\uFB02/g, 'fl')
+      .replace(/\u00A0/g, ' ');
+  }
+
+  /**
+   * Read an integer such as "15", "+5" or "-1"; undefined when there is none
+   */
+  static parseInteger(value: unknown): number | undefined {
+    if (typeof value === 'number') return Number.isFinite(value) ? Math.trunc(value) : undefined;
+    if (typeof value !== 'string') return undefined;
+
+    const match = this.normalizeText(value).match(/[+-]?\s*\d+/);
+    return match ? parseInt(match[0].replace(/\s/g, ''), 10) : undefined;
+  }
+
+  /**
+   * Read a challenge rating written as "1/4", "0.25" or "10 (5,900 XP)"
+   */
+  static parseChallenge(value: unknown): ChallengeRating | undefined {
+    if (typeof value === 'number') return parseChallengeRating(String(value));
+
+    const match = String(value ?? '').match(/\d+(?:\/\d+|\.\d+)?/);
+    if (!match) return undefined;
+
+    const decimals: Record<string, string> = { '0.125': '1/8', '0.25': '1/4', '0.5': '1/2' };
+    return parseChallengeRating(decimals[match[0]] ?? match[0]);
+  }
+
+  /**
+   * Find the size in a line such as "Medium humanoid (goblinoid), neutral evil"
+   */
+  static parseSize(text: string): Size | undefined {
+    const word = text.toLowerCase().match(/\b(tiny|small|medium|large|huge|gargantuan)\b/);
+    return word ? SizeSchema.parse(word[1]) : undefined;
+  }
+
+  /**
+   * Find the creature type in a type line; swarms use the type of their members
+   */
+  static parseCreatureType(text: string): CreatureType | undefined {
+    const words = text.toLowerCase().split(/[^a-z]+/);
+    for (const word of words) {
+      const result = CreatureTypeSchema.safeParse(word);
+      if (result.success) return result.data;
+
+      const singular = CreatureTypeSchema.safeParse(word.replace(/s$/, ''));
+      if (singular.success) return singular.data;
+    }
+    return undefined;
+  }
+
+  /**
+   * Read "45 (6d10 + 12)" into hit points with the hit dice formula
+   */
+  static parseHitPoints(value: unknown, formula?: string): NPCHitPoints {
+    const maximum = Math.max(1, this.parseInteger(value) ?? 1);
+    const dice = formula ?? String(value ?? '').match(/\(([^)]*d[^)]*)\)/)?.[1];
+
+    return {
+      maximum,
+      current: maximum,
+      temporary: 0,
+      ...(dice && { hitDice: dice.replace(/\s+/g, '') }),
+    };
+  }
+
+  /**
+   * Walking speed from "30 ft., fly 60 ft."
+   */
+  static parseSpeed(value: unknown): number {
+    return Math.max(0, this.parseInteger(value) ?? 30);
+  }
+
+  /**
+   * Split a comma or semicolon separated list such as senses or languages
+   */
+  static parseList(value: unknown): string[] {
+    const entries = Array.isArray(value) ? value.map(String) : String(value ?? '').split(/[,;]/);
+    return entries
+      .map(entry => this.normalizeText(entry).trim())
+      .filter(entry => !EMPTY_VALUES.has(entry.toLowerCase()));
+  }
+
+  /**
+   * Split damage resistances and immunities, keeping qualified groups such as
+   * "bludgeoning, piercing, and slashing from nonmagical attacks" together
+   */
+  static parseDamageList(value: unknown): string[] {
+    if (Array.isArray(value)) return this.parseList(value);
+
+    return String(value ?? '')
+      .split(';')
+      .flatMap(group => (/\b(from|nonmagical|except)\b/i.test(group) ? [group] : group.split(',')))
+      .map(entry => this.normalizeText(entry).trim().replace(/^and\s+/i, ''))
+      .filter(entry => !EMPTY_VALUES.has(entry.toLowerCase()));
+  }
+
+  /**
+   * Read "Dex +5, Con +9" into modifiers keyed by full ability name
+   */
+  static parseSavingThrows(value: unknown): Record<string, number> {
+    return this.parseModifiers(value, name => ABILITY_ABBREVIATIONS[name.slice(0, 3).toLowerCase()]);
+  }
+
+  /**
+   * Read "Perception +4, Sleight of Hand +6" into modifiers keyed by camel-cased skill name
+   */
+  static parseSkills(value: unknown): Record<string, number> {
+    return this.parseModifiers(value, name => this.toSkillKey(name));
+  }
+
+  /**
+   * Camel-cased key for a skill name, e.g. "Animal Handling" or "animal_handling" becomes "animalHandling"
+   */
+  static toSkillKey(name: string): string {
+    const [first, ...rest] = name.trim().toLowerCase().split(/[\s_]+/);
+    return first + rest.map(word => word.charAt(0).toUpperCase() + word.slice(1)).join('');
+  }
+
+  /**
+   * Build an action from its statblock name and text, reading the attack bonus,
+   * reach or range, damage, saving throw, recharge and limited uses
+   */
+  static parseAction(name: string, description: string, type: NPCAction['type']): NPCAction {
+    const text = this.normalizeText(description).trim();
+    const { name: actionName, recharge, uses } = this.parseActionName(name);
+    const attackBonus = text.match(/([+-]\d+) to hit/i)?.[1];
+    const range = text.match(/\b(?:reach|range) (\d+(?:\/\d+)? ft\.)/i)?.[1];
+    const save = text.match(/DC (\d+) (strength|dexterity|constitution|intelligence|wisdom|charisma) saving throw/i);
+    const damage = this.parseDamage(text);
+
+    return {
+      name: actionName,
+      type,
+      description: text || actionName,
+      ...(attackBonus && { attackBonus: parseInt(attackBonus, 10) }),
+      ...(damage && { damage }),
+      ...(save && { savingThrow: { ability: save[2].toLowerCase(), dc: parseInt(save[1], 10) } }),
+      ...(range && { range }),
+      ...(recharge && { recharge }),
+      ...(uses !== undefined && { uses, maxUses: uses }),
+    };
+  }
+
+  /**
+   * Damage dice and types from "Hit: 10 (2d6 + 3) slashing damage plus 3 (1d6) fire damage"
+   */
+  static parseDamage(text: string): string | undefined {
+    const parts = Array.from(
+      text.matchAll(/\((\d+d\d+(?:\s*[+-]\s*\d+)?)\)\s+([a-z]+) damage/gi),
+      match => `${match[1].replace(/\s+/g, '')} ${match[2].toLowerCase()}`
+    );
+    return parts.length > 0 ? parts.join(' + ') : undefined;
+  }
+
+  /**
+   * Spells listed in a spellcasting trait, one group per spell level or daily use count.
+   * Innate spells do not state their level and are recorded as level 0.
+   */
+  static parseSpellcasting(text: string): NPCSpell[] {
+    // Drop footnotes such as "* The archmage casts these spells on itself before combat."
+    const normalized = this.normalizeText(text).replace(/\s+/g, ' ').replace(/(^|\s)\*\s*[A-Z].*$/, '');
+    const groups = Array.from(normalized.matchAll(SPELL_GROUP_PATTERN));
+
+    return groups.flatMap((group, index) => {
+      const end = groups[index + 1]?.index ?? normalized.length;
+      const list = normalized.slice(group.index! + group[0].length, end);
+      return this.parseSpellGroup(group[1].toLowerCase(), list);
+    });
+  }
+
+  /**
+   * Whether a trait name introduces a spell list
+   */
+  static isSpellcastingTrait(name: string): boolean {
+    return /spellcasting/i.test(name);
+  }
+
+  private static parseSpellGroup(label: string, list: string): NPCSpell[] {
+    const level = label === 'cantrips' || label === 'at will' ? 0 : parseInt(label, 10);
+    const dailyUses = label.includes('/day') ? parseInt(label, 10) : undefined;
+
+    return list
+      .split(',')
+      .map(name => name.replace(/\*/g, '').replace(/\.\s.*$/, '').trim().replace(/\.$/, ''))
+      .filter(Boolean)
+      .map(name => ({
+        name,
+        level: dailyUses !== undefined ? 0 : level,
+        ...(dailyUses !== undefined && { usesRemaining: dailyUses, maxUses: dailyUses }),
+      }));
+  }
+
+  private static parseActionName(name: string): { name: string; recharge?: string; uses?: number } {
+    const normalized = this.normalizeText(name).trim();
+    const recharge = normalized.match(/\(Recharge(?:s after an?)? ([^)]+)\)/i);
+    const uses = normalized.match(/\((\d+)\/Day\)/i);
+
+    return {
+      name: normalized.replace(/\s*\((Recharge[^)]*|\d+\/Day)\)/gi, '').trim() || normalized,
+      ...(recharge && { recharge: recharge[1].trim() }),
+      ...(uses && { uses: parseInt(uses[1], 10) }),
+    };
+  }
+
+  private static parseModifiers(
+    value: unknown,
+    toKey: (_name: string) => string | undefined
+  ): Record<string, number> {
+    const modifiers: Record<string, number> = {};
+    for (const entry of this.parseList(value)) {
+      const match = entry.match(/^(.+?)\s*([+-]\s*\d+)$/);
+      const key = match && toKey(match[1]);
+      if (key) modifiers[key] = parseInt(match[2].replace(/\s/g, ''), 10);
+    }
+    return modifiers;
+  }
+}
@@ -7,11 +7,43 @@ import {
   type PaginationParams,
   type PartyListItem,
   type PaginationInfo,
+  type PartyRest,
+  type JoinRequestCreate,
+  type JoinRequestResponse,
+  type JoinRequestStatus,
+  type PartyInviteCreate,
+  type PartyInviteJoin,
 } from '@/lib/validations/party';
+import type { CollaborationPermission } from '@/lib/utils/collaboration';
 
 import { ServiceResult } from './PartyServiceErrors';
 import { PartyServiceCRUD } from './PartyServiceCRUD';
 import { PartyServiceSearch } from './PartyServiceSearch';
+import {
+  PartyServiceRest,
+  type PartyRestMember,
+  type PartyRestResult,
+} from './PartyServiceRest';
+
+import {
+  PartyServiceMembers,
+  type JoinableCharacter,
+  type PartyInviteLink,
+  type PartyInvitePreview,
+  type PartyJoinRequestSummary,
+  type PartyMemberList,
+} from './PartyServiceMembers';
+
+export type { PartyRestMember, PartyMemberRestResult, PartyRestResult } from './PartyServiceRest';
+export type {
+  JoinableCharacter,
+  PartyInviteLink,
+  PartyInvitePreview,
+  PartyInviteStatus,
+  PartyJoinRequestSummary,
+  PartyMember,
+  PartyMemberList,
+} from './PartyServiceMembers';
 
 /**
  * Party Service Layer for D&D Encounter Tracker
@@ -54,7 +86,7 @@ export class PartyService {
   }
 
   /**
-   * Update party (owner only)
+   * Update party (owner or co-DM)
    */
   static async updateParty(
     partyId: string,
@@ -123,6 +155,145 @@ export class PartyService {
     return PartyServiceSearch.getPartyStats(userId);
   }
 
+  // ================================
+  // Rests
+  // ================================
+
+  /**
+   * Get hit points and hit dice of every party member
+   */
+  static async getRestStatus(
+    partyId: string,
+    userId: string
+  ): Promise<ServiceResult<PartyRestMember[]>> {
+    return PartyServiceRest.getRestStatus(partyId, userId);
+  }
+
+  /**
+   * Take a short or long rest with the whole party (owner or co-DM)
+   */
+  static async restParty(
+    partyId: string,
+    userId: string,
+    rest: PartyRest
+  ): Promise<ServiceResult<PartyRestResult>> {
+    return PartyServiceRest.restParty(partyId, userId, rest);
+  }
+
+  // ================================
+  // Membership
+  // ================================
+
+  /**
+   * List party members and the user's characters that could join
+   */
+  static async listMembers(partyId: string, userId: string): Promise<ServiceResult<PartyMemberList>> {
+    return PartyServiceMembers.listMembers(partyId, userId);
+  }
+
+  /**
+   * Request to add one of the user's characters to a party
+   */
+  static async requestToJoin(
+    partyId: string,
+    userId: string,
+    request: JoinRequestCreate
+  ): Promise<ServiceResult<PartyJoinRequestSummary>> {
+    return PartyServiceMembers.requestToJoin(partyId, userId, request);
+  }
+
+  /**
+   * List a party's join requests (owner only)
+   */
+  static async listJoinRequests(
+    partyId: string,
+    userId: string,
+    status?: JoinRequestStatus
+  ): Promise<ServiceResult<PartyJoinRequestSummary[]>> {
+    return PartyServiceMembers.listJoinRequests(partyId, userId, status);
+  }
+
+  /**
+   * Approve or reject a join request (owner only)
+   */
+  static async respondToJoinRequest(
+    partyId: string,
+    requestId: string,
+    userId: string,
+    response: JoinRequestResponse
+  ): Promise<ServiceResult<PartyJoinRequestSummary>> {
+    return PartyServiceMembers.respondToJoinRequest(partyId, requestId, userId, response);
+  }
+
+  /**
+   * Withdraw a pending join request (the requesting player)
+   */
+  static async cancelJoinRequest(
+    partyId: string,
+    requestId: string,
+    userId: string
+  ): Promise<ServiceResult<void>> {
+    return PartyServiceMembers.cancelJoinRequest(partyId, requestId, userId);
+  }
+
+  /**
+   * Remove a character from a party (owner or the character's player)
+   */
+  static async removeMember(
+    partyId: string,
+    characterId: string,
+    userId: string
+  ): Promise<ServiceResult<void>> {
+    return PartyServiceMembers.removeMember(partyId, characterId, userId);
+  }
+
+  /**
+   * Create an invite code (owner only)
+   */
+  static async createInvite(
+    partyId: string,
+    userId: string,
+    options: PartyInviteCreate
+  ): Promise<ServiceResult<PartyInviteLink>> {
+    return PartyServiceMembers.createInvite(partyId, userId, options);
+  }
+
+  /**
+   * List a party's invite codes (owner only)
+   */
+  static async listInvites(partyId: string, userId: string): Promise<ServiceResult<PartyInviteLink[]>> {
+    return PartyServiceMembers.listInvites(partyId, userId);
+  }
+
+  /**
+   * Revoke an invite code (owner only)
+   */
+  static async revokeInvite(
+    partyId: string,
+    inviteId: string,
+    userId: string
+  ): Promise<ServiceResult<PartyInviteLink>> {
+    return PartyServiceMembers.revokeInvite(partyId, inviteId, userId);
+  }
+
+  /**
+   * Show the party behind an invite code
+   */
+  static async getInvitePreview(code: string, userId: string): Promise<ServiceResult<PartyInvitePreview>> {
+    return PartyServiceMembers.getInvitePreview(code, userId);
+  }
+
+  /**
+   * Join a party with the user's characters through an invite code
+   */
+  static async joinWithInvite(
+    code: string,
+    userId: string,
+    join: PartyInviteJoin
+  ): Promise<ServiceResult<{ partyId: string; members: JoinableCharacter[] }>> {
+    return PartyServiceMembers.joinWithInvite(code, userId, join);
+  }
+
   // ================================
   // Utility Methods
   // ================================
@@ -140,4 +311,15 @@ export class PartyService {
   static validatePartyOwnership(party: any, userId: string): boolean {
     return PartyServiceCRUD.validatePartyOwnership(party, userId);
   }
+
+  /**
+   * Validate if the user's role on a party grants a permission
+   */
+  static async validatePartyPermission(
+    party: any,
+    userId: string,
+    permission: CollaborationPermission
+  ): Promise<boolean> {
+    return PartyServiceCRUD.validatePartyPermission(party, userId, permission);
+  }
 }
\ No newline at end of file
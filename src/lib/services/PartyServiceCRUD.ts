@@ -1,10 +1,14 @@
 import { Types } from 'mongoose';
 import { Party, type IParty } from '@/lib/models/Party';
+import { Character } from '@/lib/models/Character';
+import { PartyJoinRequest } from '@/lib/models/PartyJoinRequest';
+import { PartyInvite } from '@/lib/models/PartyInvite';
 import {
   ServiceResult,
   PartyNotFoundError,
   PartyAccessDeniedError,
   PartyOwnershipError,
+  PartyPermissionError,
   PartyValidationError,
   handleServiceError,
 } from './PartyServiceErrors';
@@ -15,6 +19,8 @@ import {
   type PartyUpdate,
   type PartyListItem,
 } from '@/lib/validations/party';
+import type { CollaborationPermission } from '@/lib/utils/collaboration';
+import { CollaboratorService } from './CollaboratorService';
 
 /**
  * CRUD operations for party management
@@ -83,7 +89,7 @@ export class PartyServiceCRUD {
   }
 
   /**
-   * Update party (owner only)
+   * Update party (owner and co-DMs; only the owner may change sharing)
    */
   static async updateParty(
     partyId: string,
@@ -101,9 +107,15 @@ export class PartyServiceCRUD {
         throw new PartyNotFoundError(partyId);
       }
 
-      // Check ownership (only owner can update)
-      if (!this.validatePartyOwnership(party, userId)) {
-        throw new PartyOwnershipError('update this party');
+      // Owner and co-DMs can update
+      if (!(await this.validatePartyPermission(party, userId, 'edit'))) {
+        throw new PartyPermissionError('update this party');
+      }
+      if (
+        (validatedData.sharedWith !== undefined || validatedData.isPublic !== undefined) &&
+        !this.validatePartyOwnership(party, userId)
+      ) {
+        throw new PartyOwnershipError('change who can see this party');
       }
 
       // Validate party name if provided
@@ -149,8 +161,13 @@ export class PartyServiceCRUD {
         throw new PartyOwnershipError('delete this party');
       }
 
-      // Delete the party
+      // Delete the party, release its members and drop its collaborators,
+      // join requests and invites
       await Party.findByIdAndDelete(partyId);
+      await Character.updateMany({ partyId: party._id }, { $unset: { partyId: 1 } });
+      await CollaboratorService.clearCollaborators('party', partyId);
+      await PartyJoinRequest.deleteMany({ partyId: party._id });
+      await PartyInvite.deleteMany({ partyId: party._id });
 
       return {
         success: true,
@@ -192,6 +209,18 @@ export class PartyServiceCRUD {
     return party.ownerId.equals(userObjectId);
   }
 
+  /**
+   * Validate that the user's role on the party grants a permission; see
+   * ROLE_PERMISSIONS for what owners, co-DMs, players and viewers may do
+   */
+  static async validatePartyPermission(
+    party: IParty,
+    userId: string,
+    permission: CollaborationPermission
+  ): Promise<boolean> {
+    return CollaboratorService.hasPermission('party', party, userId, permission);
+  }
+
   /**
    * Convert Party document to PartyListItem format for frontend
    */
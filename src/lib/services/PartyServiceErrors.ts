@@ -70,6 +70,16 @@ export class PartyOwnershipError extends PartyServiceError {
   }
 }
 
+export class PartyPermissionError extends PartyServiceError {
+  constructor(action: string) {
+    super(
+      `You do not have permission to ${action}`,
+      'PARTY_PERMISSION_DENIED',
+      403
+    );
+  }
+}
+
 export class PartyMemberNotFoundError extends PartyServiceError {
   constructor(characterId: string, partyId: string) {
     super(
@@ -80,6 +90,40 @@ export class PartyMemberNotFoundError extends PartyServiceError {
   }
 }
 
+export class PartyJoiningDisabledError extends PartyServiceError {
+  constructor() {
+    super(
+      'This party is not accepting new members',
+      'PARTY_JOINING_DISABLED',
+      403
+    );
+  }
+}
+
+export class PartyMembershipConflictError extends PartyServiceError {
+  constructor(message: string) {
+    super(message, 'PARTY_MEMBERSHIP_CONFLICT', 409);
+  }
+}
+
+export class PartyJoinRequestNotFoundError extends PartyServiceError {
+  constructor(requestId: string) {
+    super(`Join request not found: ${requestId}`, 'PARTY_JOIN_REQUEST_NOT_FOUND', 404);
+  }
+}
+
+export class PartyInviteNotFoundError extends PartyServiceError {
+  constructor() {
+    super('Invite not found', 'PARTY_INVITE_NOT_FOUND', 404);
+  }
+}
+
+export class PartyInviteUnavailableError extends PartyServiceError {
+  constructor(reason: 'expired' | 'revoked') {
+    super(`This invite has ${reason === 'revoked' ? 'been revoked' : 'expired'}`, 'PARTY_INVITE_UNAVAILABLE', 410);
+  }
+}
+
 /**
  * Handle errors and convert them to ServiceResult error format
  */
@@ -0,0 +1,640 @@
+import crypto from 'crypto';
+import { Types } from 'mongoose';
+import { Party, type IParty } from '@/lib/models/Party';
+import { Character, type ICharacter } from '@/lib/models/Character';
+import User from '@/lib/models/User';
+import { PartyJoinRequest, type IPartyJoinRequest } from '@/lib/models/PartyJoinRequest';
+import { PartyInvite, type IPartyInvite } from '@/lib/models/PartyInvite';
+import {
+  ServiceResult,
+  PartyNotFoundError,
+  PartyAccessDeniedError,
+  PartyCapacityExceededError,
+  PartyInviteNotFoundError,
+  PartyInviteUnavailableError,
+  PartyJoiningDisabledError,
+  PartyJoinRequestNotFoundError,
+  PartyMemberNotFoundError,
+  PartyMembershipConflictError,
+  PartyPermissionError,
+  PartyValidationError,
+  handleServiceError,
+} from './PartyServiceErrors';
+import { PartyServiceCRUD } from './PartyServiceCRUD';
+import { CollaboratorService } from './CollaboratorService';
+import {
+  joinRequestCreateSchema,
+  partyInviteCreateSchema,
+  partyInviteJoinSchema,
+  type JoinRequestCreate,
+  type JoinRequestResponse,
+  type JoinRequestStatus,
+  type PartyInviteCreate,
+  type PartyInviteJoin,
+} from '@/lib/validations/party';
+
+/**
+ * A character in a party
+ */
+export interface PartyMember {
+  characterId: string;
+  name: string;
+  ownerId: string;
+  isOwnCharacter: boolean;
+  level: number;
+  classes: string[];
+}
+
+/**
+ * A character a user could bring into a party
+ */
+export interface JoinableCharacter {
+  characterId: string;
+  name: string;
+  level: number;
+}
+
+/**
+ * The members of a party as seen by one user
+ */
+export interface PartyMemberList {
+  members: PartyMember[];
+  availableCharacters: JoinableCharacter[];
+  canManage: boolean;
+}
+
+/**
+ * A request to add a character to a party, as shown to the party owner
+ */
+export interface PartyJoinRequestSummary {
+  id: string;
+  partyId: string;
+  characterId: string;
+  characterName: string;
+  userId: string;
+  username: string;
+  message?: string;
+  status: JoinRequestStatus;
+  createdAt: Date;
+  respondedAt?: Date;
+}
+
+export type PartyInviteStatus = 'active' | 'expired' | 'revoked';
+
+/**
+ * An invite code as shown to the party owner
+ */
+export interface PartyInviteLink {
+  id: string;
+  code: string;
+  url: string;
+  status: PartyInviteStatus;
+  uses: number;
+  expiresAt: Date;
+  createdAt: Date;
+}
+
+/**
+ * What an invite code shows before a player joins
+ */
+export interface PartyInvitePreview {
+  partyId: string;
+  partyName: string;
+  description: string;
+  memberCount: number;
+  maxMembers: number;
+  expiresAt: Date;
+  characters: JoinableCharacter[];
+}
+
+/**
+ * Party membership: join requests, invite codes and member removal.
+ * Members are characters whose `partyId` points at the party; players whose
+ * characters join are given the player role on the party, and lose it again
+ * when their last character leaves.
+ */
+export class PartyServiceMembers {
+
+  /**
+   * Party members, plus the user's own characters that could join and whether
+   * the user manages the party (read access)
+   */
+  static async listMembers(
+    partyId: string,
+    userId: string
+  ): Promise<ServiceResult<PartyMemberList>> {
+    try {
+      const party = await this.findParty(partyId);
+      if (!PartyServiceCRUD.validatePartyAccess(party, userId)) {
+        throw new PartyAccessDeniedError(partyId, userId);
+      }
+
+      const [members, availableCharacters, canManage] = await Promise.all([
+        this.findMembers(party._id),
+        this.findJoinableCharacters(userId),
+        PartyServiceCRUD.validatePartyPermission(party, userId, 'manage'),
+      ]);
+
+      return {
+        success: true,
+        data: {
+          members: members.map(member => ({
+            characterId: member._id.toString(),
+            name: member.name,
+            ownerId: member.ownerId.toString(),
+            isOwnCharacter: member.ownerId.toString() === userId,
+            level: this.totalLevel(member),
+            classes: member.classes.map(charClass => charClass.class),
+          })),
+          availableCharacters,
+          canManage,
+        },
+      };
+    } catch (error) {
+      return handleServiceError(error, 'Failed to list party members', 'PARTY_MEMBERS_LIST_ERROR');
+    }
+  }
+
+  /**
+   * Ask to add one of the user's characters to a party. Owners and co-DMs, and
+   * parties that do not require approval, add the character straight away.
+   */
+  static async requestToJoin(
+    partyId: string,
+    userId: string,
+    request: JoinRequestCreate
+  ): Promise<ServiceResult<PartyJoinRequestSummary>> {
+    try {
+      const { characterId, message } = joinRequestCreateSchema.parse(request);
+      const party = await this.findParty(partyId);
+      const canAddDirectly = await PartyServiceCRUD.validatePartyPermission(party, userId, 'edit');
+      if (!canAddDirectly && !party.settings.allowJoining) {
+        throw new PartyJoiningDisabledError();
+      }
+
+      const character = await this.findOwnCharacter(characterId, userId);
+      this.assertCanJoin(party, character);
+
+      const pending = await PartyJoinRequest.findOne({
+        partyId: party._id,
+        characterId: character._id,
+        status: 'pending',
+      });
+      if (pending) {
+        throw new PartyMembershipConflictError(`${character.name} is already waiting for approval`);
+      }
+
+      const approveNow = canAddDirectly || !party.settings.requireApproval;
+      if (approveNow) {
+        await this.addMembers(party, [character], userId);
+      }
+
+      const joinRequest = await PartyJoinRequest.create({
+        partyId: party._id,
+        characterId: character._id,
+        userId: new Types.ObjectId(userId),
+        message,
+        status: approveNow ? 'approved' : 'pending',
+        ...(approveNow && { respondedBy: new Types.ObjectId(userId), respondedAt: new Date() }),
+      });
+
+      return {
+        success: true,
+        data: await this.toJoinRequestSummary(joinRequest, character.name),
+      };
+    } catch (error) {
+      return handleServiceError(error, 'Failed to request to join party', 'PARTY_JOIN_REQUEST_ERROR');
+    }
+  }
+
+  /**
+   * Join requests of a party, newest first (owner only)
+   */
+  static async listJoinRequests(
+    partyId: string,
+    userId: string,
+    status: JoinRequestStatus = 'pending'
+  ): Promise<ServiceResult<PartyJoinRequestSummary[]>> {
+    try {
+      await this.findManagedParty(partyId, userId, 'view join requests');
+
+      const requests = await PartyJoinRequest.find({ partyId: new Types.ObjectId(partyId), status })
+        .sort({ createdAt: -1 });
+
+      const [characters, users] = await Promise.all([
+        Character.find({ _id: { $in: requests.map(request => request.characterId) } }).select('name').lean(),
+        User.find({ _id: { $in: requests.map(request => request.userId) } }).select('username').lean(),
+      ]);
+      const characterNames = new Map(characters.map(character => [character._id.toString(), character.name]));
+      const usernames = new Map(users.map(user => [user._id.toString(), user.username]));
+
+      return {
+        success: true,
+        data: requests.map(request =>
+          this.buildJoinRequestSummary(
+            request,
+            characterNames.get(request.characterId.toString()) ?? 'Unknown character',
+            usernames.get(request.userId.toString()) ?? 'Unknown user'
+          )
+        ),
+      };
+    } catch (error) {
+      return handleServiceError(error, 'Failed to list join requests', 'PARTY_JOIN_REQUEST_LIST_ERROR');
+    }
+  }
+
+  /**
+   * Approve or reject a pending join request (owner only); approving enforces
+   * the party's member limit
+   */
+  static async respondToJoinRequest(
+    partyId: string,
+    requestId: string,
+    userId: string,
+    response: JoinRequestResponse
+  ): Promise<ServiceResult<PartyJoinRequestSummary>> {
+    try {
+      const party = await this.findManagedParty(partyId, userId, 'answer join requests');
+      const joinRequest = await this.findJoinRequest(partyId, requestId);
+      if (joinRequest.status !== 'pending') {
+        throw new PartyMembershipConflictError(`This join request was already ${joinRequest.status}`);
+      }
+
+      const character = await Character.findById(joinRequest.characterId);
+      if (response.status === 'approved') {
+        if (!character || character.isDeleted) {
+          throw new PartyValidationError('character', 'The requested character no longer exists');
+        }
+        this.assertCanJoin(party, character);
+        await this.addMembers(party, [character], userId);
+      }
+
+      joinRequest.status = response.status;
+      joinRequest.respondedBy = new Types.ObjectId(userId);
+      joinRequest.respondedAt = new Date();
+      await joinRequest.save();
+
+      return {
+        success: true,
+        data: await this.toJoinRequestSummary(joinRequest, character?.name ?? 'Unknown character'),
+      };
+    } catch (error) {
+      return handleServiceError(error, 'Failed to answer join request', 'PARTY_JOIN_RESPONSE_ERROR');
+    }
+  }
+
+  /**
+   * Withdraw a pending join request (the player who sent it)
+   */
+  static async cancelJoinRequest(
+    partyId: string,
+    requestId: string,
+    userId: string
+  ): Promise<ServiceResult<void>> {
+    try {
+      const joinRequest = await this.findJoinRequest(partyId, requestId);
+      if (joinRequest.userId.toString() !== userId) {
+        throw new PartyPermissionError('withdraw this join request');
+      }
+      if (joinRequest.status !== 'pending') {
+        throw new PartyMembershipConflictError(`This join request was already ${joinRequest.status}`);
+      }
+
+      await PartyJoinRequest.findByIdAndDelete(joinRequest._id);
+
+      return { success: true };
+    } catch (error) {
+      return handleServiceError(error, 'Failed to withdraw join request', 'PARTY_JOIN_CANCEL_ERROR');
+    }
+  }
+
+  /**
+   * Take a character out of a party (owner, or the character's player); a
+   * player with no other character left in it loses the player role
+   */
+  static async removeMember(
+    partyId: string,
+    characterId: string,
+    userId: string
+  ): Promise<ServiceResult<void>> {
+    try {
+      const party = await this.findParty(partyId);
+      const character = await Character.findById(characterId);
+      if (!character || character.partyId?.toString() !== partyId) {
+        throw new PartyMemberNotFoundError(characterId, partyId);
+      }
+
+      const isOwnCharacter = character.ownerId.toString() === userId;
+      if (!isOwnCharacter && !(await PartyServiceCRUD.validatePartyPermission(party, userId, 'manage'))) {
+        throw new PartyPermissionError('remove this character');
+      }
+
+      const playsOtherMembers = await Character.exists({
+        _id: { $ne: character._id },
+        partyId: party._id,
+        ownerId: character.ownerId,
+        isDeleted: { $ne: true },
+      });
+
+      await party.removeMember(character._id);
+      if (!playsOtherMembers) {
+        await CollaboratorService.revokeRole('party', party, character.ownerId.toString(), 'player');
+      }
+
+      return { success: true };
+    } catch (error) {
+      return handleServiceError(error, 'Failed to remove party member', 'PARTY_MEMBER_REMOVE_ERROR');
+    }
+  }
+
+  /**
+   * Create an invite code for the party (owner only)
+   */
+  static async createInvite(
+    partyId: string,
+    userId: string,
+    options: PartyInviteCreate
+  ): Promise<ServiceResult<PartyInviteLink>> {
+    try {
+      const { expiresIn } = partyInviteCreateSchema.parse(options);
+      const party = await this.findManagedParty(partyId, userId, 'create invite links');
+
+      const invite = await PartyInvite.create({
+        code: this.generateInviteCode(),
+        partyId: party._id,
+        createdBy: new Types.ObjectId(userId),
+        expiresAt: new Date(Date.now() + expiresIn),
+      });
+
+      return { success: true, data: this.toInviteLink(invite) };
+    } catch (error) {
+      return handleServiceError(error, 'Failed to create invite', 'PARTY_INVITE_CREATE_ERROR');
+    }
+  }
+
+  /**
+   * Invite codes of a party, newest first (owner only)
+   */
+  static async listInvites(partyId: string, userId: string): Promise<ServiceResult<PartyInviteLink[]>> {
+    try {
+      await this.findManagedParty(partyId, userId, 'view invite links');
+
+      const invites = await PartyInvite.find({ partyId: new Types.ObjectId(partyId) }).sort({ createdAt: -1 });
+
+      return { success: true, data: invites.map(invite => this.toInviteLink(invite)) };
+    } catch (error) {
+      return handleServiceError(error, 'Failed to list invites', 'PARTY_INVITE_LIST_ERROR');
+    }
+  }
+
+  /**
+   * Revoke an invite code so it can no longer be used (owner only)
+   */
+  static async revokeInvite(
+    partyId: string,
+    inviteId: string,
+    userId: string
+  ): Promise<ServiceResult<PartyInviteLink>> {
+    try {
+      await this.findManagedParty(partyId, userId, 'revoke invite links');
+
+      const invite = await PartyInvite.findById(inviteId);
+      if (!invite || invite.partyId.toString() !== partyId) {
+        throw new PartyInviteNotFoundError();
+      }
+
+      if (!invite.revoked) {
+        invite.revoked = true;
+        invite.revokedAt = new Date();
+        await invite.save();
+      }
+
+      return { success: true, data: this.toInviteLink(invite) };
+    } catch (error) {
+      return handleServiceError(error, 'Failed to revoke invite', 'PARTY_INVITE_REVOKE_ERROR');
+    }
+  }
+
+  /**
+   * The party behind an invite code and the user's characters that could join it
+   */
+  static async getInvitePreview(code: string, userId: string): Promise<ServiceResult<PartyInvitePreview>> {
+    try {
+      const { invite, party } = await this.findActiveInvite(code);
+      const [memberCount, characters] = await Promise.all([
+        this.countMembers(party._id),
+        this.findJoinableCharacters(userId),
+      ]);
+
+      return {
+        success: true,
+        data: {
+          partyId: party._id.toString(),
+          partyName: party.name,
+          description: party.description,
+          memberCount,
+          maxMembers: party.settings.maxMembers,
+          expiresAt: invite.expiresAt,
+          characters,
+        },
+      };
+    } catch (error) {
+      return handleServiceError(error, 'Failed to open invite', 'PARTY_INVITE_OPEN_ERROR');
+    }
+  }
+
+  /**
+   * Bring the user's characters into a party through an invite code; the
+   * DM handed out the code, so no approval is needed
+   */
+  static async joinWithInvite(
+    code: string,
+    userId: string,
+    join: PartyInviteJoin
+  ): Promise<ServiceResult<{ partyId: string; members: JoinableCharacter[] }>> {
+    try {
+      const { characterIds } = partyInviteJoinSchema.parse(join);
+      const { invite, party } = await this.findActiveInvite(code);
+
+      const characters = await Promise.all(
+        [...new Set(characterIds)].map(characterId => this.findOwnCharacter(characterId, userId))
+      );
+      characters.forEach(character => this.assertCanJoin(party, character));
+
+      await this.addMembers(party, characters, invite.createdBy.toString(), userId);
+
+      invite.uses += 1;
+      await invite.save();
+
+      return {
+        success: true,
+        data: {
+          partyId: party._id.toString(),
+          members: characters.map(character => this.toJoinableCharacter(character)),
+        },
+      };
+    } catch (error) {
+      return handleServiceError(error, 'Failed to join party', 'PARTY_INVITE_JOIN_ERROR');
+    }
+  }
+
+  /**
+   * Adds characters to the party if they all fit, and gives each character's
+   * player the player role
+   */
+  private static async addMembers(
+    party: IParty,
+    characters: ICharacter[],
+    grantedBy: string,
+    playerId?: string
+  ): Promise<void> {
+    const result = await party.addMembers(characters.map(character => character._id));
+    if (result === 'full') {
+      throw new PartyCapacityExceededError(party.settings.maxMembers);
+    }
+    if (result === 'taken') {
+      throw new PartyMembershipConflictError('A character joined another party in the meantime');
+    }
+
+    const players = new Set(playerId ? [playerId] : characters.map(character => character.ownerId.toString()));
+    for (const player of players) {
+      await CollaboratorService.grantRole('party', party, player, 'player', grantedBy);
+    }
+  }
+
+  private static assertCanJoin(party: IParty, character: ICharacter): void {
+    if (character.partyId?.toString() === party._id.toString()) {
+      throw new PartyMembershipConflictError(`${character.name} is already in this party`);
+    }
+    if (character.partyId) {
+      throw new PartyMembershipConflictError(`${character.name} already belongs to another party`);
+    }
+  }
+
+  private static async findParty(partyId: string): Promise<IParty> {
+    const party = await Party.findById(partyId);
+    if (!party) {
+      throw new PartyNotFoundError(partyId);
+    }
+    return party;
+  }
+
+  private static async findManagedParty(partyId: string, userId: string, action: string): Promise<IParty> {
+    const party = await this.findParty(partyId);
+    if (!(await PartyServiceCRUD.validatePartyPermission(party, userId, 'manage'))) {
+      throw new PartyPermissionError(action);
+    }
+    return party;
+  }
+
+  private static async findOwnCharacter(characterId: string, userId: string): Promise<ICharacter> {
+    const character = await Character.findById(characterId);
+    if (!character || character.isDeleted) {
+      throw new PartyValidationError('character', `Character not found: ${characterId}`);
+    }
+    if (character.ownerId.toString() !== userId) {
+      throw new PartyPermissionError(`add ${character.name} to a party`);
+    }
+    return character;
+  }
+
+  private static async findJoinRequest(partyId: string, requestId: string): Promise<IPartyJoinRequest> {
+    const joinRequest = await PartyJoinRequest.findById(requestId);
+    if (!joinRequest || joinRequest.partyId.toString() !== partyId) {
+      throw new PartyJoinRequestNotFoundError(requestId);
+    }
+    return joinRequest;
+  }
+
+  private static async findActiveInvite(code: string): Promise<{ invite: IPartyInvite; party: IParty }> {
+    const invite = await PartyInvite.findOne({ code });
+    if (!invite) {
+      throw new PartyInviteNotFoundError();
+    }
+
+    const status = this.getInviteStatus(invite);
+    if (status !== 'active') {
+      throw new PartyInviteUnavailableError(status);
+    }
+
+    return { invite, party: await this.findParty(invite.partyId.toString()) };
+  }
+
+  private static async findMembers(partyId: Types.ObjectId): Promise<ICharacter[]> {
+    return Character.find({ partyId, isDeleted: { $ne: true } }).sort({ name: 1 });
+  }
+
+  private static async countMembers(partyId: Types.ObjectId): Promise<number> {
+    return Character.countDocuments({ partyId, isDeleted: { $ne: true } });
+  }
+
+  private static async findJoinableCharacters(userId: string): Promise<JoinableCharacter[]> {
+    const characters = await Character.find({
+      ownerId: new Types.ObjectId(userId),
+      partyId: { $exists: false },
+      isDeleted: { $ne: true },
+    }).sort({ name: 1 });
+
+    return characters.map(character => this.toJoinableCharacter(character));
+  }
+
+  private static async toJoinRequestSummary(
+    joinRequest: IPartyJoinRequest,
+    characterName: string
+  ): Promise<PartyJoinRequestSummary> {
+    const user = await User.findById(joinRequest.userId).select('username').lean();
+    return this.buildJoinRequestSummary(joinRequest, characterName, user?.username ?? 'Unknown user');
+  }
+
+  private static buildJoinRequestSummary(
+    joinRequest: IPartyJoinRequest,
+    characterName: string,
+    username: string
+  ): PartyJoinRequestSummary {
+    return {
+      id: joinRequest._id.toString(),
+      partyId: joinRequest.partyId.toString(),
+      characterId: joinRequest.characterId.toString(),
+      characterName,
+      userId: joinRequest.userId.toString(),
+      username,
+      ...(joinRequest.message && { message: joinRequest.message }),
+      status: joinRequest.status,
+      createdAt: joinRequest.createdAt,
+      ...(joinRequest.respondedAt && { respondedAt: joinRequest.respondedAt }),
+    };
+  }
+
+  private static toJoinableCharacter(character: ICharacter): JoinableCharacter {
+    return {
+      characterId: character._id.toString(),
+      name: character.name,
+      level: this.totalLevel(character),
+    };
+  }
+
+  private static totalLevel(character: ICharacter): number {
+    return character.classes.reduce((sum, charClass) => sum + charClass.level, 0);
+  }
+
+  private static getInviteStatus(invite: IPartyInvite): PartyInviteStatus {
+    if (invite.revoked) return 'revoked';
+    return invite.expiresAt.getTime() <= Date.now() ? 'expired' : 'active';
+  }
+
+  private static toInviteLink(invite: IPartyInvite): PartyInviteLink {
+    return {
+      id: invite._id.toString(),
+      code: invite.code,
+      url: `${process.env.NEXT_PUBLIC_BASE_URL || 'http://localhost:3000'}/parties/join/${invite.code}`,
+      status: this.getInviteStatus(invite),
+      uses: invite.uses,
+      expiresAt: invite.expiresAt,
+      createdAt: invite.createdAt,
+    };
+  }
+
+  private static generateInviteCode(): string {
+    return crypto.randomBytes(9).toString('base64url');
+  }
+}
@@ -0,0 +1,186 @@
+import { Party, type IParty } from '@/lib/models/Party';
+import { Character, type ICharacter } from '@/lib/models/Character';
+import {
+  ServiceResult,
+  PartyNotFoundError,
+  PartyAccessDeniedError,
+  PartyPermissionError,
+  PartyMemberNotFoundError,
+  PartyValidationError,
+  handleServiceError,
+} from './PartyServiceErrors';
+import { PartyServiceCRUD } from './PartyServiceCRUD';
+import { partyRestSchema, type HitDiceSpend, type PartyRest } from '@/lib/validations/party';
+import { abilityModifier } from '@/lib/utils/character-stats';
+import {
+  calculateLongRest,
+  calculateShortRest,
+  getHitDicePools,
+  getHitDiceSpendError,
+  type HitDicePool,
+  type HitDieSpend,
+  type RestOutcome,
+  type RestType,
+} from '@/lib/utils/rest';
+
+/**
+ * A party member's hit points and hit dice before a rest
+ */
+export interface PartyRestMember {
+  characterId: string;
+  name: string;
+  hitPoints: ICharacter['hitPoints'];
+  hitDice: HitDicePool[];
+  constitutionModifier: number;
+  exhaustion: number;
+}
+
+/**
+ * What a rest restored for one party member
+ */
+export interface PartyMemberRestResult {
+  characterId: string;
+  name: string;
+  hitPoints: ICharacter['hitPoints'];
+  hitPointsRestored: number;
+  hitDiceSpent: HitDieSpend[];
+  hitDiceRecovered: number;
+  resourcesRestored: string[];
+  exhaustion: number;
+}
+
+export interface PartyRestResult {
+  type: RestType;
+  members: PartyMemberRestResult[];
+}
+
+/**
+ * Short and long rests for every character in a party.
+ * Rest outcomes are written back to the character documents.
+ */
+export class PartyServiceRest {
+
+  /**
+   * Hit points and hit dice of every party member (read access)
+   */
+  static async getRestStatus(partyId: string, userId: string): Promise<ServiceResult<PartyRestMember[]>> {
+    try {
+      const party = await this.findParty(partyId);
+      if (!PartyServiceCRUD.validatePartyAccess(party, userId)) {
+        throw new PartyAccessDeniedError(partyId, userId);
+      }
+
+      const members = await this.findMembers(party);
+      return {
+        success: true,
+        data: members.map(member => ({
+          characterId: member._id.toString(),
+          name: member.name,
+          hitPoints: member.hitPoints,
+          hitDice: getHitDicePools(member),
+          constitutionModifier: abilityModifier(member.abilityScores.constitution),
+          exhaustion: member.exhaustion ?? 0,
+        })),
+      };
+    } catch (error) {
+      return handleServiceError(error, 'Failed to get party rest status', 'PARTY_REST_STATUS_ERROR');
+    }
+  }
+
+  /**
+   * Rests the whole party (owner and co-DMs). On a short rest each member spends the
+   * hit dice listed for it; members that are not listed spend none.
+   */
+  static async restParty(partyId: string, userId: string, rest: PartyRest): Promise<ServiceResult<PartyRestResult>> {
+    try {
+      const validatedRest = partyRestSchema.parse(rest);
+      const party = await this.findParty(partyId);
+      if (!(await PartyServiceCRUD.validatePartyPermission(party, userId, 'edit'))) {
+        throw new PartyPermissionError('rest this party');
+      }
+
+      const members = await this.findMembers(party);
+      const outcomes = validatedRest.type === 'short'
+        ? this.planShortRest(partyId, members, validatedRest.hitDice)
+        : members.map(member => ({ member, outcome: calculateLongRest(member) }));
+
+      await Promise.all(outcomes.map(({ member, outcome }) => this.saveOutcome(member, outcome)));
+      party.updateActivity();
+
+      return {
+        success: true,
+        data: {
+          type: validatedRest.type,
+          members: outcomes.map(({ member, outcome }) => ({
+            characterId: member._id.toString(),
+            name: member.name,
+            hitPoints: outcome.hitPoints,
+            hitPointsRestored: outcome.hitPointsRestored,
+            hitDiceSpent: outcome.hitDiceSpent,
+            hitDiceRecovered: outcome.hitDiceRecovered,
+            resourcesRestored: outcome.resourcesRestored,
+            exhaustion: outcome.exhaustion,
+          })),
+        },
+      };
+    } catch (error) {
+      return handleServiceError(error, 'Failed to rest party', 'PARTY_REST_ERROR');
+    }
+  }
+
+  /**
+   * Validates every member's hit dice before any character is changed
+   */
+  private static planShortRest(
+    partyId: string,
+    members: ICharacter[],
+    spends: HitDiceSpend[]
+  ): Array<{ member: ICharacter; outcome: RestOutcome }> {
+    const memberIds = new Set(members.map(member => member._id.toString()));
+    const unknown = spends.find(spend => !memberIds.has(spend.characterId));
+    if (unknown) {
+      throw new PartyMemberNotFoundError(unknown.characterId, partyId);
+    }
+
+    return members.map(member => {
+      const spend = spends.find(entry => entry.characterId === member._id.toString());
+      const count = spend?.count ?? 0;
+      const error = getHitDiceSpendError(member, count, spend?.rolls);
+      if (error) {
+        throw new PartyValidationError('hit dice', error);
+      }
+      return { member, outcome: calculateShortRest(member, count, spend?.rolls) };
+    });
+  }
+
+  private static async saveOutcome(member: ICharacter, outcome: RestOutcome): Promise<void> {
+    await Character.findByIdAndUpdate(
+      member._id,
+      {
+        $set: {
+          classes: outcome.classes,
+          hitPoints: outcome.hitPoints,
+          exhaustion: outcome.exhaustion,
+          resources: outcome.resources,
+          updatedAt: new Date(),
+        },
+      },
+      { runValidators: true }
+    );
+  }
+
+  private static async findParty(partyId: string): Promise<IParty> {
+    const party = await Party.findById(partyId);
+    if (!party) {
+      throw new PartyNotFoundError(partyId);
+    }
+    return party;
+  }
+
+  private static async findMembers(party: IParty): Promise<ICharacter[]> {
+    return Character.find({
+      partyId: party._id,
+      isDeleted: { $ne: true },
+    }).sort({ name: 1 });
+  }
+}
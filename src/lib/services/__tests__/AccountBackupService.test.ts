@@ -0,0 +1,286 @@
+import { Types } from 'mongoose';
+import { AccountBackupService, type AccountBackupArchive } from '../AccountBackupService';
+
+jest.mock('mongoose', () => {
+  let counter = 0;
+  const ObjectId = Object.assign(
+    jest.fn().mockImplementation((id?: string) => {
+      const value = id ?? (++counter).toString(16).padStart(24, '0');
+      return { toString: () => value };
+    }),
+    { isValid: (id: unknown) => /^[0-9a-f]{24}$/i.test(String(id)) }
+  );
+  return { Types: { ObjectId } };
+});
+jest.mock('@/lib/models/Party', () => ({
+  Party: { find: jest.fn(), deleteMany: jest.fn(), insertMany: jest.fn() },
+}));
+jest.mock('@/lib/models/Character', () => ({
+  Character: { find: jest.fn(), deleteMany: jest.fn(), insertMany: jest.fn() },
+}));
+jest.mock('@/lib/models/Campaign', () => ({
+  Campaign: { find: jest.fn(), deleteMany: jest.fn(), insertMany: jest.fn() },
+}));
+jest.mock('@/lib/models/encounter', () => ({
+  Encounter: { find: jest.fn(), deleteMany: jest.fn(), insertMany: jest.fn() },
+}));
+jest.mock('@/lib/models/User', () => ({
+  __esModule: true,
+  default: { findById: jest.fn(), updateOne: jest.fn() },
+}));
+jest.mock('../DatabaseTransaction', () => ({
+  DatabaseTransaction: {
+    withFallback: jest.fn((_transactionOp: unknown, fallbackOp: () => Promise<unknown>) => fallbackOp()),
+  },
+}));
+jest.mock('../NPCTemplateService', () => ({
+  NPCTemplateService: {
+    getTemplates: jest.fn(),
+    createCustomTemplate: jest.fn(),
+    deleteTemplate: jest.fn(),
+  },
+}));
+
+import { Party } from '@/lib/models/Party';
+import { Character } from '@/lib/models/Character';
+import { Encounter } from '@/lib/models/encounter';
+import { Campaign } from '@/lib/models/Campaign';
+import User from '@/lib/models/User';
+import { NPCTemplateService } from '../NPCTemplateService';
+
+const queryReturning = (documents: unknown) => {
+  const query = { select: jest.fn(), lean: jest.fn().mockResolvedValue(documents) };
+  query.select.mockReturnValue(query);
+  return query;
+};
+
+const mockExisting = (
+  existing: { parties?: unknown[]; characters?: unknown[]; encounters?: unknown[]; campaigns?: unknown[] } = {}
+) => {
+  (Party.find as jest.Mock).mockReturnValue(queryReturning(existing.parties ?? []));
+  (Character.find as jest.Mock).mockReturnValue(queryReturning(existing.characters ?? []));
+  (Encounter.find as jest.Mock).mockReturnValue(queryReturning(existing.encounters ?? []));
+  (Campaign.find as jest.Mock).mockReturnValue(queryReturning(existing.campaigns ?? []));
+};
+
+const insertedDocuments = (model: { insertMany: unknown }) => (model.insertMany as jest.Mock).mock.calls[0][0];
+
+describe('AccountBackupService', () => {
+  const userId = new Types.ObjectId().toString();
+  const partyId = new Types.ObjectId().toString();
+  const characterId = new Types.ObjectId().toString();
+  const encounterId = new Types.ObjectId().toString();
+  const monsterId = new Types.ObjectId().toString();
+  const campaignId = new Types.ObjectId().toString();
+  const missingEncounterId = new Types.ObjectId().toString();
+
+  const createArchive = (overrides: Partial<AccountBackupArchive> = {}): AccountBackupArchive => ({
+    metadata: {
+      format: 'dnd-tracker-account-backup',
+      version: '1.1.0',
+      createdAt: '2026-01-01T00:00:00.000Z',
+      userId,
+      counts: { parties: 1, characters: 1, encounters: 1, campaigns: 1, npcTemplates: 1 },
+      warnings: [],
+    },
+    preferences: { theme: 'dark' },
+    parties: [{ _id: partyId, name: 'Heroes', ownerId: userId, isPublic: true, sharedWith: [monsterId], __v: 0 }],
+    characters: [{ _id: characterId, name: 'Aria', ownerId: userId, partyId }],
+    encounters: [{
+      _id: encounterId,
+      name: 'Ambush',
+      ownerId: userId,
+      isPublic: false,
+      sharedWith: [monsterId],
+      partyId,
+      participants: [
+        { characterId, name: 'Aria', type: 'pc', isPlayer: true },
+        { characterId: monsterId, name: 'Goblin', type: 'npc', isPlayer: false },
+      ],
+      combatState: { initiativeOrder: [{ participantId: characterId }, { participantId: monsterId }] },
+    }],
+    campaigns: [{
+      _id: campaignId,
+      name: 'Lost Mine',
+      ownerId: userId,
+      partyIds: [partyId],
+      encounterPlan: [encounterId, missingEncounterId],
+      sessions: [{ date: '2026-01-01T00:00:00.000Z', attendees: [characterId], encounterIds: [encounterId] }],
+    }],
+    npcTemplates: [{ id: 'custom-1', name: 'Bandit Captain' } as AccountBackupArchive['npcTemplates'][number]],
+    ...overrides,
+  });
+
+  const restore = (archive: unknown, mode: 'merge' | 'replace' = 'merge', dryRun = false) =>
+    AccountBackupService.restoreBackup(userId, JSON.stringify(archive), { mode, dryRun });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockExisting();
+    (NPCTemplateService.getTemplates as jest.Mock).mockResolvedValue({ success: true, data: [] });
+    (NPCTemplateService.createCustomTemplate as jest.Mock).mockResolvedValue({ success: true });
+  });
+
+  describe('createBackup', () => {
+    it('collects the account into an archive with counts and integrity warnings', async () => {
+      const archive = createArchive();
+      mockExisting({ parties: [], characters: archive.characters, encounters: archive.encounters });
+      (User.findById as jest.Mock).mockReturnValue(queryReturning({ preferences: { theme: 'dark' } }));
+      (NPCTemplateService.getTemplates as jest.Mock).mockResolvedValue({
+        success: true,
+        data: [{ id: 'custom-1', name: 'Bandit Captain', createdBy: userId }, { id: 'custom-2', name: 'Other', createdBy: 'someone' }],
+      });
+
+      const result = await AccountBackupService.createBackup(userId);
+
+      expect(result.success).toBe(true);
+      expect(result.data?.metadata.counts).toEqual({
+        parties: 0,
+        characters: 1,
+        encounters: 1,
+        campaigns: 0,
+        npcTemplates: 1,
+      });
+      expect(result.data?.preferences).toEqual({ theme: 'dark' });
+      expect(result.data?.metadata.warnings).toEqual([
+        'Character "Aria" belongs to a party that is not in the backup',
+        'Encounter "Ambush" uses a party that is not in the backup',
+      ]);
+    });
+
+    it('rejects an invalid user id', async () => {
+      const result = await AccountBackupService.createBackup('not-an-id');
+
+      expect(result.success).toBe(false);
+      expect(result.error?.code).toBe('INVALID_USER_ID');
+    });
+  });
+
+  describe('restoreBackup', () => {
+    it('gives restored documents new ids and keeps references between them', async () => {
+      const result = await restore(createArchive());
+
+      expect(result.success).toBe(true);
+      const [party] = insertedDocuments(Party);
+      const [character] = insertedDocuments(Character);
+      const [encounter] = insertedDocuments(Encounter);
+
+      expect(party._id).not.toBe(partyId);
+      expect(party).not.toHaveProperty('__v');
+      expect(character._id).not.toBe(characterId);
+      expect(character.partyId).toBe(party._id);
+      expect(encounter.partyId).toBe(party._id);
+      expect(encounter.participants[0].characterId).toBe(character._id);
+      expect(encounter.participants[1].characterId).toBe(monsterId);
+      expect(encounter.combatState.initiativeOrder[0].participantId).toBe(character._id);
+      expect(NPCTemplateService.createCustomTemplate).toHaveBeenCalledWith(
+        expect.objectContaining({ name: 'Bandit Captain', createdBy: userId, isSystem: false })
+      );
+    });
+
+    it('restores parties and encounters as private', async () => {
+      await restore(createArchive());
+
+      const [party] = insertedDocuments(Party);
+      const [encounter] = insertedDocuments(Encounter);
+
+      expect(party.isPublic).toBe(false);
+      expect(party).not.toHaveProperty('sharedWith');
+      expect(encounter.isPublic).toBe(false);
+      expect(encounter).not.toHaveProperty('sharedWith');
+    });
+
+    it("remaps a campaign's parties, encounter plan and sessions", async () => {
+      const result = await restore(createArchive());
+
+      const [party] = insertedDocuments(Party);
+      const [character] = insertedDocuments(Character);
+      const [encounter] = insertedDocuments(Encounter);
+      const [campaign] = insertedDocuments(Campaign);
+
+      expect(result.data?.warnings).toEqual(['Campaign "Lost Mine" includes an encounter that is not in the backup']);
+      expect(campaign._id).not.toBe(campaignId);
+      expect(campaign.ownerId).toBe(userId);
+      expect(campaign.partyIds).toEqual([party._id]);
+      expect(campaign.encounterPlan).toEqual([encounter._id]);
+      expect(campaign.sessions[0]).toMatchObject({ attendees: [character._id], encounterIds: [encounter._id] });
+    });
+
+    it('restores archives made before campaigns were backed up', async () => {
+      const { campaigns: _campaigns, ...archive } = createArchive();
+      archive.metadata.version = '1.0.0';
+
+      const result = await restore(archive);
+
+      expect(result.success).toBe(true);
+      expect(result.data?.created.campaigns).toBe(0);
+      expect(insertedDocuments(Campaign)).toEqual([]);
+    });
+
+    it('reports without writing anything on a dry run', async () => {
+      const result = await restore(createArchive(), 'replace', true);
+
+      expect(result.data).toMatchObject({
+        dryRun: true,
+        created: { parties: 1, characters: 1, encounters: 1, npcTemplates: 1 },
+        preferencesRestored: true,
+      });
+      expect(Party.insertMany).not.toHaveBeenCalled();
+      expect(Party.deleteMany).not.toHaveBeenCalled();
+      expect(User.updateOne).not.toHaveBeenCalled();
+      expect(NPCTemplateService.createCustomTemplate).not.toHaveBeenCalled();
+    });
+
+    it('skips documents already in the account when merging', async () => {
+      mockExisting({ parties: [{ _id: partyId }] });
+      (NPCTemplateService.getTemplates as jest.Mock).mockResolvedValue({
+        success: true,
+        data: [{ id: 'custom-9', name: 'Bandit Captain', createdBy: userId }],
+      });
+
+      const result = await restore(createArchive());
+
+      expect(result.data?.skipped).toEqual({ parties: 1, characters: 0, encounters: 0, campaigns: 0, npcTemplates: 1 });
+      expect(insertedDocuments(Party)).toEqual([]);
+      expect(insertedDocuments(Character)[0].partyId).toBe(partyId);
+      expect(User.updateOne).not.toHaveBeenCalled();
+      expect(NPCTemplateService.createCustomTemplate).not.toHaveBeenCalled();
+    });
+
+    it('deletes existing data and restores preferences when replacing', async () => {
+      mockExisting({ characters: [{ _id: new Types.ObjectId() }] });
+      (NPCTemplateService.getTemplates as jest.Mock).mockResolvedValue({
+        success: true,
+        data: [{ id: 'custom-9', name: 'Old Template', createdBy: userId }],
+      });
+
+      const result = await restore(createArchive(), 'replace');
+
+      expect(result.data?.deleted).toEqual({ parties: 0, characters: 1, encounters: 0, campaigns: 0, npcTemplates: 1 });
+      expect(Character.deleteMany).toHaveBeenCalled();
+      expect(User.updateOne).toHaveBeenCalledWith(
+        { _id: userId },
+        { $set: { preferences: { theme: 'dark' } } },
+        { session: undefined }
+      );
+      expect(NPCTemplateService.deleteTemplate).toHaveBeenCalledWith('custom-9');
+    });
+
+    it('rejects data that is not an account archive', async () => {
+      const result = await restore({ encounters: [] });
+
+      expect(result.success).toBe(false);
+      expect(result.error?.code).toBe('INVALID_BACKUP_FORMAT');
+    });
+
+    it('rejects archives from a newer version of the app', async () => {
+      const archive = createArchive();
+      archive.metadata.version = '2.0.0';
+
+      const result = await restore(archive);
+
+      expect(result.success).toBe(false);
+      expect(result.error?.code).toBe('UNSUPPORTED_BACKUP_VERSION');
+    });
+  });
+});
@@ -0,0 +1,318 @@
+import { CampaignService } from '../CampaignService';
+
+jest.mock('mongoose', () => {
+  const ObjectId = Object.assign(
+    jest.fn().mockImplementation((id: string) => ({ toString: () => id })),
+    { isValid: (id: unknown) => /^[0-9a-f]{24}$/i.test(String(id)) }
+  );
+  return { Types: { ObjectId } };
+});
+jest.mock('@/lib/models/Campaign', () => ({
+  Campaign: { find: jest.fn(), countDocuments: jest.fn(), create: jest.fn(), findById: jest.fn(), deleteOne: jest.fn() },
+}));
+jest.mock('@/lib/models/Party', () => ({
+  Party: { find: jest.fn(), countDocuments: jest.fn() },
+}));
+jest.mock('@/lib/models/Character', () => ({
+  Character: { find: jest.fn(), countDocuments: jest.fn() },
+}));
+jest.mock('@/lib/models/encounter', () => ({
+  Encounter: { find: jest.fn(), countDocuments: jest.fn() },
+}));
+
+import { Campaign } from '@/lib/models/Campaign';
+import { Party } from '@/lib/models/Party';
+import { Character } from '@/lib/models/Character';
+import { Encounter } from '@/lib/models/encounter';
+
+describe('CampaignService', () => {
+  const userId = '507f1f77bcf86cd799439011';
+  const otherUserId = '507f1f77bcf86cd799439012';
+  const campaignId = '507f1f77bcf86cd799439021';
+  const partyId = '507f1f77bcf86cd799439031';
+  const characterId = '507f1f77bcf86cd799439041';
+  const encounterId = '507f1f77bcf86cd799439051';
+  const secondEncounterId = '507f1f77bcf86cd799439052';
+  const sessionId = '507f1f77bcf86cd799439061';
+
+  const oid = (id: string) => ({ toString: () => id });
+
+  // Chainable query that resolves to the given documents
+  const query = (result: unknown) => {
+    const chain: Record<string, unknown> = {};
+    ['select', 'sort', 'skip', 'limit'].forEach(method => {
+      chain[method] = () => chain;
+    });
+    chain.lean = () => Promise.resolve(result);
+    chain.then = (resolve: (_value: unknown) => unknown, reject: (_error: unknown) => unknown) =>
+      Promise.resolve(result).then(resolve, reject);
+    return chain;
+  };
+
+  const assign = function (this: Record<string, unknown>, update: Record<string, unknown>) {
+    Object.assign(this, update);
+  };
+
+  const createMockSession = (overrides: Record<string, unknown> = {}) => ({
+    _id: oid(sessionId),
+    date: new Date('2030-01-10'),
+    title: 'Into the Vault',
+    attendees: [oid(characterId)],
+    encounterIds: [oid(encounterId)],
+    xpAwarded: 450,
+    loot: [{ name: 'Potion of Healing', quantity: 2 }],
+    notes: 'The rogue found the secret door.',
+    set: jest.fn(assign),
+    deleteOne: jest.fn(),
+    ...overrides,
+  });
+
+  // Mimics the DocumentArray lookup and the _id mongoose gives new subdocuments
+  const createMockSessions = (sessions: any[]) =>
+    Object.assign(sessions, {
+      id: (id: string) => sessions.find(session => session._id.toString() === id) ?? null,
+      push: (...added: any[]) => Array.prototype.push.apply(sessions, added.map(session => ({ _id: oid('507f1f77bcf86cd799439062'), ...session }))),
+    });
+
+  const createMockCampaign = (overrides: Record<string, unknown> = {}) => {
+    const sessions = createMockSessions([createMockSession()]);
+
+    return {
+      _id: oid(campaignId),
+      ownerId: oid(userId),
+      name: 'Curse of the Drowned King',
+      description: '',
+      status: 'active',
+      tags: [],
+      partyIds: [oid(partyId)],
+      encounterPlan: [oid(encounterId), oid(secondEncounterId)],
+      sessions,
+      createdAt: new Date('2030-01-01'),
+      updatedAt: new Date('2030-01-10'),
+      set: jest.fn(assign),
+      save: jest.fn().mockResolvedValue(undefined),
+      ...overrides,
+    };
+  };
+
+  const mockDetailLookups = () => {
+    (Party.find as jest.Mock).mockReturnValue(query([
+      { _id: oid(partyId), name: 'The Tide Breakers' },
+      { _id: oid('507f1f77bcf86cd799439032'), name: 'Backup Crew' },
+    ]));
+    (Character.find as jest.Mock).mockReturnValue(query([
+      { _id: oid(characterId), name: 'Bruni', partyId: oid(partyId), classes: [{ level: 3 }, { level: 2 }] },
+    ]));
+    (Encounter.find as jest.Mock).mockReturnValue(query([
+      { _id: oid(encounterId), name: 'Drowned Guards', difficulty: 'medium', status: 'completed' },
+      { _id: oid(secondEncounterId), name: 'The Drowned King', difficulty: 'deadly', status: 'draft' },
+      { _id: oid('507f1f77bcf86cd799439053'), name: 'Bandit Toll', status: 'draft' },
+    ]));
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('listCampaigns', () => {
+    it("lists the user's campaigns with an escaped name search and pagination", async () => {
+      (Campaign.find as jest.Mock).mockReturnValue(query([createMockCampaign()]));
+      (Campaign.countDocuments as jest.Mock).mockResolvedValue(21);
+
+      const result = await CampaignService.listCampaigns(userId, {
+        search: 'King (2e)',
+        status: 'active',
+        sortBy: 'name',
+        sortOrder: 'asc',
+        page: 2,
+        limit: 20,
+      });
+
+      const filter = (Campaign.find as jest.Mock).mock.calls[0][0];
+      expect(filter.ownerId.toString()).toBe(userId);
+      expect(filter.status).toBe('active');
+      expect(filter.name).toEqual({ $regex: 'King \\(2e\\)', $options: 'i' });
+      expect(result.data?.pagination).toEqual({ currentPage: 2, totalPages: 2, totalItems: 21, itemsPerPage: 20 });
+      expect(result.data?.campaigns[0]).toMatchObject({
+        id: campaignId,
+        sessionCount: 1,
+        totalXpAwarded: 450,
+        lastSessionAt: new Date('2030-01-10'),
+      });
+    });
+  });
+
+  describe('createCampaign', () => {
+    const data = {
+      name: 'Curse of the Drowned King',
+      description: '',
+      status: 'planning' as const,
+      tags: [],
+      partyIds: [partyId],
+      encounterPlan: [],
+    };
+
+    it('creates a campaign owned by the user', async () => {
+      (Party.countDocuments as jest.Mock).mockResolvedValue(1);
+      (Campaign.create as jest.Mock).mockResolvedValue(createMockCampaign({ status: 'planning', encounterPlan: [] }));
+
+      const result = await CampaignService.createCampaign(userId, data);
+
+      expect(result.success).toBe(true);
+      expect((Campaign.create as jest.Mock).mock.calls[0][0].ownerId.toString()).toBe(userId);
+      expect(Encounter.countDocuments).not.toHaveBeenCalled();
+      expect(result.data?.partyIds).toEqual([partyId]);
+    });
+
+    it('rejects parties the user cannot see', async () => {
+      (Party.countDocuments as jest.Mock).mockResolvedValue(0);
+
+      const result = await CampaignService.createCampaign(userId, data);
+
+      expect(result.error).toMatchObject({ code: 'CAMPAIGN_VALIDATION_ERROR', statusCode: 400 });
+      expect(Campaign.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('getCampaign', () => {
+    it('builds the parties, encounter plan and session log', async () => {
+      (Campaign.findById as jest.Mock).mockResolvedValue(createMockCampaign());
+      mockDetailLookups();
+
+      const result = await CampaignService.getCampaign(campaignId, userId);
+
+      expect(result.data?.parties).toEqual([
+        { id: partyId, name: 'The Tide Breakers', members: [{ characterId, name: 'Bruni', level: 5 }] },
+      ]);
+      expect(result.data?.encounters.map(encounter => [encounter.name, encounter.timesRun])).toEqual([
+        ['Drowned Guards', 1],
+        ['The Drowned King', 0],
+      ]);
+      expect(result.data?.sessions[0]).toMatchObject({
+        id: sessionId,
+        attendees: [{ characterId, name: 'Bruni' }],
+        encounters: [{ id: encounterId, name: 'Drowned Guards' }],
+        loot: [{ name: 'Potion of Healing', quantity: 2 }],
+      });
+      expect(result.data?.availableParties).toEqual([{ id: '507f1f77bcf86cd799439032', name: 'Backup Crew' }]);
+      expect(result.data?.availableEncounters).toEqual([{ id: '507f1f77bcf86cd799439053', name: 'Bandit Toll' }]);
+    });
+
+    it('only lets the owner open a campaign', async () => {
+      (Campaign.findById as jest.Mock).mockResolvedValue(createMockCampaign({ ownerId: oid(otherUserId) }));
+
+      const result = await CampaignService.getCampaign(campaignId, userId);
+
+      expect(result.error).toMatchObject({ code: 'CAMPAIGN_ACCESS_DENIED', statusCode: 403 });
+    });
+
+    it('reports missing campaigns and invalid IDs', async () => {
+      (Campaign.findById as jest.Mock).mockResolvedValue(null);
+
+      const missing = await CampaignService.getCampaign(campaignId, userId);
+      const invalid = await CampaignService.getCampaign('not-an-id', userId);
+
+      expect(missing.error).toMatchObject({ code: 'CAMPAIGN_NOT_FOUND', statusCode: 404 });
+      expect(invalid.error).toMatchObject({ code: 'CAMPAIGN_VALIDATION_ERROR', statusCode: 400 });
+    });
+  });
+
+  describe('updateCampaign', () => {
+    it('reorders the encounter plan without checking encounters it already holds', async () => {
+      const campaign = createMockCampaign();
+      (Campaign.findById as jest.Mock).mockResolvedValue(campaign);
+      mockDetailLookups();
+
+      const result = await CampaignService.updateCampaign(campaignId, userId, {
+        encounterPlan: [secondEncounterId, encounterId],
+        status: 'on_hold',
+      });
+
+      expect(Encounter.countDocuments).not.toHaveBeenCalled();
+      expect(campaign.save).toHaveBeenCalled();
+      expect(result.data?.status).toBe('on_hold');
+      expect(result.data?.encounters.map(encounter => encounter.id)).toEqual([secondEncounterId, encounterId]);
+    });
+  });
+
+  describe('sessions', () => {
+    const session = {
+      date: new Date('2030-01-17'),
+      attendees: [characterId],
+      encounterIds: [secondEncounterId],
+      xpAwarded: 1200,
+      loot: [{ name: 'Trident of the Deep', quantity: 1 }],
+      notes: '',
+    };
+
+    it('logs a session for party members', async () => {
+      const campaign = createMockCampaign({ sessions: createMockSessions([]) });
+      (Campaign.findById as jest.Mock).mockResolvedValue(campaign);
+      (Character.countDocuments as jest.Mock).mockResolvedValue(1);
+      mockDetailLookups();
+
+      const result = await CampaignService.addSession(campaignId, userId, session);
+
+      expect(campaign.save).toHaveBeenCalled();
+      expect(result.data?.sessionCount).toBe(1);
+      expect(result.data?.totalXpAwarded).toBe(1200);
+      expect(result.data?.encounters.find(encounter => encounter.id === secondEncounterId)?.timesRun).toBe(1);
+    });
+
+    it("rejects attendees outside the campaign's parties", async () => {
+      const campaign = createMockCampaign();
+      (Campaign.findById as jest.Mock).mockResolvedValue(campaign);
+      (Character.countDocuments as jest.Mock).mockResolvedValue(0);
+
+      const result = await CampaignService.addSession(campaignId, userId, {
+        ...session,
+        attendees: ['507f1f77bcf86cd799439049'],
+      });
+
+      expect(result.error).toMatchObject({ code: 'CAMPAIGN_VALIDATION_ERROR', statusCode: 400 });
+      expect(campaign.save).not.toHaveBeenCalled();
+    });
+
+    it('updates and deletes logged sessions', async () => {
+      const campaign = createMockCampaign();
+      (Campaign.findById as jest.Mock).mockResolvedValue(campaign);
+      mockDetailLookups();
+
+      const updated = await CampaignService.updateSession(campaignId, sessionId, userId, { xpAwarded: 600 });
+      expect(updated.data?.sessions[0].xpAwarded).toBe(600);
+      expect(Character.countDocuments).not.toHaveBeenCalled();
+
+      await CampaignService.deleteSession(campaignId, sessionId, userId);
+      expect(campaign.sessions[0].deleteOne).toHaveBeenCalled();
+
+      const missing = await CampaignService.deleteSession(campaignId, '507f1f77bcf86cd799439069', userId);
+      expect(missing.error).toMatchObject({ code: 'CAMPAIGN_SESSION_NOT_FOUND', statusCode: 404 });
+    });
+  });
+
+  describe('getCampaignScope', () => {
+    it('includes planned, played and party encounters', async () => {
+      (Campaign.findById as jest.Mock).mockResolvedValue(createMockCampaign());
+      (Encounter.find as jest.Mock).mockReturnValue(query([
+        { _id: oid(encounterId) },
+        { _id: oid('507f1f77bcf86cd799439054') },
+      ]));
+
+      const result = await CampaignService.getCampaignScope(campaignId, userId);
+
+      expect(result.data).toEqual({
+        partyIds: [partyId],
+        encounterIds: [encounterId, secondEncounterId, '507f1f77bcf86cd799439054'],
+      });
+    });
+
+    it("does not reveal another user's campaign", async () => {
+      (Campaign.findById as jest.Mock).mockResolvedValue(createMockCampaign({ ownerId: oid(otherUserId) }));
+
+      const result = await CampaignService.getCampaignScope(campaignId, userId);
+
+      expect(result.error).toMatchObject({ code: 'CAMPAIGN_ACCESS_DENIED', statusCode: 403 });
+      expect(Encounter.find).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -25,6 +25,11 @@ jest.mock('../../models/Character', () => ({
   },
 }));
 
+// Mock the CharacterRevision model
+jest.mock('../../models/CharacterRevision', () => ({
+  CharacterRevision: {},
+}));
+
 import { CharacterService } from '../CharacterService';
 import { CHARACTER_ERROR_CODES } from '../CharacterServiceErrors';
 import { createMockCharacterData } from './CharacterService.test-helpers';
@@ -263,7 +268,7 @@ describe('CharacterService Facade', () => {
 
       const result = await CharacterService.calculateCarryingCapacity(validCharacterId, validUserId);
       expect(result.success).toBe(true);
-      expect(CharacterServiceStats.calculateCarryingCapacity).toHaveBeenCalledWith(validCharacterId, validUserId);
+      expect(CharacterServiceStats.calculateCarryingCapacity).toHaveBeenCalledWith(validCharacterId, validUserId, undefined);
     });
 
     it('should delegate calculateEquipmentWeight to Stats service', async () => {
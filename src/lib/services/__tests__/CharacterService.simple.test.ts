@@ -26,6 +26,13 @@ jest.mock('../../models/Character', () => ({
   },
 }));
 
+jest.mock('../../models/CharacterRevision', () => ({
+  CharacterRevision: {
+    appendRevision: jest.fn(),
+    clearRevisions: jest.fn(),
+  },
+}));
+
 // Mock mongoose to prevent database connections
 jest.mock('mongoose', () => ({
   Types: {
@@ -0,0 +1,217 @@
+import { CharacterServiceLevelUp } from '../CharacterServiceLevelUp';
+import { CharacterServiceVersions } from '../CharacterServiceVersions';
+import { CHARACTER_ERROR_CODES } from '../CharacterServiceErrors';
+import { createValidObjectId } from './CharacterService.test-helpers';
+
+jest.mock('../../models/Character', () => ({
+  Character: {
+    findById: jest.fn(),
+    findByIdAndUpdate: jest.fn(),
+  },
+}));
+
+jest.mock('../CharacterServiceVersions', () => ({
+  CharacterServiceVersions: {
+    recordRevision: jest.fn(),
+  },
+}));
+
+jest.mock('mongoose', () => ({
+  Types: {
+    ObjectId: {
+      isValid: jest.fn((id: string) => /^[0-9a-f]{24}$/i.test(id)),
+    },
+  },
+}));
+
+import { Character } from '../../models/Character';
+
+describe('CharacterServiceLevelUp', () => {
+  const characterId = createValidObjectId();
+  const userId = createValidObjectId();
+
+  const character = (overrides: Record<string, unknown> = {}) => ({
+    ownerId: { toString: () => userId },
+    isPublic: false,
+    classes: [{ class: 'fighter', level: 3, hitDie: 10, subclass: 'Champion' }],
+    abilityScores: {
+      strength: 16,
+      dexterity: 12,
+      constitution: 14,
+      intelligence: 10,
+      wisdom: 13,
+      charisma: 8,
+    },
+    hitPoints: { maximum: 28, current: 20, temporary: 0 },
+    proficiencyBonus: 2,
+    feats: [],
+    ...overrides,
+  });
+
+  const mockCharacter = (overrides: Record<string, unknown> = {}) => {
+    (Character.findById as jest.Mock).mockResolvedValue(character(overrides));
+    (Character.findByIdAndUpdate as jest.Mock).mockImplementation(async () => character(overrides));
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('levels up an existing class with an Ability Score Improvement and records it', async () => {
+    mockCharacter();
+
+    const result = await CharacterServiceLevelUp.levelUp(characterId, userId, {
+      class: 'fighter',
+      hitPointMethod: 'average',
+      abilityScoreIncreases: { strength: 2 },
+    });
+
+    expect(result.success && result.data.summary).toEqual({
+      class: 'fighter',
+      classLevel: 4,
+      totalLevel: 4,
+      hitDie: 10,
+      hitPointIncrease: 8,
+      proficiencyBonus: 2,
+      abilityScoreIncreases: { strength: 2 },
+    });
+    expect(Character.findByIdAndUpdate).toHaveBeenCalledWith(
+      characterId,
+      {
+        $set: {
+          classes: [{ class: 'fighter', level: 4, hitDie: 10, subclass: 'Champion' }],
+          proficiencyBonus: 2,
+          'hitPoints.maximum': 36,
+          'hitPoints.current': 28,
+          'abilityScores.strength': 18,
+          updatedAt: expect.any(Date),
+        },
+      },
+      { new: true, runValidators: true }
+    );
+    expect(CharacterServiceVersions.recordRevision).toHaveBeenCalledWith(
+      characterId,
+      userId,
+      expect.anything(),
+      expect.anything(),
+      'Leveled up to Fighter 4 (level 4)'
+    );
+  });
+
+  it('raises hit points for every level when the improvement raises the Constitution modifier', async () => {
+    mockCharacter({ abilityScores: { ...character().abilityScores, constitution: 15 } });
+
+    const result = await CharacterServiceLevelUp.levelUp(characterId, userId, {
+      class: 'fighter',
+      hitPointMethod: 'average',
+      abilityScoreIncreases: { constitution: 1, strength: 1 },
+    });
+
+    // New level at +3 Constitution (6 + 3) plus 1 for each of the 3 earlier levels
+    expect(result.success && result.data.summary.hitPointIncrease).toBe(12);
+    expect(Character.findByIdAndUpdate).toHaveBeenCalledWith(
+      characterId,
+      {
+        $set: expect.objectContaining({
+          'hitPoints.maximum': 40,
+          'hitPoints.current': 32,
+          'abilityScores.constitution': 16,
+          'abilityScores.strength': 17,
+        }),
+      },
+      { new: true, runValidators: true }
+    );
+  });
+
+  it('multiclasses into a new class, choosing its subclass and rolling hit points', async () => {
+    mockCharacter();
+
+    const result = await CharacterServiceLevelUp.levelUp(characterId, userId, {
+      class: 'cleric',
+      hitPointMethod: 'roll',
+      hitPointRoll: 6,
+      subclass: 'Life Domain',
+    });
+
+    expect(result.success && result.data.summary).toMatchObject({
+      class: 'cleric',
+      classLevel: 1,
+      hitPointRoll: 6,
+      hitPointIncrease: 8,
+      subclass: 'Life Domain',
+    });
+    const update = (Character.findByIdAndUpdate as jest.Mock).mock.calls[0][1].$set;
+    expect(update.classes).toEqual([
+      { class: 'fighter', level: 3, hitDie: 10, subclass: 'Champion' },
+      { class: 'cleric', level: 1, hitDie: 8, subclass: 'Life Domain' },
+    ]);
+  });
+
+  it('rejects classes whose multiclass prerequisites are not met', async () => {
+    mockCharacter();
+
+    const result = await CharacterServiceLevelUp.levelUp(characterId, userId, {
+      class: 'wizard',
+      hitPointMethod: 'average',
+    });
+
+    expect(!result.success && result.error.code).toBe(CHARACTER_ERROR_CODES.INVALID_MULTICLASS_COMBINATION);
+    expect(Character.findByIdAndUpdate).not.toHaveBeenCalled();
+  });
+
+  it('requires a subclass or an improvement when the level grants one', async () => {
+    mockCharacter({ classes: [{ class: 'fighter', level: 2, hitDie: 10 }] });
+
+    const missingSubclass = await CharacterServiceLevelUp.levelUp(characterId, userId, {
+      class: 'fighter',
+      hitPointMethod: 'average',
+    });
+    expect(!missingSubclass.success && missingSubclass.error.code).toBe(CHARACTER_ERROR_CODES.INVALID_LEVEL_UP_CHOICE);
+
+    mockCharacter();
+    const missingImprovement = await CharacterServiceLevelUp.levelUp(characterId, userId, {
+      class: 'fighter',
+      hitPointMethod: 'average',
+    });
+    expect(!missingImprovement.success && missingImprovement.error.message)
+      .toBe('Invalid level-up choice: choose either ability score increases or a feat');
+  });
+
+  it('adds a feat instead of ability score increases', async () => {
+    mockCharacter();
+
+    await CharacterServiceLevelUp.levelUp(characterId, userId, {
+      class: 'fighter',
+      hitPointMethod: 'average',
+      feat: 'Great Weapon Master',
+    });
+
+    const update = (Character.findByIdAndUpdate as jest.Mock).mock.calls[0][1].$set;
+    expect(update.feats).toEqual(['Great Weapon Master']);
+    expect(update['abilityScores.strength']).toBeUndefined();
+  });
+
+  it('does not raise ability scores above 20', async () => {
+    mockCharacter({ abilityScores: { ...character().abilityScores, strength: 19 } });
+
+    const result = await CharacterServiceLevelUp.levelUp(characterId, userId, {
+      class: 'fighter',
+      hitPointMethod: 'average',
+      abilityScoreIncreases: { strength: 2 },
+    });
+
+    expect(!result.success && result.error.message).toBe('Invalid level-up choice: strength cannot be raised above 20');
+  });
+
+  it('only lets the owner level up', async () => {
+    mockCharacter({ ownerId: { toString: () => '507f1f77bcf86cd799439099' }, isPublic: true });
+
+    const result = await CharacterServiceLevelUp.levelUp(characterId, userId, {
+      class: 'fighter',
+      hitPointMethod: 'average',
+      feat: 'Alert',
+    });
+
+    expect(!result.success && result.error.code).toBe(CHARACTER_ERROR_CODES.UNAUTHORIZED_ACCESS);
+  });
+});
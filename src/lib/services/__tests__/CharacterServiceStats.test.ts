@@ -0,0 +1,86 @@
+import { CharacterServiceStats } from '../CharacterServiceStats';
+import { CharacterServiceErrors, createErrorResult, createSuccessResult } from '../CharacterServiceErrors';
+import { createValidObjectId } from './CharacterService.test-helpers';
+
+jest.mock('../CharacterServiceCRUD', () => ({
+  CharacterServiceCRUD: {
+    getCharacterById: jest.fn(),
+  },
+}));
+
+import { CharacterServiceCRUD } from '../CharacterServiceCRUD';
+
+describe('CharacterServiceStats', () => {
+  const characterId = createValidObjectId();
+  const userId = createValidObjectId();
+
+  const character = {
+    size: 'medium',
+    classes: [{ class: 'paladin', level: 6, hitDie: 10 }],
+    abilityScores: {
+      strength: 16,
+      dexterity: 10,
+      constitution: 14,
+      intelligence: 8,
+      wisdom: 12,
+      charisma: 16,
+    },
+    proficiencyBonus: 3,
+    experiencePoints: 15000,
+    skills: new Map([['perception', true]]),
+    equipment: [
+      { name: 'Plate Armor', quantity: 1, weight: 65, equipped: true },
+      { name: 'Shield', quantity: 1, weight: 6, equipped: true },
+      { name: 'Rations', quantity: 10, weight: 2, equipped: false },
+    ],
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (CharacterServiceCRUD.getCharacterById as jest.Mock).mockResolvedValue(createSuccessResult(character));
+  });
+
+  it('calculates spellcasting from the character classes', async () => {
+    const result = await CharacterServiceStats.calculateSpellcastingStats(characterId, userId);
+
+    expect(CharacterServiceCRUD.getCharacterById).toHaveBeenCalledWith(characterId, userId);
+    expect(result).toEqual(createSuccessResult({
+      casterLevel: 3,
+      spellSlots: { 1: 4, 2: 2 },
+      spellAttackBonus: 6,
+      spellSaveDC: 14,
+      classes: [{ class: 'paladin', ability: 'charisma', spellSaveDC: 14, spellAttackBonus: 6 }],
+    }));
+  });
+
+  it('calculates carrying capacity with the requested encumbrance rule', async () => {
+    const standard = await CharacterServiceStats.calculateCarryingCapacity(characterId, userId);
+    const variant = await CharacterServiceStats.calculateCarryingCapacity(characterId, userId, 'variant');
+
+    expect(standard.success && standard.data).toMatchObject({ maximum: 240, current: 91, encumbranceLevel: 'none' });
+    expect(variant.success && variant.data).toMatchObject({ encumbranceLevel: 'light', rule: 'variant' });
+  });
+
+  it('calculates equipment weight and experience', async () => {
+    const weight = await CharacterServiceStats.calculateEquipmentWeight(characterId, userId);
+    const experience = await CharacterServiceStats.calculateExperienceInfo(characterId, userId);
+
+    expect(weight).toEqual(createSuccessResult({ total: 91, equipped: 71, carried: 20 }));
+    expect(experience.success && experience.data).toMatchObject({
+      currentLevel: 6,
+      nextLevelXP: 23000,
+      xpToNextLevel: 8000,
+      canLevelUp: false,
+    });
+  });
+
+  it('fails when the character cannot be loaded', async () => {
+    (CharacterServiceCRUD.getCharacterById as jest.Mock).mockResolvedValue(
+      createErrorResult(CharacterServiceErrors.characterNotFound(characterId))
+    );
+
+    const result = await CharacterServiceStats.calculateExperienceInfo(characterId, userId);
+
+    expect(result.success).toBe(false);
+  });
+});
@@ -0,0 +1,211 @@
+import { CharacterServiceVersions } from '../CharacterServiceVersions';
+import { CharacterDiffUtils } from '../utils/CharacterDiffUtils';
+import { CHARACTER_ERROR_CODES } from '../CharacterServiceErrors';
+import { createValidObjectId } from './CharacterService.test-helpers';
+
+jest.mock('../../models/Character', () => ({
+  Character: {
+    findById: jest.fn(),
+    findByIdAndUpdate: jest.fn(),
+  },
+}));
+
+jest.mock('../../models/CharacterRevision', () => ({
+  CharacterRevision: {
+    appendRevision: jest.fn(),
+    findRevisions: jest.fn(),
+    findLatestRevisionNumber: jest.fn(),
+    findRevisionRange: jest.fn(),
+  },
+}));
+
+jest.mock('mongoose', () => ({
+  Types: {
+    ObjectId: {
+      isValid: jest.fn((id: string) => /^[0-9a-f]{24}$/i.test(id)),
+    },
+  },
+}));
+
+import { Character } from '../../models/Character';
+import { CharacterRevision } from '../../models/CharacterRevision';
+
+describe('CharacterDiffUtils', () => {
+  it('diffs nested fields by dot path and ignores bookkeeping fields', () => {
+    const before = CharacterDiffUtils.snapshot({
+      _id: 'a',
+      updatedAt: '2024-01-01',
+      name: 'Aria',
+      abilityScores: { strength: 14, dexterity: 12 },
+      equipment: [{ name: 'Rope' }],
+    });
+    const after = CharacterDiffUtils.snapshot({
+      _id: 'a',
+      updatedAt: '2024-02-01',
+      name: 'Aria',
+      abilityScores: { strength: 16, dexterity: 12 },
+      equipment: [{ name: 'Rope' }, { name: 'Torch' }],
+      notes: 'Owes the guild',
+    });
+
+    expect(CharacterDiffUtils.diff(before, after)).toEqual([
+      { field: 'abilityScores.strength', from: 14, to: 16 },
+      { field: 'equipment', from: [{ name: 'Rope' }], to: [{ name: 'Rope' }, { name: 'Torch' }] },
+      { field: 'notes', to: 'Owes the guild' },
+    ]);
+  });
+
+  it('combines change sets and drops fields that returned to their start', () => {
+    const combined = CharacterDiffUtils.combine([
+      [{ field: 'armorClass', from: 14, to: 16 }, { field: 'speed', from: 30, to: 25 }],
+      [{ field: 'armorClass', from: 16, to: 18 }, { field: 'speed', from: 25, to: 30 }],
+    ]);
+
+    expect(combined).toEqual([{ field: 'armorClass', from: 14, to: 18 }]);
+  });
+
+  it('describes single and multiple changes', () => {
+    expect(CharacterDiffUtils.describe([{ field: 'armorClass', from: 14, to: 16 }]))
+      .toBe('Changed armorClass from 14 to 16');
+    expect(CharacterDiffUtils.describe([
+      { field: 'a', from: 1, to: 2 },
+      { field: 'b', from: 1, to: 2 },
+      { field: 'c', from: 1, to: 2 },
+      { field: 'd', from: 1, to: 2 },
+    ])).toBe('Updated a, b, c and 1 more');
+  });
+});
+
+describe('CharacterServiceVersions', () => {
+  const characterId = createValidObjectId();
+  const userId = createValidObjectId();
+
+  const revision = (number: number, changes: any[], extra: Record<string, unknown> = {}) => ({
+    revision: number,
+    changes,
+    description: CharacterDiffUtils.describe(changes),
+    authorId: { toString: () => userId },
+    createdAt: new Date('2024-01-01T00:00:00Z'),
+    ...extra,
+  });
+
+  const mockCharacter = (data: Record<string, unknown>) => {
+    (Character.findById as jest.Mock).mockResolvedValue({
+      ownerId: { toString: () => userId },
+      isPublic: false,
+      ...data,
+    });
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('records an edit as a revision with the changed fields and author', async () => {
+    await CharacterServiceVersions.recordRevision(
+      characterId,
+      userId,
+      { name: 'Aria', hitPoints: { maximum: 20, current: 20 } },
+      { name: 'Aria', hitPoints: { maximum: 27, current: 20 } }
+    );
+
+    expect(CharacterRevision.appendRevision).toHaveBeenCalledWith(characterId, {
+      authorId: userId,
+      changes: [{ field: 'hitPoints.maximum', from: 20, to: 27 }],
+      description: 'Changed hitPoints.maximum from 20 to 27',
+    });
+  });
+
+  it('does not record edits that change nothing', async () => {
+    const result = await CharacterServiceVersions.recordRevision(characterId, userId, { name: 'Aria' }, { name: 'Aria' });
+
+    expect(result).toBeNull();
+    expect(CharacterRevision.appendRevision).not.toHaveBeenCalled();
+  });
+
+  it('lists revisions as versions', async () => {
+    mockCharacter({});
+    (CharacterRevision.findRevisions as jest.Mock).mockResolvedValue([
+      revision(2, [{ field: 'armorClass', from: 14, to: 16 }], { revertedTo: 1 }),
+    ]);
+
+    const result = await CharacterServiceVersions.getVersionHistory(characterId, userId);
+
+    expect(result).toEqual({
+      success: true,
+      data: [{
+        id: '2',
+        revision: 2,
+        timestamp: new Date('2024-01-01T00:00:00Z'),
+        changes: { armorClass: { from: 14, to: 16 } },
+        changeDescription: 'Changed armorClass from 14 to 16',
+        userId,
+        revertedTo: 1,
+      }],
+    });
+  });
+
+  it('diffs two versions by combining the revisions between them', async () => {
+    mockCharacter({});
+    (CharacterRevision.findLatestRevisionNumber as jest.Mock).mockResolvedValue(3);
+    (CharacterRevision.findRevisionRange as jest.Mock).mockResolvedValue([
+      revision(2, [{ field: 'speed', from: 30, to: 25 }]),
+      revision(3, [{ field: 'speed', from: 25, to: 20 }]),
+    ]);
+
+    const result = await CharacterServiceVersions.getVersionDiff(characterId, userId, 1);
+
+    expect(CharacterRevision.findRevisionRange).toHaveBeenCalledWith(characterId, 1, 3);
+    expect(result).toEqual({
+      success: true,
+      data: { fromVersion: 1, toVersion: 3, changes: { speed: { from: 30, to: 20 } } },
+    });
+  });
+
+  it('reverts by undoing later revisions and records the revert as a new revision', async () => {
+    mockCharacter({ name: 'Aria', armorClass: 18, notes: 'Cursed' });
+    (CharacterRevision.findLatestRevisionNumber as jest.Mock).mockResolvedValue(3);
+    (CharacterRevision.findRevisionRange as jest.Mock).mockResolvedValue([
+      revision(2, [{ field: 'armorClass', from: 14, to: 18 }]),
+      revision(3, [{ field: 'notes', to: 'Cursed' }]),
+    ]);
+    (Character.findByIdAndUpdate as jest.Mock).mockResolvedValue({ name: 'Aria', armorClass: 14 });
+
+    const result = await CharacterServiceVersions.revertToVersion(characterId, userId, 1);
+
+    expect(result.success).toBe(true);
+    expect(Character.findByIdAndUpdate).toHaveBeenCalledWith(
+      characterId,
+      { $set: { armorClass: 14, updatedAt: expect.any(Date) }, $unset: { notes: '' } },
+      { new: true, runValidators: true }
+    );
+    expect(CharacterRevision.appendRevision).toHaveBeenCalledWith(characterId, {
+      authorId: userId,
+      changes: [{ field: 'armorClass', from: 18, to: 14 }, { field: 'notes', from: 'Cursed' }],
+      description: 'Reverted to version 1',
+      revertedTo: 1,
+    });
+  });
+
+  it('rejects reverting to a version that does not exist', async () => {
+    mockCharacter({});
+    (CharacterRevision.findLatestRevisionNumber as jest.Mock).mockResolvedValue(2);
+
+    const result = await CharacterServiceVersions.revertToVersion(characterId, userId, 5);
+
+    expect(result.success).toBe(false);
+    expect(!result.success && result.error.code).toBe(CHARACTER_ERROR_CODES.VERSION_NOT_FOUND);
+    expect(Character.findByIdAndUpdate).not.toHaveBeenCalled();
+  });
+
+  it('only lets the owner revert', async () => {
+    (Character.findById as jest.Mock).mockResolvedValue({
+      ownerId: { toString: () => '507f1f77bcf86cd799439099' },
+      isPublic: true,
+    });
+
+    const result = await CharacterServiceVersions.revertToVersion(characterId, userId, 1);
+
+    expect(!result.success && result.error.code).toBe(CHARACTER_ERROR_CODES.UNAUTHORIZED_ACCESS);
+  });
+});
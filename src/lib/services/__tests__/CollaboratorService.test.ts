@@ -0,0 +1,307 @@
+import { CollaboratorService } from '../CollaboratorService';
+
+jest.mock('@/lib/models/User', () => ({
+  __esModule: true,
+  default: {
+    findByEmail: jest.fn(),
+    findByUsername: jest.fn(),
+    find: jest.fn(),
+  },
+}));
+
+jest.mock('@/lib/models/encounter', () => ({
+  Encounter: {
+    findById: jest.fn(),
+    find: jest.fn(),
+  },
+}));
+
+jest.mock('@/lib/models/Party', () => ({
+  Party: {
+    findById: jest.fn(),
+    find: jest.fn(),
+  },
+}));
+
+jest.mock('@/lib/models/Collaborator', () => ({
+  Collaborator: {
+    create: jest.fn(),
+    find: jest.fn(),
+    findById: jest.fn(),
+    findOne: jest.fn(),
+    findByIdAndDelete: jest.fn(),
+    deleteMany: jest.fn(),
+  },
+}));
+
+import User from '@/lib/models/User';
+import { Encounter } from '@/lib/models/encounter';
+import { Party } from '@/lib/models/Party';
+import { Collaborator } from '@/lib/models/Collaborator';
+
+describe('CollaboratorService', () => {
+  const ownerId = '507f1f77bcf86cd799439011';
+  const encounterId = '507f1f77bcf86cd799439012';
+  const partyId = '507f1f77bcf86cd799439013';
+  const inviteeId = '507f1f77bcf86cd799439014';
+  const collaboratorId = '507f1f77bcf86cd799439015';
+  const strangerId = '507f1f77bcf86cd799439016';
+
+  const createMockObjectId = (id: string) => ({
+    toString: () => id,
+    equals: (other: any) => other && other.toString() === id,
+  });
+
+  const mockResource = (id: string, overrides: Record<string, unknown> = {}) => ({
+    _id: createMockObjectId(id),
+    ownerId: createMockObjectId(ownerId),
+    name: 'Goblin Ambush',
+    isPublic: false,
+    sharedWith: [] as ReturnType<typeof createMockObjectId>[],
+    save: jest.fn(),
+    ...overrides,
+  });
+
+  const mockCollaborator = (overrides: Record<string, unknown> = {}) => {
+    const collaborator = {
+      _id: createMockObjectId(collaboratorId),
+      resourceType: 'encounter',
+      resourceId: createMockObjectId(encounterId),
+      userId: createMockObjectId(inviteeId),
+      invitedBy: createMockObjectId(ownerId),
+      role: 'viewer',
+      status: 'pending',
+      createdAt: new Date('2030-01-01'),
+      save: jest.fn(),
+      ...overrides,
+    };
+    collaborator.save.mockResolvedValue(collaborator);
+    return collaborator;
+  };
+
+  const invitee = { _id: createMockObjectId(inviteeId), username: 'ranger', email: 'ranger@example.com' };
+  const owner = { _id: createMockObjectId(ownerId), username: 'dungeonmaster', email: 'dm@example.com' };
+
+  const mockUsers = (users: unknown[]) =>
+    (User.find as jest.Mock).mockReturnValue({
+      select: jest.fn().mockReturnValue({ lean: jest.fn().mockResolvedValue(users) }),
+    });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('getAccessRole', () => {
+    it('resolves owners, accepted collaborators, shared users and the public', async () => {
+      const encounter = mockResource(encounterId, { sharedWith: [createMockObjectId(inviteeId)] });
+
+      expect(await CollaboratorService.getAccessRole('encounter', encounter as any, ownerId)).toBe('owner');
+
+      (Collaborator.findOne as jest.Mock).mockResolvedValueOnce({ role: 'co_dm' });
+      expect(await CollaboratorService.getAccessRole('encounter', encounter as any, inviteeId)).toBe('co_dm');
+
+      (Collaborator.findOne as jest.Mock).mockResolvedValueOnce(null);
+      expect(await CollaboratorService.getAccessRole('encounter', encounter as any, inviteeId)).toBe('viewer');
+
+      expect(await CollaboratorService.getAccessRole('encounter', encounter as any, strangerId)).toBeNull();
+      expect(
+        await CollaboratorService.getAccessRole('encounter', { ...encounter, isPublic: true } as any, strangerId)
+      ).toBe('viewer');
+    });
+  });
+
+  describe('listCollaborators', () => {
+    beforeEach(() => {
+      (Collaborator.find as jest.Mock).mockReturnValue({
+        sort: jest.fn().mockResolvedValue([mockCollaborator({ status: 'accepted' })]),
+      });
+      mockUsers([invitee]);
+    });
+
+    it('shows email addresses to the owner', async () => {
+      (Encounter.findById as jest.Mock).mockResolvedValue(mockResource(encounterId));
+
+      const result = await CollaboratorService.listCollaborators('encounter', encounterId, ownerId);
+
+      expect(result.data).toEqual([expect.objectContaining({ username: 'ranger', email: 'ranger@example.com' })]);
+    });
+
+    it('leaves email addresses out for viewers of a public encounter', async () => {
+      (Encounter.findById as jest.Mock).mockResolvedValue(mockResource(encounterId, { isPublic: true }));
+
+      const result = await CollaboratorService.listCollaborators('encounter', encounterId, strangerId);
+
+      expect(result.data?.[0].username).toBe('ranger');
+      expect(result.data?.[0]).not.toHaveProperty('email');
+    });
+  });
+
+  describe('inviteCollaborator', () => {
+    beforeEach(() => {
+      (Encounter.findById as jest.Mock).mockResolvedValue(mockResource(encounterId));
+    });
+
+    it('invites a user by username with a pending status', async () => {
+      (User.findByUsername as jest.Mock).mockResolvedValue(invitee);
+      (Collaborator.findOne as jest.Mock).mockResolvedValue(null);
+      (Collaborator.create as jest.Mock).mockImplementation(async (doc) =>
+        mockCollaborator({ ...doc, status: 'pending' })
+      );
+
+      const result = await CollaboratorService.inviteCollaborator('encounter', encounterId, ownerId, {
+        identifier: 'ranger',
+        role: 'co_dm',
+      });
+
+      expect(User.findByUsername).toHaveBeenCalledWith('ranger');
+      expect(result.data).toMatchObject({ username: 'ranger', role: 'co_dm', status: 'pending' });
+    });
+
+    it('looks up invitees by email and reports unknown users', async () => {
+      (User.findByEmail as jest.Mock).mockResolvedValue(null);
+
+      const result = await CollaboratorService.inviteCollaborator('encounter', encounterId, ownerId, {
+        identifier: 'nobody@example.com',
+        role: 'viewer',
+      });
+
+      expect(result.error).toMatchObject({
+        message: 'No user found with email or username: nobody@example.com',
+        statusCode: 404,
+      });
+    });
+
+    it('refuses duplicate invitations but re-sends declined ones', async () => {
+      (User.findByUsername as jest.Mock).mockResolvedValue(invitee);
+      (Collaborator.findOne as jest.Mock).mockResolvedValueOnce(mockCollaborator());
+
+      const duplicate = await CollaboratorService.inviteCollaborator('encounter', encounterId, ownerId, {
+        identifier: 'ranger',
+        role: 'viewer',
+      });
+      expect(duplicate.error?.statusCode).toBe(409);
+
+      const declined = mockCollaborator({ status: 'declined', respondedAt: new Date() });
+      (Collaborator.findOne as jest.Mock).mockResolvedValueOnce(declined);
+
+      const resent = await CollaboratorService.inviteCollaborator('encounter', encounterId, ownerId, {
+        identifier: 'ranger',
+        role: 'player',
+      });
+      expect(resent.data).toMatchObject({ status: 'pending', role: 'player' });
+      expect(declined.respondedAt).toBeUndefined();
+    });
+
+    it('only lets the owner invite', async () => {
+      (Encounter.findById as jest.Mock).mockResolvedValue(
+        mockResource(encounterId, { sharedWith: [createMockObjectId(inviteeId)] })
+      );
+      (Collaborator.findOne as jest.Mock).mockResolvedValue({ role: 'co_dm' });
+
+      const result = await CollaboratorService.inviteCollaborator('encounter', encounterId, inviteeId, {
+        identifier: 'someone',
+        role: 'viewer',
+      });
+
+      expect(result.error?.code).toBe('COLLABORATION_PERMISSION_DENIED');
+      expect(Collaborator.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('invitations', () => {
+    it('lists pending invitations with the resource and inviter names', async () => {
+      (Collaborator.find as jest.Mock).mockReturnValue({
+        sort: jest.fn().mockResolvedValue([
+          mockCollaborator({ resourceType: 'party', resourceId: createMockObjectId(partyId), role: 'player' }),
+        ]),
+      });
+      mockUsers([owner]);
+      (Encounter.find as jest.Mock).mockReturnValue({
+        select: jest.fn().mockReturnValue({ lean: jest.fn().mockResolvedValue([]) }),
+      });
+      (Party.find as jest.Mock).mockReturnValue({
+        select: jest.fn().mockReturnValue({
+          lean: jest.fn().mockResolvedValue([{ _id: createMockObjectId(partyId), name: 'The Brave Few' }]),
+        }),
+      });
+
+      const result = await CollaboratorService.listInvitations(inviteeId);
+
+      expect(result.data).toEqual([
+        expect.objectContaining({
+          resourceType: 'party',
+          resourceId: partyId,
+          resourceName: 'The Brave Few',
+          role: 'player',
+          invitedBy: 'dungeonmaster',
+        }),
+      ]);
+    });
+
+    it('grants access when an invitation is accepted', async () => {
+      const invitation = mockCollaborator();
+      const encounter = mockResource(encounterId);
+      (Collaborator.findById as jest.Mock).mockResolvedValue(invitation);
+      (Encounter.findById as jest.Mock).mockResolvedValue(encounter);
+      mockUsers([owner]);
+
+      const result = await CollaboratorService.respondToInvitation(collaboratorId, inviteeId, { status: 'accepted' });
+
+      expect(result.data).toMatchObject({ resourceName: 'Goblin Ambush', invitedBy: 'dungeonmaster' });
+      expect(invitation.status).toBe('accepted');
+      expect(encounter.sharedWith.map(id => id.toString())).toEqual([inviteeId]);
+      expect(encounter.save).toHaveBeenCalled();
+    });
+
+    it('does not let other users answer an invitation', async () => {
+      (Collaborator.findById as jest.Mock).mockResolvedValue(mockCollaborator());
+
+      const result = await CollaboratorService.respondToInvitation(collaboratorId, strangerId, { status: 'accepted' });
+
+      expect(result.error?.statusCode).toBe(404);
+    });
+
+    it('does not answer an invitation twice', async () => {
+      (Collaborator.findById as jest.Mock).mockResolvedValue(mockCollaborator({ status: 'declined' }));
+
+      const result = await CollaboratorService.respondToInvitation(collaboratorId, inviteeId, { status: 'accepted' });
+
+      expect(result.error).toMatchObject({ message: 'This invitation was already declined', statusCode: 409 });
+    });
+  });
+
+  describe('removeCollaborator', () => {
+    it('removes the invitation and the shared access', async () => {
+      const encounter = mockResource(encounterId, { sharedWith: [createMockObjectId(inviteeId)] });
+      (Encounter.findById as jest.Mock).mockResolvedValue(encounter);
+      (Collaborator.findById as jest.Mock).mockResolvedValue(mockCollaborator({ status: 'accepted' }));
+
+      const result = await CollaboratorService.removeCollaborator('encounter', encounterId, collaboratorId, ownerId);
+
+      expect(result.success).toBe(true);
+      expect(Collaborator.findByIdAndDelete).toHaveBeenCalled();
+      expect(encounter.sharedWith).toEqual([]);
+    });
+
+    it('lets collaborators leave but not remove others', async () => {
+      const encounter = mockResource(encounterId, { sharedWith: [createMockObjectId(inviteeId)] });
+      (Encounter.findById as jest.Mock).mockResolvedValue(encounter);
+      (Collaborator.findById as jest.Mock).mockResolvedValue(mockCollaborator({ status: 'accepted' }));
+
+      const denied = await CollaboratorService.removeCollaborator('encounter', encounterId, collaboratorId, strangerId);
+      expect(denied.error?.statusCode).toBe(403);
+
+      const left = await CollaboratorService.removeCollaborator('encounter', encounterId, collaboratorId, inviteeId);
+      expect(left.success).toBe(true);
+    });
+
+    it('rejects collaborators of another resource', async () => {
+      (Party.findById as jest.Mock).mockResolvedValue(mockResource(partyId));
+      (Collaborator.findById as jest.Mock).mockResolvedValue(mockCollaborator());
+
+      const result = await CollaboratorService.removeCollaborator('party', partyId, collaboratorId, ownerId);
+
+      expect(result.error?.code).toBe('COLLABORATOR_NOT_FOUND');
+    });
+  });
+});
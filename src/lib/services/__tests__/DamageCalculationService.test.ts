@@ -1,5 +1,10 @@
 import { DamageCalculationService } from '../DamageCalculationService';
-import { DamageCalculationServiceError } from '../DamageCalculationServiceErrors';
+import {
+  DamageCalculationServiceError,
+  InvalidDamageInputError,
+  DamageCalculationLimitError
+} from '../DamageCalculationServiceErrors';
+import { createSeededRandom } from '../../utils/dice/seeded-random';
 import {
   DamageCalculationInput,
   DamageType,
@@ -56,6 +61,40 @@ describe('DamageCalculationService', () => {
     });
   });
 
+  describe('calculateDamageFromNotation', () => {
+    it('should calculate damage with a per-term breakdown', () => {
+      const result = service.calculateDamageFromNotation('2d6+1d4+3', 'fire');
+
+      expect(result.damageType).toBe('fire');
+      expect(result.modifier).toBe(3);
+      expect(result.diceRolls).toHaveLength(3);
+      expect(result.breakdown?.terms).toHaveLength(3);
+      expect(result.totalDamage).toBe(result.breakdown?.total);
+    });
+
+    it('should be repeatable with a seeded random source', () => {
+      const first = service.calculateDamageFromNotation('8d6', 'fire', { random: createSeededRandom(7) });
+      const second = service.calculateDamageFromNotation('8d6', 'fire', { random: createSeededRandom(7) });
+
+      expect(second.diceRolls).toEqual(first.diceRolls);
+    });
+
+    it('should double the dice on a critical hit', () => {
+      const result = service.calculateDamageFromNotation('1d8+2', 'piercing', { critical: true });
+
+      expect(result.diceRolls).toHaveLength(2);
+      expect(result.isCritical).toBe(true);
+    });
+
+    it('should reject invalid notation', () => {
+      expect(() => service.calculateDamageFromNotation('2d', 'fire')).toThrow(InvalidDamageInputError);
+    });
+
+    it('should enforce the dice count limit across terms', () => {
+      expect(() => service.calculateDamageFromNotation('60d6+60d6', 'fire')).toThrow(DamageCalculationLimitError);
+    });
+  });
+
   describe('calculateDamageWithResistance', () => {
     it('should apply resistance correctly', () => {
       const baseDamage = {
@@ -0,0 +1,160 @@
+import { DashboardService } from '../DashboardService';
+
+jest.mock('mongoose', () => {
+  const ObjectId = Object.assign(
+    jest.fn().mockImplementation((id: string) => ({ toString: () => id })),
+    { isValid: (id: unknown) => /^[0-9a-f]{24}$/i.test(String(id)) }
+  );
+  return { Types: { ObjectId } };
+});
+jest.mock('@/lib/models/Character', () => ({
+  Character: { aggregate: jest.fn() },
+}));
+jest.mock('@/lib/models/encounter', () => ({
+  Encounter: { aggregate: jest.fn() },
+}));
+jest.mock('@/lib/models/Party', () => ({
+  Party: { aggregate: jest.fn() },
+}));
+jest.mock('@/lib/models/CombatEvent', () => ({
+  CombatEvent: { aggregate: jest.fn() },
+}));
+jest.mock('@/lib/models/CharacterRevision', () => ({
+  CharacterRevision: { aggregate: jest.fn() },
+}));
+jest.mock('@/lib/models/User', () => ({
+  __esModule: true,
+  default: { findById: jest.fn() },
+  SUBSCRIPTION_LIMITS: {
+    free: { parties: 1, encounters: 3, characters: 10 },
+    guild: { parties: Infinity, encounters: Infinity, characters: Infinity },
+  },
+}));
+
+import { Character } from '@/lib/models/Character';
+import { Encounter } from '@/lib/models/encounter';
+import { Party } from '@/lib/models/Party';
+import { CombatEvent } from '@/lib/models/CombatEvent';
+import { CharacterRevision } from '@/lib/models/CharacterRevision';
+import User from '@/lib/models/User';
+
+describe('DashboardService', () => {
+  const userId = '507f1f77bcf86cd799439011';
+  const encounterId = '507f1f77bcf86cd799439021';
+  const characterId = '507f1f77bcf86cd799439031';
+
+  const createMockObjectId = (id: string) => ({ toString: () => id });
+
+  const mockTier = (subscriptionTier: string | null) =>
+    (User.findById as jest.Mock).mockReturnValue({
+      select: jest.fn().mockReturnValue({
+        lean: jest.fn().mockResolvedValue(subscriptionTier ? { subscriptionTier } : null),
+      }),
+    });
+
+  const facet = (total: number, documents: Record<string, unknown>[] = [], extra: Record<string, unknown> = {}) => [{
+    total: total > 0 ? [{ count: total }] : [],
+    recent: documents,
+    names: documents.map(({ _id, name }) => ({ _id, name })),
+    ...extra,
+  }];
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockTier('free');
+    (Character.aggregate as jest.Mock).mockResolvedValue([]);
+    (Encounter.aggregate as jest.Mock).mockResolvedValue([]);
+    (Party.aggregate as jest.Mock).mockResolvedValue([]);
+    (CombatEvent.aggregate as jest.Mock).mockResolvedValue([]);
+    (CharacterRevision.aggregate as jest.Mock).mockResolvedValue([]);
+  });
+
+  it('counts owned items and compares them with the tier limits', async () => {
+    (Character.aggregate as jest.Mock).mockResolvedValue(facet(4));
+    (Encounter.aggregate as jest.Mock).mockResolvedValue(facet(3, [], {
+      active: [{ encounterId, name: 'Goblin Ambush', round: 2, participantCount: 5 }],
+    }));
+    (Party.aggregate as jest.Mock).mockResolvedValue(facet(1));
+
+    const result = await DashboardService.getDashboard(userId);
+
+    expect(result.data?.counts).toEqual({ characters: 4, encounters: 3, parties: 1, activeSessions: 1 });
+    expect(result.data?.usage).toEqual({
+      characters: { used: 4, limit: 10 },
+      encounters: { used: 3, limit: 3 },
+      parties: { used: 1, limit: 1 },
+    });
+    expect(result.data?.activeSessions).toEqual([
+      { encounterId, name: 'Goblin Ambush', round: 2, participantCount: 5 },
+    ]);
+  });
+
+  it('reports unlimited tiers with a null limit', async () => {
+    mockTier('guild');
+
+    const result = await DashboardService.getDashboard(userId);
+
+    expect(result.data?.subscriptionTier).toBe('guild');
+    expect(result.data?.usage.characters).toEqual({ used: 0, limit: null });
+  });
+
+  it('merges recent items and activity newest first', async () => {
+    const encounter = { _id: createMockObjectId(encounterId), name: 'Goblin Ambush', updatedAt: new Date('2030-01-02') };
+    const character = { _id: createMockObjectId(characterId), name: 'Bruni', updatedAt: new Date('2030-01-05') };
+    (Character.aggregate as jest.Mock).mockResolvedValue(facet(1, [character]));
+    (Encounter.aggregate as jest.Mock).mockResolvedValue(facet(1, [encounter], {
+      active: [],
+      created: [{ _id: encounter._id, name: 'Goblin Ambush', createdAt: new Date('2030-01-01') }],
+    }));
+    (CombatEvent.aggregate as jest.Mock).mockResolvedValue([{
+      _id: createMockObjectId('507f1f77bcf86cd799439041'),
+      encounterId: encounter._id,
+      timestamp: new Date('2030-01-03'),
+      rounds: 4,
+    }]);
+    (CharacterRevision.aggregate as jest.Mock).mockResolvedValue([{
+      _id: createMockObjectId('507f1f77bcf86cd799439051'),
+      characterId: character._id,
+      description: 'Leveled up to Fighter 5 (level 5)',
+      createdAt: new Date('2030-01-04'),
+    }]);
+
+    const result = await DashboardService.getDashboard(userId);
+
+    expect(result.data?.recent.map(item => item.name)).toEqual(['Bruni', 'Goblin Ambush']);
+    expect(result.data?.activity.map(entry => entry.type)).toEqual([
+      'character_leveled',
+      'combat_finished',
+      'encounter_created',
+    ]);
+    expect(result.data?.activity.map(entry => entry.description)).toEqual([
+      'Bruni leveled up to Fighter 5 (level 5)',
+      'Finished combat in Goblin Ambush after 4 rounds',
+      'Created encounter Goblin Ambush',
+    ]);
+    expect((CharacterRevision.aggregate as jest.Mock).mock.calls[0][0][0].$match.description).toEqual({
+      $regex: '^Leveled up to',
+    });
+  });
+
+  it('skips the history pipelines when the user owns nothing', async () => {
+    const result = await DashboardService.getDashboard(userId);
+
+    expect(result.data?.activity).toEqual([]);
+    expect(CombatEvent.aggregate).not.toHaveBeenCalled();
+    expect(CharacterRevision.aggregate).not.toHaveBeenCalled();
+  });
+
+  it('rejects invalid user IDs and reports database failures', async () => {
+    const invalid = await DashboardService.getDashboard('not-an-id');
+    expect(invalid.error).toMatchObject({ code: 'INVALID_USER_ID', statusCode: 400 });
+
+    const consoleSpy = jest.spyOn(console, 'error').mockImplementation(() => {});
+    (Party.aggregate as jest.Mock).mockRejectedValue(new Error('connection lost'));
+
+    const failed = await DashboardService.getDashboard(userId);
+
+    expect(failed.error).toMatchObject({ code: 'DASHBOARD_LOAD_FAILED', statusCode: 500 });
+    consoleSpy.mockRestore();
+  });
+});
@@ -0,0 +1,64 @@
+import { getExportJsonSchema, upgradeExportData } from '../encounter-import-export/schemaUpgrades';
+import { CURRENT_EXPORT_VERSION, encounterExportSchema } from '../encounter-import-export/types';
+import { createTestExportData } from './encounter-import-export-test-helpers';
+
+const createVersionedData = (version: string, conditions: unknown[] = []) =>
+  createTestExportData({
+    metadata: { version },
+    encounter: {
+      participants: [{ ...createTestExportData().encounter.participants[0], name: 'Kara', conditions }],
+    },
+  });
+
+describe('export schema upgrades', () => {
+  it('upgrades 1.0.0 free-text conditions to structured conditions', () => {
+    const result = upgradeExportData(createVersionedData('1.0.0', ['Poisoned', 'blessed', { name: 'prone' }]));
+    const data = result.data as any;
+
+    expect(result.fromVersion).toBe('1.0.0');
+    expect(data.metadata.version).toBe(CURRENT_EXPORT_VERSION);
+    expect(data.encounter.participants[0].conditions).toEqual([
+      { name: 'poisoned', expiry: 'indefinite' },
+      { name: 'prone', expiry: 'indefinite' },
+    ]);
+    expect(result.notes).toEqual([
+      'Upgraded from export version 1.0.0 to 1.1.0',
+      'Dropped unrecognised conditions from Kara: blessed',
+    ]);
+    expect(encounterExportSchema.safeParse(data).success).toBe(true);
+  });
+
+  it('leaves the original data unchanged', () => {
+    const original = createVersionedData('1.0.0', ['poisoned']);
+
+    upgradeExportData(original);
+
+    expect(original.metadata.version).toBe('1.0.0');
+    expect(original.encounter.participants[0].conditions).toEqual(['poisoned']);
+  });
+
+  it('passes current files through without notes', () => {
+    const result = upgradeExportData(createVersionedData(CURRENT_EXPORT_VERSION));
+
+    expect(result.notes).toEqual([]);
+    expect((result.data as any).metadata.version).toBe(CURRENT_EXPORT_VERSION);
+  });
+
+  it('rejects files from a newer app version', () => {
+    expect(() => upgradeExportData(createVersionedData('2.0.0'))).toThrow(
+      'Export version 2.0.0 is newer than this app supports (1.1.0); update the app to import it'
+    );
+  });
+
+  it('rejects unknown versions', () => {
+    expect(() => upgradeExportData(createVersionedData('0.9-beta'))).toThrow('Unknown export version 0.9-beta');
+  });
+
+  it('publishes a JSON Schema pinned to the current version', () => {
+    const schema = getExportJsonSchema() as any;
+
+    expect(schema.$id).toBe(`encounter-export-${CURRENT_EXPORT_VERSION}`);
+    expect(schema.properties.metadata.properties.version.const).toBe(CURRENT_EXPORT_VERSION);
+    expect(schema.required).toEqual(['metadata', 'encounter']);
+  });
+});
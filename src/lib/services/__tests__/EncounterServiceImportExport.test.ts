@@ -4,6 +4,7 @@ import { Encounter } from '../../models/encounter';
 import { Character } from '../../models/Character';
 import type { IEncounter } from '../../models/encounter/interfaces';
 import type { ICharacter } from '../../models/Character';
+import { CURRENT_EXPORT_VERSION } from '../encounter-import-export/types';
 import { createTestExportData, createInvalidExportData } from './encounter-import-export-test-helpers';
 
 // Mock the dependencies
@@ -426,6 +427,91 @@ describe('EncounterServiceImportExport', () => {
       expect(result.success).toBe(false);
       expect(result.error?.message).toBe('Invalid JSON format');
     });
+
+    it('should reject exports from a newer app version', async () => {
+      const futureData = createTestExportData({ metadata: { version: '9.0.0' } });
+
+      const result = await EncounterServiceImportExport.importFromJson(
+        JSON.stringify(futureData),
+        { ownerId: mockUserId }
+      );
+
+      expect(result.success).toBe(false);
+      expect(result.error?.code).toBe('UNSUPPORTED_EXPORT_VERSION');
+      expect(result.error?.message).toContain('Export version 9.0.0 is newer than this app supports');
+      expect(mockEncounter.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('exportToFoundry', () => {
+    it('should export encounter as a Foundry VTT document', async () => {
+      mockEncounter.findById.mockResolvedValue(testEncounter);
+
+      const result = await EncounterServiceImportExport.exportToFoundry(mockEncounterId, mockUserId);
+
+      expect(result.success).toBe(true);
+      const document = JSON.parse(result.data!);
+      expect(document.name).toBe('Test Encounter');
+      expect(document.actors).toHaveLength(2);
+      expect(document.combat.round).toBe(2);
+    });
+  });
+
+  describe('exportToFightClub', () => {
+    it('should leave player characters out of the compendium', async () => {
+      mockEncounter.findById.mockResolvedValue(testEncounter);
+
+      const result = await EncounterServiceImportExport.exportToFightClub(mockEncounterId, mockUserId);
+
+      expect(result.success).toBe(true);
+      expect(result.data).toContain('<compendium version="5"');
+      expect(result.data).not.toContain('<monster>');
+    });
+  });
+
+  describe('importFromFoundry', () => {
+    it('should import actors as encounter participants', async () => {
+      mockEncounter.create.mockResolvedValue(testEncounter);
+      const actors = [{ name: 'Ogre', type: 'npc', system: { attributes: { hp: { value: 59, max: 59 }, ac: { flat: 11 } } } }];
+
+      const result = await EncounterServiceImportExport.importFromFoundry(
+        JSON.stringify(actors),
+        { ownerId: mockUserId }
+      );
+
+      expect(result.success).toBe(true);
+      expect(mockEncounter.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          name: 'Foundry VTT import',
+          participants: [expect.objectContaining({ name: 'Ogre', type: 'monster', maxHitPoints: 59, armorClass: 11 })],
+        })
+      );
+    });
+
+    it('should return a format error for non-actor data', async () => {
+      const result = await EncounterServiceImportExport.importFromFoundry('{"foo":1}', { ownerId: mockUserId });
+
+      expect(result.success).toBe(false);
+      expect(result.error?.code).toBe('INVALID_IMPORT_FORMAT');
+      expect(result.error?.statusCode).toBe(400);
+    });
+  });
+
+  describe('importFromFightClub', () => {
+    it('should import compendium monsters as encounter participants', async () => {
+      mockEncounter.create.mockResolvedValue(testEncounter);
+      const xml = '<compendium><monster><name>Ghoul</name><ac>12</ac><hp>22 (5d8)</hp><cr>1</cr></monster></compendium>';
+
+      const result = await EncounterServiceImportExport.importFromFightClub(xml, { ownerId: mockUserId });
+
+      expect(result.success).toBe(true);
+      expect(mockEncounter.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          name: 'Fight Club 5 import',
+          participants: [expect.objectContaining({ name: 'Ghoul', maxHitPoints: 22, challengeRating: 1 })],
+        })
+      );
+    });
   });
 
   describe('generateShareableLink', () => {
@@ -548,7 +634,7 @@ describe('EncounterServiceImportExport', () => {
       // Validate metadata
       expect(exportData.metadata).toBeDefined();
       expect(exportData.metadata.format).toBe('json');
-      expect(exportData.metadata.version).toBe('1.0.0');
+      expect(exportData.metadata.version).toBe(CURRENT_EXPORT_VERSION);
       expect(exportData.metadata.exportedBy).toBe(mockUserId);
 
       // Validate encounter data
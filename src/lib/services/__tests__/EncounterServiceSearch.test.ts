@@ -21,6 +21,13 @@ jest.mock('../EncounterServiceValidation', () => ({
   },
 }));
 
+// Mock CampaignService
+jest.mock('../CampaignService', () => ({
+  CampaignService: {
+    getCampaignScope: jest.fn(),
+  },
+}));
+
 describe('EncounterServiceSearch', () => {
   const validOwnerId = '507f1f77bcf86cd799439011';
   const invalidOwnerId = 'invalid-id';
@@ -99,4 +106,51 @@ describe('EncounterServiceSearch', () => {
       expect(mongoQuery).toEqual({});
     });
   });
-});
\ No newline at end of file
+
+  describe('campaign filter', () => {
+    const campaignId = '507f1f77bcf86cd799439021';
+    const userId = validOwnerId;
+    const encounterId = '507f1f77bcf86cd799439051';
+
+    const mockEncounterQuery = () => {
+      const { Encounter } = require('../../models/encounter');
+      const exec = jest.fn().mockResolvedValue([]);
+      Encounter.find.mockReturnValue({
+        sort: jest.fn().mockReturnValue({
+          skip: jest.fn().mockReturnValue({ limit: jest.fn().mockReturnValue({ exec }) }),
+        }),
+      });
+      Encounter.countDocuments.mockResolvedValue(0);
+      return Encounter;
+    };
+
+    it("should limit results to the campaign's encounters", async () => {
+      const { CampaignService } = require('../CampaignService');
+      CampaignService.getCampaignScope.mockResolvedValue({
+        success: true,
+        data: { partyIds: [], encounterIds: [encounterId] },
+      });
+      const Encounter = mockEncounterQuery();
+
+      const result = await EncounterServiceSearch.searchEncounters({ campaignId, userId, status: 'draft' });
+
+      expect(result.success).toBe(true);
+      expect(CampaignService.getCampaignScope).toHaveBeenCalledWith(campaignId, userId);
+      const mongoQuery = Encounter.find.mock.calls[0][0];
+      expect(mongoQuery.status).toBe('draft');
+      expect(mongoQuery._id.$in.map((id: { toString: () => string }) => id.toString())).toEqual([encounterId]);
+    });
+
+    it('should return the campaign error when the campaign cannot be resolved', async () => {
+      const { CampaignService } = require('../CampaignService');
+      const error = { message: 'Campaign not found', code: 'CAMPAIGN_NOT_FOUND', statusCode: 404 };
+      CampaignService.getCampaignScope.mockResolvedValue({ success: false, error });
+      const Encounter = mockEncounterQuery();
+
+      const result = await EncounterServiceSearch.searchEncounters({ campaignId, userId });
+
+      expect(result).toEqual({ success: false, error });
+      expect(Encounter.find).not.toHaveBeenCalled();
+    });
+  });
+});
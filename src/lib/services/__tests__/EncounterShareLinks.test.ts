@@ -0,0 +1,240 @@
+import { Types } from 'mongoose';
+import { EncounterServiceImportExport } from '../EncounterServiceImportExport';
+
+jest.mock('@/lib/models/encounter', () => ({
+  Encounter: {
+    findById: jest.fn(),
+  },
+}));
+
+jest.mock('@/lib/models/EncounterShare', () => ({
+  EncounterShare: {
+    create: jest.fn(),
+    find: jest.fn(),
+    findById: jest.fn(),
+    findOne: jest.fn(),
+  },
+}));
+
+jest.mock('../encounter-import-export/importProcessor', () => ({
+  processImportData: jest.fn(),
+}));
+
+jest.mock('../encounter-import-export/dataBuilder', () => ({
+  prepareExportData: jest.fn(),
+}));
+
+import { Encounter } from '@/lib/models/encounter';
+import { EncounterShare } from '@/lib/models/EncounterShare';
+import { processImportData } from '../encounter-import-export/importProcessor';
+import { prepareExportData } from '../encounter-import-export/dataBuilder';
+
+describe('EncounterServiceImportExport share links', () => {
+  const ownerId = '507f1f77bcf86cd799439011';
+  const encounterId = '507f1f77bcf86cd799439012';
+  const shareId = '507f1f77bcf86cd799439013';
+  const viewerId = '507f1f77bcf86cd799439014';
+  const HOUR = 60 * 60 * 1000;
+
+  const createMockObjectId = (id: string) => ({ toString: () => id });
+
+  const participant = (name: string, overrides: Record<string, unknown> = {}) => ({
+    characterId: createMockObjectId(`${name}-id`),
+    name,
+    type: 'npc',
+    isPlayer: false,
+    isVisible: true,
+    armorClass: 15,
+    maxHitPoints: 22,
+    currentHitPoints: 10,
+    temporaryHitPoints: 0,
+    notes: 'secret tactics',
+    conditions: [],
+    ...overrides,
+  });
+
+  const mockEncounter = () => ({
+    _id: createMockObjectId(encounterId),
+    ownerId: createMockObjectId(ownerId),
+    sharedWith: [],
+    name: 'Goblin Ambush',
+    description: 'On the road to Phandalin',
+    tags: ['goblins'],
+    difficulty: 'medium',
+    status: 'active',
+    participants: [participant('Goblin Boss'), participant('Hidden Archer', { isVisible: false })],
+    combatState: { isActive: false, currentRound: 0, currentTurn: 0, initiativeOrder: [] },
+  });
+
+  const mockShare = (overrides: Record<string, unknown> = {}) => ({
+    _id: createMockObjectId(shareId),
+    token: 'share-token',
+    encounterId: createMockObjectId(encounterId),
+    createdBy: createMockObjectId(ownerId),
+    scope: 'read_only',
+    expiresAt: new Date(Date.now() + HOUR),
+    revoked: false,
+    createdAt: new Date(),
+    save: jest.fn(),
+    ...overrides,
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (Encounter.findById as jest.Mock).mockResolvedValue(mockEncounter());
+  });
+
+  it('persists a grant with its scope and expiry when generating a link', async () => {
+    (EncounterShare.create as jest.Mock).mockImplementation(async (doc) => doc);
+
+    const result = await EncounterServiceImportExport.generateShareableLink(encounterId, ownerId, HOUR, 'player_view');
+
+    const grant = (EncounterShare.create as jest.Mock).mock.calls[0][0];
+    expect(grant.scope).toBe('player_view');
+    expect(grant.revoked).toBeUndefined();
+    expect(grant.expiresAt.getTime()).toBeGreaterThan(Date.now() + HOUR - 1000);
+    expect(result.data).toMatch(new RegExp(`/encounters/shared/${grant.token}$`));
+  });
+
+  it('lists share links with their status', async () => {
+    (EncounterShare.find as jest.Mock).mockReturnValue({
+      sort: jest.fn().mockReturnValue({
+        lean: jest.fn().mockResolvedValue([
+          mockShare(),
+          mockShare({ expiresAt: new Date(Date.now() - HOUR) }),
+          mockShare({ revoked: true }),
+        ]),
+      }),
+    });
+
+    const result = await EncounterServiceImportExport.listShareLinks(encounterId, ownerId);
+
+    expect(result.data?.map(share => share.status)).toEqual(['active', 'expired', 'revoked']);
+    expect(result.data?.[0].url).toMatch(/\/encounters\/shared\/share-token$/);
+  });
+
+  it('only lets the owner and collaborators manage links', async () => {
+    const result = await EncounterServiceImportExport.listShareLinks(encounterId, viewerId);
+
+    expect(result.error?.statusCode).toBe(403);
+    expect(EncounterShare.find).not.toHaveBeenCalled();
+  });
+
+  it('revokes a link and refuses to open it afterwards', async () => {
+    const share = mockShare();
+    (EncounterShare.findById as jest.Mock).mockResolvedValue(share);
+
+    const revoked = await EncounterServiceImportExport.revokeShareLink(encounterId, shareId, ownerId);
+
+    expect(revoked.data?.status).toBe('revoked');
+    expect(share.save).toHaveBeenCalled();
+
+    (EncounterShare.findOne as jest.Mock).mockResolvedValue(share);
+    const opened = await EncounterServiceImportExport.resolveSharedEncounter('share-token');
+
+    expect(opened.error).toMatchObject({ message: 'This share link has been revoked', statusCode: 410 });
+  });
+
+  it('extends the expiry of a link but not of a revoked one', async () => {
+    const share = mockShare({ expiresAt: new Date(Date.now() - HOUR) });
+    (EncounterShare.findById as jest.Mock).mockResolvedValue(share);
+
+    const extended = await EncounterServiceImportExport.extendShareLink(encounterId, shareId, ownerId, 24 * HOUR);
+    expect(extended.data?.status).toBe('active');
+
+    (EncounterShare.findById as jest.Mock).mockResolvedValue(mockShare({ revoked: true }));
+    const refused = await EncounterServiceImportExport.extendShareLink(encounterId, shareId, ownerId, HOUR);
+    expect(refused.error?.code).toBe('SHARE_LINK_REVOKED');
+  });
+
+  it('rejects links of another encounter', async () => {
+    (EncounterShare.findById as jest.Mock).mockResolvedValue(
+      mockShare({ encounterId: createMockObjectId('507f1f77bcf86cd799439099') })
+    );
+
+    const result = await EncounterServiceImportExport.revokeShareLink(encounterId, shareId, ownerId);
+
+    expect(result.error?.code).toBe('SHARE_LINK_NOT_FOUND');
+  });
+
+  it('opens read-only links without notes or hidden participants', async () => {
+    (EncounterShare.findOne as jest.Mock).mockResolvedValue(mockShare());
+
+    const result = await EncounterServiceImportExport.resolveSharedEncounter('share-token');
+
+    expect(result.data).toMatchObject({
+      scope: 'read_only',
+      encounter: {
+        name: 'Goblin Ambush',
+        participants: [{ name: 'Goblin Boss', type: 'npc', isPlayer: false, armorClass: 15, maxHitPoints: 22 }],
+      },
+    });
+    expect(JSON.stringify(result.data)).not.toContain('secret tactics');
+  });
+
+  it('opens player-view links as the player combat view', async () => {
+    (EncounterShare.findOne as jest.Mock).mockResolvedValue(mockShare({ scope: 'player_view' }));
+
+    const result = await EncounterServiceImportExport.resolveSharedEncounter('share-token');
+
+    expect(result.data?.scope).toBe('player_view');
+    expect(result.data).toMatchObject({
+      playerView: { name: 'Goblin Ambush', participants: [{ name: 'Goblin Boss', hpBracket: 'bloodied' }] },
+    });
+  });
+
+  it('refuses expired and unknown links', async () => {
+    (EncounterShare.findOne as jest.Mock).mockResolvedValueOnce(mockShare({ expiresAt: new Date(Date.now() - 1) }));
+    const expired = await EncounterServiceImportExport.resolveSharedEncounter('share-token');
+    expect(expired.error?.message).toBe('This share link has expired');
+
+    (EncounterShare.findOne as jest.Mock).mockResolvedValueOnce(null);
+    const unknown = await EncounterServiceImportExport.resolveSharedEncounter('nope');
+    expect(unknown.error?.statusCode).toBe(404);
+  });
+
+  it('copies template links into the viewer\'s encounters', async () => {
+    (EncounterShare.findOne as jest.Mock).mockResolvedValue(mockShare({ scope: 'clone_template' }));
+    (prepareExportData as jest.Mock).mockResolvedValue({
+      success: true,
+      data: {
+        metadata: { exportedAt: new Date().toISOString(), exportedBy: 'Owner', format: 'json', version: '1.1.0', appVersion: '1.0.0' },
+        encounter: {
+          name: 'Goblin Ambush',
+          description: '',
+          tags: [],
+          status: 'active',
+          isPublic: false,
+          settings: {
+            allowPlayerVisibility: true,
+            autoRollInitiative: false,
+            trackResources: true,
+            enableLairActions: false,
+            enableGridMovement: false,
+            gridSize: 5,
+          },
+          participants: [],
+          combatState: { isActive: true, currentRound: 3, currentTurn: 1, totalDuration: 0, initiativeOrder: [] },
+        },
+      },
+    });
+    (processImportData as jest.Mock).mockResolvedValue({ success: true, data: { _id: new Types.ObjectId() } });
+
+    const result = await EncounterServiceImportExport.cloneSharedEncounter('share-token', viewerId, 'My Ambush');
+
+    expect(result.success).toBe(true);
+    expect(prepareExportData).toHaveBeenCalledWith(encounterId, ownerId, 'json', expect.any(Object));
+    const [importData, options] = (processImportData as jest.Mock).mock.calls[0];
+    expect(importData.encounter).toMatchObject({ name: 'My Ambush', status: 'draft', combatState: { isActive: false } });
+    expect(options).toEqual({ ownerId: viewerId });
+  });
+
+  it('does not copy encounters through other link scopes', async () => {
+    (EncounterShare.findOne as jest.Mock).mockResolvedValue(mockShare());
+
+    const result = await EncounterServiceImportExport.cloneSharedEncounter('share-token', viewerId);
+
+    expect(result.error?.code).toBe('SHARE_SCOPE_DENIED');
+    expect(processImportData).not.toHaveBeenCalled();
+  });
+});
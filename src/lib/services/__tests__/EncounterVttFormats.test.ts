@@ -0,0 +1,203 @@
+import { convertToFoundry, readFoundryEncounter } from '../encounter-import-export/foundryFormat';
+import { convertToFightClub, readFightClubCompendium } from '../encounter-import-export/fightClubFormat';
+import { buildImportData } from '../encounter-import-export/importProcessor';
+import { encounterExportSchema } from '../encounter-import-export/types';
+import { createTestExportData } from './encounter-import-export-test-helpers';
+
+jest.mock('../../models/encounter', () => ({ Encounter: {} }));
+jest.mock('../../models/Character', () => ({ Character: {} }));
+
+const goblin = {
+  id: 'goblin-1',
+  name: 'Goblin 1',
+  type: 'monster',
+  maxHitPoints: 7,
+  currentHitPoints: 4,
+  temporaryHitPoints: 0,
+  armorClass: 15,
+  initiative: 14,
+  isPlayer: false,
+  isVisible: false,
+  notes: 'Hides behind the cart',
+  conditions: [{ name: 'poisoned' }],
+  challengeRating: 0.25,
+  damageResistances: ['fire', 'bludgeoning, piercing, and slashing from nonmagical attacks'],
+  damageVulnerabilities: [],
+  damageImmunities: ['poison'],
+  conditionImmunities: ['charmed'],
+};
+
+const createVttExportData = () =>
+  createTestExportData({
+    encounter: {
+      name: 'Cart Ambush',
+      participants: [
+        createTestExportData().encounter.participants[0],
+        goblin,
+        { ...goblin, id: 'goblin-2', name: 'Goblin 2' },
+      ],
+    },
+  });
+
+const COMPENDIUM = `<?xml version="1.0" encoding="UTF-8"?>
+<compendium version="5" auto_indent="NO">
+  <monster>
+    <name>Bandit Captain</name>
+    <size>M</size>
+    <type>humanoid (any race), monster manual</type>
+    <ac>15 (studded leather)</ac>
+    <hp>65 (10d8+20)</hp>
+    <cr>2</cr>
+    <description>Leads the toll-road gang.</description>
+  </monster>
+  <monster>
+    <name>Wight</name>
+    <type>undead</type>
+    <ac>14</ac>
+    <hp>45 (6d8+18)</hp>
+    <resist>necrotic; bludgeoning, piercing, and slashing from nonmagical attacks that aren't silvered</resist>
+    <immune>poison</immune>
+    <conditionImmune>exhaustion, poisoned</conditionImmune>
+    <cr>3</cr>
+  </monster>
+</compendium>`;
+
+describe('VTT encounter formats', () => {
+  describe('Foundry VTT', () => {
+    it('writes participants as actors with combatants in initiative', () => {
+      const document = JSON.parse(convertToFoundry(createVttExportData()));
+
+      expect(document.name).toBe('Cart Ambush');
+      expect(document.actors).toHaveLength(3);
+      expect(document.actors[0].type).toBe('character');
+      expect(document.actors[1]).toEqual(expect.objectContaining({ name: 'Goblin 1', type: 'npc' }));
+      expect(document.actors[1].system.attributes.hp).toEqual({ value: 4, max: 7, temp: 0 });
+      expect(document.actors[1].system.traits.dr).toEqual({
+        value: ['fire'],
+        custom: 'bludgeoning, piercing, and slashing from nonmagical attacks',
+      });
+      expect(document.combat.combatants[1]).toEqual({
+        actorId: document.actors[1]._id,
+        name: 'Goblin 1',
+        initiative: 14,
+        hidden: true,
+      });
+    });
+
+    it('reads back an exported encounter', () => {
+      const source = readFoundryEncounter(JSON.parse(convertToFoundry(createVttExportData())));
+
+      expect(source.name).toBe('Cart Ambush');
+      expect(source.participants[0]).toEqual(expect.objectContaining({ type: 'pc', isPlayer: true }));
+      expect(source.participants[1]).toEqual(expect.objectContaining({
+        name: 'Goblin 1',
+        type: 'monster',
+        currentHitPoints: 4,
+        initiative: 14,
+        isVisible: false,
+        challengeRating: 0.25,
+        damageImmunities: ['poison'],
+        conditions: [{ name: 'poisoned', expiry: 'indefinite' }],
+      }));
+    });
+
+    it('reads a single actor exported from Foundry', () => {
+      const source = readFoundryEncounter({
+        name: 'Town Guard',
+        type: 'npc',
+        system: {
+          attributes: { hp: { value: 11, max: 11 }, ac: { value: 16 } },
+          details: { cr: 0.125, type: { value: 'humanoid' }, biography: { value: '<p>On <b>watch</b></p>' } },
+        },
+      });
+
+      expect(source.participants).toEqual([expect.objectContaining({
+        name: 'Town Guard',
+        type: 'npc',
+        maxHitPoints: 11,
+        armorClass: 16,
+        notes: 'On watch',
+        challengeRating: 0.125,
+      })]);
+    });
+
+    it('rejects data that is not an actor', () => {
+      expect(() => readFoundryEncounter({ foo: 'bar' })).toThrow('Foundry data must be an actor or encounter document');
+    });
+  });
+
+  describe('Fight Club 5', () => {
+    it('writes one monster entry per creature and leaves out player characters', () => {
+      const xml = convertToFightClub(createVttExportData());
+
+      expect(xml).toContain('<compendium version="5" auto_indent="NO">');
+      expect(xml.match(/<monster>/g)).toHaveLength(1);
+      expect(xml).toContain('<name>Goblin</name>');
+      expect(xml).toContain('<cr>1/4</cr>');
+      expect(xml).toContain('<immune>poison</immune>');
+      expect(xml).not.toContain('Test Character');
+    });
+
+    it('reads monsters from a compendium', () => {
+      const source = readFightClubCompendium(COMPENDIUM);
+
+      expect(source.participants).toHaveLength(2);
+      expect(source.participants[0]).toEqual(expect.objectContaining({
+        name: 'Bandit Captain',
+        type: 'npc',
+        maxHitPoints: 65,
+        armorClass: 15,
+        challengeRating: 2,
+        notes: 'Leads the toll-road gang.',
+      }));
+      expect(source.participants[1]).toEqual(expect.objectContaining({
+        type: 'monster',
+        damageResistances: [
+          'necrotic',
+          "bludgeoning, piercing, and slashing from nonmagical attacks that aren't silvered",
+        ],
+        conditionImmunities: ['exhaustion', 'poisoned'],
+      }));
+    });
+
+    it('reads back an exported compendium', () => {
+      const source = readFightClubCompendium(convertToFightClub(createVttExportData()));
+
+      expect(source.participants).toEqual([expect.objectContaining({
+        name: 'Goblin',
+        maxHitPoints: 7,
+        challengeRating: 0.25,
+        damageResistances: goblin.damageResistances,
+      })]);
+    });
+
+    it('rejects XML without monster entries', () => {
+      expect(() => readFightClubCompendium('<compendium></compendium>')).toThrow('Compendium contains no monster entries');
+    });
+  });
+
+  describe('buildImportData', () => {
+    it('applies encounter defaults and schema limits', () => {
+      const source = readFightClubCompendium(COMPENDIUM);
+      source.participants[0].armorClass = 45;
+
+      const data = buildImportData(source, 'fightclub', 'Fight Club 5 import');
+
+      expect(data.encounter.name).toBe('Fight Club 5 import');
+      expect(data.encounter.participants.map(p => p.id)).toEqual(['import_1', 'import_2']);
+      expect(data.encounter.participants[0].armorClass).toBe(30);
+      expect(encounterExportSchema.safeParse(data).success).toBe(true);
+    });
+
+    it('keeps negative initiative within the encounter initiative range', () => {
+      const source = readFoundryEncounter(JSON.parse(convertToFoundry(createVttExportData())));
+      source.participants[0].initiative = -3;
+      source.participants[1].initiative = -25;
+
+      const data = buildImportData(source, 'foundry', 'Foundry VTT import');
+
+      expect(data.encounter.participants.map(p => p.initiative).slice(0, 2)).toEqual([-3, -10]);
+      expect(encounterExportSchema.safeParse(data).success).toBe(true);
+    });
+  });
+});
@@ -186,19 +186,55 @@ describe('NPCTemplateImporter', () => {
           NPCTemplateImporter.parseImportData({}, 'dndbeyond');
         }).toThrow('name is required');
       });
+
+      it('should read size, type, statblock fields and actions', () => {
+        const dndbeyondData = {
+          name: 'Goblin Boss',
+          cr: '1',
+          size: 'Small',
+          type: 'humanoid (goblinoid)',
+          hp: 21,
+          ac: 17,
+          speed: '30 ft.',
+          skills: 'Stealth +6',
+          damageResistances: 'cold; bludgeoning, piercing, and slashing from nonmagical attacks',
+          senses: 'darkvision 60 ft., passive Perception 9',
+          languages: 'Common, Goblin',
+          actions: [
+            { name: 'Scimitar', desc: 'Melee Weapon Attack: +4 to hit, reach 5 ft., one target. Hit: 5 (1d6 + 2) slashing damage.' },
+          ],
+          reactions: [{ name: 'Redirect Attack', description: 'The goblin swaps places with an ally.' }],
+        };
+
+        const result = NPCTemplateImporter.parseImportData(dndbeyondData, 'dndbeyond');
+
+        expect(result.size).toBe('small');
+        expect(result.stats.speed).toBe(30);
+        expect(result.stats.skills).toEqual({ stealth: 6 });
+        expect(result.stats.damageResistances).toEqual([
+          'cold',
+          'bludgeoning, piercing, and slashing from nonmagical attacks',
+        ]);
+        expect(result.stats.senses).toEqual(['darkvision 60 ft.', 'passive Perception 9']);
+        expect(result.stats.languages).toEqual(['Common', 'Goblin']);
+        expect(result.actions).toEqual([
+          expect.objectContaining({ name: 'Scimitar', type: 'action', attackBonus: 4, damage: '1d6+2 slashing' }),
+          expect.objectContaining({ name: 'Redirect Attack', type: 'reaction' }),
+        ]);
+      });
     });
 
-    describe('Unsupported formats', () => {
-      it('should throw error for Roll20 format', () => {
+    describe('Roll20 and statblock formats', () => {
+      it('should hand Roll20 exports to the Roll20 parser', () => {
         expect(() => {
           NPCTemplateImporter.parseImportData({}, 'roll20');
-        }).toThrow('Roll20 import not yet implemented');
+        }).toThrow('name is required');
       });
 
-      it('should throw error for custom format', () => {
+      it('should hand statblock text to the statblock parser', () => {
         expect(() => {
           NPCTemplateImporter.parseImportData({}, 'custom');
-        }).toThrow('Custom import not yet implemented');
+        }).toThrow('Statblock text is required');
       });
 
       it('should throw error for unsupported format', () => {
@@ -0,0 +1,101 @@
+import { NPCTemplateRoll20Parser } from '../NPCTemplateRoll20Parser';
+import { NPCTemplateSchema } from '@/types/npc';
+import priestExport from './fixtures/npc-import/roll20-priest.json';
+
+describe('NPCTemplateRoll20Parser', () => {
+  const result = NPCTemplateRoll20Parser.parse(priestExport);
+
+  it('reads the npc_* attributes into the template', () => {
+    expect(result).toMatchObject({
+      name: 'Priest',
+      category: 'humanoid',
+      size: 'medium',
+      challengeRating: 2,
+      isSystem: false,
+    });
+    expect(result.stats).toEqual({
+      abilityScores: {
+        strength: 10,
+        dexterity: 10,
+        constitution: 12,
+        intelligence: 13,
+        wisdom: 16,
+        charisma: 13,
+      },
+      hitPoints: { maximum: 27, current: 27, temporary: 0, hitDice: '5d8+5' },
+      armorClass: 13,
+      speed: 25,
+      proficiencyBonus: 2,
+      savingThrows: { wisdom: 5 },
+      skills: { medicine: 7, persuasion: 3, religion: 4 },
+      damageVulnerabilities: [],
+      damageResistances: ['necrotic', 'bludgeoning, piercing, and slashing from nonmagical attacks'],
+      damageImmunities: [],
+      conditionImmunities: ['frightened'],
+      senses: ['passive Perception 13'],
+      languages: ['Common', 'Celestial'],
+    });
+  });
+
+  it('reads actions and reactions from the repeating sections', () => {
+    expect(result.actions).toEqual([
+      {
+        name: 'Mace',
+        type: 'action',
+        description: 'Melee Attack, +2 to hit, 5 ft.. Hit: 1d6 bludgeoning damage.',
+        attackBonus: 2,
+        range: '5 ft.',
+        damage: '1d6 bludgeoning',
+      },
+      expect.objectContaining({ name: 'Warding Word', type: 'reaction' }),
+    ]);
+  });
+
+  it('reads spells from the spellcasting trait and keeps the traits', () => {
+    expect(result.spells.map(spell => `${spell.level}:${spell.name}`)).toEqual([
+      '0:light',
+      '0:sacred flame',
+      '1:cure wounds',
+      '1:guiding bolt',
+      '3:dispel magic',
+      '3:spirit guardians',
+    ]);
+    expect(result.traits?.map(trait => trait.name)).toEqual(['Divine Eminence', 'Spellcasting']);
+    expect(result.traits?.[0].description).toMatch(/^As a bonus action/);
+  });
+
+  it('prefers the spell sections when the sheet has them', () => {
+    const withSpells = {
+      ...priestExport,
+      attribs: [
+        ...priestExport.attribs,
+        { name: 'repeating_spell-1_-Nz_9_spellname', current: 'Bless', max: '' },
+        { name: 'repeating_spell-1_-Nz_9_spellschool', current: 'enchantment', max: '' },
+        { name: 'repeating_spell-1_-Nz_9_spellcomp_v', current: '{{v=1}}', max: '' },
+        { name: 'repeating_spell-1_-Nz_9_spellcomp_s', current: '0', max: '' },
+        { name: 'repeating_spell-1_-Nz_9_spellcomp_m', current: '{{m=1}}', max: '' },
+        { name: 'repeating_spell-1_-Nz_9_spellcomp_materials', current: 'a sprinkling of holy water', max: '' },
+      ],
+    };
+
+    expect(NPCTemplateRoll20Parser.parse(withSpells).spells).toEqual([
+      expect.objectContaining({
+        name: 'Bless',
+        level: 1,
+        school: 'enchantment',
+        components: 'V, M (a sprinkling of holy water)',
+      }),
+    ]);
+  });
+
+  it('produces a valid template', () => {
+    expect(NPCTemplateSchema.omit({ id: true }).safeParse(result).success).toBe(true);
+  });
+
+  it('requires a name and challenge rating', () => {
+    expect(() => NPCTemplateRoll20Parser.parse({ attribs: [] })).toThrow('name is required');
+    expect(() =>
+      NPCTemplateRoll20Parser.parse({ attribs: [{ name: 'npc_name', current: 'Nameless' }] })
+    ).toThrow('npc_challenge is required');
+  });
+});
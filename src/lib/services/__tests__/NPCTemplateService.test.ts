@@ -1,4 +1,7 @@
 import { NPCTemplateService } from '../NPCTemplateService';
+import { NPCTemplateFilters } from '../NPCTemplateFilters';
+import { CURATED_TEMPLATES, SRD_TEMPLATES } from '../NPCTemplateData';
+import { SystemNPCTemplate } from '@/lib/models/SystemNPCTemplate';
 import {
   createBaseTemplate,
   createTemplateWithEquipment,
@@ -6,6 +9,13 @@ import {
   expectErrorWithCode
 } from './test-helpers';
 
+jest.mock('@/lib/models/SystemNPCTemplate', () => ({
+  SystemNPCTemplate: {
+    find: jest.fn(),
+    countDocuments: jest.fn(),
+  },
+}));
+
 describe('NPCTemplateService', () => {
   beforeEach(() => {
     jest.clearAllMocks();
@@ -69,6 +79,38 @@ describe('NPCTemplateService', () => {
       });
     });
 
+    it('filters templates by environment', async () => {
+      const result = await NPCTemplateService.getTemplates({ environment: 'arctic' });
+
+      expect(result.success).toBe(true);
+      expect(result.data!.map(template => template.name)).toContain('Winter Wolf');
+      result.data!.forEach(template => {
+        expect(template.environments).toContain('arctic');
+      });
+    });
+
+    it('includes the SRD bestiary with traits and legendary actions', async () => {
+      const result = await NPCTemplateService.getTemplates({ search: 'adult red dragon', isSystem: true });
+
+      expect(result.success).toBe(true);
+      expect(result.data).toHaveLength(1);
+
+      const [dragon] = result.data!;
+      expect(dragon.id).toBe('srd-adult-red-dragon');
+      expect(dragon.challengeRating).toBe(17);
+      expect(dragon.traits?.map(trait => trait.name)).toContain('Legendary Resistance (3/Day)');
+      expect(dragon.actions.filter(action => action.type === 'legendary_action').length).toBeGreaterThan(0);
+    });
+
+    it('prefers curated templates over SRD entries with the same name', async () => {
+      const result = await NPCTemplateService.getTemplates({ search: 'goblin' });
+
+      expect(result.success).toBe(true);
+      const goblins = result.data!.filter(template => template.name === 'Goblin');
+      expect(goblins).toHaveLength(1);
+      expect(goblins[0].id).toBe('system-goblin-basic');
+    });
+
     it('returns empty array when no templates match filters', async () => {
       const result = await NPCTemplateService.getTemplates({
         category: 'nonexistent',
@@ -80,6 +122,75 @@ describe('NPCTemplateService', () => {
     });
   });
 
+  describe('searchTemplates', () => {
+    const curatedNames = CURATED_TEMPLATES.map(template => template.name);
+
+    const mockSeededTemplates = (templates: typeof SRD_TEMPLATES) => {
+      const query = {
+        sort: jest.fn(),
+        collation: jest.fn(),
+        limit: jest.fn(),
+        select: jest.fn(),
+        lean: jest.fn().mockResolvedValue(templates),
+      };
+      query.sort.mockReturnValue(query);
+      query.collation.mockReturnValue(query);
+      query.limit.mockReturnValue(query);
+      query.select.mockReturnValue(query);
+      (SystemNPCTemplate.find as jest.Mock).mockReturnValue(query);
+      (SystemNPCTemplate.countDocuments as jest.Mock).mockResolvedValue(templates.length);
+      return query;
+    };
+
+    it('searches the seeded SRD templates and merges in the curated ones', async () => {
+      const seeded = NPCTemplateFilters.sortTemplates(
+        SRD_TEMPLATES.filter(template =>
+          template.category === 'humanoid' && template.challengeRating <= 1 && !curatedNames.includes(template.name)
+        )
+      );
+      const curated = CURATED_TEMPLATES.filter(template =>
+        template.category === 'humanoid' && template.challengeRating <= 1
+      );
+      const query = mockSeededTemplates(seeded);
+
+      const result = await NPCTemplateService.searchTemplates({ category: 'humanoid', maxCR: 1, page: 2, limit: 3 });
+
+      expect(SystemNPCTemplate.find).toHaveBeenCalledWith({
+        category: 'humanoid',
+        challengeRating: { $lte: 1 },
+        name: { $nin: curatedNames },
+      });
+      expect(query.limit).toHaveBeenCalledWith(6);
+      expect(result.data!.templates).toEqual(NPCTemplateFilters.sortTemplates([...seeded, ...curated]).slice(3, 6));
+      expect(result.data!.pagination).toEqual({
+        currentPage: 2,
+        totalPages: Math.ceil((seeded.length + curated.length) / 3),
+        totalItems: seeded.length + curated.length,
+        itemsPerPage: 3,
+      });
+    });
+
+    it('matches names literally', async () => {
+      mockSeededTemplates([]);
+
+      await NPCTemplateService.searchTemplates({ search: 'ogre (zombie', page: 1, limit: 20 });
+
+      const pattern = { $regex: 'ogre \\(zombie', $options: 'i' };
+      expect((SystemNPCTemplate.find as jest.Mock).mock.calls[0][0].$or).toEqual([
+        { name: pattern },
+        { category: pattern },
+      ]);
+    });
+
+    it('skips the seeded collection when only custom templates are wanted', async () => {
+      const result = await NPCTemplateService.searchTemplates({ isSystem: false, page: 1, limit: 20 });
+
+      expect(result.success).toBe(true);
+      expect(SystemNPCTemplate.find).not.toHaveBeenCalled();
+      expect(result.data!.templates.every(template => !template.isSystem)).toBe(true);
+    });
+  });
+
   describe('getTemplateById', () => {
     it('returns specific template by ID', async () => {
       // First get available templates
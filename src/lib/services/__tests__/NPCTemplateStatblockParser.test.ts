@@ -0,0 +1,159 @@
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { NPCTemplateStatblockParser } from '../NPCTemplateStatblockParser';
+import { NPCTemplateSchema } from '@/types/npc';
+
+const loadFixture = (name: string) =>
+  readFileSync(join(__dirname, 'fixtures', 'npc-import', name), 'utf8');
+
+describe('NPCTemplateStatblockParser', () => {
+  describe('adult red dragon', () => {
+    const result = NPCTemplateStatblockParser.parse(loadFixture('adult-red-dragon.txt'));
+
+    it('reads the name, size, type and challenge rating', () => {
+      expect(result.name).toBe('Adult Red Dragon');
+      expect(result.size).toBe('huge');
+      expect(result.category).toBe('dragon');
+      expect(result.challengeRating).toBe(17);
+    });
+
+    it('reads the header fields, joining lines wrapped in the PDF', () => {
+      expect(result.stats).toEqual({
+        abilityScores: {
+          strength: 27,
+          dexterity: 10,
+          constitution: 25,
+          intelligence: 16,
+          wisdom: 13,
+          charisma: 21,
+        },
+        hitPoints: { maximum: 256, current: 256, temporary: 0, hitDice: '19d12+133' },
+        armorClass: 19,
+        speed: 40,
+        proficiencyBonus: 6,
+        savingThrows: { dexterity: 6, constitution: 13, wisdom: 7, charisma: 11 },
+        skills: { perception: 13, stealth: 6 },
+        damageVulnerabilities: [],
+        damageResistances: [],
+        damageImmunities: ['fire'],
+        conditionImmunities: [],
+        senses: ['blindsight 60 ft.', 'darkvision 120 ft.', 'passive Perception 23'],
+        languages: ['Common', 'Draconic'],
+      });
+    });
+
+    it('reads actions with their attacks, damage, saves and recharge', () => {
+      const bite = result.actions.find(action => action.name === 'Bite');
+      const breath = result.actions.find(action => action.name === 'Fire Breath');
+
+      expect(bite).toMatchObject({
+        type: 'action',
+        attackBonus: 14,
+        range: '10 ft.',
+        damage: '2d10+8 piercing + 2d6 fire',
+      });
+      expect(bite?.description).toContain('Hit: 19 (2d10 + 8) piercing damage');
+      expect(breath).toMatchObject({
+        recharge: '5-6',
+        damage: '18d6 fire',
+        savingThrow: { ability: 'dexterity', dc: 21 },
+      });
+    });
+
+    it('skips the legendary actions introduction', () => {
+      const legendary = result.actions.filter(action => action.type === 'legendary_action');
+      expect(legendary.map(action => action.name)).toEqual([
+        'Detect',
+        'Tail Attack',
+        'Wing Attack (Costs 2 Actions)',
+      ]);
+      expect(result.actions).toHaveLength(7);
+    });
+
+    it('reads traits', () => {
+      expect(result.traits).toEqual([
+        {
+          name: 'Legendary Resistance (3/Day)',
+          description: 'If the dragon fails a saving throw, it can choose to succeed instead.',
+        },
+      ]);
+    });
+
+    it('produces a valid template', () => {
+      expect(NPCTemplateSchema.omit({ id: true }).safeParse(result).success).toBe(true);
+    });
+  });
+
+  describe('archmage', () => {
+    const result = NPCTemplateStatblockParser.parse(loadFixture('archmage.txt'));
+
+    it('reads ability scores laid out one per line', () => {
+      expect(result.stats.abilityScores).toEqual({
+        strength: 10,
+        dexterity: 14,
+        constitution: 12,
+        intelligence: 20,
+        wisdom: 15,
+        charisma: 16,
+      });
+    });
+
+    it('keeps qualified damage resistances together', () => {
+      expect(result.stats.damageResistances).toEqual([
+        'damage from spells',
+        'nonmagical bludgeoning, piercing, and slashing (from stoneskin)',
+      ]);
+    });
+
+    it('reads the spell list from the spellcasting trait', () => {
+      expect(result.spells).toHaveLength(25);
+      expect(result.spells.slice(0, 6)).toEqual([
+        { name: 'fire bolt', level: 0 },
+        { name: 'light', level: 0 },
+        { name: 'mage hand', level: 0 },
+        { name: 'prestidigitation', level: 0 },
+        { name: 'shocking grasp', level: 0 },
+        { name: 'detect magic', level: 1 },
+      ]);
+      expect(result.spells.find(spell => spell.name === 'mage armor')?.level).toBe(1);
+      expect(result.spells[result.spells.length - 1]).toEqual({ name: 'time stop', level: 9 });
+    });
+
+    it('reads attacks with both reach and range', () => {
+      expect(result.actions).toEqual([
+        expect.objectContaining({ name: 'Dagger', attackBonus: 6, range: '5 ft.', damage: '1d4+2 piercing' }),
+      ]);
+    });
+  });
+
+  it('reads innate spells with their daily uses', () => {
+    const text = [
+      'Innate Spellcaster',
+      'Medium fey, neutral',
+      'Armor Class 12',
+      'Hit Points 22 (5d8)',
+      'Speed 30 ft.',
+      'STR DEX CON INT WIS CHA',
+      '10 (+0) 14 (+2) 10 (+0) 12 (+1) 12 (+1) 16 (+3)',
+      'Senses passive Perception 11',
+      'Languages Sylvan',
+      'Challenge 1 (200 XP)',
+      'Innate Spellcasting. Its innate spellcasting ability is Charisma. It can innately cast:',
+      'At will: druidcraft',
+      '1/day each: entangle, sleep',
+    ].join('\n');
+
+    expect(NPCTemplateStatblockParser.parse(text).spells).toEqual([
+      { name: 'druidcraft', level: 0 },
+      { name: 'entangle', level: 0, usesRemaining: 1, maxUses: 1 },
+      { name: 'sleep', level: 0, usesRemaining: 1, maxUses: 1 },
+    ]);
+  });
+
+  it('rejects text without a statblock', () => {
+    expect(() => NPCTemplateStatblockParser.parse('')).toThrow('Statblock text is required');
+    expect(() => NPCTemplateStatblockParser.parse('Goblin\nSmall humanoid')).toThrow(
+      'Challenge rating not found in statblock'
+    );
+  });
+});
@@ -11,7 +11,14 @@ jest.mock('@/lib/models/Party', () => ({
   },
 }));
 
+jest.mock('@/lib/models/Character', () => ({
+  Character: {
+    updateMany: jest.fn(),
+  },
+}));
+
 import { Party } from '@/lib/models/Party';
+import { Character } from '@/lib/models/Character';
 
 describe('PartyServiceCRUD', () => {
   const userId = new Types.ObjectId().toString();
@@ -186,7 +193,7 @@ describe('PartyServiceCRUD', () => {
       const result = await PartyServiceCRUD.updateParty(partyId, userId, updateData);
 
       expect(result.success).toBe(false);
-      expect(result.error?.code).toBe('PARTY_OWNERSHIP_REQUIRED');
+      expect(result.error?.code).toBe('PARTY_PERMISSION_DENIED');
     });
 
     it('should return not found error when party does not exist', async () => {
@@ -208,6 +215,10 @@ describe('PartyServiceCRUD', () => {
 
       expect(result.success).toBe(true);
       expect(Party.findByIdAndDelete).toHaveBeenCalledWith(partyId);
+      expect(Character.updateMany).toHaveBeenCalledWith(
+        { partyId: mockParty._id },
+        { $unset: { partyId: 1 } }
+      );
     });
 
     it('should deny deletion when user is not owner', async () => {
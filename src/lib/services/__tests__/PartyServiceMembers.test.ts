@@ -0,0 +1,362 @@
+import { PartyServiceMembers } from '../PartyServiceMembers';
+
+jest.mock('@/lib/models/Party', () => ({
+  Party: {
+    findById: jest.fn(),
+  },
+}));
+
+jest.mock('@/lib/models/Character', () => ({
+  Character: {
+    findById: jest.fn(),
+    find: jest.fn(),
+    countDocuments: jest.fn(),
+    exists: jest.fn(),
+  },
+}));
+
+jest.mock('@/lib/models/User', () => ({
+  __esModule: true,
+  default: {
+    findById: jest.fn(),
+    find: jest.fn(),
+  },
+}));
+
+jest.mock('@/lib/models/PartyJoinRequest', () => ({
+  PartyJoinRequest: {
+    create: jest.fn(),
+    find: jest.fn(),
+    findById: jest.fn(),
+    findOne: jest.fn(),
+    findByIdAndDelete: jest.fn(),
+  },
+}));
+
+jest.mock('@/lib/models/PartyInvite', () => ({
+  PartyInvite: {
+    create: jest.fn(),
+    find: jest.fn(),
+    findById: jest.fn(),
+    findOne: jest.fn(),
+  },
+}));
+
+jest.mock('@/lib/models/Collaborator', () => ({
+  Collaborator: {
+    create: jest.fn(),
+    findOne: jest.fn(),
+    findOneAndDelete: jest.fn(),
+  },
+}));
+
+import { Party } from '@/lib/models/Party';
+import { Character } from '@/lib/models/Character';
+import User from '@/lib/models/User';
+import { PartyJoinRequest } from '@/lib/models/PartyJoinRequest';
+import { PartyInvite } from '@/lib/models/PartyInvite';
+import { Collaborator } from '@/lib/models/Collaborator';
+
+describe('PartyServiceMembers', () => {
+  const ownerId = '507f1f77bcf86cd799439011';
+  const partyId = '507f1f77bcf86cd799439012';
+  const playerId = '507f1f77bcf86cd799439013';
+  const fighterId = '507f1f77bcf86cd799439021';
+  const wizardId = '507f1f77bcf86cd799439022';
+  const requestId = '507f1f77bcf86cd799439031';
+  const otherPartyId = '507f1f77bcf86cd799439041';
+
+  const createMockObjectId = (id: string) => ({
+    toString: () => id,
+    equals: (other: any) => other && other.toString() === id,
+  });
+
+  const mockParty = (settings: Record<string, unknown> = {}) => ({
+    _id: createMockObjectId(partyId),
+    ownerId: createMockObjectId(ownerId),
+    name: 'The Brave Few',
+    description: 'Heroes of the realm',
+    isPublic: false,
+    sharedWith: [] as ReturnType<typeof createMockObjectId>[],
+    settings: { allowJoining: true, requireApproval: true, maxMembers: 4, ...settings },
+    addMembers: jest.fn().mockResolvedValue('added'),
+    removeMember: jest.fn(),
+    save: jest.fn(),
+  });
+
+  const mockCharacter = (id: string, name: string, overrides: Record<string, unknown> = {}) => ({
+    _id: createMockObjectId(id),
+    name,
+    ownerId: createMockObjectId(playerId),
+    classes: [{ class: 'fighter', level: 3 }],
+    isDeleted: false,
+    ...overrides,
+  });
+
+  const mockJoinRequest = (overrides: Record<string, unknown> = {}) => {
+    const joinRequest = {
+      _id: createMockObjectId(requestId),
+      partyId: createMockObjectId(partyId),
+      characterId: createMockObjectId(fighterId),
+      userId: createMockObjectId(playerId),
+      status: 'pending',
+      createdAt: new Date('2030-01-01'),
+      save: jest.fn(),
+      ...overrides,
+    };
+    joinRequest.save.mockResolvedValue(joinRequest);
+    return joinRequest;
+  };
+
+  const mockInvite = (overrides: Record<string, unknown> = {}) => {
+    const invite = {
+      _id: createMockObjectId('507f1f77bcf86cd799439051'),
+      code: 'table-code',
+      partyId: createMockObjectId(partyId),
+      createdBy: createMockObjectId(ownerId),
+      expiresAt: new Date(Date.now() + 60 * 60 * 1000),
+      uses: 0,
+      revoked: false,
+      createdAt: new Date('2030-01-01'),
+      save: jest.fn(),
+      ...overrides,
+    };
+    invite.save.mockResolvedValue(invite);
+    return invite;
+  };
+
+  const setup = (party: ReturnType<typeof mockParty>, characters: ReturnType<typeof mockCharacter>[], memberCount = 0) => {
+    (Party.findById as jest.Mock).mockResolvedValue(party);
+    (Character.findById as jest.Mock).mockImplementation(async (id: any) =>
+      characters.find(character => character._id.toString() === id.toString()) ?? null
+    );
+    (Character.countDocuments as jest.Mock).mockResolvedValue(memberCount);
+    (User.findById as jest.Mock).mockReturnValue({
+      select: jest.fn().mockReturnValue({ lean: jest.fn().mockResolvedValue({ username: 'ranger' }) }),
+    });
+    (PartyJoinRequest.create as jest.Mock).mockImplementation(async (doc) => mockJoinRequest(doc));
+  };
+
+  const addedCharacterIds = (party: ReturnType<typeof mockParty>) =>
+    party.addMembers.mock.calls.flatMap(([ids]) => ids.map((id: any) => id.toString()));
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('requestToJoin', () => {
+    it('refuses players when the party does not allow joining', async () => {
+      setup(mockParty({ allowJoining: false }), [mockCharacter(fighterId, 'Bruni')]);
+
+      const result = await PartyServiceMembers.requestToJoin(partyId, playerId, { characterId: fighterId });
+
+      expect(result.error).toMatchObject({ code: 'PARTY_JOINING_DISABLED', statusCode: 403 });
+      expect(PartyJoinRequest.create).not.toHaveBeenCalled();
+    });
+
+    it('leaves the request pending when the party requires approval', async () => {
+      const party = mockParty();
+      setup(party, [mockCharacter(fighterId, 'Bruni')]);
+
+      const result = await PartyServiceMembers.requestToJoin(partyId, playerId, {
+        characterId: fighterId,
+        message: 'Bruni owes the dwarves a favour',
+      });
+
+      expect(result.data).toMatchObject({
+        characterName: 'Bruni',
+        username: 'ranger',
+        status: 'pending',
+        message: 'Bruni owes the dwarves a favour',
+      });
+      expect(party.addMembers).not.toHaveBeenCalled();
+    });
+
+    it('adds the character straight away when no approval is needed', async () => {
+      const party = mockParty({ requireApproval: false });
+      setup(party, [mockCharacter(fighterId, 'Bruni')]);
+
+      const result = await PartyServiceMembers.requestToJoin(partyId, playerId, { characterId: fighterId });
+
+      expect(result.data?.status).toBe('approved');
+      expect(addedCharacterIds(party)).toEqual([fighterId]);
+      expect(Collaborator.create).toHaveBeenCalledWith(expect.objectContaining({ role: 'player', status: 'accepted' }));
+      expect(party.sharedWith.map(id => id.toString())).toEqual([playerId]);
+    });
+
+    it('only lets players add their own characters', async () => {
+      setup(mockParty(), [mockCharacter(fighterId, 'Bruni', { ownerId: createMockObjectId(ownerId) })]);
+
+      const result = await PartyServiceMembers.requestToJoin(partyId, playerId, { characterId: fighterId });
+
+      expect(result.error?.code).toBe('PARTY_PERMISSION_DENIED');
+    });
+
+    it('refuses characters that already belong to a party or are waiting', async () => {
+      setup(mockParty(), [
+        mockCharacter(fighterId, 'Bruni', { partyId: createMockObjectId(otherPartyId) }),
+        mockCharacter(wizardId, 'Elara'),
+      ]);
+
+      const elsewhere = await PartyServiceMembers.requestToJoin(partyId, playerId, { characterId: fighterId });
+      expect(elsewhere.error).toMatchObject({
+        message: 'Bruni already belongs to another party',
+        statusCode: 409,
+      });
+
+      (PartyJoinRequest.findOne as jest.Mock).mockResolvedValue(mockJoinRequest());
+      const waiting = await PartyServiceMembers.requestToJoin(partyId, playerId, { characterId: wizardId });
+      expect(waiting.error?.message).toBe('Elara is already waiting for approval');
+    });
+  });
+
+  describe('respondToJoinRequest', () => {
+    it('adds the character when the owner approves', async () => {
+      const party = mockParty();
+      setup(party, [mockCharacter(fighterId, 'Bruni')]);
+      const joinRequest = mockJoinRequest();
+      (PartyJoinRequest.findById as jest.Mock).mockResolvedValue(joinRequest);
+
+      const result = await PartyServiceMembers.respondToJoinRequest(partyId, requestId, ownerId, { status: 'approved' });
+
+      expect(result.data?.status).toBe('approved');
+      expect(joinRequest.save).toHaveBeenCalled();
+      expect(addedCharacterIds(party)).toEqual([fighterId]);
+    });
+
+    it('enforces the member limit on approval', async () => {
+      const party = mockParty({ maxMembers: 4 });
+      party.addMembers.mockResolvedValue('full');
+      setup(party, [mockCharacter(fighterId, 'Bruni')], 4);
+      const joinRequest = mockJoinRequest();
+      (PartyJoinRequest.findById as jest.Mock).mockResolvedValue(joinRequest);
+
+      const result = await PartyServiceMembers.respondToJoinRequest(partyId, requestId, ownerId, { status: 'approved' });
+
+      expect(result.error?.code).toBe('PARTY_CAPACITY_EXCEEDED');
+      expect(joinRequest.status).toBe('pending');
+      expect(Collaborator.create).not.toHaveBeenCalled();
+    });
+
+    it('refuses a character that joined another party while the request was answered', async () => {
+      const party = mockParty();
+      party.addMembers.mockResolvedValue('taken');
+      setup(party, [mockCharacter(fighterId, 'Bruni')]);
+      const joinRequest = mockJoinRequest();
+      (PartyJoinRequest.findById as jest.Mock).mockResolvedValue(joinRequest);
+
+      const result = await PartyServiceMembers.respondToJoinRequest(partyId, requestId, ownerId, { status: 'approved' });
+
+      expect(result.error?.code).toBe('PARTY_MEMBERSHIP_CONFLICT');
+      expect(joinRequest.status).toBe('pending');
+    });
+
+    it('only lets the owner answer', async () => {
+      setup(mockParty(), [mockCharacter(fighterId, 'Bruni')]);
+
+      const result = await PartyServiceMembers.respondToJoinRequest(partyId, requestId, playerId, { status: 'rejected' });
+
+      expect(result.error?.code).toBe('PARTY_PERMISSION_DENIED');
+      expect(PartyJoinRequest.findById).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('invites', () => {
+    it('creates an invite link for the owner', async () => {
+      setup(mockParty(), []);
+      (PartyInvite.create as jest.Mock).mockImplementation(async (doc) => mockInvite(doc));
+
+      const result = await PartyServiceMembers.createInvite(partyId, ownerId, { expiresIn: 24 * 60 * 60 * 1000 });
+
+      expect(result.data?.status).toBe('active');
+      expect(result.data?.url).toMatch(new RegExp(`/parties/join/${result.data?.code}$`));
+    });
+
+    it('brings several characters in through an invite without approval', async () => {
+      const party = mockParty();
+      setup(party, [mockCharacter(fighterId, 'Bruni'), mockCharacter(wizardId, 'Elara')], 1);
+      const invite = mockInvite();
+      (PartyInvite.findOne as jest.Mock).mockResolvedValue(invite);
+
+      const result = await PartyServiceMembers.joinWithInvite('table-code', playerId, {
+        characterIds: [fighterId, wizardId, fighterId],
+      });
+
+      expect(result.data?.members.map(member => member.name)).toEqual(['Bruni', 'Elara']);
+      expect(addedCharacterIds(party)).toEqual([fighterId, wizardId]);
+      expect(invite.uses).toBe(1);
+      expect(Collaborator.create).toHaveBeenCalledTimes(1);
+    });
+
+    it('does not overfill the party through an invite', async () => {
+      const party = mockParty({ maxMembers: 2 });
+      party.addMembers.mockResolvedValue('full');
+      setup(party, [mockCharacter(fighterId, 'Bruni'), mockCharacter(wizardId, 'Elara')], 1);
+      const invite = mockInvite();
+      (PartyInvite.findOne as jest.Mock).mockResolvedValue(invite);
+
+      const result = await PartyServiceMembers.joinWithInvite('table-code', playerId, {
+        characterIds: [fighterId, wizardId],
+      });
+
+      expect(result.error?.code).toBe('PARTY_CAPACITY_EXCEEDED');
+      expect(addedCharacterIds(party)).toEqual([fighterId, wizardId]);
+      expect(invite.uses).toBe(0);
+    });
+
+    it('rejects expired, revoked and unknown invites', async () => {
+      (PartyInvite.findOne as jest.Mock).mockResolvedValueOnce(mockInvite({ expiresAt: new Date(Date.now() - 1000) }));
+      const expired = await PartyServiceMembers.getInvitePreview('table-code', playerId);
+      expect(expired.error).toMatchObject({ message: 'This invite has expired', statusCode: 410 });
+
+      (PartyInvite.findOne as jest.Mock).mockResolvedValueOnce(mockInvite({ revoked: true }));
+      const revoked = await PartyServiceMembers.getInvitePreview('table-code', playerId);
+      expect(revoked.error?.message).toBe('This invite has been revoked');
+
+      (PartyInvite.findOne as jest.Mock).mockResolvedValueOnce(null);
+      const unknown = await PartyServiceMembers.getInvitePreview('nope', playerId);
+      expect(unknown.error?.code).toBe('PARTY_INVITE_NOT_FOUND');
+    });
+  });
+
+  describe('removeMember', () => {
+    it('lets players take their own character out of the party', async () => {
+      const party = mockParty();
+      setup(party, [mockCharacter(fighterId, 'Bruni', { partyId: createMockObjectId(partyId) })]);
+
+      const result = await PartyServiceMembers.removeMember(partyId, fighterId, playerId);
+
+      expect(result.success).toBe(true);
+      expect(party.removeMember.mock.calls[0][0].toString()).toBe(fighterId);
+    });
+
+    it('takes the player role back when the last character of a player leaves', async () => {
+      const party = mockParty();
+      party.sharedWith.push(createMockObjectId(playerId));
+      setup(party, [mockCharacter(fighterId, 'Bruni', { partyId: createMockObjectId(partyId) })]);
+      (Character.exists as jest.Mock).mockResolvedValue(null);
+      (Collaborator.findOneAndDelete as jest.Mock).mockResolvedValue({ userId: createMockObjectId(playerId) });
+
+      const result = await PartyServiceMembers.removeMember(partyId, fighterId, ownerId);
+
+      expect(result.success).toBe(true);
+      expect(Collaborator.findOneAndDelete).toHaveBeenCalledWith(
+        expect.objectContaining({ resourceType: 'party', role: 'player', status: 'accepted' })
+      );
+      expect(party.sharedWith).toEqual([]);
+    });
+
+    it('keeps the player role while the player has another character in the party', async () => {
+      const party = mockParty();
+      party.sharedWith.push(createMockObjectId(playerId));
+      setup(party, [mockCharacter(fighterId, 'Bruni', { partyId: createMockObjectId(partyId) })]);
+      (Character.exists as jest.Mock).mockResolvedValue({ _id: createMockObjectId(wizardId) });
+
+      const result = await PartyServiceMembers.removeMember(partyId, fighterId, playerId);
+
+      expect(result.success).toBe(true);
+      expect(Collaborator.findOneAndDelete).not.toHaveBeenCalled();
+      expect(party.sharedWith.map(id => id.toString())).toEqual([playerId]);
+    });
+  });
+});
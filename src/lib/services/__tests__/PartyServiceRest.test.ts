@@ -0,0 +1,188 @@
+import { Types } from 'mongoose';
+import { PartyServiceRest } from '../PartyServiceRest';
+
+jest.mock('@/lib/models/Party', () => ({
+  Party: {
+    findById: jest.fn(),
+  },
+}));
+
+jest.mock('@/lib/models/Collaborator', () => ({
+  Collaborator: {
+    findOne: jest.fn(),
+  },
+}));
+
+jest.mock('@/lib/models/Character', () => ({
+  Character: {
+    find: jest.fn(),
+    findByIdAndUpdate: jest.fn(),
+  },
+}));
+
+import { Party } from '@/lib/models/Party';
+import { Character } from '@/lib/models/Character';
+import { Collaborator } from '@/lib/models/Collaborator';
+
+describe('PartyServiceRest', () => {
+  const userId = new Types.ObjectId().toString();
+  const partyId = new Types.ObjectId().toString();
+  const otherUserId = new Types.ObjectId().toString();
+  const fighterId = '507f1f77bcf86cd799439021';
+  const wizardId = '507f1f77bcf86cd799439022';
+
+  const createMockObjectId = (id: string) => ({
+    toString: () => id,
+    equals: (other: any) => other && other.toString() === id,
+  });
+
+  const mockParty = (ownerId = userId) => ({
+    _id: createMockObjectId(partyId),
+    ownerId: createMockObjectId(ownerId),
+    isPublic: false,
+    sharedWith: [] as ReturnType<typeof createMockObjectId>[],
+    updateActivity: jest.fn(),
+  });
+
+  const abilityScores = {
+    strength: 10,
+    dexterity: 12,
+    constitution: 14,
+    intelligence: 16,
+    wisdom: 10,
+    charisma: 8,
+  };
+
+  const members = () => [
+    {
+      _id: createMockObjectId(fighterId),
+      name: 'Bruni',
+      classes: [{ class: 'fighter', level: 4, hitDie: 10, hitDiceUsed: 1 }],
+      abilityScores,
+      proficiencyBonus: 2,
+      hitPoints: { maximum: 40, current: 22, temporary: 4 },
+      exhaustion: 1,
+      resources: [],
+    },
+    {
+      _id: createMockObjectId(wizardId),
+      name: 'Elara',
+      classes: [{ class: 'wizard', level: 2, hitDie: 6 }],
+      abilityScores,
+      proficiencyBonus: 2,
+      hitPoints: { maximum: 14, current: 14, temporary: 0 },
+      exhaustion: 0,
+      resources: [
+        { id: 'spell-slot-1', name: '1st-level spell slots', kind: 'spell_slot', level: 1, max: 3, remaining: 1, recharge: 'long_rest' },
+      ],
+    },
+  ];
+
+  const setupParty = (ownerId = userId) => {
+    const party = mockParty(ownerId);
+    (Party.findById as jest.Mock).mockResolvedValue(party);
+    (Character.find as jest.Mock).mockReturnValue({ sort: jest.fn().mockResolvedValue(members()) });
+    return party;
+  };
+
+  const savedUpdate = (characterId: string) =>
+    (Character.findByIdAndUpdate as jest.Mock).mock.calls
+      .find(([id]) => id.toString() === characterId)?.[1].$set;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('lists hit points and hit dice of every member', async () => {
+    setupParty();
+
+    const result = await PartyServiceRest.getRestStatus(partyId, userId);
+
+    expect(result.success).toBe(true);
+    expect(result.data?.[0]).toEqual({
+      characterId: fighterId,
+      name: 'Bruni',
+      hitPoints: { maximum: 40, current: 22, temporary: 4 },
+      hitDice: [{ hitDie: 10, total: 4, available: 3 }],
+      constitutionModifier: 2,
+      exhaustion: 1,
+    });
+  });
+
+  it('spends the chosen hit dice on a short rest and saves each character', async () => {
+    const party = setupParty();
+
+    const result = await PartyServiceRest.restParty(partyId, userId, {
+      type: 'short',
+      hitDice: [{ characterId: fighterId, count: 2, rolls: [5, 8] }],
+    });
+
+    expect(result.success).toBe(true);
+    expect(result.data?.members[0]).toMatchObject({
+      hitPointsRestored: 17,
+      hitDiceSpent: [{ hitDie: 10, roll: 5, healing: 7 }, { hitDie: 10, roll: 8, healing: 10 }],
+    });
+    expect(savedUpdate(fighterId)).toMatchObject({
+      classes: [{ class: 'fighter', level: 4, hitDie: 10, hitDiceUsed: 3 }],
+      hitPoints: { maximum: 40, current: 39, temporary: 4 },
+    });
+    expect(savedUpdate(wizardId).resources[0].remaining).toBe(1);
+    expect(party.updateActivity).toHaveBeenCalled();
+  });
+
+  it('restores hit points, hit dice, exhaustion and resources on a long rest', async () => {
+    setupParty();
+
+    const result = await PartyServiceRest.restParty(partyId, userId, { type: 'long' });
+
+    expect(result.data?.type).toBe('long');
+    expect(savedUpdate(fighterId)).toMatchObject({
+      classes: [{ hitDiceUsed: 0 }],
+      hitPoints: { maximum: 40, current: 40, temporary: 0 },
+      exhaustion: 0,
+    });
+    expect(savedUpdate(wizardId).resources[0].remaining).toBe(3);
+    expect(result.data?.members[1].resourcesRestored).toEqual(['1st-level spell slots']);
+  });
+
+  it('rejects more hit dice than a member has without saving anything', async () => {
+    setupParty();
+
+    const result = await PartyServiceRest.restParty(partyId, userId, {
+      type: 'short',
+      hitDice: [{ characterId: wizardId, count: 3 }],
+    });
+
+    expect(result.success).toBe(false);
+    expect(result.error?.message).toBe('Invalid hit dice: Elara has only 2 hit dice left');
+    expect(Character.findByIdAndUpdate).not.toHaveBeenCalled();
+  });
+
+  it('rejects characters outside the party', async () => {
+    setupParty();
+
+    const result = await PartyServiceRest.restParty(partyId, userId, {
+      type: 'short',
+      hitDice: [{ characterId: '507f1f77bcf86cd799439099', count: 1 }],
+    });
+
+    expect(result.error?.code).toBe('PARTY_MEMBER_NOT_FOUND');
+  });
+
+  it('only lets the owner and co-DMs rest the party', async () => {
+    const party = setupParty(otherUserId);
+    party.sharedWith = [createMockObjectId(userId)];
+    (Collaborator.findOne as jest.Mock).mockResolvedValueOnce({ role: 'player' });
+
+    const result = await PartyServiceRest.restParty(partyId, userId, { type: 'long' });
+
+    expect(result.error?.code).toBe('PARTY_PERMISSION_DENIED');
+    expect(Character.findByIdAndUpdate).not.toHaveBeenCalled();
+
+    (Collaborator.findOne as jest.Mock).mockResolvedValueOnce({ role: 'co_dm' });
+
+    const coDmResult = await PartyServiceRest.restParty(partyId, userId, { type: 'long' });
+
+    expect(coDmResult.success).toBe(true);
+  });
+});
@@ -0,0 +1,79 @@
+/**
+ * Builds the archive for a full-account backup
+ */
+
+import { Types } from 'mongoose';
+import { Character } from '@/lib/models/Character';
+import { Party } from '@/lib/models/Party';
+import { Campaign } from '@/lib/models/Campaign';
+import { Encounter } from '@/lib/models/encounter';
+import User from '@/lib/models/User';
+import { NPCTemplateService } from '../NPCTemplateService';
+import { findDanglingReferences } from './references';
+import {
+  ACCOUNT_BACKUP_FORMAT,
+  ACCOUNT_BACKUP_VERSION,
+  type AccountBackupArchive,
+  type BackupDocument,
+} from './types';
+
+/**
+ * Plain JSON copy of lean documents, turning ObjectIds and dates into strings
+ */
+function toBackupDocuments(documents: unknown[]): BackupDocument[] {
+  return JSON.parse(JSON.stringify(documents));
+}
+
+/**
+ * Custom NPC templates created by the user; system templates are seeded and not backed up
+ */
+export async function getUserTemplates(userId: string) {
+  const result = await NPCTemplateService.getTemplates({ isSystem: false });
+  if (!result.success) {
+    throw new Error(result.error.message);
+  }
+  return result.data.filter(template => template.createdBy === userId);
+}
+
+/**
+ * Collect everything the user owns into a single archive
+ */
+export async function buildAccountArchive(userId: string): Promise<AccountBackupArchive> {
+  const ownerId = new Types.ObjectId(userId);
+
+  const [parties, characters, encounters, campaigns, user, npcTemplates] = await Promise.all([
+    Party.find({ ownerId }).lean(),
+    Character.find({ ownerId, isDeleted: { $ne: true } }).lean(),
+    Encounter.find({ ownerId }).lean(),
+    Campaign.find({ ownerId }).lean(),
+    User.findById(userId).lean(),
+    getUserTemplates(userId),
+  ]);
+
+  const documents = {
+    parties: toBackupDocuments(parties),
+    characters: toBackupDocuments(characters),
+    encounters: toBackupDocuments(encounters),
+    campaigns: toBackupDocuments(campaigns),
+  };
+
+  return {
+    metadata: {
+      format: ACCOUNT_BACKUP_FORMAT,
+      version: ACCOUNT_BACKUP_VERSION,
+      createdAt: new Date().toISOString(),
+      userId,
+      counts: {
+        parties: documents.parties.length,
+        characters: documents.characters.length,
+        encounters: documents.encounters.length,
+        campaigns: documents.campaigns.length,
+        npcTemplates: npcTemplates.length,
+      },
+      warnings: findDanglingReferences(documents),
+    },
+    ...(user?.preferences && { preferences: JSON.parse(JSON.stringify(user.preferences)) }),
+    ...documents,
+    npcTemplates,
+  };
+}
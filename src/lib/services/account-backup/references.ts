@@ -0,0 +1,147 @@
+/**
+ * Reference handling for account archives
+ *
+ * Characters and encounters point at parties through `partyId`, and encounter
+ * participants point at characters through `characterId` (repeated as
+ * `participantId` in the initiative order). Monster participants carry a
+ * generated characterId with no character behind it, so only player
+ * characters are expected to resolve. Campaigns list their parties and
+ * planned encounters, and each session its attendees and encounters run.
+ */
+
+import type { AccountBackupArchive, BackupDocument } from './types';
+
+type DocumentCollection = 'parties' | 'characters' | 'encounters' | 'campaigns';
+
+const isPlayerParticipant = (participant: Record<string, any>) =>
+  participant.isPlayer === true || participant.type === 'pc';
+
+/**
+ * Describe references in the archive that point at documents it does not contain
+ */
+export function findDanglingReferences(archive: Pick<AccountBackupArchive, DocumentCollection>): string[] {
+  const partyIds = new Set(archive.parties.map(party => party._id));
+  const characterIds = new Set(archive.characters.map(character => character._id));
+  const encounterIds = new Set(archive.encounters.map(encounter => encounter._id));
+  const warnings: string[] = [];
+
+  for (const character of archive.characters) {
+    if (character.partyId && !partyIds.has(character.partyId)) {
+      warnings.push(`Character "${character.name}" belongs to a party that is not in the backup`);
+    }
+  }
+
+  for (const encounter of archive.encounters) {
+    if (encounter.partyId && !partyIds.has(encounter.partyId)) {
+      warnings.push(`Encounter "${encounter.name}" uses a party that is not in the backup`);
+    }
+
+    for (const participant of encounter.participants ?? []) {
+      if (isPlayerParticipant(participant) && !characterIds.has(String(participant.characterId))) {
+        warnings.push(`Encounter "${encounter.name}" includes player character "${participant.name}" who is not in the backup`);
+      }
+    }
+  }
+
+  for (const campaign of archive.campaigns) {
+    const sessions: Record<string, any>[] = campaign.sessions ?? [];
+    const campaignEncounterIds = [...(campaign.encounterPlan ?? []), ...sessions.flatMap(session => session.encounterIds ?? [])];
+
+    if ((campaign.partyIds ?? []).some((id: string) => !partyIds.has(id))) {
+      warnings.push(`Campaign "${campaign.name}" includes a party that is not in the backup`);
+    }
+    if (campaignEncounterIds.some((id: string) => !encounterIds.has(id))) {
+      warnings.push(`Campaign "${campaign.name}" includes an encounter that is not in the backup`);
+    }
+    if (sessions.some(session => (session.attendees ?? []).some((id: string) => !characterIds.has(id)))) {
+      warnings.push(`Campaign "${campaign.name}" has session attendees who are not in the backup`);
+    }
+  }
+
+  return warnings;
+}
+
+function withoutVersionKey(document: BackupDocument): BackupDocument {
+  const { __v: _version, ...rest } = document;
+  return rest as BackupDocument;
+}
+
+/**
+ * Restored documents start out private: the users they were shared with may
+ * not exist in the account they are restored into
+ */
+function withoutSharing(document: BackupDocument): BackupDocument {
+  const { sharedWith: _sharedWith, ...rest } = document;
+  return ('isPublic' in rest ? { ...rest, isPublic: false } : rest) as BackupDocument;
+}
+
+function remapEncounter(encounter: BackupDocument, idMap: Map<string, string>): BackupDocument {
+  const remapId = (id: unknown) => idMap.get(String(id)) ?? id;
+
+  return {
+    ...encounter,
+    participants: (encounter.participants ?? []).map((participant: Record<string, any>) => ({
+      ...participant,
+      characterId: remapId(participant.characterId),
+    })),
+    ...(encounter.combatState && {
+      combatState: {
+        ...encounter.combatState,
+        initiativeOrder: (encounter.combatState.initiativeOrder ?? []).map((entry: Record<string, any>) => ({
+          ...entry,
+          participantId: remapId(entry.participantId),
+        })),
+      },
+    }),
+  };
+}
+
+/**
+ * Rewrite a campaign's party, encounter and attendee lists to restored ids,
+ * dropping entries that point at documents that were not restored
+ */
+function remapCampaign(campaign: BackupDocument, idMap: Map<string, string>): BackupDocument {
+  const remapIds = (ids: unknown[] = []) =>
+    ids.map(id => idMap.get(String(id))).filter((id): id is string => id !== undefined);
+
+  return {
+    ...campaign,
+    partyIds: remapIds(campaign.partyIds),
+    encounterPlan: remapIds(campaign.encounterPlan),
+    sessions: (campaign.sessions ?? []).map((session: Record<string, any>) => ({
+      ...session,
+      attendees: remapIds(session.attendees),
+      encounterIds: remapIds(session.encounterIds),
+    })),
+  };
+}
+
+/**
+ * Give documents their restored ids and owner, rewriting references between
+ * them. Party references that cannot be resolved are dropped so restored
+ * documents never point at a missing party, and sharing is cleared.
+ */
+export function remapDocuments(
+  archive: Pick<AccountBackupArchive, DocumentCollection>,
+  idMap: Map<string, string>,
+  ownerId: string
+): Pick<AccountBackupArchive, DocumentCollection> {
+  const remap = (document: BackupDocument): BackupDocument => {
+    const { partyId, ...rest } = withoutSharing(withoutVersionKey(document));
+    const restoredPartyId = partyId ? idMap.get(String(partyId)) : undefined;
+
+    return {
+      ...rest,
+      _id: idMap.get(document._id) ?? document._id,
+      ownerId,
+      ...(restoredPartyId && { partyId: restoredPartyId }),
+    };
+  };
+
+  return {
+    parties: archive.parties.map(remap),
+    characters: archive.characters.map(remap),
+    encounters: archive.encounters.map(encounter => remapEncounter(remap(encounter), idMap)),
+    campaigns: archive.campaigns.map(campaign => remapCampaign(remap(campaign), idMap)),
+  };
+}
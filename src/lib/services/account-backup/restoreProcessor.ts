@@ -0,0 +1,172 @@
+/**
+ * Restores an account archive into a user's account
+ *
+ * Every restored document gets a fresh ObjectId unless merge mode finds the
+ * same document already in the account, so restoring a backup into another
+ * account, or twice into the same one, never collides with existing ids.
+ */
+
+import { Types, type ClientSession } from 'mongoose';
+import { Character } from '@/lib/models/Character';
+import { Party } from '@/lib/models/Party';
+import { Campaign } from '@/lib/models/Campaign';
+import { Encounter } from '@/lib/models/encounter';
+import User from '@/lib/models/User';
+import { DatabaseTransaction } from '../DatabaseTransaction';
+import { NPCTemplateService } from '../NPCTemplateService';
+import { getUserTemplates } from './archiveBuilder';
+import { findDanglingReferences, remapDocuments } from './references';
+import {
+  emptyCounts,
+  type AccountBackupArchive,
+  type BackupDocument,
+  type RestoreOptions,
+  type RestoreReport,
+} from './types';
+
+type DocumentCollection = 'parties' | 'characters' | 'encounters' | 'campaigns';
+
+const DOCUMENT_COLLECTIONS: DocumentCollection[] = ['parties', 'characters', 'encounters', 'campaigns'];
+
+async function findExistingIds(ownerId: Types.ObjectId): Promise<Record<DocumentCollection, Set<string>>> {
+  const [parties, characters, encounters, campaigns] = await Promise.all([
+    Party.find({ ownerId }).select('_id').lean(),
+    Character.find({ ownerId, isDeleted: { $ne: true } }).select('_id').lean(),
+    Encounter.find({ ownerId }).select('_id').lean(),
+    Campaign.find({ ownerId }).select('_id').lean(),
+  ]);
+
+  const toIds = (documents: Array<{ _id: unknown }>) => new Set(documents.map(document => String(document._id)));
+  return {
+    parties: toIds(parties),
+    characters: toIds(characters),
+    encounters: toIds(encounters),
+    campaigns: toIds(campaigns),
+  };
+}
+
+/**
+ * Decide which archive documents to create and the id each one is restored under
+ */
+function planDocuments(
+  archive: AccountBackupArchive,
+  existingIds: Record<DocumentCollection, Set<string>>,
+  options: RestoreOptions,
+  report: RestoreReport
+) {
+  const idMap = new Map<string, string>();
+  const toCreate: Record<DocumentCollection, BackupDocument[]> = {
+    parties: [],
+    characters: [],
+    encounters: [],
+    campaigns: [],
+  };
+
+  for (const collection of DOCUMENT_COLLECTIONS) {
+    for (const document of archive[collection]) {
+      if (options.mode === 'merge' && existingIds[collection].has(document._id)) {
+        idMap.set(document._id, document._id);
+        report.skipped[collection]++;
+        continue;
+      }
+
+      idMap.set(document._id, new Types.ObjectId().toString());
+      toCreate[collection].push(document);
+      report.created[collection]++;
+    }
+  }
+
+  return { idMap, toCreate };
+}
+
+async function writeDocuments(
+  ownerId: Types.ObjectId,
+  userId: string,
+  documents: Record<DocumentCollection, BackupDocument[]>,
+  preferences: Record<string, unknown> | undefined,
+  options: RestoreOptions,
+  session?: ClientSession
+): Promise<void> {
+  if (options.mode === 'replace') {
+    await Party.deleteMany({ ownerId }, { session });
+    await Character.deleteMany({ ownerId }, { session });
+    await Encounter.deleteMany({ ownerId }, { session });
+    await Campaign.deleteMany({ ownerId }, { session });
+  }
+
+  await Party.insertMany(documents.parties, { session });
+  await Character.insertMany(documents.characters, { session });
+  await Encounter.insertMany(documents.encounters, { session });
+  await Campaign.insertMany(documents.campaigns, { session });
+
+  if (preferences) {
+    await User.updateOne({ _id: userId }, { $set: { preferences } }, { session });
+  }
+}
+
+/**
+ * Restore an archive, or report what a restore would do when `dryRun` is set
+ */
+export async function restoreAccountArchive(
+  archive: AccountBackupArchive,
+  userId: string,
+  options: RestoreOptions
+): Promise<RestoreReport> {
+  const ownerId = new Types.ObjectId(userId);
+  const dryRun = options.dryRun ?? false;
+  const existingIds = await findExistingIds(ownerId);
+  const existingTemplates = await getUserTemplates(userId);
+
+  const report: RestoreReport = {
+    mode: options.mode,
+    dryRun,
+    backupCreatedAt: archive.metadata.createdAt,
+    created: emptyCounts(),
+    skipped: emptyCounts(),
+    deleted: emptyCounts(),
+    preferencesRestored: options.mode === 'replace' && archive.preferences !== undefined,
+    warnings: findDanglingReferences(archive),
+  };
+
+  if (options.mode === 'replace') {
+    report.deleted = {
+      parties: existingIds.parties.size,
+      characters: existingIds.characters.size,
+      encounters: existingIds.encounters.size,
+      campaigns: existingIds.campaigns.size,
+      npcTemplates: existingTemplates.length,
+    };
+  }
+
+  const { idMap, toCreate } = planDocuments(archive, existingIds, options, report);
+  const existingNames = new Set(existingTemplates.map(template => template.name));
+  const templatesToCreate = archive.npcTemplates.filter(
+    template => options.mode === 'replace' || !existingNames.has(template.name)
+  );
+  report.created.npcTemplates = templatesToCreate.length;
+  report.skipped.npcTemplates = archive.npcTemplates.length - templatesToCreate.length;
+
+  if (dryRun) {
+    return report;
+  }
+
+  const documents = remapDocuments(toCreate, idMap, userId);
+  const preferences = report.preferencesRestored ? archive.preferences : undefined;
+
+  await DatabaseTransaction.withFallback(
+    session => writeDocuments(ownerId, userId, documents, preferences, options, session),
+    () => writeDocuments(ownerId, userId, documents, preferences, options)
+  );
+
+  // Templates live outside the database, so they are written once the documents are in
+  if (options.mode === 'replace') {
+    for (const template of existingTemplates) {
+      await NPCTemplateService.deleteTemplate(template.id);
+    }
+  }
+  for (const { id: _id, createdAt: _createdAt, updatedAt: _updatedAt, ...template } of templatesToCreate) {
+    await NPCTemplateService.createCustomTemplate({ ...template, isSystem: false, createdBy: userId });
+  }
+
+  return report;
+}
@@ -0,0 +1,114 @@
+/**
+ * Types and schemas for full-account backup and restore
+ */
+
+import { z } from 'zod';
+import type { NPCTemplate } from '@/types/npc';
+
+export const ACCOUNT_BACKUP_FORMAT = 'dnd-tracker-account-backup';
+
+/**
+ * 1.1.0 added campaigns; older archives restore without any
+ */
+export const ACCOUNT_BACKUP_VERSION = '1.1.0';
+
+/**
+ * Merge keeps the account's existing data and adds what is missing;
+ * replace deletes the account's characters, parties, encounters, campaigns
+ * and templates before restoring the archive
+ */
+export const RESTORE_MODES = ['merge', 'replace'] as const;
+
+export type RestoreMode = (typeof RESTORE_MODES)[number];
+
+export const BACKUP_COLLECTIONS = ['parties', 'characters', 'encounters', 'campaigns', 'npcTemplates'] as const;
+
+export type BackupCollection = (typeof BACKUP_COLLECTIONS)[number];
+
+export type CollectionCounts = Record<BackupCollection, number>;
+
+/**
+ * A database document as stored in the archive; ObjectIds and dates are strings
+ */
+export type BackupDocument = Record<string, any> & { _id: string };
+
+/**
+ * Single JSON archive holding everything an account owns. Documents keep
+ * their original ids so references between them can be remapped on restore.
+ */
+export interface AccountBackupArchive {
+  metadata: {
+    format: typeof ACCOUNT_BACKUP_FORMAT;
+    version: string;
+    createdAt: string;
+    userId: string;
+    counts: CollectionCounts;
+    warnings: string[];
+  };
+  preferences?: Record<string, unknown>;
+  parties: BackupDocument[];
+  characters: BackupDocument[];
+  encounters: BackupDocument[];
+  campaigns: BackupDocument[];
+  npcTemplates: NPCTemplate[];
+}
+
+export interface RestoreOptions {
+  mode: RestoreMode;
+  dryRun?: boolean;
+}
+
+/**
+ * What a restore did, or would do when run as a dry run
+ */
+export interface RestoreReport {
+  mode: RestoreMode;
+  dryRun: boolean;
+  backupCreatedAt: string;
+  created: CollectionCounts;
+  skipped: CollectionCounts;
+  deleted: CollectionCounts;
+  preferencesRestored: boolean;
+  warnings: string[];
+}
+
+const objectIdString = z.string().regex(/^[0-9a-fA-F]{24}$/, 'Invalid document id');
+
+const backupDocumentSchema = z.object({ _id: objectIdString }).passthrough();
+
+const collectionCountsSchema = z.object({
+  parties: z.number().int().min(0),
+  characters: z.number().int().min(0),
+  encounters: z.number().int().min(0),
+  campaigns: z.number().int().min(0).default(0),
+  npcTemplates: z.number().int().min(0),
+});
+
+/**
+ * Structural schema for an account archive; the documents themselves are
+ * validated by their models when they are inserted
+ */
+export const accountBackupSchema = z.object({
+  metadata: z.object({
+    format: z.literal(ACCOUNT_BACKUP_FORMAT),
+    version: z.string(),
+    createdAt: z.string(),
+    userId: z.string(),
+    counts: collectionCountsSchema,
+    warnings: z.array(z.string()).default([]),
+  }),
+  preferences: z.record(z.string(), z.unknown()).optional(),
+  parties: z.array(backupDocumentSchema),
+  characters: z.array(backupDocumentSchema),
+  encounters: z.array(backupDocumentSchema),
+  campaigns: z.array(backupDocumentSchema).default([]),
+  npcTemplates: z.array(z.object({ id: z.string(), name: z.string() }).passthrough()),
+});
+
+export const emptyCounts = (): CollectionCounts => ({
+  parties: 0,
+  characters: 0,
+  encounters: 0,
+  campaigns: 0,
+  npcTemplates: 0,
+});
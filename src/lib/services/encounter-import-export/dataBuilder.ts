@@ -10,11 +10,8 @@ import { Encounter } from '@/lib/models/encounter';
 import { Types } from 'mongoose';
 
 import type { ExportFormat, ExportOptions, EncounterExportData } from './types';
+import { CURRENT_EXPORT_VERSION } from './types';
 
-/**
- * Constants for export versioning
- */
-const EXPORT_VERSION = '1.0.0';
 const APP_VERSION = '1.0.0';
 
 /**
@@ -113,7 +110,7 @@ function buildBaseExportData(
       exportedAt: new Date().toISOString(),
       exportedBy: userId,
       format,
-      version: EXPORT_VERSION,
+      version: CURRENT_EXPORT_VERSION,
       appVersion: APP_VERSION,
     },
     encounter: {
@@ -138,8 +135,15 @@ function buildBaseExportData(
         isPlayer: p.isPlayer,
         isVisible: p.isVisible,
         notes: options.includePrivateNotes ? p.notes : '',
-        conditions: p.conditions,
+        conditions: p.conditions.map(({ name, level, expiry, roundsRemaining, saveDC, saveAbility }) => ({
+          name, level, expiry, roundsRemaining, saveDC, saveAbility,
+        })),
         position: p.position,
+        challengeRating: p.challengeRating,
+        damageResistances: p.damageResistances,
+        damageVulnerabilities: p.damageVulnerabilities,
+        damageImmunities: p.damageImmunities,
+        conditionImmunities: p.conditionImmunities,
       })),
     },
   };
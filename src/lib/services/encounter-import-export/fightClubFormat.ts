@@ -0,0 +1,152 @@
+/**
+ * Fight Club 5 / Game Master 5 compendium adapter for encounter import/export
+ *
+ * The compendium XML only describes creatures, so an export writes one
+ * monster entry per distinct NPC or monster and leaves player characters out.
+ * Numbered copies such as "Goblin 1" and "Goblin 2" share a single entry.
+ *
+ * Only the stat block header is exchanged: name, size, type, AC, HP, speed,
+ * ability scores, damage and condition defenses, CR and notes. Encounter
+ * participants do not store actions or traits, so exported monsters have no
+ * <action> or <trait> entries, and those entries are skipped on import.
+ */
+
+import { XMLParser } from 'fast-xml-parser';
+import { formatChallengeRating, type ChallengeRating } from '@/types/npc';
+import { NPCTemplateTextParsing } from '../NPCTemplateTextParsing';
+import { EncounterServiceError } from '../EncounterServiceErrors';
+import type { EncounterExportData, ImportedEncounterSource } from './types';
+
+type ExportedParticipant = EncounterExportData['encounter']['participants'][number];
+type CharacterSheet = NonNullable<EncounterExportData['encounter']['characterSheets']>[number];
+
+const ABILITY_ELEMENTS = {
+  str: 'strength',
+  dex: 'dexterity',
+  con: 'constitution',
+  int: 'intelligence',
+  wis: 'wisdom',
+  cha: 'charisma',
+} as const;
+
+const SIZE_CODES: Record<CharacterSheet['size'], string> = {
+  tiny: 'T',
+  small: 'S',
+  medium: 'M',
+  large: 'L',
+  huge: 'H',
+  gargantuan: 'G',
+};
+
+const MAX_NOTES_LENGTH = 500;
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+function element(name: string, value: string | number | undefined): string {
+  return value === undefined || value === '' ? '' : `    <${name}>${escapeXml(String(value))}</${name}>\n`;
+}
+
+/**
+ * Name without the copy number added when several copies join an encounter
+ */
+function baseName(name: string): string {
+  return name.trim().replace(/\s+\d+$/, '');
+}
+
+function toMonsterXml(participant: ExportedParticipant, sheet: CharacterSheet | undefined): string {
+  const abilities = Object.entries(ABILITY_ELEMENTS)
+    .map(([key, ability]) => element(key, sheet?.abilityScores[ability] ?? 10))
+    .join('');
+  const cr = participant.challengeRating as ChallengeRating | undefined;
+
+  return (
+    '  <monster>\n' +
+    element('name', baseName(participant.name)) +
+    element('size', SIZE_CODES[sheet?.size ?? 'medium']) +
+    element('type', participant.type === 'npc' ? 'humanoid' : undefined) +
+    element('ac', participant.armorClass) +
+    element('hp', participant.maxHitPoints) +
+    element('speed', sheet ? `${sheet.speed} ft.` : undefined) +
+    abilities +
+    element('resist', participant.damageResistances?.join('; ')) +
+    element('vulnerable', participant.damageVulnerabilities?.join('; ')) +
+    element('immune', participant.damageImmunities?.join('; ')) +
+    element('conditionImmune', participant.conditionImmunities?.join(', ')) +
+    element('cr', cr !== undefined ? formatChallengeRating(cr) : undefined) +
+    element('description', participant.notes) +
+    '  </monster>\n'
+  );
+}
+
+/**
+ * Convert export data to a Fight Club 5 compendium
+ */
+export function convertToFightClub(data: EncounterExportData): string {
+  const sheets = new Map((data.encounter.characterSheets ?? []).map(sheet => [sheet.name, sheet]));
+  const seen = new Set<string>();
+
+  const monsters = data.encounter.participants
+    .filter(participant => !participant.isPlayer)
+    .filter(participant => {
+      const name = baseName(participant.name).toLowerCase();
+      if (seen.has(name)) return false;
+      seen.add(name);
+      return true;
+    })
+    .map(participant => toMonsterXml(participant, sheets.get(participant.name)))
+    .join('');
+
+  return `<?xml version="1.0" encoding="UTF-8"?>\n<compendium version="5" auto_indent="NO">\n${monsters}</compendium>`;
+}
+
+function readMonster(monster: Record<string, any>): ImportedEncounterSource['participants'][number] {
+  const maxHitPoints = NPCTemplateTextParsing.parseHitPoints(monster.hp).maximum;
+  const challengeRating = NPCTemplateTextParsing.parseChallenge(monster.cr);
+  const type = /humanoid/i.test(String(monster.type ?? '')) ? 'npc' : 'monster';
+
+  return {
+    name: String(monster.name ?? 'Unnamed monster').trim(),
+    type,
+    maxHitPoints,
+    currentHitPoints: maxHitPoints,
+    temporaryHitPoints: 0,
+    armorClass: NPCTemplateTextParsing.parseInteger(monster.ac) ?? 10,
+    isPlayer: false,
+    isVisible: true,
+    notes: String(monster.description ?? '').trim().slice(0, MAX_NOTES_LENGTH),
+    conditions: [],
+    ...(challengeRating !== undefined && { challengeRating }),
+    damageResistances: NPCTemplateTextParsing.parseDamageList(monster.resist),
+    damageVulnerabilities: NPCTemplateTextParsing.parseDamageList(monster.vulnerable),
+    damageImmunities: NPCTemplateTextParsing.parseDamageList(monster.immune),
+    conditionImmunities: NPCTemplateTextParsing.parseList(monster.conditionImmune),
+  };
+}
+
+/**
+ * Read monsters from a Fight Club 5 or Game Master 5 compendium, one participant per entry
+ */
+export function readFightClubCompendium(xml: string): ImportedEncounterSource {
+  const parser = new XMLParser({
+    ignoreAttributes: true,
+    parseTagValue: false,
+    isArray: name => name === 'monster',
+  });
+  const parsed = parser.parse(xml);
+  const monsters: unknown = parsed?.compendium?.monster;
+
+  if (!Array.isArray(monsters) || monsters.length === 0) {
+    throw new EncounterServiceError('Compendium contains no monster entries', 'INVALID_IMPORT_FORMAT', 400);
+  }
+
+  return {
+    participants: monsters.map(monster => readMonster(monster as Record<string, any>)),
+  };
+}
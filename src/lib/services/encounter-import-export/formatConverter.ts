@@ -95,6 +95,24 @@ interface XmlConditionsStructure {
   condition?: unknown | unknown[];
 }
 
+// Participant string lists, written as one singular-named element per entry
+const STRING_LIST_KEYS = new Set([
+  'damageResistances',
+  'damageVulnerabilities',
+  'damageImmunities',
+  'conditionImmunities',
+]);
+
+/**
+ * Read a string list element back into an array
+ */
+function convertStringList(key: string, value: unknown): string[] {
+  if (!value || typeof value !== 'object') return [];
+  const entries = (value as Record<string, unknown>)[key.slice(0, -1)];
+  if (entries === undefined) return [];
+  return (Array.isArray(entries) ? entries : [entries]).map(String);
+}
+
 // Type guard functions
 function hasTagProperty(value: unknown): value is XmlTagsStructure {
   return typeof value === 'object' && value !== null && 'tag' in value;
@@ -141,6 +159,8 @@ function convertTypes(obj: unknown): unknown {
         } else {
           converted[key] = [];
         }
+      } else if (STRING_LIST_KEYS.has(key)) {
+        converted[key] = convertStringList(key, value);
       } else if (key === 'conditions') {
         // Handle conditions array - empty, non-empty, or nested structure
         if (value === '' || value === null || value === undefined) {
@@ -0,0 +1,268 @@
+/**
+ * Foundry VTT format adapter for encounter import/export
+ *
+ * Encounters are written as dnd5e system actors plus a Combat document whose
+ * combatants reference the actors, with our encounter details kept in flags.
+ * Imports accept that document, an array of actors, or a single actor.
+ */
+
+import { normalizeCondition, type ConditionSummary } from '@/lib/utils/conditions';
+import { EncounterServiceError } from '../EncounterServiceErrors';
+import type { EncounterExportData, ImportedEncounterSource } from './types';
+
+type ExportedParticipant = EncounterExportData['encounter']['participants'][number];
+type CharacterSheet = NonNullable<EncounterExportData['encounter']['characterSheets']>[number];
+
+const FLAG_SCOPE = 'dnd-tracker';
+
+const ABILITY_KEYS = {
+  str: 'strength',
+  dex: 'dexterity',
+  con: 'constitution',
+  int: 'intelligence',
+  wis: 'wisdom',
+  cha: 'charisma',
+} as const;
+
+const SIZE_KEYS: Record<CharacterSheet['size'], string> = {
+  tiny: 'tiny',
+  small: 'sm',
+  medium: 'med',
+  large: 'lg',
+  huge: 'huge',
+  gargantuan: 'grg',
+};
+
+/**
+ * Damage and condition traits: known single keys go in `value`, anything
+ * qualified such as "slashing from nonmagical attacks" goes in `custom`
+ */
+interface FoundryTrait {
+  value: string[];
+  custom: string;
+}
+
+export interface FoundryActor {
+  _id: string;
+  name: string;
+  type: 'character' | 'npc';
+  system: {
+    abilities: Record<keyof typeof ABILITY_KEYS, { value: number }>;
+    attributes: {
+      ac: { flat: number; calc: 'flat' };
+      hp: { value: number; max: number; temp: number };
+    };
+    details: {
+      cr?: number;
+      biography: { value: string };
+    };
+    traits: {
+      size: string;
+      di: FoundryTrait;
+      dr: FoundryTrait;
+      dv: FoundryTrait;
+      ci: FoundryTrait;
+    };
+  };
+  items: unknown[];
+  flags: Record<string, Record<string, unknown>>;
+}
+
+export interface FoundryEncounter {
+  name: string;
+  actors: FoundryActor[];
+  combat: {
+    round: number;
+    turn: number;
+    combatants: Array<{
+      actorId: string;
+      name: string;
+      initiative: number | null;
+      hidden: boolean;
+    }>;
+  };
+  flags: Record<string, Record<string, unknown>>;
+}
+
+/**
+ * Foundry document ids are 16 alphanumeric characters
+ */
+function toFoundryId(index: number): string {
+  return `dndtracker${String(index).padStart(6, '0')}`;
+}
+
+function toFoundryTrait(entries: string[] = []): FoundryTrait {
+  const isKey = (entry: string) => /^[a-z]+$/.test(entry.trim().toLowerCase());
+  return {
+    value: entries.filter(isKey).map(entry => entry.trim().toLowerCase()),
+    custom: entries.filter(entry => !isKey(entry)).join('; '),
+  };
+}
+
+function toFoundryActor(
+  participant: ExportedParticipant,
+  index: number,
+  sheet: CharacterSheet | undefined
+): FoundryActor {
+  const abilities = Object.fromEntries(
+    Object.entries(ABILITY_KEYS).map(([key, ability]) => [key, { value: sheet?.abilityScores[ability] ?? 10 }])
+  ) as FoundryActor['system']['abilities'];
+
+  return {
+    _id: toFoundryId(index),
+    name: participant.name,
+    type: participant.isPlayer ? 'character' : 'npc',
+    system: {
+      abilities,
+      attributes: {
+        ac: { flat: participant.armorClass, calc: 'flat' },
+        hp: { value: participant.currentHitPoints, max: participant.maxHitPoints, temp: participant.temporaryHitPoints },
+      },
+      details: {
+        ...(participant.challengeRating !== undefined && { cr: participant.challengeRating }),
+        biography: { value: participant.notes },
+      },
+      traits: {
+        size: SIZE_KEYS[sheet?.size ?? 'medium'],
+        di: toFoundryTrait(participant.damageImmunities),
+        dr: toFoundryTrait(participant.damageResistances),
+        dv: toFoundryTrait(participant.damageVulnerabilities),
+        ci: toFoundryTrait(participant.conditionImmunities),
+      },
+    },
+    items: [],
+    flags: {
+      [FLAG_SCOPE]: {
+        type: participant.type,
+        conditions: participant.conditions,
+        ...(participant.position && { position: participant.position }),
+      },
+    },
+  };
+}
+
+/**
+ * Convert export data to a Foundry VTT encounter document
+ */
+export function convertToFoundry(data: EncounterExportData): string {
+  const { encounter } = data;
+  const sheets = new Map((encounter.characterSheets ?? []).map(sheet => [sheet.name, sheet]));
+  const actors = encounter.participants.map((participant, index) =>
+    toFoundryActor(participant, index, sheets.get(participant.name))
+  );
+
+  const document: FoundryEncounter = {
+    name: encounter.name,
+    actors,
+    combat: {
+      round: encounter.combatState?.currentRound ?? 0,
+      turn: encounter.combatState?.currentTurn ?? 0,
+      combatants: encounter.participants.map((participant, index) => ({
+        actorId: actors[index]._id,
+        name: participant.name,
+        initiative: participant.initiative ?? null,
+        hidden: !participant.isVisible,
+      })),
+    },
+    flags: {
+      [FLAG_SCOPE]: {
+        description: encounter.description,
+        tags: encounter.tags,
+        difficulty: encounter.difficulty,
+        targetLevel: encounter.targetLevel,
+        exportedAt: data.metadata.exportedAt,
+      },
+    },
+  };
+
+  return JSON.stringify(document, null, 2);
+}
+
+function isRecord(value: unknown): value is Record<string, any> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function readTrait(trait: unknown): string[] {
+  if (!isRecord(trait)) return [];
+  const values = Array.isArray(trait.value) ? trait.value.map(String) : [];
+  const custom = typeof trait.custom === 'string' ? trait.custom.split(';') : [];
+  return [...values, ...custom].map(entry => entry.trim()).filter(Boolean);
+}
+
+function stripHtml(html: unknown): string {
+  return typeof html === 'string' ? html.replace(/<[^>]*>/g, ' ').replace(/\s+/g, ' ').trim() : '';
+}
+
+function readNumber(value: unknown): number | undefined {
+  const number = typeof value === 'string' ? Number(value) : value;
+  return typeof number === 'number' && Number.isFinite(number) ? number : undefined;
+}
+
+function readParticipantType(actor: Record<string, any>, flags: Record<string, any>) {
+  if (['pc', 'npc', 'monster'].includes(flags.type)) return flags.type as ExportedParticipant['type'];
+  if (actor.type === 'character') return 'pc';
+  return actor.system?.details?.type?.value === 'humanoid' ? 'npc' : 'monster';
+}
+
+function readActor(
+  actor: Record<string, any>,
+  combatant: Record<string, any> | undefined
+): ImportedEncounterSource['participants'][number] {
+  const system = isRecord(actor.system) ? actor.system : (actor.data ?? {});
+  const flags = isRecord(actor.flags?.[FLAG_SCOPE]) ? actor.flags[FLAG_SCOPE] : {};
+  const hp = system.attributes?.hp ?? {};
+  const maxHitPoints = readNumber(hp.max) ?? readNumber(hp.value) ?? 1;
+  const type = readParticipantType(actor, flags);
+  const initiative = readNumber(combatant?.initiative);
+
+  return {
+    name: String(actor.name ?? 'Unnamed actor'),
+    type,
+    maxHitPoints,
+    currentHitPoints: readNumber(hp.value) ?? maxHitPoints,
+    temporaryHitPoints: readNumber(hp.temp) ?? 0,
+    armorClass: readNumber(system.attributes?.ac?.flat) ?? readNumber(system.attributes?.ac?.value) ?? 10,
+    ...(initiative !== undefined && { initiative }),
+    isPlayer: type === 'pc',
+    isVisible: !combatant?.hidden,
+    notes: stripHtml(system.details?.biography?.value),
+    conditions: Array.isArray(flags.conditions)
+      ? flags.conditions.map(normalizeCondition).filter((condition): condition is ConditionSummary => condition !== null)
+      : [],
+    ...(isRecord(flags.position) && { position: flags.position as { x: number; y: number } }),
+    ...(readNumber(system.details?.cr) !== undefined && { challengeRating: readNumber(system.details.cr) }),
+    damageImmunities: readTrait(system.traits?.di),
+    damageResistances: readTrait(system.traits?.dr),
+    damageVulnerabilities: readTrait(system.traits?.dv),
+    conditionImmunities: readTrait(system.traits?.ci),
+  };
+}
+
+/**
+ * Read participants from a Foundry VTT encounter document, actor array or single actor
+ */
+export function readFoundryEncounter(data: unknown): ImportedEncounterSource {
+  const document = Array.isArray(data) ? { actors: data } : data;
+  if (!isRecord(document)) {
+    throw new EncounterServiceError('Foundry data must be an actor or encounter document', 'INVALID_IMPORT_FORMAT', 400);
+  }
+
+  const actors: unknown[] = Array.isArray(document.actors) ? document.actors : [document];
+  if (!actors.every(actor => isRecord(actor) && typeof actor.name === 'string' && actor.type)) {
+    throw new EncounterServiceError('Foundry data must be an actor or encounter document', 'INVALID_IMPORT_FORMAT', 400);
+  }
+
+  const combatants: Record<string, any>[] = Array.isArray(document.combat?.combatants)
+    ? document.combat.combatants
+    : [];
+  const flags = isRecord(document.flags?.[FLAG_SCOPE]) ? document.flags[FLAG_SCOPE] : {};
+
+  return {
+    name: Array.isArray(document.actors) && typeof document.name === 'string' ? document.name : undefined,
+    description: typeof flags.description === 'string' ? flags.description : undefined,
+    tags: Array.isArray(flags.tags) ? flags.tags.map(String) : undefined,
+    participants: (actors as Record<string, any>[]).map(actor =>
+      readActor(actor, combatants.find(combatant => combatant.actorId === actor._id))
+    ),
+  };
+}
@@ -8,10 +8,66 @@ import { handleEncounterServiceError } from '../EncounterServiceErrors';
 import { Character } from '@/lib/models/Character';
 import { Encounter } from '@/lib/models/encounter';
 import { Types } from 'mongoose';
-import { z } from 'zod';
+import { DND_VALIDATION_RANGES } from '@/lib/models/shared/schema-utils';
+import { normalizeCondition, type ConditionSummary } from '@/lib/utils/conditions';
+import type { z } from 'zod';
 
-import type { ImportOptions } from './types';
-import { encounterExportSchema } from './types';
+import type { EncounterExportData, ExportFormat, ImportOptions, ImportedEncounterSource } from './types';
+import { CURRENT_EXPORT_VERSION, encounterExportSchema } from './types';
+
+const MAX_IMPORTED_PARTICIPANTS = 50;
+const INITIATIVE_RANGE = DND_VALIDATION_RANGES.INITIATIVE;
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, Math.round(value)));
+
+/**
+ * Wrap encounter details read from a Foundry VTT or Fight Club 5 file in our
+ * export structure, filling in encounter defaults and clamping values to the
+ * export schema so the result can be validated like a native import
+ */
+export function buildImportData(
+  source: ImportedEncounterSource,
+  format: Exclude<ExportFormat, 'json' | 'xml'>,
+  defaultName: string
+): EncounterExportData {
+  return {
+    metadata: {
+      exportedAt: new Date().toISOString(),
+      exportedBy: format,
+      format,
+      version: CURRENT_EXPORT_VERSION,
+      appVersion: process.env.npm_package_version || '1.0.0',
+    },
+    encounter: {
+      name: (source.name?.trim() || defaultName).slice(0, 100),
+      description: (source.description ?? '').slice(0, 1000),
+      tags: (source.tags ?? []).slice(0, 10),
+      status: 'draft',
+      isPublic: false,
+      settings: {
+        allowPlayerVisibility: true,
+        autoRollInitiative: false,
+        trackResources: true,
+        enableLairActions: false,
+        enableGridMovement: false,
+        gridSize: 5,
+      },
+      participants: source.participants.slice(0, MAX_IMPORTED_PARTICIPANTS).map((participant, index) => ({
+        ...participant,
+        id: `import_${index + 1}`,
+        name: participant.name.slice(0, 100) || `Participant ${index + 1}`,
+        maxHitPoints: clamp(participant.maxHitPoints, 1, 999),
+        currentHitPoints: clamp(participant.currentHitPoints, -999, 999),
+        temporaryHitPoints: clamp(participant.temporaryHitPoints, 0, 999),
+        armorClass: clamp(participant.armorClass, 1, 30),
+        ...(participant.initiative !== undefined && {
+          initiative: clamp(participant.initiative, INITIATIVE_RANGE.min, INITIATIVE_RANGE.max),
+        }),
+        notes: participant.notes.slice(0, 500),
+      })),
+    },
+  };
+}
 
 /**
  * Process imported encounter data and create encounter
@@ -117,8 +173,15 @@ async function createEncounterFromImport(
       isPlayer: p.isPlayer,
       isVisible: p.isVisible,
       notes: p.notes,
-      conditions: p.conditions,
+      conditions: p.conditions
+        .map(normalizeCondition)
+        .filter((condition): condition is ConditionSummary => condition !== null),
       position: p.position,
+      challengeRating: p.challengeRating,
+      damageResistances: p.damageResistances,
+      damageVulnerabilities: p.damageVulnerabilities,
+      damageImmunities: p.damageImmunities,
+      conditionImmunities: p.conditionImmunities,
     })),
     settings: encounterData.settings,
     isPublic: encounterData.isPublic,
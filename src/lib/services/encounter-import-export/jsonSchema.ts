@@ -0,0 +1,75 @@
+/**
+ * JSON Schema generation for the encounter export schema
+ *
+ * Covers the zod types the export schema is built from: objects, arrays,
+ * strings, numbers, booleans, enums, literals, records and optional fields.
+ * Any other type is described as an unconstrained value.
+ */
+
+import { z } from 'zod';
+
+type JsonSchema = Record<string, unknown>;
+
+function stringSchema(schema: z.ZodString): JsonSchema {
+  const result: JsonSchema = { type: 'string' };
+  for (const check of schema._def.checks) {
+    if (check.kind === 'min') result.minLength = check.value;
+    if (check.kind === 'max') result.maxLength = check.value;
+    if (check.kind === 'url') result.format = 'uri';
+  }
+  return result;
+}
+
+function numberSchema(schema: z.ZodNumber): JsonSchema {
+  const result: JsonSchema = { type: 'number' };
+  for (const check of schema._def.checks) {
+    if (check.kind === 'int') result.type = 'integer';
+    if (check.kind === 'min') result[check.inclusive ? 'minimum' : 'exclusiveMinimum'] = check.value;
+    if (check.kind === 'max') result[check.inclusive ? 'maximum' : 'exclusiveMaximum'] = check.value;
+  }
+  return result;
+}
+
+function arraySchema(schema: z.ZodArray<z.ZodTypeAny>): JsonSchema {
+  const { minLength, maxLength } = schema._def;
+  return {
+    type: 'array',
+    ...(minLength && { minItems: minLength.value }),
+    ...(maxLength && { maxItems: maxLength.value }),
+    items: toJsonSchema(schema.element),
+  };
+}
+
+function objectSchema(schema: z.AnyZodObject): JsonSchema {
+  const entries = Object.entries(schema.shape as Record<string, z.ZodTypeAny>);
+  const required = entries.filter(([, field]) => !field.isOptional()).map(([key]) => key);
+
+  return {
+    type: 'object',
+    properties: Object.fromEntries(entries.map(([key, field]) => [key, toJsonSchema(field)])),
+    ...(required.length > 0 && { required }),
+  };
+}
+
+/**
+ * Describes a zod schema as JSON Schema, as accepted on input
+ */
+export function toJsonSchema(schema: z.ZodTypeAny): JsonSchema {
+  if (schema instanceof z.ZodOptional) return toJsonSchema(schema.unwrap());
+  if (schema instanceof z.ZodDefault) return toJsonSchema(schema._def.innerType);
+  if (schema instanceof z.ZodObject) return objectSchema(schema);
+  if (schema instanceof z.ZodArray) return arraySchema(schema);
+  if (schema instanceof z.ZodString) return stringSchema(schema);
+  if (schema instanceof z.ZodNumber) return numberSchema(schema);
+  if (schema instanceof z.ZodBoolean) return { type: 'boolean' };
+  if (schema instanceof z.ZodEnum) return { type: 'string', enum: [...schema.options] };
+  if (schema instanceof z.ZodLiteral) return { type: typeof schema.value, const: schema.value };
+  if (schema instanceof z.ZodRecord) {
+    return {
+      type: 'object',
+      propertyNames: toJsonSchema(schema.keySchema),
+      additionalProperties: toJsonSchema(schema.valueSchema),
+    };
+  }
+  return {};
+}
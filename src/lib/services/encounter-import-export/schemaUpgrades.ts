@@ -0,0 +1,121 @@
+/**
+ * Export schema versioning for encounter import/export
+ *
+ * Each upgrade step brings an export file from one version to the next, so a
+ * file of any known version can be walked up to CURRENT_EXPORT_VERSION before
+ * it is validated against the current schema.
+ */
+
+import { normalizeCondition } from '@/lib/utils/conditions';
+import { EncounterServiceError } from '../EncounterServiceErrors';
+import { CURRENT_EXPORT_VERSION, encounterExportSchema } from './types';
+import { toJsonSchema } from './jsonSchema';
+
+type ExportRecord = Record<string, any>;
+
+interface ExportUpgradeStep {
+  from: string;
+  to: string;
+  // Mutates the data in place and returns notes describing what changed
+  upgrade: (_data: ExportRecord) => string[];
+}
+
+/**
+ * Result of bringing an export file up to the current version
+ */
+export interface ExportUpgradeResult {
+  data: unknown;
+  fromVersion: string;
+  notes: string[];
+}
+
+/**
+ * 1.0.0 files may store conditions as free-text names; 1.1.0 stores structured
+ * 5e conditions. Names that are not 5e conditions cannot be tracked and are dropped.
+ */
+function upgradeFreeTextConditions(data: ExportRecord): string[] {
+  const notes: string[] = [];
+  const participants: ExportRecord[] = Array.isArray(data.encounter?.participants) ? data.encounter.participants : [];
+
+  for (const participant of participants) {
+    if (!Array.isArray(participant.conditions)) continue;
+
+    const dropped: string[] = [];
+    participant.conditions = participant.conditions.flatMap((condition: unknown) => {
+      const normalized = normalizeCondition(condition);
+      if (!normalized) dropped.push(typeof condition === 'string' ? condition : String((condition as ExportRecord)?.name));
+      return normalized ? [normalized] : [];
+    });
+
+    if (dropped.length > 0) {
+      notes.push(`Dropped unrecognised conditions from ${participant.name}: ${dropped.join(', ')}`);
+    }
+  }
+
+  return notes;
+}
+
+const UPGRADE_STEPS: ExportUpgradeStep[] = [
+  { from: '1.0.0', to: '1.1.0', upgrade: upgradeFreeTextConditions },
+];
+
+const KNOWN_VERSIONS = new Set([...UPGRADE_STEPS.map(step => step.from), CURRENT_EXPORT_VERSION]);
+
+function compareVersions(a: string, b: string): number {
+  const left = a.split('.').map(Number);
+  const right = b.split('.').map(Number);
+  for (let i = 0; i < 3; i++) {
+    if (left[i] !== right[i]) return left[i] - right[i];
+  }
+  return 0;
+}
+
+/**
+ * Bring export data of any known version up to CURRENT_EXPORT_VERSION.
+ * Throws for files from a newer app version or an unknown version.
+ */
+export function upgradeExportData(raw: unknown): ExportUpgradeResult {
+  const version = (raw as ExportRecord | null)?.metadata?.version;
+
+  // Without a stated version there is nothing to upgrade; schema validation reports the missing field
+  if (version === undefined || version === null || version === '') {
+    return { data: raw, fromVersion: CURRENT_EXPORT_VERSION, notes: [] };
+  }
+
+  const fromVersion = String(version);
+  if (/^\d+\.\d+\.\d+$/.test(fromVersion) && compareVersions(fromVersion, CURRENT_EXPORT_VERSION) > 0) {
+    throw new EncounterServiceError(
+      `Export version ${fromVersion} is newer than this app supports (${CURRENT_EXPORT_VERSION}); update the app to import it`,
+      'UNSUPPORTED_EXPORT_VERSION',
+      400
+    );
+  }
+  if (!KNOWN_VERSIONS.has(fromVersion)) {
+    throw new EncounterServiceError(`Unknown export version ${fromVersion}`, 'UNSUPPORTED_EXPORT_VERSION', 400);
+  }
+
+  const data: ExportRecord = JSON.parse(JSON.stringify(raw));
+  const notes: string[] = [];
+  let current = fromVersion;
+
+  for (const step of UPGRADE_STEPS) {
+    if (step.from !== current) continue;
+    notes.push(`Upgraded from export version ${step.from} to ${step.to}`, ...step.upgrade(data));
+    current = step.to;
+  }
+
+  data.metadata.version = current;
+  return { data, fromVersion, notes };
+}
+
+/**
+ * JSON Schema describing export files at the current version
+ */
+export function getExportJsonSchema(): Record<string, unknown> {
+  return {
+    $schema: 'https://json-schema.org/draft/2020-12/schema',
+    ...toJsonSchema(encounterExportSchema),
+    $id: `encounter-export-${CURRENT_EXPORT_VERSION}`,
+    title: `Encounter export ${CURRENT_EXPORT_VERSION}`,
+  };
+}
@@ -4,60 +4,227 @@
 
 import crypto from 'crypto';
 import type { ServiceResult } from '../UserServiceErrors';
-import { handleEncounterServiceError } from '../EncounterServiceErrors';
+import { EncounterServiceError, handleEncounterServiceError } from '../EncounterServiceErrors';
+import { CollaboratorService } from '../CollaboratorService';
 import { Encounter } from '@/lib/models/encounter';
+import type { IEncounter, IParticipantReference } from '@/lib/models/encounter/interfaces';
+import { EncounterShare, type IEncounterShare, type ShareScope } from '@/lib/models/EncounterShare';
+import { buildPlayerCombatView, type PlayerCombatView } from '@/lib/realtime/player-view';
 import { Types } from 'mongoose';
 
-import type { EncounterExportData } from './types';
+import { encounterExportSchema, type EncounterExportData } from './types';
 import { prepareExportData } from './dataBuilder';
+import { processImportData } from './importProcessor';
 import {SESSION_TIMEOUTS} from "@/lib/constants/session-constants";
 
+/**
+ * A share link as listed on the encounter it belongs to
+ */
+export interface EncounterShareLink {
+  id: string;
+  url: string;
+  scope: ShareScope;
+  status: ShareLinkStatus;
+  expiresAt: Date;
+  createdAt: Date;
+  revokedAt?: Date;
+}
+
+export type ShareLinkStatus = 'active' | 'expired' | 'revoked';
+
+/**
+ * Encounter details shown through read-only and template links; notes and
+ * hidden participants stay private
+ */
+export interface SharedEncounterSummary {
+  name: string;
+  description: string;
+  tags: string[];
+  difficulty?: IEncounter['difficulty'];
+  estimatedDuration?: number;
+  targetLevel?: number;
+  participants: Array<{
+    name: string;
+    type: IParticipantReference['type'];
+    isPlayer: boolean;
+    armorClass: number;
+    maxHitPoints: number;
+    level?: number;
+    challengeRating?: number;
+  }>;
+}
+
+/**
+ * What a share link resolves to, depending on its scope
+ */
+export type SharedEncounterView =
+  | { scope: 'read_only' | 'clone_template'; expiresAt: Date; encounter: SharedEncounterSummary }
+  | { scope: 'player_view'; expiresAt: Date; playerView: PlayerCombatView };
+
 /**
  * Generate shareable encounter link
  */
 export async function generateShareableLink(
   encounterId: string,
   userId: string,
-  expiresIn: number = SESSION_TIMEOUTS.UPDATE_AGE * 1000 // 24 hours
+  expiresIn: number = SESSION_TIMEOUTS.UPDATE_AGE * 1000, // 24 hours
+  scope: ShareScope = 'read_only'
 ): Promise<ServiceResult<string>> {
   try {
-    const encounter = await Encounter.findById(encounterId);
-    if (!encounter) {
-      return {
-        success: false,
-        error: {
-          message: 'Encounter not found',
-          code: 'ENCOUNTER_NOT_FOUND',
-          statusCode: 404,
-        },
-      };
+    const access = await findShareableEncounter(encounterId, userId);
+    if (!access.success) {
+      return { success: false, error: access.error };
+    }
+
+    const share = await EncounterShare.create({
+      token: generateShareToken(),
+      encounterId: new Types.ObjectId(encounterId),
+      createdBy: new Types.ObjectId(userId),
+      scope,
+      expiresAt: new Date(Date.now() + expiresIn),
+    });
+
+    return {
+      success: true,
+      data: buildShareUrl(share.token),
+    };
+  } catch (error) {
+    return handleEncounterServiceError(
+      error,
+      'Failed to generate shareable link',
+      'ENCOUNTER_SHARE_LINK_FAILED'
+    );
+  }
+}
+
+/**
+ * List every share link created for an encounter, newest first
+ */
+export async function listShareLinks(
+  encounterId: string,
+  userId: string
+): Promise<ServiceResult<EncounterShareLink[]>> {
+  try {
+    const access = await findShareableEncounter(encounterId, userId);
+    if (!access.success) {
+      return { success: false, error: access.error };
     }
 
-    // Check if user has permission to share
-    if (encounter.ownerId.toString() !== userId && !encounter.sharedWith.includes(new Types.ObjectId(userId))) {
+    const shares = await EncounterShare.find({ encounterId: new Types.ObjectId(encounterId) })
+      .sort({ createdAt: -1 })
+      .lean();
+
+    return {
+      success: true,
+      data: shares.map(share => toShareLink(share)),
+    };
+  } catch (error) {
+    return handleEncounterServiceError(
+      error,
+      'Failed to list share links',
+      'ENCOUNTER_SHARE_LINKS_FAILED'
+    );
+  }
+}
+
+/**
+ * Move the expiry of a share link to the given time from now
+ */
+export async function extendShareLink(
+  encounterId: string,
+  shareId: string,
+  userId: string,
+  expiresIn: number
+): Promise<ServiceResult<EncounterShareLink>> {
+  return updateShareLink(encounterId, shareId, userId, share => {
+    if (share.revoked) {
+      throw new EncounterServiceError('A revoked share link cannot be extended', 'SHARE_LINK_REVOKED', 409);
+    }
+    share.expiresAt = new Date(Date.now() + expiresIn);
+  });
+}
+
+/**
+ * Revoke a share link; the grant is kept so it still shows as revoked
+ */
+export async function revokeShareLink(
+  encounterId: string,
+  shareId: string,
+  userId: string
+): Promise<ServiceResult<EncounterShareLink>> {
+  return updateShareLink(encounterId, shareId, userId, share => {
+    if (!share.revoked) {
+      share.revoked = true;
+      share.revokedAt = new Date();
+    }
+  });
+}
+
+/**
+ * Resolve a share token to the part of the encounter its scope allows
+ */
+export async function resolveSharedEncounter(token: string): Promise<ServiceResult<SharedEncounterView>> {
+  try {
+    const grant = await findActiveGrant(token);
+    if (!grant.success) {
+      return { success: false, error: grant.error };
+    }
+
+    const { share, encounter } = grant.data!;
+    if (share.scope === 'player_view') {
       return {
-        success: false,
-        error: {
-          message: 'You do not have permission to share this encounter',
-          code: 'INSUFFICIENT_PERMISSIONS',
-          statusCode: 403,
-        },
+        success: true,
+        data: { scope: share.scope, expiresAt: share.expiresAt, playerView: buildPlayerCombatView(encounter) },
       };
     }
 
-    // Generate sharing token and URL
-    const shareToken = generateShareToken(encounterId, userId, expiresIn);
-    const shareUrl = `${process.env.NEXT_PUBLIC_BASE_URL || 'http://localhost:3000'}/encounters/shared/${shareToken}`;
-
     return {
       success: true,
-      data: shareUrl,
+      data: { scope: share.scope, expiresAt: share.expiresAt, encounter: summarizeSharedEncounter(encounter) },
     };
   } catch (error) {
     return handleEncounterServiceError(
       error,
-      'Failed to generate shareable link',
-      'ENCOUNTER_SHARE_LINK_FAILED'
+      'Failed to open shared encounter',
+      'SHARED_ENCOUNTER_FAILED'
+    );
+  }
+}
+
+/**
+ * Copy the encounter behind a template link into the user's own encounters
+ */
+export async function cloneSharedEncounter(
+  token: string,
+  userId: string,
+  name?: string
+): Promise<ServiceResult<IEncounter>> {
+  try {
+    const grant = await findActiveGrant(token);
+    if (!grant.success) {
+      return { success: false, error: grant.error };
+    }
+
+    const { share, encounter } = grant.data!;
+    if (share.scope !== 'clone_template') {
+      return shareError('This share link does not allow copying the encounter', 'SHARE_SCOPE_DENIED', 403);
+    }
+
+    const template = await createTemplate(
+      encounter._id.toString(),
+      share.createdBy.toString(),
+      name || encounter.name
+    );
+    if (!template.success) {
+      return { success: false, error: template.error };
+    }
+
+    return await processImportData(encounterExportSchema.parse(template.data), { ownerId: userId });
+  } catch (error) {
+    return handleEncounterServiceError(
+      error,
+      'Failed to copy shared encounter',
+      'SHARED_ENCOUNTER_CLONE_FAILED'
     );
   }
 }
@@ -122,25 +289,146 @@ export async function createTemplate(
 }
 
 /**
- * Generate sharing token for encounter links
+ * Checks that the encounter exists and the user (owner or co-DM) may manage its share links
  */
-function generateShareToken(encounterId: string, userId: string, expiresIn: number): string {
-  const payload = {
-    encounterId,
-    userId,
-    expiresAt: Date.now() + expiresIn,
+async function findShareableEncounter(
+  encounterId: string,
+  userId: string
+): Promise<ServiceResult<IEncounter>> {
+  const encounter = await Encounter.findById(encounterId);
+  if (!encounter) {
+    return shareError('Encounter not found', 'ENCOUNTER_NOT_FOUND', 404);
+  }
+
+  if (!(await CollaboratorService.hasPermission('encounter', encounter, userId, 'edit'))) {
+    return shareError('You do not have permission to share this encounter', 'INSUFFICIENT_PERMISSIONS', 403);
+  }
+
+  return { success: true, data: encounter };
+}
+
+/**
+ * Loads a share grant of the encounter, applies a change and saves it
+ */
+async function updateShareLink(
+  encounterId: string,
+  shareId: string,
+  userId: string,
+  change: (_share: IEncounterShare) => void
+): Promise<ServiceResult<EncounterShareLink>> {
+  try {
+    const access = await findShareableEncounter(encounterId, userId);
+    if (!access.success) {
+      return { success: false, error: access.error };
+    }
+
+    const share = await EncounterShare.findById(shareId);
+    if (!share || share.encounterId.toString() !== encounterId) {
+      return shareError('Share link not found', 'SHARE_LINK_NOT_FOUND', 404);
+    }
+
+    change(share);
+    await share.save();
+
+    return { success: true, data: toShareLink(share) };
+  } catch (error) {
+    return handleEncounterServiceError(
+      error,
+      'Failed to update share link',
+      'ENCOUNTER_SHARE_LINK_UPDATE_FAILED'
+    );
+  }
+}
+
+/**
+ * Finds the grant for a token along with its encounter, refusing revoked
+ * and expired links
+ */
+async function findActiveGrant(
+  token: string
+): Promise<ServiceResult<{ share: IEncounterShare; encounter: IEncounter }>> {
+  const share = await EncounterShare.findOne({ token });
+  if (!share) {
+    return shareError('Share link not found', 'SHARE_LINK_NOT_FOUND', 404);
+  }
+
+  const status = getShareLinkStatus(share);
+  if (status === 'revoked') {
+    return shareError('This share link has been revoked', 'SHARE_LINK_REVOKED', 410);
+  }
+  if (status === 'expired') {
+    return shareError('This share link has expired', 'SHARE_LINK_EXPIRED', 410);
+  }
+
+  const encounter = await Encounter.findById(share.encounterId);
+  if (!encounter) {
+    return shareError('Encounter not found', 'ENCOUNTER_NOT_FOUND', 404);
+  }
+
+  return { success: true, data: { share, encounter } };
+}
+
+/**
+ * Whether a share link can still be used
+ */
+export function getShareLinkStatus(
+  share: Pick<IEncounterShare, 'revoked' | 'expiresAt'>,
+  now: Date = new Date()
+): ShareLinkStatus {
+  if (share.revoked) return 'revoked';
+  return new Date(share.expiresAt).getTime() <= now.getTime() ? 'expired' : 'active';
+}
+
+function toShareLink(
+  share: Pick<IEncounterShare, '_id' | 'token' | 'scope' | 'revoked' | 'expiresAt' | 'createdAt' | 'revokedAt'>
+): EncounterShareLink {
+  return {
+    id: share._id.toString(),
+    url: buildShareUrl(share.token),
+    scope: share.scope,
+    status: getShareLinkStatus(share),
+    expiresAt: share.expiresAt,
+    createdAt: share.createdAt,
+    ...(share.revokedAt && { revokedAt: share.revokedAt }),
+  };
+}
+
+function summarizeSharedEncounter(encounter: IEncounter): SharedEncounterSummary {
+  return {
+    name: encounter.name,
+    description: encounter.description,
+    tags: encounter.tags ?? [],
+    difficulty: encounter.difficulty,
+    estimatedDuration: encounter.estimatedDuration,
+    targetLevel: encounter.targetLevel,
+    participants: encounter.participants
+      .filter(participant => participant.isVisible)
+      .map(participant => ({
+        name: participant.name,
+        type: participant.type,
+        isPlayer: participant.isPlayer,
+        armorClass: participant.armorClass,
+        maxHitPoints: participant.maxHitPoints,
+        level: participant.level,
+        challengeRating: participant.challengeRating,
+      })),
   };
+}
 
-  // Use cryptographically secure random bytes for token
-  const randomBytes = crypto.randomBytes(32);
-  const payloadString = JSON.stringify(payload);
+function shareError<T>(message: string, code: string, statusCode: number): ServiceResult<T> {
+  return {
+    success: false,
+    error: { message, code, statusCode },
+  };
+}
 
-  // Create HMAC with random key for security
-  const hmac = crypto.createHmac('sha256', randomBytes);
-  hmac.update(payloadString);
-  const signature = hmac.digest('hex');
+function buildShareUrl(token: string): string {
+  return `${process.env.NEXT_PUBLIC_BASE_URL || 'http://localhost:3000'}/encounters/shared/${token}`;
+}
 
-  // Combine payload and signature
-  const token = Buffer.from(payloadString).toString('base64') + '.' + signature;
-  return token.replace(/[+/=]/g, '').slice(0, 64);
+/**
+ * Generate a random, URL-safe token for a share link
+ */
+function generateShareToken(): string {
+  return crypto.randomBytes(24).toString('base64url');
 }
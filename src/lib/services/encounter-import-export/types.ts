@@ -3,11 +3,27 @@
  */
 
 import { z } from 'zod';
+import type { ConditionSummary } from '@/lib/utils/conditions';
+import { DND_VALIDATION_RANGES } from '@/lib/models/shared/schema-utils';
+
+const INITIATIVE_RANGE = DND_VALIDATION_RANGES.INITIATIVE;
+
+/**
+ * Version written to new export files. Files from older versions are brought
+ * up to this version by the upgrade chain in schemaUpgrades.ts before they
+ * are validated; bump it together with a new upgrade step whenever the
+ * export shape changes.
+ */
+export const CURRENT_EXPORT_VERSION = '1.1.0';
 
 /**
- * Export formats supported by the import/export system
+ * Export formats supported by the import/export system. Besides our own JSON
+ * and XML, encounters can be exchanged with Foundry VTT (dnd5e actor and
+ * combat JSON) and Fight Club 5 / Game Master 5 (compendium XML).
  */
-export type ExportFormat = 'json' | 'xml';
+export const EXPORT_FORMATS = ['json', 'xml', 'foundry', 'fightclub'] as const;
+
+export type ExportFormat = (typeof EXPORT_FORMATS)[number];
 
 /**
  * Export options for customizing export behavior
@@ -29,6 +45,11 @@ export interface ImportOptions {
   overwriteExisting?: boolean;
 }
 
+/**
+ * Condition as written to export files; participant references are omitted
+ */
+export type ExportedCondition = ConditionSummary;
+
 /**
  * Comprehensive encounter export data structure
  */
@@ -90,8 +111,13 @@ export interface EncounterExportData {
       isPlayer: boolean;
       isVisible: boolean;
       notes: string;
-      conditions: string[];
+      conditions: ExportedCondition[];
       position?: { x: number; y: number };
+      challengeRating?: number;
+      damageResistances?: string[];
+      damageVulnerabilities?: string[];
+      damageImmunities?: string[];
+      conditionImmunities?: string[];
     }>;
     characterSheets?: Array<{
       id: string;
@@ -159,14 +185,38 @@ export interface EncounterExportData {
 }
 
 /**
- * Schema for validating encounter export data
+ * Encounter details read from another tool's file, before our encounter
+ * defaults are applied
+ */
+export interface ImportedEncounterSource {
+  name?: string;
+  description?: string;
+  tags?: string[];
+  participants: Array<Omit<EncounterExportData['encounter']['participants'][number], 'id'>>;
+}
+
+/**
+ * Schema for an exported condition; values are normalized on import
+ */
+const exportedConditionSchema = z.object({
+  name: z.string().max(50),
+  level: z.number().optional(),
+  expiry: z.string().max(20).optional(),
+  roundsRemaining: z.number().optional(),
+  saveDC: z.number().optional(),
+  saveAbility: z.string().max(20).optional(),
+});
+
+/**
+ * Schema for validating encounter export data at the current version. Written
+ * with zod v4 so the published JSON Schema is generated from this definition.
  */
 export const encounterExportSchema = z.object({
   metadata: z.object({
     exportedAt: z.string(),
     exportedBy: z.string(),
-    format: z.enum(['json', 'xml']),
-    version: z.string(),
+    format: z.enum(EXPORT_FORMATS),
+    version: z.literal(CURRENT_EXPORT_VERSION),
     appVersion: z.string(),
   }),
   encounter: z.object({
@@ -199,7 +249,7 @@ export const encounterExportSchema = z.object({
       endedAt: z.string().optional(),
       initiativeOrder: z.array(z.object({
         participantId: z.string(),
-        initiative: z.number().min(1).max(30),
+        initiative: z.number().min(INITIATIVE_RANGE.min).max(INITIATIVE_RANGE.max),
         dexterity: z.number().min(1).max(30),
         isActive: z.boolean(),
         hasActed: z.boolean(),
@@ -215,15 +265,20 @@ export const encounterExportSchema = z.object({
       currentHitPoints: z.number().min(-999).max(999),
       temporaryHitPoints: z.number().min(0).max(999),
       armorClass: z.number().min(1).max(30),
-      initiative: z.number().min(1).max(30).optional(),
+      initiative: z.number().min(INITIATIVE_RANGE.min).max(INITIATIVE_RANGE.max).optional(),
       isPlayer: z.boolean(),
       isVisible: z.boolean(),
       notes: z.string().max(500),
-      conditions: z.array(z.string().max(50)).max(20),
+      conditions: z.array(exportedConditionSchema).max(20),
       position: z.object({
         x: z.number().min(0),
         y: z.number().min(0),
       }).optional(),
+      challengeRating: z.number().min(0).max(30).optional(),
+      damageResistances: z.array(z.string().max(100)).max(20).optional(),
+      damageVulnerabilities: z.array(z.string().max(100)).max(20).optional(),
+      damageImmunities: z.array(z.string().max(100)).max(20).optional(),
+      conditionImmunities: z.array(z.string().max(50)).max(20).optional(),
     })).max(50),
     characterSheets: z.array(z.object({
       id: z.string(),
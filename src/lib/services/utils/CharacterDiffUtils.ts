@@ -0,0 +1,131 @@
+/**
+ * Character Diff Utility
+ *
+ * Computes field-level differences between two states of a character.
+ * Nested objects are compared field by field using dot paths, while arrays
+ * are compared as a whole so list edits stay a single change.
+ */
+
+import type { CharacterFieldChange } from '../../models/CharacterRevision';
+
+export type CharacterSnapshot = Record<string, unknown>;
+
+/**
+ * Bookkeeping fields that are never versioned
+ */
+const UNTRACKED_FIELDS = new Set([
+  '_id',
+  '__v',
+  'ownerId',
+  'createdAt',
+  'updatedAt',
+  'isDeleted',
+  'deletedAt',
+  'undoToken',
+  'undoExpiresAt',
+]);
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+export class CharacterDiffUtils {
+
+  /**
+   * Helper to flatten nested objects into dot paths - arrays and primitives are leaves
+   */
+  private static flatten(value: Record<string, unknown>, prefix: string, into: CharacterSnapshot): CharacterSnapshot {
+    for (const [key, nested] of Object.entries(value)) {
+      const path = prefix ? `${prefix}.${key}` : key;
+      if (isPlainObject(nested) && Object.keys(nested).length > 0) {
+        this.flatten(nested, path, into);
+      } else {
+        into[path] = nested;
+      }
+    }
+    return into;
+  }
+
+  /**
+   * Flattened, JSON-safe copy of a character document or plain object
+   */
+  static snapshot(character: unknown): CharacterSnapshot {
+    const plain = JSON.parse(JSON.stringify(character ?? {})) as Record<string, unknown>;
+    const tracked = Object.fromEntries(
+      Object.entries(plain).filter(([key]) => !UNTRACKED_FIELDS.has(key))
+    );
+    return this.flatten(tracked, '', {});
+  }
+
+  /**
+   * Changes that turn one snapshot into another, in a stable field order
+   */
+  static diff(before: CharacterSnapshot, after: CharacterSnapshot): CharacterFieldChange[] {
+    const fields = [...new Set([...Object.keys(before), ...Object.keys(after)])].sort();
+
+    return fields
+      .filter(field => JSON.stringify(before[field]) !== JSON.stringify(after[field]))
+      .map(field => ({
+        field,
+        ...(before[field] !== undefined && { from: before[field] }),
+        ...(after[field] !== undefined && { to: after[field] }),
+      }));
+  }
+
+  /**
+   * Collapse consecutive change sets into one, keeping each field's first
+   * `from` and last `to` and dropping fields that ended where they started
+   */
+  static combine(changeSets: CharacterFieldChange[][]): CharacterFieldChange[] {
+    const combined = new Map<string, CharacterFieldChange>();
+
+    for (const change of changeSets.flat()) {
+      const existing = combined.get(change.field);
+      combined.set(change.field, existing ? { ...existing, to: change.to } : { ...change });
+    }
+
+    return [...combined.values()]
+      .filter(change => JSON.stringify(change.from) !== JSON.stringify(change.to))
+      .sort((a, b) => a.field.localeCompare(b.field));
+  }
+
+  /**
+   * Short human-readable summary of a change set
+   */
+  static describe(changes: CharacterFieldChange[]): string {
+    if (changes.length === 0) {
+      return 'No changes';
+    }
+
+    const [first] = changes;
+    const isSimple = (value: unknown) => value === undefined || !isPlainObject(value) && !Array.isArray(value);
+    if (changes.length === 1 && isSimple(first.from) && isSimple(first.to)) {
+      return `Changed ${first.field} from ${first.from ?? 'nothing'} to ${first.to ?? 'nothing'}`;
+    }
+
+    const named = changes.slice(0, 3).map(change => change.field).join(', ');
+    const remaining = changes.length - 3;
+    return remaining > 0 ? `Updated ${named} and ${remaining} more` : `Updated ${named}`;
+  }
+
+  /**
+   * MongoDB update that applies a change set in the given direction
+   */
+  static toUpdate(changes: CharacterFieldChange[], direction: 'from' | 'to'): Record<string, Record<string, unknown>> {
+    const $set: Record<string, unknown> = {};
+    const $unset: Record<string, ''> = {};
+
+    for (const change of changes) {
+      const value = change[direction];
+      if (value === undefined) {
+        $unset[change.field] = '';
+      } else {
+        $set[change.field] = value;
+      }
+    }
+
+    return {
+      ...(Object.keys($set).length > 0 && { $set }),
+      ...(Object.keys($unset).length > 0 && { $unset }),
+    };
+  }
+}
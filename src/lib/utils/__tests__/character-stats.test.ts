@@ -0,0 +1,224 @@
+import {
+  calculateArmorClass,
+  calculateCarryingCapacity,
+  calculateEquipmentWeight,
+  calculateExperienceInfo,
+  calculatePassivePerception,
+  calculateSpellcasting,
+  getCasterLevel,
+  getLevelForExperience,
+  getSkillAbility,
+  type DerivedStatsCharacter,
+} from '../character-stats';
+
+const createCharacter = (overrides: Partial<DerivedStatsCharacter> = {}): DerivedStatsCharacter => ({
+  size: 'medium',
+  classes: [{ class: 'fighter', level: 1 }],
+  abilityScores: {
+    strength: 10,
+    dexterity: 10,
+    constitution: 10,
+    intelligence: 10,
+    wisdom: 10,
+    charisma: 10,
+  },
+  proficiencyBonus: 2,
+  skills: {},
+  equipment: [],
+  ...overrides,
+});
+
+describe('character-stats', () => {
+  describe('calculateSpellcasting', () => {
+    it('uses the class spellcasting ability for save DC and attack bonus', () => {
+      const wizard = createCharacter({
+        classes: [{ class: 'wizard', level: 5 }],
+        abilityScores: { ...createCharacter().abilityScores, intelligence: 18 },
+        proficiencyBonus: 3,
+      });
+
+      expect(calculateSpellcasting(wizard)).toEqual({
+        casterLevel: 5,
+        spellSlots: { 1: 4, 2: 3, 3: 2 },
+        spellAttackBonus: 7,
+        spellSaveDC: 15,
+        classes: [{ class: 'wizard', ability: 'intelligence', spellSaveDC: 15, spellAttackBonus: 7 }],
+      });
+    });
+
+    it('reports no slots for non-casters', () => {
+      expect(calculateSpellcasting(createCharacter())).toEqual({
+        casterLevel: 0,
+        spellSlots: {},
+        spellAttackBonus: 0,
+        spellSaveDC: 8,
+        classes: [],
+      });
+    });
+
+    it('rounds up single-class half and third casters but down when multiclassing', () => {
+      expect(getCasterLevel([{ class: 'paladin', level: 5 }])).toBe(3);
+      expect(getCasterLevel([{ class: 'paladin', level: 1 }])).toBe(0);
+      expect(getCasterLevel([{ class: 'rogue', level: 7, subclass: 'Arcane Trickster' }])).toBe(3);
+      expect(getCasterLevel([{ class: 'rogue', level: 7, subclass: 'Thief' }])).toBe(0);
+      expect(getCasterLevel([
+        { class: 'paladin', level: 5 },
+        { class: 'sorcerer', level: 3 },
+      ])).toBe(5);
+      expect(getCasterLevel([
+        { class: 'fighter', level: 5, subclass: 'Eldritch Knight' },
+        { class: 'ranger', level: 3 },
+        { class: 'artificer', level: 3 },
+      ])).toBe(4);
+    });
+
+    it('uses the multiclass slot table and keeps Pact Magic separate', () => {
+      const character = createCharacter({
+        classes: [{ class: 'cleric', level: 3 }, { class: 'warlock', level: 5 }],
+        abilityScores: { ...createCharacter().abilityScores, wisdom: 16, charisma: 14 },
+        proficiencyBonus: 3,
+      });
+
+      const result = calculateSpellcasting(character);
+
+      expect(result.casterLevel).toBe(3);
+      expect(result.spellSlots).toEqual({ 1: 4, 2: 2 });
+      expect(result.pactMagic).toEqual({ slots: 2, slotLevel: 3 });
+      expect(result.spellSaveDC).toBe(14);
+      expect(result.classes.map(entry => entry.spellSaveDC)).toEqual([14, 13]);
+    });
+  });
+
+  describe('equipment weight and carrying capacity', () => {
+    const equipment = [
+      { name: 'Chain Mail', quantity: 1, weight: 55, equipped: true },
+      { name: 'Arrows', quantity: 20, weight: 0.05, equipped: false },
+      { name: 'Rations', quantity: 5, weight: 2, equipped: false },
+    ];
+
+    it('multiplies weight by quantity and splits equipped from carried', () => {
+      expect(calculateEquipmentWeight(createCharacter({ equipment }))).toEqual({
+        total: 66,
+        equipped: 55,
+        carried: 11,
+      });
+    });
+
+    it('scales capacity with size', () => {
+      const strength = { ...createCharacter().abilityScores, strength: 10 };
+      expect(calculateCarryingCapacity(createCharacter({ abilityScores: strength, size: 'tiny' })).maximum).toBe(75);
+      expect(calculateCarryingCapacity(createCharacter({ abilityScores: strength, size: 'large' }))).toMatchObject({
+        maximum: 300,
+        pushDragLift: 600,
+      });
+    });
+
+    it('only tracks encumbrance thresholds under the variant rule', () => {
+      const character = createCharacter({ equipment });
+
+      expect(calculateCarryingCapacity(character).encumbranceLevel).toBe('none');
+      expect(calculateCarryingCapacity(character, 'variant')).toMatchObject({
+        maximum: 150,
+        current: 66,
+        encumbranceLevel: 'light',
+        rule: 'variant',
+      });
+      expect(calculateCarryingCapacity(
+        createCharacter({ equipment: [{ name: 'Anvil', weight: 120 }] }),
+        'variant'
+      ).encumbranceLevel).toBe('heavy');
+      expect(calculateCarryingCapacity(
+        createCharacter({ equipment: [{ name: 'Anvil', weight: 160 }] })
+      ).encumbranceLevel).toBe('overloaded');
+    });
+  });
+
+  describe('experience', () => {
+    it('reports XP to the next level', () => {
+      expect(calculateExperienceInfo(createCharacter({
+        classes: [{ class: 'fighter', level: 3 }],
+        experiencePoints: 2000,
+      }))).toEqual({
+        currentXP: 2000,
+        currentLevel: 3,
+        nextLevelXP: 2700,
+        xpToNextLevel: 700,
+        isMaxLevel: false,
+        levelFromXP: 3,
+        canLevelUp: false,
+      });
+    });
+
+    it('flags characters with enough XP to level up', () => {
+      const info = calculateExperienceInfo(createCharacter({ experiencePoints: 900 }));
+
+      expect(info.levelFromXP).toBe(3);
+      expect(info.canLevelUp).toBe(true);
+      expect(info.xpToNextLevel).toBe(0);
+    });
+
+    it('stops at level 20', () => {
+      expect(getLevelForExperience(400000)).toBe(20);
+      expect(calculateExperienceInfo(createCharacter({
+        classes: [{ class: 'wizard', level: 20 }],
+        experiencePoints: 400000,
+      }))).toMatchObject({ isMaxLevel: true, xpToNextLevel: 0, canLevelUp: false });
+    });
+  });
+
+  describe('calculateArmorClass', () => {
+    const scores = { ...createCharacter().abilityScores, dexterity: 16, constitution: 14, wisdom: 16 };
+
+    it('caps dexterity for medium armor and adds magic bonuses and shields', () => {
+      expect(calculateArmorClass(createCharacter({
+        abilityScores: scores,
+        equipment: [
+          { name: 'Half Plate +1', equipped: true },
+          { name: 'Shield', equipped: true },
+        ],
+      }))).toEqual({ value: 20, source: 'armor', armor: 'Half Plate +1', shield: true });
+    });
+
+    it('ignores armor that is not equipped and tells studded leather from leather', () => {
+      expect(calculateArmorClass(createCharacter({
+        abilityScores: scores,
+        equipment: [
+          { name: 'Plate Armor', equipped: false },
+          { name: 'Studded Leather', equipped: true },
+        ],
+      })).value).toBe(15);
+    });
+
+    it('applies Unarmored Defense for barbarians and monks', () => {
+      expect(calculateArmorClass(createCharacter({ abilityScores: scores, classes: [{ class: 'barbarian', level: 1 }] })))
+        .toEqual({ value: 15, source: 'unarmored defense', shield: false });
+      expect(calculateArmorClass(createCharacter({ abilityScores: scores, classes: [{ class: 'monk', level: 1 }] })).value)
+        .toBe(16);
+      expect(calculateArmorClass(createCharacter({ abilityScores: scores })))
+        .toEqual({ value: 13, source: 'unarmored', shield: false });
+    });
+  });
+
+  describe('passive perception', () => {
+    it('adds proficiency when proficient in Perception, whatever the key format', () => {
+      const scores = { ...createCharacter().abilityScores, wisdom: 14 };
+
+      expect(calculatePassivePerception(createCharacter({ abilityScores: scores }))).toBe(12);
+      expect(calculatePassivePerception(createCharacter({
+        abilityScores: scores,
+        skills: new Map([['Perception', true]]),
+      }))).toBe(14);
+      expect(calculatePassivePerception(createCharacter({
+        abilityScores: scores,
+        skills: { perception: true },
+      }))).toBe(14);
+    });
+
+    it('maps every skill to its ability', () => {
+      expect(getSkillAbility('Sleight of Hand')).toBe('dexterity');
+      expect(getSkillAbility('animalHandling')).toBe('wisdom');
+      expect(getSkillAbility('persuasion')).toBe('charisma');
+      expect(getSkillAbility('underwater basket weaving')).toBeUndefined();
+    });
+  });
+});
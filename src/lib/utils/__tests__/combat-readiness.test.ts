@@ -0,0 +1,44 @@
+import { checkDifficulty } from '../combat-readiness';
+import { calculateDifficultyBreakdown } from '../encounter-difficulty';
+
+describe('checkDifficulty', () => {
+  it('reports the rating, adjusted XP and daily budget usage', () => {
+    const check = checkDifficulty(
+      calculateDifficultyBreakdown({ characterLevels: [1, 1, 1, 1], challengeRatings: [0.25, 0.25] })
+    );
+
+    expect(check).toEqual({
+      category: 'Difficulty',
+      status: 'ready',
+      message: 'Easy encounter (150 adjusted XP)',
+      details: "Uses 13% of the party's daily XP budget",
+    });
+  });
+
+  it('warns about deadly encounters', () => {
+    const check = checkDifficulty(
+      calculateDifficultyBreakdown({ characterLevels: [1], challengeRatings: [3] })
+    );
+
+    expect(check.status).toBe('warning');
+    expect(check.message).toMatch(/^Deadly encounter/);
+  });
+
+  it('does not rate or warn about difficulty without player characters', () => {
+    const check = checkDifficulty(
+      calculateDifficultyBreakdown({ characterLevels: [], challengeRatings: [5, 5] })
+    );
+
+    expect(check.status).toBe('ready');
+    expect(check.message).toBe('Difficulty not rated');
+  });
+
+  it('warns when participants have no challenge rating', () => {
+    const check = checkDifficulty(
+      calculateDifficultyBreakdown({ characterLevels: [5], challengeRatings: [1], unratedCount: 2 })
+    );
+
+    expect(check.status).toBe('warning');
+    expect(check.details).toBe('2 participant(s) without a challenge rating are not counted');
+  });
+});
@@ -0,0 +1,67 @@
+import {
+  describeConditionExpiry,
+  formatConditionName,
+  getConditionEffects,
+  isImmuneToCondition,
+  normalizeCondition,
+} from '../conditions';
+
+describe('conditions', () => {
+  describe('isImmuneToCondition', () => {
+    it('matches whole condition names in statblock entries', () => {
+      expect(isImmuneToCondition(['Charmed, Frightened'], 'frightened')).toBe(true);
+      expect(isImmuneToCondition(['exhaustion'], 'poisoned')).toBe(false);
+      expect(isImmuneToCondition(undefined, 'prone')).toBe(false);
+    });
+  });
+
+  describe('getConditionEffects', () => {
+    it('lists every exhaustion level reached', () => {
+      expect(getConditionEffects({ name: 'exhaustion', level: 2 })).toEqual([
+        'Level 1: disadvantage on ability checks',
+        'Level 2: speed halved',
+      ]);
+    });
+  });
+
+  describe('formatConditionName', () => {
+    it('capitalizes names and appends the exhaustion level', () => {
+      expect(formatConditionName({ name: 'poisoned' })).toBe('Poisoned');
+      expect(formatConditionName({ name: 'exhaustion', level: 3 })).toBe('Exhaustion 3');
+    });
+  });
+
+  describe('describeConditionExpiry', () => {
+    it('describes each kind of expiry', () => {
+      expect(describeConditionExpiry({ name: 'prone', expiry: 'indefinite' })).toBeNull();
+      expect(describeConditionExpiry({ name: 'prone', expiry: 'rounds', roundsRemaining: 1 })).toBe('1 round');
+      expect(describeConditionExpiry({ name: 'prone', expiry: 'turn_end' })).toBe('until end of turn');
+      expect(
+        describeConditionExpiry({ name: 'charmed', expiry: 'save', saveDC: 13, saveAbility: 'wisdom' })
+      ).toBe('DC 13 WIS save');
+      expect(
+        describeConditionExpiry({ name: 'charmed', expiry: 'save', saveDC: 13, savePending: true })
+      ).toBe('DC 13 save due');
+    });
+  });
+
+  describe('normalizeCondition', () => {
+    it('converts legacy free-text conditions', () => {
+      expect(normalizeCondition(' Poisoned ')).toEqual({ name: 'poisoned', expiry: 'indefinite' });
+      expect(normalizeCondition('concentrating')).toBeNull();
+    });
+
+    it('clamps imported values', () => {
+      expect(normalizeCondition({ name: 'exhaustion', level: 9, expiry: 'forever' })).toEqual({
+        name: 'exhaustion',
+        level: 6,
+        expiry: 'indefinite',
+      });
+      expect(normalizeCondition({ name: 'stunned', expiry: 'rounds', roundsRemaining: 0 })).toEqual({
+        name: 'stunned',
+        expiry: 'rounds',
+        roundsRemaining: 1,
+      });
+    });
+  });
+});
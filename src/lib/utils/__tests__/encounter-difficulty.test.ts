@@ -0,0 +1,125 @@
+import {
+  calculateDifficultyBreakdown,
+  getDailyXPBudget,
+  getDifficultyInput,
+  getEncounterMultiplier,
+  getPartyThresholds,
+  getXPForChallengeRating,
+} from '../encounter-difficulty';
+
+describe('encounter-difficulty', () => {
+  describe('getXPForChallengeRating', () => {
+    it('returns XP for whole and fractional challenge ratings', () => {
+      expect(getXPForChallengeRating(0)).toBe(10);
+      expect(getXPForChallengeRating(0.25)).toBe(50);
+      expect(getXPForChallengeRating(5)).toBe(1800);
+      expect(getXPForChallengeRating(30)).toBe(155000);
+    });
+  });
+
+  describe('getPartyThresholds', () => {
+    it('sums the thresholds of every character', () => {
+      expect(getPartyThresholds([1, 1, 1, 1])).toEqual({
+        easy: 100,
+        medium: 200,
+        hard: 300,
+        deadly: 400,
+      });
+    });
+
+    it('clamps levels outside 1-20', () => {
+      expect(getPartyThresholds([25])).toEqual(getPartyThresholds([20]));
+      expect(getPartyThresholds([0])).toEqual(getPartyThresholds([1]));
+    });
+  });
+
+  describe('getEncounterMultiplier', () => {
+    it.each([
+      [1, 4, 1],
+      [2, 4, 1.5],
+      [4, 4, 2],
+      [8, 4, 2.5],
+      [12, 4, 3],
+      [15, 4, 4],
+    ])('uses the standard multiplier for %i monsters', (monsters, partySize, expected) => {
+      expect(getEncounterMultiplier(monsters, partySize)).toBe(expected);
+    });
+
+    it('shifts the multiplier for small and large parties', () => {
+      expect(getEncounterMultiplier(1, 2)).toBe(1.5);
+      expect(getEncounterMultiplier(15, 1)).toBe(5);
+      expect(getEncounterMultiplier(1, 6)).toBe(0.5);
+    });
+  });
+
+  describe('calculateDifficultyBreakdown', () => {
+    it('leaves the difficulty unknown without player characters', () => {
+      const breakdown = calculateDifficultyBreakdown({ characterLevels: [], challengeRatings: [5] });
+
+      expect(breakdown).toMatchObject({ difficulty: 'unknown', totalXP: 1800, dailyBudgetPercentage: 0 });
+    });
+
+    it('rates an easy encounter for a level 1 party', () => {
+      const breakdown = calculateDifficultyBreakdown({
+        characterLevels: [1, 1, 1, 1],
+        challengeRatings: [0.25, 0.25],
+      });
+
+      expect(breakdown).toMatchObject({
+        difficulty: 'easy',
+        monsterCount: 2,
+        totalXP: 100,
+        multiplier: 1.5,
+        adjustedXP: 150,
+        dailyBudget: 1200,
+        dailyBudgetPercentage: 13,
+      });
+    });
+
+    it('rates a deadly encounter', () => {
+      const breakdown = calculateDifficultyBreakdown({
+        characterLevels: [3, 3, 3, 3],
+        challengeRatings: [5],
+      });
+
+      expect(breakdown.difficulty).toBe('deadly');
+    });
+
+    it('rates an empty encounter as trivial', () => {
+      const breakdown = calculateDifficultyBreakdown({
+        characterLevels: [5],
+        challengeRatings: [],
+      });
+
+      expect(breakdown.difficulty).toBe('trivial');
+      expect(breakdown.adjustedXP).toBe(0);
+    });
+  });
+
+  describe('getDifficultyInput', () => {
+    const participants = [
+      { isPlayer: true, level: 4 },
+      { isPlayer: true },
+      { isPlayer: false, challengeRating: 1 },
+      { isPlayer: false },
+    ];
+
+    it('falls back to the target level and counts unrated participants', () => {
+      expect(getDifficultyInput(participants, 2)).toEqual({
+        characterLevels: [4, 2],
+        challengeRatings: [1],
+        unratedCount: 1,
+      });
+    });
+
+    it('uses resolved levels when provided', () => {
+      expect(getDifficultyInput(participants, 2, [7, 7, 7]).characterLevels).toEqual([7, 7, 7]);
+    });
+  });
+
+  describe('getDailyXPBudget', () => {
+    it('sums the adventuring day XP per character', () => {
+      expect(getDailyXPBudget([5, 5])).toBe(7000);
+    });
+  });
+});
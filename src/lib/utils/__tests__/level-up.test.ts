@@ -0,0 +1,99 @@
+import {
+  calculateHitPointGain,
+  calculateLevelUpHitPoints,
+  getLevelUpOptions,
+  getMissingPrerequisite,
+  getProficiencyBonus,
+  getSubclassLevel,
+  isAbilityScoreImprovementLevel,
+  type LevelUpCharacter,
+} from '../level-up';
+
+const abilityScores = {
+  strength: 15,
+  dexterity: 12,
+  constitution: 14,
+  intelligence: 10,
+  wisdom: 13,
+  charisma: 8,
+};
+
+const createCharacter = (overrides: Partial<LevelUpCharacter> = {}): LevelUpCharacter => ({
+  classes: [{ class: 'fighter', level: 3, hitDie: 10, subclass: 'Champion' }],
+  abilityScores,
+  ...overrides,
+});
+
+describe('level-up', () => {
+  it('raises the proficiency bonus every four levels', () => {
+    expect([1, 4, 5, 8, 9, 13, 17, 20].map(getProficiencyBonus)).toEqual([2, 2, 3, 3, 4, 5, 6, 6]);
+  });
+
+  it('knows which class levels grant an Ability Score Improvement', () => {
+    expect(isAbilityScoreImprovementLevel('wizard', 4)).toBe(true);
+    expect(isAbilityScoreImprovementLevel('wizard', 6)).toBe(false);
+    expect(isAbilityScoreImprovementLevel('fighter', 6)).toBe(true);
+    expect(isAbilityScoreImprovementLevel('rogue', 10)).toBe(true);
+  });
+
+  it('knows when each class picks its subclass', () => {
+    expect(getSubclassLevel('cleric')).toBe(1);
+    expect(getSubclassLevel('wizard')).toBe(2);
+    expect(getSubclassLevel('paladin')).toBe(3);
+  });
+
+  it('checks multiclass prerequisites, including alternatives', () => {
+    expect(getMissingPrerequisite(abilityScores, 'fighter')).toBeUndefined();
+    expect(getMissingPrerequisite({ ...abilityScores, strength: 10 }, 'fighter'))
+      .toBe('fighter requires Strength or Dexterity 13');
+    expect(getMissingPrerequisite(abilityScores, 'paladin')).toBe('paladin requires Strength and Charisma 13');
+  });
+
+  it('adds the Constitution modifier to average or rolled hit points, minimum 1', () => {
+    expect(calculateHitPointGain(10, 14, 'average')).toBe(8);
+    expect(calculateHitPointGain(8, 14, 'roll', 3)).toBe(5);
+    expect(calculateHitPointGain(6, 6, 'roll', 1)).toBe(1);
+  });
+
+  it('applies a Constitution increase to the new level and retroactively to earlier levels', () => {
+    expect(calculateLevelUpHitPoints(10, 14, 14, 3, 'average')).toBe(8);
+    expect(calculateLevelUpHitPoints(10, 15, 16, 3, 'average')).toBe(9 + 3);
+    expect(calculateLevelUpHitPoints(10, 14, 15, 3, 'average')).toBe(8);
+  });
+
+  it('lists every class with its eligibility and the choices it needs', () => {
+    const options = getLevelUpOptions(createCharacter());
+    const byClass = Object.fromEntries(options.classes.map(option => [option.class, option]));
+
+    expect(options).toMatchObject({ currentLevel: 3, newLevel: 4, proficiencyBonus: 2 });
+    expect(byClass.fighter).toMatchObject({
+      newLevel: 4,
+      eligible: true,
+      grantsAbilityScoreImprovement: true,
+      unlocksSubclass: false,
+    });
+    expect(byClass.cleric).toMatchObject({ newLevel: 1, isNewClass: true, eligible: true, unlocksSubclass: true });
+    expect(byClass.wizard).toMatchObject({ eligible: false, reason: 'wizard requires Intelligence 13' });
+    expect(options.averageHitPoints.fighter).toBe(8);
+  });
+
+  it('blocks new classes when an existing class misses its own prerequisite', () => {
+    const options = getLevelUpOptions(createCharacter({
+      abilityScores: { ...abilityScores, strength: 10, dexterity: 10 },
+    }));
+
+    expect(options.classes.find(option => option.class === 'cleric')).toMatchObject({
+      eligible: false,
+      reason: 'fighter requires Strength or Dexterity 13',
+    });
+    expect(options.classes.find(option => option.class === 'fighter')?.eligible).toBe(true);
+  });
+
+  it('blocks every class at level 20', () => {
+    const options = getLevelUpOptions(createCharacter({
+      classes: [{ class: 'fighter', level: 20, hitDie: 10, subclass: 'Champion' }],
+    }));
+
+    expect(options.classes.every(option => !option.eligible)).toBe(true);
+  });
+});
@@ -0,0 +1,104 @@
+import {
+  calculateLongRest,
+  calculateShortRest,
+  getHitDicePools,
+  getHitDiceSpendError,
+  type RestCharacter,
+} from '../rest';
+
+const createCharacter = (overrides: Partial<RestCharacter> = {}): RestCharacter => ({
+  name: 'Thorin',
+  classes: [
+    { class: 'fighter', level: 3, hitDie: 10, hitDiceUsed: 1 },
+    { class: 'wizard', level: 2, hitDie: 6 },
+  ],
+  abilityScores: {
+    strength: 16,
+    dexterity: 12,
+    constitution: 14,
+    intelligence: 13,
+    wisdom: 10,
+    charisma: 8,
+  },
+  proficiencyBonus: 3,
+  hitPoints: { maximum: 40, current: 20, temporary: 5 },
+  ...overrides,
+});
+
+describe('rest', () => {
+  it('groups hit dice by die size, largest first', () => {
+    expect(getHitDicePools(createCharacter())).toEqual([
+      { hitDie: 10, total: 3, available: 2 },
+      { hitDie: 6, total: 2, available: 2 },
+    ]);
+  });
+
+  it('explains why hit dice cannot be spent', () => {
+    const character = createCharacter();
+
+    expect(getHitDiceSpendError(character, 4)).toBeNull();
+    expect(getHitDiceSpendError(character, 5)).toBe('Thorin has only 4 hit dice left');
+    expect(getHitDiceSpendError(character, 3, [10, 10, 7])).toBe('Roll 7 is not possible on a d6');
+    expect(getHitDiceSpendError(character, 1, [4, 4])).toBe('Thorin is spending only 1 hit die');
+  });
+
+  it('heals each spent hit die by its roll plus the Constitution modifier on a short rest', () => {
+    const outcome = calculateShortRest(createCharacter(), 3, [6, 1], () => 4);
+
+    expect(outcome.hitDiceSpent).toEqual([
+      { hitDie: 10, roll: 6, healing: 8 },
+      { hitDie: 10, roll: 1, healing: 3 },
+      { hitDie: 6, roll: 4, healing: 6 },
+    ]);
+    expect(outcome.hitPoints).toEqual({ maximum: 40, current: 37, temporary: 5 });
+    expect(outcome.hitPointsRestored).toBe(17);
+    expect(outcome.classes.map(cls => cls.hitDiceUsed)).toEqual([3, 1]);
+  });
+
+  it('does not heal above maximum hit points', () => {
+    const outcome = calculateShortRest(createCharacter({ hitPoints: { maximum: 40, current: 38, temporary: 0 } }), 1, [10]);
+
+    expect(outcome.hitPoints.current).toBe(40);
+    expect(outcome.hitPointsRestored).toBe(2);
+  });
+
+  it('restores short-rest resources on a short rest and everything on a long rest', () => {
+    const character = createCharacter({
+      classes: [{ class: 'warlock', level: 3, hitDie: 8 }, { class: 'wizard', level: 1, hitDie: 6 }],
+      resources: [
+        { id: 'pact-slot', name: 'Pact slots (2nd level)', kind: 'pact_slot', level: 2, max: 2, remaining: 0, recharge: 'short_rest' },
+        { id: 'spell-slot-1', name: '1st-level spell slots', kind: 'spell_slot', level: 1, max: 2, remaining: 0, recharge: 'long_rest' },
+      ],
+    });
+
+    const short = calculateShortRest(character, 0);
+    expect(short.resourcesRestored).toEqual(['Pact slots (2nd level)']);
+    expect(short.resources.find(resource => resource.id === 'spell-slot-1')?.remaining).toBe(0);
+
+    const long = calculateLongRest(character);
+    expect(long.resourcesRestored).toEqual(['1st-level spell slots', 'Pact slots (2nd level)']);
+  });
+
+  it('restores hit points, half the hit dice and one exhaustion level on a long rest', () => {
+    const outcome = calculateLongRest(createCharacter({
+      classes: [
+        { class: 'fighter', level: 3, hitDie: 10, hitDiceUsed: 3 },
+        { class: 'wizard', level: 2, hitDie: 6, hitDiceUsed: 2 },
+      ],
+      exhaustion: 2,
+    }));
+
+    expect(outcome.hitPoints).toEqual({ maximum: 40, current: 40, temporary: 0 });
+    expect(outcome.hitDiceRecovered).toBe(2);
+    expect(outcome.classes.map(cls => cls.hitDiceUsed)).toEqual([1, 2]);
+    expect(outcome.exhaustion).toBe(1);
+  });
+
+  it('recovers at least one hit die', () => {
+    const outcome = calculateLongRest(createCharacter({
+      classes: [{ class: 'rogue', level: 1, hitDie: 8, hitDiceUsed: 1 }],
+    }));
+
+    expect(outcome.hitDiceRecovered).toBe(1);
+  });
+});
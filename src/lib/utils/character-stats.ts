@@ -0,0 +1,473 @@
+/**
+ * Derived character statistics following the Player's Handbook: spellcasting
+ * (including the multiclass spell slot table and Pact Magic), carrying
+ * capacity and encumbrance, equipment weight, experience, armor class from
+ * equipped armor and passive Perception
+ */
+
+export type AbilityName =
+  | 'strength'
+  | 'dexterity'
+  | 'constitution'
+  | 'intelligence'
+  | 'wisdom'
+  | 'charisma';
+
+export type CreatureSize = 'tiny' | 'small' | 'medium' | 'large' | 'huge' | 'gargantuan';
+
+export type EncumbranceRule = 'standard' | 'variant';
+
+export type EncumbranceLevel = 'none' | 'light' | 'heavy' | 'overloaded';
+
+/**
+ * Minimal character shape needed for derived stats, satisfied by both the
+ * database model and the client-side character type
+ */
+export interface DerivedStatsCharacter {
+  size?: CreatureSize;
+  classes: Array<{ class: string; level: number; subclass?: string }>;
+  abilityScores: Record<AbilityName, number>;
+  proficiencyBonus: number;
+  skills?: Map<string, boolean> | Record<string, boolean>;
+  equipment?: Array<{ name: string; quantity?: number; weight?: number; equipped?: boolean }>;
+  experiencePoints?: number;
+}
+
+export interface ClassSpellcasting {
+  class: string;
+  ability: AbilityName;
+  spellSaveDC: number;
+  spellAttackBonus: number;
+}
+
+export interface PactMagic {
+  slots: number;
+  slotLevel: number;
+}
+
+export interface SpellcastingStats {
+  casterLevel: number;
+  spellSlots: Record<number, number>;
+  spellAttackBonus: number;
+  spellSaveDC: number;
+  classes: ClassSpellcasting[];
+  pactMagic?: PactMagic;
+}
+
+export interface CarryingCapacity {
+  maximum: number;
+  current: number;
+  encumbranceLevel: EncumbranceLevel;
+  pushDragLift: number;
+  rule: EncumbranceRule;
+}
+
+export interface EquipmentWeight {
+  total: number;
+  equipped: number;
+  carried: number;
+}
+
+export interface ExperienceInfo {
+  currentXP: number;
+  currentLevel: number;
+  nextLevelXP: number;
+  xpToNextLevel: number;
+  isMaxLevel: boolean;
+  levelFromXP: number;
+  canLevelUp: boolean;
+}
+
+export interface ArmorClassBreakdown {
+  value: number;
+  source: 'armor' | 'unarmored' | 'unarmored defense';
+  armor?: string;
+  shield: boolean;
+}
+
+export const MAX_LEVEL = 20;
+
+// Total XP needed to reach each level, indexed by level - 1
+export const XP_BY_LEVEL = [
+  0, 300, 900, 2700, 6500, 14000, 23000, 34000, 48000, 64000,
+  85000, 100000, 120000, 140000, 165000, 195000, 225000, 265000, 305000, 355000,
+];
+
+// Spell slots per spell level for a full caster, indexed by caster level - 1
+const SPELL_SLOTS_BY_CASTER_LEVEL: number[][] = [
+  [2],
+  [3],
+  [4, 2],
+  [4, 3],
+  [4, 3, 2],
+  [4, 3, 3],
+  [4, 3, 3, 1],
+  [4, 3, 3, 2],
+  [4, 3, 3, 3, 1],
+  [4, 3, 3, 3, 2],
+  [4, 3, 3, 3, 2, 1],
+  [4, 3, 3, 3, 2, 1],
+  [4, 3, 3, 3, 2, 1, 1],
+  [4, 3, 3, 3, 2, 1, 1],
+  [4, 3, 3, 3, 2, 1, 1, 1],
+  [4, 3, 3, 3, 2, 1, 1, 1],
+  [4, 3, 3, 3, 2, 1, 1, 1, 1],
+  [4, 3, 3, 3, 3, 1, 1, 1, 1],
+  [4, 3, 3, 3, 3, 2, 1, 1, 1],
+  [4, 3, 3, 3, 3, 2, 2, 1, 1],
+];
+
+// Warlock Pact Magic slots and slot level, indexed by warlock level - 1
+const PACT_MAGIC_BY_LEVEL: [number, number][] = [
+  [1, 1], [2, 1], [2, 2], [2, 2], [2, 3], [2, 3], [2, 4], [2, 4], [2, 5], [2, 5],
+  [3, 5], [3, 5], [3, 5], [3, 5], [3, 5], [3, 5], [4, 5], [4, 5], [4, 5], [4, 5],
+];
+
+type CasterProgression = 'full' | 'half' | 'artificer' | 'third' | 'pact';
+
+interface CasterClass {
+  ability: AbilityName;
+  progression: CasterProgression;
+  subclass?: string;
+}
+
+const CASTER_CLASSES: Record<string, CasterClass> = {
+  bard: { ability: 'charisma', progression: 'full' },
+  cleric: { ability: 'wisdom', progression: 'full' },
+  druid: { ability: 'wisdom', progression: 'full' },
+  sorcerer: { ability: 'charisma', progression: 'full' },
+  wizard: { ability: 'intelligence', progression: 'full' },
+  paladin: { ability: 'charisma', progression: 'half' },
+  ranger: { ability: 'wisdom', progression: 'half' },
+  artificer: { ability: 'intelligence', progression: 'artificer' },
+  fighter: { ability: 'intelligence', progression: 'third', subclass: 'eldritch knight' },
+  rogue: { ability: 'intelligence', progression: 'third', subclass: 'arcane trickster' },
+  warlock: { ability: 'charisma', progression: 'pact' },
+};
+
+const SIZE_CAPACITY_MULTIPLIERS: Record<CreatureSize, number> = {
+  tiny: 0.5,
+  small: 1,
+  medium: 1,
+  large: 2,
+  huge: 4,
+  gargantuan: 8,
+};
+
+interface ArmorEntry {
+  name: string;
+  baseAC: number;
+  maxDexterity: number | null;
+}
+
+// Longer names first so "studded leather" and "half plate" win over "leather" and "plate"
+const ARMOR_TABLE: ArmorEntry[] = [
+  { name: 'studded leather', baseAC: 12, maxDexterity: null },
+  { name: 'padded', baseAC: 11, maxDexterity: null },
+  { name: 'leather', baseAC: 11, maxDexterity: null },
+  { name: 'hide', baseAC: 12, maxDexterity: 2 },
+  { name: 'chain shirt', baseAC: 13, maxDexterity: 2 },
+  { name: 'scale mail', baseAC: 14, maxDexterity: 2 },
+  { name: 'breastplate', baseAC: 14, maxDexterity: 2 },
+  { name: 'half plate', baseAC: 15, maxDexterity: 2 },
+  { name: 'ring mail', baseAC: 14, maxDexterity: 0 },
+  { name: 'chain mail', baseAC: 16, maxDexterity: 0 },
+  { name: 'splint', baseAC: 17, maxDexterity: 0 },
+  { name: 'plate', baseAC: 18, maxDexterity: 0 },
+];
+
+const SHIELD_BONUS = 2;
+
+const SKILL_ABILITIES: Record<string, AbilityName> = {
+  athletics: 'strength',
+  acrobatics: 'dexterity',
+  sleightofhand: 'dexterity',
+  stealth: 'dexterity',
+  arcana: 'intelligence',
+  history: 'intelligence',
+  investigation: 'intelligence',
+  nature: 'intelligence',
+  religion: 'intelligence',
+  animalhandling: 'wisdom',
+  insight: 'wisdom',
+  medicine: 'wisdom',
+  perception: 'wisdom',
+  survival: 'wisdom',
+  deception: 'charisma',
+  intimidation: 'charisma',
+  performance: 'charisma',
+  persuasion: 'charisma',
+};
+
+/**
+ * Ability modifier for a score
+ */
+export const abilityModifier = (score: number): number => Math.floor((score - 10) / 2);
+
+const roundWeight = (weight: number): number => Math.round(weight * 100) / 100;
+
+const normalizeName = (name: string): string => name.toLowerCase().replace(/[^a-z]/g, '');
+
+const totalLevel = (character: DerivedStatsCharacter): number =>
+  character.classes.reduce((total, cls) => total + cls.level, 0);
+
+/**
+ * Ability a skill is rolled with, accepting "Sleight of Hand", "sleightOfHand" or "sleight_of_hand"
+ */
+export const getSkillAbility = (skill: string): AbilityName | undefined => SKILL_ABILITIES[normalizeName(skill)];
+
+/**
+ * Whether the character is proficient in a skill, however the skill key is written
+ */
+export const isSkillProficient = (character: DerivedStatsCharacter, skill: string): boolean => {
+  const entries = character.skills instanceof Map
+    ? Array.from(character.skills.entries())
+    : Object.entries(character.skills ?? {});
+  const key = normalizeName(skill);
+  return entries.some(([name, proficient]) => proficient && normalizeName(name) === key);
+};
+
+/**
+ * Spellcasting progression a class level contributes, or undefined for non-casters
+ */
+const getCasterClass = (cls: { class: string; subclass?: string }): CasterClass | undefined => {
+  const caster = CASTER_CLASSES[cls.class.toLowerCase()];
+  if (!caster) {
+    return undefined;
+  }
+  if (caster.subclass && !cls.subclass?.toLowerCase().includes(caster.subclass)) {
+    return undefined;
+  }
+  return caster;
+};
+
+/**
+ * Caster level for the spell slot table. A single spellcasting class rounds
+ * its partial progression up once it has slots; multiclass characters add
+ * full levels, half of paladin and ranger levels, a third of Eldritch Knight
+ * and Arcane Trickster levels (rounded down) and half of artificer levels
+ * (rounded up). Warlock levels use Pact Magic instead.
+ */
+export const getCasterLevel = (classes: DerivedStatsCharacter['classes']): number => {
+  const casters = classes
+    .map(cls => ({ level: cls.level, caster: getCasterClass(cls) }))
+    .filter((entry): entry is { level: number; caster: CasterClass } =>
+      entry.caster !== undefined && entry.caster.progression !== 'pact');
+
+  if (casters.length === 1) {
+    const [{ level, caster }] = casters;
+    switch (caster.progression) {
+      case 'full': return level;
+      case 'artificer': return Math.ceil(level / 2);
+      case 'half': return level >= 2 ? Math.ceil(level / 2) : 0;
+      case 'third': return level >= 3 ? Math.ceil(level / 3) : 0;
+    }
+  }
+
+  return casters.reduce((total, { level, caster }) => {
+    switch (caster.progression) {
+      case 'full': return total + level;
+      case 'artificer': return total + Math.ceil(level / 2);
+      case 'half': return total + Math.floor(level / 2);
+      default: return total + Math.floor(level / 3);
+    }
+  }, 0);
+};
+
+/**
+ * Spell slots per spell level for a caster level
+ */
+export const getSpellSlots = (casterLevel: number): Record<number, number> => {
+  if (casterLevel < 1) {
+    return {};
+  }
+
+  const slots = SPELL_SLOTS_BY_CASTER_LEVEL[Math.min(casterLevel, MAX_LEVEL) - 1];
+  return Object.fromEntries(slots.map((count, index) => [index + 1, count]));
+};
+
+/**
+ * Pact Magic slots for a warlock level
+ */
+export const getPactMagic = (warlockLevel: number): PactMagic | undefined => {
+  if (warlockLevel < 1) {
+    return undefined;
+  }
+
+  const [slots, slotLevel] = PACT_MAGIC_BY_LEVEL[Math.min(warlockLevel, MAX_LEVEL) - 1];
+  return { slots, slotLevel };
+};
+
+/**
+ * Spell save DC, attack bonus and slots for every spellcasting class
+ */
+export const calculateSpellcasting = (character: DerivedStatsCharacter): SpellcastingStats => {
+  const classes: ClassSpellcasting[] = character.classes.flatMap(cls => {
+    const caster = getCasterClass(cls);
+    if (!caster) {
+      return [];
+    }
+
+    const modifier = abilityModifier(character.abilityScores[caster.ability]);
+    return [{
+      class: cls.class,
+      ability: caster.ability,
+      spellSaveDC: 8 + character.proficiencyBonus + modifier,
+      spellAttackBonus: character.proficiencyBonus + modifier,
+    }];
+  });
+
+  const casterLevel = getCasterLevel(character.classes);
+  const warlockLevel = character.classes
+    .filter(cls => cls.class.toLowerCase() === 'warlock')
+    .reduce((total, cls) => total + cls.level, 0);
+  const pactMagic = getPactMagic(warlockLevel);
+  const best = classes.reduce<ClassSpellcasting | undefined>(
+    (current, entry) => (!current || entry.spellSaveDC > current.spellSaveDC ? entry : current),
+    undefined
+  );
+
+  return {
+    casterLevel,
+    spellSlots: getSpellSlots(casterLevel),
+    spellAttackBonus: best?.spellAttackBonus ?? 0,
+    spellSaveDC: best?.spellSaveDC ?? 8,
+    classes,
+    ...(pactMagic && { pactMagic }),
+  };
+};
+
+/**
+ * Total, equipped and carried equipment weight in pounds
+ */
+export const calculateEquipmentWeight = (character: DerivedStatsCharacter): EquipmentWeight => {
+  const weights = (character.equipment ?? []).map(item => ({
+    weight: (item.weight ?? 0) * (item.quantity ?? 1),
+    equipped: item.equipped === true,
+  }));
+  const equipped = weights.filter(item => item.equipped).reduce((total, item) => total + item.weight, 0);
+  const carried = weights.filter(item => !item.equipped).reduce((total, item) => total + item.weight, 0);
+
+  return {
+    total: roundWeight(equipped + carried),
+    equipped: roundWeight(equipped),
+    carried: roundWeight(carried),
+  };
+};
+
+/**
+ * Carrying capacity scaled by size. The standard rule only distinguishes
+ * carrying within capacity from being overloaded; the variant rule adds
+ * encumbered (over 5 × Strength) and heavily encumbered (over 10 × Strength).
+ */
+export const calculateCarryingCapacity = (
+  character: DerivedStatsCharacter,
+  rule: EncumbranceRule = 'standard'
+): CarryingCapacity => {
+  const strength = character.abilityScores.strength;
+  const multiplier = SIZE_CAPACITY_MULTIPLIERS[character.size ?? 'medium'];
+  const maximum = strength * 15 * multiplier;
+  const current = calculateEquipmentWeight(character).total;
+
+  let encumbranceLevel: EncumbranceLevel = 'none';
+  if (current > maximum) {
+    encumbranceLevel = 'overloaded';
+  } else if (rule === 'variant' && current > strength * 10 * multiplier) {
+    encumbranceLevel = 'heavy';
+  } else if (rule === 'variant' && current > strength * 5 * multiplier) {
+    encumbranceLevel = 'light';
+  }
+
+  return {
+    maximum,
+    current,
+    encumbranceLevel,
+    pushDragLift: maximum * 2,
+    rule,
+  };
+};
+
+/**
+ * Level a total amount of experience qualifies for
+ */
+export const getLevelForExperience = (experience: number): number => {
+  const index = XP_BY_LEVEL.findIndex(threshold => experience < threshold);
+  return index === -1 ? MAX_LEVEL : index;
+};
+
+/**
+ * Experience toward the next character level
+ */
+export const calculateExperienceInfo = (character: DerivedStatsCharacter): ExperienceInfo => {
+  const currentXP = character.experiencePoints ?? 0;
+  const currentLevel = Math.max(totalLevel(character), 1);
+  const isMaxLevel = currentLevel >= MAX_LEVEL;
+  const nextLevelXP = isMaxLevel ? XP_BY_LEVEL[MAX_LEVEL - 1] : XP_BY_LEVEL[currentLevel];
+  const levelFromXP = getLevelForExperience(currentXP);
+
+  return {
+    currentXP,
+    currentLevel,
+    nextLevelXP,
+    xpToNextLevel: isMaxLevel ? 0 : Math.max(nextLevelXP - currentXP, 0),
+    isMaxLevel,
+    levelFromXP,
+    canLevelUp: !isMaxLevel && levelFromXP > currentLevel,
+  };
+};
+
+const findArmor = (name: string): ArmorEntry | undefined => {
+  const lowered = name.toLowerCase();
+  return ARMOR_TABLE.find(armor => lowered.includes(armor.name));
+};
+
+const magicBonus = (name: string): number => {
+  const match = name.match(/\+(\d)/);
+  return match ? Number(match[1]) : 0;
+};
+
+/**
+ * Armor class from equipped armor and shield, falling back to unarmored AC
+ * (or the barbarian and monk Unarmored Defense features). Armor is recognized
+ * by its Player's Handbook name, and a "+N" in the name adds a magic bonus.
+ */
+export const calculateArmorClass = (character: DerivedStatsCharacter): ArmorClassBreakdown => {
+  const equipped = (character.equipment ?? []).filter(item => item.equipped);
+  const dexterity = abilityModifier(character.abilityScores.dexterity);
+  const shieldItem = equipped.find(item => /\bshield\b/i.test(item.name));
+  const shieldBonus = shieldItem ? SHIELD_BONUS + magicBonus(shieldItem.name) : 0;
+
+  const armorOptions = equipped.flatMap(item => {
+    const armor = findArmor(item.name);
+    if (!armor) {
+      return [];
+    }
+    const dexBonus = armor.maxDexterity === null ? dexterity : Math.min(dexterity, armor.maxDexterity);
+    return [{ name: item.name, value: armor.baseAC + dexBonus + magicBonus(item.name) }];
+  });
+
+  if (armorOptions.length > 0) {
+    const best = armorOptions.reduce((current, option) => (option.value > current.value ? option : current));
+    return { value: best.value + shieldBonus, source: 'armor', armor: best.name, shield: Boolean(shieldItem) };
+  }
+
+  const classNames = character.classes.map(cls => cls.class.toLowerCase());
+  const unarmoredDefense = [
+    classNames.includes('barbarian') ? 10 + dexterity + abilityModifier(character.abilityScores.constitution) + shieldBonus : 0,
+    classNames.includes('monk') && !shieldItem ? 10 + dexterity + abilityModifier(character.abilityScores.wisdom) : 0,
+  ];
+  const unarmored = 10 + dexterity + shieldBonus;
+  const featureValue = Math.max(...unarmoredDefense);
+
+  return featureValue > unarmored
+    ? { value: featureValue, source: 'unarmored defense', shield: Boolean(shieldItem) }
+    : { value: unarmored, source: 'unarmored', shield: Boolean(shieldItem) };
+};
+
+/**
+ * Passive Wisdom (Perception): 10 + Wisdom modifier + proficiency when proficient
+ */
+export const calculatePassivePerception = (character: DerivedStatsCharacter): number =>
+  10
+  + abilityModifier(character.abilityScores.wisdom)
+  + (isSkillProficient(character, 'perception') ? character.proficiencyBonus : 0);
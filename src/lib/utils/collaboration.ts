@@ -0,0 +1,37 @@
+/**
+ * Collaboration roles and what each of them may do with an encounter or party
+ */
+
+import type { CollaboratorRole } from '@/lib/validations/collaborator';
+
+/**
+ * A user's relationship to an encounter or party
+ */
+export type AccessRole = 'owner' | CollaboratorRole;
+
+/**
+ * view: read the resource; contribute: bring your own characters;
+ * edit: change the resource and run its combat; manage: collaborators,
+ * deletion and other owner-only actions
+ */
+export type CollaborationPermission = 'view' | 'contribute' | 'edit' | 'manage';
+
+export const ROLE_PERMISSIONS: Record<AccessRole, readonly CollaborationPermission[]> = {
+  owner: ['view', 'contribute', 'edit', 'manage'],
+  co_dm: ['view', 'contribute', 'edit'],
+  player: ['view', 'contribute'],
+  viewer: ['view'],
+};
+
+export const ROLE_LABELS: Record<CollaboratorRole, string> = {
+  viewer: 'Viewer',
+  player: 'Player',
+  co_dm: 'Co-DM',
+};
+
+/**
+ * Whether a role grants a permission; no role grants nothing
+ */
+export function hasPermission(role: AccessRole | null, permission: CollaborationPermission): boolean {
+  return role !== null && ROLE_PERMISSIONS[role].includes(permission);
+}
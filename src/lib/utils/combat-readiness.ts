@@ -3,6 +3,10 @@
  */
 
 import type { Encounter } from '@/lib/validations/encounter';
+import {
+  getEncounterDifficultyBreakdown,
+  type EncounterDifficultyBreakdown,
+} from './encounter-difficulty';
 
 export interface ReadinessCheck {
   category: string;
@@ -106,16 +110,64 @@ export const checkSettings = (settings: Encounter['settings']): ReadinessCheck =
   };
 };
 
+/**
+ * Check encounter difficulty against the party's XP thresholds
+ */
+export const checkDifficulty = (breakdown: EncounterDifficultyBreakdown): ReadinessCheck => {
+  if (breakdown.difficulty === 'unknown') {
+    return {
+      category: 'Difficulty',
+      status: 'ready',
+      message: 'Difficulty not rated',
+      details: 'Add player characters or link a party to rate difficulty',
+    };
+  }
+
+  if (breakdown.monsterCount === 0 && breakdown.unratedCount > 0) {
+    return {
+      category: 'Difficulty',
+      status: 'warning',
+      message: 'No challenge ratings set',
+      details: 'Set a challenge rating on each monster and NPC to rate difficulty',
+    };
+  }
+
+  const rating = breakdown.difficulty.charAt(0).toUpperCase() + breakdown.difficulty.slice(1);
+  const message = `${rating} encounter (${breakdown.adjustedXP} adjusted XP)`;
+
+  if (breakdown.unratedCount > 0) {
+    return {
+      category: 'Difficulty',
+      status: 'warning',
+      message,
+      details: `${breakdown.unratedCount} participant(s) without a challenge rating are not counted`,
+    };
+  }
+
+  return {
+    category: 'Difficulty',
+    status: breakdown.difficulty === 'deadly' ? 'warning' : 'ready',
+    message,
+    details: `Uses ${breakdown.dailyBudgetPercentage}% of the party's daily XP budget`,
+  };
+};
+
 /**
  * Get all readiness checks for an encounter
  */
-export const getReadinessChecks = (encounter: Encounter): ReadinessCheck[] => {
+export const getReadinessChecks = (
+  encounter: Encounter,
+  difficulty?: EncounterDifficultyBreakdown
+): ReadinessCheck[] => {
   const participants = encounter.participants || [];
 
   return [
     checkParticipants(participants),
     checkInitiative(participants),
     checkSettings(encounter.settings),
+    checkDifficulty(
+      difficulty ?? getEncounterDifficultyBreakdown(participants, encounter.targetLevel)
+    ),
   ];
 };
 
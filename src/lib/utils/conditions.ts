@@ -0,0 +1,210 @@
+/**
+ * D&D 5e (SRD 5.1) conditions, their mechanical effects and helpers for
+ * describing tracked conditions
+ */
+
+export const CONDITION_NAMES = [
+  'blinded',
+  'charmed',
+  'deafened',
+  'exhaustion',
+  'frightened',
+  'grappled',
+  'incapacitated',
+  'invisible',
+  'paralyzed',
+  'petrified',
+  'poisoned',
+  'prone',
+  'restrained',
+  'stunned',
+  'unconscious',
+] as const;
+
+export type ConditionName = (typeof CONDITION_NAMES)[number];
+
+/**
+ * How a tracked condition ends
+ * - indefinite: until removed by hand
+ * - rounds: after a number of rounds, counted at the end of a creature's turn
+ * - turn_start / turn_end: at the start or end of a given creature's next turn
+ * - save: when the affected creature succeeds on a saving throw
+ */
+export const CONDITION_EXPIRY_TYPES = ['indefinite', 'rounds', 'turn_start', 'turn_end', 'save'] as const;
+
+export type ConditionExpiry = (typeof CONDITION_EXPIRY_TYPES)[number];
+
+export const SAVE_ABILITIES = [
+  'strength',
+  'dexterity',
+  'constitution',
+  'intelligence',
+  'wisdom',
+  'charisma',
+] as const;
+
+export type SaveAbility = (typeof SAVE_ABILITIES)[number];
+
+export const MAX_EXHAUSTION_LEVEL = 6;
+
+/**
+ * Fields needed to describe a tracked condition
+ */
+export interface ConditionSummary {
+  name: ConditionName;
+  level?: number;
+  expiry: ConditionExpiry;
+  roundsRemaining?: number;
+  saveDC?: number;
+  saveAbility?: SaveAbility;
+  savePending?: boolean;
+}
+
+/**
+ * Mechanical reminders for each condition
+ */
+export const CONDITION_EFFECTS: Record<ConditionName, string[]> = {
+  blinded: [
+    "Can't see; automatically fails checks that require sight",
+    'Attacks against it have advantage; its attacks have disadvantage',
+  ],
+  charmed: [
+    "Can't attack the charmer or target it with harmful abilities",
+    'The charmer has advantage on social checks against it',
+  ],
+  deafened: ["Can't hear; automatically fails checks that require hearing"],
+  exhaustion: [
+    'Level 1: disadvantage on ability checks',
+    'Level 2: speed halved',
+    'Level 3: disadvantage on attack rolls and saving throws',
+    'Level 4: hit point maximum halved',
+    'Level 5: speed reduced to 0',
+    'Level 6: death',
+  ],
+  frightened: [
+    'Disadvantage on ability checks and attacks while the source is in sight',
+    "Can't willingly move closer to the source",
+  ],
+  grappled: ['Speed is 0', 'Ends if the grappler is incapacitated or moved out of reach'],
+  incapacitated: ["Can't take actions or reactions"],
+  invisible: [
+    'Impossible to see without magic or a special sense',
+    'Attacks against it have disadvantage; its attacks have advantage',
+  ],
+  paralyzed: [
+    "Incapacitated; can't move or speak",
+    'Automatically fails Strength and Dexterity saves',
+    'Attacks against it have advantage; hits within 5 feet are critical hits',
+  ],
+  petrified: [
+    "Transformed to stone; incapacitated, can't move or speak",
+    'Resistance to all damage; immune to poison and disease',
+    'Automatically fails Strength and Dexterity saves',
+  ],
+  poisoned: ['Disadvantage on attack rolls and ability checks'],
+  prone: [
+    'Can only crawl; disadvantage on attack rolls',
+    'Attacks within 5 feet have advantage, ranged attacks have disadvantage',
+  ],
+  restrained: [
+    'Speed is 0; attacks against it have advantage',
+    'Its attacks have disadvantage; disadvantage on Dexterity saves',
+  ],
+  stunned: [
+    "Incapacitated; can't move and can speak only falteringly",
+    'Automatically fails Strength and Dexterity saves',
+    'Attacks against it have advantage',
+  ],
+  unconscious: [
+    "Incapacitated; can't move or speak and is unaware of its surroundings",
+    'Drops what it is holding and falls prone',
+    'Automatically fails Strength and Dexterity saves',
+    'Attacks against it have advantage; hits within 5 feet are critical hits',
+  ],
+};
+
+/**
+ * Check whether a value is one of the SRD condition names
+ */
+export function isConditionName(value: string): value is ConditionName {
+  return (CONDITION_NAMES as readonly string[]).includes(value);
+}
+
+/**
+ * Whether statblock condition immunities such as "charmed, frightened" cover a condition
+ */
+export function isImmuneToCondition(immunities: string[] | undefined, name: ConditionName): boolean {
+  const pattern = new RegExp(`\\b${name}\\b`);
+  return (immunities ?? []).some(entry => pattern.test(entry.toLowerCase()));
+}
+
+/**
+ * Mechanical reminders for a condition; exhaustion lists every level reached
+ */
+export function getConditionEffects(condition: Pick<ConditionSummary, 'name' | 'level'>): string[] {
+  const effects = CONDITION_EFFECTS[condition.name];
+  return condition.name === 'exhaustion' ? effects.slice(0, condition.level ?? 1) : effects;
+}
+
+/**
+ * Display label such as "Poisoned" or "Exhaustion 2"
+ */
+export function formatConditionName(condition: Pick<ConditionSummary, 'name' | 'level'>): string {
+  const label = condition.name.charAt(0).toUpperCase() + condition.name.slice(1);
+  return condition.name === 'exhaustion' ? `${label} ${condition.level ?? 1}` : label;
+}
+
+/**
+ * Short description of how a condition ends, e.g. "3 rounds" or "DC 13 WIS save",
+ * with "due" appended while a save is waiting to be rolled
+ */
+export function describeConditionExpiry(condition: ConditionSummary): string | null {
+  switch (condition.expiry) {
+    case 'rounds': {
+      const rounds = condition.roundsRemaining ?? 0;
+      return `${rounds} round${rounds === 1 ? '' : 's'}`;
+    }
+    case 'turn_start': return 'until start of turn';
+    case 'turn_end': return 'until end of turn';
+    case 'save': {
+      const ability = condition.saveAbility?.slice(0, 3).toUpperCase();
+      const due = condition.savePending ? 'due' : undefined;
+      return [`DC ${condition.saveDC ?? '?'}`, ability, 'save', due].filter(Boolean).join(' ');
+    }
+    default: return null;
+  }
+}
+
+/**
+ * Convert a stored or imported condition into a condition summary.
+ * Legacy free-text entries are matched by name; anything else is dropped.
+ */
+export function normalizeCondition(value: unknown): ConditionSummary | null {
+  if (typeof value === 'string') {
+    const name = value.trim().toLowerCase();
+    return isConditionName(name) ? { name, expiry: 'indefinite' } : null;
+  }
+
+  if (!value || typeof value !== 'object') {
+    return null;
+  }
+
+  const entry = value as Partial<ConditionSummary>;
+  const name = String(entry.name ?? '').toLowerCase();
+  if (!isConditionName(name)) {
+    return null;
+  }
+
+  const expiry = (CONDITION_EXPIRY_TYPES as readonly string[]).includes(entry.expiry as string)
+    ? entry.expiry as ConditionExpiry
+    : 'indefinite';
+
+  return {
+    name,
+    expiry,
+    ...(name === 'exhaustion' && { level: Math.min(MAX_EXHAUSTION_LEVEL, Math.max(1, Number(entry.level) || 1)) }),
+    ...(expiry === 'rounds' && { roundsRemaining: Math.max(1, Number(entry.roundsRemaining) || 1) }),
+    ...(entry.saveDC !== undefined && { saveDC: Number(entry.saveDC) }),
+    ...((SAVE_ABILITIES as readonly string[]).includes(entry.saveAbility as string) && { saveAbility: entry.saveAbility }),
+  };
+}
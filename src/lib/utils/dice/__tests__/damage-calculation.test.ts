@@ -3,6 +3,8 @@ import {
   calculateDamageWithResistance,
   calculateCriticalDamage,
   distributeDamageToMultipleTargets,
+  getResistanceForDamage,
+  resolveDamageInstances,
   DamageCalculationResult,
   DamageDistributionTarget
 } from '../damage-calculation';
@@ -211,6 +213,54 @@ describe('damage-calculation', () => {
     });
   });
 
+  describe('resolveDamageInstances', () => {
+    const ogreDefenses = {
+      damageResistances: ['bludgeoning, piercing, and slashing from nonmagical attacks'],
+      damageVulnerabilities: ['radiant'],
+      damageImmunities: ['Poison'],
+    };
+
+    it('should resolve each instance against the defenses', () => {
+      const result = resolveDamageInstances(
+        [
+          { amount: 12, damageType: 'fire' },
+          { amount: 5, damageType: 'slashing' },
+          { amount: 7, damageType: 'radiant' },
+          { amount: 9, damageType: 'poison' },
+        ],
+        ogreDefenses
+      );
+
+      expect(result.instances.map(instance => [instance.resistanceApplied, instance.finalDamage])).toEqual([
+        ['normal', 12],
+        ['resistant', 2],
+        ['vulnerable', 14],
+        ['immune', 0],
+      ]);
+      expect(result.originalDamage).toBe(33);
+      expect(result.totalDamage).toBe(28);
+    });
+
+    it('should not resist magical damage with nonmagical resistances', () => {
+      expect(getResistanceForDamage({ amount: 5, damageType: 'slashing', magical: true }, ogreDefenses))
+        .toBe('normal');
+    });
+
+    it('should leave untyped damage unchanged', () => {
+      expect(resolveDamageInstances([{ amount: 8 }], ogreDefenses).totalDamage).toBe(8);
+    });
+
+    it('should cancel out resistance and vulnerability to the same type', () => {
+      const defenses = { damageResistances: ['fire'], damageVulnerabilities: ['fire'] };
+      expect(getResistanceForDamage({ amount: 10, damageType: 'fire' }, defenses)).toBe('normal');
+    });
+
+    it('should match whole damage type names only', () => {
+      expect(getResistanceForDamage({ amount: 10, damageType: 'fire' }, { damageImmunities: ['firebolt'] }))
+        .toBe('normal');
+    });
+  });
+
   describe('edge cases', () => {
     it('should handle minimum damage of 0', () => {
       const originalRandom = Math.random;
@@ -0,0 +1,170 @@
+import {
+  parseDiceExpression,
+  rollDiceExpression,
+  isValidDiceNotation,
+  buildD20Notation,
+  getDiceExpressionRange,
+  DiceNotationError,
+  type DiceTermResult,
+} from '../dice-notation';
+import { createSeededRandom, type RandomSource } from '../seeded-random';
+
+/**
+ * Random source that yields the given faces for dice with the given sides
+ */
+const facesOf = (sides: number, faces: number[]): RandomSource => {
+  let index = 0;
+  return () => {
+    if (index >= faces.length) {
+      throw new Error('Ran out of scripted rolls');
+    }
+    return (faces[index++] - 1) / sides;
+  };
+};
+
+const diceTerm = (result: { terms: unknown[] }, index = 0) => result.terms[index] as DiceTermResult;
+
+describe('dice-notation', () => {
+  describe('parseDiceExpression', () => {
+    it('parses sums of dice and modifiers', () => {
+      const expression = parseDiceExpression('2d6 + 1d4 - 3');
+
+      expect(expression.terms).toEqual([
+        expect.objectContaining({ type: 'dice', sign: 1, count: 2, sides: 6 }),
+        expect.objectContaining({ type: 'dice', sign: 1, count: 1, sides: 4 }),
+        expect.objectContaining({ type: 'modifier', sign: -1, value: 3 }),
+      ]);
+    });
+
+    it('parses percentile and two-sided dice', () => {
+      expect(parseDiceExpression('d%').terms[0]).toMatchObject({ count: 1, sides: 100 });
+      expect(parseDiceExpression('1d2').terms[0]).toMatchObject({ sides: 2 });
+    });
+
+    it('turns advantage into keep highest of two', () => {
+      expect(parseDiceExpression('d20adv').terms[0]).toMatchObject({
+        count: 2,
+        selection: { keep: true, highest: true, count: 1 },
+      });
+      expect(parseDiceExpression('1d20dis').terms[0]).toMatchObject({
+        count: 2,
+        selection: { keep: true, highest: false, count: 1 },
+      });
+    });
+
+    it('parses rerolls and exploding dice', () => {
+      expect(parseDiceExpression('2d6ro<2').terms[0]).toMatchObject({
+        reroll: { conditions: [{ operator: '<', value: 2 }], once: true },
+      });
+      expect(parseDiceExpression('1d6!').terms[0]).toMatchObject({
+        explode: { operator: '=', value: 6 },
+      });
+    });
+
+    it.each([
+      ['', 'expression is empty'],
+      ['2d6+', 'operator without a term'],
+      ['2x6', 'is not a dice term'],
+      ['2d6zz', 'unknown option'],
+      ['3d6kh4', 'cannot keep or drop more dice'],
+      ['2d20adv', 'apply to a single die'],
+      ['101d6', 'dice count'],
+      ['1d1', 'sides'],
+      ['1d6!>1', 'every face'],
+    ])('rejects "%s"', (notation, reason) => {
+      expect(() => parseDiceExpression(notation)).toThrow(DiceNotationError);
+      expect(() => parseDiceExpression(notation)).toThrow(reason);
+    });
+  });
+
+  describe('rollDiceExpression', () => {
+    it('returns a per-term breakdown', () => {
+      const faces = [3, 5, 2];
+      let index = 0;
+      const random = () => (faces[index] - 1) / [6, 6, 4][index++];
+
+      const result = rollDiceExpression('2d6+1d4+3', { random });
+
+      expect(result.terms.map(term => term.total)).toEqual([8, 2, 3]);
+      expect(result.rolls).toEqual([3, 5, 2]);
+      expect(result.diceTotal).toBe(10);
+      expect(result.modifier).toBe(3);
+      expect(result.total).toBe(13);
+    });
+
+    it('keeps the highest dice', () => {
+      const result = rollDiceExpression('4d6kh3', { random: facesOf(6, [1, 4, 6, 3]) });
+
+      expect(diceTerm(result).dice.map(die => !!die.dropped)).toEqual([true, false, false, false]);
+      expect(result.total).toBe(13);
+    });
+
+    it('rolls with advantage and disadvantage', () => {
+      expect(rollDiceExpression('d20adv', { random: facesOf(20, [7, 15]) }).total).toBe(15);
+      expect(rollDiceExpression('d20dis', { random: facesOf(20, [7, 15]) }).total).toBe(7);
+    });
+
+    it('rerolls matching faces until they stop matching', () => {
+      const result = rollDiceExpression('1d6r1', { random: facesOf(6, [1, 1, 4]) });
+
+      expect(diceTerm(result).dice).toEqual([{ value: 4, rerolled: [1, 1] }]);
+      expect(result.total).toBe(4);
+    });
+
+    it('rerolls only once with ro', () => {
+      const result = rollDiceExpression('1d6ro1', { random: facesOf(6, [1, 1]) });
+
+      expect(result.total).toBe(1);
+    });
+
+    it('explodes on the highest face', () => {
+      const result = rollDiceExpression('1d6!', { random: facesOf(6, [6, 6, 2]) });
+
+      expect(diceTerm(result).dice).toEqual([
+        { value: 6 },
+        { value: 6, exploded: true },
+        { value: 2, exploded: true },
+      ]);
+      expect(result.total).toBe(14);
+    });
+
+    it('doubles dice but not modifiers on a critical', () => {
+      const result = rollDiceExpression('1d8+3', { random: facesOf(8, [5, 2]), critical: true });
+
+      expect(result.rolls).toEqual([5, 2]);
+      expect(result.total).toBe(10);
+      expect(result.isCritical).toBe(true);
+    });
+
+    it('subtracts negative dice terms', () => {
+      const result = rollDiceExpression('10-1d4', { random: facesOf(4, [3]) });
+
+      expect(result.total).toBe(7);
+    });
+
+    it('is deterministic for a seeded random source', () => {
+      const first = rollDiceExpression('8d6+4d6kh2!', { random: createSeededRandom('replay-42') });
+      const second = rollDiceExpression('8d6+4d6kh2!', { random: createSeededRandom('replay-42') });
+
+      expect(second).toEqual(first);
+    });
+  });
+
+  describe('helpers', () => {
+    it('validates notation', () => {
+      expect(isValidDiceNotation('4d6dl1')).toBe(true);
+      expect(isValidDiceNotation('fireball')).toBe(false);
+    });
+
+    it('builds d20 notation', () => {
+      expect(buildD20Notation()).toBe('1d20');
+      expect(buildD20Notation('advantage', 3)).toBe('1d20adv+3');
+      expect(buildD20Notation('disadvantage', -1)).toBe('1d20dis-1');
+    });
+
+    it('computes the range of an expression', () => {
+      expect(getDiceExpressionRange(parseDiceExpression('2d6+1d4+3'))).toEqual({ minimum: 6, maximum: 19 });
+      expect(getDiceExpressionRange(parseDiceExpression('4d6kh3'))).toEqual({ minimum: 3, maximum: 18 });
+    });
+  });
+});
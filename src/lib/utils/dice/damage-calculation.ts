@@ -1,4 +1,5 @@
 import { rollMultipleDice } from './dice-rolling';
+import { rollDiceExpression, type DiceEvaluationOptions } from './dice-notation';
 import {
   DamageType,
   ResistanceType,
@@ -9,6 +10,10 @@ import {
   DamageDistributionTarget,
   TargetDamageResult,
   DamageDistributionMethod,
+  DamageInstance,
+  DamageDefenses,
+  ResolvedDamageInstance,
+  DamageResolution,
   RESISTANCE_MULTIPLIERS
 } from './damage-types';
 
@@ -30,6 +35,26 @@ export function calculateDamage(input: DamageCalculationInput): DamageCalculatio
   };
 }
 
+/**
+ * Calculate damage from dice notation such as `2d6+1d4+3`
+ */
+export function calculateDamageFromNotation(
+  notation: string,
+  damageType: DamageType,
+  options: DiceEvaluationOptions = {}
+): DamageCalculationResult {
+  const breakdown = rollDiceExpression(notation, options);
+
+  return {
+    totalDamage: Math.max(0, breakdown.total),
+    diceRolls: breakdown.rolls,
+    modifier: breakdown.modifier,
+    damageType,
+    ...(breakdown.isCritical && { isCritical: true }),
+    breakdown
+  };
+}
+
 /**
  * Calculate damage with resistance/vulnerability/immunity applied
  */
@@ -106,8 +131,75 @@ export function distributeDamageToMultipleTargets(
   });
 }
 
+/**
+ * Whether a defense entry covers the damage instance. Entries qualified with
+ * "nonmagical" do not cover magical damage.
+ */
+function defenseCovers(entry: string, instance: DamageInstance): boolean {
+  const text = entry.toLowerCase();
+  if (instance.magical && /non-?magical/.test(text)) {
+    return false;
+  }
+  return new RegExp(`\\b${instance.damageType}\\b`).test(text);
+}
+
+/**
+ * Determine how a creature's defenses treat a damage instance.
+ * Immunity wins; resistance and vulnerability to the same damage cancel out.
+ */
+export function getResistanceForDamage(
+  instance: DamageInstance,
+  defenses: DamageDefenses
+): ResistanceType {
+  if (!instance.damageType) {
+    return 'normal';
+  }
+
+  const covers = (entries: string[] = []) => entries.some(entry => defenseCovers(entry, instance));
+
+  if (covers(defenses.damageImmunities)) {
+    return 'immune';
+  }
+
+  const resistant = covers(defenses.damageResistances);
+  const vulnerable = covers(defenses.damageVulnerabilities);
+  if (resistant === vulnerable) {
+    return 'normal';
+  }
+  return resistant ? 'resistant' : 'vulnerable';
+}
+
+/**
+ * Resolve typed damage instances against a creature's defenses
+ */
+export function resolveDamageInstances(
+  instances: DamageInstance[],
+  defenses: DamageDefenses
+): DamageResolution {
+  const resolved = instances.map(instance => {
+    const resistanceApplied = getResistanceForDamage(instance, defenses);
+    const amount = Math.max(0, instance.amount);
+
+    return {
+      ...instance,
+      finalDamage: Math.floor(amount * RESISTANCE_MULTIPLIERS[resistanceApplied]),
+      resistanceApplied
+    };
+  });
+
+  return {
+    instances: resolved,
+    originalDamage: resolved.reduce((sum, instance) => sum + Math.max(0, instance.amount), 0),
+    totalDamage: resolved.reduce((sum, instance) => sum + instance.finalDamage, 0)
+  };
+}
+
 // Re-export types for convenience
 export type {
+  DamageInstance,
+  DamageDefenses,
+  ResolvedDamageInstance,
+  DamageResolution,
   DamageType,
   ResistanceType,
   DiceType,
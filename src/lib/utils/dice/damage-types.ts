@@ -1,3 +1,5 @@
+import type { DiceExpressionResult } from './dice-notation';
+
 /**
  * D&D 5e damage types
  */
@@ -28,7 +30,7 @@ export type ResistanceType =
 /**
  * Dice types used in D&D
  */
-export type DiceType = 'd4' | 'd6' | 'd8' | 'd10' | 'd12' | 'd20';
+export type DiceType = 'd2' | 'd4' | 'd6' | 'd8' | 'd10' | 'd12' | 'd20' | 'd100';
 
 /**
  * Distribution methods for multi-target damage
@@ -54,6 +56,7 @@ export interface DamageCalculationResult {
   modifier: number;
   damageType: DamageType;
   isCritical?: boolean;
+  breakdown?: DiceExpressionResult;
 }
 
 /**
@@ -82,6 +85,43 @@ export interface TargetDamageResult extends DamageWithResistanceResult {
   targetName: string;
 }
 
+/**
+ * A single typed portion of a hit, e.g. the 12 fire in "12 fire + 5 slashing".
+ * Untyped damage bypasses resistances and immunities.
+ */
+export interface DamageInstance {
+  amount: number;
+  damageType?: DamageType;
+  magical?: boolean;
+}
+
+/**
+ * Damage defenses of a creature, as statblock entries such as "fire" or
+ * "bludgeoning, piercing, and slashing from nonmagical attacks"
+ */
+export interface DamageDefenses {
+  damageResistances?: string[];
+  damageVulnerabilities?: string[];
+  damageImmunities?: string[];
+}
+
+/**
+ * Damage instance after the target's defenses have been applied
+ */
+export interface ResolvedDamageInstance extends DamageInstance {
+  finalDamage: number;
+  resistanceApplied: ResistanceType;
+}
+
+/**
+ * Per-instance breakdown and totals for a typed damage application
+ */
+export interface DamageResolution {
+  instances: ResolvedDamageInstance[];
+  originalDamage: number;
+  totalDamage: number;
+}
+
 /**
  * Preset damage template
  */
@@ -207,12 +247,14 @@ export const COMMON_DAMAGE_PRESETS: DamagePreset[] = [
  * Dice value mappings for calculations
  */
 export const DICE_VALUES: Record<DiceType, number> = {
+  'd2': 2,
   'd4': 4,
   'd6': 6,
   'd8': 8,
   'd10': 10,
   'd12': 12,
-  'd20': 20
+  'd20': 20,
+  'd100': 100
 };
 
 /**
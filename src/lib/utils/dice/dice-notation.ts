@@ -0,0 +1,475 @@
+import type { RandomSource } from './seeded-random';
+
+/**
+ * Dice notation parser and evaluator
+ *
+ * Supported notation (case-insensitive, whitespace ignored):
+ * - Sums of dice and flat modifiers: `2d6+1d4+3`, `1d8-1`
+ * - Percentile and odd dice: `d%`, `d100`, `d2`
+ * - Keep/drop highest or lowest: `4d6kh3`, `2d20kl1`, `4d6dl1`
+ * - Advantage/disadvantage on a single die: `d20adv`, `d20dis`
+ * - Rerolls: `r1` (reroll until no 1), `ro1` (reroll once), `r<2`
+ * - Exploding dice: `!` (on the highest face), `!>5`
+ *
+ * Comparisons follow common VTT notation: `>N` matches N or higher,
+ * `<N` matches N or lower and a bare `N` matches exactly N.
+ */
+
+export type RollMode = 'normal' | 'advantage' | 'disadvantage';
+
+export type ComparisonOperator = '=' | '<' | '>';
+
+export interface DiceComparison {
+  operator: ComparisonOperator;
+  value: number;
+}
+
+export interface DiceSelection {
+  keep: boolean;
+  highest: boolean;
+  count: number;
+}
+
+export interface DiceTerm {
+  type: 'dice';
+  notation: string;
+  sign: 1 | -1;
+  count: number;
+  sides: number;
+  selection?: DiceSelection;
+  reroll?: { conditions: DiceComparison[]; once: boolean };
+  explode?: DiceComparison;
+}
+
+export interface ModifierTerm {
+  type: 'modifier';
+  notation: string;
+  sign: 1 | -1;
+  value: number;
+}
+
+export type DiceExpressionTerm = DiceTerm | ModifierTerm;
+
+export interface DiceExpression {
+  notation: string;
+  terms: DiceExpressionTerm[];
+}
+
+export interface DieResult {
+  value: number;
+  dropped?: boolean;
+  rerolled?: number[];
+  exploded?: boolean;
+}
+
+export interface DiceTermResult {
+  type: 'dice';
+  notation: string;
+  sign: 1 | -1;
+  sides: number;
+  dice: DieResult[];
+  total: number;
+}
+
+export interface ModifierTermResult {
+  type: 'modifier';
+  notation: string;
+  sign: 1 | -1;
+  value: number;
+  total: number;
+}
+
+export type DiceExpressionTermResult = DiceTermResult | ModifierTermResult;
+
+export interface DiceExpressionResult {
+  notation: string;
+  terms: DiceExpressionTermResult[];
+  rolls: number[];
+  diceTotal: number;
+  modifier: number;
+  total: number;
+  isCritical?: boolean;
+}
+
+export interface DiceEvaluationOptions {
+  random?: RandomSource;
+  critical?: boolean;
+}
+
+export const DICE_NOTATION_LIMITS = {
+  MAX_TERMS: 20,
+  MAX_DICE_COUNT: 100,
+  MAX_SIDES: 1000,
+  MAX_MODIFIER: 999,
+  MAX_REROLLS: 100,
+  MAX_EXPLOSIONS: 100,
+} as const;
+
+/**
+ * Error thrown when dice notation cannot be parsed
+ */
+export class DiceNotationError extends Error {
+  public readonly notation: string;
+
+  public readonly reason: string;
+
+  constructor(notation: string, reason: string) {
+    super(`Invalid dice notation "${notation}": ${reason}`);
+    this.name = 'DiceNotationError';
+    this.notation = notation;
+    this.reason = reason;
+    Object.setPrototypeOf(this, DiceNotationError.prototype);
+  }
+}
+
+const DICE_TERM_PATTERN = /^(\d*)d(\d+|%)(.*)$/;
+const DICE_OPTION_PATTERN =
+  /(advantage|adv|disadvantage|dis)|(kh|kl|k|dh|dl)(\d*)|(ro|r)([<>=]?)(\d+)|!([<>=]?)(\d*)/y;
+
+/**
+ * Split notation into signed terms
+ */
+function splitTerms(notation: string): Array<{ sign: 1 | -1; body: string }> {
+  const compact = notation.replace(/\s+/g, '').toLowerCase();
+  if (!compact) {
+    throw new DiceNotationError(notation, 'expression is empty');
+  }
+
+  const parts = compact.match(/[+-]?[^+-]+|[+-]$/g) ?? [];
+  if (parts.join('') !== compact) {
+    throw new DiceNotationError(notation, 'unexpected operator');
+  }
+
+  return parts.map(part => {
+    const sign: 1 | -1 = part.startsWith('-') ? -1 : 1;
+    const body = part.replace(/^[+-]/, '');
+    if (!body) {
+      throw new DiceNotationError(notation, 'operator without a term');
+    }
+    return { sign, body };
+  });
+}
+
+/**
+ * Parse the options that follow the sides of a dice term
+ */
+function parseDiceOptions(notation: string, term: DiceTerm, options: string): void {
+  DICE_OPTION_PATTERN.lastIndex = 0;
+
+  while (DICE_OPTION_PATTERN.lastIndex < options.length) {
+    const start = DICE_OPTION_PATTERN.lastIndex;
+    const match = DICE_OPTION_PATTERN.exec(options);
+    if (!match) {
+      throw new DiceNotationError(notation, `unknown option "${options.slice(start)}"`);
+    }
+
+    const [, mode, selection, selectionCount, reroll, rerollOperator, rerollValue, explodeOperator, explodeValue] = match;
+
+    if (mode) {
+      if (term.count !== 1) {
+        throw new DiceNotationError(notation, 'advantage and disadvantage apply to a single die');
+      }
+      term.count = 2;
+      term.selection = { keep: true, highest: mode.startsWith('adv'), count: 1 };
+    } else if (selection) {
+      term.selection = {
+        keep: selection.startsWith('k'),
+        highest: selection === 'k' || selection.endsWith('h'),
+        count: selectionCount ? parseInt(selectionCount, 10) : 1,
+      };
+    } else if (reroll) {
+      term.reroll = {
+        conditions: [
+          ...(term.reroll?.conditions ?? []),
+          { operator: (rerollOperator || '=') as ComparisonOperator, value: parseInt(rerollValue, 10) },
+        ],
+        once: reroll === 'ro',
+      };
+    } else {
+      term.explode = explodeValue
+        ? { operator: (explodeOperator || '=') as ComparisonOperator, value: parseInt(explodeValue, 10) }
+        : { operator: '=', value: term.sides };
+    }
+  }
+}
+
+/**
+ * Validate a parsed dice term against the notation limits
+ */
+function validateDiceTerm(notation: string, term: DiceTerm): void {
+  if (term.count < 1 || term.count > DICE_NOTATION_LIMITS.MAX_DICE_COUNT) {
+    throw new DiceNotationError(
+      notation,
+      `dice count must be between 1 and ${DICE_NOTATION_LIMITS.MAX_DICE_COUNT}`
+    );
+  }
+
+  if (term.sides < 2 || term.sides > DICE_NOTATION_LIMITS.MAX_SIDES) {
+    throw new DiceNotationError(
+      notation,
+      `dice must have between 2 and ${DICE_NOTATION_LIMITS.MAX_SIDES} sides`
+    );
+  }
+
+  if (term.selection && term.selection.count > term.count) {
+    throw new DiceNotationError(notation, 'cannot keep or drop more dice than are rolled');
+  }
+
+  const explode = term.explode;
+  if (explode && [1, term.sides].every(value => matchesComparison(value, explode))) {
+    throw new DiceNotationError(notation, 'exploding dice cannot explode on every face');
+  }
+}
+
+/**
+ * Parse a single signed term
+ */
+function parseTerm(notation: string, sign: 1 | -1, body: string): DiceExpressionTerm {
+  if (/^\d+$/.test(body)) {
+    const value = parseInt(body, 10);
+    if (value > DICE_NOTATION_LIMITS.MAX_MODIFIER) {
+      throw new DiceNotationError(
+        notation,
+        `modifiers cannot exceed ${DICE_NOTATION_LIMITS.MAX_MODIFIER}`
+      );
+    }
+    return { type: 'modifier', notation: `${sign < 0 ? '-' : '+'}${body}`, sign, value };
+  }
+
+  const match = DICE_TERM_PATTERN.exec(body);
+  if (!match) {
+    throw new DiceNotationError(notation, `"${body}" is not a dice term`);
+  }
+
+  const [, count, sides, options] = match;
+  const term: DiceTerm = {
+    type: 'dice',
+    notation: body,
+    sign,
+    count: count ? parseInt(count, 10) : 1,
+    sides: sides === '%' ? 100 : parseInt(sides, 10),
+  };
+
+  parseDiceOptions(notation, term, options);
+  validateDiceTerm(notation, term);
+  return term;
+}
+
+/**
+ * Parse dice notation into an expression
+ */
+export function parseDiceExpression(notation: string): DiceExpression {
+  const parts = splitTerms(notation);
+  if (parts.length > DICE_NOTATION_LIMITS.MAX_TERMS) {
+    throw new DiceNotationError(
+      notation,
+      `expressions cannot have more than ${DICE_NOTATION_LIMITS.MAX_TERMS} terms`
+    );
+  }
+
+  return {
+    notation: notation.trim(),
+    terms: parts.map(({ sign, body }) => parseTerm(notation, sign, body)),
+  };
+}
+
+/**
+ * Check whether notation can be parsed
+ */
+export function isValidDiceNotation(notation: string): boolean {
+  try {
+    parseDiceExpression(notation);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Check a rolled value against a comparison
+ */
+function matchesComparison(value: number, comparison: DiceComparison): boolean {
+  switch (comparison.operator) {
+    case '<':
+      return value <= comparison.value;
+    case '>':
+      return value >= comparison.value;
+    default:
+      return value === comparison.value;
+  }
+}
+
+/**
+ * Roll one die using the given random source
+ */
+function rollDie(sides: number, random: RandomSource): number {
+  return Math.floor(random() * sides) + 1;
+}
+
+/**
+ * Roll a die, applying any reroll conditions
+ */
+function rollWithRerolls(term: DiceTerm, random: RandomSource): DieResult {
+  let value = rollDie(term.sides, random);
+  if (!term.reroll) {
+    return { value };
+  }
+
+  const { conditions, once } = term.reroll;
+  const rerolled: number[] = [];
+  while (
+    conditions.some(condition => matchesComparison(value, condition)) &&
+    rerolled.length < (once ? 1 : DICE_NOTATION_LIMITS.MAX_REROLLS)
+  ) {
+    rerolled.push(value);
+    value = rollDie(term.sides, random);
+  }
+
+  return rerolled.length > 0 ? { value, rerolled } : { value };
+}
+
+/**
+ * Mark dice outside the keep/drop selection as dropped
+ */
+function applySelection(dice: DieResult[], selection: DiceSelection): void {
+  const ordered = dice
+    .map((die, index) => ({ value: die.value, index }))
+    .sort((a, b) => (selection.highest ? b.value - a.value : a.value - b.value));
+  const selected = new Set(ordered.slice(0, selection.count).map(entry => entry.index));
+
+  dice.forEach((die, index) => {
+    if (selected.has(index) !== selection.keep) {
+      die.dropped = true;
+    }
+  });
+}
+
+/**
+ * Roll a single dice term
+ */
+function evaluateDiceTerm(
+  term: DiceTerm,
+  random: RandomSource,
+  critical: boolean
+): DiceTermResult {
+  const count = critical ? term.count * 2 : term.count;
+  const dice: DieResult[] = [];
+
+  for (let i = 0; i < count; i++) {
+    const die = rollWithRerolls(term, random);
+    dice.push(die);
+
+    let last = die.value;
+    let explosions = 0;
+    while (
+      term.explode &&
+      matchesComparison(last, term.explode) &&
+      explosions < DICE_NOTATION_LIMITS.MAX_EXPLOSIONS
+    ) {
+      last = rollDie(term.sides, random);
+      dice.push({ value: last, exploded: true });
+      explosions++;
+    }
+  }
+
+  if (term.selection) {
+    applySelection(dice, {
+      ...term.selection,
+      count: critical ? term.selection.count * 2 : term.selection.count,
+    });
+  }
+
+  const kept = dice.filter(die => !die.dropped).reduce((sum, die) => sum + die.value, 0);
+
+  return {
+    type: 'dice',
+    notation: term.notation,
+    sign: term.sign,
+    sides: term.sides,
+    dice,
+    total: term.sign * kept,
+  };
+}
+
+/**
+ * Roll a parsed expression
+ *
+ * A critical roll doubles the number of dice in every dice term but not
+ * the flat modifiers.
+ */
+export function evaluateDiceExpression(
+  expression: DiceExpression,
+  options: DiceEvaluationOptions = {}
+): DiceExpressionResult {
+  const random = options.random ?? Math.random;
+  const critical = options.critical ?? false;
+
+  const terms: DiceExpressionTermResult[] = expression.terms.map(term =>
+    term.type === 'dice'
+      ? evaluateDiceTerm(term, random, critical)
+      : { ...term, total: term.sign * term.value }
+  );
+
+  const diceTerms = terms.filter((term): term is DiceTermResult => term.type === 'dice');
+  const diceTotal = diceTerms.reduce((sum, term) => sum + term.total, 0);
+  const modifier = terms
+    .filter(term => term.type === 'modifier')
+    .reduce((sum, term) => sum + term.total, 0);
+
+  return {
+    notation: expression.notation,
+    terms,
+    rolls: diceTerms.flatMap(term => term.dice.filter(die => !die.dropped).map(die => die.value)),
+    diceTotal,
+    modifier,
+    total: diceTotal + modifier,
+    ...(critical && { isCritical: true }),
+  };
+}
+
+/**
+ * Parse and roll dice notation in one step
+ */
+export function rollDiceExpression(
+  notation: string,
+  options: DiceEvaluationOptions = {}
+): DiceExpressionResult {
+  return evaluateDiceExpression(parseDiceExpression(notation), options);
+}
+
+/**
+ * Build d20 notation for a roll mode and modifier, e.g. `1d20adv+3`
+ */
+export function buildD20Notation(mode: RollMode = 'normal', modifier: number = 0): string {
+  const die = mode === 'advantage' ? '1d20adv' : mode === 'disadvantage' ? '1d20dis' : '1d20';
+  if (modifier === 0) {
+    return die;
+  }
+  return `${die}${modifier > 0 ? '+' : '-'}${Math.abs(modifier)}`;
+}
+
+/**
+ * Get the lowest and highest possible totals of an expression,
+ * counting exploding dice as if they never explode
+ */
+export function getDiceExpressionRange(expression: DiceExpression): { minimum: number; maximum: number } {
+  return expression.terms.reduce(
+    (range, term) => {
+      if (term.type === 'modifier') {
+        const value = term.sign * term.value;
+        return { minimum: range.minimum + value, maximum: range.maximum + value };
+      }
+
+      const counted = term.selection
+        ? term.selection.keep ? term.selection.count : term.count - term.selection.count
+        : term.count;
+      const low = term.sign * counted;
+      const high = term.sign * counted * term.sides;
+      return {
+        minimum: range.minimum + Math.min(low, high),
+        maximum: range.maximum + Math.max(low, high),
+      };
+    },
+    { minimum: 0, maximum: 0 }
+  );
+}
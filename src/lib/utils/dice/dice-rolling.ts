@@ -1,24 +1,29 @@
 import { DiceType, DiceRollResult, DICE_VALUES } from './damage-types';
+import type { RandomSource } from './seeded-random';
 
 /**
  * Roll a single die of the specified type
  */
-export function rollDice(diceType: DiceType): number {
+export function rollDice(diceType: DiceType, random: RandomSource = Math.random): number {
   const sides = DICE_VALUES[diceType];
-  return Math.floor(Math.random() * sides) + 1;
+  return Math.floor(random() * sides) + 1;
 }
 
 /**
  * Roll multiple dice of the same type
  */
-export function rollMultipleDice(count: number, diceType: DiceType): number[] {
+export function rollMultipleDice(
+  count: number,
+  diceType: DiceType,
+  random: RandomSource = Math.random
+): number[] {
   if (count <= 0) {
     return [];
   }
 
   const rolls: number[] = [];
   for (let i = 0; i < count; i++) {
-    rolls.push(rollDice(diceType));
+    rolls.push(rollDice(diceType, random));
   }
 
   return rolls;
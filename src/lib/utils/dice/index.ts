@@ -1,6 +1,12 @@
 // Export all dice rolling functions
 export * from './dice-rolling';
 
+// Export the dice notation parser and evaluator
+export * from './dice-notation';
+
+// Export seeded random sources for deterministic rolls
+export * from './seeded-random';
+
 // Export all damage calculation functions
 export * from './damage-calculation';
 
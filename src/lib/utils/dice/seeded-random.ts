@@ -0,0 +1,31 @@
+/**
+ * Source of random numbers in the range [0, 1), compatible with Math.random
+ */
+export type RandomSource = () => number;
+
+/**
+ * Hash a string seed into a 32-bit integer
+ */
+function hashSeed(seed: string): number {
+  let hash = 1779033703 ^ seed.length;
+  for (let i = 0; i < seed.length; i++) {
+    hash = Math.imul(hash ^ seed.charCodeAt(i), 3432918353);
+    hash = (hash << 13) | (hash >>> 19);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * Create a deterministic random source (mulberry32) for repeatable rolls
+ */
+export function createSeededRandom(seed: number | string): RandomSource {
+  let state = typeof seed === 'string' ? hashSeed(seed) : seed >>> 0;
+
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
@@ -0,0 +1,250 @@
+/**
+ * Encounter difficulty calculation following the Dungeon Master's Guide
+ * (XP thresholds by character level, monster XP by challenge rating and
+ * the encounter multiplier for the number of monsters)
+ */
+
+export type DifficultyTier = 'easy' | 'medium' | 'hard' | 'deadly';
+
+/**
+ * Rating of an encounter; unknown when there are no characters to rate it against
+ */
+export type DifficultyRating = 'unknown' | 'trivial' | DifficultyTier;
+
+export type DifficultyThresholds = Record<DifficultyTier, number>;
+
+export interface DifficultyInput {
+  characterLevels: number[];
+  challengeRatings: number[];
+  unratedCount?: number;
+}
+
+export interface EncounterDifficultyBreakdown {
+  difficulty: DifficultyRating;
+  characterLevels: number[];
+  monsterCount: number;
+  unratedCount: number;
+  totalXP: number;
+  multiplier: number;
+  adjustedXP: number;
+  thresholds: DifficultyThresholds;
+  dailyBudget: number;
+  dailyBudgetPercentage: number;
+}
+
+/**
+ * Minimal participant shape needed to derive difficulty input
+ */
+export interface DifficultyParticipant {
+  isPlayer: boolean;
+  level?: number;
+  challengeRating?: number;
+}
+
+export const DIFFICULTY_TIERS: DifficultyTier[] = ['easy', 'medium', 'hard', 'deadly'];
+
+// XP thresholds per character, indexed by level - 1
+const XP_THRESHOLDS_BY_LEVEL: [number, number, number, number][] = [
+  [25, 50, 75, 100],
+  [50, 100, 150, 200],
+  [75, 150, 225, 400],
+  [125, 250, 375, 500],
+  [250, 500, 750, 1100],
+  [300, 600, 900, 1400],
+  [350, 750, 1100, 1700],
+  [450, 900, 1400, 2100],
+  [550, 1100, 1600, 2400],
+  [600, 1200, 1900, 2800],
+  [800, 1600, 2400, 3600],
+  [1000, 2000, 3000, 4500],
+  [1100, 2200, 3400, 5100],
+  [1250, 2500, 3800, 5700],
+  [1400, 2800, 4300, 6400],
+  [1600, 3200, 4800, 7200],
+  [2000, 3900, 5900, 8800],
+  [2100, 4200, 6300, 9500],
+  [2400, 4900, 7300, 10900],
+  [2800, 5700, 8500, 12700],
+];
+
+// Adjusted XP per character for a full adventuring day, indexed by level - 1
+const ADVENTURING_DAY_XP_BY_LEVEL = [
+  300, 600, 1200, 1700, 3500, 4000, 5000, 6000, 7500, 9000,
+  10500, 11500, 13500, 15000, 18000, 20000, 25000, 27000, 30000, 40000,
+];
+
+const XP_BY_CHALLENGE_RATING: Record<number, number> = {
+  0: 10,
+  0.125: 25,
+  0.25: 50,
+  0.5: 100,
+  1: 200,
+  2: 450,
+  3: 700,
+  4: 1100,
+  5: 1800,
+  6: 2300,
+  7: 2900,
+  8: 3900,
+  9: 5000,
+  10: 5900,
+  11: 7200,
+  12: 8400,
+  13: 10000,
+  14: 11500,
+  15: 13000,
+  16: 15000,
+  17: 18000,
+  18: 20000,
+  19: 22000,
+  20: 25000,
+  21: 33000,
+  22: 41000,
+  23: 50000,
+  24: 62000,
+  25: 75000,
+  26: 90000,
+  27: 105000,
+  28: 120000,
+  29: 135000,
+  30: 155000,
+};
+
+// Encounter multipliers, including the extra steps used for small and large parties
+const ENCOUNTER_MULTIPLIERS = [0.5, 1, 1.5, 2, 2.5, 3, 4, 5];
+
+/**
+ * Clamps a character level to the 1-20 range
+ */
+const toLevelIndex = (level: number): number =>
+  Math.min(Math.max(Math.floor(level) || 1, 1), 20) - 1;
+
+/**
+ * Get the XP awarded for a monster of the given challenge rating
+ */
+export const getXPForChallengeRating = (challengeRating: number): number => {
+  const clamped = Math.min(Math.max(challengeRating, 0), 30);
+  return XP_BY_CHALLENGE_RATING[clamped] ?? XP_BY_CHALLENGE_RATING[Math.floor(clamped)];
+};
+
+/**
+ * Get the summed per-tier XP thresholds for a party
+ */
+export const getPartyThresholds = (characterLevels: number[]): DifficultyThresholds => {
+  const thresholds: DifficultyThresholds = { easy: 0, medium: 0, hard: 0, deadly: 0 };
+
+  characterLevels.forEach(level => {
+    const levelThresholds = XP_THRESHOLDS_BY_LEVEL[toLevelIndex(level)];
+    DIFFICULTY_TIERS.forEach((tier, index) => {
+      thresholds[tier] += levelThresholds[index];
+    });
+  });
+
+  return thresholds;
+};
+
+/**
+ * Get the party's adjusted XP budget for a full adventuring day
+ */
+export const getDailyXPBudget = (characterLevels: number[]): number =>
+  characterLevels.reduce((total, level) => total + ADVENTURING_DAY_XP_BY_LEVEL[toLevelIndex(level)], 0);
+
+/**
+ * Get the encounter multiplier for the number of monsters, shifted one step
+ * up for parties of fewer than three and one step down for six or more
+ */
+export const getEncounterMultiplier = (monsterCount: number, partySize: number): number => {
+  if (monsterCount === 0) {
+    return 1;
+  }
+
+  let index: number;
+  if (monsterCount === 1) index = 1;
+  else if (monsterCount === 2) index = 2;
+  else if (monsterCount <= 6) index = 3;
+  else if (monsterCount <= 10) index = 4;
+  else if (monsterCount <= 14) index = 5;
+  else index = 6;
+
+  if (partySize > 0 && partySize < 3) index += 1;
+  else if (partySize >= 6) index -= 1;
+
+  return ENCOUNTER_MULTIPLIERS[index];
+};
+
+/**
+ * Rate adjusted XP against the party thresholds
+ */
+const rateDifficulty = (adjustedXP: number, thresholds: DifficultyThresholds, partySize: number): DifficultyRating => {
+  if (partySize === 0) {
+    return 'unknown';
+  }
+
+  if (adjustedXP === 0) {
+    return 'trivial';
+  }
+
+  const reached = [...DIFFICULTY_TIERS].reverse().find(tier => adjustedXP >= thresholds[tier]);
+  return reached ?? 'trivial';
+};
+
+/**
+ * Calculate the full difficulty breakdown for an encounter
+ */
+export const calculateDifficultyBreakdown = ({
+  characterLevels,
+  challengeRatings,
+  unratedCount = 0,
+}: DifficultyInput): EncounterDifficultyBreakdown => {
+  const totalXP = challengeRatings.reduce((total, cr) => total + getXPForChallengeRating(cr), 0);
+  const multiplier = getEncounterMultiplier(challengeRatings.length, characterLevels.length);
+  const adjustedXP = Math.round(totalXP * multiplier);
+  const thresholds = getPartyThresholds(characterLevels);
+  const dailyBudget = getDailyXPBudget(characterLevels);
+
+  return {
+    difficulty: rateDifficulty(adjustedXP, thresholds, characterLevels.length),
+    characterLevels,
+    monsterCount: challengeRatings.length,
+    unratedCount,
+    totalXP,
+    multiplier,
+    adjustedXP,
+    thresholds,
+    dailyBudget,
+    dailyBudgetPercentage: dailyBudget > 0 ? Math.round((adjustedXP / dailyBudget) * 100) : 0,
+  };
+};
+
+/**
+ * Split encounter participants into character levels and monster challenge ratings
+ *
+ * Player levels fall back to the encounter's target level. Resolved levels
+ * (from linked characters or the party) replace the participant levels when given.
+ */
+export const getDifficultyInput = (
+  participants: DifficultyParticipant[],
+  targetLevel?: number,
+  resolvedLevels?: number[]
+): DifficultyInput => {
+  const players = participants.filter(participant => participant.isPlayer);
+  const others = participants.filter(participant => !participant.isPlayer);
+  const rated = others.filter(participant => typeof participant.challengeRating === 'number');
+
+  return {
+    characterLevels:
+      resolvedLevels ?? players.map(participant => participant.level ?? targetLevel ?? 1),
+    challengeRatings: rated.map(participant => participant.challengeRating as number),
+    unratedCount: others.length - rated.length,
+  };
+};
+
+/**
+ * Calculate the difficulty breakdown for a list of encounter participants
+ */
+export const getEncounterDifficultyBreakdown = (
+  participants: DifficultyParticipant[],
+  targetLevel?: number,
+  resolvedLevels?: number[]
+): EncounterDifficultyBreakdown =>
+  calculateDifficultyBreakdown(getDifficultyInput(participants, targetLevel, resolvedLevels));
@@ -2,7 +2,6 @@
  * Utility functions for encounter management
  */
 
-import type { Types } from 'mongoose';
 import type { Encounter } from '@/lib/validations/encounter';
 
 /**
@@ -28,13 +27,6 @@ export const formatStatus = (status: string): string => {
   return status.charAt(0).toUpperCase() + status.slice(1);
 };
 
-/**
- * Generate share link for encounter
- */
-export const generateShareLink = (encounterId: string | Types.ObjectId): string => {
-  return `${window.location.origin}/encounters/${encounterId.toString()}/shared`;
-};
-
 /**
  * Copy text to clipboard with error handling
  */
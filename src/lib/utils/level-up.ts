@@ -0,0 +1,231 @@
+/**
+ * Level-up rules following the Player's Handbook: hit dice, multiclass
+ * ability prerequisites, hit point gains, proficiency bonus, Ability Score
+ * Improvement levels and the level at which each class picks its subclass
+ */
+
+import { abilityModifier, MAX_LEVEL, type AbilityName } from './character-stats';
+
+export type HitPointMethod = 'average' | 'roll';
+
+export const MAX_MULTICLASS_CLASSES = 3;
+
+export const MAX_ABILITY_SCORE = 20;
+
+export const MULTICLASS_MINIMUM_SCORE = 13;
+
+export interface LevelUpCharacter {
+  classes: Array<{ class: string; level: number; subclass?: string; hitDie: number }>;
+  abilityScores: Record<AbilityName, number>;
+}
+
+export interface LevelUpClassOption {
+  class: string;
+  currentLevel: number;
+  newLevel: number;
+  hitDie: number;
+  isNewClass: boolean;
+  eligible: boolean;
+  reason?: string;
+  grantsAbilityScoreImprovement: boolean;
+  unlocksSubclass: boolean;
+}
+
+export interface LevelUpOptions {
+  currentLevel: number;
+  newLevel: number;
+  proficiencyBonus: number;
+  averageHitPoints: Record<string, number>;
+  classes: LevelUpClassOption[];
+}
+
+export const CLASS_HIT_DICE: Record<string, number> = {
+  artificer: 8,
+  barbarian: 12,
+  bard: 8,
+  cleric: 8,
+  druid: 8,
+  fighter: 10,
+  monk: 8,
+  paladin: 10,
+  ranger: 10,
+  rogue: 8,
+  sorcerer: 6,
+  warlock: 8,
+  wizard: 6,
+};
+
+// Abilities that must be 13 or higher to multiclass into or out of a class;
+// `any` lists alternatives where one is enough
+const MULTICLASS_PREREQUISITES: Record<string, { all?: AbilityName[]; any?: AbilityName[] }> = {
+  artificer: { all: ['intelligence'] },
+  barbarian: { all: ['strength'] },
+  bard: { all: ['charisma'] },
+  cleric: { all: ['wisdom'] },
+  druid: { all: ['wisdom'] },
+  fighter: { any: ['strength', 'dexterity'] },
+  monk: { all: ['dexterity', 'wisdom'] },
+  paladin: { all: ['strength', 'charisma'] },
+  ranger: { all: ['dexterity', 'wisdom'] },
+  rogue: { all: ['dexterity'] },
+  sorcerer: { all: ['charisma'] },
+  warlock: { all: ['charisma'] },
+  wizard: { all: ['intelligence'] },
+};
+
+// Class levels that grant an Ability Score Improvement (or a feat instead)
+const ABILITY_SCORE_IMPROVEMENT_LEVELS: Record<string, number[]> = {
+  fighter: [4, 6, 8, 12, 14, 16, 19],
+  rogue: [4, 8, 10, 12, 16, 19],
+};
+
+const DEFAULT_ABILITY_SCORE_IMPROVEMENT_LEVELS = [4, 8, 12, 16, 19];
+
+// Class level at which the subclass is chosen; everything else chooses at 3rd level
+const SUBCLASS_LEVELS: Record<string, number> = {
+  cleric: 1,
+  sorcerer: 1,
+  warlock: 1,
+  druid: 2,
+  wizard: 2,
+};
+
+const DEFAULT_SUBCLASS_LEVEL = 3;
+
+const formatAbility = (ability: AbilityName): string => ability.charAt(0).toUpperCase() + ability.slice(1);
+
+/**
+ * Proficiency bonus for a total character level
+ */
+export const getProficiencyBonus = (level: number): number =>
+  Math.ceil(Math.min(Math.max(level, 1), MAX_LEVEL) / 4) + 1;
+
+/**
+ * Hit die for a class, falling back to d8 for unknown classes
+ */
+export const getHitDieForClass = (className: string): number => CLASS_HIT_DICE[className.toLowerCase()] ?? 8;
+
+/**
+ * Whether reaching a class level grants an Ability Score Improvement
+ */
+export const isAbilityScoreImprovementLevel = (className: string, classLevel: number): boolean =>
+  (ABILITY_SCORE_IMPROVEMENT_LEVELS[className.toLowerCase()] ?? DEFAULT_ABILITY_SCORE_IMPROVEMENT_LEVELS)
+    .includes(classLevel);
+
+/**
+ * Class level at which a subclass is chosen
+ */
+export const getSubclassLevel = (className: string): number =>
+  SUBCLASS_LEVELS[className.toLowerCase()] ?? DEFAULT_SUBCLASS_LEVEL;
+
+/**
+ * Prerequisite abilities a character is missing for a class, as a readable
+ * reason, or undefined when the prerequisites are met
+ */
+export const getMissingPrerequisite = (
+  abilityScores: Record<AbilityName, number>,
+  className: string
+): string | undefined => {
+  const prerequisite = MULTICLASS_PREREQUISITES[className.toLowerCase()];
+  if (!prerequisite) {
+    return undefined;
+  }
+
+  const meets = (ability: AbilityName) => abilityScores[ability] >= MULTICLASS_MINIMUM_SCORE;
+  if (prerequisite.all && !prerequisite.all.every(meets)) {
+    return `${className} requires ${prerequisite.all.map(formatAbility).join(' and ')} ${MULTICLASS_MINIMUM_SCORE}`;
+  }
+  if (prerequisite.any && !prerequisite.any.some(meets)) {
+    return `${className} requires ${prerequisite.any.map(formatAbility).join(' or ')} ${MULTICLASS_MINIMUM_SCORE}`;
+  }
+  return undefined;
+};
+
+/**
+ * Hit points gained from a level: the fixed average (half the die plus one)
+ * or a roll, plus the Constitution modifier, never less than 1
+ */
+export const calculateHitPointGain = (
+  hitDie: number,
+  constitution: number,
+  method: HitPointMethod,
+  roll?: number
+): number => {
+  const dieResult = method === 'average'
+    ? Math.floor(hitDie / 2) + 1
+    : Math.min(Math.max(roll ?? 1, 1), hitDie);
+  return Math.max(dieResult + abilityModifier(constitution), 1);
+};
+
+/**
+ * Hit points a level-up adds. The new level uses the Constitution score after
+ * any Ability Score Improvement taken at that level, and a raised Constitution
+ * modifier also adds one hit point for each level the character already had.
+ */
+export const calculateLevelUpHitPoints = (
+  hitDie: number,
+  constitutionBefore: number,
+  constitutionAfter: number,
+  previousLevel: number,
+  method: HitPointMethod,
+  roll?: number
+): number => {
+  const modifierIncrease = abilityModifier(constitutionAfter) - abilityModifier(constitutionBefore);
+  return calculateHitPointGain(hitDie, constitutionAfter, method, roll) + modifierIncrease * previousLevel;
+};
+
+/**
+ * Roll a hit die
+ */
+export const rollHitDie = (hitDie: number): number => Math.floor(Math.random() * hitDie) + 1;
+
+/**
+ * Every class the character could take its next level in. Existing classes
+ * only need a free level; a new class also needs the multiclass prerequisites
+ * of the new class and of every class the character already has.
+ */
+export const getLevelUpOptions = (character: LevelUpCharacter): LevelUpOptions => {
+  const currentLevel = character.classes.reduce((total, cls) => total + cls.level, 0);
+  const atMaxLevel = currentLevel >= MAX_LEVEL;
+  const existingClasses = new Map(character.classes.map(cls => [cls.class.toLowerCase(), cls]));
+  const existingPrerequisite = character.classes
+    .map(cls => getMissingPrerequisite(character.abilityScores, cls.class))
+    .find(reason => reason !== undefined);
+
+  const classes = Object.keys(CLASS_HIT_DICE).map((className): LevelUpClassOption => {
+    const existing = existingClasses.get(className);
+    const newLevel = (existing?.level ?? 0) + 1;
+
+    let reason: string | undefined;
+    if (atMaxLevel) {
+      reason = `Characters cannot advance beyond level ${MAX_LEVEL}`;
+    } else if (!existing && existingClasses.size >= MAX_MULTICLASS_CLASSES) {
+      reason = `Characters can have at most ${MAX_MULTICLASS_CLASSES} classes`;
+    } else if (!existing) {
+      reason = getMissingPrerequisite(character.abilityScores, className) ?? existingPrerequisite;
+    }
+
+    return {
+      class: className,
+      currentLevel: existing?.level ?? 0,
+      newLevel,
+      hitDie: existing?.hitDie ?? getHitDieForClass(className),
+      isNewClass: !existing,
+      eligible: reason === undefined,
+      ...(reason && { reason }),
+      grantsAbilityScoreImprovement: isAbilityScoreImprovementLevel(className, newLevel),
+      unlocksSubclass: !existing?.subclass && newLevel >= getSubclassLevel(className),
+    };
+  });
+
+  return {
+    currentLevel,
+    newLevel: Math.min(currentLevel + 1, MAX_LEVEL),
+    proficiencyBonus: getProficiencyBonus(currentLevel + 1),
+    averageHitPoints: Object.fromEntries(classes.map(option => [
+      option.class,
+      calculateHitPointGain(option.hitDie, character.abilityScores.constitution, 'average'),
+    ])),
+    classes,
+  };
+};
@@ -0,0 +1,202 @@
+import { abilityModifier, type AbilityName } from './character-stats';
+import { rollHitDie } from './level-up';
+import { buildCharacterResources, rechargesOnRest, type RestType } from '../models/encounter/resources';
+import type { IParticipantResource } from '../models/encounter/interfaces';
+
+export type { RestType };
+
+/**
+ * Minimal character shape needed to take a rest, satisfied by both the
+ * database model and the client-side character type
+ */
+export interface RestCharacter {
+  name: string;
+  classes: Array<{ class: string; level: number; hitDie: number; subclass?: string; hitDiceUsed?: number }>;
+  abilityScores: Record<AbilityName, number>;
+  proficiencyBonus: number;
+  hitPoints: { maximum: number; current: number; temporary: number };
+  exhaustion?: number;
+  resources?: IParticipantResource[];
+}
+
+export interface HitDicePool {
+  hitDie: number;
+  total: number;
+  available: number;
+}
+
+export interface HitDieSpend {
+  hitDie: number;
+  roll: number;
+  healing: number;
+}
+
+export interface RestOutcome {
+  classes: RestCharacter['classes'];
+  hitPoints: RestCharacter['hitPoints'];
+  exhaustion: number;
+  resources: IParticipantResource[];
+  hitPointsRestored: number;
+  hitDiceSpent: HitDieSpend[];
+  hitDiceRecovered: number;
+  resourcesRestored: string[];
+}
+
+/**
+ * Hit dice by die size, largest first
+ */
+export const getHitDicePools = (character: Pick<RestCharacter, 'classes'>): HitDicePool[] => {
+  const pools = new Map<number, HitDicePool>();
+  character.classes.forEach(cls => {
+    const pool = pools.get(cls.hitDie) ?? { hitDie: cls.hitDie, total: 0, available: 0 };
+    pool.total += cls.level;
+    pool.available += Math.max(0, cls.level - (cls.hitDiceUsed ?? 0));
+    pools.set(cls.hitDie, pool);
+  });
+  return [...pools.values()].sort((a, b) => b.hitDie - a.hitDie);
+};
+
+export const getAvailableHitDice = (character: Pick<RestCharacter, 'classes'>): number =>
+  getHitDicePools(character).reduce((total, pool) => total + pool.available, 0);
+
+/**
+ * The die sizes spent for a number of hit dice, largest dice first
+ */
+const pickHitDice = (character: Pick<RestCharacter, 'classes'>, count: number): number[] =>
+  getHitDicePools(character)
+    .flatMap(pool => Array<number>(pool.available).fill(pool.hitDie))
+    .slice(0, count);
+
+/**
+ * Why a character cannot spend these hit dice, or null when it can.
+ * Rolls are the numbers shown on each die, in the order the dice are spent.
+ */
+export const getHitDiceSpendError = (character: RestCharacter, count: number, rolls: number[] = []): string | null => {
+  const available = getAvailableHitDice(character);
+  if (count > available) {
+    return `${character.name} has only ${available} hit ${available === 1 ? 'die' : 'dice'} left`;
+  }
+  if (rolls.length > count) {
+    return `${character.name} is spending only ${count} hit ${count === 1 ? 'die' : 'dice'}`;
+  }
+
+  const dice = pickHitDice(character, count);
+  const invalid = rolls.findIndex((roll, index) => roll < 1 || roll > dice[index]);
+  return invalid === -1 ? null : `Roll ${rolls[invalid]} is not possible on a d${dice[invalid]}`;
+};
+
+/**
+ * Marks dice as spent (positive) or recovered (negative), largest dice first
+ */
+const adjustHitDiceUsed = (classes: RestCharacter['classes'], hitDie: number, change: number) => {
+  let remaining = Math.abs(change);
+  classes
+    .filter(cls => cls.hitDie === hitDie)
+    .forEach(cls => {
+      const used = cls.hitDiceUsed ?? 0;
+      const step = change > 0 ? Math.min(remaining, cls.level - used) : Math.min(remaining, used);
+      cls.hitDiceUsed = used + (change > 0 ? step : -step);
+      remaining -= step;
+    });
+};
+
+/**
+ * Class resources with their current uses, refilled when they recharge on the rest.
+ * Pools follow the character's current classes; custom counters are kept.
+ */
+const restoreResources = (character: RestCharacter, rest: RestType) => {
+  const current = new Map((character.resources ?? []).map(resource => [resource.id, resource]));
+  const custom = (character.resources ?? [])
+    .filter(resource => resource.kind === 'custom')
+    .map(({ id, name, kind, max, remaining, recharge }) => ({ id, name, kind, max, remaining, recharge }));
+  const restored: string[] = [];
+
+  const resources = [...buildCharacterResources(character), ...custom].map(pool => {
+    const remaining = Math.min(current.get(pool.id)?.remaining ?? pool.max, pool.max);
+    if (!rechargesOnRest(pool, rest) || remaining === pool.max) {
+      return { ...pool, remaining };
+    }
+
+    restored.push(pool.name);
+    return { ...pool, remaining: pool.max };
+  });
+
+  return { resources, restored };
+};
+
+const copyClasses = (character: RestCharacter): RestCharacter['classes'] =>
+  character.classes.map(cls => ({
+    class: cls.class,
+    level: cls.level,
+    hitDie: cls.hitDie,
+    ...(cls.subclass && { subclass: cls.subclass }),
+    hitDiceUsed: cls.hitDiceUsed ?? 0,
+  }));
+
+/**
+ * Short rest: each spent hit die heals its roll plus the Constitution modifier
+ * (at least 0), and short-rest resources are restored. Dice without a given
+ * roll are rolled.
+ */
+export const calculateShortRest = (
+  character: RestCharacter,
+  hitDice: number,
+  rolls: number[] = [],
+  roll: (_hitDie: number) => number = rollHitDie
+): RestOutcome => {
+  const constitution = abilityModifier(character.abilityScores.constitution);
+  const classes = copyClasses(character);
+  const hitDiceSpent = pickHitDice(character, hitDice).map((hitDie, index) => {
+    const result = rolls[index] ?? roll(hitDie);
+    adjustHitDiceUsed(classes, hitDie, 1);
+    return { hitDie, roll: result, healing: Math.max(0, result + constitution) };
+  });
+
+  const { maximum, current, temporary } = character.hitPoints;
+  const healed = Math.min(maximum, current + hitDiceSpent.reduce((total, spend) => total + spend.healing, 0));
+  const { resources, restored } = restoreResources(character, 'short');
+
+  return {
+    classes,
+    hitPoints: { maximum, current: healed, temporary },
+    exhaustion: character.exhaustion ?? 0,
+    resources,
+    hitPointsRestored: healed - current,
+    hitDiceSpent,
+    hitDiceRecovered: 0,
+    resourcesRestored: restored,
+  };
+};
+
+/**
+ * Long rest: hit points are restored, temporary hit points are lost, half the
+ * character's total hit dice (at least one) are recovered, exhaustion drops by
+ * one level and every rechargeable resource is restored
+ */
+export const calculateLongRest = (character: RestCharacter): RestOutcome => {
+  const classes = copyClasses(character);
+  const totalLevel = character.classes.reduce((total, cls) => total + cls.level, 0);
+  let recoverable = Math.max(1, Math.floor(totalLevel / 2));
+  let hitDiceRecovered = 0;
+
+  getHitDicePools(character).forEach(pool => {
+    const recovered = Math.min(recoverable, pool.total - pool.available);
+    adjustHitDiceUsed(classes, pool.hitDie, -recovered);
+    recoverable -= recovered;
+    hitDiceRecovered += recovered;
+  });
+
+  const { maximum, current } = character.hitPoints;
+  const { resources, restored } = restoreResources(character, 'long');
+
+  return {
+    classes,
+    hitPoints: { maximum, current: maximum, temporary: 0 },
+    exhaustion: Math.max(0, (character.exhaustion ?? 0) - 1),
+    resources,
+    hitPointsRestored: maximum - current,
+    hitDiceSpent: [],
+    hitDiceRecovered,
+    resourcesRestored: restored,
+  };
+};
@@ -7,6 +7,7 @@ import {
   startCombatSchema,
   updateInitiativeSchema,
   damageParticipantSchema,
+  combatDamageSchema,
   healParticipantSchema,
   addConditionSchema,
   removeConditionSchema,
@@ -275,6 +276,34 @@ describe('Encounter Validation Schemas', () => {
       });
     });
 
+    describe('combatDamageSchema', () => {
+      it('should validate typed damage instances', () => {
+        const result = combatDamageSchema.safeParse({
+          participantId: '507f1f77bcf86cd799439012',
+          instances: [
+            { amount: 12, damageType: 'fire' },
+            { amount: 5, damageType: 'slashing', magical: true },
+          ],
+        });
+        expect(result.success).toBe(true);
+      });
+
+      it('should reject unknown damage types', () => {
+        const result = combatDamageSchema.safeParse({
+          participantId: '507f1f77bcf86cd799439012',
+          instances: [{ amount: 12, damageType: 'sonic' }],
+        });
+        expect(result.success).toBe(false);
+      });
+
+      it('should require damage or instances', () => {
+        const result = combatDamageSchema.safeParse({
+          participantId: '507f1f77bcf86cd799439012',
+        });
+        expect(result.success).toBe(false);
+      });
+    });
+
     describe('healParticipantSchema', () => {
       it('should validate healing application', () => {
         const result = healParticipantSchema.safeParse({
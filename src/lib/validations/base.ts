@@ -89,6 +89,38 @@ export const challengeRatingSchema = z
   .min(0, 'Challenge Rating cannot be negative')
   .max(30, 'Challenge Rating cannot exceed 30');
 
+export const damageTypeSchema = z.enum(
+  [
+    'acid',
+    'bludgeoning',
+    'cold',
+    'fire',
+    'force',
+    'lightning',
+    'necrotic',
+    'piercing',
+    'poison',
+    'psychic',
+    'radiant',
+    'slashing',
+    'thunder',
+  ],
+  {
+    errorMap: () => ({ message: 'Invalid damage type' }),
+  }
+);
+
+// Statblock-style defense entries, e.g. "fire", "slashing from nonmagical attacks" or "charmed"
+export const defenseListSchema = z
+  .array(
+    z
+      .string()
+      .trim()
+      .min(1, 'Defense entry is required')
+      .max(100, 'Defense entry cannot exceed 100 characters')
+  )
+  .max(20, 'Cannot have more than 20 entries');
+
 // Date validation schemas
 export const dateSchema = z
   .string()
@@ -0,0 +1,112 @@
+import { z } from 'zod';
+import { objectIdSchema } from './base';
+
+/**
+ * Validation schemas for campaign operations
+ */
+
+// Where a campaign is in its life
+export const campaignStatusSchema = z.enum(['planning', 'active', 'on_hold', 'completed']);
+
+// Campaign tags validation
+export const campaignTagsSchema = z
+  .array(z.string().min(1, 'Tag cannot be empty').max(50, 'Tag cannot exceed 50 characters'))
+  .max(10, 'Campaign cannot have more than 10 tags')
+  .default([]);
+
+// Parties playing in the campaign
+export const campaignPartyIdsSchema = z
+  .array(objectIdSchema)
+  .max(10, 'Campaign cannot have more than 10 parties')
+  .refine(ids => new Set(ids).size === ids.length, 'Parties cannot be listed twice')
+  .default([]);
+
+// Encounters in the order the DM plans to run them
+export const encounterPlanSchema = z
+  .array(objectIdSchema)
+  .max(200, 'Encounter plan cannot have more than 200 encounters')
+  .refine(ids => new Set(ids).size === ids.length, 'Encounters cannot be planned twice')
+  .default([]);
+
+// Core campaign creation schema
+export const campaignCreateSchema = z.object({
+  name: z
+    .string()
+    .min(1, 'Campaign name is required')
+    .max(100, 'Campaign name cannot exceed 100 characters')
+    .trim(),
+  description: z
+    .string()
+    .max(2000, 'Description cannot exceed 2000 characters')
+    .trim()
+    .default(''),
+  status: campaignStatusSchema.default('planning'),
+  tags: campaignTagsSchema,
+  partyIds: campaignPartyIdsSchema,
+  encounterPlan: encounterPlanSchema,
+});
+
+// Campaign update schema (all fields optional)
+export const campaignUpdateSchema = z.object({
+  name: z
+    .string()
+    .min(1, 'Campaign name is required')
+    .max(100, 'Campaign name cannot exceed 100 characters')
+    .trim()
+    .optional(),
+  description: z
+    .string()
+    .max(2000, 'Description cannot exceed 2000 characters')
+    .trim()
+    .optional(),
+  status: campaignStatusSchema.optional(),
+  tags: campaignTagsSchema.optional(),
+  partyIds: campaignPartyIdsSchema.optional(),
+  encounterPlan: encounterPlanSchema.optional(),
+});
+
+// Loot handed out at the table
+export const campaignLootSchema = z.object({
+  name: z
+    .string()
+    .min(1, 'Loot name is required')
+    .max(100, 'Loot name cannot exceed 100 characters')
+    .trim(),
+  quantity: z.number().int('Quantity must be a whole number').min(1).max(9999).default(1),
+});
+
+// One game night in the session log
+export const campaignSessionSchema = z.object({
+  date: z.coerce.date({ invalid_type_error: 'Invalid session date' }),
+  title: z.string().max(100, 'Session title cannot exceed 100 characters').trim().optional(),
+  attendees: z.array(objectIdSchema).max(50, 'Session cannot have more than 50 attendees').default([]),
+  encounterIds: z.array(objectIdSchema).max(50, 'Session cannot list more than 50 encounters').default([]),
+  xpAwarded: z.number().int('XP must be a whole number').min(0, 'XP cannot be negative').max(1000000).default(0),
+  loot: z.array(campaignLootSchema).max(100, 'Session cannot list more than 100 loot items').default([]),
+  notes: z.string().max(10000, 'Notes cannot exceed 10000 characters').trim().default(''),
+});
+
+export const campaignSessionUpdateSchema = campaignSessionSchema.partial();
+
+// Sort options
+export const campaignSortBySchema = z.enum(['name', 'createdAt', 'updatedAt']);
+
+// Campaign query schema (for GET requests)
+export const campaignQuerySchema = z.object({
+  search: z.string().trim().max(100).optional(),
+  status: campaignStatusSchema.optional(),
+  sortBy: campaignSortBySchema.default('updatedAt'),
+  sortOrder: z.enum(['asc', 'desc']).default('desc'),
+  page: z.number().int().min(1).default(1),
+  limit: z.number().int().min(1).max(100).default(20),
+});
+
+// Type exports for use in services and API routes
+export type CampaignStatus = z.infer<typeof campaignStatusSchema>;
+export type CampaignCreate = z.infer<typeof campaignCreateSchema>;
+export type CampaignUpdate = z.infer<typeof campaignUpdateSchema>;
+export type CampaignLoot = z.infer<typeof campaignLootSchema>;
+export type CampaignSession = z.infer<typeof campaignSessionSchema>;
+export type CampaignSessionUpdate = z.infer<typeof campaignSessionUpdateSchema>;
+export type CampaignSortBy = z.infer<typeof campaignSortBySchema>;
+export type CampaignQuery = z.infer<typeof campaignQuerySchema>;
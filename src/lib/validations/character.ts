@@ -10,8 +10,10 @@ import {
   dateSchema,
   createOptionalSchema,
   createArraySchema,
+  defenseListSchema,
   type InferSchemaType,
 } from './base';
+import { participantResourceSchema } from './encounter';
 
 /**
  * Character validation schemas for D&D 5e characters (PCs and NPCs)
@@ -102,6 +104,7 @@ export const characterClassLevelSchema = z.object({
   level: levelSchema,
   hitDie: z.number().int().min(4).max(12),
   subclass: createOptionalSchema(z.string().min(1).max(50)),
+  hitDiceUsed: z.number().int().min(0).max(20).optional(),
 });
 
 // Equipment item
@@ -159,6 +162,9 @@ export const characterCreationSchema = z.object({
   armorClass: armorClassSchema,
   speed: z.number().int().min(0).max(120).default(30),
   proficiencyBonus: z.number().int().min(2).max(6),
+  experiencePoints: z.number().int().min(0).optional(),
+  exhaustion: z.number().int().min(0).max(6).optional(),
+  resources: z.array(participantResourceSchema).optional(),
   savingThrows: z.object({
     strength: z.boolean().default(false),
     dexterity: z.boolean().default(false),
@@ -170,6 +176,11 @@ export const characterCreationSchema = z.object({
   skills: z.record(z.string(), z.boolean()).default({}),
   equipment: createArraySchema(equipmentItemSchema, 0, 100).default([]),
   spells: createArraySchema(spellSchema, 0, 200).default([]),
+  feats: createArraySchema(z.string().min(1).max(100), 0, 50).optional(),
+  damageResistances: defenseListSchema.optional(),
+  damageVulnerabilities: defenseListSchema.optional(),
+  damageImmunities: defenseListSchema.optional(),
+  conditionImmunities: defenseListSchema.optional(),
   backstory: createOptionalSchema(z.string().max(2000)),
   notes: createOptionalSchema(z.string().max(1000)),
   imageUrl: createOptionalSchema(z.string().url()),
@@ -259,6 +270,22 @@ export const characterPresetSchema = z.object({
   armorClass: armorClassSchema,
 });
 
+// Level-up choices; ability score increases must add up to the two points of an Ability Score Improvement
+export const levelUpSchema = z.object({
+  class: characterClassSchema,
+  hitPointMethod: z.enum(['average', 'roll']).default('average'),
+  hitPointRoll: z.number().int().min(1).max(12).optional(),
+  subclass: z.string().trim().min(1).max(50).optional(),
+  abilityScoreIncreases: z
+    .record(abilityScoresSchema.keyof(), z.number().int().min(1).max(2))
+    .refine(
+      increases => Object.values(increases).reduce((total, value) => total + (value ?? 0), 0) === 2,
+      'Ability score increases must add up to 2'
+    )
+    .optional(),
+  feat: z.string().trim().min(1).max(100).optional(),
+});
+
 // Character import/export schema
 export const characterExportSchema = characterSchema.omit({
   _id: true,
@@ -286,3 +313,4 @@ export type CharacterClassLevel = InferSchemaType<
 export type EquipmentItem = InferSchemaType<typeof equipmentItemSchema>;
 export type Spell = InferSchemaType<typeof spellSchema>;
 export type Size = InferSchemaType<typeof sizeSchema>;
+export type LevelUpChoice = InferSchemaType<typeof levelUpSchema>;
@@ -0,0 +1,39 @@
+import { z } from 'zod';
+
+/**
+ * Validation schemas for encounter and party collaborators
+ */
+
+// What a collaborator may do: viewers look, players also bring their own
+// characters, co-DMs edit and run combat alongside the owner
+export const collaboratorRoleSchema = z.enum(['viewer', 'player', 'co_dm']);
+
+export const collaboratorStatusSchema = z.enum(['pending', 'accepted', 'declined']);
+
+export const collaborationResourceSchema = z.enum(['encounter', 'party']);
+
+// Invite a user by email address or username
+export const inviteCollaboratorSchema = z.object({
+  identifier: z
+    .string()
+    .trim()
+    .min(1, 'Email or username is required')
+    .max(254, 'Email or username is too long'),
+  role: collaboratorRoleSchema.default('viewer'),
+});
+
+export const updateCollaboratorSchema = z.object({
+  role: collaboratorRoleSchema,
+});
+
+export const respondToInvitationSchema = z.object({
+  status: z.enum(['accepted', 'declined']),
+});
+
+// Type exports
+export type CollaboratorRole = z.infer<typeof collaboratorRoleSchema>;
+export type CollaboratorStatus = z.infer<typeof collaboratorStatusSchema>;
+export type CollaborationResource = z.infer<typeof collaborationResourceSchema>;
+export type InviteCollaborator = z.infer<typeof inviteCollaboratorSchema>;
+export type UpdateCollaborator = z.infer<typeof updateCollaboratorSchema>;
+export type RespondToInvitation = z.infer<typeof respondToInvitationSchema>;
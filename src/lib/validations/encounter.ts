@@ -10,8 +10,16 @@ import {
   initiativeSchema,
   challengeRatingSchema,
   abilityScoreSchema,
+  damageTypeSchema,
+  defenseListSchema,
   type InferSchemaType,
 } from './base';
+import {
+  CONDITION_NAMES,
+  CONDITION_EXPIRY_TYPES,
+  SAVE_ABILITIES,
+  MAX_EXHAUSTION_LEVEL,
+} from '../utils/conditions';
 
 /**
  * Encounter validation schemas for D&D combat encounter management
@@ -38,6 +46,120 @@ export const participantTypeSchema = z.enum(['pc', 'npc', 'monster'], {
   errorMap: () => ({ message: 'Invalid participant type' }),
 });
 
+// Condition validation
+export const conditionNameSchema = z.enum(CONDITION_NAMES, {
+  errorMap: () => ({ message: 'Invalid condition' }),
+});
+
+export const conditionExpirySchema = z.enum(CONDITION_EXPIRY_TYPES, {
+  errorMap: () => ({ message: 'Invalid condition expiry' }),
+});
+
+export const saveAbilitySchema = z.enum(SAVE_ABILITIES, {
+  errorMap: () => ({ message: 'Invalid saving throw ability' }),
+});
+
+const exhaustionLevelSchema = z
+  .number()
+  .int('Exhaustion level must be a whole number')
+  .min(1, 'Exhaustion level must be at least 1')
+  .max(MAX_EXHAUSTION_LEVEL, `Exhaustion level cannot exceed ${MAX_EXHAUSTION_LEVEL}`);
+
+const saveDCSchema = z
+  .number()
+  .int('Save DC must be a whole number')
+  .min(1, 'Save DC must be at least 1')
+  .max(30, 'Save DC cannot exceed 30');
+
+// Condition tracked on a participant
+export const participantConditionSchema = z.object({
+  name: conditionNameSchema,
+  level: exhaustionLevelSchema.optional(),
+  sourceId: objectIdSchema.optional(),
+  expiry: conditionExpirySchema.default('indefinite'),
+  roundsRemaining: z.number().int().min(0).optional(),
+  expiryParticipantId: objectIdSchema.optional(),
+  saveDC: saveDCSchema.optional(),
+  saveAbility: saveAbilitySchema.optional(),
+  appliedRound: z.number().int().min(0).optional(),
+  appliedTurnOf: objectIdSchema.optional(),
+  savePending: z.boolean().optional(),
+});
+
+const spellNameSchema = z
+  .string()
+  .trim()
+  .min(1, 'Spell name is required')
+  .max(100, 'Spell name cannot exceed 100 characters');
+
+const effectIdSchema = z.string().trim().min(1, 'Effect ID is required').max(100);
+
+// Round-tracking effects that end with a concentration
+const linkedEffectIdsSchema = z.array(effectIdSchema).max(20, 'Cannot link more than 20 effects');
+
+// Round-tracking effect on a participant
+export const combatEffectSchema = z.object({
+  id: effectIdSchema,
+  name: z
+    .string()
+    .trim()
+    .min(1, 'Effect name is required')
+    .max(100, 'Effect name cannot exceed 100 characters'),
+  participantId: objectIdSchema,
+  duration: z.number().int('Duration must be a whole number').min(1, 'Duration must be at least 1 round'),
+  startRound: z.number().int().min(0).default(0),
+  description: z.string().trim().max(500, 'Description cannot exceed 500 characters').default(''),
+});
+
+// Spell a participant is concentrating on
+export const participantConcentrationSchema = z.object({
+  spellName: spellNameSchema,
+  startRound: z.number().int().min(0).default(0),
+  linkedEffectIds: linkedEffectIdsSchema.default([]),
+  pendingSaveDCs: z.array(z.number().int().min(1)).default([]),
+});
+
+const deathSaveCountSchema = z.number().int().min(0).max(3).default(0);
+
+// Death saving throws of a player character at 0 HP
+export const deathSavesSchema = z.object({
+  status: z.enum(['unconscious', 'stable', 'dead']).default('unconscious'),
+  successes: deathSaveCountSchema,
+  failures: deathSaveCountSchema,
+  awaitingRoll: z.boolean().default(false),
+});
+
+const legendaryActionCountSchema = z
+  .number()
+  .int('Legendary actions must be a whole number')
+  .min(0, 'Legendary actions cannot be negative')
+  .max(5, 'Cannot have more than 5 legendary actions');
+
+// Legendary action pool of a legendary creature
+export const legendaryActionsSchema = z.object({
+  max: legendaryActionCountSchema.min(1, 'A legendary action pool needs at least 1 action'),
+  remaining: legendaryActionCountSchema,
+});
+
+const resourceUsesSchema = z
+  .number()
+  .int('Resource uses must be a whole number')
+  .min(0, 'Resource uses cannot be negative')
+  .max(99, 'Cannot have more than 99 uses of a resource');
+
+export const resourceRechargeSchema = z.enum(['short_rest', 'long_rest', 'none']);
+
+// Limited-use resource of a participant, such as spell slots or ki points
+export const participantResourceSchema = z.object({
+  id: z.string().min(1),
+  name: z.string().min(1).max(50),
+  kind: z.enum(['spell_slot', 'pact_slot', 'ki', 'rage', 'channel_divinity', 'custom']),
+  level: z.number().int().min(1).max(9).optional(),
+  max: resourceUsesSchema.min(1, 'A resource needs at least 1 use'),
+  remaining: resourceUsesSchema,
+  recharge: resourceRechargeSchema,
+});
+
 // Initiative entry schema for tracking turn order
 export const initiativeEntrySchema = z.object({
   participantId: objectIdSchema,
@@ -45,6 +167,7 @@ export const initiativeEntrySchema = z.object({
   dexterity: abilityScoreSchema,
   isActive: z.boolean().default(false),
   hasActed: z.boolean().default(false),
+  isLairAction: z.boolean().optional(),
 });
 
 // Participant reference schema for encounter participants
@@ -63,20 +186,24 @@ export const participantReferenceSchema = z.object({
   isPlayer: z.boolean().default(false),
   isVisible: z.boolean().default(true),
   notes: z.string().max(500, 'Notes cannot exceed 500 characters').default(''),
-  conditions: createArraySchema(
-    z
-      .string()
-      .min(1, 'Condition name is required')
-      .max(50, 'Condition name cannot exceed 50 characters'),
-    0,
-    20
-  ).default([]),
+  conditions: createArraySchema(participantConditionSchema, 0, 20).default([]),
   position: createOptionalSchema(
     z.object({
       x: z.number().min(0, 'X position cannot be negative'),
       y: z.number().min(0, 'Y position cannot be negative'),
     })
   ),
+  level: createOptionalSchema(levelSchema),
+  challengeRating: createOptionalSchema(challengeRatingSchema),
+  damageResistances: defenseListSchema.optional(),
+  damageVulnerabilities: defenseListSchema.optional(),
+  damageImmunities: defenseListSchema.optional(),
+  conditionImmunities: defenseListSchema.optional(),
+  constitutionSave: z.number().int().min(-5).max(20).optional(),
+  concentration: participantConcentrationSchema.nullable().optional(),
+  deathSaves: deathSavesSchema.nullable().optional(),
+  legendaryActions: legendaryActionsSchema.nullable().optional(),
+  resources: z.array(participantResourceSchema).optional(),
 });
 
 // Base encounter settings object schema
@@ -133,6 +260,7 @@ export const combatStateSchema = z.object({
     .min(0, 'Turn cannot be negative')
     .default(0),
   initiativeOrder: createArraySchema(initiativeEntrySchema, 0, 50).default([]),
+  effects: z.array(combatEffectSchema).default([]),
   startedAt: createOptionalSchema(dateSchema),
   pausedAt: createOptionalSchema(dateSchema),
   endedAt: createOptionalSchema(dateSchema),
@@ -244,18 +372,42 @@ export const updateInitiativeSchema = z.object({
   initiative: initiativeSchema,
 });
 
+const damageAmountSchema = z
+  .number()
+  .int('Damage must be a whole number')
+  .min(0, 'Damage cannot be negative');
+
+// A typed portion of a hit, e.g. 12 fire
+export const damageInstanceSchema = z.object({
+  amount: damageAmountSchema,
+  damageType: damageTypeSchema.optional(),
+  magical: z.boolean().optional(),
+});
+
 export const damageParticipantSchema = z.object({
   encounterId: objectIdSchema,
   participantId: objectIdSchema,
-  damage: z
-    .number()
-    .int('Damage must be a whole number')
-    .min(0, 'Damage cannot be negative'),
+  damage: damageAmountSchema,
   damageType: createOptionalSchema(
     z.string().max(50, 'Damage type cannot exceed 50 characters')
   ),
 });
 
+// Combat damage request: a single amount or several typed instances
+export const combatDamageSchema = z
+  .object({
+    participantId: objectIdSchema,
+    damage: damageAmountSchema.optional(),
+    damageType: damageTypeSchema.optional(),
+    magical: z.boolean().optional(),
+    instances: createArraySchema(damageInstanceSchema, 1, 20).optional(),
+    critical: z.boolean().optional(),
+  })
+  .refine(data => data.damage !== undefined || data.instances !== undefined, {
+    message: 'Either damage or damage instances are required',
+    path: ['instances'],
+  });
+
 export const healParticipantSchema = z.object({
   encounterId: objectIdSchema,
   participantId: objectIdSchema,
@@ -265,25 +417,129 @@ export const healParticipantSchema = z.object({
     .min(0, 'Healing cannot be negative'),
 });
 
-export const addConditionSchema = z.object({
-  encounterId: objectIdSchema,
+// Combat healing request
+export const combatHealSchema = healParticipantSchema.omit({ encounterId: true });
+
+// A participant joining a running combat
+export const joinCombatSchema = participantReferenceSchema.extend({
+  initiative: initiativeSchema,
+  dexterity: abilityScoreSchema.default(10),
+});
+
+export const leaveCombatSchema = z.object({
   participantId: objectIdSchema,
-  condition: z
-    .string()
-    .min(1, 'Condition name is required')
-    .max(50, 'Condition name cannot exceed 50 characters'),
+});
+
+// Condition to apply to a participant during combat
+const conditionApplicationSchema = z.object({
+  participantId: objectIdSchema,
+  condition: conditionNameSchema,
+  level: exhaustionLevelSchema.optional(),
+  sourceId: objectIdSchema.optional(),
+  expiry: conditionExpirySchema.optional(),
   duration: createOptionalSchema(
     z
       .number()
       .int('Duration must be a whole number')
       .min(1, 'Duration must be at least 1 round')
   ),
+  expiryParticipantId: objectIdSchema.optional(),
+  saveDC: saveDCSchema.optional(),
+  saveAbility: saveAbilitySchema.optional(),
 });
 
+const refineConditionApplication = <T extends z.infer<typeof conditionApplicationSchema>>(
+  schema: z.ZodType<T, z.ZodTypeDef, unknown>
+) =>
+  schema
+    .refine(data => data.expiry !== 'rounds' || data.duration !== undefined, {
+      message: 'Duration is required for conditions that last a number of rounds',
+      path: ['duration'],
+    })
+    .refine(data => data.expiry !== 'save' || data.saveDC !== undefined, {
+      message: 'Save DC is required for conditions that end on a successful save',
+      path: ['saveDC'],
+    });
+
+export const applyConditionSchema = refineConditionApplication(conditionApplicationSchema);
+
+export const addConditionSchema = refineConditionApplication(
+  conditionApplicationSchema.extend({ encounterId: objectIdSchema })
+);
+
 export const removeConditionSchema = z.object({
   encounterId: objectIdSchema,
   participantId: objectIdSchema,
-  condition: z.string().min(1, 'Condition name is required'),
+  condition: conditionNameSchema,
+});
+
+const saveTotalSchema = z.number().int('Save total must be a whole number').min(-10).max(50);
+
+export const conditionSaveSchema = z.object({
+  participantId: objectIdSchema,
+  condition: conditionNameSchema,
+  total: saveTotalSchema,
+});
+
+export const startConcentrationSchema = z.object({
+  participantId: objectIdSchema,
+  spellName: spellNameSchema,
+  linkedEffectIds: linkedEffectIdsSchema.optional(),
+});
+
+export const addCombatEffectSchema = combatEffectSchema.omit({ startRound: true });
+
+export const removeCombatEffectSchema = z.object({
+  participantId: objectIdSchema,
+  effectId: effectIdSchema,
+});
+
+export const concentrationSaveSchema = z.object({
+  participantId: objectIdSchema,
+  total: saveTotalSchema,
+});
+
+export const deathSaveRollSchema = z.object({
+  participantId: objectIdSchema,
+  roll: z
+    .number()
+    .int('Death save roll must be a whole number')
+    .min(1, 'Death save roll must be between 1 and 20')
+    .max(20, 'Death save roll must be between 1 and 20')
+    .optional(),
+});
+
+export const spendLegendaryActionSchema = z.object({
+  participantId: objectIdSchema,
+  cost: z.number().int('Cost must be a whole number').min(1).max(3).default(1),
+  actionName: z.string().trim().max(100, 'Action name cannot exceed 100 characters').optional(),
+});
+
+export const configureLegendaryActionsSchema = z.object({
+  participantId: objectIdSchema,
+  max: legendaryActionCountSchema,
+});
+
+export const spendResourceSchema = z.object({
+  participantId: objectIdSchema,
+  resourceId: z.string().min(1, 'Resource is required'),
+  amount: z.number().int('Amount must be a whole number').min(1).max(20).default(1),
+});
+
+export const configureResourceSchema = z.object({
+  participantId: objectIdSchema,
+  name: z
+    .string()
+    .trim()
+    .min(1, 'Resource name is required')
+    .max(50, 'Resource name cannot exceed 50 characters')
+    .regex(/[a-z0-9]/i, 'Resource name must contain a letter or number'),
+  max: resourceUsesSchema,
+  recharge: resourceRechargeSchema.default('long_rest'),
+});
+
+export const restSchema = z.object({
+  type: z.enum(['short', 'long']),
 });
 
 export const nextTurnSchema = z.object({
@@ -294,6 +550,29 @@ export const endCombatSchema = z.object({
   encounterId: objectIdSchema,
 });
 
+// Share link schemas
+export const shareScopeSchema = z.enum(['read_only', 'player_view', 'clone_template']);
+
+// Share links last from one minute to seven days
+export const shareExpirySchema = z
+  .number()
+  .int()
+  .min(60 * 1000, 'Share links must last at least one minute')
+  .max(7 * 24 * 60 * 60 * 1000, 'Share links cannot last longer than 7 days');
+
+export const createShareLinkSchema = z.object({
+  expiresIn: shareExpirySchema.default(24 * 60 * 60 * 1000),
+  scope: shareScopeSchema.default('read_only'),
+});
+
+export const extendShareLinkSchema = z.object({
+  expiresIn: shareExpirySchema,
+});
+
+export const cloneSharedEncounterSchema = z.object({
+  name: z.string().trim().min(1).max(100).optional(),
+});
+
 // API request schemas
 export const getEncounterByIdSchema = z.object({
   id: objectIdSchema,
@@ -337,11 +616,34 @@ export type ParticipantType = InferSchemaType<typeof participantTypeSchema>;
 export type StartCombat = InferSchemaType<typeof startCombatSchema>;
 export type UpdateInitiative = InferSchemaType<typeof updateInitiativeSchema>;
 export type DamageParticipant = InferSchemaType<typeof damageParticipantSchema>;
+export type DamageInstanceInput = InferSchemaType<typeof damageInstanceSchema>;
+export type CombatDamage = InferSchemaType<typeof combatDamageSchema>;
 export type HealParticipant = InferSchemaType<typeof healParticipantSchema>;
+export type ParticipantCondition = InferSchemaType<typeof participantConditionSchema>;
+export type ApplyCondition = InferSchemaType<typeof applyConditionSchema>;
 export type AddCondition = InferSchemaType<typeof addConditionSchema>;
 export type RemoveCondition = InferSchemaType<typeof removeConditionSchema>;
+export type ParticipantConcentration = InferSchemaType<typeof participantConcentrationSchema>;
+export type ConditionSave = InferSchemaType<typeof conditionSaveSchema>;
+export type StartConcentration = InferSchemaType<typeof startConcentrationSchema>;
+export type CombatEffect = InferSchemaType<typeof combatEffectSchema>;
+export type AddCombatEffect = InferSchemaType<typeof addCombatEffectSchema>;
+export type RemoveCombatEffect = InferSchemaType<typeof removeCombatEffectSchema>;
+export type ConcentrationSave = InferSchemaType<typeof concentrationSaveSchema>;
+export type DeathSaves = InferSchemaType<typeof deathSavesSchema>;
+export type DeathSaveRoll = InferSchemaType<typeof deathSaveRollSchema>;
+export type LegendaryActions = InferSchemaType<typeof legendaryActionsSchema>;
+export type SpendLegendaryAction = InferSchemaType<typeof spendLegendaryActionSchema>;
+export type ConfigureLegendaryActions = InferSchemaType<typeof configureLegendaryActionsSchema>;
+export type ParticipantResource = InferSchemaType<typeof participantResourceSchema>;
+export type SpendResource = InferSchemaType<typeof spendResourceSchema>;
+export type ConfigureResource = InferSchemaType<typeof configureResourceSchema>;
+export type Rest = InferSchemaType<typeof restSchema>;
 export type NextTurn = InferSchemaType<typeof nextTurnSchema>;
 export type EndCombat = InferSchemaType<typeof endCombatSchema>;
+export type ShareScope = InferSchemaType<typeof shareScopeSchema>;
+export type CreateShareLink = InferSchemaType<typeof createShareLinkSchema>;
+export type ExtendShareLink = InferSchemaType<typeof extendShareLinkSchema>;
 
 // API request types
 export type GetEncounterById = InferSchemaType<typeof getEncounterByIdSchema>;
@@ -112,6 +112,36 @@ export const removeMemberSchema = z.object({
   characterId: objectIdSchema,
 });
 
+// Join request status and the owner's answer to a request
+export const joinRequestStatusSchema = z.enum(['pending', 'approved', 'rejected']);
+
+export const joinRequestCreateSchema = z.object({
+  characterId: objectIdSchema,
+  message: z.string().max(500, 'Message cannot exceed 500 characters').trim().optional(),
+});
+
+export const joinRequestResponseSchema = z.object({
+  status: z.enum(['approved', 'rejected']),
+});
+
+// Invite codes last from an hour up to 30 days (milliseconds)
+export const partyInviteCreateSchema = z.object({
+  expiresIn: z
+    .number()
+    .int()
+    .min(60 * 60 * 1000, 'Invite must last at least an hour')
+    .max(30 * 24 * 60 * 60 * 1000, 'Invite cannot last more than 30 days')
+    .default(7 * 24 * 60 * 60 * 1000),
+});
+
+// Characters a player brings into a party through an invite code
+export const partyInviteJoinSchema = z.object({
+  characterIds: z
+    .array(objectIdSchema)
+    .min(1, 'Choose at least one character')
+    .max(10, 'Cannot join with more than 10 characters'),
+});
+
 // Share party schema
 export const sharePartySchema = z.object({
   userIds: z
@@ -121,6 +151,25 @@ export const sharePartySchema = z.object({
   shareType: z.enum(['add', 'remove', 'replace']).default('add'),
 });
 
+// Hit dice a member spends on a short rest; rolls are the numbers shown on
+// each die, any dice without a roll are rolled for them
+export const hitDiceSpendSchema = z.object({
+  characterId: objectIdSchema,
+  count: z.number().int('Hit dice must be a whole number').min(0).max(20),
+  rolls: z.array(z.number().int('Rolls must be whole numbers').min(1).max(12)).max(20).optional(),
+});
+
+// Party rest request
+export const partyRestSchema = z.discriminatedUnion('type', [
+  z.object({
+    type: z.literal('short'),
+    hitDice: z.array(hitDiceSpendSchema).max(100).default([]),
+  }),
+  z.object({
+    type: z.literal('long'),
+  }),
+]);
+
 // Type exports for use in services and API routes
 export type PartyCreate = z.infer<typeof partyCreateSchema>;
 export type PartyUpdate = z.infer<typeof partyUpdateSchema>;
@@ -132,7 +181,14 @@ export type PartyQuery = z.infer<typeof partyQuerySchema>;
 export type AddMember = z.infer<typeof addMemberSchema>;
 export type RemoveMember = z.infer<typeof removeMemberSchema>;
 export type ShareParty = z.infer<typeof sharePartySchema>;
+export type JoinRequestStatus = z.infer<typeof joinRequestStatusSchema>;
+export type JoinRequestCreate = z.infer<typeof joinRequestCreateSchema>;
+export type JoinRequestResponse = z.infer<typeof joinRequestResponseSchema>;
+export type PartyInviteCreate = z.infer<typeof partyInviteCreateSchema>;
+export type PartyInviteJoin = z.infer<typeof partyInviteJoinSchema>;
 export type PartySettings = z.infer<typeof partySettingsSchema>;
+export type HitDiceSpend = z.infer<typeof hitDiceSpendSchema>;
+export type PartyRest = z.infer<typeof partyRestSchema>;
 
 // Response type for party list items (matches frontend expectations)
 export interface PartyListItem {
@@ -10,6 +10,7 @@ const isProtectedRoute = createRouteMatcher([
   '/characters(.*)',
   '/encounters(.*)',
   '/parties(.*)',
+  '/campaigns(.*)',
   '/combat(.*)',
   '/settings(.*)',
 ]);
@@ -22,9 +23,19 @@ const isProtectedApiRoute = createRouteMatcher([
   '/api/characters(.*)',
   '/api/encounters(.*)',
   '/api/parties(.*)',
+  '/api/campaigns(.*)',
   '/api/combat(.*)',
 ]);
 
+/**
+ * Shared encounter links open without signing in; the share token is the
+ * credential and is checked by the route itself
+ */
+const isPublicSharedRoute = createRouteMatcher([
+  '/encounters/shared(.*)',
+  '/api/encounters/shared(.*)',
+]);
+
 /**
  * Creates a JSON response for unauthenticated API requests
  */
@@ -55,7 +66,7 @@ export default clerkMiddleware(async (auth, req) => {
   const isPageRoute = isProtectedRoute(req);
 
   // If route doesn't need protection, continue
-  if (!isApiRoute && !isPageRoute) {
+  if ((!isApiRoute && !isPageRoute) || isPublicSharedRoute(req)) {
     return NextResponse.next();
   }
 
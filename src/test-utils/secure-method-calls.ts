@@ -175,6 +175,8 @@ export class SecureKeyboardActionHandler {
       'KeyR': 'KeyR',
       'KeyS': 'KeyS',
       'KeyE': 'KeyE',
+      'KeyY': 'KeyY',
+      'KeyZ': 'KeyZ',
     };
 
     const safeKey = keyMap[keyCode];
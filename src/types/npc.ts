@@ -28,6 +28,21 @@ export const SizeSchema = z.enum([
   'gargantuan'
 ]);
 
+// Environments a creature is found in, as used to build random encounters
+export const EnvironmentSchema = z.enum([
+  'arctic',
+  'coastal',
+  'desert',
+  'forest',
+  'grassland',
+  'hill',
+  'mountain',
+  'swamp',
+  'underdark',
+  'underwater',
+  'urban'
+]);
+
 // Challenge Rating values
 export const ChallengeRatingSchema = z.union([
   z.literal(0),
@@ -112,6 +127,12 @@ export const NPCActionSchema = z.object({
   maxUses: z.number().int().min(0).optional(),
 });
 
+// NPC Traits, e.g. "Pack Tactics" or "Legendary Resistance (3/Day)"
+export const NPCTraitSchema = z.object({
+  name: z.string().min(1, 'Trait name is required'),
+  description: z.string().min(1, 'Trait description is required'),
+});
+
 // NPC Behavior notes
 export const NPCBehaviorSchema = z.object({
   personality: z.string().optional(),
@@ -134,6 +155,8 @@ export const NPCTemplateSchema = z.object({
   equipment: z.array(NPCEquipmentSchema).optional().default([]),
   spells: z.array(NPCSpellSchema).optional().default([]),
   actions: z.array(NPCActionSchema).optional().default([]),
+  traits: z.array(NPCTraitSchema).optional(),
+  environments: z.array(EnvironmentSchema).optional(),
   behavior: NPCBehaviorSchema.optional(),
   isSystem: z.boolean().optional().default(false), // True for built-in templates
   createdBy: z.string().optional(), // User ID for custom templates
@@ -188,12 +211,23 @@ export const TemplateFilterSchema = z.object({
   maxCR: ChallengeRatingSchema.optional(),
   search: z.string().optional(),
   size: SizeSchema.optional(),
+  environment: EnvironmentSchema.optional(),
   isSystem: z.boolean().optional(),
 });
 
+// Query parameters for a page of templates from the template API
+export const TemplateQuerySchema = TemplateFilterSchema.extend({
+  minCR: z.coerce.number().pipe(ChallengeRatingSchema).optional(),
+  maxCR: z.coerce.number().pipe(ChallengeRatingSchema).optional(),
+  isSystem: z.enum(['true', 'false']).transform(value => value === 'true').optional(),
+  page: z.coerce.number().int().min(1).default(1),
+  limit: z.coerce.number().int().min(1).max(100).default(20),
+});
+
 // Type exports
 export type CreatureType = z.infer<typeof CreatureTypeSchema>;
 export type Size = z.infer<typeof SizeSchema>;
+export type Environment = z.infer<typeof EnvironmentSchema>;
 export type ChallengeRating = z.infer<typeof ChallengeRatingSchema>;
 export type NPCAbilityScores = z.infer<typeof NPCAbilityScoresSchema>;
 export type NPCHitPoints = z.infer<typeof NPCHitPointsSchema>;
@@ -201,12 +235,14 @@ export type NPCStats = z.infer<typeof NPCStatsSchema>;
 export type NPCEquipment = z.infer<typeof NPCEquipmentSchema>;
 export type NPCSpell = z.infer<typeof NPCSpellSchema>;
 export type NPCAction = z.infer<typeof NPCActionSchema>;
+export type NPCTrait = z.infer<typeof NPCTraitSchema>;
 export type NPCBehavior = z.infer<typeof NPCBehaviorSchema>;
 export type NPCTemplate = z.infer<typeof NPCTemplateSchema>;
 export type NPCCreationData = z.infer<typeof NPCCreationSchema>;
 export type VariantType = z.infer<typeof VariantTypeSchema>;
 export type ImportFormat = z.infer<typeof ImportFormatSchema>;
 export type TemplateFilter = z.infer<typeof TemplateFilterSchema>;
+export type TemplateQuery = z.infer<typeof TemplateQuerySchema>;
 
 // Utility functions
 export function calculateProficiencyBonus(challengeRating: ChallengeRating): number {